@@ -54,7 +54,7 @@ async function migrateStealthDataToPrimaryAddresses(dryRun: boolean = true): Pro
       // Determine correct primary address based on source and metadata
       if (metadata?.source === 'frontend-settings' || metadata?.source === 'miniapp-settings') {
         // For frontend/miniapp: use connected wallet address
-        if (metadata?.connectedWallet) {
+        if (typeof metadata?.connectedWallet === 'string') {
           correctPrimaryAddress = metadata.connectedWallet.toLowerCase();
           migrationReason = 'Connected wallet from metadata';
         } else {
@@ -0,0 +1,562 @@
+#!/usr/bin/env tsx
+import assert from "node:assert/strict";
+import { secp256k1 } from "@noble/curves/secp256k1";
+import { bytesToHex, decodeFunctionData, hexToBytes, type Hex } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+
+// The agent validates config on import; placeholders are enough offline
+process.env.WALLET_KEY ??= `0x${"11".repeat(32)}`;
+process.env.ENCRYPTION_KEY ??= "22".repeat(32);
+process.env.API_SECRET_KEY ??= "test";
+process.env.RECLAIM_APP_ID ??= "test";
+process.env.RECLAIM_APP_SECRET ??= "test";
+process.env.STORAGE_BACKEND = "memory";
+delete process.env.STORAGE_FILE;
+
+// fkey.id lookups come back with proofs signed by this attestor
+const ATTESTOR = privateKeyToAccount(`0x${"a7".repeat(32)}`);
+process.env.RECLAIM_ATTESTOR_ADDRESSES = ATTESTOR.address;
+
+const { AgentHarness, actionMenus, textReplies, walletSendCalls } =
+  await import("../src/agents/testing/fake-xmtp.js");
+const { checkStealthAddress, formatStealthMetaAddress } =
+  await import("../src/lib/stealth-address.js");
+const { createStealthPaymentTarget, ERC5564_ANNOUNCER_ABI } =
+  await import("../src/lib/stealth-announcer.js");
+const { StealthAnnouncementQueue } =
+  await import("../src/services/stealth-announcement-queue.js");
+const { MemoryStore } = await import("../src/lib/storage.js");
+const { FKEY_ADDRESS_REGEX, getClaimIdentifier, serializeClaim } =
+  await import("../src/lib/reclaim-proof-verification.js");
+
+// No OpenAI/Coinbase/Neynar: plugins fall back to their offline paths
+for (const key of [
+  "OPENAI_API_KEY",
+  "COINBASE_API_PRIVATE_KEY",
+  "NEYNAR_API_KEY",
+  "NEYNAR_SPONSOR_WALLET_ID",
+]) {
+  delete process.env[key];
+}
+
+const ALICE_ADDRESS = "0xA11CE00000000000000000000000000000000001";
+const BOB_ADDRESS = "0xB0B0000000000000000000000000000000000002";
+const STEALTH_ADDRESS = "0x5EA1700000000000000000000000000000000003";
+const TX_HASH = `0x${"ab".repeat(32)}`;
+
+async function fkeyProof(fkeyId: string) {
+  const claimData = {
+    provider: "http",
+    parameters: JSON.stringify({
+      method: "GET",
+      responseMatches: [{ type: "regex", value: FKEY_ADDRESS_REGEX }],
+      url: `https://${fkeyId}.fkey.id`,
+    }),
+    context: JSON.stringify({
+      extractedParameters: { address: STEALTH_ADDRESS },
+    }),
+    owner: ATTESTOR.address,
+    timestampS: Math.floor(Date.now() / 1000),
+    epoch: 1,
+    identifier: "",
+  };
+  claimData.identifier = getClaimIdentifier(claimData);
+  const signature = await ATTESTOR.signMessage({
+    message: serializeClaim(claimData),
+  });
+  return {
+    claimData,
+    signatures: [signature],
+    witnesses: [{ id: ATTESTOR.address, url: "" }],
+  };
+}
+
+// Only the fkey.id lookup answers; every other outbound call is a 404.
+// "mallory" answers with an unsigned proof the agent must not trust.
+const registeredFkeys = new Set(["alice", "carol", "mallory"]);
+globalThis.fetch = (async (input: string | URL | Request) => {
+  const url = new URL(
+    typeof input === "string"
+      ? input
+      : input instanceof URL
+        ? input.href
+        : input.url,
+  );
+  const lookup = url.pathname.match(/\/api\/fkey\/lookup\/([^/]+)$/);
+
+  if (lookup && registeredFkeys.has(lookup[1])) {
+    const proof = await fkeyProof(lookup[1]);
+    if (lookup[1] === "mallory") proof.signatures = [];
+    return Response.json({
+      isRegistered: true,
+      address: STEALTH_ADDRESS,
+      proof,
+    });
+  }
+  if (lookup) {
+    return Response.json({ isRegistered: false, error: "fkey.id not found" });
+  }
+  return new Response("not found", { status: 404, statusText: "Not Found" });
+}) as typeof fetch;
+
+// ERC-6538 keys Alice linked with /stealth-keys
+const ALICE_VIEWING_KEY = `0x${"0a".repeat(32)}` as Hex;
+const ALICE_SPENDING_PUBLIC_KEY = bytesToHex(
+  secp256k1.getPublicKey(hexToBytes(`0x${"0b".repeat(32)}`), true),
+);
+const ALICE_META_ADDRESS = formatStealthMetaAddress({
+  spendingPublicKey: ALICE_SPENDING_PUBLIC_KEY,
+  viewingPublicKey: bytesToHex(
+    secp256k1.getPublicKey(hexToBytes(ALICE_VIEWING_KEY), true),
+  ),
+});
+
+async function linkStealthKeys(
+  harness: InstanceType<typeof AgentHarness>,
+  user: { inboxId: string; address: string },
+) {
+  for (const userId of [user.address.toLowerCase(), user.inboxId]) {
+    const stored = await harness.db.getStealthDataByUser(userId);
+    await harness.db.storeUserStealthData({
+      ...stored!,
+      stealthMetaAddress: ALICE_META_ADDRESS,
+      stealthMetaAddressNetwork: "base",
+    });
+  }
+}
+
+function setup() {
+  const harness = new AgentHarness();
+  const alice = harness.client.addUser("alice-inbox", ALICE_ADDRESS);
+  const bob = harness.client.addUser("bob-inbox", BOB_ADDRESS);
+  return { harness, alice, bob };
+}
+
+const tests: [string, () => Promise<void>][] = [
+  [
+    "onboarding: new users get welcome actions once, then a setup reminder",
+    async () => {
+      const { harness, bob } = setup();
+      const dm = harness.client.dm(bob);
+
+      const first = await harness.sendText(dm, bob, "hello");
+      const [welcome] = actionMenus(first);
+      assert.match(welcome.description, /Welcome to dStealth/);
+      assert.deepEqual(
+        welcome.actions.map((action) => action.label),
+        ["✅ I have an fkey", "🆕 I don't have an fkey"],
+      );
+      assert.deepEqual(textReplies(first), []);
+      assert.equal(first[0].contentType?.typeId, "reaction");
+
+      const second = await harness.sendText(dm, bob, "hello again");
+      assert.deepEqual(actionMenus(second), []);
+      assert.match(textReplies(second)[0], /Complete Your Setup/);
+    },
+  ],
+  [
+    "onboarding: /set verifies the fkey.id and stores it by wallet address",
+    async () => {
+      const { harness, alice } = setup();
+      const dm = harness.client.dm(alice);
+
+      const [reply] = textReplies(
+        await harness.sendText(dm, alice, "/set alice.fkey.id"),
+      );
+      assert.match(reply, /fkey\.id Set Successfully/);
+
+      const stored = await harness.db.getStealthDataByUser(ALICE_ADDRESS);
+      assert.equal(stored?.fkeyId, "alice");
+      assert.equal(stored?.stealthAddress, STEALTH_ADDRESS);
+      assert.equal(stored?.proofVerification?.verified, true);
+      assert.ok(stored!.proofVerification!.expiresAt! > Date.now());
+
+      const [failed] = textReplies(
+        await harness.sendText(dm, alice, "my fkey is nobody"),
+      );
+      assert.match(failed, /Could not verify `nobody\.fkey\.id`/);
+
+      // A proof the attestor didn't sign never reaches the database
+      const [unverified] = textReplies(
+        await harness.sendText(dm, alice, "/set mallory"),
+      );
+      assert.match(unverified, /ZK proof could not be verified/);
+      assert.equal(
+        (await harness.db.getStealthDataByUser(ALICE_ADDRESS))?.fkeyId,
+        "alice",
+      );
+    },
+  ],
+  [
+    "intents: welcome buttons are routed to onboarding, stale ones expire",
+    async () => {
+      const { harness, bob } = setup();
+      const dm = harness.client.dm(bob);
+      const [welcome] = actionMenus(await harness.sendText(dm, bob, "hi"));
+
+      const [prompt] = textReplies(
+        await harness.sendIntent(dm, bob, {
+          id: welcome.id,
+          actionId: welcome.actions[0].id,
+        }),
+      );
+      assert.match(prompt, /Set Your fkey\.id/);
+
+      const [expired] = textReplies(
+        await harness.sendIntent(dm, bob, {
+          id: "help-actions-1-old",
+          actionId: "check-balance-1-old",
+        }),
+      );
+      assert.match(expired, /This action has expired/);
+    },
+  ],
+  [
+    "payments: amounts and /balance need an fkey.id",
+    async () => {
+      const { harness, bob } = setup();
+      const dm = harness.client.dm(bob);
+
+      const [amountReply] = textReplies(
+        await harness.sendText(dm, bob, "create payment link for $25"),
+      );
+      assert.match(amountReply, /Setup Required/);
+
+      const [balanceReply] = textReplies(
+        await harness.sendText(dm, bob, "/balance"),
+      );
+      assert.match(balanceReply, /Setup Required/);
+    },
+  ],
+  [
+    "payments: unsupported tokens and chains are rejected with what is supported",
+    async () => {
+      const { harness, alice } = setup();
+      await harness.onboardUser(alice, "alice", STEALTH_ADDRESS);
+      const dm = harness.client.dm(alice);
+
+      const [token] = textReplies(
+        await harness.sendText(dm, alice, "request 10 DAI on base"),
+      );
+      assert.match(token, /Unsupported token "DAI"/);
+      assert.match(token, /• ETH: Ethereum, Base, Optimism, Arbitrum/);
+
+      const [combo] = textReplies(
+        await harness.sendText(dm, alice, "request 1 ETH on polygon"),
+      );
+      assert.match(combo, /ETH is not supported on Polygon/);
+    },
+  ],
+  [
+    "payments: ETH requests get a native EIP-681 wallet link and no Daimo link",
+    async () => {
+      const { harness, alice } = setup();
+      await harness.onboardUser(alice, "alice", STEALTH_ADDRESS);
+      const dm = harness.client.dm(alice);
+
+      const [menu] = actionMenus(
+        await harness.sendText(dm, alice, "request 0.01 ETH on mainnet"),
+      );
+      assert.match(menu.description, /Amount: 0\.01 ETH on Ethereum/);
+      assert.ok(
+        !menu.actions.some((action) => action.id.startsWith("daimo-pay-link")),
+      );
+
+      const tba = menu.actions.find((action) =>
+        action.id.startsWith("tba-request-link"),
+      )!;
+      const [link] = textReplies(
+        await harness.sendIntent(dm, alice, { id: menu.id, actionId: tba.id }),
+      );
+      assert.ok(
+        decodeURIComponent(link).includes(
+          `ethereum:${STEALTH_ADDRESS}@1?value=10000000000000000`,
+        ),
+      );
+    },
+  ],
+  [
+    "payments: linked stealth keys get a fresh announced address per link",
+    async () => {
+      const { harness, alice } = setup();
+      await harness.onboardUser(alice, "alice", STEALTH_ADDRESS);
+      await linkStealthKeys(harness, alice);
+      const dm = harness.client.dm(alice);
+
+      const requestBatch = async () => {
+        const [menu] = actionMenus(
+          await harness.sendText(dm, alice, "request 0.01 ETH on base"),
+        );
+        const send = menu.actions.find((action) =>
+          action.id.startsWith("send-to-stealth"),
+        )!;
+        const sent = await harness.sendIntent(dm, alice, {
+          id: menu.id,
+          actionId: send.id,
+        });
+        const [batch] = walletSendCalls(sent);
+        return batch;
+      };
+
+      const first = await requestBatch();
+      const second = await requestBatch();
+      assert.notEqual(
+        first.calls[0].metadata?.stealthAddress,
+        second.calls[0].metadata?.stealthAddress,
+      );
+
+      // The payer's batch carries the announcement
+      for (const batch of [first, second]) {
+        const stealthAddress = batch.calls[0].metadata?.stealthAddress;
+        assert.notEqual(stealthAddress, STEALTH_ADDRESS);
+        assert.equal(batch.calls.length, 2);
+
+        const { args } = decodeFunctionData({
+          abi: ERC5564_ANNOUNCER_ABI,
+          data: batch.calls[1].data ?? "0x",
+        });
+        const [schemeId, announced, ephemeralPubKey, metadata] = args;
+        assert.equal(announced, stealthAddress);
+        assert.ok(
+          checkStealthAddress(
+            { schemeId, stealthAddress: announced, ephemeralPubKey, metadata },
+            {
+              viewingPrivateKey: ALICE_VIEWING_KEY,
+              spendingPublicKey: ALICE_SPENDING_PUBLIC_KEY,
+            },
+          ),
+        );
+      }
+    },
+  ],
+  [
+    "payments: the agent only announces one-time addresses once they are paid",
+    async () => {
+      const funded = new Set<string>();
+      const announced: string[] = [];
+      const queue = new StealthAnnouncementQueue(new MemoryStore(), {
+        getBlockNumber: async () => 100n,
+        isFunded: async ({ target }) => funded.has(target.stealthAddress),
+        isAnnounced: async () => false,
+        announce: async ({ target }) => {
+          announced.push(target.stealthAddress);
+          return TX_HASH as Hex;
+        },
+      });
+      const target = () =>
+        createStealthPaymentTarget(ALICE_META_ADDRESS, {
+          token: null,
+          amount: 1n,
+        });
+
+      const paid = target();
+      assert.equal(await queue.enqueue(paid, 8453, null, "alice-inbox"), true);
+      assert.equal(await queue.processPending(), 0);
+
+      funded.add(paid.stealthAddress);
+      assert.equal(await queue.processPending(), 1);
+      assert.deepEqual(announced, [paid.stealthAddress]);
+      assert.equal(await queue.processPending(), 0);
+
+      // Unsupported chains and requesters over their daily quota aren't queued
+      assert.equal(
+        await queue.enqueue(target(), 137, null, "alice-inbox"),
+        false,
+      );
+      for (let i = 1; i < 20; i++) {
+        assert.equal(
+          await queue.enqueue(target(), 8453, null, "alice-inbox"),
+          true,
+        );
+      }
+      assert.equal(
+        await queue.enqueue(target(), 8453, null, "alice-inbox"),
+        false,
+      );
+      assert.equal(
+        await queue.enqueue(target(), 8453, null, "bob-inbox"),
+        true,
+      );
+    },
+  ],
+  [
+    "payments: long-lived links are checked for announcements in bounded chunks",
+    async () => {
+      let head = 100n;
+      const scanned: [bigint, bigint][] = [];
+      const announced: string[] = [];
+      const queue = new StealthAnnouncementQueue(new MemoryStore(), {
+        getBlockNumber: async () => head,
+        isFunded: async () => true,
+        isAnnounced: async (_pending, fromBlock, toBlock) => {
+          scanned.push([fromBlock, toBlock]);
+          return false;
+        },
+        announce: async ({ target }) => {
+          announced.push(target.stealthAddress);
+          return TX_HASH as Hex;
+        },
+      });
+      const paid = createStealthPaymentTarget(ALICE_META_ADDRESS, {
+        token: null,
+        amount: 1n,
+      });
+      assert.equal(await queue.enqueue(paid, 8453, null, "alice-inbox"), true);
+
+      // 80,000 blocks later: the first run stops after 50 windows
+      head = 80_099n;
+      assert.equal(await queue.processPending(), 0);
+      assert.equal(scanned.length, 50);
+      assert.deepEqual(scanned[0], [100n, 1099n]);
+
+      // ...and the second resumes where it stopped, reaches the head and announces
+      assert.equal(await queue.processPending(), 1);
+      assert.deepEqual(scanned[50], [50_100n, 51_099n]);
+      assert.deepEqual(scanned[scanned.length - 1], [79_100n, 80_099n]);
+      assert.ok(scanned.every(([from, to]) => to - from < 1000n));
+      assert.deepEqual(announced, [paid.stealthAddress]);
+    },
+  ],
+  [
+    "payments: /pay batches every recipient's transfer and announcement",
+    async () => {
+      const { harness, alice, bob } = setup();
+      await harness.onboardUser(alice, "alice", STEALTH_ADDRESS);
+      await linkStealthKeys(harness, alice);
+      const dm = harness.client.dm(bob);
+
+      const sent = await harness.sendText(
+        dm,
+        bob,
+        "/pay alice.fkey.id 0.01, carol 0.02 ETH on base",
+      );
+      const [batch] = walletSendCalls(sent);
+      assert.equal(batch.from, BOB_ADDRESS);
+      assert.equal(batch.chainId, "0x2105");
+
+      // Alice: one-time address plus announcement; carol: her fkey.id address
+      assert.deepEqual(
+        batch.calls.map((call) => call.metadata?.transactionType),
+        ["transfer", "announce", "transfer"],
+      );
+      assert.notEqual(batch.calls[0].to, STEALTH_ADDRESS);
+      assert.equal(batch.calls[0].value, "0x2386f26fc10000");
+      assert.equal(batch.calls[2].to, STEALTH_ADDRESS);
+
+      const [summary] = textReplies(sent);
+      assert.match(
+        summary,
+        /alice\.fkey\.id: 0\.01 ETH \(one-time stealth address\)/,
+      );
+      assert.match(summary, /Total: 0\.03 ETH on Base/);
+
+      const [missing] = textReplies(
+        await harness.sendText(dm, bob, "/pay alice 1, nobody 2"),
+      );
+      assert.match(missing, /Could not resolve nobody\.fkey\.id/);
+      assert.match(missing, /Nothing was sent/);
+    },
+  ],
+  [
+    "payments: onboarded users get their balance and transaction receipts",
+    async () => {
+      const { harness, alice } = setup();
+      await harness.onboardUser(alice, "alice", STEALTH_ADDRESS);
+      const dm = harness.client.dm(alice);
+
+      const [balance] = textReplies(
+        await harness.sendText(dm, alice, "/balance"),
+      );
+      assert.match(balance, /Profile: alice\.fkey\.id/);
+
+      const [receipt] = textReplies(
+        await harness.sendTransactionReference(dm, alice, {
+          networkId: "base",
+          reference: TX_HASH,
+          metadata: { currency: "USDC", amount: 5_000_000, decimals: 6 },
+        }),
+      );
+      assert.match(receipt, new RegExp(`Transaction Hash: ${TX_HASH}`));
+      assert.match(receipt, /Amount: 5 USDC/);
+    },
+  ],
+  [
+    "search: /fkey looks up other users' fkey.id",
+    async () => {
+      const { harness, alice } = setup();
+      await harness.onboardUser(alice, "alice", STEALTH_ADDRESS);
+      const dm = harness.client.dm(alice);
+
+      const [found] = textReplies(
+        await harness.sendText(dm, alice, "/fkey alice"),
+      );
+      assert.match(found, /Profile: alice\.fkey\.id/);
+      assert.match(found, /Address: 0x5EA1\.\.\.0003/);
+
+      const [missing] = textReplies(
+        await harness.sendText(dm, alice, "/fkey nobody"),
+      );
+      assert.match(missing, /Lookup Failed/);
+    },
+  ],
+  [
+    "farcaster: /fc explains how to connect when no profile is linked",
+    async () => {
+      const { harness, alice } = setup();
+      await harness.onboardUser(alice, "alice", STEALTH_ADDRESS);
+
+      const [reply] = textReplies(
+        await harness.sendText(harness.client.dm(alice), alice, "/farcaster"),
+      );
+      assert.match(reply, /No Farcaster Profile Found/);
+    },
+  ],
+  [
+    "groups: members without an fkey.id are sent to DMs, @mentions get answers",
+    async () => {
+      const { harness, alice, bob } = setup();
+      await harness.onboardUser(alice, "alice", STEALTH_ADDRESS);
+      const group = harness.client.group("group-1");
+
+      const [dmPrompt] = textReplies(
+        await harness.sendText(group, bob, "hello"),
+      );
+      assert.match(dmPrompt, /DM me to set up your fkey\.id/);
+      assert.deepEqual(actionMenus(group.sent), []);
+
+      const [greeting] = textReplies(
+        await harness.sendText(group, alice, "@dstealth hello"),
+      );
+      assert.match(greeting, /I'm dStealth/);
+    },
+  ],
+  [
+    "/help for new users only lists the commands they can use",
+    async () => {
+      const { harness, bob } = setup();
+
+      const [help] = textReplies(
+        await harness.sendText(harness.client.dm(bob), bob, "/help"),
+      );
+      assert.match(help, /• \/set <username> - Set your fkey\.id/);
+      assert.doesNotMatch(help, /\/balance/);
+    },
+  ],
+];
+
+let failed = 0;
+for (const [name, run] of tests) {
+  try {
+    await run();
+    console.log(`✅ ${name}`);
+  } catch (error) {
+    failed++;
+    console.error(`❌ ${name}`);
+    console.error(error);
+  }
+}
+
+console.log(
+  `\n🧪 ${tests.length - failed}/${tests.length} agent plugin tests passed`,
+);
+if (failed > 0) process.exit(1);
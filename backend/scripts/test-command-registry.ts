@@ -0,0 +1,230 @@
+#!/usr/bin/env tsx
+import assert from "node:assert/strict";
+import {
+  CommandRegistry,
+  tokenize,
+  type CommandArgs,
+  type CommandContext,
+} from "../src/agents/commands/command-registry.js";
+
+function context(overrides: Partial<CommandContext> = {}): CommandContext {
+  return {
+    senderInboxId: "inbox-1",
+    isGroup: false,
+    isOnboarded: true,
+    rawInput: "",
+    ...overrides,
+  };
+}
+
+function createRegistry(calls: CommandArgs[] = []): CommandRegistry {
+  const record = (args: CommandArgs) => {
+    calls.push(args);
+    return "ok";
+  };
+
+  return new CommandRegistry({
+    requiresOnboarding: () => "onboard first",
+  })
+    .register({
+      name: "fkey",
+      description: "Look up someone's fkey.id",
+      category: "Info",
+      args: [{ name: "username", type: "string" }],
+      handler: record,
+    })
+    .register({
+      name: "fc",
+      aliases: ["farcaster"],
+      description: "Show your Farcaster profile",
+      category: "Farcaster",
+      handler: record,
+    })
+    .register({
+      name: "find-users",
+      description: "Search FC users",
+      category: "Farcaster",
+      args: [{ name: "query", type: "rest" }],
+      handler: record,
+    })
+    .register({
+      name: "pay",
+      description: "Pay someone",
+      args: [
+        { name: "amount", type: "number" },
+        { name: "to", type: "address", optional: true },
+      ],
+      handler: record,
+    })
+    .register({
+      name: "set",
+      description: "Set your fkey.id",
+      category: "Setup",
+      args: [{ name: "username", type: "string" }],
+      requiresOnboarding: false,
+      handler: record,
+    })
+    .register({
+      name: "secret",
+      description: "DM only",
+      availability: "dm",
+      handler: record,
+    });
+}
+
+const tests: [string, () => Promise<void>][] = [
+  [
+    "tokenize splits on whitespace and keeps quoted phrases",
+    async () => {
+      assert.deepEqual(tokenize(`  a  "b c"   d `), ["a", "b c", "d"]);
+    },
+  ],
+  [
+    "command names are case-insensitive, arguments keep their case",
+    async () => {
+      const calls: CommandArgs[] = [];
+      const registry = createRegistry(calls);
+
+      assert.equal(await registry.execute("/FKEY TantoDefi", context()), "ok");
+      assert.deepEqual(calls[0], { username: "TantoDefi" });
+    },
+  ],
+  [
+    "aliases resolve to the same command",
+    async () => {
+      const calls: CommandArgs[] = [];
+      const registry = createRegistry(calls);
+
+      assert.equal(await registry.execute("/farcaster", context()), "ok");
+      assert.equal(registry.resolve("farcaster")?.name, "fc");
+    },
+  ],
+  [
+    "missing, extra and mistyped arguments produce usage errors",
+    async () => {
+      const registry = createRegistry();
+
+      assert.equal(
+        await registry.execute("/fkey", context()),
+        "❌ Missing username\n\nUsage: /fkey <username>",
+      );
+      assert.match(
+        (await registry.execute("/fkey a b", context()))!,
+        /Too many arguments/,
+      );
+      assert.match(
+        (await registry.execute("/pay ten", context()))!,
+        /amount must be a number\n\nUsage: \/pay <amount> \[to\]/,
+      );
+      assert.match(
+        (await registry.execute("/pay 5 bob", context()))!,
+        /to must be a 0x address/,
+      );
+    },
+  ],
+  [
+    "typed arguments are converted",
+    async () => {
+      const calls: CommandArgs[] = [];
+      const registry = createRegistry(calls);
+      const to = "0x55649E01B5Df198D18D95b5cc5051630cfD45564";
+
+      await registry.execute(`/pay $12.5 ${to}`, context());
+      assert.deepEqual(calls[0], { amount: 12.5, to });
+    },
+  ],
+  [
+    "rest arguments take the remaining raw text",
+    async () => {
+      const calls: CommandArgs[] = [];
+      const registry = createRegistry(calls);
+
+      await registry.execute("/find-users Vitalik  Buterin", context());
+      assert.deepEqual(calls[0], { query: "Vitalik  Buterin" });
+    },
+  ],
+  [
+    "onboarding and DM/group availability are enforced",
+    async () => {
+      const calls: CommandArgs[] = [];
+      const registry = createRegistry(calls);
+
+      assert.equal(
+        await registry.execute("/fc", context({ isOnboarded: false })),
+        "onboard first",
+      );
+      assert.equal(
+        await registry.execute("/set alice", context({ isOnboarded: false })),
+        "ok",
+      );
+      assert.match(
+        (await registry.execute("/secret", context({ isGroup: true })))!,
+        /only available in DMs/,
+      );
+      assert.equal(calls.length, 1);
+    },
+  ],
+  [
+    "unknown commands and non-commands",
+    async () => {
+      const registry = createRegistry();
+
+      assert.match(
+        (await registry.execute("/nope", context()))!,
+        /Unknown command/,
+      );
+      assert.equal(await registry.execute("hello", context()), null);
+    },
+  ],
+  [
+    "help is generated from definitions for the current context",
+    async () => {
+      const registry = createRegistry();
+
+      const help = registry.formatHelp({ isGroup: false, isOnboarded: true });
+      assert.match(help, /Farcaster:\n• \/fc or \/farcaster - Show your Farcaster profile/);
+      assert.match(help, /• \/find-users <query\.\.\.> - Search FC users/);
+      assert.match(help, /\/secret/);
+
+      const groupHelp = registry.formatHelp({ isGroup: true, isOnboarded: true });
+      assert.doesNotMatch(groupHelp, /\/secret/);
+
+      const onboardingHelp = registry.formatHelp({
+        isGroup: false,
+        isOnboarded: false,
+      });
+      assert.equal(onboardingHelp, "Setup:\n• /set <username> - Set your fkey.id");
+    },
+  ],
+  [
+    "duplicate names or aliases are rejected",
+    async () => {
+      const registry = createRegistry();
+
+      assert.throws(
+        () =>
+          registry.register({
+            name: "Farcaster",
+            description: "dup",
+            handler: () => "",
+          }),
+        /already registered/,
+      );
+    },
+  ],
+];
+
+let failed = 0;
+for (const [name, run] of tests) {
+  try {
+    await run();
+    console.log(`✅ ${name}`);
+  } catch (error) {
+    failed++;
+    console.error(`❌ ${name}`);
+    console.error(error);
+  }
+}
+
+console.log(`\n🧪 ${tests.length - failed}/${tests.length} command registry tests passed`);
+if (failed > 0) process.exit(1);
@@ -0,0 +1,195 @@
+#!/usr/bin/env tsx
+import assert from "node:assert/strict";
+import {
+  buildCoinbaseWalletRequestLink,
+  buildEip681Uri,
+  parsePaymentRequest,
+  parseSplitPayment,
+  resolvePaymentAsset,
+  toBaseUnits,
+  UnsupportedPaymentAssetError,
+} from "../src/lib/payment-tokens.js";
+
+const RECIPIENT = "0x5EA1700000000000000000000000000000000003";
+
+const tests: [string, () => void][] = [
+  [
+    "parses dollar amounts as USDC on Base",
+    () => {
+      assert.deepEqual(parsePaymentRequest("create payment link for $25"), {
+        amount: "25",
+        tokenSymbol: "USDC",
+        chain: "base",
+      });
+      // An unknown word after "on" doesn't hijack a plain dollar request
+      assert.equal(parsePaymentRequest("$10 on the app please")?.chain, "base");
+      assert.equal(parsePaymentRequest("hello there"), null);
+    },
+  ],
+  [
+    "does not read ordinary words after the amount as tokens",
+    () => {
+      const usdc = { tokenSymbol: "USDC", chain: "base" };
+      assert.deepEqual(
+        parsePaymentRequest("create payment link for $25 for coffee"),
+        { amount: "25", ...usdc },
+      );
+      assert.deepEqual(parsePaymentRequest("request $10 from alice"), {
+        amount: "10",
+        ...usdc,
+      });
+      assert.deepEqual(parsePaymentRequest("payment link for 5 usd"), {
+        amount: "5",
+        ...usdc,
+      });
+      assert.equal(parsePaymentRequest("request 10 from alice"), null);
+    },
+  ],
+  [
+    "parses named tokens and chains",
+    () => {
+      assert.deepEqual(parsePaymentRequest("request 0.01 ETH on mainnet"), {
+        amount: "0.01",
+        tokenSymbol: "ETH",
+        chain: "mainnet",
+      });
+      assert.deepEqual(parsePaymentRequest("50 USDC on Optimism"), {
+        amount: "50",
+        tokenSymbol: "USDC",
+        chain: "optimism",
+      });
+      assert.deepEqual(parsePaymentRequest("request 10 DAI on arbitrum one"), {
+        amount: "10",
+        tokenSymbol: "DAI",
+        chain: "arbitrum one",
+      });
+    },
+  ],
+  [
+    "parses split payments into recipients sharing one token and chain",
+    () => {
+      assert.deepEqual(parseSplitPayment("alice.fkey.id 10, bob.fkey.id $5"), {
+        recipients: [
+          { fkeyId: "alice", amount: "10" },
+          { fkeyId: "bob", amount: "5" },
+        ],
+        tokenSymbol: "USDC",
+        chain: "base",
+      });
+      assert.deepEqual(
+        parseSplitPayment("Alice 0.01, bob 0.02 ETH on optimism"),
+        {
+          recipients: [
+            { fkeyId: "alice", amount: "0.01" },
+            { fkeyId: "bob", amount: "0.02" },
+          ],
+          tokenSymbol: "ETH",
+          chain: "optimism",
+        },
+      );
+      assert.equal(parseSplitPayment("alice 10, bob"), null);
+      assert.equal(parseSplitPayment("alice ten"), null);
+      assert.throws(
+        () => parseSplitPayment("alice 1 ETH, bob 2 USDC"),
+        /same token and chain/,
+      );
+      assert.throws(
+        () => parseSplitPayment("alice 1, alice.fkey.id 2"),
+        /listed more than once/,
+      );
+    },
+  ],
+  [
+    "resolves aliases to registry chains with token decimals",
+    () => {
+      const eth = resolvePaymentAsset("eth", "mainnet");
+      assert.equal(eth.chain.id, 1);
+      assert.equal(eth.isNative, true);
+      assert.equal(eth.token.decimals, 18);
+
+      const usdc = resolvePaymentAsset("USDC", "op");
+      assert.equal(usdc.chain.id, 10);
+      assert.equal(usdc.address, "0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85");
+      assert.equal(resolvePaymentAsset("USDC", 42161).chain.key, "arbitrum");
+    },
+  ],
+  [
+    "rejects unsupported tokens, chains and combinations",
+    () => {
+      assert.throws(
+        () => resolvePaymentAsset("DAI", "base"),
+        UnsupportedPaymentAssetError,
+      );
+      assert.throws(
+        () => resolvePaymentAsset("USDC", "solana"),
+        /Unsupported chain "solana"/,
+      );
+      assert.throws(
+        () => resolvePaymentAsset("ETH", "polygon"),
+        /ETH is not supported on Polygon\. ETH is available on: Ethereum, Base, Optimism, Arbitrum/,
+      );
+    },
+  ],
+  [
+    "converts amounts to base units without rounding",
+    () => {
+      assert.equal(toBaseUnits("25", resolvePaymentAsset()), 25_000_000n);
+      assert.equal(
+        toBaseUnits("0.01", resolvePaymentAsset("ETH", "base")),
+        10_000_000_000_000_000n,
+      );
+      assert.throws(
+        () => toBaseUnits("1.0000001", resolvePaymentAsset()),
+        /at most 6 decimal places/,
+      );
+    },
+  ],
+  [
+    "builds EIP-681 URIs for native and ERC-20 transfers",
+    () => {
+      assert.equal(
+        buildEip681Uri(
+          resolvePaymentAsset("ETH", "mainnet"),
+          RECIPIENT,
+          "0.01",
+        ),
+        `ethereum:${RECIPIENT}@1?value=10000000000000000`,
+      );
+      assert.equal(
+        buildEip681Uri(
+          resolvePaymentAsset("USDC", "optimism"),
+          RECIPIENT,
+          "50",
+        ),
+        `ethereum:0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85@10/transfer?address=${RECIPIENT}&uint256=50000000`,
+      );
+
+      const link = buildCoinbaseWalletRequestLink(
+        resolvePaymentAsset(),
+        RECIPIENT,
+        "25",
+      );
+      assert.equal(
+        decodeURIComponent(link.split("EIP681Link=")[1]),
+        `ethereum:0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913@8453/transfer?address=${RECIPIENT}&uint256=25000000`,
+      );
+    },
+  ],
+];
+
+let failed = 0;
+for (const [name, run] of tests) {
+  try {
+    run();
+    console.log(`✅ ${name}`);
+  } catch (error) {
+    failed++;
+    console.error(`❌ ${name}`);
+    console.error(error);
+  }
+}
+
+console.log(
+  `\n🧪 ${tests.length - failed}/${tests.length} payment token tests passed`,
+);
+if (failed > 0) process.exit(1);
@@ -0,0 +1,491 @@
+#!/usr/bin/env tsx
+import assert from "node:assert/strict";
+import { getAddress } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import type { PersonalDataEndpoint } from "../src/lib/personal-data-endpoints.js";
+import type { Facilitator, PaymentRequiredBody } from "../src/lib/x402.js";
+
+// Config is validated on import; placeholders are enough offline
+process.env.WALLET_KEY ??= `0x${"11".repeat(32)}`;
+process.env.ENCRYPTION_KEY ??= "22".repeat(32);
+process.env.API_SECRET_KEY ??= "test";
+process.env.RECLAIM_APP_ID ??= "test";
+process.env.RECLAIM_APP_SECRET ??= "test";
+process.env.FRONTEND_URL = "https://dstealth.xyz";
+process.env.X402_NETWORK = "base";
+process.env.STORAGE_BACKEND = "memory";
+delete process.env.STORAGE_FILE;
+
+const { MemoryStore } = await import("../src/lib/storage.js");
+const {
+  endpointRegistrationMessage,
+  EndpointValidationError,
+  PersonalDataEndpointRegistry,
+  publicOnlyLookup,
+  servePaidRequest,
+  verifyOwnerSignature,
+} = await import("../src/lib/personal-data-endpoints.js");
+
+const OWNER = getAddress("0xa11ce00000000000000000000000000000000001");
+const PAYER = getAddress("0xb0b0000000000000000000000000000000000002");
+const TX_HASH = `0x${"ab".repeat(32)}` as const;
+const RESOURCE = "https://backend.example/personal-data/x402/api/alice/profile";
+
+function paymentHeader(overrides: Record<string, unknown> = {}): string {
+  return Buffer.from(
+    JSON.stringify({
+      x402Version: 1,
+      scheme: "exact",
+      network: "base",
+      payload: {
+        signature: `0x${"cd".repeat(65)}`,
+        authorization: {
+          from: PAYER,
+          to: OWNER,
+          value: "10000",
+          validAfter: "0",
+          validBefore: "9999999999",
+          nonce: `0x${"01".repeat(32)}`,
+        },
+      },
+      ...overrides,
+    }),
+  ).toString("base64");
+}
+
+// Records calls; verify/settle outcomes are set per test
+function fakeFacilitator(
+  outcome: { valid?: boolean; settled?: boolean } = {},
+): Facilitator & { calls: string[] } {
+  const calls: string[] = [];
+  return {
+    calls,
+    verify(payment, requirements) {
+      calls.push(
+        `verify:${requirements.maxAmountRequired}:${requirements.payTo}`,
+      );
+      return Promise.resolve(
+        outcome.valid === false
+          ? { isValid: false, invalidReason: "invalid_signature" }
+          : { isValid: true, payer: payment.payload.authorization.from },
+      );
+    },
+    settle(payment) {
+      calls.push("settle");
+      return Promise.resolve(
+        outcome.settled === false
+          ? {
+              success: false,
+              errorReason: "settlement_failed",
+              network: payment.network,
+            }
+          : {
+              success: true,
+              transaction: TX_HASH,
+              network: payment.network,
+              payer: payment.payload.authorization.from,
+            },
+      );
+    },
+  };
+}
+
+const upstreamJson = () =>
+  Promise.resolve({
+    status: 200,
+    contentType: "application/json",
+    body: Buffer.from(JSON.stringify({ name: "alice" })),
+  });
+
+// Error bodies servePaidRequest answers with
+function errorOf(result: { body: unknown }): string {
+  return (result.body as { error: string }).error;
+}
+
+async function registerProfile(
+  overrides: Record<string, unknown> = {},
+): Promise<PersonalDataEndpoint> {
+  const registry = new PersonalDataEndpointRegistry(new MemoryStore());
+  return registry.register({
+    resourceUrl: "https://api.example.com/profile",
+    endpointPath: "/api/alice/profile",
+    price: 0.01,
+    description: "Alice's profile",
+    owner: OWNER.toLowerCase(),
+    ...overrides,
+  });
+}
+
+const tests: [string, () => Promise<void>][] = [
+  [
+    "registers endpoints and lists them globally and per owner",
+    async () => {
+      const registry = new PersonalDataEndpointRegistry(new MemoryStore());
+      const first = await registry.register({
+        resourceUrl: "https://api.example.com/profile",
+        endpointPath: "/api/alice/profile",
+        price: 0.01,
+        description: "Alice's profile",
+        owner: OWNER.toLowerCase(),
+        requiresZkfetch: true,
+      });
+      // The frontend's { url } shape, relative to the frontend
+      const second = await registry.register({
+        url: `/api/address/${OWNER}/stealth`,
+        price: 0.01,
+        description: "Stealth pay me URL",
+        owner: OWNER,
+      });
+
+      assert.equal(first.owner, OWNER);
+      assert.equal(first.requiresZkfetch, true);
+      assert.equal(
+        second.resourceUrl,
+        `https://dstealth.xyz/api/address/${OWNER}/stealth`,
+      );
+      assert.match(second.endpointPath, /^\/api\/a11ce000\/[0-9a-f]{8}$/);
+      assert.equal((await registry.list()).length, 2);
+      assert.deepEqual(
+        (await registry.listByOwner(OWNER.toLowerCase())).map(
+          (e) => e.endpointPath,
+        ),
+        [second.endpointPath, "/api/alice/profile"],
+      );
+      assert.equal(
+        (await registry.getByPath("/API/alice/profile"))?.endpointId,
+        first.endpointId,
+      );
+    },
+  ],
+  [
+    "rejects invalid, internal and duplicate endpoints",
+    async () => {
+      const registry = new PersonalDataEndpointRegistry(new MemoryStore());
+      const valid = {
+        resourceUrl: "https://api.example.com/profile",
+        endpointPath: "/api/alice/profile",
+        price: 0.01,
+        description: "Alice's profile",
+        owner: OWNER,
+      };
+      const rejects = async (
+        body: Record<string, unknown>,
+        pattern: RegExp,
+        status = 400,
+      ) => {
+        await assert.rejects(
+          registry.register({ ...valid, ...body }),
+          (error: unknown) => {
+            assert.ok(error instanceof EndpointValidationError);
+            assert.equal(error.status, status);
+            assert.match(error.message, pattern);
+            return true;
+          },
+        );
+      };
+
+      await rejects({ owner: "alice.fkey.id" }, /Ethereum address/);
+      await rejects({ price: 0 }, /price/);
+      await rejects(
+        { endpointPath: "/data/profile" },
+        /must start with \/api\//,
+      );
+      await rejects(
+        { endpointPath: "/api/../admin" },
+        /must start with \/api\//,
+      );
+      await rejects({ resourceUrl: "http://127.0.0.1:6379/" }, /public host/);
+      await rejects(
+        { resourceUrl: "http://localhost:5001/health" },
+        /public host/,
+      );
+      await rejects(
+        { resourceUrl: "http://[::ffff:7f00:1]:6379/" },
+        /public host/,
+      );
+      await rejects({ resourceUrl: "http://100.64.0.1/" }, /public host/);
+      await rejects({ resourceUrl: "http://[fd00::1]/" }, /public host/);
+      await rejects({ resourceUrl: "file:///etc/passwd" }, /http\(s\)/);
+
+      await registry.register(valid);
+      await rejects({}, /already registered/, 409);
+    },
+  ],
+  [
+    "only registers endpoints the owner signed for recently",
+    async () => {
+      const signer = privateKeyToAccount(`0x${"0c".repeat(32)}`);
+      const request = {
+        url: "https://api.example.com/profile",
+        price: 0.01,
+        description: "Profile",
+        owner: signer.address,
+      };
+      const sign = async (issuedAt: string, owner: string = signer.address) =>
+        signer.signMessage({
+          message: endpointRegistrationMessage({
+            owner,
+            resourceUrl: request.url,
+            price: request.price,
+            issuedAt,
+          }),
+        });
+      const rejects = async (body: Record<string, unknown>, pattern: RegExp) =>
+        assert.rejects(verifyOwnerSignature(body), (error: unknown) => {
+          assert.ok(error instanceof EndpointValidationError);
+          assert.equal(error.status, 401);
+          assert.match(error.message, pattern);
+          return true;
+        });
+
+      const issuedAt = new Date().toISOString();
+      await verifyOwnerSignature({
+        ...request,
+        signature: await sign(issuedAt),
+        issuedAt,
+      });
+
+      await rejects(request, /signature and issuedAt are required/);
+      // Signed by someone else, or for another resource or price
+      await rejects(
+        {
+          ...request,
+          owner: OWNER,
+          signature: await sign(issuedAt, OWNER),
+          issuedAt,
+        },
+        /does not match/,
+      );
+      await rejects(
+        { ...request, price: 1, signature: await sign(issuedAt), issuedAt },
+        /does not match/,
+      );
+      const stale = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+      await rejects(
+        { ...request, signature: await sign(stale), issuedAt: stale },
+        /expired/,
+      );
+    },
+  ],
+  [
+    "refuses upstream hosts that resolve to private addresses",
+    async () => {
+      const resolved = await new Promise<Error | null>((resolve) => {
+        publicOnlyLookup("localhost", {}, (error) => {
+          resolve(error);
+        });
+      });
+      assert.match(String(resolved), /resolves to private address/);
+    },
+  ],
+  [
+    "answers unpaid requests with x402 payment requirements",
+    async () => {
+      const endpoint = await registerProfile();
+      const facilitator = fakeFacilitator();
+      const result = await servePaidRequest(endpoint, undefined, RESOURCE, {
+        facilitator,
+        fetchResource: upstreamJson,
+      });
+
+      assert.equal(result.status, 402);
+      const body = result.body as PaymentRequiredBody;
+      assert.equal(body.x402Version, 1);
+      assert.equal(body.accepts.length, 1);
+      assert.deepEqual(
+        {
+          scheme: body.accepts[0].scheme,
+          network: body.accepts[0].network,
+          maxAmountRequired: body.accepts[0].maxAmountRequired,
+          payTo: body.accepts[0].payTo,
+          asset: body.accepts[0].asset,
+          resource: body.accepts[0].resource,
+          extra: body.accepts[0].extra,
+        },
+        {
+          scheme: "exact",
+          network: "base",
+          maxAmountRequired: "10000",
+          payTo: OWNER,
+          asset: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
+          resource: RESOURCE,
+          extra: { name: "USD Coin", version: "2" },
+        },
+      );
+      assert.deepEqual(facilitator.calls, []);
+
+      const malformed = await servePaidRequest(
+        endpoint,
+        "not-base64-json",
+        RESOURCE,
+        {
+          facilitator,
+        },
+      );
+      assert.equal(malformed.status, 402);
+      assert.equal(errorOf(malformed), "invalid_payload");
+
+      const wrongNetwork = await servePaidRequest(
+        endpoint,
+        paymentHeader({ network: "base-sepolia" }),
+        RESOURCE,
+        { facilitator },
+      );
+      assert.equal(errorOf(wrongNetwork), "invalid_network");
+    },
+  ],
+  [
+    "proxies paid requests and returns X-PAYMENT-RESPONSE",
+    async () => {
+      const endpoint = await registerProfile();
+      const facilitator = fakeFacilitator();
+      const fetched: string[] = [];
+      const result = await servePaidRequest(
+        endpoint,
+        paymentHeader(),
+        RESOURCE,
+        {
+          facilitator,
+          fetchResource: (url) => {
+            fetched.push(url);
+            return upstreamJson();
+          },
+        },
+      );
+
+      assert.equal(result.status, 200);
+      assert.deepEqual(fetched, ["https://api.example.com/profile"]);
+      assert.deepEqual(facilitator.calls, [`verify:10000:${OWNER}`, "settle"]);
+      assert.equal(result.headers["Content-Type"], "application/json");
+      assert.deepEqual(JSON.parse((result.body as Buffer).toString()), {
+        name: "alice",
+      });
+      assert.deepEqual(
+        JSON.parse(
+          Buffer.from(
+            result.headers["X-PAYMENT-RESPONSE"],
+            "base64",
+          ).toString(),
+        ),
+        { success: true, transaction: TX_HASH, network: "base", payer: PAYER },
+      );
+    },
+  ],
+  [
+    "does not settle when verification or the upstream fails",
+    async () => {
+      const endpoint = await registerProfile();
+
+      const rejected = fakeFacilitator({ valid: false });
+      const invalid = await servePaidRequest(
+        endpoint,
+        paymentHeader(),
+        RESOURCE,
+        {
+          facilitator: rejected,
+          fetchResource: upstreamJson,
+        },
+      );
+      assert.equal(invalid.status, 402);
+      assert.equal(errorOf(invalid), "invalid_signature");
+      assert.deepEqual(rejected.calls, [`verify:10000:${OWNER}`]);
+
+      for (const fetchResource of [
+        () =>
+          Promise.resolve({
+            status: 500,
+            contentType: "text/plain",
+            body: Buffer.from("boom"),
+          }),
+        () => Promise.reject(new Error("ECONNREFUSED")),
+      ]) {
+        const facilitator = fakeFacilitator();
+        const result = await servePaidRequest(
+          endpoint,
+          paymentHeader(),
+          RESOURCE,
+          {
+            facilitator,
+            fetchResource,
+          },
+        );
+        assert.equal(result.status, 502);
+        assert.match(errorOf(result), /payment was not settled/);
+        assert.ok(!facilitator.calls.includes("settle"));
+      }
+
+      const unsettled = await servePaidRequest(
+        endpoint,
+        paymentHeader(),
+        RESOURCE,
+        {
+          facilitator: fakeFacilitator({ settled: false }),
+          fetchResource: upstreamJson,
+        },
+      );
+      assert.equal(unsettled.status, 402);
+      assert.equal(errorOf(unsettled), "settlement_failed");
+    },
+  ],
+  [
+    "attaches a zkfetch proof of the upstream response when required",
+    async () => {
+      const endpoint = await registerProfile({ requiresZkfetch: true });
+      const proof = { claimData: { provider: "http" }, signatures: ["0x01"] };
+      const result = await servePaidRequest(
+        endpoint,
+        paymentHeader(),
+        RESOURCE,
+        {
+          facilitator: fakeFacilitator(),
+          fetchResource: upstreamJson,
+          zkFetch: (url) => {
+            assert.equal(url, "https://api.example.com/profile");
+            return Promise.resolve(proof);
+          },
+        },
+      );
+
+      assert.equal(result.status, 200);
+      assert.ok(result.headers["X-PAYMENT-RESPONSE"]);
+      assert.deepEqual(result.body, {
+        success: true,
+        contentType: "application/json",
+        data: { name: "alice" },
+        zkProof: proof,
+      });
+
+      // No proof, no charge
+      const facilitator = fakeFacilitator();
+      const failed = await servePaidRequest(
+        endpoint,
+        paymentHeader(),
+        RESOURCE,
+        {
+          facilitator,
+          fetchResource: upstreamJson,
+          zkFetch: () => Promise.reject(new Error("attestor unavailable")),
+        },
+      );
+      assert.equal(failed.status, 502);
+      assert.ok(!facilitator.calls.includes("settle"));
+    },
+  ],
+];
+
+let failed = 0;
+for (const [name, run] of tests) {
+  try {
+    await run();
+    console.log(`✅ ${name}`);
+  } catch (error) {
+    failed++;
+    console.error(`❌ ${name}`);
+    console.error(error);
+  }
+}
+
+console.log(
+  `\n🧪 ${tests.length - failed}/${tests.length} personal-data endpoint tests passed`,
+);
+if (failed > 0) process.exit(1);
@@ -0,0 +1,261 @@
+#!/usr/bin/env tsx
+import assert from "node:assert/strict";
+import { privateKeyToAccount } from "viem/accounts";
+
+// Config is validated on import; placeholders are enough offline
+process.env.WALLET_KEY ??= `0x${"11".repeat(32)}`;
+process.env.ENCRYPTION_KEY ??= "22".repeat(32);
+process.env.API_SECRET_KEY ??= "test";
+process.env.RECLAIM_APP_ID ??= "test";
+process.env.RECLAIM_APP_SECRET ??= "test";
+
+const ATTESTOR = privateKeyToAccount(`0x${"a7".repeat(32)}`);
+const IMPOSTOR = privateKeyToAccount(`0x${"b8".repeat(32)}`);
+process.env.RECLAIM_ATTESTOR_ADDRESSES = ATTESTOR.address;
+process.env.RECLAIM_PROOF_MAX_AGE_SECONDS = "900";
+process.env.RECLAIM_PROOF_TTL_SECONDS = "3600";
+
+const {
+  FKEY_ADDRESS_REGEX,
+  getClaimIdentifier,
+  isProofVerificationCurrent,
+  serializeClaim,
+  verifyFkeyLookup,
+  verifyFkeyProof,
+} = await import("../src/lib/reclaim-proof-verification.js");
+
+const NOW = Date.UTC(2026, 0, 1);
+const STEALTH_ADDRESS = "0x5ea1700000000000000000000000000000000003";
+
+// A zkfetch proof of https://<fkeyId>.fkey.id, signed like an attestor would
+async function signedProof(
+  options: {
+    fkeyId?: string;
+    url?: string;
+    regex?: string;
+    extracted?: Record<string, string>;
+    timestampS?: number;
+    signer?: typeof ATTESTOR;
+  } = {},
+) {
+  const parameters = JSON.stringify({
+    body: "",
+    method: "GET",
+    responseMatches: [
+      { type: "regex", value: options.regex ?? FKEY_ADDRESS_REGEX },
+    ],
+    responseRedactions: [],
+    url: options.url ?? `https://${options.fkeyId ?? "alice"}.fkey.id`,
+  });
+  // Keys out of order: the identifier hashes canonical context
+  const context = JSON.stringify({
+    providerHash: "0x1234",
+    extractedParameters: options.extracted ?? { address: STEALTH_ADDRESS },
+  });
+  const claim = {
+    provider: "http",
+    parameters,
+    context,
+    owner: "0x0000000000000000000000000000000000000abc",
+    timestampS: options.timestampS ?? Math.floor(NOW / 1000) - 30,
+    epoch: 1,
+    identifier: "",
+  };
+  claim.identifier = getClaimIdentifier(claim);
+  const signature = await (options.signer ?? ATTESTOR).signMessage({
+    message: serializeClaim(claim),
+  });
+  return {
+    identifier: claim.identifier,
+    claimData: claim,
+    signatures: [signature],
+    witnesses: [{ id: ATTESTOR.address, url: "wss://attestor.example/ws" }],
+  };
+}
+
+const tests: [string, () => Promise<void>][] = [
+  [
+    "accepts a fresh proof signed by a trusted attestor",
+    async () => {
+      const proof = await signedProof({
+        extracted: {
+          address: STEALTH_ADDRESS.toUpperCase().replace("0X", "0x"),
+        },
+      });
+      const verification = await verifyFkeyProof(
+        proof,
+        "Alice",
+        STEALTH_ADDRESS,
+        {
+          now: NOW,
+        },
+      );
+
+      assert.equal(verification.verified, true, verification.reason);
+      assert.deepEqual(verification.attestors, [
+        ATTESTOR.address.toLowerCase(),
+      ]);
+      assert.equal(verification.claimedAt, proof.claimData.timestampS * 1000);
+      assert.equal(verification.verifiedAt, NOW);
+      const expiresAt = proof.claimData.timestampS * 1000 + 3600 * 1000;
+      assert.equal(verification.expiresAt, expiresAt);
+      assert.ok(isProofVerificationCurrent(verification, NOW));
+      assert.ok(!isProofVerificationCurrent(verification, expiresAt));
+    },
+  ],
+  [
+    "rejects untrusted signers and tampered claims",
+    async () => {
+      const verify = async (proof: unknown) =>
+        (await verifyFkeyProof(proof, "alice", STEALTH_ADDRESS, { now: NOW }))
+          .reason;
+
+      assert.equal(
+        await verify(await signedProof({ signer: IMPOSTOR })),
+        "untrusted_attestor",
+      );
+
+      // Swapping the page after signing changes the identifier
+      const tampered = await signedProof();
+      tampered.claimData.parameters = tampered.claimData.parameters.replace(
+        "alice",
+        "mallory",
+      );
+      assert.equal(await verify(tampered), "identifier_mismatch");
+
+      // A consistent identifier still has to carry the attestor's signature
+      tampered.claimData.identifier = getClaimIdentifier(tampered.claimData);
+      tampered.identifier = tampered.claimData.identifier;
+      assert.equal(
+        await verifyFkeyProof(tampered, "mallory", STEALTH_ADDRESS, {
+          now: NOW,
+        }).then((v) => v.reason),
+        "untrusted_attestor",
+      );
+
+      assert.equal(await verify({ claimData: {} }), "malformed_proof");
+      assert.equal(await verify(null), "malformed_proof");
+      const badSignature = await signedProof();
+      badSignature.signatures = ["not-a-signature" as `0x${string}`];
+      assert.equal(await verify(badSignature), "invalid_signature");
+    },
+  ],
+  [
+    "checks the claim's URL, regex and extracted address",
+    async () => {
+      const reason = async (
+        proof: unknown,
+        fkeyId = "alice",
+        address = STEALTH_ADDRESS,
+      ) => (await verifyFkeyProof(proof, fkeyId, address, { now: NOW })).reason;
+
+      assert.equal(await reason(await signedProof(), "bob"), "url_mismatch");
+      for (const url of [
+        "http://alice.fkey.id",
+        "https://alice.fkey.id.evil.com",
+        "https://alice.fkey.id/other",
+        "https://alice.fkey.id:8443/",
+      ]) {
+        assert.equal(
+          await reason(await signedProof({ url })),
+          "url_mismatch",
+          url,
+        );
+      }
+      assert.equal(
+        await reason(await signedProof({ regex: "[\\s\\S]+" })),
+        "regex_mismatch",
+      );
+      assert.equal(
+        await reason(
+          await signedProof({
+            extracted: {
+              address: "0x0000000000000000000000000000000000000bad",
+            },
+          }),
+        ),
+        "address_mismatch",
+      );
+      // Without the named group the attestor extracts nothing to compare
+      assert.equal(
+        await reason(await signedProof({ extracted: {} })),
+        "address_mismatch",
+      );
+      assert.equal(
+        await reason(await signedProof({ regex: "0x[a-fA-F0-9]{40}" })),
+        "regex_mismatch",
+      );
+      assert.equal(
+        await reason(await signedProof(), "alice", "not-an-address"),
+        "address_mismatch",
+      );
+    },
+  ],
+  [
+    "rejects stale and future-dated proofs",
+    async () => {
+      const nowS = Math.floor(NOW / 1000);
+      const stale = await signedProof({ timestampS: nowS - 901 });
+      const future = await signedProof({ timestampS: nowS + 600 });
+
+      assert.equal(
+        (await verifyFkeyProof(stale, "alice", STEALTH_ADDRESS, { now: NOW }))
+          .reason,
+        "proof_expired",
+      );
+      assert.equal(
+        (await verifyFkeyProof(future, "alice", STEALTH_ADDRESS, { now: NOW }))
+          .reason,
+        "timestamp_in_future",
+      );
+    },
+  ],
+  [
+    "picks a verified proof from a lookup response",
+    async () => {
+      const good = await signedProof();
+      const forged = await signedProof({ signer: IMPOSTOR });
+
+      const fromProofs = await verifyFkeyLookup(
+        "alice",
+        { address: STEALTH_ADDRESS, proof: forged, proofs: [forged, good] },
+        { now: NOW },
+      );
+      assert.equal(fromProofs.verification.verified, true);
+      assert.equal(fromProofs.proof, good);
+
+      const rejected = await verifyFkeyLookup(
+        "alice",
+        { address: STEALTH_ADDRESS, proof: forged },
+        { now: NOW },
+      );
+      assert.equal(rejected.verification.reason, "untrusted_attestor");
+
+      const missing = await verifyFkeyLookup(
+        "alice",
+        { address: STEALTH_ADDRESS, proof: null },
+        { now: NOW },
+      );
+      assert.equal(missing.verification.reason, "missing_proof");
+      assert.ok(!isProofVerificationCurrent(missing.verification, NOW));
+      assert.ok(!isProofVerificationCurrent(undefined, NOW));
+    },
+  ],
+];
+
+let failed = 0;
+for (const [name, run] of tests) {
+  try {
+    await run();
+    console.log(`✅ ${name}`);
+  } catch (error) {
+    failed++;
+    console.error(`❌ ${name}`);
+    console.error(error);
+  }
+}
+
+console.log(
+  `\n🧪 ${tests.length - failed}/${tests.length} Reclaim proof verification tests passed`,
+);
+if (failed > 0) process.exit(1);
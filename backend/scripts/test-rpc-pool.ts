@@ -0,0 +1,184 @@
+#!/usr/bin/env tsx
+import assert from "node:assert/strict";
+import { HttpRequestError, parseAbi, type PublicClient } from "viem";
+import {
+  classifyRpcError,
+  RpcPool,
+  RpcUnavailableError,
+} from "../src/lib/rpc-pool.js";
+
+const EVENT = parseAbi([
+  "event Announcement(uint256 indexed schemeId, address indexed stealthAddress, address indexed caller, bytes ephemeralPubKey, bytes metadata)",
+])[0];
+const ADDRESS = "0x55649E01B5Df198D18D95b5cc5051630cfD45564";
+
+// Stand-in for a viem client: only the methods the pool calls
+function fakeClient(handlers: {
+  getBlockNumber?: () => Promise<bigint>;
+  getLogs?: (params: { fromBlock: bigint; toBlock: bigint }) => Promise<any[]>;
+}): PublicClient {
+  return {
+    getBlockNumber: handlers.getBlockNumber ?? (async () => 100n),
+    getLogs: handlers.getLogs ?? (async () => []),
+  } as unknown as PublicClient;
+}
+
+function rateLimitError(retryAfterSeconds: number): HttpRequestError {
+  return new HttpRequestError({
+    url: "https://rpc.example",
+    status: 429,
+    headers: new Headers({ "retry-after": retryAfterSeconds.toString() }),
+  });
+}
+
+const tests: [string, () => Promise<void>][] = [
+  [
+    "classifies rate limits, range rejections and other errors",
+    async () => {
+      assert.equal(classifyRpcError(rateLimitError(1)), "rate_limit");
+      assert.equal(
+        classifyRpcError(new Error("query returned more than 10000 results")),
+        "range_too_large",
+      );
+      assert.equal(
+        classifyRpcError(new Error("eth_getLogs block range is too wide")),
+        "range_too_large",
+      );
+      assert.equal(classifyRpcError(new Error("fetch failed")), "other");
+    },
+  ],
+  [
+    "fails over to the next endpoint and marks the failing one degraded",
+    async () => {
+      const pool = new RpcPool("test", [
+        {
+          url: "https://a.example",
+          client: fakeClient({
+            getBlockNumber: async () => {
+              throw new Error("fetch failed");
+            },
+          }),
+        },
+        { url: "https://b.example", client: fakeClient({}) },
+      ]);
+
+      assert.equal(await pool.getBlockNumber(), 100n);
+
+      const [a, b] = pool.getStatus();
+      assert.equal(a.health, "degraded");
+      assert.equal(a.failureCount, 1);
+      assert.ok(a.cooldownUntil && a.cooldownUntil > Date.now());
+      assert.equal(b.health, "healthy");
+      assert.equal(b.successCount, 1);
+    },
+  ],
+  [
+    "honours Retry-After on 429 and skips the endpoint while cooling down",
+    async () => {
+      let aCalls = 0;
+      const pool = new RpcPool("test", [
+        {
+          url: "https://a.example",
+          client: fakeClient({
+            getBlockNumber: async () => {
+              aCalls++;
+              throw rateLimitError(120);
+            },
+          }),
+        },
+        { url: "https://b.example", client: fakeClient({}) },
+      ]);
+
+      await pool.getBlockNumber();
+      await pool.getBlockNumber();
+
+      const [a] = pool.getStatus();
+      assert.equal(aCalls, 1);
+      assert.equal(a.health, "rate_limited");
+      assert.ok(a.cooldownUntil! - Date.now() > 110_000);
+    },
+  ],
+  [
+    "throws RpcUnavailableError when every endpoint is cooling down",
+    async () => {
+      const pool = new RpcPool(
+        "test",
+        [
+          {
+            url: "https://a.example",
+            client: fakeClient({
+              getBlockNumber: async () => {
+                throw rateLimitError(600);
+              },
+            }),
+          },
+        ],
+        { maxWaitMs: 10 },
+      );
+
+      await assert.rejects(pool.getBlockNumber(), RpcUnavailableError);
+      await assert.rejects(pool.getBlockNumber(), RpcUnavailableError);
+    },
+  ],
+  [
+    "splits getLogs ranges the provider rejects and keeps every log",
+    async () => {
+      const requestedSpans: bigint[] = [];
+      const pool = new RpcPool(
+        "test",
+        [
+          {
+            url: "https://a.example",
+            client: fakeClient({
+              getLogs: async ({ fromBlock, toBlock }) => {
+                const span = toBlock - fromBlock + 1n;
+                requestedSpans.push(span);
+                if (span > 10n) {
+                  throw new Error("block range too large, max 10 blocks");
+                }
+                const logs = [];
+                for (let block = fromBlock; block <= toBlock; block++) {
+                  logs.push({ blockNumber: block });
+                }
+                return logs;
+              },
+            }),
+          },
+        ],
+        { maxLogRange: 100 },
+      );
+
+      const logs = await pool.getLogs({
+        address: ADDRESS,
+        event: EVENT,
+        fromBlock: 1n,
+        toBlock: 100n,
+      });
+
+      assert.equal(logs.length, 100);
+      assert.deepEqual(
+        logs.map((log) => log.blockNumber),
+        Array.from({ length: 100 }, (_, i) => BigInt(i + 1)),
+      );
+      assert.ok(pool.getLogRange() <= 12);
+      // Range rejections are a query problem, not an endpoint failure
+      assert.equal(pool.getStatus()[0].health, "healthy");
+      assert.equal(requestedSpans[0], 100n);
+    },
+  ],
+];
+
+let failed = 0;
+for (const [name, run] of tests) {
+  try {
+    await run();
+    console.log(`✅ ${name}`);
+  } catch (error) {
+    failed++;
+    console.error(`❌ ${name}`);
+    console.error(error);
+  }
+}
+
+console.log(`\n🧪 ${tests.length - failed}/${tests.length} RPC pool tests passed`);
+if (failed > 0) process.exit(1);
@@ -0,0 +1,243 @@
+#!/usr/bin/env tsx
+import assert from "node:assert/strict";
+import type { Hex } from "viem";
+import {
+  checkStealthAddress,
+  computeHashedSharedSecret,
+  computeStealthPrivateKey,
+  formatStealthMetaAddress,
+  generateStealthAddress,
+  parseStealthMetaAddress,
+  parseStealthScanKey,
+  SCHEME_ID_SECP256K1,
+  type StealthScanKey,
+} from "../src/lib/stealth-address.js";
+
+// Fixed ERC-5564 scheme 1 test vector (independently derived via raw point
+// multiplication, not via the helpers under test)
+const VECTOR = {
+  spendingPrivateKey: `0x${"11".repeat(32)}` as Hex,
+  spendingPublicKey:
+    "0x034f355bdcb7cc0af728ef3cceb9615d90684bb5b2ca5f859ab0f0b704075871aa" as Hex,
+  viewingPrivateKey: `0x${"22".repeat(32)}` as Hex,
+  viewingPublicKey:
+    "0x02466d7fcae563e5cb09a0d1870bb580344804617879a14949cf22285f1bae3f27" as Hex,
+  ephemeralPrivateKey: `0x${"33".repeat(32)}` as Hex,
+  ephemeralPublicKey:
+    "0x023c72addb4fdf09af94f0c94d7fe92a386a7e70cf8a1d85916386bb2535c7b1b1" as Hex,
+  hashedSharedSecret:
+    "0x20f63cde5fe857844fbfda0a7599784a624dc4741b8bd076edfcbc857d7908c2" as Hex,
+  viewTag: "0x20" as Hex,
+  stealthAddress: "0xD8606eD2ecDB71fdcb8cCA8fA1925ff84238f2a9",
+  stealthPrivateKey:
+    "0x32074def70f9689560d0eb1b86aa895b735ed5852c9ce187ff0dcd968e8a19d3" as Hex,
+};
+
+const scanKey: StealthScanKey = {
+  viewingPrivateKey: VECTOR.viewingPrivateKey,
+  spendingPublicKey: VECTOR.spendingPublicKey,
+};
+
+const tests: [string, () => void][] = [
+  [
+    "sender and recipient derive the same hashed shared secret",
+    () => {
+      assert.equal(
+        computeHashedSharedSecret(
+          VECTOR.ephemeralPrivateKey,
+          VECTOR.viewingPublicKey,
+        ),
+        VECTOR.hashedSharedSecret,
+      );
+      assert.equal(
+        computeHashedSharedSecret(
+          VECTOR.viewingPrivateKey,
+          VECTOR.ephemeralPublicKey,
+        ),
+        VECTOR.hashedSharedSecret,
+      );
+    },
+  ],
+  [
+    "generateStealthAddress matches the vector",
+    () => {
+      const generated = generateStealthAddress(
+        VECTOR.spendingPublicKey,
+        VECTOR.viewingPublicKey,
+        VECTOR.ephemeralPrivateKey,
+      );
+      assert.equal(generated.stealthAddress, VECTOR.stealthAddress);
+      assert.equal(generated.ephemeralPublicKey, VECTOR.ephemeralPublicKey);
+      assert.equal(generated.viewTag, VECTOR.viewTag);
+    },
+  ],
+  [
+    "computeStealthPrivateKey matches the vector",
+    () => {
+      assert.equal(
+        computeStealthPrivateKey(
+          VECTOR.spendingPrivateKey,
+          VECTOR.hashedSharedSecret,
+        ),
+        VECTOR.stealthPrivateKey,
+      );
+    },
+  ],
+  [
+    "matching announcement is accepted (address case-insensitive)",
+    () => {
+      assert.equal(
+        checkStealthAddress(
+          {
+            schemeId: SCHEME_ID_SECP256K1,
+            stealthAddress: VECTOR.stealthAddress.toLowerCase(),
+            ephemeralPubKey: VECTOR.ephemeralPublicKey,
+            metadata: `${VECTOR.viewTag}eeeeeeee`,
+          },
+          scanKey,
+        ),
+        true,
+      );
+    },
+  ],
+  [
+    "wrong view tag is rejected before address derivation",
+    () => {
+      assert.equal(
+        checkStealthAddress(
+          {
+            schemeId: SCHEME_ID_SECP256K1,
+            stealthAddress: VECTOR.stealthAddress,
+            ephemeralPubKey: VECTOR.ephemeralPublicKey,
+            metadata: "0x21",
+          },
+          scanKey,
+        ),
+        false,
+      );
+    },
+  ],
+  [
+    "right view tag but different stealth address is rejected",
+    () => {
+      assert.equal(
+        checkStealthAddress(
+          {
+            schemeId: SCHEME_ID_SECP256K1,
+            stealthAddress: "0x0000000000000000000000000000000000000001",
+            ephemeralPubKey: VECTOR.ephemeralPublicKey,
+            metadata: VECTOR.viewTag,
+          },
+          scanKey,
+        ),
+        false,
+      );
+    },
+  ],
+  [
+    "other schemes and malformed keys never match",
+    () => {
+      const announcement = {
+        schemeId: SCHEME_ID_SECP256K1,
+        stealthAddress: VECTOR.stealthAddress,
+        ephemeralPubKey: VECTOR.ephemeralPublicKey,
+        metadata: VECTOR.viewTag,
+      };
+      assert.equal(
+        checkStealthAddress({ ...announcement, schemeId: 2n }, scanKey),
+        false,
+      );
+      assert.equal(
+        checkStealthAddress(
+          { ...announcement, ephemeralPubKey: "0x1234" },
+          scanKey,
+        ),
+        false,
+      );
+    },
+  ],
+  [
+    "random ephemeral keys round-trip",
+    () => {
+      for (let i = 0; i < 5; i++) {
+        const generated = generateStealthAddress(
+          VECTOR.spendingPublicKey,
+          VECTOR.viewingPublicKey,
+        );
+        assert.equal(
+          checkStealthAddress(
+            {
+              schemeId: SCHEME_ID_SECP256K1,
+              stealthAddress: generated.stealthAddress,
+              ephemeralPubKey: generated.ephemeralPublicKey,
+              metadata: generated.viewTag,
+            },
+            scanKey,
+          ),
+          true,
+        );
+      }
+    },
+  ],
+  [
+    "parseStealthScanKey only accepts viewing key + spending pubkey pairs",
+    () => {
+      assert.deepEqual(parseStealthScanKey(scanKey), scanKey);
+      assert.equal(parseStealthScanKey("0x1234abcd"), null);
+      assert.equal(
+        parseStealthScanKey({ viewingPrivateKey: VECTOR.viewingPrivateKey }),
+        null,
+      );
+    },
+  ],
+  [
+    "stealth meta-addresses round-trip through parse and format",
+    () => {
+      const metaAddress = `st:eth:0x${VECTOR.spendingPublicKey.slice(2)}${VECTOR.viewingPublicKey.slice(2)}`;
+      const keys = parseStealthMetaAddress(metaAddress);
+      assert.deepEqual(keys, {
+        spendingPublicKey: VECTOR.spendingPublicKey,
+        viewingPublicKey: VECTOR.viewingPublicKey,
+      });
+      assert.equal(formatStealthMetaAddress(keys!), metaAddress);
+      // Registry entries are the same bytes without the st:eth: prefix
+      assert.deepEqual(
+        parseStealthMetaAddress(metaAddress.replace("st:eth:", "")),
+        keys,
+      );
+    },
+  ],
+  [
+    "parseStealthMetaAddress rejects wrong lengths and off-curve keys",
+    () => {
+      assert.equal(parseStealthMetaAddress("0x"), null);
+      assert.equal(
+        parseStealthMetaAddress(`st:eth:${VECTOR.spendingPublicKey}`),
+        null,
+      );
+      assert.equal(
+        parseStealthMetaAddress(
+          `st:eth:0x${"02" + "00".repeat(32)}${"02" + "00".repeat(32)}`,
+        ),
+        null,
+      );
+    },
+  ],
+];
+
+let failed = 0;
+for (const [name, run] of tests) {
+  try {
+    run();
+    console.log(`✅ ${name}`);
+  } catch (error) {
+    failed++;
+    console.error(`❌ ${name}`);
+    console.error(error);
+  }
+}
+
+console.log(
+  `\n🧪 ${tests.length - failed}/${tests.length} stealth matching tests passed`,
+);
+if (failed > 0) process.exit(1);
@@ -0,0 +1,417 @@
+#!/usr/bin/env tsx
+import assert from "node:assert/strict";
+import {
+  encodeAbiParameters,
+  encodeEventTopics,
+  keccak256,
+  parseAbi,
+  toHex,
+  type Hex,
+  type Log,
+  type PublicClient,
+} from "viem";
+
+// The monitor validates config on import; placeholders are enough offline
+process.env.WALLET_KEY ??= `0x${"11".repeat(32)}`;
+process.env.ENCRYPTION_KEY ??= "22".repeat(32);
+process.env.API_SECRET_KEY ??= "test";
+process.env.RECLAIM_APP_ID ??= "test";
+process.env.RECLAIM_APP_SECRET ??= "test";
+process.env.STORAGE_BACKEND = "memory";
+process.env.NEXT_PUBLIC_URL = "https://dstealth.test";
+delete process.env.STORAGE_FILE;
+
+const { StealthMonitorService } =
+  await import("../src/services/stealth-monitor.js");
+const { RpcPool } = await import("../src/lib/rpc-pool.js");
+const { MemoryStore } = await import("../src/lib/storage.js");
+
+type KeyValueStore = InstanceType<typeof MemoryStore>;
+type StealthMonitor = InstanceType<typeof StealthMonitorService>;
+
+const ANNOUNCER = "0x55649E01B5Df198D18D95b5cc5051630cfD45564";
+const ANNOUNCEMENT = parseAbi([
+  "event Announcement(uint256 indexed schemeId, address indexed stealthAddress, address indexed caller, bytes ephemeralPubKey, bytes metadata)",
+]);
+
+// The private members the scenarios drive directly
+interface MonitorInternals {
+  store: KeyValueStore;
+  isRunning: boolean;
+  chains: Map<
+    string,
+    {
+      rpc: InstanceType<typeof RpcPool>;
+      lastProcessed: number;
+      recentBlocks: { number: number; hash: Hex }[];
+    }
+  >;
+  monitoredUsers: Map<
+    string,
+    {
+      address: string;
+      userId: string;
+      enabledNotifications: {
+        stealthPayments: boolean;
+        stealthRegistrations: boolean;
+        stealthAnnouncements: boolean;
+      };
+      lastNotified: number;
+    }
+  >;
+  scanChainForStealthEvents(chain: string): Promise<void>;
+  loadChainStates(): Promise<void>;
+}
+
+interface FakeAnnouncement {
+  block: number;
+  txHash: Hex;
+  logIndex: number;
+  caller: Hex;
+}
+
+// A chain whose blocks, hashes and announcements the test rewrites to
+// simulate a reorg
+class FakeChain {
+  head = 20;
+  forkedFrom = Infinity; // blocks from here on have new hashes
+  announcements: FakeAnnouncement[] = [];
+
+  hash(block: number): Hex {
+    const fork = block >= this.forkedFrom ? 1 : 0;
+    return keccak256(toHex(`${fork}:${block}`));
+  }
+
+  client(): PublicClient {
+    return {
+      getBlockNumber: () => Promise.resolve(BigInt(this.head)),
+      getBlock: ({ blockNumber }: { blockNumber: bigint }) =>
+        Promise.resolve({
+          number: blockNumber,
+          hash: this.hash(Number(blockNumber)),
+        }),
+      getLogs: (params: {
+        address: string;
+        fromBlock: bigint;
+        toBlock: bigint;
+      }): Promise<Log[]> =>
+        Promise.resolve(
+          params.address === ANNOUNCER
+            ? this.announcements
+                .filter(
+                  ({ block }) =>
+                    block >= Number(params.fromBlock) &&
+                    block <= Number(params.toBlock),
+                )
+                .map((announcement) => this.log(announcement))
+            : [],
+        ),
+    } as unknown as PublicClient;
+  }
+
+  private log({ block, txHash, logIndex, caller }: FakeAnnouncement): Log {
+    return {
+      address: ANNOUNCER,
+      blockHash: this.hash(block),
+      blockNumber: BigInt(block),
+      data: encodeAbiParameters(
+        [{ type: "bytes" }, { type: "bytes" }],
+        [`0x02${"33".repeat(32)}`, "0x01"],
+      ),
+      logIndex,
+      removed: false,
+      topics: encodeEventTopics({
+        abi: ANNOUNCEMENT,
+        eventName: "Announcement",
+        args: {
+          schemeId: 1n,
+          stealthAddress: `0x${"5e".repeat(20)}`,
+          caller,
+        },
+      }) as [Hex, ...Hex[]],
+      transactionHash: txHash,
+      transactionIndex: 0,
+    };
+  }
+}
+
+// Records every /api/notify call; users listed in `failing` get a 503
+class FakeNotify {
+  sent: string[] = [];
+  failing = new Set<string>();
+
+  install(): void {
+    globalThis.fetch = ((_url: string, init: RequestInit) => {
+      const { userId } = JSON.parse(init.body as string) as { userId: string };
+      if (this.failing.has(userId)) {
+        return Promise.resolve(new Response("unavailable", { status: 503 }));
+      }
+      this.sent.push(userId);
+      return Promise.resolve(new Response("{}", { status: 200 }));
+    }) as typeof fetch;
+  }
+
+  count(userId: string): number {
+    return this.sent.filter((sent) => sent === userId).length;
+  }
+}
+
+function user(n: number): { userId: string; address: Hex } {
+  return {
+    userId: `user-${n}`,
+    address: `0x${n.toString(16).padStart(40, "0")}`,
+  };
+}
+
+function baseChain(internals: MonitorInternals) {
+  const base = internals.chains.get("base");
+  if (!base) throw new Error("base chain not configured");
+  return base;
+}
+
+// A running monitor on a fake base chain, sharing `store` across "restarts"
+async function monitorFor(
+  chain: FakeChain,
+  store: KeyValueStore,
+  users: ReturnType<typeof user>[],
+): Promise<{ monitor: StealthMonitor; internals: MonitorInternals }> {
+  const monitor = new StealthMonitorService();
+  const internals = monitor as unknown as MonitorInternals;
+  internals.store = store;
+  internals.isRunning = true;
+
+  const base = baseChain(internals);
+  base.rpc = new RpcPool("base", [
+    { url: "https://base.test", client: chain.client() },
+  ]);
+  internals.chains.delete("mainnet");
+  await internals.loadChainStates();
+  if (base.lastProcessed === 0) base.lastProcessed = 5;
+
+  for (const { userId, address } of users) {
+    internals.monitoredUsers.set(userId, {
+      userId,
+      address,
+      enabledNotifications: {
+        stealthPayments: true,
+        stealthRegistrations: true,
+        stealthAnnouncements: true,
+      },
+      lastNotified: 0,
+    });
+  }
+
+  return { monitor, internals };
+}
+
+// Make every queued retry due now
+async function expireBackoff(store: KeyValueStore): Promise<void> {
+  for (const key of await store.keys("stealth-notification-retry:*")) {
+    const pending = JSON.parse((await store.get(key)) ?? "{}") as {
+      nextAttemptAt: number;
+    };
+    pending.nextAttemptAt = 0;
+    await store.set(key, JSON.stringify(pending));
+  }
+}
+
+const tests: [string, () => Promise<void>][] = [
+  [
+    "a failed notification is retried on its own without holding up the scan",
+    async () => {
+      const chain = new FakeChain();
+      const store = new MemoryStore();
+      const notify = new FakeNotify();
+      notify.install();
+
+      const alice = user(1);
+      const bob = user(2);
+      chain.announcements.push(
+        {
+          block: 10,
+          txHash: `0x${"a1".repeat(32)}`,
+          logIndex: 0,
+          caller: alice.address,
+        },
+        {
+          block: 12,
+          txHash: `0x${"b2".repeat(32)}`,
+          logIndex: 0,
+          caller: bob.address,
+        },
+      );
+      notify.failing.add(bob.userId);
+
+      const { monitor, internals } = await monitorFor(chain, store, [
+        alice,
+        bob,
+      ]);
+      await internals.scanChainForStealthEvents("base");
+
+      assert.equal(baseChain(internals).lastProcessed, 20);
+      assert.equal(notify.count(alice.userId), 1);
+      assert.equal(notify.count(bob.userId), 0);
+      const [failed] = await monitor.getNotificationLedger(bob.userId);
+      assert.equal(failed.status, "failed");
+
+      // Not due yet, then due but the endpoint is still down
+      assert.equal(await monitor.retryFailedNotifications(), 0);
+      await expireBackoff(store);
+      assert.equal(await monitor.retryFailedNotifications(), 0);
+      assert.equal(
+        (await store.keys("stealth-notification-retry:*")).length,
+        1,
+      );
+
+      notify.failing.clear();
+      await expireBackoff(store);
+      assert.equal(await monitor.retryFailedNotifications(), 1);
+      assert.equal(notify.count(bob.userId), 1);
+      const [sent] = await monitor.getNotificationLedger(bob.userId);
+      assert.equal(sent.status, "sent");
+
+      // Nothing left to retry, and later scans don't send again
+      await expireBackoff(store);
+      assert.equal(await monitor.retryFailedNotifications(), 0);
+      chain.head = 30;
+      await internals.scanChainForStealthEvents("base");
+      assert.deepEqual(notify.sent, [alice.userId, bob.userId]);
+    },
+  ],
+  [
+    "a store error fails the range and the re-scan picks it up once",
+    async () => {
+      const chain = new FakeChain();
+      const store = new MemoryStore();
+      const notify = new FakeNotify();
+      notify.install();
+
+      const alice = user(1);
+      const bob = user(2);
+      chain.announcements.push(
+        {
+          block: 10,
+          txHash: `0x${"a1".repeat(32)}`,
+          logIndex: 0,
+          caller: alice.address,
+        },
+        {
+          block: 11,
+          txHash: `0x${"b2".repeat(32)}`,
+          logIndex: 0,
+          caller: bob.address,
+        },
+      );
+
+      // Bob's notification claim can't be written on the first pass
+      const set = store.set.bind(store);
+      let storeDown = true;
+      store.set = async (key, value, options) => {
+        if (storeDown && key.startsWith(`stealth-notified:${bob.userId}:`)) {
+          throw new Error("store unavailable");
+        }
+        return set(key, value, options);
+      };
+
+      const { internals } = await monitorFor(chain, store, [alice, bob]);
+      await assert.rejects(internals.scanChainForStealthEvents("base"));
+      assert.equal(baseChain(internals).lastProcessed, 5);
+
+      storeDown = false;
+      await internals.scanChainForStealthEvents("base");
+      assert.equal(baseChain(internals).lastProcessed, 20);
+      assert.deepEqual(notify.sent, [alice.userId, bob.userId]);
+    },
+  ],
+  [
+    "a reorg after a restart re-processes orphaned events without notifying twice",
+    async () => {
+      const chain = new FakeChain();
+      const store = new MemoryStore();
+      const notify = new FakeNotify();
+      notify.install();
+
+      const alice = user(1); // delivered before the reorg
+      const bob = user(2); // failed before the reorg, re-included after
+      const carol = user(3); // failed before the reorg, dropped by it
+      const dave = user(4); // only announced on the new fork
+      const users = [alice, bob, carol, dave];
+      const aliceTx: FakeAnnouncement = {
+        block: 18,
+        txHash: `0x${"a1".repeat(32)}`,
+        logIndex: 0,
+        caller: alice.address,
+      };
+      const bobTx: FakeAnnouncement = {
+        block: 18,
+        txHash: `0x${"b2".repeat(32)}`,
+        logIndex: 1,
+        caller: bob.address,
+      };
+      chain.announcements.push(aliceTx, bobTx, {
+        block: 19,
+        txHash: `0x${"c3".repeat(32)}`,
+        logIndex: 0,
+        caller: carol.address,
+      });
+      notify.failing.add(bob.userId).add(carol.userId);
+
+      // Two scans leave checkpoints at 15 and 20
+      const first = await monitorFor(chain, store, users);
+      chain.head = 15;
+      await first.internals.scanChainForStealthEvents("base");
+      chain.head = 20;
+      await first.internals.scanChainForStealthEvents("base");
+      assert.deepEqual(notify.sent, [alice.userId]);
+
+      // Blocks 17+ are replaced: alice's and bob's txs land again with the
+      // same log indexes, carol's is gone and dave's is new
+      chain.forkedFrom = 17;
+      chain.head = 25;
+      chain.announcements = [
+        { ...aliceTx, block: 21 },
+        { ...bobTx, block: 21 },
+        {
+          block: 22,
+          txHash: `0x${"d4".repeat(32)}`,
+          logIndex: 0,
+          caller: dave.address,
+        },
+      ];
+      notify.failing.clear();
+
+      // A fresh process has nothing cached in memory
+      const second = await monitorFor(chain, store, users);
+      await second.internals.scanChainForStealthEvents("base");
+
+      assert.equal(baseChain(second.internals).lastProcessed, 25);
+      assert.equal(notify.count(alice.userId), 1);
+      assert.equal(notify.count(bob.userId), 1);
+      assert.equal(notify.count(carol.userId), 0);
+      assert.equal(notify.count(dave.userId), 1);
+
+      // The orphaned retries went with the reorg
+      await expireBackoff(store);
+      assert.equal(await second.monitor.retryFailedNotifications(), 0);
+      assert.equal(notify.count(carol.userId), 0);
+    },
+  ],
+];
+
+const originalFetch = globalThis.fetch;
+let passed = 0;
+for (const [name, test] of tests) {
+  try {
+    await test();
+    console.log(`✅ ${name}`);
+    passed++;
+  } catch (error) {
+    console.error(`❌ ${name}`);
+    console.error(error);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+}
+
+console.log(`\n🧪 ${passed}/${tests.length} stealth monitor tests passed`);
+process.exit(passed === tests.length ? 0 : 1);
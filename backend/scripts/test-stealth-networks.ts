@@ -0,0 +1,70 @@
+#!/usr/bin/env tsx
+import assert from "node:assert/strict";
+import { readFile } from "node:fs/promises";
+import { STEALTH_NETWORKS } from "../src/lib/stealth-networks.js";
+
+// The Ponder app and the frontend deploy on their own, so they keep their
+// own copies of the network map; these checks fail when a copy drifts
+const PONDER_APP_NETWORKS = new URL(
+  "../../src/lib/stealth-networks.ts",
+  import.meta.url,
+);
+const FRONTEND_PONDER_CLIENT = new URL(
+  "../../frontend/src/lib/ponder-client.ts",
+  import.meta.url,
+);
+
+// Body of the object literal assigned to `name`
+async function objectLiteral(file: URL, name: string): Promise<string> {
+  const source = await readFile(file, "utf8");
+  const match = new RegExp(`${name}\\b[^=]*=\\s*\\{([^}]*)\\}`).exec(source);
+  assert.ok(match, `${name} not found in ${file.pathname}`);
+  return match[1];
+}
+
+const expected = Object.entries(STEALTH_NETWORKS).sort(([a], [b]) =>
+  a.localeCompare(b),
+);
+
+const tests: [string, () => Promise<void>][] = [
+  [
+    "the Ponder app's STEALTH_NETWORKS matches the backend's",
+    async () => {
+      const body = await objectLiteral(PONDER_APP_NETWORKS, "STEALTH_NETWORKS");
+      const networks = [...body.matchAll(/(\w+):\s*(\d+)/g)]
+        .map(([, name, chainId]) => [name, Number(chainId)] as const)
+        .sort(([a], [b]) => a.localeCompare(b));
+      assert.deepEqual(networks, expected);
+    },
+  ],
+  [
+    "the frontend's PONDER_NETWORKS matches the backend's",
+    async () => {
+      const body = await objectLiteral(
+        FRONTEND_PONDER_CLIENT,
+        "PONDER_NETWORKS",
+      );
+      const networks = [...body.matchAll(/(\d+):\s*["'](\w+)["']/g)]
+        .map(([, chainId, name]) => [name, Number(chainId)] as const)
+        .sort(([a], [b]) => a.localeCompare(b));
+      assert.deepEqual(networks, expected);
+    },
+  ],
+];
+
+let failed = 0;
+for (const [name, run] of tests) {
+  try {
+    await run();
+    console.log(`✅ ${name}`);
+  } catch (error) {
+    failed++;
+    console.error(`❌ ${name}`);
+    console.error(error);
+  }
+}
+
+console.log(
+  `\n🧪 ${tests.length - failed}/${tests.length} stealth network map tests passed`,
+);
+if (failed > 0) process.exit(1);
@@ -0,0 +1,207 @@
+#!/usr/bin/env tsx
+import assert from "node:assert/strict";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+
+// Config is validated on import; placeholders are enough offline
+process.env.WALLET_KEY ??= `0x${"11".repeat(32)}`;
+process.env.ENCRYPTION_KEY ??= "22".repeat(32);
+process.env.API_SECRET_KEY ??= "test";
+process.env.RECLAIM_APP_ID ??= "test";
+process.env.RECLAIM_APP_SECRET ??= "test";
+
+const { MemoryStore } = await import("../src/lib/storage.js");
+
+// Run `check` with the clock moved `ms` ahead, so TTLs lapse without waiting
+async function later(ms: number, check: () => Promise<void>): Promise<void> {
+  const realNow = Date.now;
+  const shifted = realNow() + ms;
+  Date.now = () => shifted;
+  try {
+    await check();
+  } finally {
+    Date.now = realNow;
+  }
+}
+
+const tests: [string, () => Promise<void>][] = [
+  [
+    "gets, sets and deletes string values",
+    async () => {
+      const store = new MemoryStore();
+      assert.equal(await store.get("user:alice"), null);
+      assert.equal(await store.set("user:alice", '{"fkey":"alice"}'), true);
+      assert.equal(await store.get("user:alice"), '{"fkey":"alice"}');
+
+      assert.equal(await store.set("user:alice", "updated"), true);
+      assert.equal(await store.get("user:alice"), "updated");
+
+      assert.equal(await store.del("user:alice", "user:missing"), 1);
+      assert.equal(await store.get("user:alice"), null);
+    },
+  ],
+  [
+    "leaves an existing key alone when set with nx",
+    async () => {
+      const store = new MemoryStore();
+      assert.equal(await store.set("lock", "first", { nx: true }), true);
+      assert.equal(await store.set("lock", "second", { nx: true }), false);
+      assert.equal(await store.get("lock"), "first");
+
+      // An expired key no longer holds the lock
+      await store.set("lease", "first", { ex: 10 });
+      await later(10_000, async () => {
+        assert.equal(await store.set("lease", "second", { nx: true }), true);
+        assert.equal(await store.get("lease"), "second");
+      });
+    },
+  ],
+  [
+    "expires keys after their TTL",
+    async () => {
+      const store = new MemoryStore();
+      await store.set("session", "abc", { ex: 60 });
+      await store.set("counter", "1");
+      await store.expire("counter", 30);
+      await store.expire("missing", 30);
+
+      await later(29_000, async () => {
+        assert.equal(await store.get("session"), "abc");
+        assert.equal(await store.get("counter"), "1");
+      });
+      await later(30_000, async () => {
+        assert.equal(await store.get("session"), "abc");
+        assert.equal(await store.get("counter"), null);
+        assert.equal(await store.incr("counter"), 1);
+      });
+      await later(60_000, async () => {
+        assert.equal(await store.get("session"), null);
+        assert.equal(await store.del("session"), 0);
+      });
+      assert.equal(await store.get("missing"), null);
+    },
+  ],
+  [
+    "increments counters and keeps their TTL",
+    async () => {
+      const store = new MemoryStore();
+      assert.equal(await store.incr("rate:alice"), 1);
+      await store.expire("rate:alice", 60);
+      assert.equal(await store.incr("rate:alice"), 2);
+      await later(60_000, async () => {
+        assert.equal(await store.get("rate:alice"), null);
+      });
+
+      await store.set("name", "alice");
+      await assert.rejects(store.incr("name"), /not an integer/);
+    },
+  ],
+  [
+    "scans keys with Redis glob patterns",
+    async () => {
+      const store = new MemoryStore();
+      await store.set("fkey:alice", "1");
+      await store.set("fkey:bob", "2");
+      await store.set("fkey:bo", "3");
+      await store.set("fkey:b.b", "4");
+      await store.set("fkey:carol", "5", { ex: 1 });
+      await store.set("user:alice", "6");
+
+      const sorted = async (pattern: string) =>
+        (await store.keys(pattern)).sort();
+      assert.deepEqual(await sorted("fkey:*"), [
+        "fkey:alice",
+        "fkey:b.b",
+        "fkey:bo",
+        "fkey:bob",
+        "fkey:carol",
+      ]);
+      assert.deepEqual(await sorted("fkey:b?b"), ["fkey:b.b", "fkey:bob"]);
+      assert.deepEqual(await sorted("fkey:b.b"), ["fkey:b.b"]);
+      assert.deepEqual(await sorted("*:alice"), ["fkey:alice", "user:alice"]);
+      assert.deepEqual(await sorted("missing:*"), []);
+
+      await later(1_000, async () => {
+        assert.ok(!(await store.keys("fkey:*")).includes("fkey:carol"));
+      });
+    },
+  ],
+  [
+    "pushes, trims and reads lists",
+    async () => {
+      const store = new MemoryStore();
+      assert.equal(await store.lpush("log", "a", "b"), 2);
+      assert.equal(await store.lpush("log", "c"), 3);
+      assert.deepEqual(await store.lrange("log", 0, -1), ["c", "b", "a"]);
+      assert.deepEqual(await store.lrange("log", -2, -1), ["b", "a"]);
+
+      await store.ltrim("log", 0, 1);
+      assert.deepEqual(await store.lrange("log", 0, -1), ["c", "b"]);
+      assert.equal(await store.llen("log"), 2);
+      assert.deepEqual(await store.lrange("missing", 0, -1), []);
+
+      await assert.rejects(store.get("log"), /WRONGTYPE/);
+      await store.set("name", "alice");
+      await assert.rejects(store.lpush("name", "x"), /WRONGTYPE/);
+    },
+  ],
+  [
+    "persists the keyspace to its file and reloads it",
+    async () => {
+      const dir = await mkdtemp(path.join(tmpdir(), "dstealth-storage-"));
+      const file = path.join(dir, "nested", "store.json");
+      try {
+        const store = new MemoryStore(file);
+        await store.set("user:alice", '{"fkey":"alice"}');
+        await store.set("session", "abc", { ex: 60 });
+        await store.set("gone", "soon", { ex: 60 });
+        await store.expire("gone", 0);
+        await store.lpush("log", "a", "b");
+        await store.incr("counter");
+        await store.close();
+
+        const snapshot = JSON.parse(await readFile(file, "utf8")) as Record<
+          string,
+          unknown
+        >;
+        assert.deepEqual(Object.keys(snapshot).sort(), [
+          "counter",
+          "log",
+          "session",
+          "user:alice",
+        ]);
+
+        const reloaded = new MemoryStore(file);
+        assert.equal(await reloaded.get("user:alice"), '{"fkey":"alice"}');
+        assert.equal(await reloaded.get("session"), "abc");
+        assert.equal(await reloaded.get("gone"), null);
+        assert.deepEqual(await reloaded.lrange("log", 0, -1), ["b", "a"]);
+        assert.equal(await reloaded.incr("counter"), 2);
+        await later(60_000, async () => {
+          assert.equal(await reloaded.get("session"), null);
+        });
+        await reloaded.close();
+      } finally {
+        await rm(dir, { recursive: true, force: true });
+      }
+    },
+  ],
+];
+
+let failed = 0;
+for (const [name, run] of tests) {
+  try {
+    await run();
+    console.log(`✅ ${name}`);
+  } catch (error) {
+    failed++;
+    console.error(`❌ ${name}`);
+    console.error(error);
+  }
+}
+
+console.log(
+  `\n🧪 ${tests.length - failed}/${tests.length} storage tests passed`,
+);
+if (failed > 0) process.exit(1);
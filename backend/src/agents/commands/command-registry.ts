@@ -0,0 +1,282 @@
+import { isAddress } from "viem";
+import type { AgentConversation } from "../plugins/context.js";
+
+/**
+ * Declarative slash-command registry for the dStealth agent.
+ *
+ * Commands declare their name, aliases, typed args, onboarding requirement and
+ * where they may be used; the registry parses input, reports usage errors and
+ * generates /help text from the same definitions. Command names are matched
+ * case-insensitively, arguments are passed through with their original case.
+ */
+
+export type CommandArgType = "string" | "number" | "address" | "rest";
+
+export interface CommandArgSpec {
+  name: string;
+  type: CommandArgType; // "rest" swallows the remaining input and must be last
+  optional?: boolean;
+}
+
+export type CommandArgValue = string | number | undefined;
+export type CommandArgs = Record<string, CommandArgValue>;
+
+export type CommandAvailability = "all" | "dm" | "group";
+
+export interface CommandContext {
+  senderInboxId: string;
+  isGroup: boolean;
+  conversation?: AgentConversation;
+  isOnboarded: boolean;
+  rawInput: string;
+}
+
+export interface CommandDefinition {
+  name: string;
+  aliases?: string[];
+  description: string;
+  category?: string; // groups commands in /help
+  args?: CommandArgSpec[];
+  requiresOnboarding?: boolean; // default true
+  availability?: CommandAvailability; // default "all"
+  hidden?: boolean; // registered but left out of /help
+  handler: (args: CommandArgs, ctx: CommandContext) => Promise<string> | string;
+}
+
+export class CommandUsageError extends Error {
+  constructor(
+    public command: CommandDefinition,
+    message: string,
+  ) {
+    super(message);
+    this.name = "CommandUsageError";
+  }
+}
+
+export interface CommandMessages {
+  unknown: (name: string) => string;
+  requiresOnboarding: (ctx: CommandContext) => string;
+  unavailable: (command: CommandDefinition, ctx: CommandContext) => string;
+  usage: (command: CommandDefinition, error: string, usage: string) => string;
+}
+
+const DEFAULT_MESSAGES: CommandMessages = {
+  unknown: () => "❌ Unknown command. Type /help for available commands.",
+  requiresOnboarding: () =>
+    "🔑 Set your fkey.id first with /set yourUsername to use this command.",
+  unavailable: (command, ctx) =>
+    ctx.isGroup
+      ? `❌ /${command.name} is only available in DMs. Message me directly to use it.`
+      : `❌ /${command.name} is only available in group chats.`,
+  usage: (_command, error, usage) => `❌ ${error}\n\nUsage: ${usage}`,
+};
+
+// Whitespace-separated tokens; "double quoted" tokens may contain spaces
+export function tokenize(input: string): string[] {
+  const tokens: string[] = [];
+  const pattern = /"([^"]*)"|(\S+)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(input)) !== null) {
+    // Group 1 is a quoted token, group 2 a bare one
+    tokens.push(match.at(1) ?? match[2]);
+  }
+  return tokens;
+}
+
+export class CommandRegistry {
+  private commands: CommandDefinition[] = [];
+  private lookup: Map<string, CommandDefinition> = new Map();
+  private messages: CommandMessages;
+
+  constructor(messages: Partial<CommandMessages> = {}) {
+    this.messages = { ...DEFAULT_MESSAGES, ...messages };
+  }
+
+  register(command: CommandDefinition): this {
+    const names = [command.name, ...(command.aliases ?? [])].map((name) =>
+      name.toLowerCase(),
+    );
+
+    for (const name of names) {
+      if (this.lookup.has(name)) {
+        throw new Error(`Command /${name} is already registered`);
+      }
+    }
+
+    const args = command.args ?? [];
+    args.forEach((arg, index) => {
+      if (arg.type === "rest" && index !== args.length - 1) {
+        throw new Error(`/${command.name}: "rest" argument must be last`);
+      }
+      if (!arg.optional && args.slice(0, index).some((prev) => prev.optional)) {
+        throw new Error(
+          `/${command.name}: required argument "${arg.name}" follows an optional one`,
+        );
+      }
+    });
+
+    this.commands.push(command);
+    for (const name of names) {
+      this.lookup.set(name, command);
+    }
+    return this;
+  }
+
+  resolve(name: string): CommandDefinition | undefined {
+    return this.lookup.get(name.replace(/^\//, "").toLowerCase());
+  }
+
+  list(): CommandDefinition[] {
+    return [...this.commands];
+  }
+
+  usage(command: CommandDefinition): string {
+    const args = (command.args ?? []).map((arg) => {
+      const label = arg.type === "rest" ? `${arg.name}...` : arg.name;
+      return arg.optional ? `[${label}]` : `<${label}>`;
+    });
+    return [`/${command.name}`, ...args].join(" ");
+  }
+
+  /**
+   * Parse the text after the command name against the command's arg specs
+   */
+  parseArgs(command: CommandDefinition, argText: string): CommandArgs {
+    const specs = command.args ?? [];
+    const tokens = tokenize(argText);
+    const args: CommandArgs = {};
+
+    for (let i = 0; i < specs.length; i++) {
+      const spec = specs[i];
+
+      if (spec.type === "rest") {
+        // Keep the user's own spacing/quoting for free text
+        const rest = tokens.length > i ? restOfInput(argText, i) : "";
+        if (!rest && !spec.optional) {
+          throw new CommandUsageError(command, `Missing ${spec.name}`);
+        }
+        args[spec.name] = rest || undefined;
+        return args;
+      }
+
+      const token = tokens.at(i);
+      if (token === undefined) {
+        if (!spec.optional) {
+          throw new CommandUsageError(command, `Missing ${spec.name}`);
+        }
+        args[spec.name] = undefined;
+        continue;
+      }
+
+      args[spec.name] = convertArg(command, spec, token);
+    }
+
+    if (tokens.length > specs.length) {
+      throw new CommandUsageError(command, "Too many arguments");
+    }
+
+    return args;
+  }
+
+  /**
+   * Run a slash command. Returns null when `input` isn't a slash command.
+   */
+  async execute(input: string, ctx: CommandContext): Promise<string | null> {
+    const trimmed = input.trim();
+    const match = trimmed.match(/^\/(\S+)\s*([\s\S]*)$/);
+    if (!match) return null;
+
+    const [, name, argText] = match;
+    const command = this.resolve(name);
+    if (!command) {
+      return this.messages.unknown(name);
+    }
+
+    const availability = command.availability ?? "all";
+    if (
+      (availability === "dm" && ctx.isGroup) ||
+      (availability === "group" && !ctx.isGroup)
+    ) {
+      return this.messages.unavailable(command, ctx);
+    }
+
+    if ((command.requiresOnboarding ?? true) && !ctx.isOnboarded) {
+      return this.messages.requiresOnboarding(ctx);
+    }
+
+    let args: CommandArgs;
+    try {
+      args = this.parseArgs(command, argText);
+    } catch (error) {
+      if (error instanceof CommandUsageError) {
+        return this.messages.usage(command, error.message, this.usage(command));
+      }
+      throw error;
+    }
+
+    return await command.handler(args, { ...ctx, rawInput: trimmed });
+  }
+
+  /**
+   * Help text for the commands visible in this context, grouped by category
+   */
+  formatHelp(options: { isGroup: boolean; isOnboarded: boolean }): string {
+    const sections = new Map<string, string[]>();
+
+    for (const command of this.commands) {
+      if (command.hidden) continue;
+
+      const availability = command.availability ?? "all";
+      if (availability === "dm" && options.isGroup) continue;
+      if (availability === "group" && !options.isGroup) continue;
+      if ((command.requiresOnboarding ?? true) && !options.isOnboarded)
+        continue;
+
+      const aliases = (command.aliases ?? []).map((alias) => ` or /${alias}`);
+      const line = `• ${this.usage(command)}${aliases.join("")} - ${command.description}`;
+
+      const category = command.category ?? "Commands";
+      sections.set(category, [...(sections.get(category) ?? []), line]);
+    }
+
+    return Array.from(sections.entries())
+      .map(([category, lines]) => `${category}:\n${lines.join("\n")}`)
+      .join("\n\n");
+  }
+}
+
+function convertArg(
+  command: CommandDefinition,
+  spec: CommandArgSpec,
+  token: string,
+): CommandArgValue {
+  switch (spec.type) {
+    case "number": {
+      const value = Number(token.replace(/^\$/, ""));
+      if (!Number.isFinite(value)) {
+        throw new CommandUsageError(command, `${spec.name} must be a number`);
+      }
+      return value;
+    }
+    case "address":
+      if (!isAddress(token)) {
+        throw new CommandUsageError(
+          command,
+          `${spec.name} must be a 0x address`,
+        );
+      }
+      return token;
+    default:
+      return token;
+  }
+}
+
+// Raw input from the `index`-th token on, untouched
+function restOfInput(argText: string, index: number): string {
+  const pattern = /"[^"]*"|\S+/g;
+  for (let i = 0; i < index; i++) {
+    pattern.exec(argText);
+  }
+  return argText.slice(pattern.lastIndex).trim();
+}
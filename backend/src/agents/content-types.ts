@@ -0,0 +1,111 @@
+/**
+ * Coinbase Wallet action button content types (coinbase.com/actions and
+ * coinbase.com/intent) and their codecs
+ */
+
+import {
+  ContentTypeId,
+  type ContentCodec,
+  type EncodedContent,
+} from "@xmtp/content-type-primitives";
+
+// Action button content types (from working example)
+export const ContentTypeActions = new ContentTypeId({
+  authorityId: "coinbase.com",
+  typeId: "actions",
+  versionMajor: 1,
+  versionMinor: 0,
+});
+
+export const ContentTypeIntent = new ContentTypeId({
+  authorityId: "coinbase.com",
+  typeId: "intent",
+  versionMajor: 1,
+  versionMinor: 0,
+});
+
+// Action button types (from working example)
+export interface Action {
+  id: string;
+  label: string;
+  imageUrl?: string;
+  style?: "primary" | "secondary" | "danger";
+  expiresAt?: string;
+}
+
+export interface ActionsContent {
+  id: string;
+  description: string;
+  actions: Action[];
+  expiresAt?: string;
+}
+
+export interface IntentContent {
+  id: string;
+  actionId: string;
+  metadata?: Record<string, string | number | boolean | null>;
+}
+
+// Action button codecs (from working example)
+export class ActionsCodec implements ContentCodec<ActionsContent> {
+  get contentType(): ContentTypeId {
+    return ContentTypeActions;
+  }
+
+  encode(content: ActionsContent): EncodedContent {
+    return {
+      type: ContentTypeActions,
+      parameters: { encoding: "UTF-8" },
+      content: new TextEncoder().encode(JSON.stringify(content)),
+    };
+  }
+
+  decode(content: EncodedContent): ActionsContent {
+    const encoding = content.parameters.encoding;
+    if (encoding && encoding !== "UTF-8") {
+      throw new Error(`Unsupported encoding: ${encoding}`);
+    }
+    return JSON.parse(new TextDecoder().decode(content.content));
+  }
+
+  fallback(content: ActionsContent): string {
+    const actionList = content.actions
+      .map((action, index) => `[${index + 1}] ${action.label}`)
+      .join("\n");
+    return `${content.description}\n\n${actionList}\n\nReply with the number to select`;
+  }
+
+  shouldPush(): boolean {
+    return true;
+  }
+}
+
+export class IntentCodec implements ContentCodec<IntentContent> {
+  get contentType(): ContentTypeId {
+    return ContentTypeIntent;
+  }
+
+  encode(content: IntentContent): EncodedContent {
+    return {
+      type: ContentTypeIntent,
+      parameters: { encoding: "UTF-8" },
+      content: new TextEncoder().encode(JSON.stringify(content)),
+    };
+  }
+
+  decode(content: EncodedContent): IntentContent {
+    const encoding = content.parameters.encoding;
+    if (encoding && encoding !== "UTF-8") {
+      throw new Error(`Unsupported encoding: ${encoding}`);
+    }
+    return JSON.parse(new TextDecoder().decode(content.content));
+  }
+
+  fallback(content: IntentContent): string {
+    return `Intent: ${content.actionId}`;
+  }
+
+  shouldPush(): boolean {
+    return true;
+  }
+}
@@ -0,0 +1,669 @@
+import type { CommandDefinition } from "../commands/command-registry.js";
+import { NEYNAR_API_BASE, type AgentContext } from "./context.js";
+import type {
+  AgentPlugin,
+  FarcasterUser,
+  NeynarFollowersResponse,
+  UserSearchResult,
+} from "./types.js";
+
+/**
+ * Farcaster rewards: profile lookup, privacy rewards sent through Neynar and
+ * finding which of a user's followers already use dStealth.
+ */
+export class FarcasterPlugin implements AgentPlugin {
+  readonly name = "farcaster";
+
+  constructor(private ctx: AgentContext) {}
+
+  commands(): CommandDefinition[] {
+    return [
+      {
+        name: "fc",
+        aliases: ["farcaster"],
+        description: "Show your Farcaster profile",
+        category: "🎭 Farcaster Integration",
+        handler: (_args, ctx) => this.handleFarcasterProfile(ctx.senderInboxId),
+      },
+      {
+        name: "rewards",
+        description: "Check available privacy rewards",
+        category: "🎭 Farcaster Integration",
+        handler: (_args, ctx) => this.handleRewardsCommand(ctx.senderInboxId),
+      },
+      {
+        name: "send-rewards",
+        description: "Send 0.001 USDC rewards to your FC wallet",
+        category: "🎭 Farcaster Integration",
+        handler: (_args, ctx) =>
+          this.handleSendRewardsCommand(ctx.senderInboxId),
+      },
+      {
+        name: "search-followers",
+        description: "Find which of your FC followers use dStealth",
+        category: "🔍 Social Discovery",
+        handler: (_args, ctx) =>
+          this.handleSearchFollowersCommand(ctx.senderInboxId),
+      },
+    ];
+  }
+
+  /**
+   * 🔧 NEW: Get CBW wallet addresses directly from FID (your requested flow)
+   */
+  private async getCBWWalletsFromFID(fid: number): Promise<{
+    custodyAddress: string;
+    verifiedAddresses: string[];
+    allWallets: string[];
+    error?: string;
+  }> {
+    try {
+      console.log(`🎯 Getting CBW wallets for FID: ${fid}`);
+
+      // Use Neynar API to get wallet addresses from FID
+      const farcasterUser = await this.ctx.fetchNeynarUserData(fid);
+
+      if (!farcasterUser) {
+        return {
+          custodyAddress: "",
+          verifiedAddresses: [],
+          allWallets: [],
+          error: "Could not fetch user data from Neynar",
+        };
+      }
+
+      // Extract all wallet addresses
+      const allWallets = [
+        farcasterUser.custodyAddress,
+        ...farcasterUser.verifiedAddresses,
+      ].filter(Boolean);
+
+      // Remove duplicates
+      const uniqueWallets = [...new Set(allWallets)];
+
+      console.log(
+        `✅ Found ${uniqueWallets.length} wallet addresses for FID ${fid}:`,
+      );
+      console.log(`   Custody: ${farcasterUser.custodyAddress}`);
+      console.log(`   Verified: ${farcasterUser.verifiedAddresses.length}`);
+
+      return {
+        custodyAddress: farcasterUser.custodyAddress,
+        verifiedAddresses: farcasterUser.verifiedAddresses,
+        allWallets: uniqueWallets,
+      };
+    } catch (error) {
+      console.error("Error getting CBW wallets from FID:", error);
+      return {
+        custodyAddress: "",
+        verifiedAddresses: [],
+        allWallets: [],
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  /**
+   * 🔧 NEW: Neynar API - Send fungible rewards to user
+   */
+  private async sendFarcasterRewards(
+    fid: number,
+    amount: number = 0.001,
+    tokenAddress: string = "0x833589fcd6edb6e08f4c7c32d4f71b54bda02913", // USDC on Base
+  ): Promise<{ success: boolean; txHash?: string; error?: string }> {
+    try {
+      if (!this.ctx.NEYNAR_API_KEY) {
+        console.warn("⚠️ NEYNAR_API_KEY not configured for rewards");
+        return { success: false, error: "Neynar API key not configured" };
+      }
+
+      // Check if sponsor wallet ID is configured
+      if (!this.ctx.NEYNAR_SPONSOR_WALLET_ID) {
+        console.warn("⚠️ NEYNAR_SPONSOR_WALLET_ID not configured for rewards");
+        return { success: false, error: "Sponsor wallet ID not configured" };
+      }
+
+      console.log(`💰 Sending ${amount} USDC rewards to FID: ${fid}`);
+      console.log(
+        `🏦 Using sponsor wallet ID: ${this.ctx.NEYNAR_SPONSOR_WALLET_ID}`,
+      );
+
+      const requestPayload = {
+        fids: [fid],
+        token_address: tokenAddress,
+        amount: amount.toString(),
+        chain_id: 8453, // Base network
+        sponsor_wallet_id: this.ctx.NEYNAR_SPONSOR_WALLET_ID, // Your actual sponsor wallet ID from Neynar
+        message: `🎉 dStealth Privacy Rewards! You've earned ${amount} USDC for using stealth addresses! 🥷`,
+      };
+
+      const response = await fetch(
+        `${NEYNAR_API_BASE}/farcaster/fungibles/send`,
+        {
+          method: "POST",
+          headers: {
+            api_key: this.ctx.NEYNAR_API_KEY,
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify(requestPayload),
+        },
+      );
+
+      if (!response.ok) {
+        const errorData: unknown = await response.json();
+        console.log(
+          `❌ Neynar send fungibles error: ${response.status}`,
+          errorData,
+        );
+        return { success: false, error: `API error: ${response.status}` };
+      }
+
+      const data = (await response.json()) as { transaction_hash: string };
+      console.log(`✅ Rewards sent successfully! TX: ${data.transaction_hash}`);
+
+      return { success: true, txHash: data.transaction_hash };
+    } catch (error) {
+      console.error("Error sending Farcaster rewards:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  /**
+   * 🔧 NEW: Neynar API - Fetch user followers
+   */
+  async fetchUserFollowers(
+    fid: number,
+    limit: number = 50,
+  ): Promise<FarcasterUser[]> {
+    try {
+      if (!this.ctx.NEYNAR_API_KEY) {
+        console.warn("⚠️ NEYNAR_API_KEY not configured for followers");
+        return [];
+      }
+
+      console.log(`👥 Fetching followers for FID: ${fid}`);
+
+      const response = await fetch(
+        `${NEYNAR_API_BASE}/farcaster/followers?fid=${fid}&limit=${limit}`,
+        {
+          headers: {
+            api_key: this.ctx.NEYNAR_API_KEY,
+          },
+        },
+      );
+
+      if (!response.ok) {
+        console.log(`❌ Neynar followers API error: ${response.status}`);
+        return [];
+      }
+
+      const data = (await response.json()) as NeynarFollowersResponse;
+
+      const followers: FarcasterUser[] = data.users.map((user) => ({
+        fid: user.fid,
+        username: user.username,
+        displayName: user.display_name,
+        avatarUrl: user.pfp_url,
+        verified: user.verified,
+        custodyAddress: user.custody_address,
+        verifiedAddresses: user.verified_addresses?.eth_addresses || [],
+        bio: user.profile?.bio?.text,
+        followerCount: user.follower_count,
+        followingCount: user.following_count,
+      }));
+
+      console.log(`✅ Found ${followers.length} followers for FID ${fid}`);
+      return followers;
+    } catch (error) {
+      console.error("Error fetching user followers:", error);
+      return [];
+    }
+  }
+
+  /**
+   * 🔧 ENHANCED: Social Discovery - Analyze followers for dStealth usage - NO ZK receipts for search
+   */
+  private async analyzeFollowersForDStealth(
+    fid: number,
+  ): Promise<UserSearchResult[]> {
+    try {
+      // Get user's followers
+      const followers = await this.fetchUserFollowers(fid, 100); // Get up to 100 followers
+
+      const results: UserSearchResult[] = [];
+
+      console.log(
+        `🔍 Analyzing ${followers.length} followers for dStealth usage...`,
+      );
+
+      for (const follower of followers) {
+        // Check all verified addresses for existing fkey.id in database
+        let foundFkey: string | null = null;
+
+        // Check custody address
+        const custodyFkey = await this.ctx.findFkeyByWallet(
+          follower.custodyAddress,
+        );
+        if (custodyFkey) {
+          foundFkey = custodyFkey;
+        }
+
+        // Check verified addresses if no fkey found yet
+        if (!foundFkey) {
+          for (const address of follower.verifiedAddresses) {
+            const fkey = await this.ctx.findFkeyByWallet(address);
+            if (fkey) {
+              foundFkey = fkey;
+              break;
+            }
+          }
+        }
+
+        // Use primary verified address or custody address
+        const primaryAddress =
+          follower.verifiedAddresses[0] || follower.custodyAddress;
+
+        results.push({
+          fid: follower.fid,
+          username: follower.username,
+          displayName: follower.displayName,
+          avatarUrl: follower.avatarUrl,
+          verified: follower.verified,
+          walletAddress: primaryAddress,
+          fkeyId: foundFkey || undefined,
+          hasFkey: !!foundFkey,
+        });
+      }
+
+      const dStealthUsers = results.filter((r) => r.hasFkey);
+      console.log(
+        `✅ Found ${dStealthUsers.length} dStealth users among ${followers.length} followers`,
+      );
+
+      return results;
+    } catch (error) {
+      console.error("Error analyzing followers for dStealth:", error);
+      return [];
+    }
+  }
+
+  /**
+   * 🔧 NEW: Handle Farcaster profile command
+   */
+  private async handleFarcasterProfile(senderInboxId: string): Promise<string> {
+    try {
+      // Check if user has fkey.id set
+      const userData = await this.ctx.db.getStealthDataByUser(senderInboxId);
+
+      if (!userData?.fkeyId) {
+        return this.ctx.getRequiresFkeyMessage(false);
+      }
+
+      if (!this.ctx.client) {
+        return "❌ Agent not available";
+      }
+
+      // Get sender's wallet address
+      const inboxState =
+        await this.ctx.client.preferences.inboxStateFromInboxIds([
+          senderInboxId,
+        ]);
+      const senderAddress = inboxState[0]?.identifiers[0]?.identifier;
+
+      if (!senderAddress) {
+        return "❌ Could not get your wallet address";
+      }
+
+      console.log(`🎭 Fetching Farcaster profile for ${senderAddress}`);
+
+      // Get Farcaster context
+      const farcasterContext =
+        await this.ctx.getFarcasterContext(senderAddress);
+
+      if (!farcasterContext) {
+        return `🎭 No Farcaster Profile Found
+
+Your wallet address (${senderAddress.slice(0, 8)}...${senderAddress.slice(-6)}) is not connected to a Farcaster account.
+
+🔗 Connect your wallet to Farcaster:
+• Visit warpcast.com
+• Connect your wallet
+• Set up your profile
+
+Once connected, I'll be able to:
+• Send rewards to your FC wallet
+• Provide personalized Farcaster context
+• Enhance your privacy experience
+
+Try again with /fc after connecting!`;
+      }
+
+      return `🎭 Your Farcaster Profile
+
+@${farcasterContext.username} (${farcasterContext.displayName})
+${farcasterContext.verified ? "✅ Verified" : "⚪ Not Verified"}
+📍 FID: ${farcasterContext.fid}
+
+📊 Stats:
+• Followers: ${farcasterContext.followerCount?.toLocaleString() || "N/A"}
+• Following: ${farcasterContext.followingCount?.toLocaleString() || "N/A"}
+• Bio: ${farcasterContext.bio || "No bio set"}
+
+💰 Rewards Available:
+• Privacy rewards: /rewards
+• Send rewards: /send-rewards
+
+🔗 Wallet Connection:
+• Connected: ${senderAddress.slice(0, 8)}...${senderAddress.slice(-6)}
+• Custody: ${farcasterContext.custodyAddress.slice(0, 8)}...${farcasterContext.custodyAddress.slice(-6)}
+• Verified Addresses: ${farcasterContext.verifiedAddresses.length}
+
+Ready to earn privacy rewards! 🥷`;
+    } catch (error) {
+      console.error("Error handling Farcaster profile:", error);
+      return "❌ Error fetching Farcaster profile. Please try again.";
+    }
+  }
+
+  /**
+   * 🔧 NEW: Handle rewards command
+   */
+  private async handleRewardsCommand(senderInboxId: string): Promise<string> {
+    try {
+      // Check if user has fkey.id set
+      const userData = await this.ctx.db.getStealthDataByUser(senderInboxId);
+
+      if (!userData?.fkeyId) {
+        return this.ctx.getRequiresFkeyMessage(false);
+      }
+
+      if (!this.ctx.client) {
+        return "❌ Agent not available";
+      }
+
+      // Get sender's wallet address
+      const inboxState =
+        await this.ctx.client.preferences.inboxStateFromInboxIds([
+          senderInboxId,
+        ]);
+      const senderAddress = inboxState[0]?.identifiers[0]?.identifier;
+
+      if (!senderAddress) {
+        return "❌ Could not get your wallet address";
+      }
+
+      // Get Farcaster context
+      const farcasterContext =
+        await this.ctx.getFarcasterContext(senderAddress);
+
+      if (!farcasterContext) {
+        return `💰 Rewards - FC Connection Required
+
+To earn privacy rewards, connect your wallet to Farcaster:
+
+🔗 Setup Steps:
+1. Visit warpcast.com
+2. Connect your wallet: ${senderAddress.slice(0, 8)}...${senderAddress.slice(-6)}
+3. Set up your profile
+4. Return here with /fc
+
+🎯 Available Rewards:
+• Privacy usage rewards: 0.001 USDC per stealth payment
+• Referral rewards: Coming soon
+• Achievement rewards: Coming soon
+
+Connect to Farcaster to unlock rewards! 🚀`;
+      }
+
+      // Get user's stealth data (userData already declared at function start)
+      const hasStealthSetup = userData.fkeyId && userData.stealthAddress;
+
+      return `💰 Privacy Rewards Dashboard
+
+👤 Profile: @${farcasterContext.username}
+🔗 Connected: ${hasStealthSetup ? "✅ Stealth Setup Complete" : "⚠️ Setup Required"}
+
+🎯 Available Rewards:
+• 💳 Create Payment Link: 0.001 USDC
+• 🧾 Receive Stealth Payment: 0.001 USDC
+• 🎪 Weekly Challenges: Up to 0.1 USDC
+
+📊 Current Status:
+• Privacy Points: Coming soon
+• Total Earned: Coming soon
+• Rank: Coming soon
+
+🚀 Earn More:
+• Complete your fkey.id setup: /set yourUsername
+• Generate payment links: "create payment link for $X"
+• Use stealth addresses for privacy
+
+Ready to earn? Type /send-rewards to claim available rewards!`;
+    } catch (error) {
+      console.error("Error handling rewards command:", error);
+      return "❌ Error fetching rewards. Please try again.";
+    }
+  }
+
+  /**
+   * 🔧 NEW: Handle send rewards command
+   */
+  private async handleSendRewardsCommand(
+    senderInboxId: string,
+  ): Promise<string> {
+    try {
+      if (!this.ctx.client) {
+        return "❌ Agent not available";
+      }
+
+      // Get sender's wallet address
+      const inboxState =
+        await this.ctx.client.preferences.inboxStateFromInboxIds([
+          senderInboxId,
+        ]);
+      const senderAddress = inboxState[0]?.identifiers[0]?.identifier;
+
+      if (!senderAddress) {
+        return "❌ Could not get your wallet address";
+      }
+
+      // Get Farcaster context
+      const farcasterContext =
+        await this.ctx.getFarcasterContext(senderAddress);
+
+      if (!farcasterContext) {
+        return `💰 Send Rewards - FC Required
+
+To receive privacy rewards, connect your wallet to Farcaster first:
+
+🔗 Setup:
+1. Visit warpcast.com
+2. Connect wallet: ${senderAddress.slice(0, 8)}...${senderAddress.slice(-6)}
+3. Complete profile setup
+4. Return with /fc
+
+Then you can receive rewards via Farcaster!`;
+      }
+
+      // Check if user has stealth setup
+      const userData = await this.ctx.db.getStealthDataByUser(senderInboxId);
+
+      if (!userData?.fkeyId || !userData.stealthAddress) {
+        return `💰 Send Rewards - Setup Required
+
+Hi @${farcasterContext.username}! 
+
+To earn privacy rewards, complete your stealth setup:
+
+🔑 Step 1: Set fkey.id
+• /set yourUsername
+• Connect to FluidKey: ${this.ctx.FLUIDKEY_REFERRAL_URL}
+
+🚀 Step 2: Generate payment links
+• "create payment link for $X"
+
+Then you can claim rewards! 🎯`;
+      }
+
+      // Try to send rewards
+      console.log(
+        `💰 Attempting to send rewards to FID: ${farcasterContext.fid}`,
+      );
+
+      const rewardResult = await this.sendFarcasterRewards(
+        farcasterContext.fid,
+        0.001,
+      );
+
+      if (rewardResult.success) {
+        return `🎉 Rewards Sent Successfully!
+
+👤 Recipient: @${farcasterContext.username}
+💰 Amount: 0.001 USDC
+🎯 Reward Type: Privacy Usage Bonus
+🔗 Transaction: ${rewardResult.txHash}
+
+✅ Rewards sent to your Farcaster wallet!
+
+🚀 Keep earning:
+• Generate more payment links
+• Use stealth addresses
+• Complete privacy challenges
+
+Thank you for using dStealth! 🥷`;
+      } else {
+        return `❌ Reward Send Failed
+
+Could not send rewards to @${farcasterContext.username}:
+${rewardResult.error}
+
+🔧 Common Issues:
+• Neynar API configuration
+• Insufficient sponsor funds
+• Network connectivity
+
+Try again later or contact support at ${this.ctx.DSTEALTH_APP_URL}`;
+      }
+    } catch (error) {
+      console.error("Error handling send rewards command:", error);
+      return "❌ Error sending rewards. Please try again.";
+    }
+  }
+
+  /**
+   * 🔧 NEW: Handle search followers command
+   */
+  private async handleSearchFollowersCommand(
+    senderInboxId: string,
+  ): Promise<string> {
+    try {
+      if (!this.ctx.client) {
+        return "❌ Agent not available";
+      }
+
+      // Get sender's wallet address
+      const inboxState =
+        await this.ctx.client.preferences.inboxStateFromInboxIds([
+          senderInboxId,
+        ]);
+      const senderAddress = inboxState[0]?.identifiers[0]?.identifier;
+
+      if (!senderAddress) {
+        return "❌ Could not get your wallet address";
+      }
+
+      // Get Farcaster context
+      const farcasterContext =
+        await this.ctx.getFarcasterContext(senderAddress);
+
+      if (!farcasterContext) {
+        return `🔍 Search Followers - FC Required
+
+To search your followers for dStealth users, connect your wallet to Farcaster:
+
+🔗 Setup:
+1. Visit warpcast.com
+2. Connect wallet: ${senderAddress.slice(0, 8)}...${senderAddress.slice(-6)}
+3. Set up your profile
+4. Return with /fc
+
+Then you can discover which of your followers use dStealth!`;
+      }
+
+      console.log(
+        `🔍 Analyzing followers for @${farcasterContext.username} (FID: ${farcasterContext.fid})`,
+      );
+
+      // Analyze followers for dStealth usage
+      const followerAnalysis = await this.analyzeFollowersForDStealth(
+        farcasterContext.fid,
+      );
+
+      if (followerAnalysis.length === 0) {
+        return `🔍 Follower Analysis Results
+
+@${farcasterContext.username}, I couldn't fetch your followers right now.
+
+This could be due to:
+• Neynar API rate limits
+• Network connectivity issues
+• Your profile privacy settings
+
+Try again in a few minutes, or contact support if issues persist.`;
+      }
+
+      const dStealthUsers = followerAnalysis.filter((user) => user.hasFkey);
+      const totalFollowers = followerAnalysis.length;
+
+      if (dStealthUsers.length === 0) {
+        return `🔍 Follower Analysis Results
+
+@${farcasterContext.username}, I analyzed ${totalFollowers} of your followers.
+
+❌ No dStealth Users Found
+
+None of your recent followers have set up fkey.id yet.
+
+🚀 Spread the word:
+• Share dStealth with your community
+• Tell them about privacy rewards
+• Get FluidKey: ${this.ctx.FLUIDKEY_REFERRAL_URL}
+
+Try /find-users <name> to search for specific users!`;
+      }
+
+      // Format results
+      const userList = dStealthUsers
+        .slice(0, 10) // Show max 10 results
+        .map((user) => {
+          const verifiedBadge = user.verified ? " ✅" : "";
+          return `• @${user.username}${verifiedBadge} → ${user.fkeyId}.fkey.id`;
+        })
+        .join("\n");
+
+      const moreResults =
+        dStealthUsers.length > 10
+          ? `\n\n... and ${dStealthUsers.length - 10} more dStealth users!`
+          : "";
+
+      return `🔍 Follower Analysis Results
+
+@${farcasterContext.username}, I found ${dStealthUsers.length} dStealth users among ${totalFollowers} followers:
+
+${userList}${moreResults}
+
+🎯 Social Discovery:
+• Use /find-users <name> to search for more users
+• Share fkey.id with followers for privacy rewards
+• Connect more friends to expand the privacy network
+
+Ready to explore more? 🕵️‍♂️`;
+    } catch (error) {
+      console.error("Error handling search followers command:", error);
+      return "❌ Error searching followers. Please try again.";
+    }
+  }
+}
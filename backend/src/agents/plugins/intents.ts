@@ -0,0 +1,542 @@
+import { ContentTypeWalletSendCalls } from "@xmtp/content-type-wallet-send-calls";
+import { resolvePaymentAsset } from "../../lib/payment-tokens.js";
+import type { CommandDefinition } from "../commands/command-registry.js";
+import {
+  ContentTypeActions,
+  type ActionsContent,
+  type IntentContent,
+} from "../content-types.js";
+import type { AgentContext, AgentConversation } from "./context.js";
+import type { OnboardingPlugin } from "./onboarding.js";
+import type { PaymentsPlugin } from "./payments.js";
+import type { AgentPlugin } from "./types.js";
+
+/**
+ * Intents: the action button menus and what happens when one is clicked.
+ * Clicks are only honoured for a user's most recent action sets.
+ */
+export class IntentsPlugin implements AgentPlugin {
+  readonly name = "intents";
+
+  constructor(
+    private ctx: AgentContext,
+    private onboarding: OnboardingPlugin,
+    private payments: PaymentsPlugin,
+  ) {}
+
+  commands(): CommandDefinition[] {
+    return [
+      {
+        name: "actions",
+        description: "Show quick action buttons",
+        category: "💳 Payment Commands",
+        handler: async (_args, ctx) => {
+          await this.sendActionsMenu(ctx.senderInboxId);
+          return ""; // Return empty string since we're sending actions
+        },
+      },
+    ];
+  }
+
+  /**
+   * 🔧 NEW: Handle Intent messages from action buttons
+   */
+  async handleIntent(
+    intent: IntentContent,
+    senderInboxId: string,
+  ): Promise<string> {
+    try {
+      const actionId = intent.actionId;
+
+      console.log(`🎯 Handling Intent Action: ${actionId}`);
+
+      // Create unique intent message ID for deduplication
+      const intentMessageId = `${senderInboxId}-${intent.id}-${actionId}`;
+
+      // DEDUPLICATION: Check if we've already processed this intent
+      if (this.ctx.processedIntentIds.has(intentMessageId)) {
+        console.log(
+          `🔄 DUPLICATE Intent detected - skipping: ${intentMessageId}`,
+        );
+        console.log(
+          `   Already processed intents: ${this.ctx.processedIntentIds.size}`,
+        );
+        return ""; // Return empty string to avoid duplicate responses
+      }
+
+      // Mark this intent as processed
+      this.ctx.processedIntentIds.add(intentMessageId);
+      console.log(`✅ Intent marked as processed: ${intentMessageId}`);
+      console.log(
+        `   Total processed intents: ${this.ctx.processedIntentIds.size}`,
+      );
+
+      // Clean up old intent IDs to prevent memory leaks (keep last 100)
+      if (this.ctx.processedIntentIds.size > 100) {
+        const oldIntents = Array.from(this.ctx.processedIntentIds).slice(0, 50);
+        oldIntents.forEach((id) => this.ctx.processedIntentIds.delete(id));
+        console.log(`🧹 Cleaned up ${oldIntents.length} old intent IDs`);
+      }
+
+      // Extract action set ID from intent.id (e.g., "help-actions-1752163068713-wdn9zl")
+      const actionSetId = intent.id;
+      console.log(`🔍 Action Set ID: ${actionSetId}`);
+
+      // Check if this is from a recent valid action set for this user
+      const recentActionSets =
+        this.ctx.userRecentActionSets.get(senderInboxId) || [];
+      console.log(`🔍 Action Set Validation for user ${senderInboxId}:`);
+      console.log(`   Current Intent Action Set: ${actionSetId}`);
+      console.log(
+        `   Recent Valid Action Sets: [${recentActionSets.join(", ")}]`,
+      );
+      console.log(`   Total Recent Sets: ${recentActionSets.length}`);
+
+      if (!recentActionSets.includes(actionSetId)) {
+        console.log(
+          `❌ Action set validation failed - ignoring outdated action: ${actionSetId}`,
+        );
+        return "⚠️ This action has expired. Please use /help to get fresh actions.";
+      }
+
+      console.log(`✅ Action set validation passed - processing action`);
+
+      // Extract the base action ID (remove timestamp and random suffix)
+      const baseActionId = actionId.replace(/-\d+-[a-z0-9]+$/, "");
+      console.log(
+        `🎯 Base Action ID extracted: "${baseActionId}" from "${actionId}"`,
+      );
+
+      // Handle different action types with TBA patterns
+      switch (baseActionId) {
+        case "create-payment-link":
+          return `💳 Create Payment Link
+
+To create a payment link, simply specify any amount:
+
+Examples:
+• "create payment link for $25"
+• "create payment link for $100" 
+• "create payment link for $1500"
+• "create payment link for $50.50"
+
+Features:
+• 🥷 Anonymous sender privacy
+• ⚡ Direct to stealth address via Daimo
+• 🧾 ZK proof receipts
+• 🎯 Earn privacy rewards
+
+Try it now! Just type the amount you want.`;
+
+        case "search-user":
+          return `🔍 Search for User's fkey.id
+
+Type a .base.eth handle or Farcaster username to search for their fkey.id:
+
+Examples:
+• tantodefi
+• vitalik.eth
+• @username
+• user.base.eth
+
+I'll search across all databases and tell you if they have set their fkey.id!
+
+💡 Just type the username you want to search for.`;
+
+        case "more-help":
+          return `🥷 dStealth: Privacy-First Payments
+
+**🔑 Key Features:**
+• **Stealth Addresses**: Receive payments anonymously
+• **ZK Proofs**: Cryptographic privacy verification
+• **Payment Links**: Share links to request payments
+• **Cross-Platform**: Works on Farcaster, XMTP, and web
+
+**🚀 Getting Started:**
+
+**1. Set Your fkey.id:**
+• Get FluidKey: ${this.ctx.FLUIDKEY_REFERRAL_URL}
+• Then: /set yourusername
+• Or: yourusername.fkey.id
+
+**2. Create Payment Links:**
+• Type: "$50" or "create payment link for $100"
+• Share the link to receive anonymous payments
+• Fresh ZK proof generated every time
+
+**3. dStealth Miniapp:**
+• Full dashboard at https://dstealth.xyz
+• View ZK receipts, manage links, privacy rewards
+• Access all features in one place
+
+**💡 Pro Tips:**
+• Payment links work with any wallet
+• Each payment gets fresh stealth address
+• ZK receipts prove payment privacy
+• Search for users: type their username
+
+Ready to get started? Type /help for action buttons!`;
+
+        case "check-balance":
+          return await this.payments.handleBalanceCheck(senderInboxId);
+
+        case "send-to-stealth": {
+          const stealthPaymentData =
+            this.payments.getPaymentDataForUser(senderInboxId);
+          if (stealthPaymentData) {
+            try {
+              if (!this.ctx.client) {
+                return "❌ Agent not available";
+              }
+
+              // Get the user's wallet address for the transaction
+              const inboxState =
+                await this.ctx.client.preferences.inboxStateFromInboxIds([
+                  senderInboxId,
+                ]);
+              const senderWalletAddress =
+                inboxState[0]?.identifiers[0]?.identifier;
+
+              if (!senderWalletAddress) {
+                return `❌ Could not determine your wallet address. Please try again.`;
+              }
+
+              // Find the user's conversation to send the transaction request
+              const conversations = await this.ctx.client.conversations.list();
+              const targetConversation = conversations.find((conv) => {
+                if (!this.ctx.isGroupConversation(conv)) {
+                  return conv.peerInboxId === senderInboxId;
+                }
+                return false;
+              });
+
+              if (!targetConversation) {
+                return `❌ Could not find conversation to send transaction request.`;
+              }
+
+              // Create the stealth wallet send calls
+              const walletSendCalls =
+                this.payments.createStealthWalletSendCalls(
+                  senderWalletAddress,
+                  stealthPaymentData.stealthAddress,
+                  stealthPaymentData.amount,
+                  stealthPaymentData.fkeyId,
+                  resolvePaymentAsset(
+                    stealthPaymentData.tokenSymbol,
+                    stealthPaymentData.chainId,
+                  ),
+                  stealthPaymentData.announceCall,
+                );
+
+              // Send the wallet transaction request
+              await targetConversation.send(
+                walletSendCalls,
+                ContentTypeWalletSendCalls,
+              );
+
+              return `✅ Stealth Transaction Request Created!
+
+💰 Amount: ${stealthPaymentData.amountLabel}
+🎯 To: ${stealthPaymentData.fkeyId}.fkey.id
+📍 Address: ${stealthPaymentData.stealthAddress.slice(0, 8)}...${stealthPaymentData.stealthAddress.slice(-6)}
+
+🥷 Privacy Features Active:
+• Anonymous sender protection
+• ZK proof receipts
+• Stealth address technology
+
+⚡ Check your wallet to approve the transaction!`;
+            } catch (error) {
+              console.error("Error creating stealth transaction:", error);
+              return `❌ Failed to create stealth transaction. Please try again.`;
+            }
+          } else {
+            return `❌ Payment data not found. Please create a new payment link.`;
+          }
+        }
+
+        case "dstealth-miniapp":
+          return `https://dstealth.xyz`;
+
+        case "tba-request-link": {
+          const paymentData =
+            this.payments.getPaymentDataForUser(senderInboxId);
+          if (paymentData) {
+            return `📱 TBA Request Link
+
+${paymentData.cbwLink}
+
+💡 This link works with any compatible wallet app:
+• Coinbase Wallet
+• Trust Wallet
+• MetaMask Mobile
+• Rainbow Wallet
+
+🔗 Share this link to request ${paymentData.amountLabel} from anyone!
+
+📍 Payment goes to: ${paymentData.fkeyId}.fkey.id
+🥷 Privacy features included automatically`;
+          } else {
+            return `❌ Payment data not found. Please create a new payment link.`;
+          }
+        }
+
+        case "daimo-pay-link": {
+          const daimoPaymentData =
+            this.payments.getPaymentDataForUser(senderInboxId);
+          if (daimoPaymentData && !daimoPaymentData.daimoLink) {
+            return `🔗 Daimo Pay links are only available for stablecoin requests.
+
+Use the 📱 TBA Request Link to request ${daimoPaymentData.amountLabel}.`;
+          }
+          if (daimoPaymentData) {
+            return `🔗 Daimo Pay Link
+
+${daimoPaymentData.daimoLink}
+
+💡 Best experience with Daimo:
+• Direct USDC transfers
+• Built-in privacy features
+• Mobile-optimized
+• Instant transactions
+
+🔗 Share this link to receive ${daimoPaymentData.amountLabel}!
+
+📍 Payment goes to: ${daimoPaymentData.fkeyId}.fkey.id
+🥷 ZK receipts included automatically`;
+          } else {
+            return `❌ Payment data not found. Please create a new payment link.`;
+          }
+        }
+
+        default:
+          // Handle legacy action IDs
+          return await this.handleLegacyIntentAction(
+            baseActionId,
+            senderInboxId,
+          );
+      }
+    } catch (error) {
+      console.error("❌ Error handling intent message:", error);
+      return "❌ Error processing action. Please try again with /help.";
+    }
+  }
+
+  /**
+   * 🔧 NEW: Handle legacy action IDs for backwards compatibility
+   */
+  private async handleLegacyIntentAction(
+    baseActionId: string,
+    senderInboxId: string,
+  ): Promise<string> {
+    switch (baseActionId) {
+      case "have-fkey":
+        return this.onboarding.handleHaveFkeyFlow();
+
+      case "no-fkey":
+        return this.onboarding.handleNoFkeyFlow();
+
+      case "confirm-fkey":
+        return await this.onboarding.processFkeyConfirmation(
+          senderInboxId,
+          true,
+        );
+
+      case "cancel-fkey":
+        return await this.onboarding.processFkeyConfirmation(
+          senderInboxId,
+          false,
+        );
+
+      case "get-help":
+        return this.ctx.getHelpMessage();
+
+      case "setup-fkey":
+        return this.onboarding.handleHaveFkeyFlow();
+
+      case "manage-links":
+        return await this.payments.handleLinksManagement(senderInboxId);
+
+      case "check-status":
+        return this.ctx.getStatusMessage();
+
+      case "create-another":
+        return `➕ Create Another Payment Link
+
+Ready to create another payment link?
+
+Examples:
+• "create payment link for $25"
+• "create payment link for $100"
+• "create payment link for $500"
+
+Features:
+• 🥷 Anonymous sender privacy
+• ⚡ Direct to stealth address
+• 🎯 Earn privacy rewards
+• 🧾 ZK proof receipts
+
+Just say the amount: "create payment link for $X"`;
+
+      default:
+        return `❌ Unknown action: ${baseActionId}. Please use /help to get available actions.`;
+    }
+  }
+
+  /**
+   * 🔧 FIXED: Send help actions to the conversation where requested (group or DM)
+   */
+  async sendHelpActionsMessage(
+    senderInboxId: string,
+    isGroup: boolean,
+    conversation?: AgentConversation,
+  ): Promise<void> {
+    try {
+      if (!this.ctx.client) return;
+
+      const userData = await this.ctx.db.getStealthDataByUser(senderInboxId);
+      const renderTimestamp = Date.now();
+      const randomSuffix = Math.random().toString(36).substring(2, 8);
+
+      const helpActions: ActionsContent = {
+        id: `help-actions-${renderTimestamp}-${randomSuffix}`,
+        description: `🤖 dStealth Agent Help 🥷
+
+Hi ${userData?.fkeyId || "there"}! I'm your privacy assistant. Choose what you'd like to do:`,
+        actions: [
+          {
+            id: `create-payment-link-${renderTimestamp}-${randomSuffix}`,
+            label: "💳 Create Payment Link",
+            style: "primary" as const,
+          },
+          {
+            id: `search-user-${renderTimestamp}-${randomSuffix}`,
+            label: "🔍 Search User",
+            style: "secondary" as const,
+          },
+          {
+            id: `more-help-${renderTimestamp}-${randomSuffix}`,
+            label: "❓ More Help",
+            style: "secondary" as const,
+          },
+          {
+            id: `dstealth-miniapp-${renderTimestamp}-${randomSuffix}`,
+            label: "🌐 dStealth App",
+            style: "secondary" as const,
+          },
+        ],
+      };
+
+      // Track this action set for the user
+      const userActionSets =
+        this.ctx.userRecentActionSets.get(senderInboxId) ?? [];
+      userActionSets.push(helpActions.id);
+      this.ctx.userRecentActionSets.set(senderInboxId, userActionSets);
+
+      // Keep only the last 5 action sets
+      if (userActionSets.length > 5) {
+        userActionSets.splice(0, userActionSets.length - 5);
+      }
+
+      if (conversation) {
+        await conversation.send(helpActions, ContentTypeActions);
+      } else {
+        // Find the conversation by sender inbox ID
+        const conversations = await this.ctx.client.conversations.list();
+        const targetConversation = conversations.find((conv) => {
+          // This is a simplified check - in reality you'd need to properly identify the conversation
+          return conv.id; // You'd need proper conversation matching logic here
+        });
+
+        if (targetConversation) {
+          await targetConversation.send(helpActions, ContentTypeActions);
+        }
+      }
+
+      console.log(
+        `✅ Help Actions sent to ${isGroup ? "group" : "DM"} with unique ID: ${helpActions.id}`,
+      );
+      console.log(`📋 Updated recent action sets for user ${senderInboxId}:`);
+      console.log(`   Added: ${helpActions.id}`);
+      console.log(`   Current sets: [${userActionSets.join(", ")}]`);
+    } catch (error) {
+      console.error("❌ Error sending help actions:", error);
+    }
+  }
+
+  /**
+   * 🔧 TBA PATTERN: Send actions menu
+   */
+  private async sendActionsMenu(senderInboxId: string): Promise<void> {
+    try {
+      if (!this.ctx.client) {
+        console.log("⚠️ Base agent not available, skipping Actions menu");
+        return;
+      }
+
+      // Get user's conversations to send actions to
+      const conversations = await this.ctx.client.conversations.list();
+
+      // Find the conversation with this user
+      const userConversation = conversations.find((conv) => {
+        // For DMs, check if this is a 1:1 conversation with the user
+        if (!this.ctx.isGroupConversation(conv)) {
+          return conv.peerInboxId === senderInboxId;
+        }
+        return false;
+      });
+
+      if (!userConversation) {
+        console.log("⚠️ User conversation not found, skipping Actions menu");
+        return;
+      }
+
+      // Generate unique timestamp for this render to reset button states
+      const renderTimestamp = Date.now();
+      const randomSuffix = Math.random().toString(36).substring(2, 8);
+
+      // Create comprehensive Actions menu with unique everything
+      const actionsContent: ActionsContent = {
+        id: `actions-menu-${renderTimestamp}-${randomSuffix}`,
+        description: `🥷 dStealth Agent - Full Actions Menu (${new Date().toLocaleTimeString()}):`,
+        expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(), // 24 hours from now
+        actions: [
+          {
+            id: `setup-fkey-${renderTimestamp}-${randomSuffix}`,
+            label: "🔑 Setup fkey.id",
+            style: "primary",
+          },
+          {
+            id: `check-balance-${renderTimestamp}-${randomSuffix}`,
+            label: "💰 Check Balance",
+            style: "secondary",
+          },
+          {
+            id: `create-payment-link-${renderTimestamp}-${randomSuffix}`,
+            label: "💳 Create Payment Link",
+            style: "primary",
+          },
+          {
+            id: `manage-links-${renderTimestamp}-${randomSuffix}`,
+            label: "🔗 Manage Links",
+            style: "secondary",
+          },
+          {
+            id: `check-status-${renderTimestamp}-${randomSuffix}`,
+            label: "📊 Check Status",
+            style: "secondary",
+          },
+        ],
+      };
+
+      // Send actions using the ActionsCodec
+      await userConversation.send(actionsContent, ContentTypeActions);
+      console.log(`✅ Actions Menu sent with unique ID: ${actionsContent.id}`);
+
+      // Track this action set in recent sets (instead of just latest)
+      this.ctx.addRecentActionSet(senderInboxId, actionsContent.id);
+    } catch (error) {
+      console.error("❌ Error sending Actions Menu:", error);
+    }
+  }
+}
@@ -0,0 +1,921 @@
+import { resolvePrimaryFromXMTP } from "../../lib/primary-address-resolver.js";
+import { isProofVerificationCurrent } from "../../lib/reclaim-proof-verification.js";
+import { findRegisteredStealthMetaAddress } from "../../lib/stealth-registry.js";
+import type { CommandDefinition } from "../commands/command-registry.js";
+import { ContentTypeActions, type ActionsContent } from "../content-types.js";
+import type { AgentContext, AgentConversation } from "./context.js";
+import type { AgentPlugin, AgentTextMessage } from "./types.js";
+
+/**
+ * Onboarding: setting and confirming a user's fkey.id, linking a
+ * self-custodied ERC-6538 meta-address, the welcome action buttons for new
+ * users and "what's my fkey" status queries.
+ */
+export class OnboardingPlugin implements AgentPlugin {
+  readonly name = "onboarding";
+
+  constructor(private ctx: AgentContext) {}
+
+  commands(): CommandDefinition[] {
+    return [
+      {
+        name: "set",
+        description: "Set your fkey.id",
+        category: "⚙️ Setup",
+        args: [{ name: "username", type: "string" }],
+        requiresOnboarding: false,
+        handler: (args, ctx) =>
+          this.handleFkeySetCommand(`/set ${args.username}`, ctx.senderInboxId),
+      },
+      {
+        name: "stealth-keys",
+        aliases: ["meta-address"],
+        description:
+          'Use your own ERC-6538 stealth meta-address ("off" to go back to fkey.id)',
+        category: "⚙️ Setup",
+        args: [{ name: "off", type: "string", optional: true }],
+        handler: (args, ctx) =>
+          this.handleStealthKeysCommand(
+            args.off as string | undefined,
+            ctx.senderInboxId,
+          ),
+      },
+    ];
+  }
+
+  async handleText(message: AgentTextMessage): Promise<string | undefined> {
+    const { content, senderInboxId, conversation } = message;
+
+    // Handle fkey.id setting commands
+    if (this.isFkeySetCommand(content)) {
+      return await this.handleFkeySetCommand(content, senderInboxId);
+    }
+
+    // Handle fkey status queries
+    if (this.isFkeyStatusQuery(content)) {
+      return await this.handleFkeyStatusQuery(senderInboxId);
+    }
+
+    // Handle fkey.id pattern (e.g., "tantodefi.fkey.id")
+    if (this.isFkeyIdPattern(content)) {
+      return await this.handleFkeyIdSubmission(
+        content,
+        senderInboxId,
+        conversation,
+      );
+    }
+
+    return undefined;
+  }
+
+  /**
+   * 🔧 NEW: Check if message is a fkey.id setting command
+   */
+  private isFkeySetCommand(content: string): boolean {
+    const trimmed = content.trim().toLowerCase();
+    return (
+      trimmed.startsWith("/set ") ||
+      trimmed.startsWith("my fkey is ") ||
+      trimmed.startsWith("my fkey.id is ")
+    );
+  }
+
+  /**
+   * 🔧 NEW: Check if message is asking about fkey status
+   */
+  private isFkeyStatusQuery(content: string): boolean {
+    const trimmed = content.trim().toLowerCase();
+    return (
+      (trimmed.includes("what") &&
+        trimmed.includes("my") &&
+        trimmed.includes("fkey")) ||
+      trimmed.includes("what is my fkey") ||
+      trimmed.includes("what's my fkey") ||
+      trimmed.includes("whats my fkey") ||
+      trimmed.includes("my fkey status") ||
+      trimmed.includes("fkey status") ||
+      trimmed.includes("current fkey") ||
+      trimmed.includes("show my fkey")
+    );
+  }
+
+  /**
+   * 🔧 NEW: Handle fkey status queries
+   */
+  private async handleFkeyStatusQuery(senderInboxId: string): Promise<string> {
+    try {
+      const userData = await this.ctx.db.getStealthDataByUser(senderInboxId);
+
+      if (!userData?.fkeyId) {
+        return `🔍 No fkey.id Set
+
+You haven't set up your fkey.id yet!
+
+🚀 Get Started:
+1. 🔑 Get FluidKey: ${this.ctx.FLUIDKEY_REFERRAL_URL}
+2. 📝 Set your fkey.id: \`/set yourUsername\`
+3. 🚀 Complete setup: ${this.ctx.DSTEALTH_APP_URL}
+
+Examples:
+• \`/set tantodefi\`
+• \`my fkey is tantodefi\`
+
+Need help? Type \`/help\` for all commands!`;
+      }
+
+      // 🔧 SECURITY: Get fresh user data with current address verification
+      const freshData = await this.ctx.getFreshUserStealthData(senderInboxId);
+
+      if (!freshData) {
+        return `❌ Setup Issues
+
+Your fkey.id ${userData.fkeyId} needs verification.
+
+Please re-verify: \`/set ${userData.fkeyId}\`
+Or get FluidKey: ${this.ctx.FLUIDKEY_REFERRAL_URL}`;
+      }
+
+      if (freshData.error) {
+        return `❌ fkey.id Verification Failed
+
+Your fkey.id: ${userData.fkeyId}  
+Error: ${freshData.error}
+
+Fix this by:
+• Re-verify: \`/set ${userData.fkeyId}\`
+• Check your FluidKey profile is public
+• Get FluidKey: ${this.ctx.FLUIDKEY_REFERRAL_URL}`;
+      }
+
+      const {
+        userData: currentData,
+        currentAddress,
+        isAddressUpdated,
+      } = freshData;
+      const zkProofStatus = isProofVerificationCurrent(
+        currentData.proofVerification,
+      )
+        ? "✅ Verified"
+        : "⚠️ Pending";
+      const setupStatus = currentAddress ? "✅ Complete" : "⏳ Pending";
+
+      const addressUpdateNotice = isAddressUpdated
+        ? `\n🔄 Address Updated: Your stealth address was refreshed.`
+        : "";
+
+      return `🔍 Your fkey.id Status
+
+Username: ${currentData.fkeyId}.fkey.id  
+Setup: ${setupStatus}
+ZK Proof: ${zkProofStatus}
+Address: ${currentAddress ? `${currentAddress.slice(0, 8)}...${currentAddress.slice(-6)}` : "Pending"}${addressUpdateNotice}
+Stealth Keys: ${currentData.stealthMetaAddress ? `✅ Self-custodied (ERC-6538 on ${currentData.stealthMetaAddressNetwork})` : "fkey.id (link your own with `/stealth-keys`)"}
+
+🚀 Quick Actions:
+• Create payment link: "create payment link for $25"
+• Check balance: \`/balance\`
+• Manage links: \`/links\`
+• Help: \`/help\`
+
+${setupStatus === "⏳ Pending" ? `Complete Setup: ${this.ctx.DSTEALTH_APP_URL}` : ""}`;
+    } catch (error) {
+      console.error("Error handling fkey status query:", error);
+      return `❌ Error Checking fkey Status
+
+Something went wrong. Please try:
+• \`/set yourUsername\` to reset
+• \`/help\` for all commands
+• Contact support if issues persist`;
+    }
+  }
+
+  /**
+   * Check if a string is a valid username (for fkey.id)
+   */
+  isValidUsername(content: string): boolean {
+    // Remove .fkey.id if present
+    const username = content.toLowerCase().replace(".fkey.id", "");
+
+    // Username should be 2-30 characters, alphanumeric plus underscore/hyphen
+    return /^[a-zA-Z0-9_-]{2,30}$/.test(username);
+  }
+
+  /**
+   * 🔧 NEW: Handle fkey.id setting commands
+   */
+  private async handleFkeySetCommand(
+    content: string,
+    senderInboxId: string,
+  ): Promise<string> {
+    try {
+      let username = "";
+      const trimmed = content.trim();
+
+      // Extract username from different command formats
+      if (trimmed.toLowerCase().startsWith("/set ")) {
+        username = trimmed.slice(5).trim();
+      } else if (trimmed.toLowerCase().startsWith("my fkey is ")) {
+        username = trimmed.slice(11).trim();
+      } else if (trimmed.toLowerCase().startsWith("my fkey.id is ")) {
+        username = trimmed.slice(14).trim();
+      }
+
+      // Remove .fkey.id suffix if present
+      if (username.toLowerCase().endsWith(".fkey.id")) {
+        username = username.slice(0, -8);
+      }
+
+      username = username.toLowerCase().trim();
+
+      if (!username || username.length < 2) {
+        return `❌ Invalid Username
+
+Please provide a valid fkey.id username.
+
+Examples:
+• \`/set tantodefi\`
+• \`/set tantodefi.fkey.id\`
+• \`my fkey is tantodefi\`
+
+Need FluidKey? Get it here: ${this.ctx.FLUIDKEY_REFERRAL_URL}`;
+      }
+
+      // ✅ FIRST: Resolve primary address for user
+      const primaryAddressResult = await resolvePrimaryFromXMTP(
+        senderInboxId,
+        this.ctx.client,
+      );
+
+      if (!primaryAddressResult) {
+        return `❌ Setup Failed
+
+Could not resolve your wallet address. Please try again later.`;
+      }
+
+      // 🔧 ENHANCED: Call fkey.id lookup API with user address and source for ZK receipt
+      console.log(`🔍 Setting fkey.id for user: ${username}`);
+      const lookupResult = await this.ctx.callFkeyLookupAPI(
+        username,
+        primaryAddressResult.primaryAddress,
+        "xmtp-agent-fkey-set",
+      );
+
+      if (lookupResult.error) {
+        return `❌ fkey.id Setup Failed
+
+Could not verify \`${username}.fkey.id\`: ${lookupResult.error}
+
+Please ensure:
+1. 🔑 You have FluidKey: ${this.ctx.FLUIDKEY_REFERRAL_URL}
+2. 📝 Your username is correct (e.g., "tantodefi")
+3. 🌐 Your fkey.id profile is publicly accessible
+
+Try: \`/set yourUsername\``;
+      }
+
+      // Keep a linked ERC-6538 meta-address across fkey.id changes
+      const existing = await this.ctx.db.getStealthDataByUser(
+        primaryAddressResult.primaryAddress,
+      );
+
+      // ✅ FIXED: Store fkey.id association using primary address approach
+      const userData = {
+        userId: primaryAddressResult.primaryAddress, // ✅ Use primary address as database key
+        fkeyId: username,
+        stealthAddress: lookupResult.address || "",
+        zkProof: lookupResult.proof,
+        proofVerification: lookupResult.verification,
+        lastUpdated: Date.now(),
+        requestedBy: senderInboxId,
+        setupStatus: "fkey_set" as const,
+        stealthMetaAddress: existing?.stealthMetaAddress,
+        stealthMetaAddressNetwork: existing?.stealthMetaAddressNetwork,
+        stealthMetaAddressLinkedAt: existing?.stealthMetaAddressLinkedAt,
+        metadata: {
+          source: "xmtp-agent",
+          primaryAddressSource: primaryAddressResult.source,
+          primaryAddressMetadata: primaryAddressResult.metadata,
+          xmtpInboxId: senderInboxId,
+        },
+      };
+
+      await this.ctx.db.storeUserStealthData(userData);
+
+      const expiresAt = lookupResult.verification?.expiresAt;
+      const proofStatus = expiresAt
+        ? `✅ ZK Proof Verified (valid until ${new Date(expiresAt).toISOString().slice(0, 10)})`
+        : "✅ ZK Proof Verified";
+
+      return `✅ fkey.id Set Successfully! 
+
+Your Profile: \`${username}.fkey.id\`
+Address: \`${lookupResult.address?.slice(0, 6)}...${lookupResult.address?.slice(-4)}\`
+Status: ${proofStatus}
+
+Now you can:
+• 💳 Create payment links: "create payment link for $25"
+• 🔍 Check balance: \`/balance\`
+• 📊 View links: \`/links\`
+
+Complete Setup: ${this.ctx.DSTEALTH_APP_URL}`;
+    } catch (error) {
+      console.error("Error setting fkey.id:", error);
+      return `❌ Failed to set fkey.id. Please try again or contact support.`;
+    }
+  }
+
+  /**
+   * Link the ERC-6538 meta-address the user registered from their own wallet,
+   * so payments can go to keys they hold rather than the address scraped
+   * from their fkey.id page. The registry is the source of truth: we only
+   * link what the user's primary address has registered onchain.
+   */
+  private async handleStealthKeysCommand(
+    action: string | undefined,
+    senderInboxId: string,
+  ): Promise<string> {
+    try {
+      if (action && action.toLowerCase() !== "off") {
+        return `❌ Unknown option "${action}"
+
+Usage:
+• \`/stealth-keys\` - link your registered meta-address
+• \`/stealth-keys off\` - go back to your fkey.id address`;
+      }
+
+      const primaryAddressResult = await resolvePrimaryFromXMTP(
+        senderInboxId,
+        this.ctx.client,
+      );
+      if (!primaryAddressResult) {
+        return `❌ Could not resolve your wallet address. Please try again later.`;
+      }
+
+      const { primaryAddress } = primaryAddressResult;
+      const userData = await this.ctx.db.getStealthDataByUser(primaryAddress);
+      if (!userData) {
+        return `🔑 Set your fkey.id first with \`/set yourUsername\`, then link your stealth keys.`;
+      }
+
+      if (action) {
+        await this.ctx.db.storeUserStealthData({
+          ...userData,
+          stealthMetaAddress: undefined,
+          stealthMetaAddressNetwork: undefined,
+          stealthMetaAddressLinkedAt: undefined,
+        });
+        return `✅ Stealth keys unlinked. Payments use your fkey.id address (${userData.fkeyId}.fkey.id) again.`;
+      }
+
+      const registered = await findRegisteredStealthMetaAddress(primaryAddress);
+      if (!registered) {
+        return `🔍 No Stealth Meta-Address Found
+
+${primaryAddress.slice(0, 6)}...${primaryAddress.slice(-4)} hasn't registered one in the ERC-6538 registry.
+
+1. 🔑 Open ${this.ctx.DSTEALTH_APP_URL} and register your stealth keys in the Privacy tab
+2. 🔁 Then run \`/stealth-keys\` again`;
+      }
+
+      await this.ctx.db.storeUserStealthData({
+        ...userData,
+        stealthMetaAddress: registered.stealthMetaAddress,
+        stealthMetaAddressNetwork: registered.network,
+        stealthMetaAddressLinkedAt: Date.now(),
+      });
+
+      const meta = registered.stealthMetaAddress;
+      return `✅ Self-Custodied Stealth Keys Linked
+
+Meta-address: \`${meta.slice(0, 14)}...${meta.slice(-6)}\`
+Registry: ERC-6538 on ${registered.network}
+
+Your keys come from your own wallet signature, not your fkey.id page. Go back any time with \`/stealth-keys off\`.`;
+    } catch (error) {
+      console.error("Error linking stealth keys:", error);
+      return `❌ Failed to check your stealth keys. Please try again later.`;
+    }
+  }
+
+  /**
+   * 🔧 FIXED: Check if message is a fkey.id pattern - ONLY match actual .fkey.id domains
+   */
+  private isFkeyIdPattern(content: string): boolean {
+    const patterns = [/^[a-zA-Z0-9_-]+\.fkey\.id$/i];
+
+    const trimmed = content.trim();
+    return (
+      patterns.some((pattern) => pattern.test(trimmed)) && trimmed.length >= 2
+    );
+  }
+
+  /**
+   * 🔧 FIXED: Handle fkey.id submissions - Core Feature #2 - Now calls API and stores ZK proof
+   */
+  private async handleFkeyIdSubmission(
+    fkeyInput: string,
+    senderInboxId: string,
+    conversation?: AgentConversation,
+  ): Promise<string> {
+    try {
+      const fkeyId = fkeyInput.replace(".fkey.id", "").toLowerCase().trim();
+
+      if (!fkeyId || fkeyId.length < 2) {
+        return 'Please provide a valid fkey.id username (e.g., "tantodefi" or "tantodefi.fkey.id")';
+      }
+
+      console.log(`🔍 Processing fkey.id submission: ${fkeyId}`);
+
+      // Use the new confirmation flow instead of directly saving
+      return await this.handleFkeyConfirmation(
+        fkeyId,
+        senderInboxId,
+        conversation,
+      );
+    } catch (error) {
+      console.error("Error handling fkey.id submission:", error);
+      return "❌ Failed to process fkey.id. Please try again.";
+    }
+  }
+
+  /**
+   * Handle user welcome - Core Feature #1 (FluidKey signup)
+   * 🔧 SECURITY: Also refreshes stealth address for consistency
+   */
+  private async handleUserWelcome(senderInboxId: string): Promise<string> {
+    try {
+      // 🔧 SECURITY: Get fresh user data for consistent experience
+      const freshData = await this.ctx.getFreshUserStealthData(senderInboxId);
+
+      if (freshData?.userData.fkeyId) {
+        const { userData, currentAddress, isAddressUpdated } = freshData;
+        const setupStatus = currentAddress ? "complete" : "pending";
+        const zkProofStatus = isProofVerificationCurrent(
+          userData.proofVerification,
+        )
+          ? "✅ Verified"
+          : "⚠️ Pending";
+
+        const addressUpdateWarning = isAddressUpdated
+          ? `\n🔄 Address Updated: Your stealth address was refreshed from fkey.id.`
+          : "";
+
+        return `👋 Welcome back, ${userData.fkeyId}! 🥷
+
+Setup Status: ${setupStatus === "complete" ? "✅ Complete" : "⏳ Pending"}
+ZK Proof: ${zkProofStatus}${addressUpdateWarning}
+
+Quick Actions:
+• "create payment link for $X" - Generate payment links
+• "/balance" - Check your earnings
+• "/links" - Manage your links
+
+${setupStatus === "pending" ? `Complete Setup: ${this.ctx.DSTEALTH_APP_URL}` : ""}
+
+Need help? Type "/help" for all commands!`;
+      }
+
+      // New user - Core Feature #1: FluidKey signup promotion
+      return `👋 Welcome to dStealth! 🥷
+
+I'm your privacy assistant for anonymous payments & rewards.
+
+🚀 Get Started (2 minutes):
+
+Step 1: 🔑 Get FluidKey (free privacy wallet)
+${this.ctx.FLUIDKEY_REFERRAL_URL}
+
+Step 2: 📝 Tell me your fkey.id 
+Example: "tantodefi.fkey.id"
+
+Step 3: 🚀 Complete setup
+${this.ctx.DSTEALTH_APP_URL}
+
+💰 What you'll get:
+• 🥷 Anonymous payment links
+• 🧾 ZK receipts for transactions  
+• 🎯 Privacy rewards & points
+• 🔒 Stealth addresses for privacy
+
+Try saying: "tantodefi.fkey.id" or "/help"
+
+*Start earning privacy rewards today!*`;
+    } catch (error) {
+      console.error("Error in user welcome:", error);
+      return `👋 Welcome to dStealth! 🥷
+
+Get started with FluidKey: ${this.ctx.FLUIDKEY_REFERRAL_URL}
+Then tell me your fkey.id username!`;
+    }
+  }
+
+  /**
+   * 🔧 FIXED: Send welcome message with duplicate prevention
+   */
+  async sendWelcomeWithActions(
+    senderInboxId: string,
+    conversation?: AgentConversation,
+  ): Promise<void> {
+    try {
+      if (!this.ctx.client) {
+        console.log("⚠️ Client not available, skipping welcome actions");
+        return;
+      }
+
+      // 🔧 DUPLICATE PREVENTION: Check if welcome was already sent
+      if (this.ctx.userWelcomesSent.has(senderInboxId)) {
+        console.log(
+          `⚠️ Welcome actions already sent to user: ${senderInboxId}`,
+        );
+        return;
+      }
+
+      let targetConversation = conversation;
+
+      // If no conversation provided, find DM conversation with user
+      if (!targetConversation) {
+        const conversations = await this.ctx.client.conversations.list();
+
+        targetConversation = conversations.find((conv) => {
+          // For DMs, check if this is a 1:1 conversation with the user
+          if (!this.ctx.isGroupConversation(conv)) {
+            return conv.peerInboxId === senderInboxId;
+          }
+          return false;
+        });
+
+        if (!targetConversation) {
+          console.log(
+            "⚠️ User conversation not found, skipping welcome actions",
+          );
+          return;
+        }
+      }
+
+      // 🔧 DUPLICATE PREVENTION: Don't send welcome to groups
+      if (this.ctx.isGroupConversation(targetConversation)) {
+        console.log("⚠️ Skipping welcome actions for group conversation");
+        return;
+      }
+
+      // Mark welcome as sent BEFORE sending to prevent race conditions
+      this.ctx.userWelcomesSent.add(senderInboxId);
+
+      // Generate unique timestamp for this welcome message
+      const renderTimestamp = Date.now();
+      const randomSuffix = Math.random().toString(36).substring(2, 8);
+
+      // Create welcome actions content
+      const welcomeActions: ActionsContent = {
+        id: `welcome-onboarding-${renderTimestamp}-${randomSuffix}`,
+        description: `👋 Welcome to dStealth! 🥷
+
+I'm your privacy assistant for anonymous payments using stealth addresses.
+
+🎯 What I Do:
+• Generate stealth addresses for private payments
+• Create anonymous payment links
+• Provide ZK receipts for transactions
+• Help you earn privacy rewards
+
+🔑 To unlock all features, you need to set your fkey.id from FluidKey:
+
+Choose your path:`,
+        expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(), // 24 hours
+        actions: [
+          {
+            id: `have-fkey-${renderTimestamp}-${randomSuffix}`,
+            label: "✅ I have an fkey",
+            style: "primary",
+          },
+          {
+            id: `no-fkey-${renderTimestamp}-${randomSuffix}`,
+            label: "🆕 I don't have an fkey",
+            style: "secondary",
+          },
+        ],
+      };
+
+      // Send welcome actions
+      await targetConversation.send(welcomeActions, ContentTypeActions);
+      console.log(`✅ Welcome actions sent to user: ${senderInboxId}`);
+
+      // Track this action set
+      this.ctx.addRecentActionSet(senderInboxId, welcomeActions.id);
+    } catch (error) {
+      console.error("❌ Error sending welcome actions:", error);
+      // Remove from sent set if sending failed
+      this.ctx.userWelcomesSent.delete(senderInboxId);
+    }
+  }
+
+  /**
+   * Handle "I have an fkey" flow - prompt for username
+   */
+  handleHaveFkeyFlow(): string {
+    return `🔑 Set Your fkey.id
+
+Please enter your fkey.id username (without .fkey.id):
+
+Examples:
+• tantodefi
+• alice
+• myusername
+
+Just type your username and I'll verify it! 🚀`;
+  }
+
+  /**
+   * Handle "I don't have an fkey" flow - send signup instructions
+   */
+  handleNoFkeyFlow(): string {
+    return `🆕 Get Your FluidKey Account
+
+FluidKey is a privacy-focused wallet that creates stealth addresses for anonymous payments.
+
+📝 Sign Up Steps:
+1. Visit: ${this.ctx.FLUIDKEY_REFERRAL_URL}
+2. Copy and paste signup link into safari
+3. Choose your unique username
+4. Complete profile setup
+
+✅ After signup, return here and:
+• Type your username (e.g., tantodefi)
+• Or use the command: /set yourUsername
+
+🎯 Why FluidKey?
+• Generate stealth addresses
+• Receive payments anonymously  
+• Protect your privacy
+• Earn rewards with dStealth
+
+`;
+  }
+
+  /**
+   * Handle fkey.id confirmation flow
+   */
+  async handleFkeyConfirmation(
+    fkeyId: string,
+    senderInboxId: string,
+    conversation?: AgentConversation,
+  ): Promise<string> {
+    // Store pending confirmation
+    this.ctx.userConfirmationPending.set(senderInboxId, {
+      fkeyId: fkeyId,
+      timestamp: Date.now(),
+    });
+
+    // Send confirmation actions
+    await this.sendFkeyConfirmationActions(senderInboxId, fkeyId, conversation);
+
+    return `🔍 Confirm Your fkey.id
+
+Is this correct: ${fkeyId}.fkey.id ?
+
+Please confirm using the buttons below:`;
+  }
+
+  /**
+   * Send fkey.id confirmation action buttons
+   */
+  private async sendFkeyConfirmationActions(
+    senderInboxId: string,
+    fkeyId: string,
+    conversation?: AgentConversation,
+  ): Promise<void> {
+    try {
+      if (!this.ctx.client) {
+        console.log("⚠️ Client not available, skipping confirmation actions");
+        return;
+      }
+
+      let targetConversation = conversation;
+
+      // If no conversation provided, find DM conversation with user
+      if (!targetConversation) {
+        const conversations = await this.ctx.client.conversations.list();
+
+        targetConversation = conversations.find((conv) => {
+          // For DMs, check if this is a 1:1 conversation with the user
+          if (!this.ctx.isGroupConversation(conv)) {
+            return conv.peerInboxId === senderInboxId;
+          }
+          return false;
+        });
+
+        if (!targetConversation) {
+          console.log(
+            "⚠️ User conversation not found, skipping confirmation actions",
+          );
+          return;
+        }
+      }
+
+      // Generate unique timestamp for this confirmation
+      const renderTimestamp = Date.now();
+      const randomSuffix = Math.random().toString(36).substring(2, 8);
+
+      // Create confirmation actions content
+      const confirmationActions: ActionsContent = {
+        id: `fkey-confirmation-${renderTimestamp}-${randomSuffix}`,
+        description: `🔍 Confirm your fkey.id: ${fkeyId}.fkey.id`,
+        expiresAt: new Date(Date.now() + 10 * 60 * 1000).toISOString(), // 10 minutes
+        actions: [
+          {
+            id: `confirm-fkey-${renderTimestamp}-${randomSuffix}`,
+            label: "✅ Yes, that's correct",
+            style: "primary",
+          },
+          {
+            id: `cancel-fkey-${renderTimestamp}-${randomSuffix}`,
+            label: "❌ No, let me try again",
+            style: "secondary",
+          },
+        ],
+      };
+
+      // Send confirmation actions
+      await targetConversation.send(confirmationActions, ContentTypeActions);
+      console.log(`✅ Confirmation actions sent for fkey: ${fkeyId}`);
+
+      // Track this action set
+      this.ctx.addRecentActionSet(senderInboxId, confirmationActions.id);
+    } catch (error) {
+      console.error("❌ Error sending confirmation actions:", error);
+    }
+  }
+
+  /**
+   * Process fkey.id confirmation and save to database
+   */
+  async processFkeyConfirmation(
+    senderInboxId: string,
+    confirmed: boolean,
+  ): Promise<string> {
+    try {
+      const pendingConfirmation =
+        this.ctx.userConfirmationPending.get(senderInboxId);
+
+      if (!pendingConfirmation) {
+        return `❌ No Pending Confirmation
+
+I don't have a pending fkey.id confirmation for you. Please start over by typing your username.`;
+      }
+
+      // Clear pending confirmation
+      this.ctx.userConfirmationPending.delete(senderInboxId);
+
+      if (!confirmed) {
+        return `🔄 Try Again
+
+No problem! Please enter your fkey.id username again:
+
+Examples:
+• tantodefi
+• alice
+• myusername`;
+      }
+
+      // Confirmed - now verify and save the fkey.id
+      const fkeyId = pendingConfirmation.fkeyId;
+
+      // Get user address for ZK receipt storage
+      let userAddress: string | undefined = undefined;
+      try {
+        const inboxState =
+          await this.ctx.client?.preferences.inboxStateFromInboxIds([
+            senderInboxId,
+          ]);
+        userAddress = inboxState?.[0]?.identifiers[0]?.identifier;
+      } catch (error) {
+        console.warn(
+          "⚠️ Could not resolve user address for fkey confirmation:",
+          error,
+        );
+      }
+
+      // Call the existing fkey verification logic with ZK receipt generation
+      const verificationResult = await this.ctx.callFkeyLookupAPI(
+        fkeyId,
+        userAddress,
+        "xmtp-agent-fkey-confirmation",
+      );
+
+      if (verificationResult.error) {
+        return `❌ Verification Failed
+
+Your fkey.id "${fkeyId}" could not be verified:
+${verificationResult.error}
+
+Please check:
+• Is your FluidKey profile public?
+• Did you spell your username correctly?
+• Is your FluidKey account fully set up?
+
+Try again with: /set ${fkeyId}`;
+      }
+
+      // Save to database
+      const stealthData = {
+        userId: senderInboxId,
+        fkeyId: fkeyId,
+        stealthAddress: verificationResult.address || "",
+        zkProof: verificationResult.proof || null,
+        proofVerification: verificationResult.verification,
+        lastUpdated: Date.now(),
+        requestedBy: this.ctx.client?.inboxId || "",
+        setupStatus: "fkey_set" as const,
+      };
+
+      await this.ctx.db.storeUserStealthData(stealthData);
+
+      // Send success message and help menu
+      await this.sendPostOnboardingHelp(senderInboxId, fkeyId);
+
+      return `✅ fkey.id Set Successfully!
+
+Your fkey.id ${fkeyId}.fkey.id is now verified and saved!
+
+🎉 All features unlocked:
+• Create anonymous payment links
+• Generate stealth addresses
+• Receive ZK receipts
+• Earn privacy rewards
+
+🚀 Quick Start:
+Check the actions below to get started!`;
+    } catch (error) {
+      console.error("❌ Error processing fkey confirmation:", error);
+      return `❌ Error Saving fkey.id
+
+Something went wrong while saving your fkey.id. Please try again or contact support.`;
+    }
+  }
+
+  /**
+   * Send post-onboarding help menu
+   */
+  private async sendPostOnboardingHelp(
+    senderInboxId: string,
+    fkeyId: string,
+    conversation?: AgentConversation,
+  ): Promise<void> {
+    try {
+      if (!this.ctx.client) return;
+
+      let targetConversation = conversation;
+
+      // If no conversation provided, find DM conversation with user
+      if (!targetConversation) {
+        const conversations = await this.ctx.client.conversations.list();
+        targetConversation = conversations.find((conv) => {
+          if (!this.ctx.isGroupConversation(conv)) {
+            return conv.peerInboxId === senderInboxId;
+          }
+          return false;
+        });
+
+        if (!targetConversation) return;
+      }
+
+      // Generate unique timestamp
+      const renderTimestamp = Date.now();
+      const randomSuffix = Math.random().toString(36).substring(2, 8);
+
+      // Create help actions
+      const helpActions: ActionsContent = {
+        id: `post-onboarding-help-${renderTimestamp}-${randomSuffix}`,
+        description: `🎉 Welcome ${fkeyId}! Your dStealth account is ready. What would you like to do?`,
+        expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(), // 24 hours
+        actions: [
+          {
+            id: `create-payment-link-${renderTimestamp}-${randomSuffix}`,
+            label: "💳 Create Payment Link",
+            style: "primary",
+          },
+          {
+            id: `check-balance-${renderTimestamp}-${randomSuffix}`,
+            label: "💰 Check Balance",
+            style: "secondary",
+          },
+          {
+            id: `get-help-${renderTimestamp}-${randomSuffix}`,
+            label: "❓ Get Help",
+            style: "secondary",
+          },
+          {
+            id: `dstealth-miniapp-${renderTimestamp}-${randomSuffix}`,
+            label: "🌐 dStealth App",
+            style: "secondary",
+          },
+        ],
+      };
+
+      await targetConversation.send(helpActions, ContentTypeActions);
+      this.ctx.addRecentActionSet(senderInboxId, helpActions.id);
+    } catch (error) {
+      console.error("❌ Error sending post-onboarding help:", error);
+    }
+  }
+}
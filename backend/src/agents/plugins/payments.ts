@@ -0,0 +1,1187 @@
+// Import Redis for ZK receipt storage
+import { Redis } from "@upstash/redis";
+import { type TransactionReference } from "@xmtp/content-type-transaction-reference";
+import {
+  ContentTypeWalletSendCalls,
+  type WalletSendCallsParams,
+} from "@xmtp/content-type-wallet-send-calls";
+import { formatUnits, toHex } from "viem";
+import { env } from "../../config/env.js";
+import { type UserStealthData } from "../../lib/agent-database.js";
+import { daimoPayClient } from "../../lib/daimo-pay.js";
+import {
+  buildCoinbaseWalletRequestLink,
+  describeSupportedAssets,
+  formatPaymentAmount,
+  getExplorerTxUrl,
+  MAX_SPLIT_RECIPIENTS,
+  parsePaymentRequest,
+  parseSplitPayment,
+  resolvePaymentAsset,
+  toBaseUnits,
+  UnsupportedPaymentAssetError,
+  type ParsedPaymentRequest,
+  type ParsedSplitPayment,
+  type PaymentAsset,
+} from "../../lib/payment-tokens.js";
+import {
+  createStealthPaymentTarget,
+  isStealthAnnouncerConfigured,
+  type StealthPaymentTarget,
+} from "../../lib/stealth-announcer.js";
+import { getStealthNetworkName } from "../../lib/stealth-networks.js";
+import { stealthAnnouncementQueue } from "../../services/stealth-announcement-queue.js";
+import type { CommandDefinition } from "../commands/command-registry.js";
+import { ContentTypeActions, type ActionsContent } from "../content-types.js";
+import type { AgentContext, AgentConversation } from "./context.js";
+import type { AgentPlugin, AgentTextMessage } from "./types.js";
+
+// Get Redis instance for ZK receipt storage
+let redis: Redis | null = null;
+try {
+  if (env.UPSTASH_REDIS_REST_URL && env.UPSTASH_REDIS_REST_TOKEN) {
+    redis = new Redis({
+      url: env.UPSTASH_REDIS_REST_URL,
+      token: env.UPSTASH_REDIS_REST_TOKEN,
+    });
+  }
+} catch (error) {
+  console.warn("⚠️ Failed to initialize Redis for ZK receipts:", error);
+}
+
+interface SplitPaymentRecipient {
+  fkeyId: string;
+  to: string;
+  amount: string;
+  announceCall: StealthPaymentTarget["announceCall"] | null;
+}
+
+// The last payment link a user created, for the action buttons under it
+export interface PaymentLinkData {
+  amount: string;
+  tokenSymbol: string;
+  chainId: number;
+  amountLabel: string;
+  fkeyId: string;
+  daimoLink: string | null;
+  stealthAddress: string;
+  cbwLink: string;
+  announceCall: StealthPaymentTarget["announceCall"] | null;
+  timestamp: number;
+}
+
+// What the contextual action menus adapt to
+interface UserActionStatus {
+  hasValidFkey: boolean;
+  fkeyId?: string;
+  hasFarcasterProfile: boolean;
+  farcasterUsername?: string;
+}
+
+const SPLIT_PAYMENT_USAGE = `Usage: /pay alice.fkey.id 10, bob.fkey.id 5
+
+• Amounts are USDC on Base unless you name a token and chain:
+  /pay alice 0.01, bob 0.02 ETH on optimism
+• Up to ${MAX_SPLIT_RECIPIENTS} recipients, paid in one wallet transaction`;
+
+/**
+ * Payments: "$25" / "0.01 ETH on mainnet" payment link requests, Coinbase Wallet send-calls for
+ * stealth transfers, transaction references (ZK receipts), balance and links.
+ */
+export class PaymentsPlugin implements AgentPlugin {
+  readonly name = "payments";
+
+  // Store payment data for intent responses
+  private userPaymentData: Map<string, PaymentLinkData> = new Map();
+
+  constructor(private ctx: AgentContext) {}
+
+  commands(): CommandDefinition[] {
+    return [
+      {
+        name: "balance",
+        description: "Check your earnings",
+        category: "💳 Payment Commands",
+        handler: (_args, ctx) => this.handleBalanceCheck(ctx.senderInboxId),
+      },
+      {
+        name: "links",
+        description: "Manage your payment links",
+        category: "💳 Payment Commands",
+        handler: (_args, ctx) => this.handleLinksManagement(ctx.senderInboxId),
+      },
+      {
+        name: "pay",
+        aliases: ["split"],
+        description: "Pay several fkey.ids in one transaction",
+        category: "💳 Payment Commands",
+        args: [{ name: "recipients", type: "rest" }],
+        requiresOnboarding: false,
+        handler: (args, ctx) =>
+          this.handleSplitPayment(
+            String(args.recipients),
+            ctx.senderInboxId,
+            ctx.conversation,
+          ),
+      },
+    ];
+  }
+
+  async handleText(message: AgentTextMessage): Promise<string | undefined> {
+    const { content, senderInboxId, isGroup, conversation } = message;
+
+    // Slash commands go through the command registry, even with a "$" in them
+    if (content.startsWith("/")) return undefined;
+
+    // Handle payment amount requests
+    const paymentRequest = parsePaymentRequest(content);
+    if (paymentRequest) {
+      return await this.handlePaymentRequest(
+        paymentRequest,
+        senderInboxId,
+        conversation?.id,
+        isGroup,
+        conversation,
+      );
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Generate Coinbase Wallet payment request URL (EIP-681 native or ERC-20 transfer)
+   */
+  private generateCoinbaseWalletLink(
+    toAddress: string,
+    amount: string,
+    asset: PaymentAsset,
+  ): string {
+    try {
+      return buildCoinbaseWalletRequestLink(asset, toAddress, amount);
+    } catch (error) {
+      console.error("Error generating Coinbase Wallet link:", error);
+      return "";
+    }
+  }
+
+  /**
+   * 🔧 NEW: Generate CBW request link for stealth payments (following frontend pattern)
+   * This uses the same logic as the frontend DaimoPayButton.tsx generateCoinbaseWalletLink
+   */
+  private generateCBWRequestLink(
+    toAddress: string,
+    amount: string,
+    asset: PaymentAsset,
+  ): string {
+    return this.generateCoinbaseWalletLink(toAddress, amount, asset);
+  }
+
+  private getUnsupportedAssetMessage(
+    error: UnsupportedPaymentAssetError,
+  ): string {
+    return `❌ Unsupported Payment Request
+
+${error.message}
+
+Supported tokens and chains:
+${describeSupportedAssets()}
+
+Try:
+• "create payment link for $25"
+• "request 0.01 ETH on mainnet"
+• "request 50 USDC on Optimism"`;
+  }
+
+  /**
+   * 🔧 UPDATED: Handle payment requests with fkey.id requirement
+   */
+  private async handlePaymentRequest(
+    request: ParsedPaymentRequest,
+    senderInboxId: string,
+    conversationId: string | undefined,
+    isGroup: boolean,
+    conversation?: AgentConversation,
+  ): Promise<string> {
+    const { amount } = request;
+    try {
+      // Reject unknown tokens/chains and over-precise amounts before any lookups
+      let asset: PaymentAsset;
+      try {
+        asset = resolvePaymentAsset(request.tokenSymbol, request.chain);
+        if (toBaseUnits(amount, asset) === 0n) {
+          throw new Error("Amount must be greater than zero");
+        }
+      } catch (error) {
+        if (error instanceof UnsupportedPaymentAssetError) {
+          return this.getUnsupportedAssetMessage(error);
+        }
+        return `❌ Invalid Amount
+
+${error instanceof Error ? error.message : String(error)}`;
+      }
+
+      // Check if user has fkey.id set
+      const userData = await this.ctx.db.getStealthDataByUser(senderInboxId);
+
+      if (!userData?.fkeyId) {
+        return this.ctx.getRequiresFkeyMessage(isGroup);
+      }
+
+      // 🔧 SECURITY: Get fresh user data with current address verification
+      const freshData = await this.ctx.getFreshUserStealthData(senderInboxId);
+
+      if (!freshData) {
+        return `❌ Setup Incomplete
+
+Please complete your setup at ${this.ctx.DSTEALTH_APP_URL}`;
+      }
+
+      if (freshData.error) {
+        return `❌ Security Error
+
+Could not verify your fkey.id: ${freshData.error}
+
+Please re-verify: \`/set ${userData.fkeyId}\``;
+      }
+
+      const { userData: currentData, currentAddress } = freshData;
+
+      // Users with linked ERC-6538 keys get a fresh one-time address per link;
+      // everyone else is paid at their fkey.id address
+      const stealthTarget = this.createStealthTarget(
+        currentData,
+        amount,
+        asset,
+      );
+      const destinationAddress =
+        stealthTarget?.stealthAddress ?? currentAddress;
+
+      // The wallet batch below carries the announce call; plain-link payments
+      // are announced by the agent once the one-time address is funded
+      let announcementQueued = false;
+      if (stealthTarget && isStealthAnnouncerConfigured()) {
+        try {
+          announcementQueued = await stealthAnnouncementQueue.enqueue(
+            stealthTarget,
+            asset.chain.id,
+            asset.address,
+            senderInboxId,
+          );
+        } catch (error) {
+          console.warn("⚠️ Failed to queue stealth announcement:", error);
+        }
+      }
+
+      // Generate proper Daimo payment link
+      const amountInDollars = parseFloat(amount);
+
+      // 🔧 VALIDATION: Check Daimo API limits (max $4000) - only priced in USD for stablecoins
+      if (asset.token.usdPegged && amountInDollars > 4000) {
+        return `❌ Payment Amount Too Large
+
+Requested: $${amount}
+Daimo Limit: $4000.00 maximum
+
+Please try a smaller amount:
+• "create payment link for $100"
+• "create payment link for $500"
+• "create payment link for $1000"
+
+Why the limit? Daimo has security limits for payment links.
+Need larger amounts? Visit ${this.ctx.DSTEALTH_APP_URL} for alternatives.`;
+      }
+
+      // Daimo Pay links are denominated in USD, so only stablecoin requests get one;
+      // other tokens are requested with the EIP-681 wallet link alone
+      let daimoResponse: Awaited<
+        ReturnType<typeof daimoPayClient.createPaymentLink>
+      > | null = null;
+      if (asset.token.usdPegged) {
+        // Format as decimal string (e.g., "50.00") as required by Daimo API docs
+        const amountDecimalString = amountInDollars.toFixed(2);
+
+        const paymentRequest = {
+          destinationAddress,
+          amountUnits: amountDecimalString, // Decimal string format per Daimo API docs
+          displayAmount: amount,
+          tokenSymbol: asset.token.symbol,
+          chainId: String(asset.chain.id),
+          intent: `ZK Stealth Payment to ${currentData.fkeyId}.fkey.id - view ZK receipt at dstealth.xyz`,
+          metadata: {
+            fkeyId: currentData.fkeyId,
+            stealthAddress: destinationAddress,
+            zkProof: currentData.zkProof ? "available" : "pending",
+            source: "dstealth-agent",
+          },
+        };
+
+        daimoResponse = await daimoPayClient.createPaymentLink(paymentRequest);
+      }
+
+      // Generate Coinbase Wallet payment URL
+      const coinbaseWalletUrl = this.generateCoinbaseWalletLink(
+        destinationAddress,
+        amount,
+        asset,
+      );
+
+      // 🔧 CRITICAL FIX: Store payment link in Redis for frontend ZK receipts access
+      try {
+        // Get sender's wallet address for Redis key
+        const inboxState =
+          await this.ctx.client?.preferences.inboxStateFromInboxIds([
+            senderInboxId,
+          ]);
+        const senderWalletAddress = inboxState?.[0]?.identifiers[0]?.identifier;
+
+        if (senderWalletAddress && redis) {
+          const zkReceiptKey = `zk_receipt:agent_payment_${Date.now()}:${senderWalletAddress.toLowerCase()}:${Date.now()}`;
+          const zkReceiptData = {
+            transactionHash: "", // Will be filled when payment is completed
+            networkId: asset.chain.key,
+            chainId: asset.chain.id,
+            amount: amount,
+            currency: asset.token.symbol,
+            tokenAddress: asset.address,
+            recipientAddress: destinationAddress,
+            fkeyId: currentData.fkeyId,
+            // What the recipient needs to find and spend a one-time address
+            ...(stealthTarget && {
+              ephemeralPublicKey: stealthTarget.ephemeralPublicKey,
+              viewTag: stealthTarget.viewTag,
+              stealthMetaAddress: currentData.stealthMetaAddress,
+              announcementQueued,
+            }),
+            senderAddress: senderWalletAddress,
+            timestamp: Date.now(),
+            status: "pending_payment",
+            paymentLinkId: daimoResponse?.id,
+            paymentUrl: daimoResponse?.url ?? coinbaseWalletUrl,
+            // Include the ZK proof from agent database
+            zkProof: currentData.zkProof,
+            metadata: {
+              transactionType: "Agent Generated Payment Link",
+              privacyFeature: stealthTarget
+                ? "one-time-stealth-address"
+                : "stealth-address",
+              zkProofAvailable: !!currentData.zkProof,
+              source: "dstealth-agent",
+              agentInboxId: this.ctx.client?.inboxId,
+              userInboxId: senderInboxId,
+            },
+          };
+
+          // Store in Redis for frontend access (expires in 7 days - local-first system)
+          await redis.set(zkReceiptKey, JSON.stringify(zkReceiptData), {
+            ex: 86400 * 7,
+          });
+          console.log(
+            `✅ Payment link stored for frontend ZK receipts: ${zkReceiptKey}`,
+          );
+        }
+      } catch (storageError) {
+        console.error(
+          "⚠️ Failed to store payment link for frontend access:",
+          storageError,
+        );
+        // Don't fail the payment creation, just warn
+      }
+
+      // 🔧 FIXED: Send Transaction Actions to the same conversation where requested
+      await this.sendTransactionActions(
+        senderInboxId,
+        amount,
+        asset,
+        currentData.fkeyId,
+        daimoResponse?.url ?? null,
+        destinationAddress,
+        conversationId,
+        isGroup,
+        conversation,
+        stealthTarget?.announceCall ?? null,
+      );
+
+      // 🔧 FIXED: Return empty string since action buttons are already sent (no duplicate text response)
+      return "";
+    } catch (error) {
+      console.error("Error creating payment link:", error);
+      return `❌ Failed to create payment link. Please try again.`;
+    }
+  }
+
+  /**
+   * /pay alice.fkey.id 10, bob.fkey.id 5: resolve every recipient first, then
+   * send one wallet_sendCalls batch with all the transfers and announcements
+   */
+  async handleSplitPayment(
+    input: string,
+    senderInboxId: string,
+    conversation?: AgentConversation,
+  ): Promise<string> {
+    let request: ParsedSplitPayment | null;
+    let asset: PaymentAsset;
+    try {
+      request = parseSplitPayment(input);
+      if (!request) {
+        return `❌ Could not read that split payment
+
+${SPLIT_PAYMENT_USAGE}`;
+      }
+      if (request.recipients.length > MAX_SPLIT_RECIPIENTS) {
+        return `❌ Too many recipients (${request.recipients.length}). Split payments are limited to ${MAX_SPLIT_RECIPIENTS}.`;
+      }
+
+      asset = resolvePaymentAsset(request.tokenSymbol, request.chain);
+      for (const { fkeyId, amount } of request.recipients) {
+        if (toBaseUnits(amount, asset) === 0n) {
+          throw new Error(
+            `Amount for ${fkeyId}.fkey.id must be greater than zero`,
+          );
+        }
+      }
+    } catch (error) {
+      if (error instanceof UnsupportedPaymentAssetError) {
+        return this.getUnsupportedAssetMessage(error);
+      }
+      return `❌ Invalid Split Payment
+
+${error instanceof Error ? error.message : String(error)}`;
+    }
+
+    if (!conversation) {
+      return `❌ Could not find conversation to send transaction request.`;
+    }
+    if (!this.ctx.client) {
+      return "❌ Agent not available";
+    }
+
+    try {
+      const inboxState =
+        await this.ctx.client.preferences.inboxStateFromInboxIds([
+          senderInboxId,
+        ]);
+      const senderWalletAddress = inboxState[0]?.identifiers[0]?.identifier;
+      if (!senderWalletAddress) {
+        return `❌ Could not determine your wallet address. Please try again.`;
+      }
+
+      // Resolve everyone before building anything, so one bad fkey.id sends nothing
+      const recipients: (SplitPaymentRecipient & {
+        target: StealthPaymentTarget | null;
+        zkProof: unknown;
+      })[] = [];
+      for (const { fkeyId, amount } of request.recipients) {
+        const lookup = await this.ctx.callFkeyLookupAPI(
+          fkeyId,
+          senderWalletAddress,
+          "xmtp-agent-split-payment",
+        );
+        if (lookup.error || !lookup.address) {
+          return `❌ Could not resolve ${fkeyId}.fkey.id: ${lookup.error || "No address found"}
+
+Nothing was sent. Check the username and try again.`;
+        }
+
+        // Recipients with linked ERC-6538 keys get a one-time address each
+        const recipientData = await this.ctx.db.getStealthDataByFkey(fkeyId);
+        const target = recipientData
+          ? this.createStealthTarget(recipientData, amount, asset)
+          : null;
+        recipients.push({
+          fkeyId,
+          amount,
+          to: target?.stealthAddress ?? lookup.address,
+          announceCall: target?.announceCall ?? null,
+          target,
+          zkProof: lookup.proof,
+        });
+      }
+
+      const walletSendCalls = this.createSplitWalletSendCalls(
+        senderWalletAddress,
+        recipients,
+        asset,
+      );
+      await conversation.send(walletSendCalls, ContentTypeWalletSendCalls);
+
+      await this.storeSplitPaymentReceipts(
+        recipients,
+        asset,
+        senderWalletAddress,
+        senderInboxId,
+      );
+
+      const total = recipients.reduce(
+        (sum, { amount }) => sum + toBaseUnits(amount, asset),
+        0n,
+      );
+      const lines = recipients.map(
+        ({ fkeyId, amount, target }) =>
+          `• ${fkeyId}.fkey.id: ${amount} ${asset.token.symbol}${target ? " (one-time stealth address)" : ""}`,
+      );
+
+      return `✅ Split Payment Request Created!
+
+${lines.join("\n")}
+
+💰 Total: ${formatPaymentAmount(formatUnits(total, asset.token.decimals), asset)}
+📦 ${walletSendCalls.calls.length} calls in one transaction
+
+⚡ Check your wallet to approve the transaction!`;
+    } catch (error) {
+      console.error("Error creating split payment:", error);
+      return `❌ Failed to create split payment. Please try again.`;
+    }
+  }
+
+  /**
+   * One receipt per recipient, each carrying the whole split so any of them
+   * can be shown alongside the others
+   */
+  private async storeSplitPaymentReceipts(
+    recipients: (SplitPaymentRecipient & {
+      target: StealthPaymentTarget | null;
+      zkProof: unknown;
+    })[],
+    asset: PaymentAsset,
+    senderWalletAddress: string,
+    senderInboxId: string,
+  ): Promise<void> {
+    if (!redis) return;
+
+    const timestamp = Date.now();
+    const splitPaymentId = `split_${timestamp}_${Math.random().toString(36).substring(2, 8)}`;
+    const split = {
+      id: splitPaymentId,
+      recipientCount: recipients.length,
+      recipients: recipients.map(({ fkeyId, amount, to }) => ({
+        fkeyId,
+        amount,
+        recipientAddress: to,
+      })),
+    };
+
+    try {
+      for (const [index, recipient] of recipients.entries()) {
+        const zkReceiptKey = `zk_receipt:split_payment_${splitPaymentId}_${index}:${senderWalletAddress.toLowerCase()}:${timestamp}`;
+        const zkReceiptData = {
+          transactionHash: "", // Will be filled when payment is completed
+          networkId: asset.chain.key,
+          chainId: asset.chain.id,
+          amount: recipient.amount,
+          currency: asset.token.symbol,
+          tokenAddress: asset.address,
+          recipientAddress: recipient.to,
+          fkeyId: recipient.fkeyId,
+          senderAddress: senderWalletAddress,
+          timestamp,
+          status: "pending_payment",
+          zkProof: recipient.zkProof,
+          ...(recipient.target && {
+            ephemeralPublicKey: recipient.target.ephemeralPublicKey,
+            viewTag: recipient.target.viewTag,
+          }),
+          metadata: {
+            transactionType: "Agent Split Payment",
+            privacyFeature: recipient.target
+              ? "one-time-stealth-address"
+              : "stealth-address",
+            zkProofAvailable: !!recipient.zkProof,
+            source: "dstealth-agent",
+            agentInboxId: this.ctx.client?.inboxId,
+            userInboxId: senderInboxId,
+            splitPayment: split,
+          },
+        };
+
+        await redis.set(zkReceiptKey, JSON.stringify(zkReceiptData), {
+          ex: 86400 * 7,
+        });
+      }
+      console.log(
+        `✅ Split payment receipts stored for ${recipients.length} recipients: ${splitPaymentId}`,
+      );
+    } catch (error) {
+      console.error("⚠️ Failed to store split payment receipts:", error);
+    }
+  }
+
+  /**
+   * 🔧 FIXED: Send payment-related actions with proper conversation handling
+   */
+  private async sendTransactionActions(
+    senderInboxId: string,
+    amount: string,
+    asset: PaymentAsset,
+    fkeyId: string,
+    daimoLink: string | null,
+    stealthAddress: string,
+    conversationId?: string,
+    isGroup?: boolean,
+    conversation?: AgentConversation,
+    announceCall: StealthPaymentTarget["announceCall"] | null = null,
+  ): Promise<void> {
+    try {
+      if (!this.ctx.client) {
+        console.log(
+          "⚠️ Base agent not available, skipping Transaction Actions",
+        );
+        return;
+      }
+
+      let targetConversation = conversation;
+
+      // If no conversation provided, find the conversation with this user
+      if (!targetConversation) {
+        const conversations = await this.ctx.client.conversations.list();
+
+        // Find the specific conversation by ID if provided
+        targetConversation = conversationId
+          ? conversations.find((conv) => conv.id === conversationId)
+          : undefined;
+
+        // If no specific conversation or conversation not found, find DM with user
+        if (!targetConversation) {
+          targetConversation = conversations.find((conv) => {
+            // For DMs, check if this is a 1:1 conversation with the user
+            if (!this.ctx.isGroupConversation(conv)) {
+              return conv.peerInboxId === senderInboxId;
+            }
+            return false;
+          });
+        }
+      }
+
+      if (!targetConversation) {
+        console.log(
+          "⚠️ User conversation not found, skipping Transaction Actions",
+        );
+        return;
+      }
+
+      // 🔧 FIXED: Send payment actions to the same conversation where requested (group or DM)
+      console.log(
+        `💳 Sending payment actions to ${isGroup ? "group" : "DM"} conversation`,
+      );
+
+      // 🔧 REMOVED: Don't skip groups - send actions to the requesting conversation
+
+      // Generate unique timestamp for this render to reset button states
+      const renderTimestamp = Date.now();
+      const randomSuffix = Math.random().toString(36).substring(2, 8);
+
+      // Store payment data for self-contained responses
+      const paymentData: PaymentLinkData = {
+        amount,
+        tokenSymbol: asset.token.symbol,
+        chainId: asset.chain.id,
+        amountLabel: formatPaymentAmount(amount, asset),
+        fkeyId,
+        daimoLink,
+        stealthAddress,
+        cbwLink: this.generateCBWRequestLink(stealthAddress, amount, asset),
+        // Unsent ERC-5564 announcement, batched with the wallet transfer
+        announceCall,
+        timestamp: renderTimestamp,
+      };
+
+      // Create transaction-related Actions content with unique everything
+      const actionsContent: ActionsContent = {
+        id: `transaction-actions-${renderTimestamp}-${randomSuffix}`,
+        description: `💳 Payment Link Ready for ${fkeyId}.fkey.id
+
+Amount: ${paymentData.amountLabel}
+
+Choose your next action:`,
+        expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(), // 24 hours from now
+        actions: [
+          {
+            id: `send-to-stealth-${renderTimestamp}-${randomSuffix}`,
+            label: "💰 Send to Stealth Address",
+            style: "primary",
+          },
+          // Daimo links only exist for stablecoin requests
+          ...(daimoLink
+            ? [
+                {
+                  id: `daimo-pay-link-${renderTimestamp}-${randomSuffix}`,
+                  label: "🔗 Daimo Pay Link",
+                  style: "secondary" as const,
+                },
+              ]
+            : []),
+          {
+            id: `tba-request-link-${renderTimestamp}-${randomSuffix}`,
+            label: "📱 TBA Request Link",
+            style: "secondary",
+          },
+          {
+            id: `create-another-${renderTimestamp}-${randomSuffix}`,
+            label: "➕ Create Another",
+            style: "primary",
+          },
+        ],
+      };
+
+      // Send actions using the ActionsCodec
+      await targetConversation.send(actionsContent, ContentTypeActions);
+      console.log(
+        `✅ Transaction Actions sent to ${isGroup ? "group" : "DM"} with unique ID: ${actionsContent.id}`,
+      );
+
+      // Track this action set in recent sets (instead of just latest)
+      this.ctx.addRecentActionSet(senderInboxId, actionsContent.id);
+
+      // Store payment data for intent responses (in memory for now)
+      this.storePaymentDataForUser(senderInboxId, paymentData);
+    } catch (error) {
+      console.error("❌ Error sending Transaction Actions:", error);
+    }
+  }
+
+  /**
+   * One-time stealth address for a payment link, or null when the user has no
+   * linked meta-address or the chain has no ERC-5564 announcer.
+   */
+  private createStealthTarget(
+    userData: UserStealthData,
+    amount: string,
+    asset: PaymentAsset,
+  ): StealthPaymentTarget | null {
+    if (
+      !userData.stealthMetaAddress ||
+      !getStealthNetworkName(asset.chain.id)
+    ) {
+      return null;
+    }
+    try {
+      return createStealthPaymentTarget(userData.stealthMetaAddress, {
+        token: asset.address,
+        amount: toBaseUnits(amount, asset),
+      });
+    } catch (error) {
+      console.warn(
+        `⚠️ Falling back to fkey.id address for ${userData.fkeyId}:`,
+        error,
+      );
+      return null;
+    }
+  }
+
+  private storePaymentDataForUser(
+    senderInboxId: string,
+    paymentData: PaymentLinkData,
+  ) {
+    this.userPaymentData.set(senderInboxId, paymentData);
+  }
+
+  getPaymentDataForUser(senderInboxId: string) {
+    return this.userPaymentData.get(senderInboxId);
+  }
+
+  /**
+   * 🔧 NEW: Create wallet send calls for transfers to stealth addresses
+   * Following the tba-chat-example-bot pattern for real wallet transactions
+   */
+  createStealthWalletSendCalls(
+    from: string,
+    to: string,
+    amount: string,
+    fkeyId: string,
+    asset: PaymentAsset = resolvePaymentAsset(),
+    announceCall: StealthPaymentTarget["announceCall"] | null = null,
+  ): WalletSendCallsParams {
+    return this.createSplitWalletSendCalls(
+      from,
+      [{ fkeyId, to, amount, announceCall }],
+      asset,
+    );
+  }
+
+  /**
+   * One wallet_sendCalls batch paying every recipient, each transfer followed
+   * by its ERC-5564 announcement when it goes to a one-time stealth address
+   */
+  createSplitWalletSendCalls(
+    from: string,
+    recipients: SplitPaymentRecipient[],
+    asset: PaymentAsset = resolvePaymentAsset(),
+  ): WalletSendCallsParams {
+    try {
+      return {
+        version: "1.0",
+        from: from as `0x${string}`,
+        chainId: `0x${asset.chain.id.toString(16)}`,
+        calls: recipients.flatMap((recipient) =>
+          this.buildStealthPaymentCalls(recipient, asset),
+        ),
+      };
+    } catch (error) {
+      console.error("Error creating stealth wallet send calls:", error);
+      throw error;
+    }
+  }
+
+  private buildStealthPaymentCalls(
+    { fkeyId, to, amount, announceCall }: SplitPaymentRecipient,
+    asset: PaymentAsset,
+  ): WalletSendCallsParams["calls"] {
+    // Convert amount to the token's smallest unit
+    const amountInDecimals = toBaseUnits(amount, asset);
+
+    // Native transfers send value straight to the stealth address,
+    // ERC20 transfers call transfer(address,uint256) on the token
+    const methodSignature = "0xa9059cbb"; // transfer(address,uint256)
+    const transfer = asset.isNative
+      ? {
+          to: to as `0x${string}`,
+          value: toHex(amountInDecimals),
+        }
+      : {
+          to: asset.address as `0x${string}`,
+          data: `${methodSignature}${to
+            .slice(2)
+            .padStart(
+              64,
+              "0",
+            )}${amountInDecimals.toString(16).padStart(64, "0")}` as `0x${string}`,
+        };
+
+    return [
+      {
+        ...transfer,
+        metadata: {
+          description: `Send ${formatPaymentAmount(amount, asset)} to ${fkeyId}.fkey.id stealth address`,
+          transactionType: "transfer",
+          currency: asset.token.symbol,
+          amount: amountInDecimals.toString(),
+          decimals: asset.token.decimals.toString(),
+          networkId: asset.chain.key,
+          hostname: "dstealth.xyz",
+          faviconUrl: "https://dstealth.xyz/dstealth-white-on-black.png",
+          title: "dStealth Agent - Stealth Payment",
+          // Additional stealth payment metadata
+          stealthRecipient: fkeyId,
+          stealthAddress: to,
+          privacyFeature: "stealth-address",
+          zkProofAvailable: "true",
+        },
+      },
+      // ERC-5564 announcement so the recipient's wallet finds the payment
+      ...(announceCall
+        ? [
+            {
+              ...announceCall,
+              metadata: {
+                description: `Announce the payment to ${fkeyId}.fkey.id (ERC-5564)`,
+                transactionType: "announce",
+                networkId: asset.chain.key,
+                hostname: "dstealth.xyz",
+                faviconUrl: "https://dstealth.xyz/dstealth-white-on-black.png",
+                title: "dStealth Agent - Stealth Announcement",
+              },
+            },
+          ]
+        : []),
+    ];
+  }
+
+  /**
+   * 🔧 NEW: Handle transaction reference messages (from tba-chat-example-bot pattern)
+   * When users share their transaction hash after completing a payment
+   */
+  handleTransactionReference(
+    transactionRef: TransactionReference,
+    senderInboxId: string,
+    senderAddress: string,
+  ): string {
+    try {
+      console.log("🧾 Processing transaction reference:", transactionRef);
+      console.log(
+        "📊 Full transaction reference object:",
+        JSON.stringify(transactionRef, null, 2),
+      );
+
+      // Extract transaction details - the data is nested under transactionReference property
+      const txData = transactionRef;
+      const txHash = txData.reference;
+      const networkId = txData.networkId;
+      const metadata = txData.metadata;
+
+      console.log("🔍 Extracted transaction data:");
+      console.log(`  • txHash: ${txHash}`);
+      console.log(`  • networkId: ${networkId}`);
+      console.log(
+        `  • metadata:`,
+        metadata ? JSON.stringify(metadata, null, 4) : "null",
+      );
+      console.log(`  • senderAddress: ${senderAddress}`);
+
+      let receiptMessage = `📋 Transaction Receipt
+
+💳 TRANSACTION DETAILS:
+• Transaction Hash: ${txHash}
+• Network: ${networkId}
+• Type: ${metadata?.transactionType || "Transfer"}
+• From: ${metadata?.fromAddress || senderAddress}`;
+
+      // Add amount information if available
+      if (metadata?.currency && metadata.amount && metadata.decimals) {
+        const amount = metadata.amount / Math.pow(10, metadata.decimals);
+        receiptMessage += `\n• Amount: ${amount} ${metadata.currency}`;
+      }
+
+      if (metadata?.toAddress) {
+        receiptMessage += `\n• To: ${metadata.toAddress}`;
+      }
+
+      // Add dStealth-specific features
+      receiptMessage += `\n\n🥷 dStealth Features:
+• 🔒 Privacy-enabled transaction
+• 🧾 ZK receipt verification
+• 🎯 Eligible for privacy rewards
+
+🌐 View full details: ${this.ctx.DSTEALTH_APP_URL}
+🔗 Blockchain explorer: ${this.getExplorerUrl(txHash, String(networkId))}
+
+✅ Transaction receipt processed successfully!`;
+
+      return receiptMessage;
+    } catch (error) {
+      console.error("❌ Error processing transaction reference:", error);
+      return "❌ Error processing transaction receipt. Please try again.";
+    }
+  }
+
+  /**
+   * 🔧 NEW: Get blockchain explorer URL for transaction hash
+   */
+  private getExplorerUrl(txHash: string, networkId: string): string {
+    switch (networkId) {
+      case "base-sepolia":
+        return `https://sepolia.basescan.org/tx/${txHash}`;
+      case "sepolia":
+        return `https://sepolia.etherscan.io/tx/${txHash}`;
+      default:
+        // Mainnets come from the payment chain registry (Base when unknown)
+        return getExplorerTxUrl(networkId, txHash);
+    }
+  }
+
+  /**
+   * Handle balance check
+   */
+  async handleBalanceCheck(senderInboxId: string): Promise<string> {
+    try {
+      const userData = await this.ctx.db.getStealthDataByUser(senderInboxId);
+
+      if (!userData || !userData.fkeyId) {
+        return this.ctx.getRequiresFkeyMessage(false);
+      }
+
+      return `💰 Balance Overview 
+
+Profile: ${userData.fkeyId}.fkey.id
+Privacy Points: Coming soon...
+Rewards: Coming soon...
+
+💡 Earn More:
+• Generate payment links
+• Receive stealth payments
+• Complete privacy challenges
+
+🚀 Web App: ${this.ctx.DSTEALTH_APP_URL}`;
+    } catch (error) {
+      console.error("Error checking balance:", error);
+      return "❌ Error checking balance. Please try again.";
+    }
+  }
+
+  /**
+   * Handle links management
+   */
+  async handleLinksManagement(senderInboxId: string): Promise<string> {
+    try {
+      // 🔧 SECURITY: Refresh stealth address for links management as well
+      const freshData = await this.ctx.getFreshUserStealthData(senderInboxId);
+
+      if (!freshData) {
+        return `🔗 Links Management - Setup Required
+
+To manage your payment links:
+
+1. 🔑 Get FluidKey: ${this.ctx.FLUIDKEY_REFERRAL_URL}
+2. 📝 Tell me your fkey.id: (e.g., "tantodefi.fkey.id")
+3. 🚀 Complete setup: ${this.ctx.DSTEALTH_APP_URL}
+
+Then you can create and manage payment links!`;
+      }
+
+      if (freshData.error) {
+        return `❌ Links Management Error: fkey.id Verification Failed
+
+Could not verify your current fkey.id address: ${freshData.error}
+
+This could mean:
+• Your fkey.id profile is no longer accessible
+• Your FluidKey account has issues
+• Network connectivity problems
+
+Please re-verify your fkey.id: "${freshData.userData.fkeyId}.fkey.id"
+Or get support: ${this.ctx.FLUIDKEY_REFERRAL_URL}`;
+      }
+
+      const { userData } = freshData;
+
+      return `🔗 Payment Links Management
+
+Profile: ${userData.fkeyId}.fkey.id
+Active Links: View in dashboard
+Analytics: View in dashboard
+
+🚀 Quick Actions:
+• "create payment link for $X" - Generate new link
+• Full Dashboard: ${this.ctx.DSTEALTH_APP_URL}
+
+💡 Pro Tip: Share your payment links to earn privacy rewards!`;
+    } catch (error) {
+      console.error("Error managing links:", error);
+      return "❌ Failed to manage links. Please try again.";
+    }
+  }
+
+  /**
+   * 🔧 NEW: Context-aware action button expiration
+   */
+  private calculateSmartExpiration(
+    actionType: string,
+    _userStatus: UserActionStatus,
+  ): string {
+    const now = Date.now();
+
+    switch (actionType) {
+      case "welcome":
+        // Welcome actions expire quickly to prevent confusion
+        return new Date(now + 5 * 60 * 1000).toISOString(); // 5 minutes
+
+      case "payment":
+        // Payment actions have longer expiration
+        return new Date(now + 60 * 60 * 1000).toISOString(); // 1 hour
+
+      case "confirmation":
+        // Confirmation actions expire quickly
+        return new Date(now + 10 * 60 * 1000).toISOString(); // 10 minutes
+
+      case "help":
+        // Help actions can last longer
+        return new Date(now + 24 * 60 * 60 * 1000).toISOString(); // 24 hours
+
+      default:
+        // Default expiration
+        return new Date(now + 12 * 60 * 60 * 1000).toISOString(); // 12 hours
+    }
+  }
+
+  /**
+   * 🔧 NEW: Dynamic action button generation based on user context
+   */
+  private generateContextualActions(
+    userStatus: UserActionStatus,
+    actionType: string = "general",
+  ): ActionsContent {
+    const renderTimestamp = Date.now();
+    const randomSuffix = Math.random().toString(36).substring(2, 8);
+    const actions = [];
+
+    // Base actions available to all users
+    if (!userStatus.hasValidFkey) {
+      actions.push({
+        id: `setup-fkey-${renderTimestamp}-${randomSuffix}`,
+        label: "🔑 Setup fkey.id",
+        style: "primary" as const,
+      });
+    }
+
+    if (userStatus.hasValidFkey) {
+      actions.push({
+        id: `create-payment-link-${renderTimestamp}-${randomSuffix}`,
+        label: "💳 Create Payment Link",
+        style: "primary" as const,
+      });
+
+      actions.push({
+        id: `check-balance-${renderTimestamp}-${randomSuffix}`,
+        label: "💰 Check Balance",
+        style: "secondary" as const,
+      });
+    }
+
+    // Farcaster-specific actions
+    if (userStatus.hasFarcasterProfile) {
+      actions.push({
+        id: `send-rewards-${renderTimestamp}-${randomSuffix}`,
+        label: "🎯 Send Rewards",
+        style: "secondary" as const,
+      });
+
+      actions.push({
+        id: `search-followers-${renderTimestamp}-${randomSuffix}`,
+        label: "👥 Search Followers",
+        style: "secondary" as const,
+      });
+    }
+
+    // Universal actions
+    actions.push({
+      id: `dstealth-miniapp-${renderTimestamp}-${randomSuffix}`,
+      label: "🌐 dStealth App",
+      style: "secondary" as const,
+    });
+
+    actions.push({
+      id: `get-help-${renderTimestamp}-${randomSuffix}`,
+      label: "❓ Get Help",
+      style: "secondary" as const,
+    });
+
+    const description = this.getContextualDescription(userStatus, actionType);
+    const expiration = this.calculateSmartExpiration(actionType, userStatus);
+
+    return {
+      id: `contextual-actions-${renderTimestamp}-${randomSuffix}`,
+      description,
+      actions,
+      expiresAt: expiration,
+    };
+  }
+
+  /**
+   * 🔧 NEW: Get contextual description for action buttons
+   */
+  private getContextualDescription(
+    userStatus: UserActionStatus,
+    actionType: string,
+  ): string {
+    const timestamp = new Date().toLocaleTimeString();
+
+    if (actionType === "welcome") {
+      return `👋 Welcome to dStealth! Choose an action to get started (${timestamp}):`;
+    }
+
+    if (actionType === "payment") {
+      return `💳 Payment options for ${userStatus.fkeyId || "your account"} (${timestamp}):`;
+    }
+
+    if (actionType === "help") {
+      const fkeyStatus = userStatus.hasValidFkey
+        ? `✅ ${userStatus.fkeyId}`
+        : "❌ No fkey.id";
+      const fcStatus = userStatus.hasFarcasterProfile
+        ? `✅ @${userStatus.farcasterUsername}`
+        : "❌ No FC";
+      return `🤖 dStealth Agent - ${fkeyStatus} | ${fcStatus} (${timestamp}):`;
+    }
+
+    return `🥷 dStealth Agent - Choose an action (${timestamp}):`;
+  }
+}
@@ -0,0 +1,1360 @@
+import { ethers } from "ethers";
+import type { UserStealthData } from "../../lib/agent-database.js";
+import type { CommandDefinition } from "../commands/command-registry.js";
+import {
+  NEYNAR_API_BASE,
+  type AgentContext,
+  type FkeyLookupResult,
+} from "./context.js";
+import type { FarcasterPlugin } from "./farcaster.js";
+import type {
+  AgentPlugin,
+  ComprehensiveSearchResponse,
+  FarcasterUser,
+  NeynarFollowersResponse,
+  NeynarUserResponse,
+  UserSearchResult,
+} from "./types.js";
+
+/**
+ * Search: fkey.id lookups and user discovery by ENS, Base name, Farcaster
+ * username or wallet address, including searches across a user's network.
+ */
+export class SearchPlugin implements AgentPlugin {
+  readonly name = "search";
+
+  constructor(
+    private ctx: AgentContext,
+    private farcaster: FarcasterPlugin,
+  ) {}
+
+  commands(): CommandDefinition[] {
+    return [
+      {
+        name: "find-users",
+        description: "Search FC users for dStealth usage",
+        category: "🔍 Social Discovery",
+        args: [{ name: "query", type: "rest" }],
+        handler: (args) => this.handleFindUsersCommand(args.query as string),
+      },
+      {
+        name: "search",
+        description:
+          "Search a user, or your followers when no username is given",
+        category: "🔍 Social Discovery",
+        args: [{ name: "username", type: "string", optional: true }],
+        handler: (args, ctx) =>
+          // Use enhanced search with follower fallback when no username provided
+          this.handleEnhancedSearchCommand(
+            ((args.username as string | undefined) ?? "").replace(/^@/, ""),
+            ctx.senderInboxId,
+          ),
+      },
+      {
+        name: "fkey",
+        description: "Look up someone's fkey.id",
+        category: "ℹ️ Info Commands",
+        args: [{ name: "username", type: "string" }],
+        handler: (args, ctx) =>
+          this.handleFkeyLookup(args.username as string, ctx.senderInboxId),
+      },
+    ];
+  }
+
+  /**
+   * 🔧 NEW: Check if content is a valid username search pattern
+   * This prevents "gm" and other casual messages from being treated as user searches
+   */
+  isValidUsernameSearchPattern(content: string): boolean {
+    // Must be a single word without spaces
+    if (content.includes(" ")) return false;
+
+    // Must be between 3-30 characters (too short words like "gm", "hi" are not usernames)
+    if (content.length < 3 || content.length > 30) return false;
+
+    // Must contain specific patterns that indicate it's a username
+    const isSpecificPattern =
+      content.includes(".base.eth") ||
+      content.includes(".eth") ||
+      content.startsWith("@") ||
+      content.endsWith(".fkey.id") ||
+      // Only alphanumeric usernames that are 5+ characters or contain specific indicators
+      (content.match(/^[a-zA-Z0-9_]+$/) &&
+        (content.length >= 5 || content.includes("_")));
+
+    if (!isSpecificPattern) return false;
+
+    // Blacklist common casual words that might match the pattern
+    const blacklistedWords = [
+      "hello",
+      "hi",
+      "hey",
+      "gm",
+      "good",
+      "morning",
+      "afternoon",
+      "evening",
+      "night",
+      "thanks",
+      "thank",
+      "please",
+      "help",
+      "info",
+      "status",
+      "what",
+      "how",
+      "why",
+      "when",
+      "where",
+      "introduce",
+      "yourself",
+      "channel",
+      "integration",
+      "think",
+      "awesome",
+      "great",
+      "cool",
+      "nice",
+      "wow",
+      "yes",
+      "no",
+      "ok",
+      "okay",
+      "sure",
+      "maybe",
+      "perhaps",
+      "probably",
+      "definitely",
+      "absolutely",
+      "exactly",
+      "indeed",
+    ];
+
+    if (blacklistedWords.includes(content.toLowerCase())) return false;
+
+    return true;
+  }
+
+  /**
+   * 🔧 ENHANCED: Search for Farcaster users and check dStealth usage - NO ZK receipts for search
+   */
+  private async searchFarcasterUsers(
+    query: string,
+  ): Promise<UserSearchResult[]> {
+    try {
+      if (!this.ctx.NEYNAR_API_KEY) {
+        console.warn("⚠️ NEYNAR_API_KEY not configured for search");
+        return [];
+      }
+
+      console.log(`🔍 Searching Farcaster users: ${query}`);
+
+      const response = await fetch(
+        `${NEYNAR_API_BASE}/farcaster/user/search?q=${encodeURIComponent(query)}&limit=20`,
+        {
+          headers: {
+            api_key: this.ctx.NEYNAR_API_KEY,
+          },
+        },
+      );
+
+      if (!response.ok) {
+        console.log(`❌ Neynar search API error: ${response.status}`);
+        return [];
+      }
+
+      const data = (await response.json()) as NeynarUserResponse;
+
+      const results: UserSearchResult[] = [];
+
+      for (const user of data.users) {
+        // Check all addresses for existing fkey.id in database
+        let foundFkey: string | null = null;
+
+        // Check custody address
+        const custodyFkey = await this.ctx.findFkeyByWallet(
+          user.custody_address,
+        );
+        if (custodyFkey) {
+          foundFkey = custodyFkey;
+        }
+
+        // Check verified addresses
+        if (!foundFkey && user.verified_addresses?.eth_addresses) {
+          for (const address of user.verified_addresses.eth_addresses) {
+            const fkey = await this.ctx.findFkeyByWallet(address);
+            if (fkey) {
+              foundFkey = fkey;
+              break;
+            }
+          }
+        }
+
+        const primaryAddress =
+          user.verified_addresses?.eth_addresses[0] || user.custody_address;
+
+        results.push({
+          fid: user.fid,
+          username: user.username,
+          displayName: user.display_name,
+          avatarUrl: user.pfp_url,
+          verified: user.verified,
+          walletAddress: primaryAddress,
+          fkeyId: foundFkey || undefined,
+          hasFkey: !!foundFkey,
+        });
+      }
+
+      console.log(
+        `✅ Found ${results.length} users, ${results.filter((r) => r.hasFkey).length} with fkey.id`,
+      );
+      return results;
+    } catch (error) {
+      console.error("Error searching Farcaster users:", error);
+      return [];
+    }
+  }
+
+  /**
+   * 🔧 FIXED: Handle fkey lookup - Now actually calls the API and returns real data
+   */
+  private async handleFkeyLookup(
+    fkeyId: string,
+    senderInboxId: string,
+  ): Promise<string> {
+    const cleanFkeyId = fkeyId.replace(".fkey.id", "").toLowerCase().trim();
+
+    try {
+      console.log(`🔍 Looking up fkey.id: ${cleanFkeyId} for ${senderInboxId}`);
+
+      // Get user address for ZK receipt storage
+      let userAddress: string | undefined = undefined;
+      try {
+        const inboxState =
+          await this.ctx.client?.preferences.inboxStateFromInboxIds([
+            senderInboxId,
+          ]);
+        userAddress = inboxState?.[0]?.identifiers[0]?.identifier;
+      } catch (error) {
+        console.warn(
+          "⚠️ Could not resolve user address for fkey lookup:",
+          error,
+        );
+      }
+
+      // Call the actual fkey.id lookup API with ZK receipt generation
+      const lookupResult = await this.ctx.callFkeyLookupAPI(
+        cleanFkeyId,
+        userAddress,
+        "xmtp-agent-fkey-lookup",
+      );
+
+      if (lookupResult.error) {
+        return `❌ fkey.id Lookup Failed
+
+Could not find ${cleanFkeyId}.fkey.id: ${lookupResult.error}
+
+Common Issues:
+• Username might be incorrect
+• Profile might be private
+• FluidKey account might not exist
+
+🔗 Get FluidKey: ${this.ctx.FLUIDKEY_REFERRAL_URL}
+💡 Want your own fkey.id? Get FluidKey first!`;
+      }
+
+      const hasZkProof = lookupResult.proof
+        ? "✅ ZK Proof Available"
+        : "⚠️ No ZK Proof";
+      const address = lookupResult.address || "Unknown";
+
+      return `🔍 fkey.id Lookup Result
+
+Profile: ${cleanFkeyId}.fkey.id
+Address: ${address.slice(0, 6)}...${address.slice(-4)}
+ZK Proof: ${hasZkProof}
+Status: ✅ Verified
+
+🚀 Profile Features:
+• Anonymous payment links
+• Cryptographic identity verification
+• Privacy-preserving transactions
+
+Want to connect this profile? Just say "${cleanFkeyId}.fkey.id"
+Get your own FluidKey: ${this.ctx.FLUIDKEY_REFERRAL_URL}`;
+    } catch (error) {
+      console.error("Error in fkey lookup:", error);
+      return `❌ Lookup Error
+
+Failed to lookup ${cleanFkeyId}.fkey.id. Please try again.
+
+Get FluidKey: ${this.ctx.FLUIDKEY_REFERRAL_URL}`;
+    }
+  }
+
+  /**
+   * 🔧 ENHANCED: Handle find users command using comprehensive search API
+   */
+  private async handleFindUsersCommand(searchQuery: string): Promise<string> {
+    try {
+      if (!this.ctx.client) {
+        return "❌ Agent not available";
+      }
+
+      console.log(`🔍 Comprehensive find users for: ${searchQuery}`);
+
+      // Use the comprehensive search API
+      const backendUrl = process.env.BACKEND_URL || "http://localhost:5001";
+      const response = await fetch(
+        `${backendUrl}/api/user/search/comprehensive?query=${encodeURIComponent(searchQuery)}&limit=10`,
+      );
+
+      if (!response.ok) {
+        throw new Error(`Search API failed: ${response.status}`);
+      }
+
+      const searchData = (await response.json()) as ComprehensiveSearchResponse;
+
+      if (!searchData.success || searchData.results.length === 0) {
+        return `🔍 Comprehensive Search Results
+
+No users found for "${searchQuery}" across any data source.
+
+Try searching for:
+• Username (e.g., vitalik)
+• Display name (e.g., "Ethereum") 
+• Handle (e.g., @tantodefi)
+
+🌐 Searched: All available users
+📍 Sources: Agent DMs, dStealth miniapp, Farcaster casts
+
+🔗 Get more users on dStealth:
+• Share FluidKey: ${this.ctx.FLUIDKEY_REFERRAL_URL}
+• Invite friends to set fkey.id
+• Earn referral rewards (coming soon)`;
+      }
+
+      const dStealthUsers = searchData.results.filter((user) => user.hasFkey);
+      const totalResults = searchData.results.length;
+      const sources = searchData.sources;
+
+      // Format results with source information
+      let resultMessage = `🔍 Comprehensive Search Results
+
+Found ${totalResults} users for "${searchQuery}":
+🌐 Sources: ${Object.entries(sources)
+        .filter(([_, count]) => count > 0)
+        .map(([source, count]) => {
+          const sourceLabel =
+            source === "agent_db"
+              ? "Agent"
+              : source === "frontend_db"
+                ? "Frontend"
+                : "Farcaster";
+          return `${sourceLabel}: ${count}`;
+        })
+        .join(", ")}`;
+
+      if (dStealthUsers.length > 0) {
+        const dStealthList = dStealthUsers
+          .slice(0, 5) // Show max 5 dStealth users
+          .map((user) => {
+            const verifiedBadge = user.verified ? " ✅" : "";
+            const sourceIcon =
+              user.source === "agent_db"
+                ? "🔗"
+                : user.source === "frontend_db"
+                  ? "💻"
+                  : "🎭";
+            return `${sourceIcon} @${user.username}${verifiedBadge} → ${user.fkeyId}.fkey.id`;
+          })
+          .join("\n");
+
+        resultMessage += `\n\n🥷 dStealth Users (${dStealthUsers.length}):
+${dStealthList}`;
+      }
+
+      const regularUsers = searchData.results.filter((user) => !user.hasFkey);
+      if (regularUsers.length > 0) {
+        const regularList = regularUsers
+          .slice(0, 3) // Show max 3 regular users
+          .map((user) => {
+            const verifiedBadge = user.verified ? " ✅" : "";
+            const sourceIcon =
+              user.source === "agent_db"
+                ? "🔗"
+                : user.source === "frontend_db"
+                  ? "💻"
+                  : "🎭";
+            return `${sourceIcon} @${user.username}${verifiedBadge} (no fkey.id yet)`;
+          })
+          .join("\n");
+
+        resultMessage += `\n\n⚪ Other Users (${regularUsers.length}):
+${regularList}`;
+
+        if (regularUsers.length > 3) {
+          resultMessage += `\n... and ${regularUsers.length - 3} more users`;
+        }
+      }
+
+      resultMessage += `\n\n🚀 Grow the Network:
+• Invite users to get fkey.id
+• Share FluidKey: ${this.ctx.FLUIDKEY_REFERRAL_URL}
+• Earn rewards for referrals (coming soon)
+
+🔗 = Found users (from Agent DMs, dStealth miniapp, Farcaster casts)
+Ready to connect? 🌐`;
+
+      return resultMessage;
+    } catch (error) {
+      console.error("Error in comprehensive find users:", error);
+
+      // Fallback to original Farcaster search
+      try {
+        console.log("🔄 Falling back to Farcaster-only search...");
+        const searchResults = await this.searchFarcasterUsers(searchQuery);
+
+        if (searchResults.length > 0) {
+          const dStealthUsers = searchResults.filter((user) => user.hasFkey);
+
+          let resultMessage = `🔍 Search Results (Fallback)
+
+Found ${searchResults.length} users for "${searchQuery}":`;
+
+          if (dStealthUsers.length > 0) {
+            const dStealthList = dStealthUsers
+              .slice(0, 3)
+              .map((user) => {
+                const verifiedBadge = user.verified ? " ✅" : "";
+                return `🥷 @${user.username}${verifiedBadge} → ${user.fkeyId}.fkey.id`;
+              })
+              .join("\n");
+
+            resultMessage += `\n\n🥷 dStealth Users (${dStealthUsers.length}):
+${dStealthList}`;
+          }
+
+          resultMessage += `\n\n⚠️ Using fallback search - comprehensive search temporarily unavailable.`;
+          return resultMessage;
+        }
+      } catch (fallbackError) {
+        console.error("Fallback search also failed:", fallbackError);
+      }
+
+      return "❌ Search temporarily unavailable. Please try again later.";
+    }
+  }
+
+  /**
+   * 🔧 ENHANCED: Handle search command using comprehensive search API
+   */
+  private async handleSearchCommand(username: string): Promise<string> {
+    try {
+      if (!username || username.length < 1) {
+        return `❌ Please provide a username to search for.
+
+Examples:
+• /search tantodefi
+• /search @vitalik
+• /search ethereum.eth
+• /search user.base.eth`;
+      }
+
+      console.log(`🔍 Enhanced search for: ${username}`);
+
+      // 🔧 STEP 1: Resolve user input to address if possible
+      const resolution = await this.resolveUserInput(username);
+
+      console.log(`📍 Search resolution:`, {
+        input: resolution.originalInput,
+        type: resolution.inputType,
+        resolved: resolution.resolvedAddress
+          ? `${resolution.resolvedAddress.slice(0, 8)}...`
+          : "null",
+      });
+
+      // 🔧 STEP 2: Search database with both username and resolved address
+      const searchResult = await this.searchDatabaseForFkey(
+        username,
+        resolution.resolvedAddress || undefined,
+      );
+
+      if (searchResult.fkeyId) {
+        // Found fkey.id in database
+        const resolvedInfo = resolution.resolvedAddress
+          ? `\n🔗 Resolved from: ${resolution.resolvedFrom || resolution.originalInput}`
+          : "";
+
+        return `🔍 User Found! 🔗
+
+👤 ${username}${resolvedInfo}
+🔑 FluidKey: ${searchResult.fkeyId}.fkey.id
+💳 Privacy payments enabled
+
+💰 You can send anonymous payments to this user!
+
+🚀 Try it:
+• "create payment link for $25"
+• Share the link with them
+• They'll receive payments to their stealth address
+
+🥷 Privacy enabled! 🔒
+
+📊 Found by: ${searchResult.foundBy} search
+📍 Sources: Agent DMs, dStealth miniapp, Farcaster casts`;
+      }
+
+      // 🔧 STEP 3: If not found in database, check if we resolved an address
+      if (resolution.resolvedAddress) {
+        const addressType =
+          resolution.inputType === "ens_name"
+            ? "ENS name"
+            : resolution.inputType === "base_name"
+              ? "Base name"
+              : resolution.inputType === "farcaster_username"
+                ? "Farcaster username"
+                : "address";
+
+        return `🔍 Address Found (No FluidKey)
+
+👤 ${username}
+🔗 ${addressType} resolved to: ${resolution.resolvedAddress.slice(0, 8)}...${resolution.resolvedAddress.slice(-6)}
+❌ No fkey.id set up yet
+
+💡 Help them get started:
+• Share FluidKey: ${this.ctx.FLUIDKEY_REFERRAL_URL}
+• Tell them to cast "@dstealth username.fkey.id" on Farcaster
+• They can also DM me at @dstealth.base.eth
+
+🚀 Grow the privacy network together!
+
+📊 Address resolution: ${resolution.inputType} → wallet address`;
+      }
+
+      // 🔧 STEP 4: Fallback to comprehensive search API
+      try {
+        const backendUrl = process.env.BACKEND_URL || "http://localhost:5001";
+        const response = await fetch(
+          `${backendUrl}/api/user/search/comprehensive?query=${encodeURIComponent(username)}&limit=5`,
+        );
+
+        if (response.ok) {
+          const searchData =
+            (await response.json()) as ComprehensiveSearchResponse;
+
+          if (searchData.success && searchData.results.length > 0) {
+            // Look for exact username match first
+            let exactMatch = searchData.results.find(
+              (user) =>
+                user.username.toLowerCase() === username.toLowerCase() ||
+                (user.fkeyId &&
+                  user.fkeyId.toLowerCase() === username.toLowerCase()),
+            );
+
+            // If no exact match, use the first result with fkey, then first overall
+            if (!exactMatch) {
+              exactMatch =
+                searchData.results.find((user) => user.hasFkey) ||
+                searchData.results[0];
+            }
+
+            if (exactMatch.hasFkey) {
+              const verifiedBadge = exactMatch.verified ? " ✅" : "";
+              const sourceIcon =
+                exactMatch.source === "agent_db"
+                  ? "🔗"
+                  : exactMatch.source === "frontend_db"
+                    ? "💻"
+                    : "🎭";
+
+              return `🔍 User Found! ${sourceIcon}
+
+👤 @${exactMatch.username}${verifiedBadge} (${exactMatch.displayName})
+🔑 FluidKey: ${exactMatch.fkeyId}.fkey.id
+💳 ${exactMatch.stealthAddress ? "Stealth payments enabled" : "Standard payments"}
+
+💰 You can send anonymous payments to this user!
+
+🚀 Try it:
+• "create payment link for $25"
+• Share the link with @${exactMatch.username}
+• They'll receive payments to their stealth address
+
+🥷 Privacy enabled! 🔒
+
+📊 Found in: All available users
+📍 Sources: Agent DMs, dStealth miniapp, Farcaster casts`;
+            } else {
+              const verifiedBadge = exactMatch.verified ? " ✅" : "";
+
+              return `🔍 User Found (No FluidKey) 🔗
+
+👤 @${exactMatch.username}${verifiedBadge} (${exactMatch.displayName})
+❌ No fkey.id set up yet
+
+💡 Help them get started:
+• Share FluidKey: ${this.ctx.FLUIDKEY_REFERRAL_URL}
+• Tell them to cast "@dstealth username.fkey.id" on Farcaster
+• They can also DM me at @dstealth.base.eth
+
+🚀 Grow the privacy network together!
+
+📊 Found in: All available users
+📍 Sources: Agent DMs, dStealth miniapp, Farcaster casts`;
+            }
+          }
+        }
+      } catch (apiError) {
+        console.error("Comprehensive search API failed:", apiError);
+      }
+
+      // 🔧 STEP 5: Final fallback to Farcaster search
+      try {
+        console.log("🔄 Falling back to Farcaster-only search...");
+        const farcasterResults = await this.searchFarcasterUsers(username);
+
+        if (farcasterResults.length > 0) {
+          const exactMatch =
+            farcasterResults.find(
+              (user) => user.username.toLowerCase() === username.toLowerCase(),
+            ) || farcasterResults[0];
+
+          const verifiedBadge = exactMatch.verified ? " ✅" : "";
+
+          if (exactMatch.hasFkey) {
+            return `🔍 User Found! (Fallback Search)
+
+👤 @${exactMatch.username}${verifiedBadge} (${exactMatch.displayName})
+🔑 FluidKey: ${exactMatch.fkeyId}.fkey.id
+
+💰 You can send anonymous payments to this user!
+
+⚠️ Using fallback search - comprehensive search temporarily unavailable.`;
+          } else {
+            return `🔍 User Found (No FluidKey)
+
+👤 @${exactMatch.username}${verifiedBadge} (${exactMatch.displayName})
+❌ No fkey.id set up yet
+
+💡 Help them get started with FluidKey!
+
+⚠️ Using fallback search - comprehensive search temporarily unavailable.`;
+          }
+        }
+      } catch (fallbackError) {
+        console.error("Fallback search also failed:", fallbackError);
+      }
+
+      // 🔧 STEP 6: Nothing found anywhere
+      const inputTypeHelp =
+        resolution.inputType === "ens_name"
+          ? "ENS name"
+          : resolution.inputType === "base_name"
+            ? "Base name"
+            : resolution.inputType === "farcaster_username"
+              ? "Farcaster username"
+              : "username";
+
+      return `❌ User Not Found
+
+Sorry, I couldn't find "${username}" anywhere.
+
+🔍 Searched as: ${inputTypeHelp}
+🌐 Checked: All available users
+📍 Sources: Agent DMs, dStealth miniapp, Farcaster casts
+${resolution.inputType !== "plain_username" ? `🔗 Address resolution: ${resolution.inputType === "ens_name" ? "ENS" : resolution.inputType === "base_name" ? "Base" : "Farcaster"} lookup attempted` : ""}
+
+💡 Suggestions:
+• Check the spelling
+• Try with @ prefix for Farcaster: @${username}
+• Try with .eth or .base.eth suffix
+• Use /find-users ${username} for broader search
+
+Want to invite them to dStealth? Share this:
+• Get FluidKey: ${this.ctx.FLUIDKEY_REFERRAL_URL}
+• Cast "@dstealth username.fkey.id" on Farcaster
+• DM me at @dstealth.base.eth`;
+    } catch (error) {
+      console.error("Error in enhanced search:", error);
+      return `❌ Search temporarily unavailable. Please try again later.`;
+    }
+  }
+
+  /**
+   * 🔧 ENHANCED: Handle direct user search with comprehensive address resolution
+   */
+  async handleDirectUserSearch(username: string): Promise<string | null> {
+    try {
+      const cleanUsername = username.trim();
+
+      if (!cleanUsername || cleanUsername.length < 2) {
+        return null; // Not a valid username search
+      }
+
+      console.log(`🔍 Enhanced direct user search for: ${cleanUsername}`);
+
+      // 🔧 STEP 1: Resolve user input to address if possible
+      const resolution = await this.resolveUserInput(cleanUsername);
+
+      console.log(`📍 Input resolution:`, {
+        input: resolution.originalInput,
+        type: resolution.inputType,
+        resolved: resolution.resolvedAddress
+          ? `${resolution.resolvedAddress.slice(0, 8)}...`
+          : "null",
+      });
+
+      // 🔧 STEP 2: Search shared database with both username and resolved address
+      const searchResult = await this.searchDatabaseForFkey(
+        cleanUsername,
+        resolution.resolvedAddress || undefined,
+      );
+
+      if (searchResult.fkeyId) {
+        // Found fkey.id in shared database
+        const resolvedInfo = resolution.resolvedAddress
+          ? `\n🔗 Resolved from: ${resolution.resolvedFrom || resolution.originalInput}`
+          : "";
+
+        return `🔍 User Found! 🔗
+
+👤 ${cleanUsername}${resolvedInfo}
+🔑 FluidKey: ${searchResult.fkeyId}.fkey.id
+💳 Privacy payments enabled
+
+💰 You can send anonymous payments to this user!
+
+🚀 Try it:
+• "create payment link for $25"
+• Share the link with them
+• They'll receive payments to their stealth address
+
+🥷 Privacy enabled! 🔒
+
+📊 Found by: ${searchResult.foundBy} search
+📍 Sources: Agent DMs, dStealth miniapp, Farcaster casts`;
+      }
+
+      // 🔧 STEP 3: If not found in database, check if we resolved an address
+      if (resolution.resolvedAddress) {
+        const addressType =
+          resolution.inputType === "ens_name"
+            ? "ENS name"
+            : resolution.inputType === "base_name"
+              ? "Base name"
+              : resolution.inputType === "farcaster_username"
+                ? "Farcaster username"
+                : "address";
+
+        return `🔍 Address Found (No FluidKey)
+
+👤 ${cleanUsername}
+🔗 ${addressType} resolved to: ${resolution.resolvedAddress.slice(0, 8)}...${resolution.resolvedAddress.slice(-6)}
+❌ No fkey.id set up yet
+
+💡 Help them get started:
+• Share FluidKey: ${this.ctx.FLUIDKEY_REFERRAL_URL}
+• Tell them to cast "@dstealth username.fkey.id" on Farcaster
+• They can also DM me at @dstealth.base.eth
+
+🚀 Grow the privacy network together!
+
+📊 Address resolution: ${resolution.inputType} → wallet address`;
+      }
+
+      // 🔧 STEP 4: Nothing found anywhere
+      const inputTypeHelp =
+        resolution.inputType === "ens_name"
+          ? "ENS name"
+          : resolution.inputType === "base_name"
+            ? "Base name"
+            : resolution.inputType === "farcaster_username"
+              ? "Farcaster username"
+              : "username";
+
+      return `🔍 User Search Results
+
+Sorry, I couldn't find "${cleanUsername}" anywhere.
+
+🔍 Searched as: ${inputTypeHelp}
+🌐 Checked: All available users
+📍 Sources: Agent DMs, dStealth miniapp, Farcaster casts
+${resolution.inputType !== "plain_username" ? `�� Address resolution: ${resolution.inputType === "ens_name" ? "ENS" : resolution.inputType === "base_name" ? "Base" : "Farcaster"} lookup attempted` : ""}
+
+💡 Suggestions:
+• Check the spelling
+• Try with @ prefix for Farcaster: @${cleanUsername}
+• Try with .eth or .base.eth suffix
+• Use /search ${cleanUsername} for broader search
+
+Want to invite them to dStealth? Share this:
+• Get FluidKey: ${this.ctx.FLUIDKEY_REFERRAL_URL}
+• Cast "@dstealth username.fkey.id" on Farcaster
+• DM me at @dstealth.base.eth`;
+    } catch (error) {
+      console.error("Error in enhanced direct user search:", error);
+      return null; // Fall back to normal message processing
+    }
+  }
+
+  /**
+   * 🔧 NEW: Resolve ENS names to addresses
+   */
+  private async resolveENSName(ensName: string): Promise<string | null> {
+    try {
+      // Remove .eth if present for processing
+      const cleanName = ensName.endsWith(".eth") ? ensName : `${ensName}.eth`;
+
+      console.log(`🔍 Resolving ENS name: ${cleanName}`);
+
+      // Use ethers to resolve ENS name
+      const provider = new ethers.JsonRpcProvider(
+        "https://ethereum-rpc.publicnode.com",
+      );
+      const address = await provider.resolveName(cleanName);
+
+      if (address) {
+        console.log(`✅ ENS resolved: ${cleanName} -> ${address}`);
+        return address.toLowerCase();
+      }
+
+      console.log(`❌ ENS resolution failed for: ${cleanName}`);
+      return null;
+    } catch (error) {
+      console.error(`❌ Error resolving ENS name ${ensName}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * 🔧 NEW: Resolve Base names to addresses
+   */
+  private async resolveBaseName(baseName: string): Promise<string | null> {
+    try {
+      // Remove .base.eth if present for processing
+      const cleanName = baseName.endsWith(".base.eth")
+        ? baseName
+        : `${baseName}.base.eth`;
+
+      console.log(`🔍 Resolving Base name: ${cleanName}`);
+
+      // Use Base network provider to resolve Base name
+      const provider = new ethers.JsonRpcProvider("https://mainnet.base.org");
+      const address = await provider.resolveName(cleanName);
+
+      if (address) {
+        console.log(`✅ Base name resolved: ${cleanName} -> ${address}`);
+        return address.toLowerCase();
+      }
+
+      console.log(`❌ Base name resolution failed for: ${cleanName}`);
+      return null;
+    } catch (error) {
+      console.error(`❌ Error resolving Base name ${baseName}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * 🔧 NEW: Resolve Farcaster username to wallet address
+   */
+  private async resolveFarcasterUsername(
+    username: string,
+  ): Promise<string | null> {
+    try {
+      if (!this.ctx.NEYNAR_API_KEY) {
+        console.warn(
+          "⚠️ NEYNAR_API_KEY not configured for Farcaster resolution",
+        );
+        return null;
+      }
+
+      const cleanUsername = username.replace(/^@/, "");
+      console.log(`🔍 Resolving Farcaster username: ${cleanUsername}`);
+
+      const response = await fetch(
+        `${NEYNAR_API_BASE}/farcaster/user/by_username?username=${cleanUsername}`,
+        {
+          headers: {
+            api_key: this.ctx.NEYNAR_API_KEY,
+          },
+        },
+      );
+
+      if (!response.ok) {
+        console.log(`❌ Farcaster user lookup failed: ${response.status}`);
+        return null;
+      }
+
+      const data = (await response.json()) as {
+        user?: NeynarUserResponse["users"][number];
+      };
+
+      if (data.user) {
+        // Prefer custody address, fallback to first verified address
+        const address =
+          data.user.custody_address ||
+          data.user.verified_addresses?.eth_addresses[0];
+
+        if (address) {
+          console.log(
+            `✅ Farcaster username resolved: @${cleanUsername} -> ${address}`,
+          );
+          return address.toLowerCase();
+        }
+      }
+
+      console.log(
+        `❌ No address found for Farcaster username: ${cleanUsername}`,
+      );
+      return null;
+    } catch (error) {
+      console.error(
+        `❌ Error resolving Farcaster username ${username}:`,
+        error,
+      );
+      return null;
+    }
+  }
+
+  /**
+   * 🔧 NEW: Comprehensive address resolution for different input types
+   */
+  private async resolveUserInput(input: string): Promise<{
+    originalInput: string;
+    resolvedAddress: string | null;
+    inputType:
+      | "ethereum_address"
+      | "ens_name"
+      | "base_name"
+      | "farcaster_username"
+      | "plain_username";
+    resolvedFrom?: string;
+  }> {
+    const cleanInput = input.trim().toLowerCase();
+
+    // Check if it's already an Ethereum address
+    if (cleanInput.match(/^0x[a-fA-F0-9]{40}$/)) {
+      return {
+        originalInput: input,
+        resolvedAddress: cleanInput,
+        inputType: "ethereum_address",
+      };
+    }
+
+    // Check if it's a Base name
+    if (cleanInput.includes(".base.eth")) {
+      const resolvedAddress = await this.resolveBaseName(cleanInput);
+      return {
+        originalInput: input,
+        resolvedAddress,
+        inputType: "base_name",
+        resolvedFrom: cleanInput,
+      };
+    }
+
+    // Check if it's an ENS name
+    if (cleanInput.includes(".eth")) {
+      const resolvedAddress = await this.resolveENSName(cleanInput);
+      return {
+        originalInput: input,
+        resolvedAddress,
+        inputType: "ens_name",
+        resolvedFrom: cleanInput,
+      };
+    }
+
+    // Check if it's a Farcaster username (starts with @)
+    if (cleanInput.startsWith("@")) {
+      const resolvedAddress = await this.resolveFarcasterUsername(cleanInput);
+      return {
+        originalInput: input,
+        resolvedAddress,
+        inputType: "farcaster_username",
+        resolvedFrom: cleanInput,
+      };
+    }
+
+    // Plain username - could be Farcaster or just a username
+    // Try Farcaster first
+    const farcasterAddress = await this.resolveFarcasterUsername(cleanInput);
+    if (farcasterAddress) {
+      return {
+        originalInput: input,
+        resolvedAddress: farcasterAddress,
+        inputType: "farcaster_username",
+        resolvedFrom: `@${cleanInput}`,
+      };
+    }
+
+    // If not found on Farcaster, treat as plain username
+    return {
+      originalInput: input,
+      resolvedAddress: null,
+      inputType: "plain_username",
+    };
+  }
+
+  /**
+   * 🔧 UNIFIED: Search shared database for fkey.id by multiple methods
+   */
+  private async searchDatabaseForFkey(
+    username: string,
+    resolvedAddress?: string,
+  ): Promise<{
+    fkeyId: string | null;
+    foundBy: "username" | "address" | "not_found";
+    source: "shared_db";
+  }> {
+    // All data is stored in the same shared database (agentDb using Redis)
+    // This includes users from: Agent DMs, dStealth miniapp, and Farcaster casts
+
+    // First try username search in shared database
+    const usernameResult = await this.findFkeyByUsername(username);
+    if (usernameResult) {
+      return {
+        fkeyId: usernameResult,
+        foundBy: "username",
+        source: "shared_db",
+      };
+    }
+
+    // Then try address search if we have a resolved address
+    if (resolvedAddress) {
+      const addressResult = await this.ctx.findFkeyByWallet(resolvedAddress);
+      if (addressResult) {
+        return {
+          fkeyId: addressResult,
+          foundBy: "address",
+          source: "shared_db",
+        };
+      }
+    }
+
+    return {
+      fkeyId: null,
+      foundBy: "not_found",
+      source: "shared_db",
+    };
+  }
+
+  /**
+   * 🔧 NEW: Search for fkey.id by username in database
+   */
+  private async findFkeyByUsername(username: string): Promise<string | null> {
+    try {
+      const allUsers = await this.ctx.db.getAllStealthData();
+
+      for (const userData of allUsers) {
+        if (
+          userData.fkeyId &&
+          userData.fkeyId.toLowerCase() === username.toLowerCase()
+        ) {
+          return userData.fkeyId;
+        }
+      }
+
+      return null;
+    } catch (error) {
+      console.error("Error finding fkey by username:", error);
+      return null;
+    }
+  }
+
+  /**
+   * 🔧 NEW: Batch operations for database queries
+   */
+  private async batchGetStealthData(
+    userIds: string[],
+  ): Promise<Map<string, UserStealthData>> {
+    const results = new Map<string, UserStealthData>();
+
+    try {
+      // Process in batches of 10 to avoid overwhelming the database
+      const batchSize = 10;
+      const batches = [];
+
+      for (let i = 0; i < userIds.length; i += batchSize) {
+        batches.push(userIds.slice(i, i + batchSize));
+      }
+
+      // Process batches in parallel
+      const batchPromises = batches.map(async (batch) => {
+        const batchResults = await Promise.all(
+          batch.map(async (userId) => {
+            const data = await this.ctx.db.getStealthDataByUser(userId);
+            return { userId, data };
+          }),
+        );
+
+        return batchResults;
+      });
+
+      const allBatchResults = await Promise.all(batchPromises);
+
+      // Flatten results and populate map
+      for (const batchResult of allBatchResults) {
+        for (const { userId, data } of batchResult) {
+          if (data) {
+            results.set(userId, data);
+          }
+        }
+      }
+
+      console.log(
+        `✅ Batch loaded ${results.size} user records from ${userIds.length} requests`,
+      );
+      return results;
+    } catch (error) {
+      console.error("Error in batch get stealth data:", error);
+      return results;
+    }
+  }
+
+  /**
+   * 🔧 NEW: Batch operations for fkey lookups
+   */
+  private async batchFkeyLookups(
+    fkeyIds: string[],
+  ): Promise<Map<string, FkeyLookupResult>> {
+    const results = new Map<string, FkeyLookupResult>();
+
+    try {
+      // Process in batches of 5 to avoid API rate limits
+      const batchSize = 5;
+      const batches = [];
+
+      for (let i = 0; i < fkeyIds.length; i += batchSize) {
+        batches.push(fkeyIds.slice(i, i + batchSize));
+      }
+
+      // Process batches sequentially to respect rate limits
+      for (const batch of batches) {
+        const batchResults = await Promise.all(
+          batch.map(async (fkeyId) => {
+            const data = await this.ctx.callFkeyLookupAPI(fkeyId);
+            return { fkeyId, data };
+          }),
+        );
+
+        for (const { fkeyId, data } of batchResults) {
+          if (!data.error) {
+            results.set(fkeyId, data);
+          }
+        }
+
+        // Add small delay between batches to respect rate limits
+        await new Promise((resolve) => setTimeout(resolve, 100));
+      }
+
+      console.log(
+        `✅ Batch looked up ${results.size} fkey records from ${fkeyIds.length} requests`,
+      );
+      return results;
+    } catch (error) {
+      console.error("Error in batch fkey lookups:", error);
+      return results;
+    }
+  }
+
+  /**
+   * 🔧 NEW: Enhanced /search command with follower fallback
+   */
+  private async handleEnhancedSearchCommand(
+    searchQuery: string,
+    senderInboxId: string,
+  ): Promise<string> {
+    try {
+      // If no query provided, return user's followers/following
+      if (!searchQuery || searchQuery.trim() === "") {
+        return await this.handleFollowerSearch(senderInboxId);
+      }
+
+      // Otherwise, perform regular search
+      return await this.handleSearchCommand(searchQuery);
+    } catch (error) {
+      console.error("Error in enhanced search command:", error);
+      return "❌ Search temporarily unavailable. Please try again later.";
+    }
+  }
+
+  /**
+   * 🔧 NEW: Handle follower search when no username provided
+   */
+  private async handleFollowerSearch(senderInboxId: string): Promise<string> {
+    try {
+      if (!this.ctx.client) {
+        return "❌ Agent not available";
+      }
+
+      // Get sender's wallet address
+      const inboxState =
+        await this.ctx.client.preferences.inboxStateFromInboxIds([
+          senderInboxId,
+        ]);
+      const senderAddress = inboxState[0]?.identifiers[0]?.identifier;
+
+      if (!senderAddress) {
+        return "❌ Could not get your wallet address";
+      }
+
+      // Get Farcaster context
+      const farcasterContext =
+        await this.ctx.getFarcasterContext(senderAddress);
+
+      if (!farcasterContext) {
+        return `🔍 No Search Query & No Farcaster Profile
+
+You didn't provide a search query and you're not connected to Farcaster.
+
+🔗 To search your followers/following:
+1. Connect your wallet to Farcaster at warpcast.com
+2. Return here and use /search with no parameters
+
+🔍 To search for specific users:
+• /search username
+• /search @username
+• /search user.base.eth
+
+Examples:
+• /search tantodefi
+• /search @vitalik
+• /search user.base.eth`;
+      }
+
+      // Get both followers and following
+      const [followers, following] = await Promise.all([
+        this.farcaster.fetchUserFollowers(farcasterContext.fid, 50),
+        this.fetchUserFollowing(farcasterContext.fid, 50),
+      ]);
+
+      const totalConnections = followers.length + following.length;
+      const allConnections = [...followers, ...following];
+
+      // Check which ones have dStealth
+      const dStealthUsers = [];
+      for (const user of allConnections) {
+        const fkeyId =
+          (await this.ctx.findFkeyByWallet(user.custodyAddress)) ||
+          (await this.ctx.findFkeyByWallet(user.verifiedAddresses[0]));
+
+        if (fkeyId) {
+          dStealthUsers.push({
+            ...user,
+            fkeyId,
+            type: followers.includes(user) ? "follower" : "following",
+          });
+        }
+      }
+
+      if (dStealthUsers.length === 0) {
+        return `🔍 Your Farcaster Network Analysis
+
+@${farcasterContext.username}, I analyzed your network:
+
+📊 Network Size:
+• Followers: ${followers.length}
+• Following: ${following.length}
+• Total: ${totalConnections}
+
+❌ No dStealth Users Found
+
+None of your followers or following have set up fkey.id yet.
+
+🚀 Grow the Privacy Network:
+• Share dStealth with your community
+• Tell them about FluidKey: ${this.ctx.FLUIDKEY_REFERRAL_URL}
+• Earn referral rewards (coming soon)
+
+Try specific searches: /search username`;
+      }
+
+      const userList = dStealthUsers
+        .slice(0, 10)
+        .map((user) => {
+          const verifiedBadge = user.verified ? " ✅" : "";
+          const typeIcon = user.type === "follower" ? "👥" : "🔗";
+          return `${typeIcon} @${user.username}${verifiedBadge} → ${user.fkeyId}.fkey.id`;
+        })
+        .join("\n");
+
+      const moreResults =
+        dStealthUsers.length > 10
+          ? `\n\n... and ${dStealthUsers.length - 10} more dStealth users!`
+          : "";
+
+      return `🔍 Your Farcaster Network Analysis
+
+@${farcasterContext.username}, found ${dStealthUsers.length} dStealth users in your network:
+
+${userList}${moreResults}
+
+📊 Network Summary:
+• Total connections: ${totalConnections}
+• dStealth users: ${dStealthUsers.length}
+• Privacy adoption: ${((dStealthUsers.length / totalConnections) * 100).toFixed(1)}%
+
+🎯 Icons:
+• 👥 = Your followers
+• 🔗 = People you follow
+
+Ready to connect with them privately! 🥷`;
+    } catch (error) {
+      console.error("Error in follower search:", error);
+      return "❌ Error analyzing your network. Please try again later.";
+    }
+  }
+
+  /**
+   * 🔧 NEW: Fetch user's following list
+   */
+  private async fetchUserFollowing(
+    fid: number,
+    limit: number = 50,
+  ): Promise<FarcasterUser[]> {
+    try {
+      if (!this.ctx.NEYNAR_API_KEY) {
+        console.warn("⚠️ NEYNAR_API_KEY not configured for following");
+        return [];
+      }
+
+      console.log(`🔗 Fetching following for FID: ${fid}`);
+
+      const response = await fetch(
+        `${NEYNAR_API_BASE}/farcaster/following?fid=${fid}&limit=${limit}`,
+        {
+          headers: {
+            api_key: this.ctx.NEYNAR_API_KEY,
+          },
+        },
+      );
+
+      if (!response.ok) {
+        console.log(`❌ Neynar following API error: ${response.status}`);
+        return [];
+      }
+
+      const data = (await response.json()) as NeynarFollowersResponse;
+
+      const following: FarcasterUser[] = data.users.map((user) => ({
+        fid: user.fid,
+        username: user.username,
+        displayName: user.display_name,
+        avatarUrl: user.pfp_url,
+        verified: user.verified,
+        custodyAddress: user.custody_address,
+        verifiedAddresses: user.verified_addresses?.eth_addresses || [],
+        bio: user.profile?.bio?.text,
+        followerCount: user.follower_count,
+        followingCount: user.following_count,
+      }));
+
+      console.log(`✅ Found ${following.length} following for FID ${fid}`);
+      return following;
+    } catch (error) {
+      console.error("Error fetching user following:", error);
+      return [];
+    }
+  }
+}
@@ -0,0 +1,132 @@
+import type { TransactionReference } from "@xmtp/content-type-transaction-reference";
+import type { CommandDefinition } from "../commands/command-registry.js";
+import type { IntentContent } from "../content-types.js";
+import type { AgentConversation } from "./context.js";
+
+// Farcaster integration types
+export interface FarcasterUser {
+  fid: number;
+  username: string;
+  displayName: string;
+  avatarUrl: string;
+  verified: boolean;
+  custodyAddress: string;
+  verifiedAddresses: string[];
+  bio?: string;
+  followerCount?: number;
+  followingCount?: number;
+}
+
+export interface CoinbaseIdentityResponse {
+  fid: number;
+  username: string;
+  displayName: string;
+  avatarUrl: string;
+}
+
+export interface NeynarUserResponse {
+  users: {
+    fid: number;
+    username: string;
+    display_name: string;
+    pfp_url: string;
+    verified: boolean;
+    custody_address: string;
+    // Not every user has these
+    verified_addresses?: {
+      eth_addresses: string[];
+    };
+    profile?: {
+      bio?: {
+        text: string;
+      };
+    };
+    follower_count: number;
+    following_count: number;
+  }[];
+}
+
+export interface NeynarFollowersResponse {
+  users: {
+    fid: number;
+    username: string;
+    display_name: string;
+    pfp_url: string;
+    verified: boolean;
+    custody_address: string;
+    // Not every user has these
+    verified_addresses?: {
+      eth_addresses: string[];
+    };
+    profile?: {
+      bio?: {
+        text: string;
+      };
+    };
+    follower_count: number;
+    following_count: number;
+  }[];
+  next: {
+    cursor: string;
+  } | null;
+}
+
+// GET /api/user/search/comprehensive (routes/user-search.ts)
+export interface ComprehensiveSearchResponse {
+  success: boolean;
+  results: {
+    username: string;
+    displayName: string;
+    verified: boolean;
+    fkeyId?: string;
+    hasFkey: boolean;
+    source: string;
+    stealthAddress?: string;
+  }[];
+  sources: Record<string, number>;
+}
+
+export interface UserSearchResult {
+  fid: number;
+  username: string;
+  displayName: string;
+  avatarUrl: string;
+  verified: boolean;
+  walletAddress: string;
+  fkeyId?: string;
+  hasFkey: boolean;
+}
+
+/**
+ * A text message that passed the group-chat filters, as seen by plugins
+ */
+export interface AgentTextMessage {
+  content: string;
+  senderInboxId: string;
+  isGroup: boolean;
+  conversation?: AgentConversation;
+  farcasterContext?: FarcasterUser | null;
+}
+
+/**
+ * A feature of the dStealth agent. Every hook is optional; the agent offers
+ * each message to plugins in registration order and the first one to return
+ * a reply (including "" for "handled, actions already sent") wins.
+ */
+export interface AgentPlugin {
+  readonly name: string;
+  // Slash commands, added to the shared registry (and /help) on registration
+  commands?(): CommandDefinition[];
+  // Free-text handling before the general/OpenAI fallback
+  handleText?(message: AgentTextMessage): Promise<string | undefined>;
+  // Action button clicks (coinbase.com/intent)
+  handleIntent?(
+    intent: IntentContent,
+    senderInboxId: string,
+  ): Promise<string | undefined>;
+  handleTransactionReference?(
+    transactionRef: TransactionReference,
+    senderInboxId: string,
+    senderAddress?: string,
+  ): Promise<string | undefined> | string | undefined;
+}
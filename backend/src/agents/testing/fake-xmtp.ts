@@ -0,0 +1,253 @@
+import type { WalletSendCallsParams } from "@xmtp/content-type-wallet-send-calls";
+import { AgentDatabase } from "../../lib/agent-database.js";
+import { MemoryStore } from "../../lib/storage.js";
+import type { ActionsContent, IntentContent } from "../content-types.js";
+import { DStealthAgentProduction } from "../dstealth-agent-production.js";
+import type { AgentContextOptions } from "../plugins/context.js";
+
+/**
+ * In-memory stand-ins for the parts of the XMTP client the agent touches, so
+ * plugins can be driven message → reply without a network or an XMTP DB.
+ *
+ *   const harness = new AgentHarness();
+ *   const alice = harness.client.addUser("alice-inbox", "0xa11ce...");
+ *   const sent = await harness.sendText(harness.client.dm(alice), alice, "hi");
+ */
+
+export const FAKE_AGENT_INBOX_ID = "dstealth-agent-inbox";
+export const FAKE_AGENT_ADDRESS = "0x000000000000000000000000000000000000dEaD";
+
+export interface FakeUser {
+  inboxId: string;
+  address: string;
+}
+
+// The slice of the real client the agent reaches through AgentContext
+type XmtpClient = NonNullable<AgentContextOptions["client"]>;
+
+export interface SentMessage {
+  content: unknown;
+  contentType?: { typeId: string };
+}
+
+interface StoredMessage {
+  id: string;
+  senderInboxId: string;
+  content: unknown;
+  sentAt: Date;
+}
+
+let messageCounter = 0;
+
+export class FakeConversation {
+  readonly sent: SentMessage[] = [];
+  private history: StoredMessage[] = []; // newest first, like conversation.messages()
+
+  constructor(
+    readonly id: string,
+    readonly isGroup: boolean,
+    readonly peerInboxId: string | null,
+  ) {}
+
+  send(content: unknown, contentType?: { typeId: string }): Promise<string> {
+    const id = `sent-${++messageCounter}`;
+    this.sent.push({ content, contentType });
+    this.record({
+      id,
+      senderInboxId: FAKE_AGENT_INBOX_ID,
+      content,
+      sentAt: new Date(),
+    });
+    return Promise.resolve(id);
+  }
+
+  messages(options: { limit?: number } = {}): Promise<StoredMessage[]> {
+    return Promise.resolve(
+      this.history.slice(0, options.limit ?? this.history.length),
+    );
+  }
+
+  record(message: StoredMessage): void {
+    this.history.unshift(message);
+  }
+}
+
+export class FakeXmtpClient {
+  readonly inboxId = FAKE_AGENT_INBOX_ID;
+  private users: Map<string, FakeUser> = new Map();
+  private all: FakeConversation[] = [];
+
+  readonly conversations = {
+    sync: async (): Promise<void> => {},
+    list: (): Promise<FakeConversation[]> => Promise.resolve([...this.all]),
+    getConversationById: (id: string): Promise<FakeConversation | undefined> =>
+      Promise.resolve(this.all.find((conversation) => conversation.id === id)),
+    streamAllMessages: (): Promise<never> =>
+      Promise.reject(
+        new Error("FakeXmtpClient does not stream - use AgentHarness.send*()"),
+      ),
+  };
+
+  readonly preferences = {
+    inboxStateFromInboxIds: (inboxIds: string[]) =>
+      Promise.resolve(
+        inboxIds.map((inboxId) => {
+          const user = this.users.get(inboxId);
+          return {
+            inboxId,
+            identifiers: user
+              ? [{ identifier: user.address, identifierKind: "Ethereum" }]
+              : [],
+          };
+        }),
+      ),
+  };
+
+  addUser(inboxId: string, address: string): FakeUser {
+    const user = { inboxId, address };
+    this.users.set(inboxId, user);
+    return user;
+  }
+
+  // The DM with `user`, created on first use
+  dm(user: FakeUser): FakeConversation {
+    const existing = this.all.find(
+      (conversation) =>
+        !conversation.isGroup && conversation.peerInboxId === user.inboxId,
+    );
+    if (existing) return existing;
+
+    const conversation = new FakeConversation(
+      `dm-${user.inboxId}`,
+      false,
+      user.inboxId,
+    );
+    this.all.push(conversation);
+    return conversation;
+  }
+
+  group(id: string): FakeConversation {
+    const conversation = new FakeConversation(id, true, null);
+    this.all.push(conversation);
+    return conversation;
+  }
+}
+
+/**
+ * A DStealthAgentProduction wired to a FakeXmtpClient and a memory-backed
+ * AgentDatabase. The send* helpers push one inbound message through the
+ * agent's normal routing and return what it sent back.
+ */
+export class AgentHarness {
+  readonly client = new FakeXmtpClient();
+  readonly db = new AgentDatabase(new MemoryStore());
+  readonly agent: DStealthAgentProduction;
+
+  constructor() {
+    this.agent = new DStealthAgentProduction({
+      client: this.client as unknown as XmtpClient,
+      agentAddress: FAKE_AGENT_ADDRESS,
+      db: this.db,
+      isGroupConversation: (conversation) =>
+        conversation instanceof FakeConversation && conversation.isGroup,
+    });
+  }
+
+  async sendText(
+    conversation: FakeConversation,
+    from: FakeUser,
+    text: string,
+  ): Promise<SentMessage[]> {
+    return this.deliver(conversation, from, "text", text);
+  }
+
+  async sendIntent(
+    conversation: FakeConversation,
+    from: FakeUser,
+    intent: IntentContent,
+  ): Promise<SentMessage[]> {
+    return this.deliver(conversation, from, "intent", intent);
+  }
+
+  async sendTransactionReference(
+    conversation: FakeConversation,
+    from: FakeUser,
+    reference: {
+      networkId: string | number;
+      reference: string;
+      metadata?: Record<string, unknown>;
+    },
+  ): Promise<SentMessage[]> {
+    return this.deliver(conversation, from, "transactionReference", reference);
+  }
+
+  /**
+   * Store an fkey.id for `user` the way the agent's lookups expect: by wallet
+   * address (onboarding checks) and by inbox id (payment/Farcaster commands)
+   */
+  async onboardUser(
+    user: FakeUser,
+    fkeyId: string,
+    stealthAddress: string,
+  ): Promise<void> {
+    for (const userId of [user.address.toLowerCase(), user.inboxId]) {
+      await this.db.storeUserStealthData({
+        userId,
+        fkeyId,
+        stealthAddress,
+        zkProof: { claimData: {} },
+        proofVerification: {
+          verified: true,
+          attestors: [],
+          verifiedAt: Date.now(),
+          expiresAt: Date.now() + 86400 * 1000,
+        },
+        lastUpdated: Date.now(),
+        requestedBy: user.inboxId,
+        setupStatus: "fkey_set",
+      });
+    }
+  }
+
+  private async deliver(
+    conversation: FakeConversation,
+    from: FakeUser,
+    typeId: string,
+    content: unknown,
+  ): Promise<SentMessage[]> {
+    const message = {
+      id: `msg-${++messageCounter}`,
+      senderInboxId: from.inboxId,
+      conversationId: conversation.id,
+      contentType: { typeId },
+      content,
+      sentAt: new Date(),
+    };
+    conversation.record(message);
+
+    const before = conversation.sent.length;
+    await this.agent.handleMessage(message, conversation);
+    return conversation.sent.slice(before);
+  }
+}
+
+// Text replies, ignoring reactions and action menus
+export function textReplies(sent: SentMessage[]): string[] {
+  return sent
+    .filter(
+      (message) => !message.contentType && typeof message.content === "string",
+    )
+    .map((message) => message.content as string);
+}
+
+export function walletSendCalls(sent: SentMessage[]): WalletSendCallsParams[] {
+  return sent
+    .filter((message) => message.contentType?.typeId === "walletSendCalls")
+    .map((message) => message.content as WalletSendCallsParams);
+}
+
+export function actionMenus(sent: SentMessage[]): ActionsContent[] {
+  return sent
+    .filter((message) => message.contentType?.typeId === "actions")
+    .map((message) => message.content as ActionsContent);
+}
@@ -18,6 +18,12 @@ const envSchema = z.object({
 
   // X402 Protocol Integration
   X402_JWT_SECRET: z.string().optional(),
+  // Verifies and settles X-PAYMENT headers for paywalled personal-data endpoints
+  X402_FACILITATOR_URL: z
+    .string()
+    .url()
+    .default("https://x402.org/facilitator"),
+  X402_NETWORK: z.enum(["base", "base-sepolia"]).default("base-sepolia"),
 
   // Webhook Configuration
   WEBHOOK_SECRET: z.string().optional(),
@@ -31,6 +37,21 @@ const envSchema = z.object({
     required_error:
       "RECLAIM_APP_SECRET is required. Get it from https://docs.reclaimprotocol.org/",
   }),
+  // Attestors whose fkey.id proofs are trusted (comma-separated addresses)
+  RECLAIM_ATTESTOR_ADDRESSES: z
+    .string()
+    .default("0x244897572368eadf65bfbc5aec98d8e5443a9072"),
+  // A proof must be this fresh when verified, and is trusted this long after
+  RECLAIM_PROOF_MAX_AGE_SECONDS: z.coerce
+    .number()
+    .int()
+    .positive()
+    .default(900),
+  RECLAIM_PROOF_TTL_SECONDS: z.coerce
+    .number()
+    .int()
+    .positive()
+    .default(86400 * 7),
 
   // dStealth Agent Configuration
   OPENAI_API_KEY: z.string().optional(),
@@ -57,9 +78,20 @@ const envSchema = z.object({
   UPSTASH_REDIS_REST_URL: z.string().optional(),
   UPSTASH_REDIS_REST_TOKEN: z.string().optional(),
 
+  // Storage backend: defaults to upstash if configured, then redis, then memory
+  STORAGE_BACKEND: z.enum(["upstash", "redis", "memory"]).optional(),
+  // JSON snapshot file for the in-memory backend (local development)
+  STORAGE_FILE: z.string().optional(),
+
   // Daimo Pay API Configuration
   DAIMO_API_KEY: z.string().optional(),
   DAIMO_API_URL: z.string().url().default("https://api.daimo.com"),
+
+  // Sends ERC-5564 announcements for paid links to ERC-6538 meta-addresses
+  STEALTH_ANNOUNCER_PRIVATE_KEY: z
+    .string()
+    .regex(/^0x[0-9a-fA-F]{64}$/)
+    .optional(),
 });
 
 const env = envSchema.parse(process.env);
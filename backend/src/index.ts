@@ -27,6 +27,8 @@ import webhookRoutes from "./routes/webhooks.js";
 import userStealthDataRoutes from "./routes/user-stealth-data.js";
 import userSearchRoutes from "./routes/user-search.js";
 import frontendUsersRoutes from "./routes/frontend-users.js";
+import personalDataRoutes from "./routes/personal-data.js";
+import { stealthAnnouncementQueue } from "./services/stealth-announcement-queue.js";
 import { stealthMonitor } from "./services/stealth-monitor.js";
 // Import Redis for database status
 import { Redis } from "@upstash/redis";
@@ -381,6 +383,8 @@ console.log("🌐 CORS Configuration:", {
 const corsOptions = {
   origin: allowedOrigins,
   credentials: true,
+  // x402 clients read the settlement from paywalled personal-data endpoints
+  exposedHeaders: ["X-PAYMENT-RESPONSE"],
 };
 app.use(cors(corsOptions));
 
@@ -806,6 +810,8 @@ app.use("/api/webhooks", webhookRoutes);
 app.use("/api/user/stealth-data", userStealthDataRoutes);
 app.use("/api/user/search", userSearchRoutes);
 app.use("/api/frontend-users", frontendUsersRoutes);
+// The frontend proxy calls /personal-data, components call /api/personal-data
+app.use(["/personal-data", "/api/personal-data"], personalDataRoutes);
 
 // Stealth notification endpoints
 app.post("/api/stealth/register", async (req, res) => {
@@ -925,6 +931,91 @@ app.get("/api/stealth/status", async (req, res) => {
   }
 });
 
+// Stealth monitor health: per-chain scan state and per-RPC endpoint health
+app.get("/api/stealth/monitor/status", (req, res) => {
+  res.json({
+    success: true,
+    status: stealthMonitor.getStatus(),
+  });
+});
+
+// Notification ledger: what stealth notifications a user was sent, when and how
+app.get(
+  "/api/stealth/notifications/:userId",
+  validateApiSecret,
+  async (req: Request, res: Response) => {
+    try {
+      const limit = Math.max(parseInt(req.query.limit as string) || 50, 1);
+      const notifications = await stealthMonitor.getNotificationLedger(
+        req.params.userId,
+        limit,
+      );
+
+      res.json({
+        success: true,
+        userId: req.params.userId,
+        count: notifications.length,
+        notifications,
+      });
+    } catch (error) {
+      console.error("Error getting stealth notification ledger:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to get stealth notifications",
+      });
+    }
+  },
+);
+
+// Admin: queue a historical re-scan of a chain's block range
+app.post(
+  "/api/stealth/monitor/backfill",
+  validateApiSecret,
+  async (req: Request, res: Response) => {
+    try {
+      const { chain, fromBlock, toBlock, chunkSize } = req.body;
+
+      const job = await stealthMonitor.startBackfill({
+        chain,
+        fromBlock: Number(fromBlock),
+        toBlock: Number(toBlock),
+        chunkSize: chunkSize ? Number(chunkSize) : undefined,
+      });
+
+      res.status(202).json({ success: true, job });
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to start backfill",
+      });
+    }
+  },
+);
+
+app.get(
+  "/api/stealth/monitor/backfill/:jobId",
+  validateApiSecret,
+  (req: Request, res: Response) => {
+    const job = stealthMonitor.getBackfillJob(req.params.jobId);
+    if (!job) {
+      return res.status(404).json({ success: false, error: "Backfill job not found" });
+    }
+    res.json({ success: true, job });
+  },
+);
+
+app.post(
+  "/api/stealth/monitor/backfill/:jobId/cancel",
+  validateApiSecret,
+  async (req: Request, res: Response) => {
+    const job = await stealthMonitor.cancelBackfill(req.params.jobId);
+    if (!job) {
+      return res.status(404).json({ success: false, error: "Backfill job not found" });
+    }
+    res.json({ success: true, job });
+  },
+);
+
 // Agent settings endpoint - allows agent to access user preferences
 app.get("/api/agent/user-settings/:userInboxId", async (req, res) => {
   try {
@@ -1190,6 +1281,9 @@ void (async () => {
       // Server continues to run without stealth monitoring
     }
 
+    // Announce paid one-time stealth addresses from plain payment links
+    stealthAnnouncementQueue.start();
+
     console.log("✅ Unified database approach - no sync service needed");
   } catch (error) {
     console.error("Failed to start server:", error);
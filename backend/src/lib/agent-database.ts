@@ -1,68 +1,15 @@
-import { Redis } from "@upstash/redis";
-import { env } from "../config/env.js";
-
-// Helper function to validate and get Redis URL
-function getRedisUrl(): string | null {
-  // Check for Upstash Redis URL first (most common for production)
-  if (env.UPSTASH_REDIS_REST_URL && env.UPSTASH_REDIS_REST_URL.trim()) {
-    return env.UPSTASH_REDIS_REST_URL.trim();
-  }
-
-  // Check for standard Redis URL
-  if (env.REDIS_URL && env.REDIS_URL.trim()) {
-    return env.REDIS_URL.trim();
-  }
-
-  // Default to local Redis only if we're in development
-  if (process.env.NODE_ENV !== "production") {
-    return "redis://localhost:6379";
-  }
-
-  // No valid Redis configuration found
-  return null;
-}
-
-// Initialize Redis client with proper Upstash support
-let redis: Redis | null = null;
-let redisAvailable = false;
-
-// Initialize Upstash Redis client
-if (env.UPSTASH_REDIS_REST_URL && env.UPSTASH_REDIS_REST_TOKEN) {
-  try {
-    redis = new Redis({
-      url: env.UPSTASH_REDIS_REST_URL,
-      token: env.UPSTASH_REDIS_REST_TOKEN,
-    });
-
-    redisAvailable = true;
-    console.log("✅ Upstash Redis client initialized");
-  } catch (error) {
-    console.error("❌ Failed to initialize Upstash Redis:", error);
-    redis = null;
-    redisAvailable = false;
-  }
-} else if (
-  env.REDIS_URL &&
-  env.REDIS_URL.trim() &&
-  process.env.NODE_ENV !== "production"
-) {
-  // Fallback to regular Redis for local development
-  console.log("ℹ️ Using local Redis (development mode)");
-  // Keep redis as null for now - can implement ioredis fallback if needed
-} else {
-  console.log("ℹ️ No Redis configuration found - running in memory-only mode");
-  redisAvailable = false;
-}
+import { getStore, type KeyValueStore } from "./storage.js";
+import type { ProofVerification } from "./reclaim-proof-verification.js";
 
 export interface UserStealthData {
   userId: string;
   fkeyId: string;
   stealthAddress: string;
-  zkProof: any;
+  zkProof: unknown;
   lastUpdated: number;
   requestedBy: string; // Agent inbox ID
   network?: string;
-  metadata?: any;
+  metadata?: Record<string, unknown>;
   miniAppRegistered?: boolean; // Track if user completed mini app setup
   setupStatus?:
     | "new"
@@ -70,6 +17,13 @@ export interface UserStealthData {
     | "fkey_set"
     | "miniapp_pending"
     | "complete"; // Setup progress
+  // Self-custodied ERC-6538 registration the user opted into instead of
+  // their fkey.id address
+  stealthMetaAddress?: string; // st:eth:0x...
+  stealthMetaAddressNetwork?: string;
+  stealthMetaAddressLinkedAt?: number;
+  // Server-side check of zkProof; its expiresAt bounds how long we trust it
+  proofVerification?: ProofVerification;
 }
 
 export interface Proxy402Link {
@@ -94,12 +48,19 @@ export interface AgentInteraction {
 export class AgentDatabase {
   private keyPrefix = "dstealth_agent:";
 
-  // Check if Redis is available
+  constructor(private store: KeyValueStore = getStore()) {}
+
+  // True when backed by a shared Redis (Upstash or ioredis) rather than the
+  // process-local store
   isRedisAvailable(): boolean {
-    return redis !== null && redisAvailable;
+    return this.store.backend !== "memory";
   }
 
-  // Create Redis key with prefix
+  getStorageBackend(): KeyValueStore["backend"] {
+    return this.store.backend;
+  }
+
+  // Create storage key with prefix
   private key(suffix: string): string {
     return `${this.keyPrefix}${suffix}`;
   }
@@ -107,29 +68,21 @@ export class AgentDatabase {
   // Store zkfetch proof for user
   async storeUserStealthData(data: UserStealthData): Promise<void> {
     try {
-      if (!redis) {
-        console.log("⚠️ Redis not available - cannot store stealth data");
-        return;
-      }
-
       const userKey = this.key(`stealth:${data.userId.toLowerCase()}`);
       const fkeyKey = this.key(`fkey:${data.fkeyId.toLowerCase()}`);
 
       // 🚨 SECURITY CHECK: Prevent duplicate fkey.id claims
-      const existingFkeyData = await redis.get(fkeyKey);
+      const existingFkeyData = await this.store.get(fkeyKey);
       if (existingFkeyData) {
-        const existing =
-          typeof existingFkeyData === "string"
-            ? JSON.parse(existingFkeyData)
-            : existingFkeyData;
+        const existing = JSON.parse(existingFkeyData);
 
         // If different user is trying to claim same fkey.id, check if they can prove ownership
         if (
           existing.userId &&
           existing.userId.toLowerCase() !== data.userId.toLowerCase()
         ) {
-          // 🔧 ENHANCED: Allow re-claiming if user provides valid zkProof (proves ownership)
-          if (!data.zkProof || !data.zkProof.claimData) {
+          // 🔧 ENHANCED: Allow re-claiming if user provides a verified zkProof (proves ownership)
+          if (!data.zkProof || !data.proofVerification?.verified) {
             console.log(
               `🚫 SECURITY BLOCK: User ${data.userId} tried to claim fkey.id ${data.fkeyId} already owned by ${existing.userId} without valid proof`,
             );
@@ -154,8 +107,8 @@ export class AgentDatabase {
       const recordString = JSON.stringify(stealthRecord);
 
       // Store under both user address and fkey for quick lookup
-      await redis.set(userKey, recordString, { ex: 86400 * 30 }); // 30 days
-      await redis.set(fkeyKey, recordString, { ex: 86400 * 30 }); // 30 days
+      await this.store.set(userKey, recordString, { ex: 86400 * 30 }); // 30 days
+      await this.store.set(fkeyKey, recordString, { ex: 86400 * 30 }); // 30 days
 
       console.log(
         `✅ Stored stealth data for user ${data.userId} and fkey ${data.fkeyId}`,
@@ -169,21 +122,12 @@ export class AgentDatabase {
   // Get stealth data by user address
   async getStealthDataByUser(userId: string): Promise<UserStealthData | null> {
     try {
-      if (!redis) return null;
-
       const userKey = this.key(`stealth:${userId.toLowerCase()}`);
-      const data = await redis.get(userKey);
+      const data = await this.store.get(userKey);
 
-      if (!data || data === null) return null;
-
-      // Handle both string and object responses from Upstash
-      if (typeof data === "string") {
-        return JSON.parse(data);
-      } else if (typeof data === "object") {
-        return data as UserStealthData;
-      }
+      if (!data) return null;
 
-      return null;
+      return JSON.parse(data);
     } catch (error) {
       console.error("❌ Failed to get stealth data by user:", error);
       return null;
@@ -193,8 +137,6 @@ export class AgentDatabase {
   // Get stealth data by Farcaster FID
   async getStealthDataByFID(fid: number): Promise<UserStealthData | null> {
     try {
-      if (!redis) return null;
-
       // Get all stealth data and search for matching FID
       const allData = await this.getAllStealthData();
       
@@ -217,21 +159,12 @@ export class AgentDatabase {
   // Get stealth data by fkey.id
   async getStealthDataByFkey(fkeyId: string): Promise<UserStealthData | null> {
     try {
-      if (!redis) return null;
-
       const fkeyKey = this.key(`fkey:${fkeyId.toLowerCase()}`);
-      const data = await redis.get(fkeyKey);
+      const data = await this.store.get(fkeyKey);
 
-      if (!data || data === null) return null;
-
-      // Handle both string and object responses from Upstash
-      if (typeof data === "string") {
-        return JSON.parse(data);
-      } else if (typeof data === "object") {
-        return data as UserStealthData;
-      }
+      if (!data) return null;
 
-      return null;
+      return JSON.parse(data);
     } catch (error) {
       console.error("❌ Failed to get stealth data by fkey:", error);
       return null;
@@ -244,11 +177,6 @@ export class AgentDatabase {
     links: Proxy402Link[],
   ): Promise<void> {
     try {
-      if (!redis) {
-        console.log("⚠️ Redis not available - cannot store proxy402 links");
-        return;
-      }
-
       const linksKey = this.key(`proxy402_links:${userId.toLowerCase()}`);
       const cacheRecord = {
         links,
@@ -256,7 +184,7 @@ export class AgentDatabase {
         expiresAt: Date.now() + 3600 * 1000, // 1 hour
       };
 
-      await redis.set(linksKey, JSON.stringify(cacheRecord), { ex: 3600 }); // 1 hour cache
+      await this.store.set(linksKey, JSON.stringify(cacheRecord), { ex: 3600 }); // 1 hour cache
       console.log(
         `✅ Cached ${links.length} proxy402 links for user ${userId}`,
       );
@@ -268,27 +196,16 @@ export class AgentDatabase {
   // Get proxy402 links for user
   async getProxy402Links(userId: string): Promise<Proxy402Link[] | null> {
     try {
-      if (!redis) return null;
-
       const linksKey = this.key(`proxy402_links:${userId.toLowerCase()}`);
-      const data = await redis.get(linksKey);
+      const data = await this.store.get(linksKey);
 
-      if (!data || data === null) return null;
+      if (!data) return null;
 
-      let cacheRecord;
-
-      // Handle both string and object responses from Upstash
-      if (typeof data === "string") {
-        cacheRecord = JSON.parse(data);
-      } else if (typeof data === "object") {
-        cacheRecord = data;
-      } else {
-        return null;
-      }
+      const cacheRecord = JSON.parse(data);
 
       // Check if cache is still valid
       if (Date.now() > cacheRecord.expiresAt) {
-        await redis.del(linksKey); // Clean up expired cache
+        await this.store.del(linksKey); // Clean up expired cache
         return null;
       }
 
@@ -307,8 +224,6 @@ export class AgentDatabase {
     data: any,
   ): Promise<void> {
     try {
-      if (!redis) return; // Silently skip if Redis not available
-
       const historyKey = this.key(`history:${agentInboxId}:${userInboxId}`);
       const interaction: AgentInteraction = {
         timestamp: Date.now(),
@@ -318,9 +233,9 @@ export class AgentDatabase {
       };
 
       // Store as list and keep only last 100 interactions
-      await redis.lpush(historyKey, JSON.stringify(interaction));
-      await redis.ltrim(historyKey, 0, 99); // Keep last 100 interactions
-      await redis.expire(historyKey, 86400 * 7); // 7 days expiry
+      await this.store.lpush(historyKey, JSON.stringify(interaction));
+      await this.store.ltrim(historyKey, 0, 99); // Keep last 100 interactions
+      await this.store.expire(historyKey, 86400 * 7); // 7 days expiry
     } catch (error) {
       console.error("❌ Failed to log agent interaction:", error);
       // Don't throw here to prevent breaking the main flow
@@ -334,8 +249,6 @@ export class AgentDatabase {
     metadata: any = {},
   ): Promise<void> {
     try {
-      if (!redis) return; // Silently skip if Redis not available
-
       const interactionKey = this.key(
         `user_interactions:${userId.toLowerCase()}`,
       );
@@ -346,11 +259,11 @@ export class AgentDatabase {
       });
 
       // Store interaction with 30 day expiration
-      await redis.lpush(interactionKey, record);
-      await redis.expire(interactionKey, 86400 * 30); // 30 days
+      await this.store.lpush(interactionKey, record);
+      await this.store.expire(interactionKey, 86400 * 30); // 30 days
 
       // Keep only last 100 interactions per user
-      await redis.ltrim(interactionKey, 0, 99);
+      await this.store.ltrim(interactionKey, 0, 99);
 
       console.log(`✅ Logged user interaction: ${action} for user ${userId}`);
     } catch (error) {
@@ -361,12 +274,10 @@ export class AgentDatabase {
   // Get user interaction count
   async getUserInteractionCount(userId: string): Promise<number> {
     try {
-      if (!redis) return 0;
-
       const interactionKey = this.key(
         `user_interactions:${userId.toLowerCase()}`,
       );
-      const count = await redis.llen(interactionKey);
+      const count = await this.store.llen(interactionKey);
       return count || 0;
     } catch (error) {
       console.error("❌ Failed to get user interaction count:", error);
@@ -381,10 +292,8 @@ export class AgentDatabase {
     limit: number = 10,
   ): Promise<AgentInteraction[]> {
     try {
-      if (!redis) return [];
-
       const historyKey = this.key(`history:${agentInboxId}:${userInboxId}`);
-      const interactions = await redis.lrange(historyKey, 0, limit - 1);
+      const interactions = await this.store.lrange(historyKey, 0, limit - 1);
 
       return interactions
         ? interactions.map((interaction: string) => JSON.parse(interaction))
@@ -398,10 +307,8 @@ export class AgentDatabase {
   // Store user preferences
   async storeUserPreferences(userId: string, preferences: any): Promise<void> {
     try {
-      if (!redis) return;
-
       const prefsKey = this.key(`preferences:${userId.toLowerCase()}`);
-      await redis.set(prefsKey, JSON.stringify(preferences), {
+      await this.store.set(prefsKey, JSON.stringify(preferences), {
         ex: 86400 * 30,
       }); // 30 days
     } catch (error) {
@@ -412,45 +319,32 @@ export class AgentDatabase {
   // Get user preferences
   async getUserPreferences(userId: string): Promise<any | null> {
     try {
-      if (!redis) return null;
-
       const prefsKey = this.key(`preferences:${userId.toLowerCase()}`);
-      const data = await redis.get(prefsKey);
+      const data = await this.store.get(prefsKey);
 
-      if (!data || data === null) return null;
+      if (!data) return null;
 
-      // Handle both string and object responses from Upstash
-      if (typeof data === "string") {
-        return JSON.parse(data);
-      } else if (typeof data === "object") {
-        return data;
-      }
-
-      return null;
+      return JSON.parse(data);
     } catch (error) {
       console.error("❌ Failed to get user preferences:", error);
       return null;
     }
   }
 
-  // Test Redis connection
+  // Test storage connection
   async testConnection(): Promise<boolean> {
     try {
-      if (!redis) {
-        console.log("⚠️ Redis not configured - connection test skipped");
-        return false;
-      }
-
-      const pingResult = await redis.ping();
-      if (pingResult === "PONG") {
-        console.log("✅ Redis connection test successful");
+      if (await this.store.ping()) {
+        console.log(
+          `✅ Storage connection test successful (${this.store.backend})`,
+        );
         return true;
       } else {
-        console.log("⚠️ Redis ping returned unexpected result:", pingResult);
+        console.log(`⚠️ Storage ping failed (${this.store.backend})`);
         return false;
       }
     } catch (error) {
-      console.error("❌ Redis connection test failed:", error);
+      console.error("❌ Storage connection test failed:", error);
       return false;
     }
   }
@@ -458,16 +352,11 @@ export class AgentDatabase {
   // Clear all agent data (for testing/cleanup)
   async clearAgentData(): Promise<void> {
     try {
-      if (!redis) {
-        console.log("⚠️ Redis not available - cannot clear data");
-        return;
-      }
-
       const pattern = this.key("*");
-      const keys = await redis.keys(pattern);
+      const keys = await this.store.keys(pattern);
 
       if (keys && keys.length > 0) {
-        await redis.del(...keys);
+        await this.store.del(...keys);
         console.log(`🧹 Cleared ${keys.length} agent database entries`);
       } else {
         console.log("🧹 No agent data to clear");
@@ -480,13 +369,8 @@ export class AgentDatabase {
   // Get all stealth data for reverse lookup (used by Farcaster integration)
   async getAllStealthData(): Promise<UserStealthData[]> {
     try {
-      if (!redis) {
-        console.log("⚠️ Redis not available - cannot get all stealth data");
-        return [];
-      }
-
       const pattern = this.key("stealth:*");
-      const keys = await redis.keys(pattern);
+      const keys = await this.store.keys(pattern);
 
       if (!keys || keys.length === 0) {
         return [];
@@ -497,20 +381,9 @@ export class AgentDatabase {
       // Get all stealth data records
       for (const key of keys) {
         try {
-          const data = await redis.get(key);
+          const data = await this.store.get(key);
           if (data) {
-            let userData: UserStealthData;
-            
-            // Handle both string and object responses from Upstash
-            if (typeof data === "string") {
-              userData = JSON.parse(data);
-            } else if (typeof data === "object") {
-              userData = data as UserStealthData;
-            } else {
-              continue;
-            }
-
-            allData.push(userData);
+            allData.push(JSON.parse(data));
           }
         } catch (parseError) {
           console.error(`❌ Error parsing stealth data from key ${key}:`, parseError);
@@ -529,21 +402,8 @@ export class AgentDatabase {
   // Get database stats
   async getStats(): Promise<any> {
     try {
-      if (!redis) {
-        return {
-          totalKeys: 0,
-          stealthData: 0,
-          fkeyData: 0,
-          proxy402Cache: 0,
-          interactions: 0,
-          preferences: 0,
-          lastUpdated: new Date().toISOString(),
-          error: "Redis not available",
-        };
-      }
-
       const pattern = this.key("*");
-      const keys = await redis.keys(pattern);
+      const keys = await this.store.keys(pattern);
 
       if (!keys) {
         return {
@@ -559,6 +419,7 @@ export class AgentDatabase {
       }
 
       const stats = {
+        backend: this.store.backend,
         totalKeys: keys.length,
         stealthData: keys.filter((k: string) => k.includes(":stealth:")).length,
         fkeyData: keys.filter((k: string) => k.includes(":fkey:")).length,
@@ -582,22 +443,15 @@ export class AgentDatabase {
   // Get users with stealth notifications enabled
   async getUsersWithStealthNotifications(): Promise<any[]> {
     try {
-      if (!redis) return [];
-
       const pattern = this.key("stealth_user:*");
-      const keys = await redis.keys(pattern);
+      const keys = await this.store.keys(pattern);
       const users = [];
 
       if (keys && keys.length > 0) {
         for (const key of keys) {
-          const userData = await redis.get(key);
+          const userData = await this.store.get(key);
           if (userData) {
-            let user;
-            if (typeof userData === "string") {
-              user = JSON.parse(userData);
-            } else {
-              user = userData;
-            }
+            const user = JSON.parse(userData);
 
             // Only include users with notifications enabled
             if (user.notificationPrefs?.stealthEnabled !== false) {
@@ -620,8 +474,6 @@ export class AgentDatabase {
   // Store/update stealth user data
   async storeStealthUser(userId: string, userData: any): Promise<void> {
     try {
-      if (!redis) return;
-
       const userKey = this.key(`stealth_user:${userId.toLowerCase()}`);
       const record = {
         ...userData,
@@ -629,7 +481,7 @@ export class AgentDatabase {
         lastUpdated: Date.now(),
       };
 
-      await redis.set(userKey, JSON.stringify(record), { ex: 86400 * 30 }); // 30 days
+      await this.store.set(userKey, JSON.stringify(record), { ex: 86400 * 30 }); // 30 days
       console.log(`✅ Stored stealth user data for ${userId}`);
     } catch (error) {
       console.error("❌ Failed to store stealth user:", error);
@@ -642,19 +494,10 @@ export class AgentDatabase {
     timestamp: number,
   ): Promise<void> {
     try {
-      if (!redis) return;
-
       const userKey = this.key(`stealth_user:${userId.toLowerCase()}`);
-      const existingData = await redis.get(userKey);
-
-      let userData = {};
-      if (existingData) {
-        if (typeof existingData === "string") {
-          userData = JSON.parse(existingData);
-        } else {
-          userData = existingData as any;
-        }
-      }
+      const existingData = await this.store.get(userKey);
+
+      const userData = existingData ? JSON.parse(existingData) : {};
 
       const updatedData = {
         ...userData,
@@ -663,7 +506,7 @@ export class AgentDatabase {
         lastUpdated: Date.now(),
       };
 
-      await redis.set(userKey, JSON.stringify(updatedData), { ex: 86400 * 30 }); // 30 days
+      await this.store.set(userKey, JSON.stringify(updatedData), { ex: 86400 * 30 }); // 30 days
     } catch (error) {
       console.error(
         "❌ Failed to update user last stealth notification:",
@@ -672,17 +515,13 @@ export class AgentDatabase {
     }
   }
 
-  // Close Redis connection
+  // Close storage connection
   async close(): Promise<void> {
     try {
-      if (redis) {
-        // Upstash Redis doesn't need explicit connection closing
-        redis = null;
-        redisAvailable = false;
-        console.log("🔌 Redis connection closed");
-      }
+      await this.store.close();
+      console.log(`🔌 Storage connection closed (${this.store.backend})`);
     } catch (error) {
-      console.error("❌ Error closing Redis connection:", error);
+      console.error("❌ Error closing storage connection:", error);
     }
   }
 
@@ -1,4 +1,5 @@
 import { env } from "../config/env";
+import { resolvePaymentAsset, UnsupportedPaymentAssetError, findPaymentChain } from "./payment-tokens";
 
 interface DaimoPaymentRequest {
   destinationAddress: string;
@@ -81,18 +82,9 @@ export class DaimoPayClient {
         },
       );
 
-      // Convert token symbol to address if needed
-      const getTokenAddress = (symbol: string, chainId: string) => {
-        if (chainId === "8453" && symbol === "USDC") {
-          return "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913"; // USDC on Base
-        }
-        return symbol; // Return as-is if already an address or unknown
-      };
-
-      const tokenAddress = getTokenAddress(
-        request.tokenSymbol,
-        request.chainId,
-      );
+      // Convert token symbol to address; throws for unsupported token/chain pairs
+      const asset = resolvePaymentAsset(request.tokenSymbol, request.chainId);
+      const tokenAddress = asset.address ?? "0x0000000000000000000000000000000000000000"; // native
 
       // Clean and prepare metadata - convert objects to strings for Daimo API
       const cleanMetadata: Record<string, string> = {};
@@ -205,15 +197,15 @@ export class DaimoPayClient {
 
 // Helper function to get supported chain ID for Daimo
 export function getDaimoChainId(chainName: string): string {
-  const chainMap: Record<string, string> = {
-    base: "8453",
-    ethereum: "1",
-    optimism: "10",
-    arbitrum: "42161",
-    polygon: "137",
-  };
-
-  return chainMap[chainName.toLowerCase()] || "8453"; // Default to Base
+  const chain = findPaymentChain(chainName);
+  if (!chain) {
+    throw new UnsupportedPaymentAssetError(
+      `Unsupported chain "${chainName}" for Daimo Pay`,
+      "",
+      chainName,
+    );
+  }
+  return String(chain.id);
 }
 
 // Export singleton instance
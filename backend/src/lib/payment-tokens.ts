@@ -0,0 +1,415 @@
+import { getAddress, isAddress, parseUnits, type Address } from "viem";
+
+/**
+ * Tokens and chains the agent can request payments in.
+ *
+ * A payment asset is a (token, chain) pair: USDC lives at a different
+ * contract on every chain, ETH is native on mainnet and the L2s but not on
+ * Polygon. Anything not listed here is rejected with
+ * `UnsupportedPaymentAssetError` rather than silently falling back to USDC on
+ * Base.
+ */
+
+export interface PaymentChain {
+  id: number;
+  key: string; // networkId used in receipts and transaction references
+  name: string;
+  aliases: string[];
+  explorerUrl: string;
+}
+
+export interface PaymentToken {
+  symbol: string;
+  decimals: number;
+  usdPegged: boolean;
+  // chainId -> ERC-20 contract, or "native" for the chain's gas token
+  deployments: Record<number, Address | "native">;
+}
+
+export interface PaymentAsset {
+  token: PaymentToken;
+  chain: PaymentChain;
+  isNative: boolean;
+  address: Address | null; // ERC-20 contract, null for native transfers
+}
+
+export const PAYMENT_CHAINS: PaymentChain[] = [
+  {
+    id: 1,
+    key: "ethereum",
+    name: "Ethereum",
+    aliases: ["mainnet", "eth", "ethereum mainnet", "l1"],
+    explorerUrl: "https://etherscan.io",
+  },
+  {
+    id: 8453,
+    key: "base",
+    name: "Base",
+    aliases: ["base mainnet", "base-mainnet"],
+    explorerUrl: "https://basescan.org",
+  },
+  {
+    id: 10,
+    key: "optimism",
+    name: "Optimism",
+    aliases: ["op", "op mainnet", "op-mainnet"],
+    explorerUrl: "https://optimistic.etherscan.io",
+  },
+  {
+    id: 42161,
+    key: "arbitrum",
+    name: "Arbitrum",
+    aliases: ["arb", "arbitrum one", "arbitrum-one"],
+    explorerUrl: "https://arbiscan.io",
+  },
+  {
+    id: 137,
+    key: "polygon",
+    name: "Polygon",
+    aliases: ["matic", "polygon pos"],
+    explorerUrl: "https://polygonscan.com",
+  },
+];
+
+export const PAYMENT_TOKENS: PaymentToken[] = [
+  {
+    symbol: "USDC",
+    decimals: 6,
+    usdPegged: true,
+    deployments: {
+      1: "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48",
+      8453: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
+      10: "0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85",
+      42161: "0xaf88d065e77c8cC2239327C5EDb3A432268e5831",
+      137: "0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359",
+    },
+  },
+  {
+    symbol: "ETH",
+    decimals: 18,
+    usdPegged: false,
+    deployments: {
+      1: "native",
+      8453: "native",
+      10: "native",
+      42161: "native",
+    },
+  },
+];
+
+export const DEFAULT_PAYMENT_TOKEN = "USDC";
+export const DEFAULT_PAYMENT_CHAIN = "base";
+
+export class UnsupportedPaymentAssetError extends Error {
+  constructor(
+    message: string,
+    public tokenSymbol: string,
+    public chain: string,
+  ) {
+    super(message);
+    this.name = "UnsupportedPaymentAssetError";
+  }
+}
+
+function normalize(name: string): string {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/[\s_]+/g, " ");
+}
+
+export function findPaymentChain(
+  nameOrId: string | number,
+): PaymentChain | undefined {
+  if (typeof nameOrId === "number" || /^\d+$/.test(String(nameOrId).trim())) {
+    const id = Number(nameOrId);
+    return PAYMENT_CHAINS.find((chain) => chain.id === id);
+  }
+  const name = normalize(nameOrId);
+  return PAYMENT_CHAINS.find(
+    (chain) => chain.key === name || chain.aliases.includes(name),
+  );
+}
+
+export function findPaymentToken(symbol: string): PaymentToken | undefined {
+  const wanted = symbol.trim().toUpperCase();
+  return PAYMENT_TOKENS.find((token) => token.symbol === wanted);
+}
+
+/**
+ * Resolve a (token, chain) pair, throwing UnsupportedPaymentAssetError with a
+ * user-facing message when either side is unknown or the token isn't
+ * deployed on that chain.
+ */
+export function resolvePaymentAsset(
+  tokenSymbol: string = DEFAULT_PAYMENT_TOKEN,
+  chainName: string | number = DEFAULT_PAYMENT_CHAIN,
+): PaymentAsset {
+  const chain = findPaymentChain(chainName);
+  if (!chain) {
+    throw new UnsupportedPaymentAssetError(
+      `Unsupported chain "${chainName}". Supported chains: ${PAYMENT_CHAINS.map((c) => c.name).join(", ")}`,
+      tokenSymbol,
+      String(chainName),
+    );
+  }
+
+  const token = findPaymentToken(tokenSymbol);
+  if (!token) {
+    throw new UnsupportedPaymentAssetError(
+      `Unsupported token "${tokenSymbol}". Supported tokens: ${PAYMENT_TOKENS.map((t) => t.symbol).join(", ")}`,
+      tokenSymbol,
+      chain.key,
+    );
+  }
+
+  const deployment = token.deployments[chain.id];
+  if (!deployment) {
+    const available = supportedChainsFor(token)
+      .map((c) => c.name)
+      .join(", ");
+    throw new UnsupportedPaymentAssetError(
+      `${token.symbol} is not supported on ${chain.name}. ${token.symbol} is available on: ${available}`,
+      token.symbol,
+      chain.key,
+    );
+  }
+
+  return {
+    token,
+    chain,
+    isNative: deployment === "native",
+    address: deployment === "native" ? null : getAddress(deployment),
+  };
+}
+
+export function supportedChainsFor(token: PaymentToken): PaymentChain[] {
+  return PAYMENT_CHAINS.filter((chain) => token.deployments[chain.id]);
+}
+
+// "USDC: Ethereum, Base, …" lines for help and error messages
+export function describeSupportedAssets(): string {
+  return PAYMENT_TOKENS.map(
+    (token) =>
+      `• ${token.symbol}: ${supportedChainsFor(token)
+        .map((c) => c.name)
+        .join(", ")}`,
+  ).join("\n");
+}
+
+/**
+ * Convert a decimal amount to the token's smallest unit. Rejects amounts with
+ * more fractional digits than the token has instead of rounding them away.
+ */
+export function toBaseUnits(amount: string, asset: PaymentAsset): bigint {
+  const trimmed = amount.trim();
+  if (!/^\d+(\.\d+)?$/.test(trimmed)) {
+    throw new Error(`Invalid amount "${amount}"`);
+  }
+  const fraction = trimmed.split(".")[1] ?? "";
+  if (fraction.length > asset.token.decimals) {
+    throw new Error(
+      `${asset.token.symbol} supports at most ${asset.token.decimals} decimal places`,
+    );
+  }
+  return parseUnits(trimmed, asset.token.decimals);
+}
+
+/**
+ * EIP-681 payment URI. Native transfers use `value`, ERC-20 transfers call
+ * `transfer(address,uint256)` on the token contract.
+ */
+export function buildEip681Uri(
+  asset: PaymentAsset,
+  to: string,
+  amount: string,
+): string {
+  const units = toBaseUnits(amount, asset);
+  if (!isAddress(to, { strict: false })) {
+    throw new Error(`Invalid recipient address "${to}"`);
+  }
+  const recipient = to;
+  if (asset.isNative) {
+    return `ethereum:${recipient}@${asset.chain.id}?value=${units}`;
+  }
+  return `ethereum:${asset.address}@${asset.chain.id}/transfer?address=${recipient}&uint256=${units}`;
+}
+
+// Coinbase Wallet pay-request deep link wrapping an EIP-681 URI
+export function buildCoinbaseWalletRequestLink(
+  asset: PaymentAsset,
+  to: string,
+  amount: string,
+): string {
+  return `https://go.cb-w.com/pay-request?EIP681Link=${encodeURIComponent(buildEip681Uri(asset, to, amount))}`;
+}
+
+// "$25 USDC on Base" / "0.01 ETH on Ethereum"
+export function formatPaymentAmount(
+  amount: string,
+  asset: PaymentAsset,
+): string {
+  const prefix = asset.token.usdPegged ? "$" : "";
+  return `${prefix}${amount} ${asset.token.symbol} on ${asset.chain.name}`;
+}
+
+export function getExplorerTxUrl(
+  chainNameOrId: string | number,
+  txHash: string,
+): string {
+  const chain =
+    findPaymentChain(chainNameOrId) ?? findPaymentChain(DEFAULT_PAYMENT_CHAIN)!;
+  return `${chain.explorerUrl}/tx/${txHash}`;
+}
+
+export interface ParsedPaymentRequest {
+  amount: string;
+  tokenSymbol: string;
+  chain: string;
+}
+
+const AMOUNT = String.raw`(\d+(?:\.\d+)?)`;
+const CHAIN = String.raw`(?:\s+on\s+([a-z][a-z0-9-]*(?:\s+(?:mainnet|one|pos|sepolia))?))?`;
+
+// Tickers people ask for that we don't support yet: naming one gets an
+// "Unsupported token" reply instead of a USDC link
+const OTHER_TICKERS = [
+  "DAI",
+  "USDT",
+  "EURC",
+  "WETH",
+  "WBTC",
+  "BTC",
+  "MATIC",
+  "POL",
+  "SOL",
+  "OP",
+  "ARB",
+  "DEGEN",
+];
+
+// Words that mean dollars, i.e. USDC
+const USD_WORDS = ["usd", "dollar", "dollars", "bucks"];
+
+// The token a word after an amount names, or undefined for any other word
+function tickerFor(word: string): string | undefined {
+  if (USD_WORDS.includes(word.toLowerCase())) return DEFAULT_PAYMENT_TOKEN;
+  const symbol = word.toUpperCase();
+  return findPaymentToken(symbol) || OTHER_TICKERS.includes(symbol)
+    ? symbol
+    : undefined;
+}
+
+/**
+ * Pull an amount, token and chain out of a chat message:
+ *
+ *   "create payment link for $25"  -> 25 USDC on base
+ *   "request 0.01 ETH on mainnet"  -> 0.01 ETH on ethereum
+ *   "50 USDC on Optimism"          -> 50 USDC on optimism
+ *
+ * When a known ticker is named, the token and chain are returned as typed so
+ * that resolvePaymentAsset can tell the user what isn't supported. Any other
+ * word after the amount ("$25 for coffee") is not a token: dollar amounts
+ * keep the old behaviour and only pick up a chain we know about.
+ */
+export function parsePaymentRequest(
+  content: string,
+): ParsedPaymentRequest | null {
+  // "request 10 DAI on base", "payment link for 0.5 eth": a ticker after a request verb
+  const explicit = content.match(
+    new RegExp(
+      String.raw`\b(?:request|payment\s+link\s+for|link\s+for)\s+\$?${AMOUNT}\s*([a-z]{2,10})\b${CHAIN}`,
+      "i",
+    ),
+  );
+  const explicitToken = explicit && tickerFor(explicit[2]);
+  if (explicitToken) {
+    return {
+      amount: explicit[1],
+      tokenSymbol: explicitToken,
+      chain: explicit[3]?.toLowerCase() ?? DEFAULT_PAYMENT_CHAIN,
+    };
+  }
+
+  // "50 USDC on Optimism": bare amounts only count with a supported token
+  const symbols = PAYMENT_TOKENS.map((token) => token.symbol).join("|");
+  const bare = content.match(
+    new RegExp(String.raw`\$?${AMOUNT}\s*(${symbols})\b${CHAIN}`, "i"),
+  );
+  if (bare) {
+    return {
+      amount: bare[1],
+      tokenSymbol: bare[2].toUpperCase(),
+      chain: bare[3]?.toLowerCase() ?? DEFAULT_PAYMENT_CHAIN,
+    };
+  }
+
+  // Dollar amounts are USDC requests
+  const dollars = content.match(
+    new RegExp(String.raw`\$${AMOUNT}${CHAIN}`, "i"),
+  );
+  if (dollars) {
+    const chain =
+      dollars[2] && findPaymentChain(dollars[2])
+        ? dollars[2].toLowerCase()
+        : DEFAULT_PAYMENT_CHAIN;
+    return { amount: dollars[1], tokenSymbol: DEFAULT_PAYMENT_TOKEN, chain };
+  }
+
+  return null;
+}
+
+export interface ParsedSplitPayment {
+  recipients: { fkeyId: string; amount: string }[];
+  tokenSymbol: string;
+  chain: string;
+}
+
+export const MAX_SPLIT_RECIPIENTS = 10;
+
+/**
+ * Parse a split payment: comma-separated "<fkey.id> <amount>" pairs, with an
+ * optional token and chain on any pair (they must all agree):
+ *
+ *   "alice.fkey.id 10, bob.fkey.id 5"      -> 10 + 5 USDC on base
+ *   "alice 0.01, bob 0.02 ETH on optimism" -> 0.01 + 0.02 ETH on optimism
+ *
+ * Returns null when any pair doesn't parse; throws when pairs name different
+ * tokens or chains, or the same recipient twice.
+ */
+export function parseSplitPayment(content: string): ParsedSplitPayment | null {
+  const pair = new RegExp(
+    String.raw`^@?([a-z0-9_-]+)(?:\.fkey\.id)?\s+\$?${AMOUNT}(?:\s*([a-z]{2,10}))?${CHAIN}$`,
+    "i",
+  );
+
+  const parts = content.split(",").map((part) => part.trim());
+  const recipients: ParsedSplitPayment["recipients"] = [];
+  const tokens = new Set<string>();
+  const chains = new Set<string>();
+
+  for (const part of parts) {
+    const match = part.match(pair);
+    if (!match || match[3]?.toLowerCase() === "on") return null;
+
+    const fkeyId = match[1].toLowerCase();
+    if (recipients.some((recipient) => recipient.fkeyId === fkeyId)) {
+      throw new Error(`${fkeyId}.fkey.id is listed more than once`);
+    }
+    recipients.push({ fkeyId, amount: match[2] });
+    if (match[3]) tokens.add(match[3].toUpperCase());
+    if (match[4]) chains.add(match[4].toLowerCase());
+  }
+
+  if (tokens.size > 1 || chains.size > 1) {
+    throw new Error(
+      "All recipients of a split payment must use the same token and chain",
+    );
+  }
+
+  return {
+    recipients,
+    tokenSymbol: [...tokens][0] ?? DEFAULT_PAYMENT_TOKEN,
+    chain: [...chains][0] ?? DEFAULT_PAYMENT_CHAIN,
+  };
+}
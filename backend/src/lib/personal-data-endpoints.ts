@@ -0,0 +1,544 @@
+import { randomBytes } from "node:crypto";
+import { lookup, type LookupAddress, type LookupOptions } from "node:dns";
+import http from "node:http";
+import https from "node:https";
+import { BlockList, isIP } from "node:net";
+import { getAddress, isAddress, size, verifyMessage, type Hex } from "viem";
+import { env } from "../config/env";
+import { getStealthRpcPool } from "./stealth-chains";
+import { getStore, type KeyValueStore } from "./storage";
+import {
+  buildUsdcRequirements,
+  decodePaymentHeader,
+  encodePaymentResponseHeader,
+  getFacilitator,
+  paymentRequiredBody,
+  type Facilitator,
+} from "./x402";
+
+/**
+ * Personal-data endpoints: an owner registers a resource URL under an
+ * `/api/...` path and buyers pay per request with x402. Each request is
+ * verified with the facilitator, proxied to the resource, and only settled
+ * once the resource answered, so a failing upstream never charges anyone.
+ */
+
+const KEY_PREFIX = "personal-data:";
+const MAX_PRICE_USD = 10_000;
+const MAX_DESCRIPTION_LENGTH = 500;
+const MAX_RESOURCE_BYTES = 5 * 1024 * 1024;
+const UPSTREAM_TIMEOUT_MS = 30_000;
+const SIGNATURE_MAX_AGE_MS = 10 * 60 * 1000;
+const ENDPOINT_PATH_PATTERN = /^\/api(\/[A-Za-z0-9_-]+)+$/;
+
+export interface EndpointRequest {
+  resourceUrl: string; // URL of the resource to protect
+  endpointPath?: string; // Path where the endpoint will be accessible
+  price: number; // Price in USD for x402 payment
+  description: string;
+  owner: string; // Ethereum address of the endpoint owner (receives payments)
+  requiresZkfetch?: boolean; // Attach a zkfetch proof of the upstream response
+}
+
+// Proof that the owner asked for the endpoint, see endpointRegistrationMessage
+export interface OwnerSignature {
+  signature: string;
+  issuedAt: string; // ISO timestamp
+}
+
+export interface PersonalDataEndpoint {
+  endpointId: string;
+  resourceUrl: string;
+  endpointPath: string;
+  price: number;
+  description: string;
+  owner: string;
+  requiresZkfetch: boolean;
+  createdAt: number;
+}
+
+export class EndpointValidationError extends Error {
+  constructor(
+    message: string,
+    readonly status = 400,
+  ) {
+    super(message);
+    this.name = "EndpointValidationError";
+  }
+}
+
+// Everything that isn't the public internet. IPv4 ranges also match their
+// IPv4-mapped IPv6 forms (::ffff:7f00:1)
+const PRIVATE_RANGES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10], // carrier-grade NAT
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 3], // multicast and reserved
+] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 127], // unspecified and loopback
+  ["64:ff9b::", 96], // NAT64
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, "ipv6");
+}
+
+function isPrivateAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) return false;
+  return PRIVATE_RANGES.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+// Local names and private literals; other hostnames are checked when they
+// are resolved, see publicOnlyLookup
+function isPrivateHost(hostname: string): boolean {
+  const host = hostname.replace(/^\[|\]$/g, "").toLowerCase();
+  return (
+    host === "localhost" ||
+    host.endsWith(".localhost") ||
+    host.endsWith(".local") ||
+    isPrivateAddress(host)
+  );
+}
+
+/**
+ * dns.lookup that fails when any address a hostname resolves to is private.
+ * Used for every upstream connection, so a hostname that was public at
+ * registration can't later be re-pointed (DNS rebinding) at internal services.
+ */
+export function publicOnlyLookup(
+  hostname: string,
+  options: LookupOptions,
+  callback: (
+    error: NodeJS.ErrnoException | null,
+    address: string | LookupAddress[],
+    family?: number,
+  ) => void,
+): void {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, []);
+      return;
+    }
+    const blocked = addresses.find(({ address }) => isPrivateAddress(address));
+    if (blocked) {
+      callback(
+        new Error(`${hostname} resolves to private address ${blocked.address}`),
+        [],
+      );
+    } else if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+}
+
+/**
+ * Resolve and check a resource URL. Relative paths are resources on the
+ * frontend (e.g. `/api/address/0x.../stealth`); other URLs must be public
+ * http(s) so the proxy can't be pointed at internal services.
+ */
+export function normalizeResourceUrl(resourceUrl: string): string {
+  const frontend = new URL(env.FRONTEND_URL);
+  let url: URL;
+  try {
+    url = new URL(resourceUrl, frontend);
+  } catch {
+    throw new EndpointValidationError(`Invalid resource URL: ${resourceUrl}`);
+  }
+
+  if (url.origin === frontend.origin) return url.toString();
+  if (url.protocol !== "https:" && url.protocol !== "http:") {
+    throw new EndpointValidationError("Resource URL must be http(s)");
+  }
+  if (isPrivateHost(url.hostname)) {
+    throw new EndpointValidationError(
+      "Resource URL must point at a public host",
+    );
+  }
+  return url.toString();
+}
+
+/**
+ * The EIP-191 message an owner signs to register an endpoint, over the
+ * resource URL exactly as sent. The frontend builds the same text in
+ * lib/personal-data-endpoints.ts.
+ */
+export function endpointRegistrationMessage(params: {
+  owner: string;
+  resourceUrl: string;
+  price: number;
+  issuedAt: string;
+}): string {
+  return [
+    "Register a paid x402 endpoint on dStealth",
+    "",
+    `Owner: ${getAddress(params.owner)}`,
+    `Resource: ${params.resourceUrl}`,
+    `Price: ${params.price} USD`,
+    `Issued At: ${params.issuedAt}`,
+  ].join("\n");
+}
+
+/**
+ * Check that the owner signed this registration in the last few minutes.
+ * EOA signatures are recovered locally; longer ERC-1271/6492 smart wallet
+ * signatures are checked on Base.
+ */
+export async function verifyOwnerSignature(
+  body: Partial<EndpointRequest & OwnerSignature> & { url?: string },
+): Promise<void> {
+  const resourceUrl = body.resourceUrl || body.url;
+  const { owner, signature, issuedAt } = body;
+  if (
+    !owner ||
+    !isAddress(owner, { strict: false }) ||
+    !resourceUrl ||
+    !signature?.startsWith("0x") ||
+    !issuedAt
+  ) {
+    throw new EndpointValidationError(
+      "owner, signature and issuedAt are required to register an endpoint",
+      401,
+    );
+  }
+
+  const age = Date.now() - Date.parse(issuedAt);
+  if (!(age >= -60_000 && age <= SIGNATURE_MAX_AGE_MS)) {
+    throw new EndpointValidationError(
+      "Registration signature expired, please sign again",
+      401,
+    );
+  }
+
+  const params = {
+    address: getAddress(owner),
+    message: endpointRegistrationMessage({
+      owner,
+      resourceUrl,
+      price: Number(body.price),
+      issuedAt,
+    }),
+    signature: signature as Hex,
+  };
+  const valid =
+    (await verifyMessage(params).catch(() => false)) ||
+    (size(params.signature) !== 65 &&
+      (await getStealthRpcPool("base")
+        .request((client) => client.verifyMessage(params))
+        .catch(() => false)));
+  if (!valid) {
+    throw new EndpointValidationError(
+      "Signature does not match the endpoint owner",
+      401,
+    );
+  }
+}
+
+// Accepts the frontend's `url` field as an alias for `resourceUrl`
+export function validateEndpointRequest(
+  body: Partial<EndpointRequest> & { url?: string },
+): Required<EndpointRequest> {
+  const resourceUrl = body.resourceUrl || body.url;
+  const description = body.description?.trim();
+  const price = Number(body.price);
+
+  if (!resourceUrl || !description || !body.owner) {
+    throw new EndpointValidationError(
+      "resourceUrl, price, description and owner are required",
+    );
+  }
+  if (!isAddress(body.owner, { strict: false })) {
+    throw new EndpointValidationError(
+      "owner must be the Ethereum address that receives payments",
+    );
+  }
+  if (!Number.isFinite(price) || price <= 0 || price > MAX_PRICE_USD) {
+    throw new EndpointValidationError(
+      `price must be between 0 and ${MAX_PRICE_USD} USD`,
+    );
+  }
+  if (description.length > MAX_DESCRIPTION_LENGTH) {
+    throw new EndpointValidationError(
+      `description must be at most ${MAX_DESCRIPTION_LENGTH} characters`,
+    );
+  }
+
+  const owner = getAddress(body.owner);
+  const endpointPath =
+    body.endpointPath ||
+    `/api/${owner.slice(2, 10).toLowerCase()}/${randomBytes(4).toString("hex")}`;
+  if (!ENDPOINT_PATH_PATTERN.test(endpointPath) || endpointPath.length > 128) {
+    throw new EndpointValidationError(
+      "Endpoint path must start with /api/ and contain only letters, digits, - and _",
+    );
+  }
+
+  return {
+    resourceUrl: normalizeResourceUrl(resourceUrl),
+    endpointPath,
+    price,
+    description,
+    owner,
+    requiresZkfetch: !!body.requiresZkfetch,
+  };
+}
+
+export class PersonalDataEndpointRegistry {
+  constructor(private store: KeyValueStore = getStore()) {}
+
+  private endpointKey(endpointPath: string): string {
+    return `${KEY_PREFIX}endpoint:${endpointPath.toLowerCase()}`;
+  }
+
+  private ownerKey(owner: string): string {
+    return `${KEY_PREFIX}owner:${owner.toLowerCase()}`;
+  }
+
+  async register(
+    body: Partial<EndpointRequest> & { url?: string },
+  ): Promise<PersonalDataEndpoint> {
+    const request = validateEndpointRequest(body);
+    const endpoint: PersonalDataEndpoint = {
+      ...request,
+      endpointId: `pde_${Date.now()}_${randomBytes(4).toString("hex")}`,
+      createdAt: Date.now(),
+    };
+
+    // Paths are first come, first served
+    const created = await this.store.set(
+      this.endpointKey(endpoint.endpointPath),
+      JSON.stringify(endpoint),
+      { nx: true },
+    );
+    if (!created) {
+      throw new EndpointValidationError(
+        `${endpoint.endpointPath} is already registered`,
+        409,
+      );
+    }
+
+    await this.store.lpush(`${KEY_PREFIX}endpoints`, endpoint.endpointPath);
+    await this.store.lpush(
+      this.ownerKey(endpoint.owner),
+      endpoint.endpointPath,
+    );
+    return endpoint;
+  }
+
+  async getByPath(endpointPath: string): Promise<PersonalDataEndpoint | null> {
+    const data = await this.store.get(this.endpointKey(endpointPath));
+    return data ? (JSON.parse(data) as PersonalDataEndpoint) : null;
+  }
+
+  async list(): Promise<PersonalDataEndpoint[]> {
+    return this.load(await this.store.lrange(`${KEY_PREFIX}endpoints`, 0, -1));
+  }
+
+  async listByOwner(owner: string): Promise<PersonalDataEndpoint[]> {
+    return this.load(await this.store.lrange(this.ownerKey(owner), 0, -1));
+  }
+
+  private async load(paths: string[]): Promise<PersonalDataEndpoint[]> {
+    const endpoints = await Promise.all(
+      paths.map((path) => this.getByPath(path)),
+    );
+    return endpoints.filter(
+      (endpoint): endpoint is PersonalDataEndpoint => !!endpoint,
+    );
+  }
+}
+
+export interface UpstreamResponse {
+  status: number;
+  contentType: string;
+  body: Buffer;
+}
+
+export interface PaidRequestDeps {
+  facilitator?: Facilitator;
+  fetchResource?: (url: string) => Promise<UpstreamResponse>;
+  zkFetch?: (url: string) => Promise<unknown>;
+}
+
+export interface PaidRequestResult {
+  status: number;
+  headers: Record<string, string>;
+  body: Buffer | object;
+}
+
+// Redirects aren't followed (a 3xx fails like any other non-2xx), since
+// they could lead to a private host
+async function fetchResource(url: string): Promise<UpstreamResponse> {
+  const target = new URL(url);
+  // Frontend resources are ours; everything else must resolve publicly
+  const isFrontend = target.origin === new URL(env.FRONTEND_URL).origin;
+  if (!isFrontend && isPrivateHost(target.hostname)) {
+    throw new Error(`${target.hostname} is not a public host`);
+  }
+
+  const request = target.protocol === "https:" ? https.request : http.request;
+  return new Promise((resolve, reject) => {
+    const req = request(
+      target,
+      {
+        headers: { "User-Agent": "dstealth-x402-proxy/1.0" },
+        lookup: isFrontend ? undefined : publicOnlyLookup,
+        signal: AbortSignal.timeout(UPSTREAM_TIMEOUT_MS),
+      },
+      (res) => {
+        const chunks: Buffer[] = [];
+        let received = 0;
+        res.on("data", (chunk: Buffer) => {
+          received += chunk.length;
+          if (received > MAX_RESOURCE_BYTES) {
+            req.destroy(
+              new Error(`Resource is larger than ${MAX_RESOURCE_BYTES} bytes`),
+            );
+            return;
+          }
+          chunks.push(chunk);
+        });
+        res.on("end", () => {
+          resolve({
+            status: res.statusCode ?? 502,
+            contentType:
+              res.headers["content-type"] || "application/octet-stream",
+            body: Buffer.concat(chunks),
+          });
+        });
+        res.on("error", reject);
+      },
+    );
+    req.on("error", reject);
+    req.end();
+  });
+}
+
+// Loaded on first use so endpoints without zkfetch don't need the SDK
+async function zkFetchProof(url: string): Promise<unknown> {
+  const { ReclaimClient } = await import("@reclaimprotocol/zk-fetch");
+  const client = new ReclaimClient(env.RECLAIM_APP_ID, env.RECLAIM_APP_SECRET);
+  return client.zkFetch(
+    url,
+    { method: "GET" },
+    { responseMatches: [{ type: "regex", value: "[\\s\\S]+" }] },
+  );
+}
+
+/**
+ * Serve one paid request for `endpoint`. `resource` is the public URL the
+ * buyer called, echoed in the payment requirements.
+ */
+export async function servePaidRequest(
+  endpoint: PersonalDataEndpoint,
+  paymentHeader: string | undefined,
+  resource: string,
+  deps: PaidRequestDeps = {},
+): Promise<PaidRequestResult> {
+  const facilitator = deps.facilitator ?? getFacilitator();
+  const accepts = [
+    buildUsdcRequirements({
+      network: env.X402_NETWORK,
+      priceUsd: endpoint.price,
+      payTo: endpoint.owner,
+      resource,
+      description: endpoint.description,
+    }),
+  ];
+  const requirements = accepts[0];
+  const paymentRequired = (error: string): PaidRequestResult => ({
+    status: 402,
+    headers: {},
+    body: paymentRequiredBody(accepts, error),
+  });
+
+  if (!paymentHeader) return paymentRequired("X-PAYMENT header is required");
+  const payment = decodePaymentHeader(paymentHeader);
+  if (!payment) return paymentRequired("invalid_payload");
+  if (payment.scheme !== "exact" || payment.network !== requirements.network) {
+    return paymentRequired("invalid_network");
+  }
+
+  const verification = await facilitator.verify(payment, requirements);
+  if (!verification.isValid) {
+    return paymentRequired(verification.invalidReason || "invalid_payload");
+  }
+
+  let upstream: UpstreamResponse;
+  let zkProof: unknown;
+  try {
+    [upstream, zkProof] = await Promise.all([
+      (deps.fetchResource ?? fetchResource)(endpoint.resourceUrl),
+      endpoint.requiresZkfetch
+        ? (deps.zkFetch ?? zkFetchProof)(endpoint.resourceUrl)
+        : undefined,
+    ]);
+  } catch (error) {
+    console.error(`❌ Upstream for ${endpoint.endpointPath} failed:`, error);
+    return {
+      status: 502,
+      headers: {},
+      body: {
+        success: false,
+        error: "Resource unavailable, payment was not settled",
+      },
+    };
+  }
+  if (upstream.status < 200 || upstream.status >= 300) {
+    return {
+      status: 502,
+      headers: {},
+      body: {
+        success: false,
+        error: `Resource returned HTTP ${upstream.status}, payment was not settled`,
+      },
+    };
+  }
+
+  const settlement = await facilitator.settle(payment, requirements);
+  if (!settlement.success) {
+    return paymentRequired(settlement.errorReason || "settlement_failed");
+  }
+
+  const headers = {
+    "X-PAYMENT-RESPONSE": encodePaymentResponseHeader(settlement),
+  };
+  if (!endpoint.requiresZkfetch) {
+    return {
+      status: 200,
+      headers: { ...headers, "Content-Type": upstream.contentType },
+      body: upstream.body,
+    };
+  }
+
+  // Proofs are too large for a header, so zkfetch responses are wrapped
+  const text = upstream.body.toString("utf-8");
+  let data: unknown = text;
+  if (upstream.contentType.includes("json")) {
+    try {
+      data = JSON.parse(text);
+    } catch {
+      // keep the raw text
+    }
+  }
+  return {
+    status: 200,
+    headers,
+    body: { success: true, contentType: upstream.contentType, data, zkProof },
+  };
+}
+
+export const personalDataEndpoints = new PersonalDataEndpointRegistry();
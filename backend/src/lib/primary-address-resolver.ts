@@ -10,7 +10,7 @@ import { agentDb } from './agent-database.js';
 export interface PrimaryAddressResult {
   primaryAddress: string;
   source: 'xmtp_inbox' | 'farcaster_custody' | 'farcaster_verified' | 'connected_wallet';
-  metadata?: any;
+  metadata?: Record<string, unknown>;
 }
 
 /**
@@ -0,0 +1,305 @@
+import {
+  isAddress,
+  isHex,
+  keccak256,
+  recoverMessageAddress,
+  toBytes,
+} from "viem";
+import { env } from "../config/env";
+
+/**
+ * Server-side checks for the Reclaim zkfetch proofs behind an fkey.id
+ * lookup, mirroring `verifyProof` from the Reclaim SDK: the claim must be
+ * signed by a trusted attestor, be about `https://<fkeyId>.fkey.id` with the
+ * address regex, and be fresh. The agent only stores what passes, together
+ * with when the verification stops counting.
+ */
+
+// Regex the lookup route asks the attestor to match on the fkey.id page; the
+// named group makes the attestor report the address in extractedParameters
+export const FKEY_ADDRESS_REGEX = "(?<address>0x[a-fA-F0-9]{40})";
+
+// Tolerated clock drift between us and the attestor
+const CLOCK_SKEW_SECONDS = 60;
+
+export interface ReclaimClaimData {
+  provider: string;
+  parameters: string; // JSON, including url and responseMatches
+  owner: string;
+  timestampS: number;
+  context?: string; // JSON, including extractedParameters
+  identifier: string;
+  epoch: number;
+}
+
+export interface ReclaimProof {
+  identifier?: string;
+  claimData: ReclaimClaimData;
+  signatures: string[];
+  witnesses?: { id: string; url: string }[];
+}
+
+export interface ProofVerification {
+  verified: boolean;
+  reason?: string; // why verification failed
+  attestors: string[]; // trusted attestors that signed the claim
+  claimedAt?: number; // when the attestor saw the page (ms)
+  verifiedAt: number;
+  expiresAt?: number; // stop trusting the stored proof after this (ms)
+}
+
+export interface ProofVerificationOptions {
+  now?: number;
+  trustedAttestors?: string[];
+  maxAgeSeconds?: number;
+  ttlSeconds?: number;
+}
+
+// RFC 8785-style canonical JSON: the Reclaim SDK hashes context this way
+function canonicalize(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalize).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries
+      .map(([k, v]) => `${JSON.stringify(k)}:${canonicalize(v)}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+// Claim identifier: keccak256 of provider, parameters and canonical context
+export function getClaimIdentifier(
+  claim: Pick<ReclaimClaimData, "provider" | "parameters" | "context">,
+): string {
+  const context = claim.context ? canonicalize(JSON.parse(claim.context)) : "";
+  return keccak256(
+    toBytes(`${claim.provider}\n${claim.parameters}\n${context}`),
+  ).toLowerCase();
+}
+
+// The message attestors sign (EIP-191) for a claim
+export function serializeClaim(claim: ReclaimClaimData): string {
+  return [
+    claim.identifier.toLowerCase(),
+    claim.owner.toLowerCase(),
+    claim.timestampS.toString(),
+    claim.epoch.toString(),
+  ].join("\n");
+}
+
+function parseJson(value: string | undefined): unknown {
+  if (!value) return {};
+  try {
+    return JSON.parse(value);
+  } catch {
+    return null;
+  }
+}
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  return value && typeof value === "object"
+    ? (value as Record<string, unknown>)
+    : null;
+}
+
+// The fkey.id profile page: https://<fkeyId>.fkey.id with no path or query
+function isFkeyProfileUrl(url: unknown, fkeyId: string): boolean {
+  if (typeof url !== "string") return false;
+  try {
+    const parsed = new URL(url);
+    return (
+      parsed.protocol === "https:" &&
+      parsed.hostname === `${fkeyId.toLowerCase()}.fkey.id` &&
+      !parsed.port &&
+      (parsed.pathname === "/" || parsed.pathname === "") &&
+      !parsed.search
+    );
+  } catch {
+    return false;
+  }
+}
+
+function trustedAttestorsFromEnv(): string[] {
+  return env.RECLAIM_ATTESTOR_ADDRESSES.split(",")
+    .map((address) => address.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+async function checkFkeyProof(
+  proof: unknown,
+  fkeyId: string,
+  address: string,
+  trustedAttestors: string[],
+  now: number,
+  maxAgeSeconds: number,
+): Promise<{ reason?: string; attestors: string[] }> {
+  const fail = (reason: string) => ({ reason, attestors: [] });
+  // Whatever the lookup response held, checked field by field
+  const {
+    claimData: claim,
+    signatures,
+    identifier: proofIdentifier,
+  } = (proof ?? {}) as Partial<ReclaimProof>;
+  if (
+    !claim ||
+    typeof claim.provider !== "string" ||
+    typeof claim.parameters !== "string" ||
+    typeof claim.owner !== "string" ||
+    typeof claim.identifier !== "string" ||
+    !Number.isInteger(claim.timestampS) ||
+    !Number.isInteger(claim.epoch) ||
+    !Array.isArray(signatures) ||
+    signatures.length === 0
+  ) {
+    return fail("malformed_proof");
+  }
+
+  let identifier: string;
+  try {
+    identifier = getClaimIdentifier(claim);
+  } catch {
+    return fail("malformed_proof");
+  }
+  if (
+    identifier !== claim.identifier.toLowerCase() ||
+    (typeof proofIdentifier === "string" &&
+      proofIdentifier.replace(/"/g, "").toLowerCase() !== identifier)
+  ) {
+    return fail("identifier_mismatch");
+  }
+
+  const parameters = asRecord(parseJson(claim.parameters));
+  if (!parameters || !isFkeyProfileUrl(parameters.url, fkeyId)) {
+    return fail("url_mismatch");
+  }
+  const matches: unknown[] = Array.isArray(parameters.responseMatches)
+    ? parameters.responseMatches
+    : [];
+  if (
+    !matches.some((m) => {
+      const match = asRecord(m);
+      return match?.type === "regex" && match.value === FKEY_ADDRESS_REGEX;
+    })
+  ) {
+    return fail("regex_mismatch");
+  }
+
+  // The attested page must show the address we're storing
+  const context = asRecord(parseJson(claim.context));
+  const extracted = asRecord(context?.extractedParameters)?.address;
+  if (
+    !isAddress(address, { strict: false }) ||
+    typeof extracted !== "string" ||
+    extracted.toLowerCase() !== address.toLowerCase()
+  ) {
+    return fail("address_mismatch");
+  }
+
+  const nowS = Math.floor(now / 1000);
+  if (claim.timestampS > nowS + CLOCK_SKEW_SECONDS) {
+    return fail("timestamp_in_future");
+  }
+  if (nowS - claim.timestampS > maxAgeSeconds) {
+    return fail("proof_expired");
+  }
+
+  const message = serializeClaim(claim);
+  const attestors = new Set<string>();
+  for (const signature of signatures) {
+    if (!isHex(signature)) return fail("invalid_signature");
+    try {
+      const signer = (
+        await recoverMessageAddress({ message, signature })
+      ).toLowerCase();
+      if (trustedAttestors.includes(signer)) attestors.add(signer);
+    } catch {
+      return fail("invalid_signature");
+    }
+  }
+  if (attestors.size === 0) return fail("untrusted_attestor");
+
+  return { attestors: [...attestors] };
+}
+
+/**
+ * Verify a Reclaim proof that `<fkeyId>.fkey.id` showed `address`. Never
+ * throws; a failed check comes back as `verified: false` with a reason.
+ */
+export async function verifyFkeyProof(
+  proof: unknown,
+  fkeyId: string,
+  address: string,
+  options: ProofVerificationOptions = {},
+): Promise<ProofVerification> {
+  const now = options.now ?? Date.now();
+  const { reason, attestors } = await checkFkeyProof(
+    proof,
+    fkeyId,
+    address,
+    options.trustedAttestors?.map((a) => a.toLowerCase()) ??
+      trustedAttestorsFromEnv(),
+    now,
+    options.maxAgeSeconds ?? env.RECLAIM_PROOF_MAX_AGE_SECONDS,
+  );
+  if (reason) return { verified: false, reason, attestors, verifiedAt: now };
+
+  const claimedAt = (proof as ReclaimProof).claimData.timestampS * 1000;
+  return {
+    verified: true,
+    attestors,
+    claimedAt,
+    verifiedAt: now,
+    expiresAt:
+      claimedAt + (options.ttlSeconds ?? env.RECLAIM_PROOF_TTL_SECONDS) * 1000,
+  };
+}
+
+/**
+ * Verify the proofs of an fkey.id lookup response (`proof`, then any extra
+ * attestor `proofs`) and return the first that passes, or the first failure.
+ */
+export async function verifyFkeyLookup(
+  fkeyId: string,
+  lookup: { address?: string; proof?: unknown; proofs?: unknown[] },
+  options: ProofVerificationOptions = {},
+): Promise<{ proof: unknown; verification: ProofVerification }> {
+  const candidates = [lookup.proof, ...(lookup.proofs ?? [])].filter(Boolean);
+  let first: { proof: unknown; verification: ProofVerification } | undefined;
+  for (const proof of candidates) {
+    const verification = await verifyFkeyProof(
+      proof,
+      fkeyId,
+      lookup.address ?? "",
+      options,
+    );
+    if (verification.verified) return { proof, verification };
+    first ??= { proof, verification };
+  }
+  return (
+    first ?? {
+      proof: null,
+      verification: {
+        verified: false,
+        reason: "missing_proof",
+        attestors: [],
+        verifiedAt: options.now ?? Date.now(),
+      },
+    }
+  );
+}
+
+// A stored verification that still vouches for the stealth address
+export function isProofVerificationCurrent(
+  verification: ProofVerification | undefined,
+  now = Date.now(),
+): boolean {
+  return (
+    !!verification?.verified &&
+    !!verification.expiresAt &&
+    verification.expiresAt > now
+  );
+}
@@ -0,0 +1,393 @@
+import {
+  BaseError,
+  createPublicClient,
+  http,
+  HttpRequestError,
+  RpcError,
+  RpcRequestError,
+  type AbiEvent,
+  type Address,
+  type Chain,
+  type Log,
+  type PublicClient,
+} from "viem";
+
+/**
+ * Failover pool over a chain's RPC endpoints.
+ *
+ * Requests go to the fastest endpoint that isn't cooling down. Errors rotate
+ * to the next endpoint and put the failing one on an exponential cooldown
+ * (HTTP 429 honours `Retry-After`). `getLogs` additionally halves the block
+ * range whenever a provider rejects it as too large, and remembers the
+ * largest range that worked so later scans start there.
+ */
+
+export type RpcEndpointHealth =
+  "healthy" | "degraded" | "rate_limited" | "down";
+
+export type RpcErrorKind = "rate_limit" | "range_too_large" | "other";
+
+export interface RpcEndpointStatus {
+  url: string;
+  health: RpcEndpointHealth;
+  latencyMs: number | null; // moving average of successful requests
+  successCount: number;
+  failureCount: number;
+  consecutiveFailures: number;
+  lastError: string | null;
+  lastErrorAt: number | null;
+  cooldownUntil: number | null;
+}
+
+export interface RpcPoolOptions {
+  baseBackoffMs?: number;
+  maxBackoffMs?: number;
+  maxWaitMs?: number; // longest we'll wait for a cooling endpoint
+  maxLogRange?: number;
+  minLogRange?: number;
+}
+
+interface RpcEndpoint {
+  url: string;
+  client: PublicClient;
+  latencyMs: number | null;
+  successCount: number;
+  failureCount: number;
+  consecutiveFailures: number;
+  rateLimited: boolean;
+  lastError: string | null;
+  lastErrorAt: number | null;
+  cooldownUntil: number;
+}
+
+const LATENCY_SMOOTHING = 0.3;
+const DOWN_AFTER_FAILURES = 3;
+const LOG_RANGE_GROWTH_STREAK = 5;
+
+// Provider phrasings for "narrow your getLogs range"
+const RANGE_ERROR_PATTERN =
+  /block range|range (is )?too (large|wide)|more than \d+ results|response size|range limit|limited to .*range|too many (logs|results)|ranges over/i;
+const RATE_LIMIT_PATTERN = /rate limit|too many requests|429/i;
+
+export class RpcRangeTooLargeError extends Error {
+  constructor(
+    public fromBlock: bigint,
+    public toBlock: bigint,
+  ) {
+    super(`getLogs rejected block range ${fromBlock}-${toBlock} on every RPC`);
+    this.name = "RpcRangeTooLargeError";
+  }
+}
+
+export class RpcUnavailableError extends Error {
+  constructor(
+    public chain: string,
+    public lastError: unknown,
+  ) {
+    super(`All ${chain} RPC endpoints are failing or rate limited`);
+    this.name = "RpcUnavailableError";
+  }
+}
+
+// Walk viem's error chain for HTTP status / RPC code
+function findErrorDetail(error: unknown): {
+  status?: number;
+  code?: number;
+  headers?: Headers;
+} {
+  const detail: { status?: number; code?: number; headers?: Headers } = {};
+  if (!(error instanceof BaseError)) return detail;
+
+  error.walk((cause) => {
+    if (cause instanceof HttpRequestError) {
+      detail.status ??= cause.status;
+      detail.headers ??= cause.headers;
+    }
+    if (cause instanceof RpcRequestError || cause instanceof RpcError) {
+      detail.code ??= cause.code;
+    }
+    return false;
+  });
+  return detail;
+}
+
+export function classifyRpcError(error: unknown): RpcErrorKind {
+  const message =
+    error instanceof BaseError
+      ? [error.shortMessage, error.details, error.message].join(" ")
+      : error instanceof Error
+        ? error.message
+        : String(error);
+  const { status, code } = findErrorDetail(error);
+
+  // -32005 covers both "limit exceeded" variants, so check the range wording first
+  if (RANGE_ERROR_PATTERN.test(message)) return "range_too_large";
+  if (status === 429 || code === -32005 || RATE_LIMIT_PATTERN.test(message)) {
+    return "rate_limit";
+  }
+  return "other";
+}
+
+function retryAfterMs(error: unknown): number | null {
+  const value = findErrorDetail(error).headers?.get("retry-after");
+  if (!value) return null;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return seconds * 1000;
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(date - Date.now(), 0);
+}
+
+function describeError(error: unknown): string {
+  if (error instanceof BaseError) return error.shortMessage;
+  return error instanceof Error ? error.message : String(error);
+}
+
+export class RpcPool {
+  private endpoints: RpcEndpoint[];
+  private readonly baseBackoffMs: number;
+  private readonly maxBackoffMs: number;
+  private readonly maxWaitMs: number;
+  private readonly maxLogRange: bigint;
+  private readonly minLogRange: bigint;
+  private logRange: bigint;
+  private logRangeSuccesses = 0;
+
+  constructor(
+    public readonly chain: string,
+    endpoints: { url: string; client: PublicClient }[],
+    options: RpcPoolOptions = {},
+  ) {
+    if (endpoints.length === 0) {
+      throw new Error(`No RPC endpoints configured for ${chain}`);
+    }
+
+    this.endpoints = endpoints.map(({ url, client }) => ({
+      url,
+      client,
+      latencyMs: null,
+      successCount: 0,
+      failureCount: 0,
+      consecutiveFailures: 0,
+      rateLimited: false,
+      lastError: null,
+      lastErrorAt: null,
+      cooldownUntil: 0,
+    }));
+    this.baseBackoffMs = options.baseBackoffMs ?? 5_000;
+    this.maxBackoffMs = options.maxBackoffMs ?? 10 * 60 * 1000;
+    this.maxWaitMs = options.maxWaitMs ?? 30_000;
+    this.maxLogRange = BigInt(options.maxLogRange ?? 2_000);
+    this.minLogRange = BigInt(options.minLogRange ?? 1);
+    this.logRange = this.maxLogRange;
+  }
+
+  static fromUrls(
+    chainName: string,
+    chain: Chain,
+    urls: string[],
+    options?: RpcPoolOptions,
+  ): RpcPool {
+    return new RpcPool(
+      chainName,
+      urls.map((url) => ({
+        url,
+        // The pool does its own retrying across endpoints
+        client: createPublicClient({
+          chain,
+          transport: http(url, { retryCount: 0, timeout: 15_000 }),
+        }) as PublicClient,
+      })),
+      options,
+    );
+  }
+
+  /**
+   * Endpoints not cooling down, fastest first. Unmeasured endpoints count as
+   * instant so each one gets probed and earns a latency figure.
+   */
+  private availableEndpoints(): RpcEndpoint[] {
+    const now = Date.now();
+    return this.endpoints
+      .filter((endpoint) => endpoint.cooldownUntil <= now)
+      .sort((a, b) => (a.latencyMs ?? 0) - (b.latencyMs ?? 0));
+  }
+
+  private recordSuccess(endpoint: RpcEndpoint, startedAt: number): void {
+    const latency = Date.now() - startedAt;
+    endpoint.latencyMs =
+      endpoint.latencyMs === null
+        ? latency
+        : Math.round(
+            endpoint.latencyMs * (1 - LATENCY_SMOOTHING) +
+              latency * LATENCY_SMOOTHING,
+          );
+    endpoint.successCount++;
+    endpoint.consecutiveFailures = 0;
+    endpoint.rateLimited = false;
+  }
+
+  private recordFailure(
+    endpoint: RpcEndpoint,
+    error: unknown,
+    kind: RpcErrorKind,
+  ): void {
+    endpoint.failureCount++;
+    endpoint.consecutiveFailures++;
+    endpoint.rateLimited = kind === "rate_limit";
+    endpoint.lastError = describeError(error);
+    endpoint.lastErrorAt = Date.now();
+
+    const backoff = Math.min(
+      this.baseBackoffMs * 2 ** (endpoint.consecutiveFailures - 1),
+      this.maxBackoffMs,
+    );
+    const cooldown =
+      kind === "rate_limit" ? (retryAfterMs(error) ?? backoff) : backoff;
+    endpoint.cooldownUntil = Date.now() + cooldown;
+
+    console.warn(
+      `⚠️ ${this.chain} RPC ${endpoint.url} ${kind === "rate_limit" ? "rate limited" : "failed"}, cooling down ${Math.round(cooldown / 1000)}s: ${endpoint.lastError}`,
+    );
+  }
+
+  /**
+   * Run `fn` against endpoints until one succeeds. Range errors are thrown
+   * straight back (the query needs changing, not the endpoint).
+   */
+  async request<T>(fn: (client: PublicClient) => Promise<T>): Promise<T> {
+    let lastError: unknown = null;
+    let candidates = this.availableEndpoints();
+
+    if (candidates.length === 0) {
+      // Everything is cooling down - wait for the soonest if it's close
+      const soonest = this.endpoints.reduce((a, b) =>
+        a.cooldownUntil <= b.cooldownUntil ? a : b,
+      );
+      const wait = soonest.cooldownUntil - Date.now();
+      if (wait > this.maxWaitMs) {
+        throw new RpcUnavailableError(this.chain, soonest.lastError);
+      }
+      await new Promise((resolve) => setTimeout(resolve, wait));
+      candidates = [soonest];
+    }
+
+    for (const endpoint of candidates) {
+      const startedAt = Date.now();
+      try {
+        const result = await fn(endpoint.client);
+        this.recordSuccess(endpoint, startedAt);
+        return result;
+      } catch (error) {
+        const kind = classifyRpcError(error);
+        if (kind === "range_too_large") {
+          // Endpoint is fine, it just answered "no"
+          this.recordSuccess(endpoint, startedAt);
+          throw error;
+        }
+
+        lastError = error;
+        this.recordFailure(endpoint, error, kind);
+      }
+    }
+
+    throw new RpcUnavailableError(this.chain, lastError);
+  }
+
+  async getBlockNumber(): Promise<bigint> {
+    return this.request((client) => client.getBlockNumber());
+  }
+
+  /**
+   * getLogs over an arbitrary range, split into chunks no larger than the
+   * learned provider limit. A rejected chunk is halved and retried; a streak
+   * of chunks succeeding at the current size lets the limit creep back up.
+   */
+  async getLogs(params: {
+    address: Address;
+    event: AbiEvent;
+    fromBlock: bigint;
+    toBlock: bigint;
+  }): Promise<Log[]> {
+    const logs: Log[] = [];
+    let fromBlock = params.fromBlock;
+
+    while (fromBlock <= params.toBlock) {
+      const toBlock =
+        fromBlock + this.logRange - 1n < params.toBlock
+          ? fromBlock + this.logRange - 1n
+          : params.toBlock;
+
+      try {
+        const chunk = await this.request((client) =>
+          client.getLogs({
+            address: params.address,
+            event: params.event,
+            fromBlock,
+            toBlock,
+          }),
+        );
+        logs.push(...(chunk as Log[]));
+
+        if (toBlock - fromBlock + 1n >= this.logRange) {
+          this.growLogRange();
+        }
+        fromBlock = toBlock + 1n;
+      } catch (error) {
+        if (classifyRpcError(error) !== "range_too_large") throw error;
+        this.logRangeSuccesses = 0;
+
+        const span = toBlock - fromBlock + 1n;
+        if (span <= this.minLogRange) {
+          throw new RpcRangeTooLargeError(fromBlock, toBlock);
+        }
+
+        this.logRange =
+          span / 2n > this.minLogRange ? span / 2n : this.minLogRange;
+        console.log(
+          `✂️ ${this.chain} getLogs range ${fromBlock}-${toBlock} rejected, retrying with ${this.logRange} blocks`,
+        );
+      }
+    }
+
+    return logs;
+  }
+
+  // Probe upwards by 25% after a run of full-size chunks succeeds
+  private growLogRange(): void {
+    if (++this.logRangeSuccesses < LOG_RANGE_GROWTH_STREAK) return;
+    this.logRangeSuccesses = 0;
+
+    const grown = this.logRange + this.logRange / 4n + 1n;
+    this.logRange = grown < this.maxLogRange ? grown : this.maxLogRange;
+  }
+
+  getLogRange(): number {
+    return Number(this.logRange);
+  }
+
+  getStatus(): RpcEndpointStatus[] {
+    const now = Date.now();
+    return this.endpoints.map((endpoint) => {
+      const coolingDown = endpoint.cooldownUntil > now;
+      let health: RpcEndpointHealth = "healthy";
+      if (coolingDown && endpoint.rateLimited) health = "rate_limited";
+      else if (endpoint.consecutiveFailures >= DOWN_AFTER_FAILURES)
+        health = "down";
+      else if (endpoint.consecutiveFailures > 0) health = "degraded";
+
+      return {
+        url: endpoint.url,
+        health,
+        latencyMs: endpoint.latencyMs,
+        successCount: endpoint.successCount,
+        failureCount: endpoint.failureCount,
+        consecutiveFailures: endpoint.consecutiveFailures,
+        lastError: endpoint.lastError,
+        lastErrorAt: endpoint.lastErrorAt,
+        cooldownUntil: coolingDown ? endpoint.cooldownUntil : null,
+      };
+    });
+  }
+}
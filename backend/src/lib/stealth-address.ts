@@ -0,0 +1,215 @@
+import { secp256k1 } from "@noble/curves/secp256k1";
+import {
+  bytesToHex,
+  hexToBytes,
+  isHex,
+  keccak256,
+  type Address,
+  type Hex,
+} from "viem";
+import { publicKeyToAddress } from "viem/accounts";
+
+/**
+ * ERC-5564 scheme 1: secp256k1 with view tags.
+ * https://eips.ethereum.org/EIPS/eip-5564
+ */
+export const SCHEME_ID_SECP256K1 = 1n;
+
+// Keys a user shares with the monitor so it can recognise their payments.
+// The viewing key only lets us *find* payments - spending needs the spending
+// private key, which never leaves the user's device.
+export interface StealthScanKey {
+  viewingPrivateKey: Hex;
+  spendingPublicKey: Hex;
+}
+
+export interface StealthAnnouncementData {
+  schemeId: bigint;
+  stealthAddress: string;
+  ephemeralPubKey: Hex;
+  metadata: Hex;
+}
+
+export interface GeneratedStealthAddress {
+  stealthAddress: Address;
+  ephemeralPublicKey: Hex;
+  viewTag: Hex;
+}
+
+/**
+ * keccak256 of the compressed ECDH point between a private key and the
+ * counterparty public key. Both sides of the protocol arrive at the same hash:
+ * the sender with (ephemeralPriv, viewingPub) and the recipient with
+ * (viewingPriv, ephemeralPub).
+ */
+export function computeHashedSharedSecret(
+  privateKey: Hex,
+  publicKey: Hex,
+): Hex {
+  const sharedSecret = secp256k1.getSharedSecret(
+    hexToBytes(privateKey),
+    hexToBytes(publicKey),
+  );
+  return keccak256(sharedSecret);
+}
+
+// The view tag is the most significant byte of the hashed shared secret
+export function getViewTag(hashedSharedSecret: Hex): Hex {
+  return `0x${hashedSharedSecret.slice(2, 4)}`;
+}
+
+// Announcements carry the view tag as the first byte of `metadata`
+export function extractViewTag(metadata: Hex): Hex | null {
+  if (!isHex(metadata) || metadata.length < 4) return null;
+  return `0x${metadata.slice(2, 4).toLowerCase()}`;
+}
+
+/**
+ * Stealth public key = spendingPub + G * hashedSharedSecret
+ */
+export function computeStealthAddress(
+  spendingPublicKey: Hex,
+  hashedSharedSecret: Hex,
+): Address {
+  const sharedPoint = secp256k1.ProjectivePoint.fromPrivateKey(
+    hexToBytes(hashedSharedSecret),
+  );
+  const stealthPoint = secp256k1.ProjectivePoint.fromHex(
+    hexToBytes(spendingPublicKey),
+  ).add(sharedPoint);
+
+  return publicKeyToAddress(bytesToHex(stealthPoint.toRawBytes(false)));
+}
+
+/**
+ * Stealth private key = spendingPriv + hashedSharedSecret (mod n)
+ */
+export function computeStealthPrivateKey(
+  spendingPrivateKey: Hex,
+  hashedSharedSecret: Hex,
+): Hex {
+  const n = secp256k1.CURVE.n;
+  const key = (BigInt(spendingPrivateKey) + BigInt(hashedSharedSecret)) % n;
+  return `0x${key.toString(16).padStart(64, "0")}`;
+}
+
+/**
+ * Sender side: derive a one-time stealth address for a recipient's
+ * spending/viewing public keys from a fresh (or supplied) ephemeral key.
+ */
+export function generateStealthAddress(
+  spendingPublicKey: Hex,
+  viewingPublicKey: Hex,
+  ephemeralPrivateKey: Hex = bytesToHex(secp256k1.utils.randomPrivateKey()),
+): GeneratedStealthAddress {
+  const hashedSharedSecret = computeHashedSharedSecret(
+    ephemeralPrivateKey,
+    viewingPublicKey,
+  );
+
+  return {
+    stealthAddress: computeStealthAddress(
+      spendingPublicKey,
+      hashedSharedSecret,
+    ),
+    ephemeralPublicKey: bytesToHex(
+      secp256k1.getPublicKey(hexToBytes(ephemeralPrivateKey), true),
+    ),
+    viewTag: getViewTag(hashedSharedSecret),
+  };
+}
+
+/**
+ * Recipient side: does this announcement pay to one of our stealth addresses?
+ * The view tag in `metadata` lets us reject ~255/256 of foreign announcements
+ * after a single ECDH, before the more expensive point addition.
+ */
+export function checkStealthAddress(
+  announcement: StealthAnnouncementData,
+  scanKey: StealthScanKey,
+): boolean {
+  if (announcement.schemeId !== SCHEME_ID_SECP256K1) return false;
+
+  try {
+    const hashedSharedSecret = computeHashedSharedSecret(
+      scanKey.viewingPrivateKey,
+      announcement.ephemeralPubKey,
+    );
+
+    const viewTag = extractViewTag(announcement.metadata);
+    if (viewTag !== null && viewTag !== getViewTag(hashedSharedSecret)) {
+      return false;
+    }
+
+    const derived = computeStealthAddress(
+      scanKey.spendingPublicKey,
+      hashedSharedSecret,
+    );
+    return derived.toLowerCase() === announcement.stealthAddress.toLowerCase();
+  } catch {
+    // Malformed ephemeral key or scan key - cannot be ours
+    return false;
+  }
+}
+
+/**
+ * Normalise a stored scan key. Anything that isn't a viewing private key plus
+ * spending public key pair is dropped, since it can't be matched against
+ * announcements.
+ */
+export function parseStealthScanKey(raw: unknown): StealthScanKey | null {
+  if (!raw || typeof raw !== "object") return null;
+
+  const { viewingPrivateKey, spendingPublicKey } = raw as Record<
+    string,
+    unknown
+  >;
+  if (
+    typeof viewingPrivateKey !== "string" ||
+    typeof spendingPublicKey !== "string" ||
+    !isHex(viewingPrivateKey, { strict: true }) ||
+    !isHex(spendingPublicKey, { strict: true }) ||
+    viewingPrivateKey.length !== 66 ||
+    (spendingPublicKey.length !== 68 && spendingPublicKey.length !== 132)
+  ) {
+    return null;
+  }
+
+  return { viewingPrivateKey, spendingPublicKey };
+}
+
+export interface StealthMetaAddressKeys {
+  spendingPublicKey: Hex;
+  viewingPublicKey: Hex;
+}
+
+/**
+ * Split an ERC-5564 meta-address (`st:eth:0x<spendingPub><viewingPub>`, or
+ * the raw bytes stored in the ERC-6538 registry) into its two public keys.
+ * Returns null unless both halves are valid secp256k1 points.
+ */
+export function parseStealthMetaAddress(
+  metaAddress: string,
+): StealthMetaAddressKeys | null {
+  const hex = metaAddress.trim().replace(/^st:[a-z]+:/i, "");
+  if (!isHex(hex, { strict: true })) return null;
+
+  // Two compressed (33-byte) or two uncompressed (65-byte) keys, in hex chars
+  const keyLength = (hex.length - 2) / 2;
+  if (keyLength !== 66 && keyLength !== 130) return null;
+
+  const spendingPublicKey: Hex = `0x${hex.slice(2, 2 + keyLength)}`;
+  const viewingPublicKey: Hex = `0x${hex.slice(2 + keyLength)}`;
+  try {
+    secp256k1.ProjectivePoint.fromHex(hexToBytes(spendingPublicKey));
+    secp256k1.ProjectivePoint.fromHex(hexToBytes(viewingPublicKey));
+  } catch {
+    return null;
+  }
+
+  return { spendingPublicKey, viewingPublicKey };
+}
+
+export function formatStealthMetaAddress(keys: StealthMetaAddressKeys): string {
+  return `st:eth:0x${keys.spendingPublicKey.slice(2)}${keys.viewingPublicKey.slice(2)}`;
+}
@@ -0,0 +1,133 @@
+import {
+  concat,
+  createWalletClient,
+  encodeFunctionData,
+  http,
+  numberToHex,
+  parseAbi,
+  type Address,
+  type Hex,
+} from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { env } from "../config/env";
+import {
+  generateStealthAddress,
+  parseStealthMetaAddress,
+  SCHEME_ID_SECP256K1,
+} from "./stealth-address";
+import { STEALTH_CHAINS } from "./stealth-chains";
+import { getStealthNetworkName } from "./stealth-networks";
+
+/**
+ * Sender side of ERC-5564: a fresh one-time stealth address per payment,
+ * plus the `announce` call that lets the recipient find it.
+ * https://eips.ethereum.org/EIPS/eip-5564
+ */
+export const ERC5564_ANNOUNCER =
+  "0x55649E01B5Df198D18D95b5cc5051630cfD45564" as Address;
+
+export const ERC5564_ANNOUNCER_ABI = parseAbi([
+  "function announce(uint256 schemeId, address stealthAddress, bytes ephemeralPubKey, bytes metadata)",
+]);
+
+// ERC-5564 metadata markers for native-token transfers
+const NATIVE_TRANSFER_SELECTOR = "0xeeeeeeee" as Hex;
+const NATIVE_TOKEN_ADDRESS =
+  "0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE" as Address;
+const ERC20_TRANSFER_SELECTOR = "0xa9059cbb" as Hex;
+
+export interface StealthTransfer {
+  token: Address | null; // null for the chain's native token
+  amount: bigint; // base units
+}
+
+export interface StealthPaymentTarget {
+  stealthAddress: Address;
+  ephemeralPublicKey: Hex;
+  viewTag: Hex;
+  metadata: Hex;
+  announceCall: { to: Address; data: Hex };
+}
+
+/**
+ * Announcement metadata: view tag, then the transfer's function selector,
+ * token address and amount, so wallets can show what arrived without
+ * looking up the transaction.
+ */
+export function buildAnnouncementMetadata(
+  viewTag: Hex,
+  transfer: StealthTransfer,
+): Hex {
+  return concat([
+    viewTag,
+    transfer.token ? ERC20_TRANSFER_SELECTOR : NATIVE_TRANSFER_SELECTOR,
+    transfer.token ?? NATIVE_TOKEN_ADDRESS,
+    numberToHex(transfer.amount, { size: 32 }),
+  ]);
+}
+
+/**
+ * Derive a one-time stealth address for `stealthMetaAddress` and the
+ * announcement for it. Throws if the meta-address doesn't parse.
+ */
+export function createStealthPaymentTarget(
+  stealthMetaAddress: string,
+  transfer: StealthTransfer,
+): StealthPaymentTarget {
+  const keys = parseStealthMetaAddress(stealthMetaAddress);
+  if (!keys) {
+    throw new Error(`Invalid stealth meta-address: ${stealthMetaAddress}`);
+  }
+
+  const { stealthAddress, ephemeralPublicKey, viewTag } =
+    generateStealthAddress(keys.spendingPublicKey, keys.viewingPublicKey);
+  const metadata = buildAnnouncementMetadata(viewTag, transfer);
+
+  return {
+    stealthAddress,
+    ephemeralPublicKey,
+    viewTag,
+    metadata,
+    announceCall: {
+      to: ERC5564_ANNOUNCER,
+      data: encodeFunctionData({
+        abi: ERC5564_ANNOUNCER_ABI,
+        functionName: "announce",
+        args: [
+          SCHEME_ID_SECP256K1,
+          stealthAddress,
+          ephemeralPublicKey,
+          metadata,
+        ],
+      }),
+    },
+  };
+}
+
+export function isStealthAnnouncerConfigured(): boolean {
+  return Boolean(env.STEALTH_ANNOUNCER_PRIVATE_KEY);
+}
+
+/**
+ * Send the announcement from the agent's announcer key, so payments made
+ * through plain links (where the payer can't batch an announce call) are
+ * still discoverable. Only called once the address is funded; see
+ * StealthAnnouncementQueue. Returns the tx hash, or null when no announcer
+ * key is configured or `chainId` isn't a stealth network.
+ */
+export async function announceStealthPayment(
+  target: StealthPaymentTarget,
+  chainId: number,
+): Promise<Hex | null> {
+  const network = getStealthNetworkName(chainId);
+  if (!env.STEALTH_ANNOUNCER_PRIVATE_KEY || !network) return null;
+
+  const { chain, rpcUrls } = STEALTH_CHAINS[network];
+  const wallet = createWalletClient({
+    account: privateKeyToAccount(env.STEALTH_ANNOUNCER_PRIVATE_KEY as Hex),
+    chain,
+    transport: http(rpcUrls[0]),
+  });
+
+  return wallet.sendTransaction(target.announceCall);
+}
@@ -0,0 +1,65 @@
+import type { Chain } from "viem";
+import {
+  arbitrum,
+  base,
+  baseSepolia,
+  mainnet,
+  optimism,
+  sepolia,
+} from "viem/chains";
+import { RpcPool } from "./rpc-pool";
+import type { StealthNetworkName } from "./stealth-networks";
+
+/**
+ * viem chains and RPC endpoints for the networks in STEALTH_NETWORKS, used to
+ * read the ERC-6538 registry and send ERC-5564 announcements. Kept out of
+ * stealth-networks.ts, which stays a plain copy of the Ponder app's map.
+ */
+export const STEALTH_CHAINS: Record<
+  StealthNetworkName,
+  { chain: Chain; rpcUrls: string[] }
+> = {
+  mainnet: {
+    chain: mainnet,
+    rpcUrls: ["https://ethereum-rpc.publicnode.com", "https://eth.drpc.org"],
+  },
+  base: {
+    chain: base,
+    rpcUrls: ["https://base-rpc.publicnode.com", "https://mainnet.base.org"],
+  },
+  optimism: {
+    chain: optimism,
+    rpcUrls: [
+      "https://optimism-rpc.publicnode.com",
+      "https://mainnet.optimism.io",
+    ],
+  },
+  arbitrum: {
+    chain: arbitrum,
+    rpcUrls: [
+      "https://arbitrum-one-rpc.publicnode.com",
+      "https://arb1.arbitrum.io/rpc",
+    ],
+  },
+  sepolia: {
+    chain: sepolia,
+    rpcUrls: ["https://ethereum-sepolia-rpc.publicnode.com"],
+  },
+  baseSepolia: {
+    chain: baseSepolia,
+    rpcUrls: ["https://sepolia.base.org"],
+  },
+};
+
+const pools = new Map<StealthNetworkName, RpcPool>();
+
+// Failover RPC pool per network, created on first use
+export function getStealthRpcPool(network: StealthNetworkName): RpcPool {
+  let pool = pools.get(network);
+  if (!pool) {
+    const { chain, rpcUrls } = STEALTH_CHAINS[network];
+    pool = RpcPool.fromUrls(network, chain, rpcUrls);
+    pools.set(network, pool);
+  }
+  return pool;
+}
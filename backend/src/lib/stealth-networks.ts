@@ -0,0 +1,33 @@
+/**
+ * Networks where the ERC-5564 announcer and ERC-6538 registry singletons are
+ * watched, keyed by the name the indexer stores in its `network` columns.
+ *
+ * Mirrors src/lib/stealth-networks.ts in the Ponder app and PONDER_NETWORKS
+ * in frontend/src/lib/ponder-client.ts, which deploy on their own; change
+ * them together. `yarn test:stealth-networks` fails when they differ.
+ */
+
+export const STEALTH_NETWORKS = {
+  mainnet: 1,
+  base: 8453,
+  optimism: 10,
+  arbitrum: 42161,
+  sepolia: 11155111,
+  baseSepolia: 84532,
+} as const;
+
+export type StealthNetworkName = keyof typeof STEALTH_NETWORKS;
+
+export const STEALTH_NETWORK_NAMES = Object.keys(STEALTH_NETWORKS) as StealthNetworkName[];
+
+const NAME_BY_CHAIN_ID = new Map<number, StealthNetworkName>(
+  STEALTH_NETWORK_NAMES.map((name) => [STEALTH_NETWORKS[name], name]),
+);
+
+export function getStealthNetworkName(chainId: number): StealthNetworkName | undefined {
+  return NAME_BY_CHAIN_ID.get(chainId);
+}
+
+export function getStealthNetworkChainId(name: string): number | undefined {
+  return STEALTH_NETWORKS[name as StealthNetworkName];
+}
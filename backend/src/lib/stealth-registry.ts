@@ -0,0 +1,93 @@
+import { isAddress, parseAbi, type Address, type Hex } from "viem";
+import {
+  formatStealthMetaAddress,
+  parseStealthMetaAddress,
+  SCHEME_ID_SECP256K1,
+} from "./stealth-address";
+import { getStealthRpcPool } from "./stealth-chains";
+import type { StealthNetworkName } from "./stealth-networks";
+
+/**
+ * Read side of the ERC-6538 stealth meta-address registry, deployed at the
+ * same address on every network in STEALTH_NETWORKS.
+ * https://eips.ethereum.org/EIPS/eip-6538
+ */
+export const ERC6538_REGISTRY =
+  "0x6538E6bf4B0eBd30A8Ea093027Ac2422ce5d6538" as Address;
+
+export const ERC6538_REGISTRY_ABI = parseAbi([
+  "function stealthMetaAddressOf(address registrant, uint256 schemeId) view returns (bytes)",
+  "function nonceOf(address registrant) view returns (uint256)",
+  "function registerKeys(uint256 schemeId, bytes stealthMetaAddress)",
+  "function registerKeysOnBehalf(address registrant, uint256 schemeId, bytes signature, bytes stealthMetaAddress)",
+  "event StealthMetaAddressSet(address indexed registrant, uint256 indexed schemeId, bytes stealthMetaAddress)",
+]);
+
+export interface RegisteredStealthMetaAddress {
+  registrant: Address;
+  network: StealthNetworkName;
+  stealthMetaAddress: string; // st:eth:0x...
+}
+
+// Checked in this order when no network is given: cheapest to register first
+export const REGISTRY_LOOKUP_NETWORKS: StealthNetworkName[] = [
+  "base",
+  "optimism",
+  "arbitrum",
+  "mainnet",
+];
+
+/**
+ * The scheme-1 meta-address `registrant` has registered on `network`, or
+ * null if there is none (the registry returns empty bytes) or it doesn't
+ * parse as two secp256k1 public keys.
+ */
+export async function getRegisteredStealthMetaAddress(
+  registrant: string,
+  network: StealthNetworkName,
+): Promise<RegisteredStealthMetaAddress | null> {
+  if (!isAddress(registrant)) return null;
+
+  const raw: Hex = await getStealthRpcPool(network).request((client) =>
+    client.readContract({
+      address: ERC6538_REGISTRY,
+      abi: ERC6538_REGISTRY_ABI,
+      functionName: "stealthMetaAddressOf",
+      args: [registrant, SCHEME_ID_SECP256K1],
+    }),
+  );
+
+  const keys = raw && raw !== "0x" ? parseStealthMetaAddress(raw) : null;
+  if (!keys) return null;
+
+  return {
+    registrant,
+    network,
+    stealthMetaAddress: formatStealthMetaAddress(keys),
+  };
+}
+
+/**
+ * First registration found for `registrant` across `networks`. Networks
+ * whose RPCs are all down are skipped rather than failing the lookup.
+ */
+export async function findRegisteredStealthMetaAddress(
+  registrant: string,
+  networks: StealthNetworkName[] = REGISTRY_LOOKUP_NETWORKS,
+): Promise<RegisteredStealthMetaAddress | null> {
+  for (const network of networks) {
+    try {
+      const registered = await getRegisteredStealthMetaAddress(
+        registrant,
+        network,
+      );
+      if (registered) return registered;
+    } catch (error) {
+      console.warn(
+        `⚠️ ERC-6538 lookup failed on ${network} for ${registrant}:`,
+        error,
+      );
+    }
+  }
+  return null;
+}
@@ -0,0 +1,466 @@
+import { existsSync, readFileSync } from "node:fs";
+import { mkdir, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { Redis as UpstashRedis } from "@upstash/redis";
+import IORedis from "ioredis";
+import { env } from "../config/env.js";
+
+/**
+ * Minimal key-value + list interface the backend needs from Redis.
+ *
+ * Values are always raw strings - callers JSON.stringify / JSON.parse
+ * themselves - so every backend behaves the same regardless of whether the
+ * underlying client auto-deserializes.
+ */
+export interface KeyValueStore {
+  readonly backend: StorageBackend;
+  get(key: string): Promise<string | null>;
+  // Returns false when `nx` is set and the key already exists
+  set(key: string, value: string, options?: SetOptions): Promise<boolean>;
+  del(...keys: string[]): Promise<number>;
+  keys(pattern: string): Promise<string[]>;
+  incr(key: string): Promise<number>;
+  expire(key: string, seconds: number): Promise<void>;
+  lpush(key: string, ...values: string[]): Promise<number>;
+  ltrim(key: string, start: number, stop: number): Promise<void>;
+  lrange(key: string, start: number, stop: number): Promise<string[]>;
+  llen(key: string): Promise<number>;
+  ping(): Promise<boolean>;
+  close(): Promise<void>;
+}
+
+export type StorageBackend = "upstash" | "redis" | "memory";
+
+export interface SetOptions {
+  ex?: number; // TTL in seconds
+  nx?: boolean; // only set if the key does not exist
+}
+
+export class UpstashStore implements KeyValueStore {
+  readonly backend = "upstash";
+  private client: UpstashRedis;
+
+  constructor(url: string, token: string) {
+    this.client = new UpstashRedis({
+      url,
+      token,
+      automaticDeserialization: false,
+    });
+  }
+
+  async get(key: string): Promise<string | null> {
+    return this.client.get<string>(key);
+  }
+
+  async set(
+    key: string,
+    value: string,
+    options?: SetOptions,
+  ): Promise<boolean> {
+    let result: string | null;
+    if (options?.ex && options.nx) {
+      result = await this.client.set(key, value, { ex: options.ex, nx: true });
+    } else if (options?.ex) {
+      result = await this.client.set(key, value, { ex: options.ex });
+    } else if (options?.nx) {
+      result = await this.client.set(key, value, { nx: true });
+    } else {
+      result = await this.client.set(key, value);
+    }
+    return result !== null;
+  }
+
+  async del(...keys: string[]): Promise<number> {
+    if (keys.length === 0) return 0;
+    return this.client.del(...keys);
+  }
+
+  async keys(pattern: string): Promise<string[]> {
+    return this.client.keys(pattern);
+  }
+
+  async incr(key: string): Promise<number> {
+    return this.client.incr(key);
+  }
+
+  async expire(key: string, seconds: number): Promise<void> {
+    await this.client.expire(key, seconds);
+  }
+
+  async lpush(key: string, ...values: string[]): Promise<number> {
+    return this.client.lpush(key, ...values);
+  }
+
+  async ltrim(key: string, start: number, stop: number): Promise<void> {
+    await this.client.ltrim(key, start, stop);
+  }
+
+  async lrange(key: string, start: number, stop: number): Promise<string[]> {
+    return this.client.lrange(key, start, stop);
+  }
+
+  async llen(key: string): Promise<number> {
+    return this.client.llen(key);
+  }
+
+  async ping(): Promise<boolean> {
+    // Throws when Upstash can't be reached
+    await this.client.ping();
+    return true;
+  }
+
+  async close(): Promise<void> {
+    // Upstash is stateless HTTP - nothing to close
+  }
+}
+
+export class RedisStore implements KeyValueStore {
+  readonly backend = "redis";
+  private client: IORedis;
+
+  constructor(url: string) {
+    this.client = new IORedis(url, { maxRetriesPerRequest: 3 });
+    this.client.on("error", (error) => {
+      console.error("❌ Redis connection error:", error.message);
+    });
+  }
+
+  async get(key: string): Promise<string | null> {
+    return this.client.get(key);
+  }
+
+  async set(
+    key: string,
+    value: string,
+    options?: SetOptions,
+  ): Promise<boolean> {
+    const args: (string | number)[] = [];
+    if (options?.ex) args.push("EX", options.ex);
+    if (options?.nx) args.push("NX");
+    const result = await this.client.call("SET", key, value, ...args);
+    return result === "OK";
+  }
+
+  async del(...keys: string[]): Promise<number> {
+    if (keys.length === 0) return 0;
+    return this.client.del(...keys);
+  }
+
+  async keys(pattern: string): Promise<string[]> {
+    return this.client.keys(pattern);
+  }
+
+  async incr(key: string): Promise<number> {
+    return this.client.incr(key);
+  }
+
+  async expire(key: string, seconds: number): Promise<void> {
+    await this.client.expire(key, seconds);
+  }
+
+  async lpush(key: string, ...values: string[]): Promise<number> {
+    return this.client.lpush(key, ...values);
+  }
+
+  async ltrim(key: string, start: number, stop: number): Promise<void> {
+    await this.client.ltrim(key, start, stop);
+  }
+
+  async lrange(key: string, start: number, stop: number): Promise<string[]> {
+    return this.client.lrange(key, start, stop);
+  }
+
+  async llen(key: string): Promise<number> {
+    return this.client.llen(key);
+  }
+
+  async ping(): Promise<boolean> {
+    // Throws when Redis can't be reached
+    await this.client.ping();
+    return true;
+  }
+
+  async close(): Promise<void> {
+    await this.client.quit();
+  }
+}
+
+interface MemoryEntry {
+  value: string | string[];
+  expiresAt?: number; // epoch ms
+}
+
+/**
+ * In-process store with Redis semantics for the subset above. When given a
+ * file path, the whole keyspace is snapshotted to JSON (debounced) and
+ * reloaded on start, so local development survives restarts.
+ */
+export class MemoryStore implements KeyValueStore {
+  readonly backend = "memory";
+  private data = new Map<string, MemoryEntry>();
+  private persistTimer: NodeJS.Timeout | null = null;
+  private persisting: Promise<void> = Promise.resolve();
+
+  constructor(private filePath?: string) {
+    if (filePath && existsSync(filePath)) {
+      try {
+        const snapshot = JSON.parse(readFileSync(filePath, "utf8")) as Record<
+          string,
+          MemoryEntry
+        >;
+        for (const [key, entry] of Object.entries(snapshot)) {
+          this.data.set(key, entry);
+        }
+        console.log(`📂 Loaded ${this.data.size} keys from ${filePath}`);
+      } catch (error) {
+        console.error(`❌ Failed to load storage file ${filePath}:`, error);
+      }
+    }
+  }
+
+  private entry(key: string): MemoryEntry | undefined {
+    const entry = this.data.get(key);
+    if (entry?.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      this.data.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  private list(key: string): string[] {
+    const entry = this.entry(key);
+    if (!entry) return [];
+    if (!Array.isArray(entry.value)) {
+      throw new Error(`WRONGTYPE: ${key} does not hold a list`);
+    }
+    return entry.value;
+  }
+
+  private schedulePersist(): void {
+    if (!this.filePath || this.persistTimer) return;
+
+    this.persistTimer = setTimeout(() => {
+      this.persistTimer = null;
+      this.persisting = this.persisting.then(() => this.persist());
+    }, 500);
+    this.persistTimer.unref();
+  }
+
+  private async persist(): Promise<void> {
+    if (!this.filePath) return;
+
+    try {
+      const snapshot: Record<string, MemoryEntry> = {};
+      for (const key of this.data.keys()) {
+        const entry = this.entry(key);
+        if (entry) snapshot[key] = entry;
+      }
+
+      await mkdir(path.dirname(this.filePath), { recursive: true });
+      const tmpPath = `${this.filePath}.tmp`;
+      await writeFile(tmpPath, JSON.stringify(snapshot));
+      await rename(tmpPath, this.filePath);
+    } catch (error) {
+      console.error(`❌ Failed to persist storage to ${this.filePath}:`, error);
+    }
+  }
+
+  get(key: string): Promise<string | null> {
+    return settle(() => {
+      const entry = this.entry(key);
+      if (!entry) return null;
+      if (Array.isArray(entry.value)) {
+        throw new Error(`WRONGTYPE: ${key} holds a list`);
+      }
+      return entry.value;
+    });
+  }
+
+  set(key: string, value: string, options?: SetOptions): Promise<boolean> {
+    return settle(() => {
+      if (options?.nx && this.entry(key)) return false;
+
+      this.data.set(key, {
+        value,
+        expiresAt: options?.ex ? Date.now() + options.ex * 1000 : undefined,
+      });
+      this.schedulePersist();
+      return true;
+    });
+  }
+
+  del(...keys: string[]): Promise<number> {
+    return settle(() => {
+      let deleted = 0;
+      for (const key of keys) {
+        if (this.entry(key) && this.data.delete(key)) deleted++;
+      }
+      if (deleted > 0) this.schedulePersist();
+      return deleted;
+    });
+  }
+
+  keys(pattern: string): Promise<string[]> {
+    return settle(() => {
+      const regex = globToRegExp(pattern);
+      return Array.from(this.data.keys()).filter(
+        (key) => regex.test(key) && this.entry(key) !== undefined,
+      );
+    });
+  }
+
+  incr(key: string): Promise<number> {
+    return settle(() => {
+      const entry = this.entry(key);
+      const current = entry ? parseInt(entry.value as string, 10) : 0;
+      if (Number.isNaN(current)) {
+        throw new Error(`ERR value at ${key} is not an integer`);
+      }
+
+      const next = current + 1;
+      this.data.set(key, {
+        value: next.toString(),
+        expiresAt: entry?.expiresAt,
+      });
+      this.schedulePersist();
+      return next;
+    });
+  }
+
+  expire(key: string, seconds: number): Promise<void> {
+    return settle(() => {
+      const entry = this.entry(key);
+      if (!entry) return;
+      entry.expiresAt = Date.now() + seconds * 1000;
+      this.schedulePersist();
+    });
+  }
+
+  lpush(key: string, ...values: string[]): Promise<number> {
+    return settle(() => {
+      const entry = this.entry(key);
+      const list = [...values.reverse(), ...this.list(key)];
+      this.data.set(key, { value: list, expiresAt: entry?.expiresAt });
+      this.schedulePersist();
+      return list.length;
+    });
+  }
+
+  ltrim(key: string, start: number, stop: number): Promise<void> {
+    return settle(() => {
+      const entry = this.entry(key);
+      if (!entry) return;
+      entry.value = sliceRange(this.list(key), start, stop);
+      this.schedulePersist();
+    });
+  }
+
+  lrange(key: string, start: number, stop: number): Promise<string[]> {
+    return settle(() => {
+      return sliceRange(this.list(key), start, stop);
+    });
+  }
+
+  llen(key: string): Promise<number> {
+    return settle(() => {
+      return this.list(key).length;
+    });
+  }
+
+  ping(): Promise<boolean> {
+    return settle(() => {
+      return true;
+    });
+  }
+
+  async close(): Promise<void> {
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
+      this.persistTimer = null;
+      this.persisting = this.persisting.then(() => this.persist());
+    }
+    await this.persisting;
+  }
+}
+
+// MemoryStore works synchronously but, like the network stores, reports
+// errors (WRONGTYPE, ...) as rejections
+function settle<T>(run: () => T): Promise<T> {
+  return new Promise((resolve) => {
+    resolve(run());
+  });
+}
+
+// Redis LRANGE/LTRIM index semantics (inclusive stop, negative from the end)
+function sliceRange(list: string[], start: number, stop: number): string[] {
+  const from = start < 0 ? Math.max(list.length + start, 0) : start;
+  const to = stop < 0 ? list.length + stop : stop;
+  return list.slice(from, to + 1);
+}
+
+// Redis KEYS glob: `*` and `?` wildcards, everything else literal
+function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern
+    .split("")
+    .map((char) => {
+      if (char === "*") return ".*";
+      if (char === "?") return ".";
+      return char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("");
+  return new RegExp(`^${escaped}$`);
+}
+
+/**
+ * Pick a backend from the environment. `STORAGE_BACKEND` forces a choice;
+ * otherwise Upstash credentials win, then `REDIS_URL`, then the in-process
+ * store (persisted to `STORAGE_FILE` when set).
+ */
+export function createStore(): KeyValueStore {
+  const backend =
+    env.STORAGE_BACKEND ??
+    (env.UPSTASH_REDIS_REST_URL && env.UPSTASH_REDIS_REST_TOKEN
+      ? "upstash"
+      : env.REDIS_URL
+        ? "redis"
+        : "memory");
+
+  switch (backend) {
+    case "upstash":
+      if (!env.UPSTASH_REDIS_REST_URL || !env.UPSTASH_REDIS_REST_TOKEN) {
+        throw new Error(
+          "STORAGE_BACKEND=upstash requires UPSTASH_REDIS_REST_URL and UPSTASH_REDIS_REST_TOKEN",
+        );
+      }
+      console.log("✅ Storage: Upstash Redis");
+      return new UpstashStore(
+        env.UPSTASH_REDIS_REST_URL,
+        env.UPSTASH_REDIS_REST_TOKEN,
+      );
+
+    case "redis":
+      if (!env.REDIS_URL) {
+        throw new Error("STORAGE_BACKEND=redis requires REDIS_URL");
+      }
+      console.log("✅ Storage: Redis (ioredis)");
+      return new RedisStore(env.REDIS_URL);
+
+    case "memory":
+      console.log(
+        env.STORAGE_FILE
+          ? `✅ Storage: in-memory, persisted to ${env.STORAGE_FILE}`
+          : "⚠️ Storage: in-memory only - data is lost on restart",
+      );
+      return new MemoryStore(env.STORAGE_FILE);
+  }
+}
+
+let sharedStore: KeyValueStore | null = null;
+
+// Process-wide store shared by AgentDatabase and the stealth monitor
+export function getStore(): KeyValueStore {
+  if (!sharedStore) {
+    sharedStore = createStore();
+  }
+  return sharedStore;
+}
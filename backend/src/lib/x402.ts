@@ -0,0 +1,243 @@
+import {
+  getAddress,
+  isAddress,
+  isHex,
+  type Address,
+  type Hash,
+  type Hex,
+} from "viem";
+import { env } from "../config/env";
+
+// x402 "exact" payments (https://github.com/coinbase/x402), server side: a
+// 402 response lists `accepts` requirements, the client retries with an
+// `X-PAYMENT` header carrying a signed EIP-3009 authorization, and a
+// facilitator verifies and settles it before we answer with
+// `X-PAYMENT-RESPONSE`. The backend settles through the HTTP facilitator
+// at X402_FACILITATOR_URL.
+
+export const X402_VERSION = 1;
+
+const DEFAULT_MAX_TIMEOUT_SECONDS = 300;
+
+// USDC per x402 network, with the EIP-712 domain it signs authorizations under
+export const X402_USDC: Record<
+  X402Network,
+  { address: Address; name: string; version: string; decimals: number }
+> = {
+  base: {
+    address: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
+    name: "USD Coin",
+    version: "2",
+    decimals: 6,
+  },
+  "base-sepolia": {
+    address: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+    name: "USDC",
+    version: "2",
+    decimals: 6,
+  },
+};
+
+export type X402Network = "base" | "base-sepolia";
+
+export interface PaymentRequirements {
+  scheme: "exact";
+  network: X402Network;
+  maxAmountRequired: string; // smallest units
+  resource: string;
+  description: string;
+  mimeType: string;
+  payTo: Address;
+  maxTimeoutSeconds: number;
+  asset: Address;
+  extra: { name: string; version: string };
+}
+
+// As the buyer sent it; scheme and network are checked against the
+// requirements by whoever accepts it
+export interface PaymentPayload {
+  x402Version: number;
+  scheme: string;
+  network: string;
+  payload: {
+    signature: Hex;
+    authorization: {
+      from: Address;
+      to: Address;
+      value: string;
+      validAfter: string;
+      validBefore: string;
+      nonce: Hex;
+    };
+  };
+}
+
+export interface VerifyResponse {
+  isValid: boolean;
+  invalidReason?: string;
+  payer?: Address;
+}
+
+// Also the X-PAYMENT-RESPONSE body
+export interface SettleResponse {
+  success: boolean;
+  errorReason?: string;
+  transaction?: Hash;
+  network: string;
+  payer?: Address;
+}
+
+export interface Facilitator {
+  verify(
+    payment: PaymentPayload,
+    requirements: PaymentRequirements,
+  ): Promise<VerifyResponse>;
+  settle(
+    payment: PaymentPayload,
+    requirements: PaymentRequirements,
+  ): Promise<SettleResponse>;
+}
+
+export interface PaymentRequiredBody {
+  x402Version: number;
+  error: string;
+  accepts: PaymentRequirements[];
+}
+
+export function paymentRequiredBody(
+  accepts: PaymentRequirements[],
+  error: string,
+): PaymentRequiredBody {
+  return { x402Version: X402_VERSION, error, accepts };
+}
+
+// USDC requirement for a USD price, e.g. 0.01 -> "10000"
+export function buildUsdcRequirements(params: {
+  network: X402Network;
+  priceUsd: number;
+  payTo: string;
+  resource: string;
+  description: string;
+  mimeType?: string;
+}): PaymentRequirements {
+  const usdc = X402_USDC[params.network];
+  return {
+    scheme: "exact",
+    network: params.network,
+    maxAmountRequired: Math.round(
+      params.priceUsd * 10 ** usdc.decimals,
+    ).toString(),
+    resource: params.resource,
+    description: params.description,
+    mimeType: params.mimeType || "application/json",
+    payTo: getAddress(params.payTo),
+    maxTimeoutSeconds: DEFAULT_MAX_TIMEOUT_SECONDS,
+    asset: usdc.address,
+    extra: { name: usdc.name, version: usdc.version },
+  };
+}
+
+export function encodePaymentResponseHeader(
+  settlement: SettleResponse,
+): string {
+  return Buffer.from(JSON.stringify(settlement)).toString("base64");
+}
+
+// A decoded X-PAYMENT header before its shape is checked
+interface UncheckedPayment {
+  network?: unknown;
+  scheme?: unknown;
+  payload?: {
+    signature?: unknown;
+    authorization?: Record<string, unknown>;
+  };
+}
+
+// Decode and shape-check an X-PAYMENT header; null when it isn't one
+export function decodePaymentHeader(header: string): PaymentPayload | null {
+  let payment: UncheckedPayment | null;
+  try {
+    payment = JSON.parse(
+      Buffer.from(header, "base64").toString("utf-8"),
+    ) as UncheckedPayment | null;
+  } catch {
+    return null;
+  }
+
+  const authorization = payment?.payload?.authorization;
+  const isUint = (value: unknown) =>
+    typeof value === "string" && /^\d+$/.test(value);
+  const isAnyAddress = (value: unknown) =>
+    typeof value === "string" && isAddress(value, { strict: false });
+  if (
+    typeof payment?.network !== "string" ||
+    typeof payment.scheme !== "string" ||
+    !authorization ||
+    !isHex(payment.payload?.signature) ||
+    !isAnyAddress(authorization.from) ||
+    !isAnyAddress(authorization.to) ||
+    !isUint(authorization.value) ||
+    !isUint(authorization.validAfter) ||
+    !isUint(authorization.validBefore) ||
+    typeof authorization.nonce !== "string" ||
+    !/^0x[0-9a-fA-F]{64}$/.test(authorization.nonce)
+  ) {
+    return null;
+  }
+  return payment as PaymentPayload;
+}
+
+// Facilitator reached over HTTP (POST /verify and /settle)
+export function createFacilitatorClient(url: string): Facilitator {
+  const post = async <T>(
+    path: "verify" | "settle",
+    payment: PaymentPayload,
+    requirements: PaymentRequirements,
+  ): Promise<T> => {
+    const response = await fetch(`${url.replace(/\/$/, "")}/${path}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        x402Version: payment.x402Version,
+        paymentPayload: payment,
+        paymentRequirements: requirements,
+      }),
+    });
+    if (!response.ok) {
+      throw new Error(`Facilitator ${path} failed: HTTP ${response.status}`);
+    }
+    return (await response.json()) as T;
+  };
+
+  return {
+    async verify(payment, requirements) {
+      try {
+        return await post<VerifyResponse>("verify", payment, requirements);
+      } catch (error) {
+        console.error("❌ x402 facilitator verify failed:", error);
+        return { isValid: false, invalidReason: "facilitator_unavailable" };
+      }
+    },
+    async settle(payment, requirements) {
+      try {
+        return await post<SettleResponse>("settle", payment, requirements);
+      } catch (error) {
+        console.error("❌ x402 facilitator settle failed:", error);
+        return {
+          success: false,
+          errorReason: "facilitator_unavailable",
+          network: payment.network,
+        };
+      }
+    },
+  };
+}
+
+let facilitator: Facilitator | null = null;
+
+export function getFacilitator(): Facilitator {
+  if (!facilitator) {
+    facilitator = createFacilitatorClient(env.X402_FACILITATOR_URL);
+  }
+  return facilitator;
+}
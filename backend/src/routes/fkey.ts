@@ -2,6 +2,7 @@ import { ReclaimClient } from "@reclaimprotocol/zk-fetch";
 import { Router } from "express";
 import { env } from "../config/env.js";
 import { agentDb } from "../lib/agent-database.js";
+import { FKEY_ADDRESS_REGEX } from "../lib/reclaim-proof-verification.js";
 
 // Import Redis for ZK receipt storage
 import { Redis } from "@upstash/redis";
@@ -96,7 +97,7 @@ router.get("/lookup/:username", async (req, res) => {
             responseMatches: [
               {
                 type: "regex", 
-                value: "0x[a-fA-F0-9]{40}",
+                value: FKEY_ADDRESS_REGEX,
               },
             ],
           },
@@ -0,0 +1,147 @@
+import { Router, type Request } from "express";
+import { isAddress } from "viem";
+import { agentDb } from "../lib/agent-database.js";
+import {
+  EndpointValidationError,
+  personalDataEndpoints,
+  servePaidRequest,
+  verifyOwnerSignature,
+  type PersonalDataEndpoint,
+} from "../lib/personal-data-endpoints.js";
+
+const router = Router();
+
+// Public, paywalled URL of an endpoint on this server
+function paywalledUrl(req: Request, endpoint: PersonalDataEndpoint): string {
+  return `${req.protocol}://${req.get("host")}${req.baseUrl}/x402${endpoint.endpointPath}`;
+}
+
+// What anyone may see: never the upstream resourceUrl, which would let
+// callers fetch the data directly and skip the paywall
+function publicEndpoint(req: Request, endpoint: PersonalDataEndpoint) {
+  return {
+    endpointId: endpoint.endpointId,
+    endpointPath: endpoint.endpointPath,
+    url: paywalledUrl(req, endpoint),
+    price: endpoint.price,
+    description: endpoint.description,
+    owner: endpoint.owner,
+  };
+}
+
+// The full record, only for the owner who just signed for it
+function ownerEndpoint(req: Request, endpoint: PersonalDataEndpoint) {
+  return { ...endpoint, url: paywalledUrl(req, endpoint) };
+}
+
+/**
+ * GET /personal-data/endpoints
+ * All registered endpoints
+ */
+router.get("/endpoints", async (req, res) => {
+  try {
+    const endpoints = await personalDataEndpoints.list();
+    res.json({
+      success: true,
+      endpoints: endpoints.map((endpoint) => publicEndpoint(req, endpoint)),
+    });
+  } catch (error) {
+    console.error("❌ Failed to list personal-data endpoints:", error);
+    res
+      .status(500)
+      .json({ success: false, error: "Failed to fetch endpoints" });
+  }
+});
+
+/**
+ * GET /personal-data/endpoints/:owner
+ * Endpoints of one owner, by address or fkey.id
+ */
+router.get("/endpoints/:owner", async (req, res) => {
+  try {
+    let owner = req.params.owner;
+    if (!isAddress(owner, { strict: false })) {
+      const stealthData = await agentDb.getStealthDataByFkey(
+        owner.replace(/\.fkey\.id$/i, ""),
+      );
+      if (!stealthData || !isAddress(stealthData.userId, { strict: false })) {
+        return res.json({ success: true, endpoints: [] });
+      }
+      owner = stealthData.userId;
+    }
+
+    const endpoints = await personalDataEndpoints.listByOwner(owner);
+    res.json({
+      success: true,
+      endpoints: endpoints.map((endpoint) => publicEndpoint(req, endpoint)),
+    });
+  } catch (error) {
+    console.error("❌ Failed to list personal-data endpoints:", error);
+    res
+      .status(500)
+      .json({ success: false, error: "Failed to fetch endpoints" });
+  }
+});
+
+/**
+ * POST /personal-data/endpoints
+ * Register an EndpointRequest (`url` is accepted for `resourceUrl`), signed
+ * by the owner with `signature` and `issuedAt`
+ */
+router.post("/endpoints", async (req, res) => {
+  try {
+    await verifyOwnerSignature(req.body ?? {});
+    const endpoint = await personalDataEndpoints.register(req.body ?? {});
+    console.log(
+      `✅ Registered personal-data endpoint ${endpoint.endpointPath} for ${endpoint.owner}`,
+    );
+    res
+      .status(201)
+      .json({ success: true, endpoint: ownerEndpoint(req, endpoint) });
+  } catch (error) {
+    if (error instanceof EndpointValidationError) {
+      return res
+        .status(error.status)
+        .json({ success: false, error: error.message });
+    }
+    console.error("❌ Failed to register personal-data endpoint:", error);
+    res
+      .status(500)
+      .json({ success: false, error: "Failed to create endpoint" });
+  }
+});
+
+/**
+ * GET /personal-data/x402/api/...
+ * x402-paywalled reverse proxy to the endpoint's resource
+ */
+router.get(/^\/x402(\/api\/.+)$/, async (req, res) => {
+  try {
+    const endpointPath = req.params[0];
+    const endpoint = await personalDataEndpoints.getByPath(endpointPath);
+    if (!endpoint) {
+      return res
+        .status(404)
+        .json({ success: false, error: "Endpoint not found" });
+    }
+
+    const resource = `${req.protocol}://${req.get("host")}${req.baseUrl}${req.path}`;
+    const result = await servePaidRequest(
+      endpoint,
+      req.get("X-PAYMENT"),
+      resource,
+    );
+
+    res.status(result.status).set(result.headers);
+    if (Buffer.isBuffer(result.body)) {
+      res.send(result.body);
+    } else {
+      res.json(result.body);
+    }
+  } catch (error) {
+    console.error("❌ Personal-data proxy error:", error);
+    res.status(500).json({ success: false, error: "Internal server error" });
+  }
+});
+
+export default router;
@@ -1,6 +1,7 @@
 import express from 'express';
 import { agentDb } from '../lib/agent-database';
 import { isAddress } from 'viem';
+import { verifyFkeyLookup } from '../lib/reclaim-proof-verification';
 import { validationMiddleware, dataValidator, ValidationWarning } from '../services/data-validation-service';
 
 // Extend Express Request interface to include validation properties
@@ -127,6 +128,15 @@ router.post('/', validationMiddleware('user-stealth-data-create'), async (req, r
         });
       }
 
+      // Only store an address the attestor's proof vouches for
+      const { proof, verification } = await verifyFkeyLookup(fkeyId, fkeyLookupResult);
+      if (!verification.verified) {
+        return res.status(422).json({
+          success: false,
+          error: `ZK proof for ${fkeyId}.fkey.id could not be verified (${verification.reason})`
+        });
+      }
+
       console.log(`🔑 Miniapp settings: Using connected wallet as primary address: ${userAddress} for fkey.id: ${fkeyId}`);
 
       // Update existing data with fresh verification
@@ -135,7 +145,8 @@ router.post('/', validationMiddleware('user-stealth-data-create'), async (req, r
         userId: userAddress.toLowerCase(), // ✅ FIXED: Use connected wallet address
         fkeyId,
         stealthAddress: fkeyLookupResult.address, // ✅ Current stealth address from fresh lookup
-        zkProof: fkeyLookupResult.proof, // ✅ Fresh ZK proof for verification
+        zkProof: proof, // ✅ Fresh, verified ZK proof
+        proofVerification: verification,
         lastUpdated: Date.now(),
         setupStatus: 'fkey_set' as const,
         metadata: {
@@ -190,6 +201,15 @@ router.post('/', validationMiddleware('user-stealth-data-create'), async (req, r
         });
       }
 
+      // Only store an address the attestor's proof vouches for
+      const { proof, verification } = await verifyFkeyLookup(fkeyId, fkeyLookupResult);
+      if (!verification.verified) {
+        return res.status(422).json({
+          success: false,
+          error: `ZK proof for ${fkeyId}.fkey.id could not be verified (${verification.reason})`
+        });
+      }
+
       console.log(`🔑 Miniapp settings: Using connected wallet as primary address: ${userAddress} for fkey.id: ${fkeyId}`);
 
       // Create new stealth data entry using primary address
@@ -197,7 +217,8 @@ router.post('/', validationMiddleware('user-stealth-data-create'), async (req, r
         userId: userAddress.toLowerCase(), // ✅ FIXED: Use connected wallet address
         fkeyId,
         stealthAddress: fkeyLookupResult.address, // ✅ Current stealth address from fresh lookup
-        zkProof: fkeyLookupResult.proof, // ✅ Fresh ZK proof for verification
+        zkProof: proof, // ✅ Fresh, verified ZK proof
+        proofVerification: verification,
         requestedBy: 'frontend-settings',
         setupStatus: 'fkey_set' as const,
         lastUpdated: Date.now(),
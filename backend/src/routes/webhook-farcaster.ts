@@ -3,6 +3,7 @@ import * as crypto from 'crypto';
 import { agentDb } from '../lib/agent-database.js';
 import { env } from '../config/env.js';
 import { resolvePrimaryFromFarcaster } from '../lib/primary-address-resolver.js';
+import { verifyFkeyLookup, type ProofVerification } from '../lib/reclaim-proof-verification.js';
 
 const router = Router();
 
@@ -333,6 +334,7 @@ Please try again or check your fkey.id on https://app.fluidkey.com`
       fkeyId: fkeyId,
       stealthAddress: fkeyLookupResult.address || "",
       zkProof: fkeyLookupResult.proof,
+      proofVerification: fkeyLookupResult.verification,
       lastUpdated: Date.now(),
       requestedBy: 'farcaster-cast',
       setupStatus: 'fkey_set' as const,
@@ -393,9 +395,9 @@ Please try again or check your fkey.id on https://app.fluidkey.com`
 });
 
 /**
- * Helper function to call fkey.id lookup API
+ * Helper function to call fkey.id lookup API and verify its ZK proof
  */
-async function callFkeyLookupAPI(fkeyId: string, userAddress: string, source: string): Promise<{ address?: string; proof?: unknown; error?: string }> {
+async function callFkeyLookupAPI(fkeyId: string, userAddress: string, source: string): Promise<{ address?: string; proof?: unknown; verification?: ProofVerification; error?: string }> {
   try {
     const baseUrl = env.FRONTEND_URL || 'http://localhost:3000';
     const response = await fetch(`${baseUrl}/api/fkey/lookup/${fkeyId}?userAddress=${userAddress}&source=${source}`);
@@ -404,12 +406,19 @@ async function callFkeyLookupAPI(fkeyId: string, userAddress: string, source: st
       throw new Error(`HTTP ${response.status}: ${response.statusText}`);
     }
     
-    const data = await response.json() as { isRegistered?: boolean; address?: string; proof?: unknown; error?: string };
+    const data = await response.json() as { isRegistered?: boolean; address?: string; proof?: unknown; proofs?: unknown[]; error?: string };
     
     if (data.isRegistered && data.address) {
+      const { proof, verification } = await verifyFkeyLookup(fkeyId, data);
+      if (!verification.verified) {
+        return {
+          error: `ZK proof could not be verified (${verification.reason})`
+        };
+      }
       return {
         address: data.address,
-        proof: data.proof || null
+        proof,
+        verification
       };
     } else {
       return {
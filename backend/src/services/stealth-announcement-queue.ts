@@ -0,0 +1,277 @@
+import { erc20Abi, parseAbiItem, type Address, type Hex } from "viem";
+import {
+  announceStealthPayment,
+  ERC5564_ANNOUNCER,
+  isStealthAnnouncerConfigured,
+  type StealthPaymentTarget,
+} from "../lib/stealth-announcer";
+import { getStealthRpcPool } from "../lib/stealth-chains";
+import { getStealthNetworkName } from "../lib/stealth-networks";
+import { getStore, type KeyValueStore } from "../lib/storage";
+
+const ANNOUNCEMENT_EVENT = parseAbiItem(
+  "event Announcement(uint256 indexed schemeId, address indexed stealthAddress, address indexed caller, bytes ephemeralPubKey, bytes metadata)",
+);
+
+export interface PendingAnnouncement {
+  chainId: number;
+  target: StealthPaymentTarget;
+  token: Address | null; // null for the chain's native token
+  requesterId: string;
+  fromBlock: string; // block the link was created at
+  scannedThrough?: string; // last block checked for an announcement
+  createdAt: number;
+}
+
+/** Chain reads and the announce transaction, swappable in tests */
+export interface AnnouncementChain {
+  getBlockNumber(chainId: number): Promise<bigint>;
+  isFunded(pending: PendingAnnouncement): Promise<boolean>;
+  isAnnounced(
+    pending: PendingAnnouncement,
+    fromBlock: bigint,
+    toBlock: bigint,
+  ): Promise<boolean>;
+  announce(pending: PendingAnnouncement): Promise<Hex | null>;
+}
+
+const rpcAnnouncementChain: AnnouncementChain = {
+  async getBlockNumber(chainId) {
+    return pool(chainId).getBlockNumber();
+  },
+
+  async isFunded({ chainId, target, token }) {
+    const balance = await pool(chainId).request((client) =>
+      token
+        ? client.readContract({
+            address: token,
+            abi: erc20Abi,
+            functionName: "balanceOf",
+            args: [target.stealthAddress],
+          })
+        : client.getBalance({ address: target.stealthAddress }),
+    );
+    return balance > BigInt(0);
+  },
+
+  async isAnnounced({ chainId, target }, fromBlock, toBlock) {
+    const logs = await pool(chainId).request((client) =>
+      client.getLogs({
+        address: ERC5564_ANNOUNCER,
+        event: ANNOUNCEMENT_EVENT,
+        args: { stealthAddress: target.stealthAddress },
+        fromBlock,
+        toBlock,
+      }),
+    );
+    return logs.length > 0;
+  },
+
+  async announce({ chainId, target }) {
+    return announceStealthPayment(target, chainId);
+  },
+};
+
+function pool(chainId: number) {
+  const network = getStealthNetworkName(chainId);
+  if (!network) throw new Error(`Not a stealth network: ${chainId}`);
+  return getStealthRpcPool(network);
+}
+
+/**
+ * Announcements for one-time stealth addresses handed out in payment links.
+ * Nothing is sent when the link is created: the payer's wallet batch carries
+ * the announce call, and this queue only announces from the agent's key once
+ * the address holds funds and no announcement has appeared on-chain, so
+ * plain-link payments stay discoverable without letting link requests spend
+ * the announcer's gas.
+ */
+export class StealthAnnouncementQueue {
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<void> | null = null;
+
+  private readonly KEY_PREFIX = "stealth-announce:pending:";
+  private readonly PENDING_TTL = 86400 * 7; // 7 days, same as the link's receipt
+  private readonly SEND_LOCK_TTL = 600; // 10 minutes
+  private readonly MAX_QUEUED_PER_DAY = 20; // per requester
+  private readonly CHECK_INTERVAL = 5 * 60 * 1000; // 5 minutes
+  // getLogs window public RPCs accept, and how many to check per address per run
+  private readonly SCAN_RANGE = 1000n;
+  private readonly MAX_SCAN_CHUNKS = 50;
+
+  constructor(
+    private readonly store: KeyValueStore = getStore(),
+    private readonly chain: AnnouncementChain = rpcAnnouncementChain,
+  ) {}
+
+  /**
+   * Watch `target` until it's paid. Returns false when the chain isn't a
+   * stealth network or `requesterId` is over its daily quota; the payer's
+   * batch is then the only announcement.
+   */
+  async enqueue(
+    target: StealthPaymentTarget,
+    chainId: number,
+    token: Address | null,
+    requesterId: string,
+  ): Promise<boolean> {
+    if (!getStealthNetworkName(chainId)) return false;
+
+    const quotaKey = `stealth-announce:quota:${requesterId}:${Math.floor(Date.now() / 86400000)}`; // daily bucket
+    const queued = await this.store.incr(quotaKey);
+    await this.store.expire(quotaKey, 86400);
+    if (queued > this.MAX_QUEUED_PER_DAY) {
+      console.warn(
+        `⚠️ Announcement quota reached for ${requesterId}, relying on the payer's batch`,
+      );
+      return false;
+    }
+
+    const pending: PendingAnnouncement = {
+      chainId,
+      target,
+      token,
+      requesterId,
+      fromBlock: (await this.chain.getBlockNumber(chainId)).toString(),
+      createdAt: Date.now(),
+    };
+    await this.store.set(
+      this.pendingKey(chainId, target.stealthAddress),
+      JSON.stringify(pending),
+      { ex: this.PENDING_TTL },
+    );
+    return true;
+  }
+
+  /**
+   * Announce every queued address that has been paid but not announced.
+   * Returns the number of announcements sent.
+   */
+  async processPending(): Promise<number> {
+    let sent = 0;
+
+    for (const key of await this.store.keys(`${this.KEY_PREFIX}*`)) {
+      const raw = await this.store.get(key);
+      if (!raw) continue;
+
+      try {
+        const pending = JSON.parse(raw) as PendingAnnouncement;
+        if (!(await this.chain.isFunded(pending))) continue;
+
+        // The payer's batch usually announced already. Long-lived links are
+        // scanned a bounded chunk at a time, resuming from the saved block
+        const announced = await this.scanForAnnouncement(pending);
+        if (announced === null) {
+          await this.savePending(key, pending);
+          continue;
+        }
+
+        if (!announced) {
+          // One sender per address across instances
+          const lock = key.replace(
+            this.KEY_PREFIX,
+            "stealth-announce:sending:",
+          );
+          const claimed = await this.store.set(lock, "1", {
+            nx: true,
+            ex: this.SEND_LOCK_TTL,
+          });
+          if (!claimed) continue;
+
+          const txHash = await this.chain.announce(pending);
+          console.log(
+            `📣 Announced stealth payment to ${pending.target.stealthAddress}: ${txHash}`,
+          );
+          sent++;
+        }
+        await this.store.del(key);
+      } catch (error) {
+        console.error(`Failed to process pending announcement ${key}:`, error);
+      }
+    }
+
+    return sent;
+  }
+
+  /**
+   * Check the blocks since the last run for an announcement of the pending
+   * address, up to MAX_SCAN_CHUNKS windows. Null when the scan hasn't
+   * reached the chain head yet; `pending.scannedThrough` records how far it got.
+   */
+  private async scanForAnnouncement(
+    pending: PendingAnnouncement,
+  ): Promise<boolean | null> {
+    const head = await this.chain.getBlockNumber(pending.chainId);
+    let fromBlock = pending.scannedThrough
+      ? BigInt(pending.scannedThrough) + 1n
+      : BigInt(pending.fromBlock);
+
+    for (let chunk = 0; chunk < this.MAX_SCAN_CHUNKS; chunk++) {
+      if (fromBlock > head) return false;
+
+      const toBlock =
+        fromBlock + this.SCAN_RANGE - 1n < head
+          ? fromBlock + this.SCAN_RANGE - 1n
+          : head;
+      try {
+        if (await this.chain.isAnnounced(pending, fromBlock, toBlock)) {
+          return true;
+        }
+      } catch (error) {
+        if (chunk === 0) throw error;
+        // Keep what was scanned; the next run retries from here
+        console.warn(
+          `⚠️ Announcement scan for ${pending.target.stealthAddress} stopped at block ${fromBlock}:`,
+          error,
+        );
+        return null;
+      }
+      pending.scannedThrough = toBlock.toString();
+      fromBlock = toBlock + 1n;
+    }
+    return fromBlock > head ? false : null;
+  }
+
+  // Persist scan progress without extending the link's original expiry
+  private async savePending(
+    key: string,
+    pending: PendingAnnouncement,
+  ): Promise<void> {
+    const elapsed = Math.floor((Date.now() - pending.createdAt) / 1000);
+    const ttl = this.PENDING_TTL - elapsed;
+    if (ttl <= 0) {
+      await this.store.del(key);
+      return;
+    }
+    await this.store.set(key, JSON.stringify(pending), { ex: ttl });
+  }
+
+  start(): void {
+    if (this.timer || !isStealthAnnouncerConfigured()) return;
+
+    this.timer = setInterval(() => {
+      // Skip a tick rather than overlap a slow run
+      if (this.running) return;
+      this.running = this.processPending()
+        .then(() => undefined)
+        .catch((error) =>
+          console.error("Pending announcement check failed:", error),
+        )
+        .finally(() => {
+          this.running = null;
+        });
+    }, this.CHECK_INTERVAL);
+  }
+
+  async stop(): Promise<void> {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    await this.running;
+  }
+
+  private pendingKey(chainId: number, stealthAddress: Address): string {
+    return `${this.KEY_PREFIX}${chainId}:${stealthAddress.toLowerCase()}`;
+  }
+}
+
+export const stealthAnnouncementQueue = new StealthAnnouncementQueue();
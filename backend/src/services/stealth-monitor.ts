@@ -1,7 +1,19 @@
-import { Redis } from "@upstash/redis";
-import { createPublicClient, http, parseAbi, type Log } from "viem";
+import { randomUUID } from "node:crypto";
+import { decodeEventLog, parseAbi, type Hex, type Log } from "viem";
 import { base, baseSepolia, mainnet, sepolia } from "viem/chains";
 import { AgentDatabase } from "../lib/agent-database";
+import { RpcPool } from "../lib/rpc-pool";
+import {
+  checkStealthAddress,
+  parseStealthScanKey,
+  type StealthScanKey,
+} from "../lib/stealth-address";
+import {
+  getStealthNetworkChainId,
+  getStealthNetworkName,
+  STEALTH_NETWORKS,
+} from "../lib/stealth-networks";
+import { getStore, type KeyValueStore } from "../lib/storage";
 
 // Stealth contract addresses and ABIs
 const STEALTH_CONTRACTS = {
@@ -28,40 +40,105 @@ interface MonitoredUser {
     stealthAnnouncements: boolean;
   };
   lastNotified: number;
-  scanKeys?: string[];
+  scanKeys?: StealthScanKey[];
 }
 
 interface StealthEvent {
+  id: string; // `${chain}-${txHash}-${logIndex}`
   type: "announcement" | "registration";
   txHash: string;
+  logIndex: number;
   blockNumber: number;
   timestamp: number;
   address: string;
   amount?: string;
+  schemeId?: bigint;
   stealthAddress?: string;
-  ephemeralPubKey?: string;
-  metadata?: string;
+  ephemeralPubKey?: Hex;
+  metadata?: Hex;
   chainId: number;
 }
 
 interface ChainConfig {
   name: string;
-  client: any;
+  rpc: RpcPool;
   scanInterval: number;
   maxBlockRange: number;
   lastProcessed: number;
+  recentBlocks: CheckpointBlock[]; // oldest first, for reorg detection
+  reorgCount: number;
+  lastReorgAt: number | null;
   failureCount: number;
   nextScanTime: number;
 }
 
+interface CheckpointBlock {
+  number: number;
+  hash: Hex;
+}
+
+interface ChainCheckpoint {
+  lastProcessed: number;
+  recentBlocks: CheckpointBlock[];
+}
+
+export type NotificationChannel = "miniapp";
+
+// One row per notification attempt, newest first in the user's ledger
+export interface NotificationLedgerEntry {
+  eventId: string;
+  eventType: StealthEvent["type"];
+  chain: string;
+  txHash: string;
+  blockNumber: number;
+  stealthAddress?: string;
+  title: string;
+  body: string;
+  channel: NotificationChannel;
+  status: "sent" | "failed";
+  error?: string;
+  sentAt: number;
+}
+
+// A delivery that failed and is waiting for the retry loop. The user's
+// notification claim stays held, so re-scans don't send it a second time
+interface PendingNotification {
+  userId: string;
+  entry: NotificationLedgerEntry;
+  eventTimestamp: number;
+  attempts: number;
+  nextAttemptAt: number;
+}
+
+export type BackfillStatus =
+  "pending" | "running" | "paused" | "completed" | "failed" | "cancelled";
+
+export interface BackfillJob {
+  id: string;
+  chain: string;
+  fromBlock: number;
+  toBlock: number;
+  nextBlock: number; // first block not yet scanned - resume point
+  chunkSize: number;
+  status: BackfillStatus;
+  eventsFound: number;
+  createdAt: number;
+  updatedAt: number;
+  error?: string;
+}
+
 export class StealthMonitorService {
-  private redis: Redis;
+  private store: KeyValueStore;
   private database: AgentDatabase;
   private chains: Map<string, ChainConfig> = new Map();
   private isRunning: boolean = false;
   private monitoredUsers: Map<string, MonitoredUser> = new Map();
-  private processedEvents: Set<string> = new Set();
+  // eventId -> block; in-memory cache in front of the persisted
+  // `stealth-processed:*` keys
+  private processedEvents: Map<string, number> = new Map();
   private scanningPromises: Map<string, Promise<void>> = new Map();
+  private backfillJobs: Map<string, BackfillJob> = new Map();
+  private backfillQueue: Promise<void> = Promise.resolve();
 
   // Optimized settings for hourly scanning to reduce log spam
   private readonly MAX_NOTIFICATIONS_PER_HOUR = 10;
@@ -70,16 +147,21 @@ export class StealthMonitorService {
   private readonly MAX_SCAN_INTERVAL = 2 * 60 * 60 * 1000; // 2 hours max interval
   private readonly USER_REFRESH_INTERVAL = 2 * 60 * 60 * 1000; // 2 hours - reduced frequency
   private readonly MAX_BLOCK_RANGE = 50; // Larger range since we scan less frequently
-  private readonly PROCESSED_EVENTS_LIMIT = 10000; // Prevent memory leaks
+  private readonly PROCESSED_EVENTS_LIMIT = 10000; // Bounds the in-memory cache
   private readonly MAX_FAILURE_COUNT = 5;
+  private readonly CHECKPOINT_HISTORY = 32; // block hashes kept per chain
+  private readonly BACKFILL_CHUNK_SIZE = 500;
+  private readonly BACKFILL_JOB_TTL = 86400 * 30; // 30 days
+  private readonly NOTIFIED_EVENT_TTL = 86400 * 7; // 7 days
+  private readonly PROCESSED_EVENT_TTL = 86400 * 7; // 7 days
+  private readonly LEDGER_LIMIT = 100; // entries kept per user
+  private readonly LEDGER_TTL = 86400 * 30; // 30 days
+  private readonly NOTIFICATION_RETRY_INTERVAL = 5 * 60 * 1000; // 5 minutes
+  private readonly MAX_NOTIFICATION_ATTEMPTS = 5;
 
   constructor() {
-    this.redis = new Redis({
-      url: process.env.UPSTASH_REDIS_REST_URL!,
-      token: process.env.UPSTASH_REDIS_REST_TOKEN!,
-    });
-
-    this.database = new AgentDatabase();
+    this.store = getStore();
+    this.database = new AgentDatabase(this.store);
 
     // Initialize optimized chain configurations
     this.initializeChains();
@@ -136,22 +218,20 @@ export class StealthMonitorService {
     ];
 
     for (const config of chainConfigs) {
-      // Create client with fallback transports
-      const transports = config.rpcUrls.map((url) => http(url));
-      const client = createPublicClient({
-        chain: config.chain,
-        transport: transports[0], // Primary RPC
-        batch: {
-          multicall: true,
-        },
+      // Rotates through every configured RPC on errors / rate limits
+      const rpc = RpcPool.fromUrls(config.name, config.chain, config.rpcUrls, {
+        maxLogRange: config.maxBlockRange,
       });
 
       this.chains.set(config.name, {
         name: config.name,
-        client,
+        rpc,
         scanInterval: config.scanInterval,
         maxBlockRange: config.maxBlockRange,
         lastProcessed: 0,
+        recentBlocks: [],
+        reorgCount: 0,
+        lastReorgAt: null,
         failureCount: 0,
         nextScanTime: 0,
       });
@@ -179,6 +259,10 @@ export class StealthMonitorService {
       this.startParallelChainMonitoring();
       this.startUserRefresh();
       this.startEventCleanup();
+      this.startNotificationRetry();
+
+      // Resume backfills interrupted by a restart
+      await this.resumeBackfillJobs();
 
       console.log("✅ Enhanced stealth monitor service started successfully");
     } catch (error) {
@@ -198,6 +282,7 @@ export class StealthMonitorService {
     // Wait for all scanning promises to complete
     await Promise.allSettled(this.scanningPromises.values());
     this.scanningPromises.clear();
+    await this.backfillQueue;
   }
 
   /**
@@ -274,10 +359,13 @@ export class StealthMonitorService {
     const chainConfig = this.chains.get(chainName);
     if (!chainConfig) return;
 
-    const client = chainConfig.client;
+    const { rpc } = chainConfig;
+
+    // Roll back first if the blocks we last scanned are no longer canonical
+    await this.handleReorg(chainConfig);
 
     // Get current block number
-    const currentBlock = await client.getBlockNumber();
+    const currentBlock = await rpc.getBlockNumber();
     const lastProcessed = BigInt(
       chainConfig.lastProcessed || Number(currentBlock - 5n),
     ); // Start 5 blocks back
@@ -308,43 +396,7 @@ export class StealthMonitorService {
       }
 
       try {
-        // Parallel event scanning for both contracts
-        const [announcementLogs, registrationLogs] = await Promise.all([
-          this.getLogs(
-            client,
-            STEALTH_CONTRACTS.ERC5564Announcer,
-            ANNOUNCER_ABI[0],
-            fromBlock,
-            toBlock,
-          ),
-          this.getLogs(
-            client,
-            STEALTH_CONTRACTS.ERC6538Registry,
-            REGISTRY_ABI[0],
-            fromBlock,
-            toBlock,
-          ),
-        ]);
-
-        // Process events in parallel
-        const eventPromises = [
-          ...announcementLogs.map((log) =>
-            this.processAnnouncementEvent(log, chainName),
-          ),
-          ...registrationLogs.map((log) =>
-            this.processRegistrationEvent(log, chainName),
-          ),
-        ];
-
-        await Promise.allSettled(eventPromises);
-
-        // Only log when events are found
-        if (announcementLogs.length > 0 || registrationLogs.length > 0) {
-          console.log(
-            `📊 ${chainName}: ${announcementLogs.length} announcements, ${registrationLogs.length} registrations`,
-          );
-          totalEvents += announcementLogs.length + registrationLogs.length;
-        }
+        totalEvents += await this.scanBlockRange(chainName, fromBlock, toBlock);
       } catch (error) {
         console.error(
           `❌ Failed to scan ${chainName} blocks ${fromBlock}-${toBlock}:`,
@@ -353,14 +405,13 @@ export class StealthMonitorService {
         throw error; // Re-throw to trigger backoff
       }
 
-      fromBlock = toBlock + 1n;
+      // Checkpoint every chunk so a crash resumes mid-catch-up
+      await this.checkpoint(chainConfig, toBlock);
+
       totalBlocks += Number(toBlock - fromBlock + 1n);
+      fromBlock = toBlock + 1n;
     }
 
-    // Update last processed block
-    chainConfig.lastProcessed = Number(currentBlock);
-    await this.saveChainState(chainName, chainConfig.lastProcessed);
-
     // Log summary only if significant activity
     if (totalBlocks > 50 || totalEvents > 0) {
       console.log(
@@ -370,41 +421,356 @@ export class StealthMonitorService {
   }
 
   /**
-   * Robust getLogs with retry logic
+   * Fetch and process both stealth contracts' logs for one block range.
+   * Shared by the live scanner and backfill jobs. Returns the event count.
    */
-  private async getLogs(
-    client: any,
-    address: string,
-    event: any,
+  private async scanBlockRange(
+    chainName: string,
     fromBlock: bigint,
     toBlock: bigint,
-  ): Promise<Log[]> {
-    const maxRetries = 3;
-    let lastError: Error | null = null;
+  ): Promise<number> {
+    const chainConfig = this.chains.get(chainName);
+    if (!chainConfig) return 0;
 
-    for (let attempt = 1; attempt <= maxRetries; attempt++) {
-      try {
-        return await client.getLogs({
-          address,
-          event,
-          fromBlock,
-          toBlock,
-        });
-      } catch (error) {
-        lastError = error as Error;
-        console.warn(
-          `⚠️ getLogs attempt ${attempt}/${maxRetries} failed:`,
-          error,
+    const { rpc } = chainConfig;
+
+    // Parallel event scanning for both contracts
+    const [announcementLogs, registrationLogs] = await Promise.all([
+      rpc.getLogs({
+        address: STEALTH_CONTRACTS.ERC5564Announcer,
+        event: ANNOUNCER_ABI[0],
+        fromBlock,
+        toBlock,
+      }),
+      rpc.getLogs({
+        address: STEALTH_CONTRACTS.ERC6538Registry,
+        event: REGISTRY_ABI[0],
+        fromBlock,
+        toBlock,
+      }),
+    ]);
+
+    // Process events in parallel
+    const eventPromises = [
+      ...announcementLogs.map((log) =>
+        this.processAnnouncementEvent(log, chainName),
+      ),
+      ...registrationLogs.map((log) =>
+        this.processRegistrationEvent(log, chainName),
+      ),
+    ];
+
+    // Events only fail on decode, RPC or storage errors (failed deliveries
+    // are queued for retry instead). A failed event was un-marked, so
+    // throwing here keeps the range from being checkpointed (or a backfill
+    // chunk from advancing) and the re-scan picks up only what failed
+    const results = await Promise.allSettled(eventPromises);
+    const failed = results.filter((result) => result.status === "rejected");
+    if (failed.length > 0) {
+      throw new Error(
+        `${failed.length} of ${results.length} ${chainName} stealth events failed in blocks ${fromBlock}-${toBlock}`,
+        { cause: (failed[0] as PromiseRejectedResult).reason },
+      );
+    }
+
+    // Only log when events are found
+    if (announcementLogs.length > 0 || registrationLogs.length > 0) {
+      console.log(
+        `📊 ${chainName}: ${announcementLogs.length} announcements, ${registrationLogs.length} registrations`,
+      );
+    }
+
+    return announcementLogs.length + registrationLogs.length;
+  }
+
+  /**
+   * Record `blockNumber` (and its hash) as scanned and persist the checkpoint
+   */
+  private async checkpoint(
+    chainConfig: ChainConfig,
+    blockNumber: bigint,
+  ): Promise<void> {
+    const block = await chainConfig.rpc.request((client) =>
+      client.getBlock({ blockNumber }),
+    );
+
+    chainConfig.recentBlocks.push({
+      number: Number(blockNumber),
+      hash: block.hash,
+    });
+    if (chainConfig.recentBlocks.length > this.CHECKPOINT_HISTORY) {
+      chainConfig.recentBlocks.splice(
+        0,
+        chainConfig.recentBlocks.length - this.CHECKPOINT_HISTORY,
+      );
+    }
+    chainConfig.lastProcessed = Number(blockNumber);
+
+    await this.saveChainState(chainConfig.name, {
+      lastProcessed: chainConfig.lastProcessed,
+      recentBlocks: chainConfig.recentBlocks,
+    });
+  }
+
+  /**
+   * Compare stored checkpoint hashes with the chain, newest first. On a
+   * mismatch, rewind to the newest checkpoint that is still canonical so the
+   * orphaned range gets re-scanned. Events from the orphaned blocks are
+   * forgotten so re-included announcements are processed again; users who
+   * were already notified about them are skipped by the notification claim.
+   */
+  private async handleReorg(chainConfig: ChainConfig): Promise<void> {
+    const checkpoints = chainConfig.recentBlocks;
+    if (checkpoints.length === 0) return;
+
+    let rollbackTo: number | null = null;
+    let keep = 0;
+
+    for (let i = checkpoints.length - 1; i >= 0; i--) {
+      const block = await chainConfig.rpc.request((client) =>
+        client.getBlock({ blockNumber: BigInt(checkpoints[i].number) }),
+      );
+
+      if (block.hash === checkpoints[i].hash) {
+        if (i === checkpoints.length - 1) return; // tip still canonical
+        rollbackTo = checkpoints[i].number;
+        keep = i + 1;
+        break;
+      }
+    }
+
+    // Reorg deeper than our history - rewind past the oldest checkpoint
+    if (rollbackTo === null) {
+      rollbackTo = Math.max(
+        checkpoints[0].number - chainConfig.maxBlockRange,
+        0,
+      );
+    }
+
+    const orphanedFrom = rollbackTo + 1;
+    console.warn(
+      `🔀 ${chainConfig.name} reorg detected: rolling back from block ${chainConfig.lastProcessed} to ${rollbackTo}`,
+    );
+
+    await this.forgetOrphanedEvents(chainConfig.name, orphanedFrom);
+
+    chainConfig.recentBlocks = checkpoints.slice(0, keep);
+    chainConfig.lastProcessed = rollbackTo;
+    chainConfig.reorgCount++;
+    chainConfig.lastReorgAt = Date.now();
+
+    await this.saveChainState(chainConfig.name, {
+      lastProcessed: chainConfig.lastProcessed,
+      recentBlocks: chainConfig.recentBlocks,
+    });
+  }
+
+  /**
+   * Drop processed markers for `chain` events at or after `fromBlock`, from
+   * the store as well as the in-memory cache. Queued retries for those
+   * events are dropped along with their notification claims, so a
+   * re-included announcement is delivered once and an orphaned one not at
+   * all. Claims for delivered notifications are kept.
+   */
+  private async forgetOrphanedEvents(
+    chain: string,
+    fromBlock: number,
+  ): Promise<void> {
+    for (const [eventId, blockNumber] of this.processedEvents) {
+      if (eventId.startsWith(`${chain}-`) && blockNumber >= fromBlock) {
+        this.processedEvents.delete(eventId);
+      }
+    }
+
+    const orphaned: string[] = [];
+    for (const key of await this.store.keys(`stealth-processed:${chain}-*`)) {
+      const blockNumber = await this.store.get(key);
+      if (blockNumber !== null && Number(blockNumber) >= fromBlock) {
+        orphaned.push(key);
+      }
+    }
+
+    for (const key of await this.store.keys("stealth-notification-retry:*")) {
+      const data = await this.store.get(key);
+      if (!data) continue;
+
+      const { entry } = JSON.parse(data) as PendingNotification;
+      if (entry.chain === chain && entry.blockNumber >= fromBlock) {
+        orphaned.push(
+          key,
+          key.replace(/^stealth-notification-retry:/, "stealth-notified:"),
+        );
+      }
+    }
+
+    await this.store.del(...orphaned);
+  }
+
+  /**
+   * Queue a historical scan of `chain` between two blocks. Jobs run one at a
+   * time in chunks, persisting progress after each chunk so they resume
+   * where they left off after a restart.
+   */
+  async startBackfill(params: {
+    chain: string;
+    fromBlock: number;
+    toBlock: number;
+    chunkSize?: number;
+  }): Promise<BackfillJob> {
+    const chainConfig = this.chains.get(params.chain);
+    if (!chainConfig) {
+      throw new Error(
+        `Unknown chain "${params.chain}". Monitored chains: ${Array.from(this.chains.keys()).join(", ")}`,
+      );
+    }
+
+    const { fromBlock, toBlock } = params;
+    if (
+      !Number.isSafeInteger(fromBlock) ||
+      !Number.isSafeInteger(toBlock) ||
+      fromBlock < 0 ||
+      toBlock < fromBlock
+    ) {
+      throw new Error(
+        "fromBlock and toBlock must be integers with fromBlock <= toBlock",
+      );
+    }
+
+    const head = Number(await chainConfig.rpc.getBlockNumber());
+    if (toBlock > head) {
+      throw new Error(
+        `toBlock ${toBlock} is ahead of ${params.chain} head ${head}`,
+      );
+    }
+
+    const now = Date.now();
+    const job: BackfillJob = {
+      id: randomUUID(),
+      chain: params.chain,
+      fromBlock,
+      toBlock,
+      nextBlock: fromBlock,
+      chunkSize: Math.max(params.chunkSize ?? this.BACKFILL_CHUNK_SIZE, 1),
+      status: "pending",
+      eventsFound: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.backfillJobs.set(job.id, job);
+    await this.saveBackfillJob(job);
+    this.enqueueBackfill(job);
+
+    console.log(
+      `📼 Queued ${job.chain} backfill ${job.id}: blocks ${fromBlock}-${toBlock}`,
+    );
+    return job;
+  }
+
+  getBackfillJob(jobId: string): BackfillJob | null {
+    return this.backfillJobs.get(jobId) ?? null;
+  }
+
+  async cancelBackfill(jobId: string): Promise<BackfillJob | null> {
+    const job = this.backfillJobs.get(jobId);
+    if (!job) return null;
+
+    if (job.status !== "completed" && job.status !== "failed") {
+      job.status = "cancelled";
+      job.updatedAt = Date.now();
+      await this.saveBackfillJob(job);
+    }
+    return job;
+  }
+
+  private enqueueBackfill(job: BackfillJob): void {
+    // Only queue while running - paused jobs are picked up again by start()
+    if (!this.isRunning) return;
+
+    this.backfillQueue = this.backfillQueue.then(() => this.runBackfill(job));
+  }
+
+  private async runBackfill(job: BackfillJob): Promise<void> {
+    if (job.status === "cancelled" || job.status === "completed") return;
+
+    job.status = "running";
+    job.updatedAt = Date.now();
+    await this.saveBackfillJob(job);
+
+    try {
+      while (job.nextBlock <= job.toBlock) {
+        // Re-read status between chunks so cancel/stop take effect promptly
+        if ((job.status as BackfillStatus) === "cancelled") return;
+        if (!this.isRunning) {
+          job.status = "paused";
+          break;
+        }
+
+        const chunkEnd = Math.min(
+          job.nextBlock + job.chunkSize - 1,
+          job.toBlock,
+        );
+        job.eventsFound += await this.scanBlockRange(
+          job.chain,
+          BigInt(job.nextBlock),
+          BigInt(chunkEnd),
+        );
+        job.nextBlock = chunkEnd + 1;
+        job.updatedAt = Date.now();
+        await this.saveBackfillJob(job);
+      }
+
+      if (job.nextBlock > job.toBlock) {
+        job.status = "completed";
+        console.log(
+          `✅ ${job.chain} backfill ${job.id} complete: ${job.eventsFound} stealth events in blocks ${job.fromBlock}-${job.toBlock}`,
         );
+      }
+    } catch (error) {
+      job.status = "failed";
+      job.error = error instanceof Error ? error.message : String(error);
+      console.error(
+        `❌ ${job.chain} backfill ${job.id} failed at block ${job.nextBlock}:`,
+        error,
+      );
+    }
+
+    job.updatedAt = Date.now();
+    await this.saveBackfillJob(job);
+  }
+
+  private async resumeBackfillJobs(): Promise<void> {
+    try {
+      const keys = await this.store.keys("stealth-monitor:backfill:*");
+      for (const key of keys) {
+        const data = await this.store.get(key);
+        if (!data) continue;
 
-        if (attempt < maxRetries) {
-          // Wait before retry with exponential backoff
-          await new Promise((resolve) => setTimeout(resolve, 1000 * attempt));
+        const job: BackfillJob = JSON.parse(data);
+        this.backfillJobs.set(job.id, job);
+
+        if (["pending", "running", "paused"].includes(job.status)) {
+          console.log(
+            `📼 Resuming ${job.chain} backfill ${job.id} from block ${job.nextBlock}`,
+          );
+          this.enqueueBackfill(job);
         }
       }
+    } catch (error) {
+      console.warn("Could not load backfill jobs:", error);
     }
+  }
 
-    throw lastError;
+  private async saveBackfillJob(job: BackfillJob): Promise<void> {
+    try {
+      await this.store.set(
+        `stealth-monitor:backfill:${job.id}`,
+        JSON.stringify(job),
+        { ex: this.BACKFILL_JOB_TTL },
+      );
+    } catch (error) {
+      console.error(`Failed to save backfill job ${job.id}:`, error);
+    }
   }
 
   /**
@@ -414,24 +780,38 @@ export class StealthMonitorService {
     log: Log,
     chain: string,
   ): Promise<void> {
+    let args;
     try {
-      const eventId = `${chain}-${log.transactionHash}-${log.logIndex}`;
+      ({ args } = decodeEventLog({
+        abi: ANNOUNCER_ABI,
+        data: log.data,
+        topics: log.topics as [Hex, ...Hex[]],
+      }));
+    } catch (error) {
+      console.error("❌ Error decoding announcement event:", error);
+      throw error;
+    }
 
-      // Skip if already processed
-      if (this.processedEvents.has(eventId)) {
-        return;
-      }
-      this.processedEvents.add(eventId);
+    const eventId = `${chain}-${log.transactionHash}-${log.logIndex}`;
+
+    // Skip if already processed (including before a restart)
+    if (!(await this.markEventProcessed(eventId, Number(log.blockNumber)))) {
+      return;
+    }
 
+    try {
       const stealthEvent: StealthEvent = {
+        id: eventId,
         type: "announcement",
         txHash: log.transactionHash!,
+        logIndex: log.logIndex!,
         blockNumber: Number(log.blockNumber),
         timestamp: Math.floor(Date.now() / 1000),
-        address: log.topics[2] as string, // caller address
-        stealthAddress: log.topics[1] as string,
-        ephemeralPubKey: "", // Would decode from log data
-        metadata: "", // Would decode from log data
+        address: args.caller,
+        schemeId: args.schemeId,
+        stealthAddress: args.stealthAddress,
+        ephemeralPubKey: args.ephemeralPubKey,
+        metadata: args.metadata,
         chainId: this.getChainId(chain),
       };
 
@@ -439,6 +819,8 @@ export class StealthMonitorService {
       await this.checkAndNotifyUsers(stealthEvent);
     } catch (error) {
       console.error("❌ Error processing announcement event:", error);
+      await this.forgetProcessedEvent(eventId);
+      throw error;
     }
   }
 
@@ -449,21 +831,34 @@ export class StealthMonitorService {
     log: Log,
     chain: string,
   ): Promise<void> {
+    let args;
     try {
-      const eventId = `${chain}-${log.transactionHash}-${log.logIndex}`;
+      ({ args } = decodeEventLog({
+        abi: REGISTRY_ABI,
+        data: log.data,
+        topics: log.topics as [Hex, ...Hex[]],
+      }));
+    } catch (error) {
+      console.error("❌ Error decoding registration event:", error);
+      throw error;
+    }
 
-      // Skip if already processed
-      if (this.processedEvents.has(eventId)) {
-        return;
-      }
-      this.processedEvents.add(eventId);
+    const eventId = `${chain}-${log.transactionHash}-${log.logIndex}`;
+
+    // Skip if already processed (including before a restart)
+    if (!(await this.markEventProcessed(eventId, Number(log.blockNumber)))) {
+      return;
+    }
 
+    try {
       const stealthEvent: StealthEvent = {
+        id: eventId,
         type: "registration",
         txHash: log.transactionHash!,
+        logIndex: log.logIndex!,
         blockNumber: Number(log.blockNumber),
         timestamp: Math.floor(Date.now() / 1000),
-        address: log.topics[1] as string, // registrant address
+        address: args.registrant,
         chainId: this.getChainId(chain),
       };
 
@@ -471,6 +866,8 @@ export class StealthMonitorService {
       await this.checkAndNotifyUsers(stealthEvent);
     } catch (error) {
       console.error("❌ Error processing registration event:", error);
+      await this.forgetProcessedEvent(eventId);
+      throw error;
     }
   }
 
@@ -479,20 +876,34 @@ export class StealthMonitorService {
    */
   private async checkAndNotifyUsers(event: StealthEvent): Promise<void> {
     const notificationPromises: Promise<void>[] = [];
+    let failures = 0;
 
     for (const [userId, user] of this.monitoredUsers) {
       try {
-        // Check if user should be notified about this event
-        if (await this.shouldNotifyUser(user, event)) {
+        // Check if user should be notified about this event. The claim makes
+        // sure re-scans (reorgs, backfills) never notify twice
+        if (
+          (await this.shouldNotifyUser(user, event)) &&
+          (await this.claimNotification(userId, event))
+        ) {
           notificationPromises.push(
-            this.sendStealthNotification(user, event).then(() => {
-              // Update user's last notification time
-              user.lastNotified = Date.now();
-              return this.updateUserLastNotified(userId, user.lastNotified);
-            }),
+            this.sendStealthNotification(user, event).then(
+              () => {
+                // Update user's last notification time
+                user.lastNotified = Date.now();
+                return this.updateUserLastNotified(userId, user.lastNotified);
+              },
+              async (error: unknown) => {
+                // The retry couldn't be queued - let the re-scan try this
+                // user again
+                await this.releaseNotification(userId, event);
+                throw error;
+              },
+            ),
           );
         }
       } catch (error) {
+        failures++;
         console.error(
           `❌ Error checking notification for user ${userId}:`,
           error,
@@ -500,8 +911,14 @@ export class StealthMonitorService {
       }
     }
 
-    // Send all notifications in parallel
-    await Promise.allSettled(notificationPromises);
+    // Send all notifications in parallel. Only storage errors reject here
+    const results = await Promise.allSettled(notificationPromises);
+    failures += results.filter((result) => result.status === "rejected").length;
+    if (failures > 0) {
+      throw new Error(
+        `${failures} notification(s) failed for event ${event.id}`,
+      );
+    }
   }
 
   /**
@@ -541,12 +958,7 @@ export class StealthMonitorService {
     if (event.type === "announcement") {
       const isRelevant =
         event.address.toLowerCase() === user.address.toLowerCase() || // User sent stealth payment
-        (user.scanKeys &&
-          event.stealthAddress &&
-          (await this.isStealthAddressForUser(
-            event.stealthAddress,
-            user.scanKeys,
-          ))); // User received stealth payment
+        (user.scanKeys && this.isStealthAddressForUser(event, user.scanKeys)); // User received stealth payment
 
       return !!isRelevant;
     }
@@ -566,60 +978,211 @@ export class StealthMonitorService {
     user: MonitoredUser,
     event: StealthEvent,
   ): Promise<void> {
-    try {
-      let title: string;
-      let body: string;
-      let emoji: string;
-
-      if (event.type === "announcement") {
-        if (event.address.toLowerCase() === user.address.toLowerCase()) {
-          // User sent a stealth payment
-          emoji = "📤🥷";
-          title = "Stealth Payment Sent";
-          body = `Your stealth payment has been announced onchain`;
-        } else {
-          // User received a stealth payment
-          emoji = "💰🥷";
-          title = "Stealth Payment Received";
-          body = `You received a stealth payment. Check your stealth addresses.`;
-        }
+    let title: string;
+    let body: string;
+    let emoji: string;
+
+    if (event.type === "announcement") {
+      if (event.address.toLowerCase() === user.address.toLowerCase()) {
+        // User sent a stealth payment
+        emoji = "📤🥷";
+        title = "Stealth Payment Sent";
+        body = `Your stealth payment has been announced onchain`;
       } else {
-        // Registration event
-        emoji = "🔐🥷";
-        title = "Stealth Address Registered";
-        body = `A stealth meta-address has been registered`;
+        // User received a stealth payment
+        emoji = "💰🥷";
+        title = "Stealth Payment Received";
+        body = `You received a stealth payment. Check your stealth addresses.`;
       }
+    } else {
+      // Registration event
+      emoji = "🔐🥷";
+      title = "Stealth Address Registered";
+      body = `A stealth meta-address has been registered`;
+    }
 
-      // Send notification via backend notification endpoint
-      await fetch(`${process.env.NEXT_PUBLIC_URL}/api/notify`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${process.env.NOTIFICATION_SECRET}`,
-        },
-        body: JSON.stringify({
-          userId: user.userId,
-          type: "stealth",
-          title: `${emoji} ${title}`,
-          body,
-          data: {
-            eventType: event.type,
-            txHash: event.txHash,
-            blockNumber: event.blockNumber,
-            chain: this.getChainName(event.chainId),
-            stealthAddress: event.stealthAddress,
-            timestamp: event.timestamp,
-          },
-          targetUrl: `${process.env.NEXT_PUBLIC_URL}?tab=privacy`,
-        }),
-      });
+    const entry: NotificationLedgerEntry = {
+      eventId: event.id,
+      eventType: event.type,
+      chain: this.getChainName(event.chainId),
+      txHash: event.txHash,
+      blockNumber: event.blockNumber,
+      stealthAddress: event.stealthAddress,
+      title: `${emoji} ${title}`,
+      body,
+      channel: "miniapp",
+      status: "sent",
+      sentAt: Date.now(),
+    };
 
-      // Track notification
+    try {
+      await this.postNotification(user.userId, entry, event.timestamp);
       await this.trackNotification(user.userId);
-
       console.log(`🔔 Sent stealth notification to ${user.userId}: ${title}`);
     } catch (error) {
+      entry.status = "failed";
+      entry.error = error instanceof Error ? error.message : String(error);
       console.error(`❌ Failed to send notification to ${user.userId}:`, error);
+      await this.recordNotification(user.userId, entry);
+      await this.savePendingNotification(event, {
+        userId: user.userId,
+        entry,
+        eventTimestamp: event.timestamp,
+        attempts: 1,
+        nextAttemptAt: Date.now() + this.NOTIFICATION_RETRY_INTERVAL,
+      });
+      return;
+    }
+
+    await this.recordNotification(user.userId, entry);
+  }
+
+  /**
+   * Deliver one notification via the frontend notification endpoint
+   */
+  private async postNotification(
+    userId: string,
+    entry: NotificationLedgerEntry,
+    eventTimestamp: number,
+  ): Promise<void> {
+    const response = await fetch(`${process.env.NEXT_PUBLIC_URL}/api/notify`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${process.env.NOTIFICATION_SECRET}`,
+      },
+      body: JSON.stringify({
+        userId,
+        type: "stealth",
+        title: entry.title,
+        body: entry.body,
+        data: {
+          eventType: entry.eventType,
+          txHash: entry.txHash,
+          blockNumber: entry.blockNumber,
+          chain: entry.chain,
+          stealthAddress: entry.stealthAddress,
+          timestamp: eventTimestamp,
+        },
+        targetUrl: `${process.env.NEXT_PUBLIC_URL}?tab=privacy`,
+      }),
+    });
+    if (!response.ok) {
+      throw new Error(`Notify endpoint responded ${response.status}`);
+    }
+  }
+
+  /**
+   * Re-send failed deliveries that are due, with exponential backoff between
+   * attempts. Gives up after MAX_NOTIFICATION_ATTEMPTS, leaving the failed
+   * ledger entry as the record. Returns the number delivered.
+   */
+  async retryFailedNotifications(): Promise<number> {
+    const keys = await this.store.keys("stealth-notification-retry:*");
+    let delivered = 0;
+
+    for (const key of keys) {
+      const data = await this.store.get(key);
+      if (!data) continue;
+
+      const pending = JSON.parse(data) as PendingNotification;
+      if (pending.nextAttemptAt > Date.now()) continue;
+
+      const { userId, entry } = pending;
+      try {
+        await this.postNotification(userId, entry, pending.eventTimestamp);
+      } catch (error) {
+        pending.attempts++;
+        if (pending.attempts >= this.MAX_NOTIFICATION_ATTEMPTS) {
+          console.error(
+            `❌ Giving up on notification ${entry.eventId} for ${userId} after ${pending.attempts} attempts:`,
+            error,
+          );
+          await this.store.del(key);
+          continue;
+        }
+
+        pending.nextAttemptAt =
+          Date.now() +
+          this.NOTIFICATION_RETRY_INTERVAL * Math.pow(2, pending.attempts - 1);
+        await this.store.set(key, JSON.stringify(pending), {
+          ex: this.NOTIFIED_EVENT_TTL,
+        });
+        continue;
+      }
+
+      await this.store.del(key);
+      await this.trackNotification(userId);
+      await this.recordNotification(userId, {
+        ...entry,
+        status: "sent",
+        error: undefined,
+        sentAt: Date.now(),
+      });
+
+      const user = this.monitoredUsers.get(userId);
+      if (user) {
+        user.lastNotified = Date.now();
+        await this.updateUserLastNotified(userId, user.lastNotified);
+      }
+
+      console.log(
+        `🔔 Delivered stealth notification to ${userId} on attempt ${pending.attempts + 1}: ${entry.title}`,
+      );
+      delivered++;
+    }
+
+    return delivered;
+  }
+
+  private startNotificationRetry(): void {
+    const retry = async () => {
+      if (!this.isRunning) return;
+
+      try {
+        await this.retryFailedNotifications();
+      } catch (error) {
+        console.error("❌ Error retrying stealth notifications:", error);
+      }
+
+      if (this.isRunning) {
+        setTimeout(() => void retry(), this.NOTIFICATION_RETRY_INTERVAL);
+      }
+    };
+
+    setTimeout(() => void retry(), this.NOTIFICATION_RETRY_INTERVAL);
+  }
+
+  /**
+   * Notifications sent to a user, newest first
+   */
+  async getNotificationLedger(
+    userId: string,
+    limit: number = 50,
+  ): Promise<NotificationLedgerEntry[]> {
+    const entries = await this.store.lrange(
+      this.ledgerKey(userId),
+      0,
+      Math.min(limit, this.LEDGER_LIMIT) - 1,
+    );
+    return entries.map((entry) => JSON.parse(entry));
+  }
+
+  private ledgerKey(userId: string): string {
+    return `stealth-notification-ledger:${userId.toLowerCase()}`;
+  }
+
+  private async recordNotification(
+    userId: string,
+    entry: NotificationLedgerEntry,
+  ): Promise<void> {
+    try {
+      const key = this.ledgerKey(userId);
+      await this.store.lpush(key, JSON.stringify(entry));
+      await this.store.ltrim(key, 0, this.LEDGER_LIMIT - 1);
+      await this.store.expire(key, this.LEDGER_TTL);
+    } catch (error) {
+      console.error("Failed to record notification:", error);
     }
   }
 
@@ -651,7 +1214,7 @@ export class StealthMonitorService {
             ),
           },
           lastNotified: user.lastStealthNotification || 0,
-          scanKeys: user.stealthScanKeys || [],
+          scanKeys: this.parseScanKeys(user.userId, user.stealthScanKeys),
         };
 
         this.monitoredUsers.set(user.userId, monitoredUser);
@@ -703,7 +1266,7 @@ export class StealthMonitorService {
           i < eventsArray.length;
           i++
         ) {
-          this.processedEvents.add(eventsArray[i]);
+          this.processedEvents.set(...eventsArray[i]);
         }
       }
 
@@ -720,11 +1283,22 @@ export class StealthMonitorService {
   private async loadChainStates(): Promise<void> {
     try {
       for (const [chainName, chainConfig] of this.chains) {
-        const data = await this.redis.get(
-          `stealth-monitor:${chainName}:last-block`,
+        const data = await this.store.get(
+          `stealth-monitor:${chainName}:checkpoint`,
         );
         if (data) {
-          chainConfig.lastProcessed = parseInt(data as string);
+          const checkpoint: ChainCheckpoint = JSON.parse(data);
+          chainConfig.lastProcessed = checkpoint.lastProcessed;
+          chainConfig.recentBlocks = checkpoint.recentBlocks || [];
+          continue;
+        }
+
+        // Pre-checkpoint state: block number only, no hashes to verify
+        const lastBlock = await this.store.get(
+          `stealth-monitor:${chainName}:last-block`,
+        );
+        if (lastBlock) {
+          chainConfig.lastProcessed = parseInt(lastBlock);
         }
       }
     } catch (error) {
@@ -734,12 +1308,12 @@ export class StealthMonitorService {
 
   private async saveChainState(
     chain: string,
-    blockNumber: number,
+    checkpoint: ChainCheckpoint,
   ): Promise<void> {
     try {
-      await this.redis.set(
-        `stealth-monitor:${chain}:last-block`,
-        blockNumber.toString(),
+      await this.store.set(
+        `stealth-monitor:${chain}:checkpoint`,
+        JSON.stringify(checkpoint),
         { ex: 86400 }, // 24 hours
       );
     } catch (error) {
@@ -747,11 +1321,97 @@ export class StealthMonitorService {
     }
   }
 
+  /**
+   * Claim an event id in the in-memory cache and the persistent TTL set.
+   * Returns false if it was already processed, here or before a restart.
+   */
+  private async markEventProcessed(
+    eventId: string,
+    blockNumber: number,
+  ): Promise<boolean> {
+    if (this.processedEvents.has(eventId)) return false;
+    this.processedEvents.set(eventId, blockNumber);
+
+    try {
+      return await this.store.set(
+        `stealth-processed:${eventId}`,
+        blockNumber.toString(),
+        { nx: true, ex: this.PROCESSED_EVENT_TTL },
+      );
+    } catch (error) {
+      // Fail open - the per-user notification claim still prevents repeats
+      console.error("Failed to persist processed event:", error);
+      return true;
+    }
+  }
+
+  // Undo markEventProcessed so a re-scan of the block processes it again
+  private async forgetProcessedEvent(eventId: string): Promise<void> {
+    this.processedEvents.delete(eventId);
+    try {
+      await this.store.del(`stealth-processed:${eventId}`);
+    } catch (error) {
+      console.error("Failed to clear processed event:", error);
+    }
+  }
+
+  // Keyed by tx + subject rather than log index, which can change when a
+  // reorged transaction is re-included
+  private notificationKey(userId: string, event: StealthEvent): string {
+    const subject = event.stealthAddress ?? event.address;
+    return `stealth-notified:${userId}:${event.chainId}:${event.txHash}:${subject}`.toLowerCase();
+  }
+
+  // Same suffix as the notification claim, so a reorg can release both
+  private pendingNotificationKey(userId: string, event: StealthEvent): string {
+    return this.notificationKey(userId, event).replace(
+      /^stealth-notified:/,
+      "stealth-notification-retry:",
+    );
+  }
+
+  private async savePendingNotification(
+    event: StealthEvent,
+    pending: PendingNotification,
+  ): Promise<void> {
+    await this.store.set(
+      this.pendingNotificationKey(pending.userId, event),
+      JSON.stringify(pending),
+      { ex: this.NOTIFIED_EVENT_TTL },
+    );
+  }
+
+  // First caller wins - false if this user was already notified of the event
+  private async claimNotification(
+    userId: string,
+    event: StealthEvent,
+  ): Promise<boolean> {
+    return this.store.set(
+      this.notificationKey(userId, event),
+      Date.now().toString(),
+      {
+        nx: true,
+        ex: this.NOTIFIED_EVENT_TTL,
+      },
+    );
+  }
+
+  private async releaseNotification(
+    userId: string,
+    event: StealthEvent,
+  ): Promise<void> {
+    try {
+      await this.store.del(this.notificationKey(userId, event));
+    } catch (error) {
+      console.error("Failed to release notification claim:", error);
+    }
+  }
+
   private async getUserNotificationCount(userId: string): Promise<number> {
     try {
       const key = `stealth-notifications:${userId}:${Math.floor(Date.now() / 3600000)}`; // hourly bucket
-      const count = await this.redis.get(key);
-      return count ? parseInt(count as string) : 0;
+      const count = await this.store.get(key);
+      return count ? parseInt(count) : 0;
     } catch (error) {
       return 0;
     }
@@ -760,8 +1420,8 @@ export class StealthMonitorService {
   private async trackNotification(userId: string): Promise<void> {
     try {
       const key = `stealth-notifications:${userId}:${Math.floor(Date.now() / 3600000)}`;
-      await this.redis.incr(key);
-      await this.redis.expire(key, 3600); // 1 hour
+      await this.store.incr(key);
+      await this.store.expire(key, 3600); // 1 hour
     } catch (error) {
       console.error("Failed to track notification:", error);
     }
@@ -778,34 +1438,57 @@ export class StealthMonitorService {
     }
   }
 
-  private async isStealthAddressForUser(
-    stealthAddress: string,
-    scanKeys: string[],
-  ): Promise<boolean> {
-    // In production, this would use the stealth address SDK to check if the
-    // stealth address can be derived from the user's scan keys
-    // For now, we'll do a simple check
-    return scanKeys.some((key) => stealthAddress.includes(key.slice(0, 8)));
+  /**
+   * ERC-5564 scheme 1 match: recompute the stealth address from the
+   * announcement's ephemeral key and each of the user's viewing keys
+   */
+  private isStealthAddressForUser(
+    event: StealthEvent,
+    scanKeys: StealthScanKey[],
+  ): boolean {
+    if (
+      event.schemeId === undefined ||
+      !event.stealthAddress ||
+      !event.ephemeralPubKey ||
+      !event.metadata
+    ) {
+      return false;
+    }
+
+    const announcement = {
+      schemeId: event.schemeId,
+      stealthAddress: event.stealthAddress,
+      ephemeralPubKey: event.ephemeralPubKey,
+      metadata: event.metadata,
+    };
+
+    return scanKeys.some((scanKey) =>
+      checkStealthAddress(announcement, scanKey),
+    );
+  }
+
+  private parseScanKeys(userId: string, rawKeys: unknown): StealthScanKey[] {
+    if (!Array.isArray(rawKeys)) return [];
+
+    const scanKeys = rawKeys
+      .map((raw) => parseStealthScanKey(raw))
+      .filter((key): key is StealthScanKey => key !== null);
+
+    if (scanKeys.length < rawKeys.length) {
+      console.warn(
+        `⚠️ Ignoring ${rawKeys.length - scanKeys.length} invalid stealth scan key(s) for ${userId}`,
+      );
+    }
+
+    return scanKeys;
   }
 
   private getChainId(chain: string): number {
-    const chainIds: Record<string, number> = {
-      mainnet: 1,
-      base: 8453,
-      sepolia: 11155111,
-      baseSepolia: 84532,
-    };
-    return chainIds[chain] || 1;
+    return getStealthNetworkChainId(chain) ?? STEALTH_NETWORKS.mainnet;
   }
 
   private getChainName(chainId: number): string {
-    const chainNames: Record<number, string> = {
-      1: "mainnet",
-      8453: "base",
-      11155111: "sepolia",
-      84532: "baseSepolia",
-    };
-    return chainNames[chainId] || "unknown";
+    return getStealthNetworkName(chainId) ?? "unknown";
   }
 
   /**
@@ -817,8 +1500,13 @@ export class StealthMonitorService {
         name,
         lastProcessed: config.lastProcessed,
         scanInterval: config.scanInterval,
+        recentBlocks: config.recentBlocks.length,
+        reorgCount: config.reorgCount,
+        lastReorgAt: config.lastReorgAt,
         failureCount: config.failureCount,
         nextScan: config.nextScanTime,
+        logRange: config.rpc.getLogRange(),
+        rpcEndpoints: config.rpc.getStatus(),
       }),
     );
 
@@ -827,6 +1515,14 @@ export class StealthMonitorService {
       monitoredUsers: this.monitoredUsers.size,
       processedEvents: this.processedEvents.size,
       chains: chainStatuses,
+      backfills: Array.from(this.backfillJobs.values()).map((job) => ({
+        ...job,
+        progress: Math.round(
+          ((job.nextBlock - job.fromBlock) /
+            (job.toBlock - job.fromBlock + 1)) *
+            100,
+        ), // percent
+      })),
     };
   }
 }
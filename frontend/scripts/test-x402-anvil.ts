@@ -0,0 +1,125 @@
+#!/usr/bin/env tsx
+
+/**
+ * End-to-end check of the local x402 facilitator against an Anvil fork of
+ * Base: a fresh payer signs an X-PAYMENT header with createPaymentHeader,
+ * processX402Payment settles it through createLocalFacilitator, and the
+ * USDC lands with the recipient. Replaying the header must then fail.
+ *
+ * Usage:
+ * 1. anvil --fork-url https://mainnet.base.org
+ * 2. npx tsx scripts/test-x402-anvil.ts
+ *
+ * ANVIL_RPC_URL points the script at another node (default
+ * http://127.0.0.1:8545). The settler is Anvil's first dev account.
+ */
+
+import assert from 'node:assert/strict';
+import {
+  createTestClient,
+  encodeAbiParameters,
+  erc20Abi,
+  http,
+  keccak256,
+  publicActions,
+  toHex,
+  type Address,
+  type Hex,
+} from 'viem';
+import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts';
+import { base } from 'viem/chains';
+import {
+  buildPaymentRequirements,
+  createLocalFacilitator,
+  createPaymentHeader,
+  processX402Payment,
+  X402_ASSETS,
+} from '../src/lib/x402-facilitator';
+
+const RPC_URL = process.env.ANVIL_RPC_URL || 'http://127.0.0.1:8545';
+// Anvil's first dev account, funded with ETH on every fork
+const SETTLER_KEY: Hex =
+  '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+// FiatToken keeps balances in the mapping at slot 9
+const USDC_BALANCES_SLOT = BigInt(9);
+
+const USDC = X402_ASSETS.base.address;
+const PRICE = 0.01; // USDC
+
+const client = createTestClient({
+  mode: 'anvil',
+  chain: base,
+  transport: http(RPC_URL),
+}).extend(publicActions);
+
+function balanceOf(account: Address): Promise<bigint> {
+  return client.readContract({
+    address: USDC,
+    abi: erc20Abi,
+    functionName: 'balanceOf',
+    args: [account],
+  });
+}
+
+// Give `account` USDC by writing its balance slot directly
+async function fundUsdc(account: Address, amount: bigint): Promise<void> {
+  const slot = keccak256(
+    encodeAbiParameters(
+      [{ type: 'address' }, { type: 'uint256' }],
+      [account, USDC_BALANCES_SLOT],
+    ),
+  );
+  await client.setStorageAt({
+    address: USDC,
+    index: slot,
+    value: toHex(amount, { size: 32 }),
+  });
+  assert.equal(
+    await balanceOf(account),
+    amount,
+    'USDC balance slot moved; update USDC_BALANCES_SLOT',
+  );
+}
+
+async function main() {
+  const chainId = await client.getChainId();
+  assert.equal(chainId, base.id, `${RPC_URL} is not a Base fork`);
+
+  const payer = privateKeyToAccount(generatePrivateKey());
+  const payTo = privateKeyToAccount(generatePrivateKey()).address;
+  await fundUsdc(payer.address, BigInt(1_000_000)); // 1 USDC
+
+  const requirements = buildPaymentRequirements(
+    { amount: PRICE, network: 'base' },
+    {
+      resource: 'http://localhost/api/x402/test',
+      description: 'x402 Anvil check',
+      payTo,
+    },
+  );
+  assert.ok(requirements, 'no payment requirements for Base USDC');
+
+  const facilitator = createLocalFacilitator({
+    rpcUrl: RPC_URL,
+    settlerPrivateKey: SETTLER_KEY,
+  });
+  const header = await createPaymentHeader(payer, requirements);
+
+  const result = await processX402Payment(header, [requirements], facilitator);
+  assert.equal(result.paid, true, `payment rejected: ${result.body?.error}`);
+  assert.equal(result.payer, payer.address);
+  assert.ok(result.settlement?.transaction);
+  assert.ok(result.paymentResponse);
+  assert.equal(await balanceOf(payTo), BigInt(requirements.maxAmountRequired));
+  console.log(`✅ settled ${PRICE} USDC in ${result.settlement.transaction}`);
+
+  const replay = await processX402Payment(header, [requirements], facilitator);
+  assert.equal(replay.paid, false);
+  assert.equal(replay.body?.error, 'nonce_used');
+  console.log('✅ replayed X-PAYMENT header rejected (nonce_used)');
+}
+
+main().catch((error) => {
+  console.error('❌', error);
+  process.exit(1);
+});
@@ -0,0 +1,281 @@
+#!/usr/bin/env tsx
+
+/**
+ * Offline checks of the local x402 facilitator's verify(): payers sign real
+ * EIP-3009 authorizations with createPaymentHeader, and a fake Base node
+ * answers the token's authorizationState and balanceOf calls.
+ *
+ * Usage: npx tsx scripts/test-x402-facilitator.ts
+ */
+
+import assert from 'node:assert/strict';
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import {
+  decodeFunctionData,
+  encodeFunctionResult,
+  isAddressEqual,
+  parseAbi,
+  type Address,
+  type Hex,
+} from 'viem';
+import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts';
+import {
+  buildPaymentRequirements,
+  createLocalFacilitator,
+  createPaymentHeader,
+  decodePaymentHeader,
+  X402_ASSETS,
+  type PaymentPayload,
+  type PaymentRequirements,
+} from '../src/lib/x402-facilitator';
+
+const TOKEN_ABI = parseAbi([
+  'function authorizationState(address authorizer, bytes32 nonce) view returns (bool)',
+  'function balanceOf(address account) view returns (uint256)',
+]);
+
+const USDC = X402_ASSETS.base.address;
+
+// Token state the fake node reports
+const usedNonces = new Set<string>();
+const balances = new Map<Address, bigint>();
+
+/**
+ * A JSON-RPC node that only knows the USDC calls verify() makes. Every other
+ * call fails, as the ERC-6492 validator call would without a fork, so viem
+ * falls back to recovering EOA signatures locally.
+ */
+function startFakeNode(): Promise<{ url: string; close: () => void }> {
+  const server = createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk: Buffer) => {
+      body += chunk.toString();
+    });
+    req.on('end', () => {
+      const { id, method, params } = JSON.parse(body) as {
+        id: number;
+        method: string;
+        params: [{ to?: Address; data: Hex }];
+      };
+      const reply = (payload: object) => {
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify({ jsonrpc: '2.0', id, ...payload }));
+      };
+
+      const [call] = params;
+      if (method !== 'eth_call' || !call.to || !isAddressEqual(call.to, USDC)) {
+        reply({ error: { code: -32000, message: 'execution reverted' } });
+        return;
+      }
+      const { functionName, args } = decodeFunctionData({
+        abi: TOKEN_ABI,
+        data: call.data,
+      });
+      reply({
+        result:
+          functionName === 'authorizationState'
+            ? encodeFunctionResult({
+                abi: TOKEN_ABI,
+                functionName,
+                result: usedNonces.has(`${args[0]}:${args[1]}`.toLowerCase()),
+              })
+            : encodeFunctionResult({
+                abi: TOKEN_ABI,
+                functionName,
+                result: balances.get(args[0]) ?? BigInt(0),
+              }),
+      });
+    });
+  });
+
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${port}`,
+        close: () => server.close(),
+      });
+    });
+  });
+}
+
+// Run `check` with the clock moved by `seconds`
+async function atOffset(
+  seconds: number,
+  check: () => Promise<void>,
+): Promise<void> {
+  const realNow = Date.now;
+  const shifted = realNow() + seconds * 1000;
+  Date.now = () => shifted;
+  try {
+    await check();
+  } finally {
+    Date.now = realNow;
+  }
+}
+
+const node = await startFakeNode();
+const facilitator = createLocalFacilitator({ rpcUrl: node.url });
+
+const payer = privateKeyToAccount(generatePrivateKey());
+const payTo = privateKeyToAccount(generatePrivateKey()).address;
+balances.set(payer.address, BigInt(1_000_000)); // 1 USDC
+
+const requirements = buildPaymentRequirements(
+  { amount: 0.01, network: 'base' },
+  {
+    resource: 'http://localhost/api/x402/test',
+    description: 'x402 facilitator check',
+    payTo,
+  },
+) as PaymentRequirements;
+
+// A payment signed by `signer` (the payer by default), decoded as the
+// facilitator receives it
+async function signPayment(
+  overrides: Partial<PaymentRequirements> = {},
+  signer = payer,
+): Promise<PaymentPayload> {
+  const header = await createPaymentHeader(signer, {
+    ...requirements,
+    ...overrides,
+  });
+  const payment = decodePaymentHeader(header);
+  assert.ok(payment, 'createPaymentHeader produced an undecodable header');
+  return payment;
+}
+
+async function reason(payment: PaymentPayload): Promise<string | undefined> {
+  const verification = await facilitator.verify(payment, requirements);
+  return verification.isValid ? undefined : verification.invalidReason;
+}
+
+const tests: [string, () => Promise<void>][] = [
+  [
+    'accepts a correctly signed authorization',
+    async () => {
+      const payment = await signPayment();
+      assert.deepEqual(await facilitator.verify(payment, requirements), {
+        isValid: true,
+        payer: payer.address,
+      });
+    },
+  ],
+  [
+    'rejects signatures that do not match the authorization',
+    async () => {
+      // Signed by someone else on the payer's behalf
+      const forged = await signPayment(
+        {},
+        privateKeyToAccount(generatePrivateKey()),
+      );
+      forged.payload.authorization.from = payer.address;
+      assert.equal(await reason(forged), 'invalid_signature');
+
+      // Fields changed after signing
+      const raised = await signPayment();
+      raised.payload.authorization.value = '20000';
+      assert.equal(await reason(raised), 'invalid_signature');
+
+      const extended = await signPayment();
+      extended.payload.authorization.validBefore = (
+        BigInt(extended.payload.authorization.validBefore) + BigInt(3600)
+      ).toString();
+      assert.equal(await reason(extended), 'invalid_signature');
+
+      // Signed for another token's domain
+      const otherDomain = await signPayment({
+        extra: { name: 'USDC', version: '2' },
+      });
+      assert.equal(await reason(otherDomain), 'invalid_signature');
+
+      const garbage = await signPayment();
+      garbage.payload.signature = `0x${'00'.repeat(65)}`;
+      assert.equal(await reason(garbage), 'invalid_signature');
+    },
+  ],
+  [
+    'checks the amount, recipient and network',
+    async () => {
+      assert.equal(
+        await reason(await signPayment({ maxAmountRequired: '9999' })),
+        'insufficient_value',
+      );
+      assert.equal(
+        await reason(
+          await signPayment({
+            payTo: privateKeyToAccount(generatePrivateKey()).address,
+          }),
+        ),
+        'wrong_recipient',
+      );
+      assert.equal(
+        await reason(await signPayment({ network: 'base-sepolia' })),
+        'invalid_network',
+      );
+
+      // Paying more than asked is fine as long as the payer has it
+      const generous = await signPayment({ maxAmountRequired: '20000' });
+      assert.equal(await reason(generous), undefined);
+      const broke = await signPayment({ maxAmountRequired: '1000001' });
+      assert.equal(await reason(broke), 'insufficient_funds');
+    },
+  ],
+  [
+    'enforces the validity window',
+    async () => {
+      // createPaymentHeader signs for [now - 600s, now + maxTimeoutSeconds]
+      const payment = await signPayment();
+      await atOffset(-601, async () => {
+        assert.equal(await reason(payment), 'not_yet_valid');
+      });
+      await atOffset(-599, async () => {
+        assert.equal(await reason(payment), undefined);
+      });
+      await atOffset(requirements.maxTimeoutSeconds - 10, async () => {
+        assert.equal(await reason(payment), undefined);
+      });
+      // Too close to validBefore to land on-chain in time
+      await atOffset(requirements.maxTimeoutSeconds - 3, async () => {
+        assert.equal(await reason(payment), 'expired');
+      });
+      await atOffset(requirements.maxTimeoutSeconds + 60, async () => {
+        assert.equal(await reason(payment), 'expired');
+      });
+    },
+  ],
+  [
+    'rejects an authorization whose nonce was already used',
+    async () => {
+      const payment = await signPayment();
+      assert.equal(await reason(payment), undefined);
+
+      const { from, nonce } = payment.payload.authorization;
+      usedNonces.add(`${from}:${nonce}`.toLowerCase());
+      assert.equal(await reason(payment), 'nonce_used');
+
+      // A fresh nonce from the same payer still verifies
+      const other = await signPayment();
+      assert.equal(await reason(other), undefined);
+    },
+  ],
+];
+
+let failed = 0;
+for (const [name, run] of tests) {
+  try {
+    await run();
+    console.log(`✅ ${name}`);
+  } catch (error) {
+    failed++;
+    console.error(`❌ ${name}`);
+    console.error(error);
+  }
+}
+node.close();
+
+console.log(
+  `\n🧪 ${tests.length - failed}/${tests.length} x402 facilitator verify tests passed`,
+);
+if (failed > 0) process.exit(1);
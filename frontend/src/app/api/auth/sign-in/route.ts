@@ -1,8 +1,7 @@
-import * as jose from "jose";
 import { NextRequest, NextResponse } from "next/server";
 import { Address, verifyMessage } from "viem";
 import { z } from "zod";
-import { env } from "@/lib/env";
+import { isAuthConfigured, setAuthCookie, signAuthToken } from "@/lib/auth";
 import { fetchUserFromNeynar } from "@/lib/neynar";
 import { NeynarUser } from "@/lib/types";
 
@@ -51,16 +50,20 @@ export const POST = async (req: NextRequest) => {
     return NextResponse.json({ error: "Invalid signature" }, { status: 401 });
   }
 
-  // Generate JWT token
-  const secret = new TextEncoder().encode(env.JWT_SECRET);
-  const token = await new jose.SignJWT({
+  if (!isAuthConfigured()) {
+    return NextResponse.json(
+      { error: "Authentication is not configured" },
+      { status: 503 },
+    );
+  }
+
+  // Generate JWT token; the session may also act for the user's verified addresses
+  const token = await signAuthToken({
     userFid: neynarUser.fid,
     walletAddress,
-  })
-    .setProtectedHeader({ alg: "HS256" })
-    .setIssuedAt()
-    .setExpirationTime("7d")
-    .sign(secret);
+    addresses: neynarUser.verified_addresses?.eth_addresses ?? [],
+    method: "farcaster",
+  });
 
   // Create the response
   const response = NextResponse.json(
@@ -69,15 +72,7 @@ export const POST = async (req: NextRequest) => {
   );
 
   // Set the auth cookie with the JWT token
-  response.cookies.set({
-    name: "auth_token",
-    value: token,
-    httpOnly: true,
-    secure: true,
-    sameSite: "none",
-    maxAge: 7 * 24 * 60 * 60, // 7 days
-    path: "/",
-  });
+  setAuthCookie(response, token);
 
   return response;
 };
@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from "next/server";
+import { generateSiweNonce, parseSiweMessage } from "viem/siwe";
+import { z } from "zod";
+import {
+  isAuthConfigured,
+  setAuthCookie,
+  signAuthToken,
+  signNonceToken,
+  verifyNonceToken,
+} from "@/lib/auth";
+import {
+  STEALTH_CHAINS,
+  getStealthChainClient,
+  type StealthChainName,
+} from "@/lib/stealth-chains";
+
+// Sign-In with Ethereum (EIP-4361). GET hands out a nonce, signed into an
+// httpOnly cookie so the client can't choose it; POST checks the signed
+// message against it and issues the same session token as the Farcaster
+// sign-in.
+
+const NONCE_COOKIE = "siwe_nonce";
+const NONCE_TTL_SECONDS = 10 * 60;
+
+const siweSchema = z.object({
+  message: z.string().min(1).max(4096),
+  signature: z.string().regex(/^0x[0-9a-fA-F]+$/),
+});
+
+export async function GET() {
+  if (!isAuthConfigured()) {
+    return NextResponse.json(
+      { error: "Authentication is not configured" },
+      { status: 503 },
+    );
+  }
+
+  const nonce = generateSiweNonce();
+  const response = NextResponse.json({ nonce });
+  response.cookies.set({
+    name: NONCE_COOKIE,
+    value: await signNonceToken(nonce, NONCE_TTL_SECONDS),
+    httpOnly: true,
+    secure: true,
+    sameSite: "none",
+    maxAge: NONCE_TTL_SECONDS,
+    path: "/api/auth/siwe",
+  });
+  return response;
+}
+
+export async function POST(request: NextRequest) {
+  if (!isAuthConfigured()) {
+    return NextResponse.json(
+      { error: "Authentication is not configured" },
+      { status: 503 },
+    );
+  }
+
+  const parsed = siweSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+  }
+
+  const nonceToken = request.cookies.get(NONCE_COOKIE)?.value;
+  const nonce = nonceToken ? await verifyNonceToken(nonceToken) : null;
+  if (!nonce) {
+    return NextResponse.json(
+      { error: "Missing or expired nonce, request a new one" },
+      { status: 401 },
+    );
+  }
+
+  const { message, signature } = parsed.data;
+  const { address, chainId, expirationTime } = parseSiweMessage(message);
+  // Signed messages must expire about when their nonce does
+  if (
+    !expirationTime ||
+    expirationTime.getTime() > Date.now() + NONCE_TTL_SECONDS * 1000
+  ) {
+    return NextResponse.json(
+      { error: "SIWE message needs an expiration time within 10 minutes" },
+      { status: 400 },
+    );
+  }
+  // Smart-wallet (ERC-1271/6492) signatures are checked on the message's chain
+  const network = (Object.keys(STEALTH_CHAINS) as StealthChainName[]).find(
+    (name) => STEALTH_CHAINS[name].chain.id === chainId,
+  );
+  if (!address || !network) {
+    return NextResponse.json(
+      { error: "Unsupported SIWE message" },
+      { status: 400 },
+    );
+  }
+
+  const valid = await getStealthChainClient(network)
+    .verifySiweMessage({
+      message,
+      signature: signature as `0x${string}`,
+      domain: request.nextUrl.host,
+      nonce,
+    })
+    .catch(() => false);
+  if (!valid) {
+    return NextResponse.json({ error: "Invalid signature" }, { status: 401 });
+  }
+
+  const token = await signAuthToken({ walletAddress: address, method: "siwe" });
+  const response = NextResponse.json({ token, address });
+  setAuthCookie(response, token);
+  // A nonce signs in once
+  response.cookies.set({
+    name: NONCE_COOKIE,
+    value: "",
+    maxAge: 0,
+    path: "/api/auth/siwe",
+  });
+  return response;
+}
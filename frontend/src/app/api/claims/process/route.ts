@@ -1,43 +1,51 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { env } from '@/lib/env';
+import { getClaimsForUser, processClaim, type ClaimFailureReason } from '@/lib/claims-service';
 
-// This would be your backend wallet private key for automated distributions
-const DISTRIBUTION_WALLET_KEY = process.env.DISTRIBUTION_WALLET_PRIVATE_KEY;
-const STEVEN_TOKEN_CONTRACT = '0x2a810158dD24DC62477540c81194B4F817EB3944';
+const FAILURE_STATUS: Record<ClaimFailureReason, number> = {
+  invalid_address: 400,
+  unknown_milestone: 400,
+  not_verifiable: 422,
+  not_eligible: 403,
+  already_processing: 409,
+  distributor_unavailable: 503,
+  registry_unavailable: 503,
+  transfer_failed: 502,
+};
 
 export async function POST(request: NextRequest) {
   try {
-    const { userAddress, amount, milestoneId, reason } = await request.json();
+    // The reward amount comes from the milestone; any amount in the body is ignored
+    const { userAddress, milestoneId } = await request.json();
 
-    // Validate inputs
-    if (!userAddress || !amount || !milestoneId) {
+    if (!userAddress || !milestoneId) {
       return NextResponse.json(
         { error: 'Missing required fields' },
         { status: 400 }
       );
     }
 
-    // Here you would implement the actual token transfer
-    // For now, we'll simulate a successful transaction
-    console.log(`Processing claim: ${amount} 🥷 tokens to ${userAddress} for ${reason}`);
+    console.log(`Processing claim: ${milestoneId} for ${userAddress}`);
+    const result = await processClaim({ userAddress, milestoneId });
 
-    // Simulate transaction processing time
-    await new Promise(resolve => setTimeout(resolve, 2000));
-
-    // In a real implementation, you'd:
-    // 1. Use a backend wallet to send tokens
-    // 2. Call the smart contract transfer function
-    // 3. Return the actual transaction hash
-
-    const mockTxHash = `0x${Math.random().toString(16).substring(2, 66)}`;
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error, reason: result.reason },
+        { status: FAILURE_STATUS[result.reason!] }
+      );
+    }
 
+    const { claim } = result;
     return NextResponse.json({
       success: true,
-      transactionHash: mockTxHash,
-      amount,
-      userAddress,
-      milestoneId,
-      processedAt: new Date().toISOString()
+      alreadyClaimed: !!result.alreadyClaimed,
+      dryRun: !!result.dryRun,
+      status: claim!.status,
+      transactionHash: claim!.transactionHash,
+      chainId: claim!.chainId,
+      amount: claim!.amount,
+      userAddress: claim!.userAddress,
+      milestoneId: claim!.milestoneId,
+      processedAt: claim!.updatedAt,
     });
 
   } catch (error) {
@@ -47,4 +55,19 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}
+
+// Claim status for a user: GET /api/claims/process?userAddress=0x...
+export async function GET(request: NextRequest) {
+  const userAddress = request.nextUrl.searchParams.get('userAddress');
+  if (!userAddress) {
+    return NextResponse.json({ error: 'userAddress is required' }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json({ claims: await getClaimsForUser(userAddress) });
+  } catch (error) {
+    console.error('Error loading claims:', error);
+    return NextResponse.json({ error: 'Failed to load claims' }, { status: 500 });
+  }
+}
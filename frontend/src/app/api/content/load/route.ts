@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { Redis } from '@upstash/redis';
+import { canActFor, getAuthenticatedUser } from '@/lib/auth';
+import { verifyAccessToken } from '@/lib/x402-access-token';
 
 // Redis client setup
 const redis = new Redis({
@@ -30,6 +32,7 @@ export async function GET(request: NextRequest) {
     const { searchParams } = new URL(request.url);
     const contentId = searchParams.get('id');
     const accessToken = searchParams.get('token') || request.headers.get('authorization')?.replace('Bearer ', '');
+    const payerAddress = searchParams.get('payer');
     
     if (!contentId) {
       return corsHeaders(
@@ -37,20 +40,31 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    if (!accessToken) {
-      return corsHeaders(
-        NextResponse.json({ error: 'Access token required' }, { status: 401 })
-      );
-    }
-
     console.log('📖 Loading content:', contentId);
 
-    // Verify access token
-    const isValidAccess = await verifyAccess(contentId, accessToken);
+    // Anyone can name a payer, so only bind to one the caller is signed in as
+    if (payerAddress) {
+      const user = await getAuthenticatedUser(request);
+      if (!user || !canActFor(user, payerAddress)) {
+        return corsHeaders(
+          NextResponse.json(
+            { error: 'Sign in as the payer to load content bound to it' },
+            { status: user ? 403 : 401 }
+          )
+        );
+      }
+    }
+
+    // Verify signature, expiry, audience, payer and revocation
+    const access = await verifyAccessToken(accessToken, contentId, payerAddress);
     
-    if (!isValidAccess) {
+    if (!access.valid) {
+      console.log(`❌ Access denied for ${contentId}: ${access.reason}`);
       return corsHeaders(
-        NextResponse.json({ error: 'Invalid or expired access token' }, { status: 403 })
+        NextResponse.json(
+          { error: access.error, reason: access.reason },
+          { status: access.status }
+        )
       );
     }
 
@@ -70,53 +84,6 @@ export async function GET(request: NextRequest) {
   }
 }
 
-async function verifyAccess(contentId: string, accessToken: string): Promise<boolean> {
-  try {
-    // Decode access token
-    const decoded = JSON.parse(Buffer.from(accessToken, 'base64').toString('utf-8'));
-    
-    if (decoded.contentId !== contentId) {
-      console.log('❌ Content ID mismatch in token');
-      return false;
-    }
-
-    // Check if token is not too old (24 hours)
-    const tokenAge = Date.now() - decoded.issuedAt;
-    if (tokenAge > 24 * 60 * 60 * 1000) {
-      console.log('❌ Access token expired');
-      return false;
-    }
-
-    // Verify payment record exists in Redis
-    const paymentKey = decoded.userAddress !== 'anonymous' ? 
-      `payment:${contentId}:${decoded.userAddress}` : 
-      `payment:${contentId}:guest`;
-    
-    const paymentRecord = await redis.get(paymentKey);
-    
-    if (!paymentRecord) {
-      console.log('❌ No payment record found');
-      return false;
-    }
-
-    const payment = typeof paymentRecord === 'string' ? JSON.parse(paymentRecord) : paymentRecord;
-    
-    // Check if payment is still valid (not expired)
-    if (payment.expiresAt && new Date(payment.expiresAt) <= new Date()) {
-      console.log('❌ Payment expired');
-      await redis.del(paymentKey);
-      return false;
-    }
-
-    console.log('✅ Access verified');
-    return true;
-
-  } catch (error) {
-    console.error('Access verification error:', error);
-    return false;
-  }
-}
-
 async function loadContent(contentId: string): Promise<ContentResponse> {
   try {
     // Get content metadata from Redis
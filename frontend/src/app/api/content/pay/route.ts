@@ -1,18 +1,40 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { Redis } from '@upstash/redis';
-import { randomBytes } from 'crypto';
+import { formatUnits } from 'viem';
+import { getAuthenticatedUser } from '@/lib/auth';
 import { daimoPayClient, getDaimoChainId } from '@/lib/daimo-pay';
-
-// Redis client setup - with safe initialization
-const redis = process.env.NEXT_PUBLIC_UPSTASH_REDIS_REST_URL && process.env.NEXT_PUBLIC_UPSTASH_REDIS_REST_TOKEN
+import { env } from '@/lib/env';
+import {
+  issueAccessToken,
+  revokePaymentAccess,
+} from '@/lib/x402-access-token';
+import {
+  getContentPaymentRequirements,
+  paymentRequired,
+  processX402Payment,
+  X402_ASSETS,
+  type PaymentRequirements,
+} from '@/lib/x402-facilitator';
+import {
+  PAYMENT_FAILURE_STATUS,
+  verifyContentPayment,
+  X402_NETWORKS,
+  type PayerProof,
+  type PaymentFailureReason,
+} from '@/lib/x402-payment-verification';
+
+// Server-only credentials, the same store the payment verifier and
+// facilitator use
+const redis = process.env.UPSTASH_REDIS_REST_URL && process.env.UPSTASH_REDIS_REST_TOKEN
   ? new Redis({
-      url: process.env.NEXT_PUBLIC_UPSTASH_REDIS_REST_URL,
-      token: process.env.NEXT_PUBLIC_UPSTASH_REDIS_REST_TOKEN,
+      url: process.env.UPSTASH_REDIS_REST_URL,
+      token: process.env.UPSTASH_REDIS_REST_TOKEN,
     })
   : null;
 
 interface PaymentRequest {
   transactionHash?: string;
+  payerSignature?: string; // payerProofMessage() signed by the paying wallet
   userAddress?: string;
   amount?: string;
   currency?: string;
@@ -26,12 +48,26 @@ interface PaymentResponse {
   paymentUrl?: string;
   contentUrl?: string;
   error?: string;
+  reason?: PaymentFailureReason;
+  accepts?: PaymentRequirements[];
+}
+
+// A payment that has been checked on-chain, however it was made
+interface SettledPayment {
+  transactionHash: string;
+  payerAddress: string;
+  recipient: string;
+  amount: string; // token units, e.g. "0.01"
+  network: string;
+  chainId: number;
+  blockNumber?: string;
 }
 
 function corsHeaders(response: NextResponse) {
   response.headers.set('Access-Control-Allow-Origin', '*');
-  response.headers.set('Access-Control-Allow-Methods', 'POST, OPTIONS');
-  response.headers.set('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Payment');
+  response.headers.set('Access-Control-Allow-Methods', 'POST, DELETE, OPTIONS');
+  response.headers.set('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-PAYMENT');
+  response.headers.set('Access-Control-Expose-Headers', 'X-PAYMENT-RESPONSE');
   return response;
 }
 
@@ -47,21 +83,37 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json().catch(() => ({}));
-    const { transactionHash, userAddress, amount, currency, network }: PaymentRequest = body;
+    const { transactionHash, payerSignature, userAddress, amount, currency, network }: PaymentRequest = body;
 
     console.log('💳 Processing payment for content:', contentId, { transactionHash, userAddress, amount });
 
+    // x402 clients pay with a signed EIP-3009 authorization in X-PAYMENT
+    const paymentHeader = request.headers.get('X-PAYMENT');
+    if (paymentHeader || (!transactionHash && !userAddress)) {
+      return corsHeaders(await processX402ContentPayment(request, contentId, paymentHeader, userAddress));
+    }
+
     // If transaction hash is provided, verify it (simplified for demo)
     if (transactionHash) {
+      const user = await getAuthenticatedUser(request);
       const paymentResult = await processBlockchainPayment(contentId, {
         transactionHash,
         userAddress,
         amount,
         currency,
         network
+      }, {
+        sessionAddresses: user?.addresses,
+        signature: payerSignature,
       });
       
-      return corsHeaders(NextResponse.json(paymentResult));
+      // A failure without a reason is an unexpected error, not a bad payment
+      const status = paymentResult.success
+        ? 200
+        : paymentResult.reason
+          ? PAYMENT_FAILURE_STATUS[paymentResult.reason]
+          : 500;
+      return corsHeaders(NextResponse.json(paymentResult, { status }));
     }
 
     // If no transaction hash, return payment URL for user to complete payment
@@ -70,7 +122,8 @@ export async function POST(request: NextRequest) {
     const response: PaymentResponse = {
       success: false,
       paymentUrl,
-      error: 'Payment required'
+      error: 'Payment required',
+      accepts: await getContentPaymentRequirements(contentId, request.url)
     };
 
     return corsHeaders(NextResponse.json(response));
@@ -89,60 +142,42 @@ export async function POST(request: NextRequest) {
   }
 }
 
-async function processBlockchainPayment(contentId: string, payment: PaymentRequest): Promise<PaymentResponse> {
+async function processBlockchainPayment(
+  contentId: string,
+  payment: PaymentRequest,
+  payerProof: PayerProof
+): Promise<PaymentResponse> {
   try {
-    // In a real implementation, you would:
-    // 1. Verify the transaction on-chain
-    // 2. Check the amount matches the content price
-    // 3. Confirm the recipient is correct
-    // 4. Ensure the transaction is confirmed
-    
-    // For demo purposes, we'll simulate verification
-    const isValidPayment = await verifyPayment(payment);
-    
-    if (!isValidPayment) {
-      return {
-        success: false,
-        error: 'Payment verification failed'
-      };
-    }
-
-    // Generate access token
-    const accessToken = generateAccessToken(contentId, payment.userAddress || 'anonymous');
-    const expiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(); // 24 hours
-    
-    // Store payment record in Redis
-    const paymentKey = payment.userAddress ? 
-      `payment:${contentId}:${payment.userAddress}` : 
-      `payment:${contentId}:guest`;
-    
-    const paymentRecord = {
+    // Verify recipient, amount, chain, confirmations and that the caller
+    // controls the paying wallet on-chain, and claim the tx hash so the same
+    // transfer can't unlock content twice
+    const verification = await verifyContentPayment({
       contentId,
-      transactionHash: payment.transactionHash,
-      userAddress: payment.userAddress,
-      amount: payment.amount,
-      currency: payment.currency,
+      transactionHash: payment.transactionHash!,
       network: payment.network,
-      accessToken,
-      expiresAt,
-      paidAt: new Date().toISOString()
-    };
+      payerProof,
+    });
 
-    if (redis) {
-    await redis.set(paymentKey, JSON.stringify(paymentRecord), { ex: 86400 }); // 24 hours
+    if (!verification.success) {
+      console.log(`❌ Payment verification failed (${verification.reason}):`, verification.error);
+      return {
+        success: false,
+        reason: verification.reason,
+        error: verification.error
+      };
     }
 
-    // Update content access stats
-    await updateContentStats(contentId, payment);
+    const { transfer } = verification;
 
-    console.log('✅ Payment processed successfully');
-
-    return {
-      success: true,
-      accessToken,
-      expiresAt,
-      contentUrl: `${process.env.NEXT_PUBLIC_URL}/api/content/load?id=${contentId}&token=${accessToken}`
-    };
+    return await grantContentAccess(contentId, payment, {
+      transactionHash: transfer.transactionHash,
+      payerAddress: transfer.from,
+      recipient: transfer.to,
+      amount: formatUnits(BigInt(transfer.amount), transfer.decimals),
+      network: transfer.network,
+      chainId: transfer.chainId,
+      blockNumber: transfer.blockNumber,
+    });
 
   } catch (error) {
     console.error('Blockchain payment processing error:', error);
@@ -153,37 +188,103 @@ async function processBlockchainPayment(contentId: string, payment: PaymentReque
   }
 }
 
-async function verifyPayment(payment: PaymentRequest): Promise<boolean> {
-  // Simplified verification for demo
-  // In production, you would:
-  // 1. Call blockchain RPC to get transaction details
-  // 2. Verify recipient address
-  // 3. Check transaction amount
-  // 4. Confirm transaction is confirmed
-  
-  if (!payment.transactionHash || payment.transactionHash.length < 10) {
-    return false;
+// Verify and settle an X-PAYMENT authorization, answering with X-PAYMENT-RESPONSE
+async function processX402ContentPayment(
+  request: NextRequest,
+  contentId: string,
+  paymentHeader: string | null,
+  userAddress?: string
+): Promise<NextResponse> {
+  const accepts = await getContentPaymentRequirements(contentId, request.url);
+  if (!paymentHeader) {
+    return NextResponse.json(paymentRequired(accepts, 'X-PAYMENT header is required').body, { status: 402 });
   }
-  
-  // Mock verification - in real implementation, check on-chain
-  console.log('🔍 Verifying payment (mock):', payment.transactionHash);
-  
-  // Simulate async blockchain verification
-  await new Promise(resolve => setTimeout(resolve, 100));
-  
-  return true; // Simplified for demo
+  if (!redis) {
+    // Payments must be recorded, so fail closed like the tx hash path
+    return NextResponse.json(
+      { success: false, reason: 'registry_unavailable', error: 'Payment registry unavailable, please try again later' },
+      { status: 503 }
+    );
+  }
+
+  const payment = await processX402Payment(paymentHeader, accepts);
+  if (payment.status === 202) {
+    // Settlement sent but not mined yet: the client retries the same X-PAYMENT
+    const response = NextResponse.json(payment.body, { status: 202 });
+    response.headers.set('X-PAYMENT-RESPONSE', payment.paymentResponse);
+    return response;
+  }
+  if (!payment.paid) {
+    console.log(`❌ x402 payment rejected for ${contentId}: ${payment.body.error}`);
+    return NextResponse.json(payment.body, { status: payment.status });
+  }
+
+  const { requirements, settlement } = payment;
+  const result = await grantContentAccess(contentId, { userAddress, currency: 'USDC', network: requirements.network }, {
+    transactionHash: settlement.transaction!,
+    payerAddress: payment.payer,
+    recipient: requirements.payTo,
+    amount: formatUnits(BigInt(requirements.maxAmountRequired), X402_ASSETS[requirements.network].decimals),
+    network: requirements.network,
+    chainId: X402_NETWORKS[requirements.network].id,
+  });
+
+  const response = NextResponse.json(result);
+  response.headers.set('X-PAYMENT-RESPONSE', payment.paymentResponse);
+  return response;
 }
 
-function generateAccessToken(contentId: string, userAddress: string): string {
-  const payload = {
+// Issue the access token and record the payment and stats
+async function grantContentAccess(
+  contentId: string,
+  payment: PaymentRequest,
+  settled: SettledPayment
+): Promise<PaymentResponse> {
+  // Signed access token bound to the content, the on-chain payer and this
+  // payment (the tx hash doubles as payment id for revocation)
+  const { token: accessToken, expiresAt } = issueAccessToken({
     contentId,
-    userAddress,
-    issuedAt: Date.now(),
-    issuer: 'x402-payment-system'
-  };
+    payerAddress: settled.payerAddress,
+    paymentId: settled.transactionHash,
+    amount: settled.amount,
+  });
   
-  // Simple base64 token for demo
-  return Buffer.from(JSON.stringify(payload)).toString('base64');
+  // Store payment record in Redis
+  const paymentKey = payment.userAddress ? 
+    `payment:${contentId}:${payment.userAddress}` : 
+    `payment:${contentId}:guest`;
+
+  const paymentRecord = {
+    contentId,
+    transactionHash: settled.transactionHash,
+    userAddress: payment.userAddress,
+    payerAddress: settled.payerAddress,
+    recipient: settled.recipient,
+    amount: settled.amount,
+    currency: payment.currency,
+    network: settled.network,
+    chainId: settled.chainId,
+    blockNumber: settled.blockNumber,
+    accessToken,
+    expiresAt,
+    paidAt: new Date().toISOString()
+  };
+
+  if (redis) {
+  await redis.set(paymentKey, JSON.stringify(paymentRecord), { ex: 86400 }); // 24 hours
+  }
+
+  // Update content access stats
+  await updateContentStats(contentId, { ...payment, amount: settled.amount });
+
+  console.log('✅ Payment processed successfully');
+
+  return {
+    success: true,
+    accessToken,
+    expiresAt,
+    contentUrl: `${process.env.NEXT_PUBLIC_URL}/api/content/load?id=${contentId}&token=${accessToken}`
+  };
 }
 
 async function updateContentStats(contentId: string, payment: PaymentRequest): Promise<void> {
@@ -436,6 +537,40 @@ async function generatePaymentUrl(contentId: string, userAddress?: string, userA
   return paymentLink.url;
 }
 
+// Revoke all access tokens issued for a payment (refunds, disputes)
+export async function DELETE(request: NextRequest) {
+  try {
+    if (!env.API_SECRET_KEY || request.headers.get('x-api-secret') !== env.API_SECRET_KEY) {
+      return corsHeaders(
+        NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+      );
+    }
+
+    const paymentId = new URL(request.url).searchParams.get('paymentId');
+    if (!paymentId) {
+      return corsHeaders(
+        NextResponse.json({ error: 'paymentId is required' }, { status: 400 })
+      );
+    }
+
+    await revokePaymentAccess(paymentId);
+    console.log('🚫 Revoked access tokens for payment:', paymentId);
+
+    return corsHeaders(NextResponse.json({ success: true, paymentId, revoked: true }));
+  } catch (error) {
+    console.error('Access revocation error:', error);
+    return corsHeaders(
+      NextResponse.json(
+        { 
+          success: false, 
+          error: error instanceof Error ? error.message : 'Failed to revoke access' 
+        },
+        { status: 500 }
+      )
+    );
+  }
+}
+
 export async function OPTIONS(request: NextRequest) {
   return corsHeaders(new NextResponse(null, { status: 200 }));
 } 
\ No newline at end of file
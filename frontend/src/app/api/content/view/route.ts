@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { Redis } from '@upstash/redis';
+import { canActFor, getAuthenticatedUser } from '@/lib/auth';
+import { verifyAccessToken } from '@/lib/x402-access-token';
 
 // Redis client setup
 const redis = new Redis({
@@ -36,6 +38,7 @@ export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const uri = searchParams.get('uri');
+    const accessToken = searchParams.get('token') || request.headers.get('authorization')?.replace('Bearer ', '');
     
     if (!uri) {
       return corsHeaders(
@@ -57,6 +60,37 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    // A presented token must be valid - never silently fall back to preview
+    if (accessToken && content.requiresPayment) {
+      // Anyone can name a payer, so only bind to one the caller is signed in as
+      const payerAddress = searchParams.get('payer');
+      if (payerAddress) {
+        const user = await getAuthenticatedUser(request);
+        if (!user || !canActFor(user, payerAddress)) {
+          return corsHeaders(
+            NextResponse.json(
+              { error: 'Sign in as the payer to view content bound to it' },
+              { status: user ? 403 : 401 }
+            )
+          );
+        }
+      }
+
+      const access = await verifyAccessToken(accessToken, content.id, payerAddress);
+
+      if (!access.valid) {
+        console.log(`❌ Access denied for ${content.id}: ${access.reason}`);
+        return corsHeaders(
+          NextResponse.json(
+            { error: access.error, reason: access.reason },
+            { status: access.status }
+          )
+        );
+      }
+
+      content = { ...content, requiresPayment: false };
+    }
+
     return corsHeaders(NextResponse.json(content));
 
   } catch (error) {
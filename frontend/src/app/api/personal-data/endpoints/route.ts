@@ -47,13 +47,15 @@ interface EndpointRequest {
   price: number;          // Price in USD for x402 payment
   description: string;    // Description of the endpoint
   owner: string;          // Ethereum address of the endpoint owner
-  requiresZkfetch: boolean; // Whether to use zkfetch for proof+verification
+  requiresZkfetch: boolean; // Whether paid responses carry a zkfetch proof (added by the backend)
+  signature: string;      // Owner's signature over the registration
+  issuedAt: string;       // When the owner signed it
 }
 
 export async function POST(req: Request) {
   try {
     const body = await req.json() as EndpointRequest;
-    const { resourceUrl, endpointPath, price, description, owner, requiresZkfetch } = body;
+    const { resourceUrl, endpointPath, price, description, owner, requiresZkfetch, signature, issuedAt } = body;
 
     // Validate required fields
     if (!resourceUrl || !endpointPath || !price || !description || !owner) {
@@ -84,7 +86,9 @@ export async function POST(req: Request) {
         price,
         description,
         owner,
-        requiresZkfetch
+        requiresZkfetch,
+        signature,
+        issuedAt
       })
     });
 
@@ -99,30 +103,6 @@ export async function POST(req: Request) {
       );
     }
 
-    // Set up zkfetch integration if required
-    if (requiresZkfetch) {
-      try {
-        // Initialize zkfetch for the endpoint
-        const zkfetchResponse = await fetch(`${backendUrl}/zkfetch/init`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json'
-          },
-          body: JSON.stringify({
-            resourceUrl,
-            endpointPath,
-            owner
-          })
-        });
-
-        if (!zkfetchResponse.ok) {
-          console.error('Failed to initialize zkfetch:', await zkfetchResponse.text());
-        }
-      } catch (error) {
-        console.error('Error initializing zkfetch:', error);
-      }
-    }
-
     const data = await response.json();
     return NextResponse.json({ success: true, data });
   } catch (error) {
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { fetchPonderApi, PonderNotConfiguredError } from '@/lib/ponder-client';
+
+export const dynamic = 'force-dynamic';
+
+// Only the indexer's read-only privacy routes are reachable through this proxy
+const ALLOWED_PATHS = [
+  /^\/profiles\/0x[0-9a-fA-F]{40}$/,
+  /^\/profiles\/0x[0-9a-fA-F]{40}\/timeline$/,
+  /^\/leaderboard$/,
+  /^\/stats\/daily$/,
+  /^\/announcements$/,
+];
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ path: string[] }> }
+) {
+  const { path } = await params;
+  const ponderPath = `/${path.join('/')}`;
+
+  if (!ALLOWED_PATHS.some((pattern) => pattern.test(ponderPath))) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  try {
+    const response = await fetchPonderApi(ponderPath, request.nextUrl.search);
+    const body = await response.json().catch(() => ({ error: 'Invalid response from indexer' }));
+    return NextResponse.json(body, { status: response.ok ? 200 : response.status });
+  } catch (error) {
+    console.error(`❌ Ponder proxy error for ${ponderPath}:`, error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Indexer unavailable' },
+      { status: error instanceof PonderNotConfiguredError ? 503 : 502 }
+    );
+  }
+}
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { encodeFunctionData, isAddress, type Address, type Hex } from 'viem';
+import { z } from 'zod';
+import { canActFor, getAuthenticatedUser } from '@/lib/auth';
+import { SCHEME_ID_SECP256K1, parseStealthMetaAddress, stealthMetaAddressToBytes } from '@/lib/stealth-crypto';
+import { STEALTH_CHAINS, type StealthChainName } from '@/lib/stealth-chains';
+import { ERC6538_REGISTRY, ERC6538_REGISTRY_ABI, getRegisteredMetaAddress } from '@/lib/stealth-registry';
+import {
+  getClientIp,
+  getStealthRelayer,
+  sendRelayerTransaction,
+  takeRelayQuota,
+} from '@/lib/stealth-relayer';
+
+export const dynamic = 'force-dynamic';
+
+// Sponsored registrations per day, per client IP and per registrant
+const REGISTRATIONS_PER_IP = 5;
+const REGISTRATIONS_PER_ADDRESS = 3;
+const REGISTRATION_WINDOW_SECONDS = 24 * 60 * 60;
+
+const registerSchema = z.object({
+  network: z.enum(Object.keys(STEALTH_CHAINS) as [StealthChainName, ...StealthChainName[]]),
+  registrant: z.string().refine((value) => isAddress(value), 'Invalid address'),
+  stealthMetaAddress: z.string().refine((value) => parseStealthMetaAddress(value) !== null, 'Invalid stealth meta-address'),
+  signature: z.string().regex(/^0x[0-9a-fA-F]{130}$/),
+});
+
+/**
+ * Gasless ERC-6538 registration: submit a registrant's EIP-712 signed
+ * Erc6538RegistryEntry through registerKeysOnBehalf, paid for by the
+ * stealth relayer. The registry checks the signature and nonce itself;
+ * sponsoring is limited to signed-in users registering their own address,
+ * within per-IP and per-address quotas.
+ */
+export async function POST(request: NextRequest) {
+  const relayer = getStealthRelayer();
+  if (!relayer) {
+    return NextResponse.json({ error: 'Stealth relayer is not configured' }, { status: 503 });
+  }
+
+  const parsed = registerSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid registration request', details: parsed.error.flatten() }, { status: 400 });
+  }
+
+  const { network, stealthMetaAddress, signature } = parsed.data;
+  const registrant = parsed.data.registrant as Address;
+
+  const user = await getAuthenticatedUser(request);
+  if (!user) {
+    return NextResponse.json(
+      { error: 'Sign in (SIWE or Farcaster) to register without gas' },
+      { status: 401 }
+    );
+  }
+  if (!canActFor(user, registrant)) {
+    return NextResponse.json(
+      { error: 'You can only register your own signed-in address' },
+      { status: 403 }
+    );
+  }
+
+  const [ipAllowed, addressAllowed] = await Promise.all([
+    takeRelayQuota(`register-ip:${getClientIp(request)}`, REGISTRATIONS_PER_IP, REGISTRATION_WINDOW_SECONDS),
+    takeRelayQuota(`register:${registrant}`, REGISTRATIONS_PER_ADDRESS, REGISTRATION_WINDOW_SECONDS),
+  ]);
+  if (!ipAllowed || !addressAllowed) {
+    return NextResponse.json({ error: 'Too many registration requests, try again later' }, { status: 429 });
+  }
+
+  try {
+    // Don't spend relayer gas re-writing an identical entry
+    const current = await getRegisteredMetaAddress(network, registrant);
+    if (current?.toLowerCase() === stealthMetaAddress.toLowerCase()) {
+      return NextResponse.json({ error: 'This meta-address is already registered' }, { status: 409 });
+    }
+
+    const txHash = await sendRelayerTransaction(relayer, network, {
+      to: ERC6538_REGISTRY,
+      data: encodeFunctionData({
+        abi: ERC6538_REGISTRY_ABI,
+        functionName: 'registerKeysOnBehalf',
+        args: [registrant, SCHEME_ID_SECP256K1, signature as Hex, stealthMetaAddressToBytes(stealthMetaAddress)],
+      }),
+    });
+
+    console.log(`🔑 Relayed ERC-6538 registration for ${registrant} on ${network}: ${txHash}`);
+    return NextResponse.json({ txHash });
+  } catch (error) {
+    console.error('❌ Stealth registration relay failed:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message.split('\n')[0] : 'Registration failed' },
+      { status: 502 }
+    );
+  }
+}
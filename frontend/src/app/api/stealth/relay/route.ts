@@ -0,0 +1,163 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  encodeFunctionData,
+  erc20Abi,
+  formatUnits,
+  isAddress,
+  parseAbi,
+  parseSignature,
+  type Address,
+  type Hex,
+} from 'viem';
+import { z } from 'zod';
+import { isAnnouncedStealthAddress } from '@/lib/ponder-client';
+import {
+  getStealthChainClient,
+  RELAY_MIN_USDC,
+  STEALTH_CHAINS,
+  type StealthChainName,
+} from '@/lib/stealth-chains';
+import {
+  getClientIp,
+  getStealthRelayer,
+  sendRelayerTransaction,
+  takeRelayQuota,
+} from '@/lib/stealth-relayer';
+
+export const dynamic = 'force-dynamic';
+
+// EIP-3009, as implemented by Circle's USDC on every supported chain
+const USDC_AUTHORIZATION_ABI = parseAbi([
+  'function transferWithAuthorization(address from, address to, uint256 value, uint256 validAfter, uint256 validBefore, bytes32 nonce, uint8 v, bytes32 r, bytes32 s)',
+]);
+
+// Sponsored sweeps per hour, per client IP and per stealth address
+const RELAYS_PER_IP = 10;
+const RELAYS_PER_ADDRESS = 3;
+const RELAY_WINDOW_SECONDS = 60 * 60;
+
+const uint256String = z.string().regex(/^\d+$/);
+const address = z.string().refine((value) => isAddress(value), 'Invalid address');
+
+const relaySchema = z.object({
+  network: z.enum(Object.keys(STEALTH_CHAINS) as [StealthChainName, ...StealthChainName[]]),
+  authorization: z.object({
+    from: address,
+    to: address,
+    value: uint256String,
+    validAfter: uint256String,
+    validBefore: uint256String,
+    nonce: z.string().regex(/^0x[0-9a-fA-F]{64}$/),
+  }),
+  signature: z.string().regex(/^0x[0-9a-fA-F]{130}$/),
+});
+
+export async function GET() {
+  return NextResponse.json({ enabled: getStealthRelayer() !== null });
+}
+
+/**
+ * Submit a signed USDC transferWithAuthorization on behalf of a stealth
+ * address that has no ETH for gas. The relayer only ever calls the USDC
+ * contract, and only sponsors announced stealth addresses moving at least
+ * RELAY_MIN_USDC they actually hold, within per-IP and per-address quotas,
+ * so throwaway keys can't make it pay for empty transfers.
+ */
+export async function POST(request: NextRequest) {
+  const relayer = getStealthRelayer();
+  if (!relayer) {
+    return NextResponse.json({ error: 'Stealth relayer is not configured' }, { status: 503 });
+  }
+
+  const parsed = relaySchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid relay request', details: parsed.error.flatten() }, { status: 400 });
+  }
+
+  const { network, authorization, signature } = parsed.data;
+  const { usdc } = STEALTH_CHAINS[network];
+  const client = getStealthChainClient(network);
+  const from = authorization.from as Address;
+  const value = BigInt(authorization.value);
+
+  if (value < RELAY_MIN_USDC) {
+    return NextResponse.json(
+      { error: `The relayer only sponsors transfers of at least ${formatUnits(RELAY_MIN_USDC, 6)} USDC` },
+      { status: 400 }
+    );
+  }
+
+  const [ipAllowed, addressAllowed] = await Promise.all([
+    takeRelayQuota(`ip:${getClientIp(request)}`, RELAYS_PER_IP, RELAY_WINDOW_SECONDS),
+    takeRelayQuota(`from:${from}`, RELAYS_PER_ADDRESS, RELAY_WINDOW_SECONDS),
+  ]);
+  if (!ipAllowed || !addressAllowed) {
+    return NextResponse.json({ error: 'Too many relay requests, try again later' }, { status: 429 });
+  }
+
+  // Only stealth addresses someone actually paid through ERC-5564
+  try {
+    if (!(await isAnnouncedStealthAddress(from, network))) {
+      return NextResponse.json(
+        { error: 'The relayer only sponsors announced stealth addresses' },
+        { status: 403 }
+      );
+    }
+  } catch (error) {
+    console.error('❌ Stealth relay announcement lookup failed:', error);
+    return NextResponse.json({ error: 'Announcement index unavailable' }, { status: 503 });
+  }
+
+  try {
+    const { r, s, v, yParity } = parseSignature(signature as Hex);
+    const data = encodeFunctionData({
+      abi: USDC_AUTHORIZATION_ABI,
+      functionName: 'transferWithAuthorization',
+      args: [
+        from,
+        authorization.to as Address,
+        value,
+        BigInt(authorization.validAfter),
+        BigInt(authorization.validBefore),
+        authorization.nonce as Hex,
+        Number(v ?? BigInt(yParity + 27)),
+        r,
+        s,
+      ],
+    });
+
+    const usdcBalance = await client.readContract({
+      address: usdc,
+      abi: erc20Abi,
+      functionName: 'balanceOf',
+      args: [from],
+    });
+    if (usdcBalance < value) {
+      return NextResponse.json({ error: 'Address does not hold the USDC it authorized' }, { status: 400 });
+    }
+
+    // Addresses that can pay for their own transfer don't need sponsoring
+    const [fromBalance, gas, fees] = await Promise.all([
+      client.getBalance({ address: from }),
+      client.estimateGas({ account: relayer.address, to: usdc, data }),
+      client.estimateFeesPerGas(),
+    ]);
+    if (fromBalance >= gas * fees.maxFeePerGas) {
+      return NextResponse.json(
+        { error: 'Address has enough ETH to pay for its own transfer' },
+        { status: 400 }
+      );
+    }
+
+    const txHash = await sendRelayerTransaction(relayer, network, { to: usdc, data });
+
+    console.log(`⛽ Relayed USDC sweep from ${from} on ${network}: ${txHash}`);
+    return NextResponse.json({ txHash });
+  } catch (error) {
+    console.error('❌ Stealth relay failed:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message.split('\n')[0] : 'Relay failed' },
+      { status: 502 }
+    );
+  }
+}
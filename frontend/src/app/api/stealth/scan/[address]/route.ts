@@ -1,20 +1,16 @@
 import { NextRequest } from 'next/server';
+import { isAddress } from 'viem';
 import { stealthNotificationManager } from '../../../../../lib/stealth-notifications';
 import { NotificationClient } from '../../../../../lib/notification-client';
-
-// Types for the response
-interface StealthActivity {
-  type: 'announcement' | 'registration' | 'veil_deposit' | 'veil_withdrawal' | 'umbra_send' | 'umbra_withdraw' | 'umbra_key_registration';
-  txHash: string;
-  blockNumber: number;
-  timestamp: number;
-  amount?: string;
-  stealthAddress?: string;
-  metadata?: string;
-  ephemeralPubKey?: string;
-  token?: string;
-  protocol?: 'ERC5564' | 'Umbra' | 'Veil';
-}
+import {
+  fetchPrivacyProfile,
+  fetchStealthActivities,
+  PonderNotConfiguredError,
+  PONDER_MAX_PAGE_SIZE,
+  resolvePonderNetwork,
+  type PrivacyProfile,
+  type StealthActivityType,
+} from '../../../../../lib/ponder-client';
 
 interface StealthMetaData {
   registrations: number;
@@ -28,6 +24,28 @@ interface StealthMetaData {
   fluidKeyScore: number;
 }
 
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+const ACTIVITY_TYPES: StealthActivityType[] = [
+  'announcement',
+  'registration',
+  'veil_deposit',
+  'veil_withdrawal',
+  'umbra_send',
+  'umbra_withdraw',
+  'umbra_key_registration',
+];
+
+/**
+ * Indexed stealth activity for an address.
+ *
+ * Query params:
+ *   limit   page size (1-200, default 50)
+ *   offset  rows to skip, newest first
+ *   chains  comma-separated network names or chain ids (e.g. "mainnet,8453")
+ *   types   comma-separated activity types
+ */
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ address: string }> }
@@ -37,7 +55,7 @@ export async function GET(
     console.log('🔍 Stealth scan API called for address:', resolvedParams.address);
     
     const address = resolvedParams.address;
-    if (!address || address.length < 10) {
+    if (!address || !isAddress(address, { strict: false })) {
       return Response.json({
         success: false,
         error: 'Invalid address provided',
@@ -46,30 +64,34 @@ export async function GET(
       }, { status: 400 });
     }
 
-    // In production, this would integrate with:
-    // 1. The stealth address SDK from https://stealthaddress.dev/
-    // 2. ERC-5564 Announcer contract events
-    // 3. ERC-6538 Registry contract events
-    // 4. Umbra Protocol subgraph
-    // 5. FluidKey Score API
-    
-    // For now, we'll simulate data and use our notification system
-    const notificationClient = NotificationClient.getInstance();
-    
-    // Generate realistic stealth activities based on address
-    const activities = await generateStealthActivities(address);
-    const metadata = await calculateStealthMetadata(address, activities);
+    const query = parseScanQuery(request.nextUrl.searchParams);
+    if ('error' in query) {
+      return Response.json({
+        success: false,
+        error: query.error,
+        activities: [],
+        metadata: getEmptyMetadata()
+      }, { status: 400 });
+    }
+
+    const [page, profile] = await Promise.all([
+      fetchStealthActivities({ address, ...query }),
+      fetchPrivacyProfile(address),
+    ]);
+    const { activities } = page;
+    const metadata = profile ? profileMetadata(profile) : getEmptyMetadata();
     
-    // If this is a new scan, potentially send notifications
-    if (activities.length > 0) {
+    // Only the first page counts as a new scan for notifications
+    if (activities.length > 0 && query.offset === 0) {
       console.log(`📊 Found ${activities.length} stealth activities for ${address}`);
       
-      // Send stealth scan notification to the user
+      const notificationClient = NotificationClient.getInstance();
       try {
+        const blocks = activities.map(a => a.blockNumber);
         await notificationClient.sendStealthScanNotification(
           address,
           activities.filter(a => a.type === 'announcement').length,
-          activities.length * 100 // Mock scanned blocks
+          Math.max(...blocks) - Math.min(...blocks) + 1
         );
       } catch (error) {
         console.warn('Failed to send scan notification:', error);
@@ -81,6 +103,13 @@ export async function GET(
       address,
       activities,
       metadata,
+      pagination: {
+        limit: query.limit,
+        offset: query.offset,
+        nextOffset: page.hasMore ? query.offset + activities.length : null,
+        hasMore: page.hasMore,
+      },
+      chains: query.networks ?? null,
       realTimeSupported: true,
       scanTimestamp: Date.now(),
       message: `Found ${activities.length} stealth activities`
@@ -94,111 +123,64 @@ export async function GET(
       error: error instanceof Error ? error.message : 'Unknown error',
       activities: [],
       metadata: getEmptyMetadata(),
-      fallbackData: true
-    }, { status: 500 });
+    }, { status: error instanceof PonderNotConfiguredError ? 503 : 502 });
   }
 }
 
-// Generate stealth activities based on address characteristics
-async function generateStealthActivities(address: string): Promise<StealthActivity[]> {
-  const activities: StealthActivity[] = [];
-  
-  // Use address characteristics to determine activity level
-  const addressNum = parseInt(address.slice(2, 10), 16);
-  const activityLevel = addressNum % 10; // 0-9 scale
-  
-  const now = Math.floor(Date.now() / 1000);
-  const oneDay = 86400;
-  
-  // Generate ERC-5564 activities
-  if (activityLevel >= 3) {
-    activities.push({
-      type: 'registration',
-      txHash: `0x${address.slice(2)}${'0'.repeat(64 - address.length + 2)}`,
-      blockNumber: 12345670 + activityLevel,
-      timestamp: now - (oneDay * 7), // 1 week ago
-      protocol: 'ERC5564'
-    });
+type ScanQuery = {
+  limit: number;
+  offset: number;
+  networks?: string[];
+  types?: StealthActivityType[];
+};
+
+function parseScanQuery(searchParams: URLSearchParams): ScanQuery | { error: string } {
+  const limit = Number(searchParams.get('limit') ?? DEFAULT_LIMIT);
+  const offset = Number(searchParams.get('offset') ?? 0);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    return { error: `limit must be an integer between 1 and ${MAX_LIMIT}` };
   }
-  
-  if (activityLevel >= 5) {
-    activities.push({
-      type: 'announcement',
-      txHash: `0x${address.slice(2)}${'1'.repeat(64 - address.length + 2)}`,
-      blockNumber: 12345671 + activityLevel,
-      timestamp: now - (oneDay * 3), // 3 days ago
-      amount: (0.1 + (activityLevel * 0.05)).toFixed(4),
-      stealthAddress: `0xstealth${address.slice(10)}`,
-      ephemeralPubKey: `0x${address.slice(2, 10)}${'abc123'}`,
-      metadata: '0x',
-      protocol: 'ERC5564'
-    });
+  if (!Number.isInteger(offset) || offset < 0 || offset + limit >= PONDER_MAX_PAGE_SIZE) {
+    return { error: `offset must be a non-negative integer with offset + limit below ${PONDER_MAX_PAGE_SIZE}` };
   }
-  
-  // Generate Umbra Protocol activities
-  if (activityLevel >= 7) {
-    activities.push({
-      type: 'umbra_send',
-      txHash: `0x${address.slice(2)}${'2'.repeat(64 - address.length + 2)}`,
-      blockNumber: 12345672 + activityLevel,
-      timestamp: now - (oneDay * 1), // 1 day ago
-      amount: (0.5 + (activityLevel * 0.1)).toFixed(4),
-      token: '0x0000000000000000000000000000000000000000', // ETH
-      protocol: 'Umbra'
-    });
+
+  const list = (name: string) =>
+    searchParams.get(name)?.split(',').map(value => value.trim()).filter(Boolean);
+
+  const chains = list('chains');
+  let networks: string[] | undefined;
+  if (chains?.length) {
+    networks = [];
+    for (const chain of chains) {
+      const network = resolvePonderNetwork(chain);
+      if (!network) return { error: `Unsupported chain: ${chain}` };
+      networks.push(network);
+    }
   }
-  
-  // Generate Veil Cash activities for high-activity addresses
-  if (activityLevel >= 8) {
-    activities.push({
-      type: 'veil_deposit',
-      txHash: `0x${address.slice(2)}${'3'.repeat(64 - address.length + 2)}`,
-      blockNumber: 12345673 + activityLevel,
-      timestamp: now - (oneDay * 2), // 2 days ago
-      amount: (1.0 + (activityLevel * 0.2)).toFixed(4),
-      protocol: 'Veil'
-    });
+
+  const requestedTypes = list('types');
+  let types: StealthActivityType[] | undefined;
+  if (requestedTypes?.length) {
+    const unknown = requestedTypes.find(type => !ACTIVITY_TYPES.includes(type as StealthActivityType));
+    if (unknown) return { error: `Unknown activity type: ${unknown}` };
+    types = requestedTypes as StealthActivityType[];
   }
-  
-  // Sort activities by timestamp (newest first)
-  return activities.sort((a, b) => b.timestamp - a.timestamp);
+
+  return { limit, offset, networks, types };
 }
 
-// Calculate stealth metadata based on activities and address
-async function calculateStealthMetadata(address: string, activities: StealthActivity[]): Promise<StealthMetaData> {
-  const addressNum = parseInt(address.slice(2, 10), 16);
-  
-  // Count activities by type
-  const registrations = activities.filter(a => a.type === 'registration' || a.type === 'umbra_key_registration').length;
-  const announcements = activities.filter(a => a.type === 'announcement').length;
-  const veilDeposits = activities.filter(a => a.type === 'veil_deposit').length;
-  const veilWithdrawals = activities.filter(a => a.type === 'veil_withdrawal').length;
-  const umbraOperations = activities.filter(a => a.type.startsWith('umbra_')).length;
-  
-  // Calculate privacy score based on activity diversity and volume
-  let privacyScore = 0;
-  privacyScore += registrations * 15; // Key registrations are important
-  privacyScore += announcements * 10; // Each stealth payment
-  privacyScore += umbraOperations * 12; // Umbra usage
-  privacyScore += (veilDeposits + veilWithdrawals) * 8; // Veil operations
-  
-  // Cap at 100
-  privacyScore = Math.min(privacyScore, 100);
-  
-  // Mock FluidKey Score based on address characteristics
-  const fksTokenBalance = (addressNum % 50000) + 1000; // 1k-51k range
-  const fluidKeyScore = Math.min((fksTokenBalance / 500) + privacyScore, 100);
-  
+// Totals and score come precomputed from the indexer's PrivacyProfile row
+function profileMetadata(profile: PrivacyProfile): StealthMetaData {
   return {
-    registrations,
-    announcements,
-    veilDeposits,
-    veilWithdrawals,
-    umbraOperations,
-    totalPrivacyScore: privacyScore,
-    fksTokenBalance,
-    fksStaking: Math.floor(fksTokenBalance * 0.3), // 30% typically staked
-    fluidKeyScore
+    registrations: profile.registrationCount + profile.umbraKeyRegistrations,
+    announcements: profile.announcementCount,
+    veilDeposits: 0, // Veil isn't indexed
+    veilWithdrawals: 0,
+    umbraOperations: profile.umbraSendCount + profile.umbraWithdrawCount,
+    totalPrivacyScore: profile.privacyScore,
+    fksTokenBalance: Number(profile.fluidKeyBalance),
+    fksStaking: 0, // staking isn't indexed
+    fluidKeyScore: profile.fluidKeyScore,
   };
 }
 
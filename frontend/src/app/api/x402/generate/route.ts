@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
 import { randomBytes } from 'crypto';
 import { Redis } from '@upstash/redis';
+import { buildPaymentRequirements, X402_ASSETS } from '@/lib/x402-facilitator';
 
 // Redis client setup
 const redis = new Redis({
@@ -41,6 +42,7 @@ interface X402Metadata {
     maxAmountRequired: string;
     extra: {
       name: string;
+      version?: string;
       decimals: number;
     };
   }[];
@@ -118,6 +120,8 @@ export async function POST(request: Request) {
       const network = p.network || 'base-sepolia';
       const usdcContract = USDC_CONTRACTS[network as keyof typeof USDC_CONTRACTS] || USDC_CONTRACTS['base-sepolia'];
       const amountInMicroUnits = Math.floor(p.amount * 1000000); // Convert to micro units (6 decimals)
+      // EIP-712 domain the token signs EIP-3009 authorizations under
+      const domain = X402_ASSETS[network];
       
       return {
         amount: p.amount,
@@ -127,22 +131,24 @@ export async function POST(request: Request) {
         payTo: payTo,
         maxAmountRequired: amountInMicroUnits.toString(),
         extra: {
-          name: 'USDC',
+          name: domain?.name || 'USDC',
+          version: domain?.version,
           decimals: 6
         }
       };
     });
     
-    // Create X402 requirements that match proxy402.com format
+    // x402 payment requirements, as returned in `accepts` by the 402 response
     const x402Requirements = {
-      accepts: enhancedPricing.map((p: { amount: number; currency: string; network: string; asset: string; payTo: string; maxAmountRequired: string; extra: { name: string; decimals: number } }) => ({
-        scheme: 'exact',
-        network: p.network,
-        maxAmountRequired: p.maxAmountRequired,
-        payTo: p.payTo,
-        asset: p.asset,
-        extra: p.extra
-      }))
+      x402Version: 1,
+      accepts: enhancedPricing
+        .map((p: { amount: number; network: string; asset: string; payTo: string; maxAmountRequired: string }) =>
+          buildPaymentRequirements(p, {
+            resource: `${baseUrl}/api/x402/serve?id=${contentId}`,
+            description: description || name,
+          })
+        )
+        .filter(Boolean)
     };
     
     // Create L402-style metadata structure
@@ -158,8 +164,8 @@ export async function POST(request: Request) {
         method: "GET",
         authentication: {
           protocol: "X402",
-          header: "X-Payment",
-          format: "base64 encoded payment payload"
+          header: "X-PAYMENT",
+          format: "base64 encoded x402 exact payment payload (EIP-3009 transferWithAuthorization)"
         }
       },
       file_info: fileInfo,
@@ -1,6 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { formatUnits } from 'viem';
+import { getAuthenticatedUser } from '@/lib/auth';
+import { issueAccessToken } from '@/lib/x402-access-token';
+import {
+  getContentPaymentRequirements,
+  processX402Payment,
+  X402_ASSETS,
+} from '@/lib/x402-facilitator';
+import { PAYMENT_FAILURE_STATUS, verifyContentPayment } from '@/lib/x402-payment-verification';
 import { X402Server } from '@/lib/x402-server';
 
+const contentUrl = (contentId: string, accessToken: string) =>
+  `/api/content/load?id=${contentId}&token=${accessToken}`;
+
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
@@ -15,32 +27,74 @@ export async function GET(request: NextRequest) {
     }
 
     const x402Server = X402Server.getInstance();
-    const content = await x402Server.getContent(contentId, accessToken || undefined);
 
-    if (!content) {
-      // Return payment required response
+    // x402 payment: settle the X-PAYMENT authorization and hand out an access token
+    if (!accessToken) {
+      const accepts = await getContentPaymentRequirements(contentId, request.url);
+      const payment = await processX402Payment(request.headers.get('X-PAYMENT'), accepts);
+
+      if (payment.status === 202) {
+        // Settlement sent but not mined yet: retry with the same X-PAYMENT
+        return NextResponse.json(
+          { ...payment.body, message: 'Payment is settling, retry shortly', contentId },
+          { status: 202, headers: { 'X-PAYMENT-RESPONSE': payment.paymentResponse } }
+        );
+      }
+      if (!payment.paid) {
+        return NextResponse.json(
+          {
+            ...payment.body,
+            message: 'This content requires payment to access',
+            contentId,
+            preview: `Preview of content: ${contentId}`
+          },
+          { 
+            status: payment.status,
+            headers: { 'WWW-Authenticate': 'Bearer' }
+          }
+        );
+      }
+
+      const { requirements, settlement } = payment;
+      const { token, expiresAt } = issueAccessToken({
+        contentId,
+        payerAddress: payment.payer,
+        paymentId: settlement.transaction!,
+        amount: formatUnits(BigInt(requirements.maxAmountRequired), X402_ASSETS[requirements.network].decimals),
+      });
+
       return NextResponse.json(
         {
-          error: 'Payment Required',
-          message: 'This content requires payment to access',
-          contentId,
-          preview: `Preview of content: ${contentId}`,
-          paymentUrl: `/api/x402/pay?id=${contentId}`
+          success: true,
+          accessToken: token,
+          expiresAt,
+          transactionHash: settlement.transaction,
+          contentUrl: contentUrl(contentId, token)
         },
-        { 
-          status: 402,
-          headers: {
-            'WWW-Authenticate': 'Bearer',
-            'X-Payment-Required': 'true'
-          }
-        }
+        { headers: { 'X-PAYMENT-RESPONSE': payment.paymentResponse } }
       );
     }
 
+    // Reject bad tokens outright instead of treating them as "no payment"
+    const access = await x402Server.verifyAccess(accessToken, contentId);
+    if (!access.valid) {
+      return NextResponse.json(
+        { error: access.error, reason: access.reason, contentId },
+        { status: access.status }
+      );
+    }
+    const payerAddress = access.claims.payerAddress;
+
+    const content = await x402Server.getContent(contentId, accessToken);
+
+    if (!content) {
+      // Content published through /api/x402/generate lives in Redis
+      return NextResponse.redirect(new URL(contentUrl(contentId, accessToken), request.url));
+    }
+
     // Track access for analytics
-    if (accessToken) {
-      const decoded = JSON.parse(atob(accessToken.split('.')[1]));
-      await x402Server.trackAccess(contentId, decoded.payerAddress);
+    if (payerAddress) {
+      await x402Server.trackAccess(contentId, payerAddress);
     }
 
     // Return content based on type
@@ -95,40 +149,47 @@ export async function GET(request: NextRequest) {
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { contentId, paymentProof, userAddress } = body;
+    const { contentId, paymentProof, payerSignature } = body;
 
-    if (!contentId || !paymentProof || !userAddress) {
+    if (!contentId || !paymentProof) {
       return NextResponse.json(
-        { error: 'Missing required fields: contentId, paymentProof, userAddress' },
+        { error: 'Missing required fields: contentId, paymentProof' },
         { status: 400 }
       );
     }
 
-    const x402Server = X402Server.getInstance();
-    
-    // Verify payment proof (in production, verify on-chain transaction)
-    const paymentId = `payment_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    
-    const payment = {
-      id: paymentId,
+    // The proof is the payment transaction; check it on-chain like
+    // /api/content/pay. The caller must be signed in as the payer or send
+    // the payer's signature over payerProofMessage(contentId, paymentProof)
+    const user = await getAuthenticatedUser(request);
+    const verification = await verifyContentPayment({
       contentId,
-      payerAddress: userAddress,
-      amount: '500', // Get from content
-      currency: 'USD',
-      txHash: paymentProof,
-      status: 'confirmed' as const,
-      expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(), // 24 hours
-      createdAt: new Date().toISOString()
-    };
-
-    // Generate access token
-    const accessToken = await x402Server.processPayment(payment);
+      transactionHash: paymentProof,
+      payerProof: {
+        sessionAddresses: user?.addresses,
+        signature: payerSignature,
+      },
+    });
+    if (!verification.success) {
+      return NextResponse.json(
+        { error: verification.error, reason: verification.reason },
+        { status: PAYMENT_FAILURE_STATUS[verification.reason] }
+      );
+    }
+
+    const { transfer } = verification;
+    const { token: accessToken, expiresAt } = issueAccessToken({
+      contentId,
+      payerAddress: transfer.from,
+      paymentId: transfer.transactionHash,
+      amount: formatUnits(BigInt(transfer.amount), transfer.decimals),
+    });
 
     return NextResponse.json({
       success: true,
       accessToken,
-      expiresAt: payment.expiresAt,
-      contentUrl: `/api/x402/serve?id=${contentId}&token=${accessToken}`
+      expiresAt,
+      contentUrl: contentUrl(contentId, accessToken)
     });
 
   } catch (error) {
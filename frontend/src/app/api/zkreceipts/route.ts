@@ -1,5 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { Redis } from '@upstash/redis';
+import { canActFor, getAuthenticatedUser } from '@/lib/auth';
+import {
+  MAX_RECEIPT_BYTES,
+  ZKReceiptAccessError,
+  listReceipts,
+  storeReceipt,
+  zkReceiptSchema,
+  type ZKReceiptView,
+} from '@/lib/zk-receipt-server';
 
 // Initialize Redis client
 let redis: Redis | null = null;
@@ -14,75 +23,95 @@ try {
   console.warn('⚠️ Failed to initialize Redis for ZK receipts API:', error);
 }
 
+const unauthorized = () =>
+  NextResponse.json(
+    { error: 'Sign in (SIWE or Farcaster) to access ZK receipts' },
+    { status: 401 },
+  );
+
+/**
+ * POST /api/zkreceipts
+ * Body: { receipt: ZKReceipt }. Stored for the signed-in address; the key
+ * is derived server-side.
+ */
 export async function POST(request: NextRequest) {
   try {
-    const { key, data } = await request.json();
-    
-    if (!key || !data) {
-      return NextResponse.json({ error: 'Key and data are required' }, { status: 400 });
+    const user = await getAuthenticatedUser(request);
+    if (!user) return unauthorized();
+
+    const body = await request.text();
+    if (body.length > MAX_RECEIPT_BYTES) {
+      return NextResponse.json({ error: 'Receipt is too large' }, { status: 413 });
+    }
+
+    let json: unknown;
+    try {
+      json = JSON.parse(body);
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 });
+    }
+    const parsed = zkReceiptSchema.safeParse((json as { receipt?: unknown })?.receipt);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid receipt', issues: parsed.error.issues },
+        { status: 400 },
+      );
     }
 
     if (!redis) {
       return NextResponse.json({ error: 'Redis not available' }, { status: 500 });
     }
 
-    // Store ZK receipt in Redis with 7-day expiration (local-first system)
-    await redis.set(key, JSON.stringify(data), { ex: 86400 * 7 });
-
-    return NextResponse.json({ success: true, key });
+    const receipt = await storeReceipt(redis, user, parsed.data);
+    return NextResponse.json({ success: true, id: receipt.id, receipt });
   } catch (error) {
+    if (error instanceof ZKReceiptAccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     console.error('❌ Error saving ZK receipt:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
 }
 
+/**
+ * GET /api/zkreceipts?view=sender|recipient[&userAddress=0x...]
+ * Receipts of the signed-in address (or another address the session may
+ * act for); sender and recipient views are listed separately.
+ */
 export async function GET(request: NextRequest) {
   try {
-    const { searchParams } = new URL(request.url);
-    const userAddress = searchParams.get('userAddress');
-    
-    if (!userAddress) {
-      return NextResponse.json({ error: 'User address is required' }, { status: 400 });
-    }
+    const user = await getAuthenticatedUser(request);
+    if (!user) return unauthorized();
 
-    if (!redis) {
-      return NextResponse.json({ zkReceipts: [] }); // Return empty array if Redis not available
+    const { searchParams } = new URL(request.url);
+    const view = (searchParams.get('view') || 'sender') as ZKReceiptView;
+    if (view !== 'sender' && view !== 'recipient') {
+      return NextResponse.json(
+        { error: 'view must be sender or recipient' },
+        { status: 400 },
+      );
     }
 
-    // Get all ZK receipt keys for this user
-    const pattern = `zk_receipt:*:${userAddress.toLowerCase()}:*`;
-    const keys = await redis.keys(pattern);
-
-    if (!keys || keys.length === 0) {
-      return NextResponse.json({ zkReceipts: [] });
+    const userAddress = searchParams.get('userAddress') || user.address;
+    if (!canActFor(user, userAddress)) {
+      return NextResponse.json(
+        { error: 'You can only read your own ZK receipts' },
+        { status: 403 },
+      );
     }
 
-    // Retrieve all ZK receipts
-    const zkReceipts = [];
-    for (const key of keys) {
-      try {
-        const receiptData = await redis.get(key);
-        if (receiptData) {
-          const receipt = typeof receiptData === 'string' ? JSON.parse(receiptData) : receiptData;
-          zkReceipts.push({
-            id: key,
-            ...receipt
-          });
-        }
-      } catch (parseError) {
-        console.warn(`⚠️ Failed to parse ZK receipt ${key}:`, parseError);
-      }
+    if (!redis) {
+      return NextResponse.json({ zkReceipts: [], total: 0, view }); // Return empty array if Redis not available
     }
 
-    // Sort by timestamp (newest first)
-    zkReceipts.sort((a, b) => (b.timestamp || 0) - (a.timestamp || 0));
-
+    const zkReceipts = await listReceipts(redis, userAddress, view);
     return NextResponse.json({
       zkReceipts,
-      total: zkReceipts.length
+      total: zkReceipts.length,
+      view
     });
   } catch (error) {
     console.error('❌ Error fetching ZK receipts:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
-} 
\ No newline at end of file
+}
@@ -1,5 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { Redis } from '@upstash/redis';
+import { getAuthenticatedUser } from '@/lib/auth';
+import {
+  updatePaymentLinkReceipts,
+  zkReceiptUpdateSchema,
+} from '@/lib/zk-receipt-server';
 
 // Initialize Redis client
 let redis: Redis | null = null;
@@ -14,52 +19,36 @@ try {
   console.warn('⚠️ Failed to initialize Redis for ZK receipts update API:', error);
 }
 
+/**
+ * POST /api/zkreceipts/update
+ * Body: { paymentLinkId, updates }. Marks the signed-in user's receipts for
+ * a payment link as paid; only transactionHash, status, completedAt and
+ * txUrl can change.
+ */
 export async function POST(request: NextRequest) {
   try {
-    const { pattern, updates } = await request.json();
-    
-    if (!pattern || !updates) {
-      return NextResponse.json({ error: 'Pattern and updates are required' }, { status: 400 });
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Sign in (SIWE or Farcaster) to update ZK receipts' },
+        { status: 401 },
+      );
     }
 
-    if (!redis) {
-      return NextResponse.json({ error: 'Redis not available' }, { status: 500 });
+    const parsed = zkReceiptUpdateSchema.safeParse(await request.json().catch(() => null));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'paymentLinkId and valid updates are required', issues: parsed.error.issues },
+        { status: 400 },
+      );
     }
 
-    // Find keys matching the pattern
-    const keys = await redis.keys(pattern);
-    
-    if (!keys || keys.length === 0) {
-      return NextResponse.json({ 
-        success: true, 
-        message: 'No matching keys found',
-        updatedCount: 0 
-      });
+    if (!redis) {
+      return NextResponse.json({ error: 'Redis not available' }, { status: 500 });
     }
 
-    let updatedCount = 0;
-    
-    // Update each matching key
-    for (const key of keys) {
-      try {
-        const existingData = await redis.get(key);
-        if (existingData) {
-          const parsed = typeof existingData === 'string' ? JSON.parse(existingData) : existingData;
-          
-          // Merge updates with existing data
-          const updatedData = {
-            ...parsed,
-            ...updates
-          };
-          
-          // Store updated data back to Redis with 7-day expiration (local-first system)
-          await redis.set(key, JSON.stringify(updatedData), { ex: 86400 * 7 });
-          updatedCount++;
-        }
-      } catch (updateError) {
-        console.warn(`⚠️ Failed to update ZK receipt ${key}:`, updateError);
-      }
-    }
+    const { paymentLinkId, updates } = parsed.data;
+    const updatedCount = await updatePaymentLinkReceipts(redis, user.address, paymentLinkId, updates);
 
     return NextResponse.json({ 
       success: true, 
@@ -71,4 +60,4 @@ export async function POST(request: NextRequest) {
     console.error('❌ Error updating ZK receipts:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
-} 
\ No newline at end of file
+}
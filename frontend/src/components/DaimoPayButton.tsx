@@ -286,17 +286,19 @@ export default function DaimoPayButton({
 
       // 🔧 NEW: Save ZK receipt to Redis for successful transactions
       try {
-        const zkReceiptKey = `zk_receipt:successful_payment_${txData.hash}:${recipientAddress.toLowerCase()}:${Date.now()}`;
+        // The receipts API keys this by the signed-in wallet
+        const zkReceiptId = `successful_payment_${txData.hash}`;
         const zkReceiptData = {
-          transactionHash: txData.hash,
+          id: zkReceiptId,
+          transactionHash: /^0x[0-9a-fA-F]{64}$/.test(txData.hash) ? txData.hash : undefined,
           networkId: 'base',
           amount: txData.amount || '0.00',
           currency: 'USDC',
-          recipientAddress: recipientAddress,
+          stealthAddress: recipientAddress,
           fkeyId: username ? `${username}.fkey.id` : `${toAddress.slice(0, 6)}...${toAddress.slice(-4)}`,
-          senderAddress: recipientAddress, // In this context, we're sending to the stealth address
           timestamp: Date.now(),
           status: 'completed',
+          source: 'frontend-daimo-pay-button',
           paymentUrl: txUrl,
           // Include the ZK proof from the search
           zkProof: zkProofs?.fkey || zkProofs?.convos || null,
@@ -304,24 +306,24 @@ export default function DaimoPayButton({
             transactionType: "Successful DaimoPayButton Transaction",
             privacyFeature: "stealth-address",
             zkProofAvailable: !!(zkProofs?.fkey || zkProofs?.convos),
-            source: "frontend-daimo-pay-button",
             paymentMethod: "daimo-sdk"
           }
         };
 
         // Save to Redis via API call
-        await fetch('/api/zkreceipts', {
+        const saveResponse = await fetch('/api/zkreceipts', {
           method: 'POST',
+          credentials: 'include',
           headers: {
             'Content-Type': 'application/json',
           },
-          body: JSON.stringify({
-            key: zkReceiptKey,
-            data: zkReceiptData
-          })
+          body: JSON.stringify({ receipt: zkReceiptData })
         });
+        if (!saveResponse.ok) {
+          throw new Error(`ZK receipt not saved: ${saveResponse.status}`);
+        }
 
-        console.log('✅ ZK receipt saved to Redis for successful payment:', zkReceiptKey);
+        console.log('✅ ZK receipt saved to Redis for successful payment:', zkReceiptId);
       } catch (receiptError) {
         console.warn('⚠️ Failed to save ZK receipt to Redis:', receiptError);
         // Don't fail the payment completion if receipt storage fails
@@ -354,13 +356,14 @@ export default function DaimoPayButton({
         try {
           const updateResponse = await fetch('/api/zkreceipts/update', {
             method: 'POST',
+            credentials: 'include',
             headers: {
               'Content-Type': 'application/json',
             },
             body: JSON.stringify({
-              pattern: `zk_receipt:payment_link_${linkToUpdate.id}:*`,
+              paymentLinkId: linkToUpdate.id,
               updates: {
-                transactionHash: txData.hash,
+                transactionHash: /^0x[0-9a-fA-F]{64}$/.test(txData.hash) ? txData.hash : undefined,
                 status: 'completed',
                 completedAt: Date.now(),
                 txUrl: txUrl
@@ -489,18 +492,18 @@ export default function DaimoPayButton({
 
     // 🔧 NEW: Save ZK receipt to Redis for payment link creation
     try {
-      const zkReceiptKey = `zk_receipt:payment_link_${linkId}:${toAddress.toLowerCase()}:${Date.now()}`;
+      // The receipts API keys this by the signed-in wallet
+      const zkReceiptId = `payment_link_${linkId}`;
       const zkReceiptData = {
-        transactionHash: '', // Will be filled when payment is completed
+        id: zkReceiptId,
         networkId: 'base',
         amount: paymentLinkData.amount,
         currency: 'USDC',
-        recipientAddress: toAddress,
+        stealthAddress: toAddress,
         fkeyId: paymentLinkData.fkeyId,
-        senderAddress: toAddress, // For link creation, this is the recipient address
         timestamp: Date.now(),
         status: 'pending_payment',
-        paymentLinkId: linkId,
+        source: 'frontend-payment-link-creation',
         paymentUrl: paymentLink,
         // Include the ZK proof from the search
         zkProof: zkProofs?.fkey || zkProofs?.convos || null,
@@ -508,25 +511,26 @@ export default function DaimoPayButton({
           transactionType: "Payment Link Created",
           privacyFeature: "stealth-address",
           zkProofAvailable: !!(zkProofs?.fkey || zkProofs?.convos),
-          source: "frontend-payment-link-creation",
           paymentMethod: "daimo-pay-link",
+          paymentLinkId: linkId,
           memo: memo || 'ZK Stealth Payment via FluidKey'
         }
       };
 
       // Save to Redis via API call
-      await fetch('/api/zkreceipts', {
+      const saveResponse = await fetch('/api/zkreceipts', {
         method: 'POST',
+        credentials: 'include',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({
-          key: zkReceiptKey,
-          data: zkReceiptData
-        })
+        body: JSON.stringify({ receipt: zkReceiptData })
       });
+      if (!saveResponse.ok) {
+        throw new Error(`ZK receipt not saved: ${saveResponse.status}`);
+      }
 
-      console.log('✅ ZK receipt saved to Redis for payment link creation:', zkReceiptKey);
+      console.log('✅ ZK receipt saved to Redis for payment link creation:', zkReceiptId);
     } catch (receiptError) {
       console.warn('⚠️ Failed to save ZK receipt to Redis for payment link:', receiptError);
       // Don't fail the link generation if receipt storage fails
@@ -10,6 +10,7 @@ import { Copy } from 'lucide-react';
 import ConvosChat from "./ConvosChat";
 import { verifyProof } from '@reclaimprotocol/js-sdk';
 import DaimoPayButton from "./DaimoPayButton";
+import { SplitSendForm } from "./SendButton";
 import { useAccount } from "wagmi";
 
 interface StealthPayment {
@@ -932,6 +933,20 @@ export function FkeySearch() {
                     </div>
                   )}
                 </div>
+
+                {/* Pay this fkey.id and others in one transaction */}
+                <details className="bg-gray-900/50 border border-gray-600/30 rounded-lg p-3">
+                  <summary className="text-sm text-gray-300 cursor-pointer">➗ Split with other recipients</summary>
+                  <div className="mt-3">
+                    <SplitSendForm
+                      initialRecipient={`${username}.fkey.id`}
+                      disabled={!zkProofVerified}
+                      onPaymentCompleted={(event) => {
+                        console.log('✅ Split payment completed:', event);
+                      }}
+                    />
+                  </div>
+                </details>
               </div>
             ) : (
               <div className="text-center py-4">
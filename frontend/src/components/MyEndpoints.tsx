@@ -1,5 +1,6 @@
 import { useState, useEffect } from 'react';
-import { useAccount } from 'wagmi';
+import { useAccount, useSignMessage } from 'wagmi';
+import { endpointRegistrationMessage } from "@/lib/personal-data-endpoints";
 import { storage } from "@/lib/storage";
 
 interface Endpoint {
@@ -20,6 +21,7 @@ export const MyEndpoints: React.FC<{
   onClaimMe?: () => void;
 }> = ({ fkeyId, onClaimMe }) => {
   const { address } = useAccount();
+  const { signMessageAsync } = useSignMessage();
   const [isExpanded, setIsExpanded] = useState(true);
   const [endpoints, setEndpoints] = useState<Endpoint[]>([]);
   const [storedFkeyId, setStoredFkeyId] = useState<string | null>(null);
@@ -69,6 +71,21 @@ export const MyEndpoints: React.FC<{
     }
   };
 
+  // The backend only registers endpoints their owner signed for
+  const signedRegistration = async (endpoint: NewEndpoint) => {
+    const issuedAt = new Date().toISOString();
+    const signature = await signMessageAsync({
+      message: endpointRegistrationMessage({
+        owner: address!,
+        resourceUrl: endpoint.url,
+        price: endpoint.price,
+        issuedAt,
+      }),
+      account: address,
+    });
+    return JSON.stringify({ ...endpoint, owner: address, signature, issuedAt });
+  };
+
   const handleCreateEndpoint = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!address) return;
@@ -82,10 +99,7 @@ export const MyEndpoints: React.FC<{
         headers: {
           'Content-Type': 'application/json'
         },
-        body: JSON.stringify({
-          ...newEndpoint,
-          owner: address
-        })
+        body: await signedRegistration(newEndpoint)
       });
 
       if (!response.ok) {
@@ -123,30 +137,20 @@ export const MyEndpoints: React.FC<{
       localStorage.setItem('fkey:id', fkeyId);
       setStoredFkeyId(fkeyId);
       
-      // Create default endpoints
+      // Create default endpoints, signed one after the other
       const backendUrl = process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:5001';
-      await Promise.all([
-        fetch(`${backendUrl}/api/personal-data/endpoints`, {
+      const defaults: NewEndpoint[] = [
+        { url: `/api/address/${address}/stealth`, price: 0.01, description: 'Stealth pay me URL' },
+        { url: `/api/address/${address}/fkey`, price: 0.01, description: 'Public data endpoint' }
+      ];
+      for (const endpoint of defaults) {
+        await fetch(`${backendUrl}/api/personal-data/endpoints`, {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            url: `/api/address/${address}/stealth`,
-            price: 0.01,
-            description: 'Stealth pay me URL',
-            owner: address
-          })
-        }).then(() => storage.incrementEndpoints()),
-        fetch(`${backendUrl}/api/personal-data/endpoints`, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            url: `/api/address/${address}/fkey`,
-            price: 0.01,
-            description: 'Public data endpoint',
-            owner: address
-          })
-        }).then(() => storage.incrementEndpoints())
-      ]);
+          body: await signedRegistration(endpoint)
+        });
+        storage.incrementEndpoints();
+      }
 
       // Refresh endpoints
       await fetchEndpoints(address);
@@ -13,6 +13,7 @@ import {
   type Milestone,
   type StevenReward
 } from '@/lib/farcaster-miniapp';
+import type { ClaimRecord } from '@/lib/claims-service';
 import NotificationModal from './NotificationModal';
 
 // 🥷 Token Contract (Base Mainnet)
@@ -59,6 +60,7 @@ export default function StevenRewards() {
   const [unclaimedRewards, setUnclaimedRewards] = useState<StevenReward[]>([]);
   const [activityStats, setActivityStats] = useState<any>({});
   const [claimingRewardId, setClaimingRewardId] = useState<string | null>(null);
+  const [claims, setClaims] = useState<Record<string, ClaimRecord>>({});
   const [error, setError] = useState("");
   const [success, setSuccess] = useState("");
   
@@ -144,6 +146,7 @@ export default function StevenRewards() {
       setCompletedMilestones([]);
       setUnclaimedRewards([]);
       setActivityStats({});
+      setClaims({});
       return;
     }
 
@@ -183,8 +186,32 @@ export default function StevenRewards() {
         console.error('Failed to parse activity stats:', error);
       }
     }
+
+    loadClaims(address);
   }, [address, isConnected]);
 
+  // Claims recorded by the server; rewards already sent are dropped from the unclaimed list
+  const loadClaims = async (userAddress: string) => {
+    try {
+      const response = await fetch(`/api/claims/process?userAddress=${userAddress}`);
+      if (!response.ok) return;
+
+      const { claims: records } = (await response.json()) as { claims: ClaimRecord[] };
+      setClaims(Object.fromEntries(records.map(claim => [claim.milestoneId, claim])));
+
+      const settled = new Set(records.filter(claim => claim.status !== 'failed').map(claim => claim.milestoneId));
+      setUnclaimedRewards(prev => {
+        const remaining = prev.filter(reward => !settled.has(reward.milestoneId));
+        if (remaining.length !== prev.length) {
+          localStorage.setItem(getUnclaimedRewardsKey(userAddress), JSON.stringify(remaining));
+        }
+        return remaining;
+      });
+    } catch (error) {
+      console.error('Failed to load claims:', error);
+    }
+  };
+
   // Check for new milestone achievements
   const checkForNewMilestones = (stats: any) => {
     if (!address) return;
@@ -236,11 +263,10 @@ export default function StevenRewards() {
         headers: {
           'Content-Type': 'application/json',
         },
+        // The server verifies the milestone and decides the amount
         body: JSON.stringify({
           userAddress: address,
-          amount: reward.amount,
-          milestoneId: reward.milestoneId,
-          reason: reward.reason
+          milestoneId: reward.milestoneId
         })
       });
 
@@ -250,6 +276,32 @@ export default function StevenRewards() {
         throw new Error(result.error || 'Failed to process claim');
       }
 
+      if (result.dryRun) {
+        setNotification({
+          isOpen: true,
+          type: 'success',
+          title: 'Claim Simulated',
+          message: `Claims are in dry-run mode: ${result.amount.toLocaleString()} 🥷 tokens would be sent for "${reward.reason}".`,
+          amount: result.amount
+        });
+        return;
+      }
+
+      setClaims(prev => ({
+        ...prev,
+        [result.milestoneId]: {
+          userAddress: result.userAddress,
+          milestoneId: result.milestoneId,
+          reason: reward.reason,
+          amount: result.amount,
+          status: result.status,
+          chainId: result.chainId,
+          transactionHash: result.transactionHash,
+          createdAt: prev[result.milestoneId]?.createdAt || result.processedAt,
+          updatedAt: result.processedAt
+        }
+      }));
+
       // Remove claimed reward from unclaimed list
       const updatedRewards = unclaimedRewards.filter(r => r.id !== reward.id);
       setUnclaimedRewards(updatedRewards);
@@ -266,10 +318,14 @@ export default function StevenRewards() {
       setNotification({
         isOpen: true,
         type: 'success',
-        title: '🎉 Claim Successful!',
-        message: `Your ${reward.amount.toLocaleString()} 🥷 tokens have been sent to your wallet!`,
+        title: result.alreadyClaimed ? 'Already Claimed' : '🎉 Claim Successful!',
+        message: result.alreadyClaimed
+          ? `The ${result.amount.toLocaleString()} 🥷 tokens for "${reward.reason}" were already sent to your wallet.`
+          : result.status === 'confirmed'
+          ? `Your ${result.amount.toLocaleString()} 🥷 tokens have been sent to your wallet!`
+          : `Your ${result.amount.toLocaleString()} 🥷 tokens are on their way - the transfer is waiting for confirmation.`,
         transactionHash: result.transactionHash,
-        amount: reward.amount
+        amount: result.amount
       });
       
     } catch (error) {
@@ -293,6 +349,33 @@ export default function StevenRewards() {
     return Math.min((currentValue / milestone.requirement.value) * 100, 100);
   };
 
+  const CLAIM_STATUS_LABELS: Record<ClaimRecord['status'], { label: string; className: string }> = {
+    pending: { label: '⏳ Claim pending', className: 'text-yellow-400' },
+    sent: { label: '📤 Sent - awaiting confirmation', className: 'text-blue-400' },
+    confirmed: { label: '✅ Claimed', className: 'text-green-400' },
+    failed: { label: '❌ Claim failed - try again', className: 'text-red-400' },
+  };
+
+  const renderClaimStatus = (claim: ClaimRecord) => {
+    const { label, className } = CLAIM_STATUS_LABELS[claim.status];
+    return (
+      <div className={`mt-2 text-xs flex items-center gap-2 ${className}`}>
+        <span>{label}</span>
+        {claim.transactionHash && (
+          <a
+            href={`https://basescan.org/tx/${claim.transactionHash}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex items-center gap-1 text-blue-300 hover:text-blue-200"
+          >
+            <ExternalLink className="h-3 w-3" />
+            View transaction
+          </a>
+        )}
+      </div>
+    );
+  };
+
   const totalUnclaimedTokens = unclaimedRewards.reduce((sum, reward) => sum + reward.amount, 0);
   const completedCount = completedMilestones.length;
   const totalMilestones = MILESTONES.length;
@@ -300,6 +383,7 @@ export default function StevenRewards() {
   // Check for FluidKey Score bonus on wallet connection
   useEffect(() => {
     if (!address || !isConnected || !hasFKS) return;
+    if (claims.fks_holder && claims.fks_holder.status !== 'failed') return;
 
     const fksRewardKey = getFKSRewardKey(address);
     const alreadyClaimed = localStorage.getItem(fksRewardKey);
@@ -339,7 +423,7 @@ export default function StevenRewards() {
         amount: 42000
       });
     }
-  }, [address, isConnected, hasFKS]);
+  }, [address, isConnected, hasFKS, claims]);
 
   if (!isConnected || !address) {
     return (
@@ -449,6 +533,7 @@ export default function StevenRewards() {
           <div className="mt-2 text-xs text-yellow-400">
             💫 This massive bonus is equivalent to 89% of all other milestones combined!
           </div>
+          {claims.fks_holder && renderClaimStatus(claims.fks_holder)}
         </div>
       )}
 
@@ -584,6 +669,8 @@ export default function StevenRewards() {
                     🥷 Hidden achievement - discover the secret!
                   </div>
                 )}
+
+                {claims[milestone.id] && renderClaimStatus(claims[milestone.id])}
               </div>
             );
           })}
@@ -2,8 +2,25 @@
 
 import { getAddress, type Address } from "viem";
 import { useEffect, useState, useCallback, useMemo } from "react";
-import { useWriteContract, useWaitForTransactionReceipt, useSwitchChain, useChainId, useAccount } from "wagmi";
+import {
+  useWriteContract,
+  useWaitForTransactionReceipt,
+  useSwitchChain,
+  useChainId,
+  useAccount,
+  useSendCalls,
+  useWaitForCallsStatus,
+} from "wagmi";
 import { base } from 'wagmi/chains';
+import {
+  buildSplitCalls,
+  MAX_SPLIT_RECIPIENTS,
+  resolveSplitRecipients,
+  saveSplitReceipts,
+  type ResolvedSplitRecipient,
+  type SplitCall,
+  type SplitRecipientInput,
+} from "@/lib/stealth-split";
 
 // Extend Navigator type to include wallets
 declare global {
@@ -510,4 +527,185 @@ export default function SendButton({
       )}
     </div>
   );
-} 
\ No newline at end of file
+} 
+
+interface SplitSendFormProps {
+  initialRecipient?: string;
+  onPaymentStarted?: (e: any) => void;
+  onPaymentCompleted?: (e: any) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Pay several recipients USDC on Base in one wallet_sendCalls batch. Each row
+ * takes an fkey.id, st:eth: meta-address or wallet address; everyone is
+ * resolved before the wallet is asked to sign anything.
+ */
+export function SplitSendForm({
+  initialRecipient = "",
+  onPaymentStarted,
+  onPaymentCompleted,
+  disabled = false,
+}: SplitSendFormProps) {
+  const [rows, setRows] = useState<SplitRecipientInput[]>([
+    { recipient: initialRecipient, amount: "" },
+    { recipient: "", amount: "" },
+  ]);
+  const [resolved, setResolved] = useState<ResolvedSplitRecipient[] | null>(null);
+  const [isResolving, setIsResolving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { address: accountAddress } = useAccount();
+  const chainId = useChainId();
+  const { switchChainAsync } = useSwitchChain();
+  const { data: sendCallsData, sendCallsAsync, isPending: isSending, reset } = useSendCalls();
+
+  // Older wallets/wagmi versions return the bare batch id
+  const callsId = typeof sendCallsData === "string" ? sendCallsData : sendCallsData?.id;
+  const { data: callsStatus, isLoading: isConfirming } = useWaitForCallsStatus({ id: callsId });
+
+  const total = useMemo(
+    () => rows.reduce((sum, row) => sum + (parseFloat(row.amount) || 0), 0),
+    [rows]
+  );
+
+  const updateRow = (index: number, field: keyof SplitRecipientInput, value: string) => {
+    setRows((current) => current.map((row, i) => (i === index ? { ...row, [field]: value } : row)));
+    setResolved(null);
+    setError(null);
+  };
+
+  const handleSplitPayment = useCallback(async () => {
+    if (!accountAddress) return;
+    setError(null);
+    reset();
+
+    try {
+      setIsResolving(true);
+      const recipients = await resolveSplitRecipients(
+        "base",
+        rows.filter((row) => row.recipient.trim() || row.amount.trim())
+      );
+      setResolved(recipients);
+      setIsResolving(false);
+
+      if (onPaymentStarted) onPaymentStarted({ method: "split", recipients: recipients.length });
+
+      if (chainId !== USDC_BASE.chainId) {
+        await switchChainAsync({ chainId: USDC_BASE.chainId });
+      }
+      const calls: SplitCall[] = buildSplitCalls("base", recipients);
+      await sendCallsAsync({ calls, chainId: USDC_BASE.chainId });
+    } catch (err) {
+      console.error("Split payment error:", err);
+      setError(err instanceof Error ? err.message.split("\n")[0] : "Split payment failed");
+    } finally {
+      setIsResolving(false);
+    }
+  }, [accountAddress, rows, chainId, switchChainAsync, sendCallsAsync, reset, onPaymentStarted]);
+
+  // One combined receipt per recipient once the batch lands
+  useEffect(() => {
+    if (callsStatus?.status !== "success" || !resolved || !accountAddress) return;
+
+    const transactionHash = callsStatus.receipts?.[0]?.transactionHash;
+    saveSplitReceipts("base", resolved, { owner: accountAddress, transactionHash }).then((receiptIds) => {
+      if (onPaymentCompleted) {
+        onPaymentCompleted({
+          method: "split",
+          hash: transactionHash,
+          amount: total.toFixed(6),
+          receiptIds,
+        });
+      }
+    });
+    setResolved(null);
+  }, [callsStatus, resolved, accountAddress, total, onPaymentCompleted]);
+
+  const busy = isResolving || isSending || isConfirming;
+
+  return (
+    <div className="w-full mobile-scroll hide-scrollbar">
+      <div className="text-xs text-gray-400 mb-2">Split Payment (USDC on Base)</div>
+
+      <div className="space-y-2 mb-3">
+        {rows.map((row, index) => (
+          <div key={index} className="flex gap-2">
+            <input
+              value={row.recipient}
+              onChange={(e) => updateRow(index, "recipient", e.target.value)}
+              placeholder="alice.fkey.id, st:eth:0x... or 0x..."
+              className="flex-1 min-w-0 px-3 py-2 bg-gray-800 border border-gray-600 rounded-lg text-white text-sm"
+              disabled={busy}
+            />
+            <input
+              value={row.amount}
+              onChange={(e) => updateRow(index, "amount", e.target.value)}
+              placeholder="0.00"
+              inputMode="decimal"
+              className="w-24 px-3 py-2 bg-gray-800 border border-gray-600 rounded-lg text-white text-sm"
+              disabled={busy}
+            />
+            {rows.length > 1 && (
+              <button
+                onClick={() => setRows((current) => current.filter((_, i) => i !== index))}
+                className="px-2 text-gray-400 hover:text-red-400"
+                disabled={busy}
+                aria-label="Remove recipient"
+              >
+                ✕
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {rows.length < MAX_SPLIT_RECIPIENTS && (
+        <button
+          onClick={() => setRows((current) => [...current, { recipient: "", amount: "" }])}
+          className="text-xs text-blue-400 hover:text-blue-300 mb-3"
+          disabled={busy}
+        >
+          + Add recipient
+        </button>
+      )}
+
+      {resolved && (
+        <div className="text-xs text-gray-400 mb-2 space-y-1">
+          {resolved.map((recipient) => (
+            <div key={recipient.label} className="flex justify-between">
+              <span>{recipient.label}</span>
+              <span className="font-mono">
+                {recipient.address.slice(0, 6)}...{recipient.address.slice(-4)}
+                {recipient.target ? " 🥷" : ""}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {error && <div className="text-red-500 text-sm mb-2">{error}</div>}
+
+      <button
+        onClick={handleSplitPayment}
+        disabled={disabled || busy || !accountAddress || total <= 0}
+        className="w-full px-4 py-2 bg-green-600 hover:bg-green-700 disabled:bg-gray-600 text-white rounded-lg transition-colors"
+      >
+        {isResolving
+          ? "Resolving recipients..."
+          : isSending
+            ? "Confirming..."
+            : isConfirming
+              ? "Processing..."
+              : `Pay ${total.toFixed(2)} USDC to ${rows.length} recipients`}
+      </button>
+
+      {callsStatus?.status === "success" && (
+        <div className="mt-2 text-xs text-green-400">✅ Split payment confirmed!</div>
+      )}
+      {callsStatus?.status === "failure" && (
+        <div className="mt-2 text-xs text-red-400">❌ Split payment failed</div>
+      )}
+    </div>
+  );
+}
@@ -43,6 +43,27 @@ interface PaymentUrlStats {
   lastUpdated: string;
 }
 
+// Onchain counters from the indexer's PrivacyProfile (privacyScore is 0-100)
+interface IndexedPrivacyProfile {
+  announcementCount: number;
+  registrationCount: number;
+  umbraSendCount: number;
+  umbraWithdrawCount: number;
+  umbraKeyRegistrations: number;
+  privacyScore: number;
+  lastActivity: string; // unix seconds
+}
+
+interface NetworkActivityStats {
+  days: number;
+  announcements: number;
+  registrations: number;
+  umbraSends: number;
+  umbraWithdrawals: number;
+}
+
+const NETWORK_STATS_DAYS = 7;
+
 interface UserAccountDetails {
   fkeyId: string | null;
   convosUsername: string | null;
@@ -91,6 +112,9 @@ export function Stats() {
     lastActive: new Date().toISOString()
   });
   
+  const [indexedProfile, setIndexedProfile] = useState<IndexedPrivacyProfile | null>(null);
+  const [networkStats, setNetworkStats] = useState<NetworkActivityStats | null>(null);
+  
   const { address, isConnected } = useAccount();
 
   // Get user-specific storage keys
@@ -324,6 +348,49 @@ export function Stats() {
     };
   }, [address, isConnected]);
 
+  // Load network-wide and per-address numbers from the Ponder indexer
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadIndexedStats = async () => {
+      try {
+        const response = await fetch(`/api/ponder/stats/daily?days=${NETWORK_STATS_DAYS}`);
+        if (response.ok) {
+          const data = await response.json();
+          const totals = (data.stats as any[]).reduce(
+            (sum, day) => ({
+              days: sum.days,
+              announcements: sum.announcements + day.announcements,
+              registrations: sum.registrations + day.registrations + day.umbraKeyRegistrations,
+              umbraSends: sum.umbraSends + day.umbraSends,
+              umbraWithdrawals: sum.umbraWithdrawals + day.umbraWithdrawals,
+            }),
+            { days: data.days, announcements: 0, registrations: 0, umbraSends: 0, umbraWithdrawals: 0 }
+          );
+          if (!cancelled) setNetworkStats(totals);
+        }
+      } catch (error) {
+        console.warn('Failed to load network stats from indexer:', error);
+      }
+
+      if (!isConnected || !address) {
+        setIndexedProfile(null);
+        return;
+      }
+      try {
+        const response = await fetch(`/api/ponder/profiles/${address}`);
+        if (!cancelled) setIndexedProfile(response.ok ? await response.json() : null);
+      } catch (error) {
+        console.warn('Failed to load indexed privacy profile:', error);
+      }
+    };
+
+    loadIndexedStats();
+    return () => {
+      cancelled = true;
+    };
+  }, [address, isConnected]);
+
   // Expose savePrivacyAction globally for other components
   useEffect(() => {
     if (typeof window !== 'undefined') {
@@ -381,11 +448,19 @@ export function Stats() {
         </h4>
         <div className="grid grid-cols-3 gap-3 text-center text-sm">
           <div>
-            <div className="text-xl font-bold text-purple-400">{privacyStats.stealthAddressRegistrations}</div>
+            <div className="text-xl font-bold text-purple-400">
+              {indexedProfile
+                ? indexedProfile.registrationCount + indexedProfile.umbraKeyRegistrations
+                : privacyStats.stealthAddressRegistrations}
+            </div>
             <div className="text-xs text-gray-400">Stealth Addresses</div>
           </div>
           <div>
-            <div className="text-xl font-bold text-blue-400">{privacyStats.umbraPayments}</div>
+            <div className="text-xl font-bold text-blue-400">
+              {indexedProfile
+                ? indexedProfile.umbraSendCount + indexedProfile.umbraWithdrawCount
+                : privacyStats.umbraPayments}
+            </div>
             <div className="text-xs text-gray-400">Umbra Payments</div>
           </div>
           <div>
@@ -397,21 +472,62 @@ export function Stats() {
             <div className="text-xs text-gray-400">ZK Proofs</div>
           </div>
           <div>
-            <div className="text-xl font-bold text-yellow-400">{privacyStats.privacyScore}</div>
-            <div className="text-xs text-gray-400">Privacy Score</div>
+            <div className="text-xl font-bold text-yellow-400">
+              {indexedProfile ? indexedProfile.privacyScore : privacyStats.privacyScore}
+            </div>
+            <div className="text-xs text-gray-400">Privacy Score{indexedProfile ? ' /100' : ''}</div>
           </div>
           <div>
-            <div className="text-xl font-bold text-pink-400">{privacyStats.stealthPaymentsSent + privacyStats.stealthPaymentsReceived}</div>
+            <div className="text-xl font-bold text-pink-400">
+              {indexedProfile
+                ? indexedProfile.announcementCount
+                : privacyStats.stealthPaymentsSent + privacyStats.stealthPaymentsReceived}
+            </div>
             <div className="text-xs text-gray-400">Stealth Payments</div>
           </div>
         </div>
-        {privacyStats.lastPrivacyAction && (
+        {indexedProfile && (
+          <div className="mt-3 text-center text-xs text-gray-500">
+            Onchain activity from the stealth indexer
+            {Number(indexedProfile.lastActivity) > 0 &&
+              ` • last seen ${new Date(Number(indexedProfile.lastActivity) * 1000).toLocaleDateString()}`}
+          </div>
+        )}
+        {!indexedProfile && privacyStats.lastPrivacyAction && (
           <div className="mt-3 text-center text-xs text-gray-500">
             Last action: {new Date(privacyStats.lastPrivacyAction).toLocaleDateString()}
           </div>
         )}
       </div>
 
+      {/* Network-wide activity from the indexer */}
+      {networkStats && (
+        <div className="bg-gray-900/50 border border-gray-600/30 rounded-lg p-4">
+          <h4 className="text-lg font-semibold text-white mb-3 flex items-center gap-2">
+            <Activity className="w-5 h-5" />
+            Network Activity ({networkStats.days}d)
+          </h4>
+          <div className="grid grid-cols-2 gap-3 text-center text-sm">
+            <div>
+              <div className="text-xl font-bold text-purple-400">{networkStats.announcements}</div>
+              <div className="text-xs text-gray-400">Stealth Announcements</div>
+            </div>
+            <div>
+              <div className="text-xl font-bold text-blue-400">{networkStats.registrations}</div>
+              <div className="text-xs text-gray-400">Key Registrations</div>
+            </div>
+            <div>
+              <div className="text-xl font-bold text-green-400">{networkStats.umbraSends}</div>
+              <div className="text-xs text-gray-400">Umbra Sends</div>
+            </div>
+            <div>
+              <div className="text-xl font-bold text-yellow-400">{networkStats.umbraWithdrawals}</div>
+              <div className="text-xs text-gray-400">Umbra Withdrawals</div>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Payment URL Statistics */}
       <div className="bg-gray-900/50 border border-gray-600/30 rounded-lg p-4">
         <h4 className="text-lg font-semibold text-white mb-3 flex items-center gap-2">
@@ -0,0 +1,207 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useAccount, useChainId, useSendTransaction, useSignTypedData, useSwitchChain } from 'wagmi';
+import { Check, Copy, ExternalLink, KeyRound, Loader2 } from 'lucide-react';
+import type { Hex } from 'viem';
+import { Button } from './Button';
+import { getStealthMetaAddress, type StealthScanKey } from '../lib/stealth-crypto';
+import { getStealthChainClient, STEALTH_CHAINS, type StealthChainName } from '../lib/stealth-chains';
+import {
+  encodeRegisterKeys,
+  getRegisteredMetaAddress,
+  getRegisterOnBehalfTypedData,
+  submitRegistrationOnBehalf,
+} from '../lib/stealth-registry';
+import { isRelayerAvailable } from '../lib/stealth-sweep';
+
+interface StealthRegistrationProps {
+  network: StealthChainName;
+  // Stored scan key, or one derived from a fresh wallet signature
+  getScanKey: () => Promise<StealthScanKey>;
+}
+
+const shortMeta = (meta: string) => `${meta.slice(0, 14)}...${meta.slice(-8)}`;
+
+export function StealthRegistration({ network, getScanKey }: StealthRegistrationProps) {
+  const { address } = useAccount();
+  const chainId = useChainId();
+  const { switchChainAsync } = useSwitchChain();
+  const { sendTransactionAsync } = useSendTransaction();
+  const { signTypedDataAsync } = useSignTypedData();
+
+  const [registered, setRegistered] = useState<string | null>(null);
+  const [metaAddress, setMetaAddress] = useState<string | null>(null);
+  const [relayerAvailable, setRelayerAvailable] = useState(false);
+  const [status, setStatus] = useState<'idle' | 'loading' | 'deriving' | 'registering'>('idle');
+  const [txHash, setTxHash] = useState<Hex | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const refresh = useCallback(async () => {
+    if (!address) return;
+    setStatus('loading');
+    try {
+      setRegistered(await getRegisteredMetaAddress(network, address));
+    } catch (err) {
+      console.warn(`Failed to read ERC-6538 registry on ${network}:`, err);
+      setRegistered(null);
+    } finally {
+      setStatus('idle');
+    }
+  }, [address, network]);
+
+  useEffect(() => {
+    refresh();
+    setTxHash(null);
+    setError(null);
+  }, [refresh]);
+
+  useEffect(() => {
+    isRelayerAvailable().then(setRelayerAvailable);
+  }, []);
+
+  const deriveMetaAddress = async (): Promise<string> => {
+    if (metaAddress) return metaAddress;
+    setStatus('deriving');
+    const derived = getStealthMetaAddress(await getScanKey());
+    setMetaAddress(derived);
+    return derived;
+  };
+
+  const register = async (gasless: boolean) => {
+    if (!address) return;
+    setError(null);
+    setTxHash(null);
+
+    try {
+      const meta = await deriveMetaAddress();
+      setStatus('registering');
+
+      const targetChainId = STEALTH_CHAINS[network].chain.id;
+      if (chainId !== targetChainId) {
+        await switchChainAsync({ chainId: targetChainId });
+      }
+
+      let hash: Hex;
+      if (gasless) {
+        const typedData = await getRegisterOnBehalfTypedData(network, address, meta);
+        const signature = await signTypedDataAsync({ ...typedData, account: address });
+        hash = await submitRegistrationOnBehalf({
+          network,
+          registrant: address,
+          stealthMetaAddress: meta,
+          signature,
+        });
+      } else {
+        hash = await sendTransactionAsync({ ...encodeRegisterKeys(meta), chainId: targetChainId });
+      }
+
+      setTxHash(hash);
+      const receipt = await getStealthChainClient(network).waitForTransactionReceipt({ hash });
+      if (receipt.status !== 'success') {
+        throw new Error('Registration transaction reverted');
+      }
+      await refresh();
+    } catch (err) {
+      console.error('❌ ERC-6538 registration failed:', err);
+      setError(err instanceof Error ? err.message.split('\n')[0] : 'Registration failed');
+    } finally {
+      setStatus('idle');
+    }
+  };
+
+  const copyMetaAddress = async (meta: string) => {
+    await navigator.clipboard.writeText(meta);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  if (!address) return null;
+
+  const upToDate = registered !== null && metaAddress !== null && registered.toLowerCase() === metaAddress.toLowerCase();
+  const busy = status !== 'idle';
+  const explorer = STEALTH_CHAINS[network].chain.blockExplorers.default.url;
+
+  return (
+    <div className="bg-gray-900/50 border border-gray-600/30 rounded-lg p-6 mobile-scroll hide-scrollbar">
+      <h3 className="text-xl font-bold text-white flex items-center gap-2 mb-2">
+        <KeyRound className="h-5 w-5" />
+        Stealth Meta-Address
+      </h3>
+      <p className="text-xs text-gray-400 mb-4">
+        Your keys are derived from a wallet signature, so you can recover them by signing again. Registering
+        the public half in the ERC-6538 registry lets anyone pay you privately without asking for an address.
+      </p>
+
+      <div className="space-y-2 text-sm mb-4">
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-gray-400">Registered on {network}:</span>
+          {status === 'loading' ? (
+            <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
+          ) : registered ? (
+            <button
+              onClick={() => copyMetaAddress(registered)}
+              className="font-mono text-white flex items-center gap-1 hover:text-purple-300"
+            >
+              {shortMeta(registered)}
+              {copied ? <Check className="h-3 w-3" /> : <Copy className="h-3 w-3" />}
+            </button>
+          ) : (
+            <span className="text-yellow-400">Not registered</span>
+          )}
+        </div>
+        {metaAddress && (
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-gray-400">Your keys:</span>
+            <span className="font-mono text-white">{shortMeta(metaAddress)}</span>
+          </div>
+        )}
+        {metaAddress && registered && !upToDate && (
+          <p className="text-xs text-yellow-400">
+            ⚠️ The registered meta-address doesn&apos;t match this wallet&apos;s keys. Update it so payments reach you.
+          </p>
+        )}
+        {upToDate && <p className="text-xs text-green-400">✅ Registered and matches your keys</p>}
+      </div>
+
+      {error && <div className="mb-3 text-sm text-red-400">❌ {error}</div>}
+      {txHash && (
+        <a
+          href={`${explorer}/tx/${txHash}`}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="mb-3 flex items-center gap-1 text-xs text-gray-400 hover:text-white"
+        >
+          Registration transaction <ExternalLink className="h-3 w-3" />
+        </a>
+      )}
+
+      {!upToDate && (
+        <div className="flex flex-wrap gap-2">
+          <Button onClick={() => register(false)} size="sm" disabled={busy}>
+            {status === 'registering' || status === 'deriving' ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : registered ? (
+              '🔁 Update Registration'
+            ) : (
+              '🔑 Register'
+            )}
+          </Button>
+          {relayerAvailable && (
+            <Button onClick={() => register(true)} size="sm" variant="outline" disabled={busy}>
+              ✍️ Register Gasless
+            </Button>
+          )}
+        </div>
+      )}
+
+      {registered && (
+        <p className="text-xs text-gray-500 mt-3">
+          Using the dStealth agent? Send <span className="font-mono">/stealth-keys</span> to receive payments to these
+          keys instead of your fkey.id address.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -1,13 +1,29 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
-import { useAccount } from 'wagmi';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useAccount, useSignMessage } from 'wagmi';
 import { Shield, Eye, Wallet, RefreshCw, ExternalLink, Copy, Check, Loader2 } from 'lucide-react';
 import { createPublicClient, http, parseAbi, formatEther, formatUnits } from 'viem';
 import { mainnet, sepolia, base, baseSepolia } from 'viem/chains';
 import { Button } from './Button';
+import { StealthRegistration } from './StealthRegistration';
+import { StealthSweep } from './StealthSweep';
 import { NotificationClient } from '../lib/notification-client';
 import { stealthNotificationManager } from '../lib/stealth-notifications';
+import { storageManager } from '../lib/localStorage-manager';
+import {
+  deriveStealthKeys,
+  getStealthMetaAddress,
+  STEALTH_KEYS_MESSAGE,
+} from '../lib/stealth-crypto';
+import {
+  discoverStealthPayments,
+  formatDiscoveredBalances,
+  getDiscoveryTxUrl,
+  getStealthScanState,
+  type DiscoveredStealthPayment,
+  type StealthScanProgress,
+} from '../lib/stealth-discovery';
 
 // Stealth Address Contract Addresses (from https://stealthaddress.dev/contracts/deployments)
 const STEALTH_CONTRACTS = {
@@ -106,6 +122,7 @@ interface StealthMetaData {
 
 export default function StealthScanner() {
   const { address: connectedAddress, isConnected } = useAccount();
+  const { signMessageAsync } = useSignMessage();
   const [scanning, setScanning] = useState(false);
   const [activities, setActivities] = useState<StealthActivity[]>([]);
   const [metadata, setMetadata] = useState<StealthMetaData>({
@@ -130,6 +147,11 @@ export default function StealthScanner() {
   const [lastScanTime, setLastScanTime] = useState<string | null>(null);
   const [monitoringEnabled, setMonitoringEnabled] = useState(false);
   const [notificationClient] = useState(() => NotificationClient.getInstance());
+  const [discoveredPayments, setDiscoveredPayments] = useState<DiscoveredStealthPayment[]>([]);
+  const [discoveryProgress, setDiscoveryProgress] = useState<StealthScanProgress | null>(null);
+  const [discovering, setDiscovering] = useState(false);
+  const [discoveryError, setDiscoveryError] = useState<string | null>(null);
+  const discoveryAbort = useRef<AbortController | null>(null);
 
   // Create public clients with more reliable RPC endpoints
   const clients = {
@@ -426,8 +448,8 @@ export default function StealthScanner() {
               stealthPayments: true,
               stealthRegistrations: true,
               stealthAnnouncements: true
-            },
-            stealthScanKeys: [stealthKeys.scanKey]
+            }
+            // No scan keys: payments are matched in the browser, the viewing key stays here
           })
         });
 
@@ -441,7 +463,11 @@ export default function StealthScanner() {
       }
       
       // Start local monitoring with stealth notification manager
-      await stealthNotificationManager.startStealthMonitoring(connectedAddress, stealthKeys);
+      await stealthNotificationManager.startStealthMonitoring(
+        connectedAddress,
+        stealthKeys.scanKey,
+        selectedNetwork
+      );
       
       // Send initial notification
       await notificationClient.sendStealthRegistrationNotification(
@@ -454,7 +480,6 @@ export default function StealthScanner() {
       
       // Store monitoring state
       localStorage.setItem(`stealth_monitoring_${connectedAddress}`, 'true');
-      localStorage.setItem(`stealth_keys_${connectedAddress}`, JSON.stringify(stealthKeys));
       
       console.log('🥷 Stealth monitoring started for:', connectedAddress);
     } catch (error) {
@@ -495,7 +520,6 @@ export default function StealthScanner() {
       
       // Clear monitoring state
       localStorage.removeItem(`stealth_monitoring_${connectedAddress}`);
-      localStorage.removeItem(`stealth_keys_${connectedAddress}`);
       
       console.log('🛑 Stealth monitoring stopped for:', connectedAddress);
     } catch (error) {
@@ -510,16 +534,18 @@ export default function StealthScanner() {
       setScanning(true);
       
       // Perform the scan using our notification manager
-      await stealthNotificationManager.performStealthScan(connectedAddress);
+      const before = getStealthScanState(connectedAddress, selectedNetwork);
+      const payments = await stealthNotificationManager.performStealthScan(connectedAddress, selectedNetwork);
+      const after = getStealthScanState(connectedAddress, selectedNetwork);
       
       // Update scan time
       setLastScanTime(new Date().toLocaleString());
+      if (after) setDiscoveredPayments([...after.payments]);
       
-      // Send scan complete notification with mock data
       await notificationClient.sendStealthScanNotification(
         connectedAddress,
-        Math.floor(Math.random() * 5), // Mock found payments
-        Math.floor(Math.random() * 1000) + 100 // Mock scanned blocks
+        payments.length,
+        after ? after.nextBlock - (before?.nextBlock ?? after.nextBlock) : 0
       );
       
     } catch (error) {
@@ -529,21 +555,84 @@ export default function StealthScanner() {
     }
   };
 
-  // Helper function to generate or retrieve stealth keys
+  // Scan key from this device, or derive it from a wallet signature. The
+  // spending private key is never stored; signing again re-derives it.
   const generateOrRetrieveStealthKeys = async (userAddress: string) => {
-    // In production, this would:
-    // 1. Check if user has existing stealth keys
-    // 2. Generate scan/spend keys from wallet signature
-    // 3. Register stealth meta-address on ERC6538Registry
-    
-    // Mock implementation for development
+    let scanKey = storageManager.getStealthScanKey(userAddress);
+    if (!scanKey) {
+      const signature = await signMessageAsync({
+        message: STEALTH_KEYS_MESSAGE,
+        account: userAddress as `0x${string}`,
+      });
+      const { viewingPrivateKey, spendingPublicKey } = deriveStealthKeys(signature);
+      scanKey = { viewingPrivateKey, spendingPublicKey };
+      storageManager.setStealthScanKey(userAddress, scanKey);
+    }
+
     return {
-      scanKey: `scan_${userAddress.slice(2, 10)}`,
-      spendKey: `spend_${userAddress.slice(2, 10)}`,
-      stealthMetaAddress: `0xstealth_meta_${userAddress.slice(2, 10)}`
+      scanKey,
+      stealthMetaAddress: getStealthMetaAddress(scanKey)
     };
   };
 
+  // Walk announcements from the saved resume point and match them locally
+  const discoverMyPayments = async () => {
+    if (!connectedAddress || discovering) return;
+
+    const controller = new AbortController();
+    discoveryAbort.current = controller;
+    setDiscovering(true);
+    setDiscoveryError(null);
+
+    try {
+      const { scanKey } = await generateOrRetrieveStealthKeys(connectedAddress);
+      const result = await discoverStealthPayments({
+        owner: connectedAddress,
+        network: selectedNetwork,
+        scanKey,
+        signal: controller.signal,
+        onProgress: (progress) => {
+          setDiscoveryProgress(progress);
+          const state = getStealthScanState(connectedAddress, selectedNetwork);
+          if (state) setDiscoveredPayments([...state.payments]);
+        }
+      });
+
+      setDiscoveredPayments([...result.payments]);
+      setLastScanTime(new Date().toLocaleString());
+      console.log(`✅ Discovery complete: ${result.newPayments.length} new, ${result.payments.length} total`);
+    } catch (error) {
+      if (controller.signal.aborted) {
+        console.log('⏸️ Discovery paused; it will resume from the last scanned block');
+      } else {
+        console.error('❌ Stealth payment discovery failed:', error);
+        setDiscoveryError(error instanceof Error ? error.message : 'Discovery failed');
+      }
+    } finally {
+      discoveryAbort.current = null;
+      setDiscovering(false);
+    }
+  };
+
+  const pauseDiscovery = () => {
+    discoveryAbort.current?.abort();
+  };
+
+  const discoveryPercent = (progress: StealthScanProgress) => {
+    const total = progress.headBlock - progress.fromBlock;
+    if (total <= 0) return 100;
+    return Math.min(100, Math.round(((progress.nextBlock - progress.fromBlock) / total) * 100));
+  };
+
+  // Show what earlier scans found on this device for the selected network
+  useEffect(() => {
+    if (!connectedAddress) return;
+    const state = getStealthScanState(connectedAddress, selectedNetwork);
+    setDiscoveredPayments(state ? state.payments : []);
+    setDiscoveryProgress(null);
+    return () => discoveryAbort.current?.abort();
+  }, [connectedAddress, selectedNetwork]);
+
   // Auto-start monitoring when component mounts if user has keys
   useEffect(() => {
     const checkExistingMonitoring = async () => {
@@ -839,6 +928,101 @@ export default function StealthScanner() {
         )}
       </div>
 
+      {/* ERC-6538 registration of the signature-derived keys */}
+      {connectedAddress && (
+        <StealthRegistration
+          network={selectedNetwork}
+          getScanKey={async () => (await generateOrRetrieveStealthKeys(connectedAddress)).scanKey}
+        />
+      )}
+
+      {/* Payments discovered locally with the viewing key */}
+      <div className="bg-gray-900/50 border border-gray-600/30 rounded-lg p-6 mobile-scroll hide-scrollbar">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-xl font-bold text-white flex items-center gap-2">
+            <Wallet className="h-5 w-5" />
+            My Stealth Payments ({discoveredPayments.length})
+          </h3>
+          {discovering ? (
+            <Button onClick={pauseDiscovery} size="sm" variant="outline">
+              ⏸️ Pause
+            </Button>
+          ) : (
+            <Button onClick={discoverMyPayments} disabled={!connectedAddress} size="sm">
+              🔑 Discover
+            </Button>
+          )}
+        </div>
+        <p className="text-xs text-gray-400 mb-4">
+          Announcements are matched in your browser with your viewing key, which never leaves this device.
+          Scans resume from the last block checked.
+        </p>
+
+        {discoveryProgress && (
+          <div className="mb-4">
+            <div className="flex justify-between text-xs text-gray-400 mb-1">
+              <span>
+                {discoveryProgress.source === 'indexer' ? 'Indexer' : 'RPC'} • block {discoveryProgress.nextBlock.toLocaleString()}
+                {' '}of {discoveryProgress.headBlock.toLocaleString()}
+              </span>
+              <span>
+                {discoveryProgress.scannedAnnouncements.toLocaleString()} checked • {discoveryProgress.matches} yours
+              </span>
+            </div>
+            <div className="w-full h-2 bg-gray-700 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-gradient-to-r from-purple-500 to-blue-500 transition-all"
+                style={{ width: `${discoveryPercent(discoveryProgress)}%` }}
+              />
+            </div>
+          </div>
+        )}
+
+        {discoveryError && (
+          <div className="mb-4 text-sm text-red-400">❌ {discoveryError}</div>
+        )}
+
+        {discoveredPayments.length === 0 ? (
+          <p className="text-center text-gray-400 py-4">
+            {discovering ? 'Checking announcements...' : 'No stealth payments found yet'}
+          </p>
+        ) : (
+          <div className="space-y-3 max-h-96 overflow-y-auto mobile-scroll hide-scrollbar">
+            {discoveredPayments.map((payment) => {
+              const balances = formatDiscoveredBalances(payment);
+              return (
+                <div key={payment.stealthAddress} className="bg-gray-800/50 rounded-lg p-4 border border-gray-700/50">
+                  <div className="flex items-center justify-between mb-2">
+                    <span className="font-mono text-sm text-white break-all">{payment.stealthAddress}</span>
+                    <a
+                      href={getDiscoveryTxUrl(payment)}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="p-1 text-gray-400 hover:text-white transition-colors"
+                    >
+                      <ExternalLink className="h-4 w-4" />
+                    </a>
+                  </div>
+                  <div className="flex gap-4 text-sm">
+                    <span className="text-gray-300">
+                      <span className="text-gray-400">ETH:</span> {balances.eth}
+                    </span>
+                    <span className="text-gray-300">
+                      <span className="text-gray-400">USDC:</span> {balances.usdc}
+                    </span>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Announced in block {payment.blockNumber.toLocaleString()}
+                  </p>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <StealthSweep payments={discoveredPayments} onSwept={setDiscoveredPayments} />
+      </div>
+
       {/* Integration Links */}
       <div className="bg-gray-900/50 border border-gray-600/30 rounded-lg p-6 mobile-scroll hide-scrollbar">
         <h3 className="text-xl font-bold text-white mb-4">Privacy Protocol Integration</h3>
@@ -0,0 +1,261 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useAccount, useSignMessage } from 'wagmi';
+import { ArrowDownToLine, ExternalLink, Loader2 } from 'lucide-react';
+import { formatEther, formatUnits, isAddress, type Address } from 'viem';
+import { Button } from './Button';
+import { storageManager } from '../lib/localStorage-manager';
+import { deriveStealthKeys, STEALTH_KEYS_MESSAGE } from '../lib/stealth-crypto';
+import { STEALTH_CHAINS } from '../lib/stealth-chains';
+import {
+  hasDiscoveredBalance,
+  refreshDiscoveredBalances,
+  type DiscoveredStealthPayment,
+} from '../lib/stealth-discovery';
+import {
+  estimateSweep,
+  executeSweep,
+  isRelayerAvailable,
+  type SweepEstimate,
+  type SweepResult,
+  type SweepToken,
+} from '../lib/stealth-sweep';
+
+interface StealthSweepProps {
+  payments: DiscoveredStealthPayment[];
+  onSwept?: (payments: DiscoveredStealthPayment[]) => void;
+}
+
+const short = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+export function StealthSweep({ payments, onSwept }: StealthSweepProps) {
+  const { address: connectedAddress } = useAccount();
+  const { signMessageAsync } = useSignMessage();
+
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [destination, setDestination] = useState<string>(connectedAddress || '');
+  const [tokens, setTokens] = useState<SweepToken[]>(['USDC', 'ETH']);
+  const [relayerAvailable, setRelayerAvailable] = useState(false);
+  const [useRelayer, setUseRelayer] = useState(false);
+  const [estimates, setEstimates] = useState<SweepEstimate[] | null>(null);
+  const [results, setResults] = useState<SweepResult[]>([]);
+  const [busy, setBusy] = useState<'estimating' | 'sweeping' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const sweepable = payments.filter(hasDiscoveredBalance);
+
+  useEffect(() => {
+    isRelayerAvailable().then(setRelayerAvailable);
+  }, []);
+
+  useEffect(() => {
+    if (connectedAddress && !destination) setDestination(connectedAddress);
+  }, [connectedAddress, destination]);
+
+  // A stale estimate would sweep the wrong amounts
+  useEffect(() => {
+    setEstimates(null);
+  }, [selected, destination, tokens, useRelayer]);
+
+  const toggle = (stealthAddress: string) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      if (next.has(stealthAddress)) next.delete(stealthAddress);
+      else next.add(stealthAddress);
+      return next;
+    });
+  };
+
+  const toggleToken = (token: SweepToken) => {
+    setTokens((current) => (current.includes(token) ? current.filter((t) => t !== token) : [...current, token]));
+  };
+
+  const handleEstimate = async () => {
+    if (!isAddress(destination)) {
+      setError('Enter a valid destination address');
+      return;
+    }
+    setBusy('estimating');
+    setError(null);
+    setResults([]);
+
+    try {
+      const chosen = sweepable.filter((payment) => selected.has(payment.stealthAddress));
+      setEstimates(await estimateSweep(chosen, { destination, tokens, useRelayer }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Estimation failed');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleSweep = async () => {
+    if (!connectedAddress || !estimates || !isAddress(destination)) return;
+    setBusy('sweeping');
+    setError(null);
+    setResults([]);
+
+    try {
+      // Re-derive the spending key for this sweep only; it is never stored
+      const signature = await signMessageAsync({
+        message: STEALTH_KEYS_MESSAGE,
+        account: connectedAddress as `0x${string}`,
+      });
+      const keys = deriveStealthKeys(signature);
+      const scanKey = storageManager.getStealthScanKey(connectedAddress);
+      if (scanKey && scanKey.viewingPrivateKey !== keys.viewingPrivateKey) {
+        throw new Error('This signature does not match the keys used to discover these payments');
+      }
+
+      await executeSweep(estimates, keys, {
+        destination: destination as Address,
+        owner: connectedAddress,
+        onResult: (result) => setResults((current) => [...current, result]),
+      });
+
+      const networks = Array.from(new Set(estimates.map((estimate) => estimate.payment.network)));
+      for (const network of networks) {
+        const refreshed = await refreshDiscoveredBalances(connectedAddress, network);
+        onSwept?.([...refreshed]);
+      }
+      setEstimates(null);
+      setSelected(new Set());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Sweep failed');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  if (sweepable.length === 0 && results.length === 0) return null;
+
+  const totals = (estimates ?? []).reduce(
+    (sum, estimate) => ({
+      usdc: sum.usdc + (estimate.usdcMode === 'skip' ? BigInt(0) : estimate.usdcAmount),
+      eth: sum.eth + estimate.ethAmount,
+      gas: sum.gas + (estimate.usdcMode === 'direct' ? estimate.usdcGasCost : BigInt(0)) + estimate.ethGasCost,
+    }),
+    { usdc: BigInt(0), eth: BigInt(0), gas: BigInt(0) }
+  );
+
+  return (
+    <div className="mt-4 border-t border-gray-700/50 pt-4 space-y-3">
+      <h4 className="text-lg font-semibold text-white flex items-center gap-2">
+        <ArrowDownToLine className="h-4 w-4" />
+        Sweep Funds
+      </h4>
+
+      <div className="space-y-2">
+        {sweepable.map((payment) => (
+          <label key={payment.stealthAddress} className="flex items-center gap-2 text-sm text-gray-300">
+            <input
+              type="checkbox"
+              checked={selected.has(payment.stealthAddress)}
+              onChange={() => toggle(payment.stealthAddress)}
+              disabled={busy !== null}
+            />
+            <span className="font-mono">{short(payment.stealthAddress)}</span>
+            <span className="text-gray-500">
+              {formatEther(BigInt(payment.ethBalance))} ETH • {formatUnits(BigInt(payment.usdcBalance), 6)} USDC
+            </span>
+          </label>
+        ))}
+      </div>
+
+      <input
+        type="text"
+        value={destination}
+        onChange={(e) => setDestination(e.target.value.trim())}
+        placeholder="Destination address (0x...)"
+        className="w-full px-3 py-2 bg-gray-800 border border-gray-600 rounded-lg text-white text-sm font-mono placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-purple-500"
+        disabled={busy !== null}
+      />
+
+      <div className="flex flex-wrap gap-4 text-sm text-gray-300">
+        {(['USDC', 'ETH'] as SweepToken[]).map((token) => (
+          <label key={token} className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={tokens.includes(token)}
+              onChange={() => toggleToken(token)}
+              disabled={busy !== null}
+            />
+            {token}
+          </label>
+        ))}
+        <label className={`flex items-center gap-1 ${relayerAvailable ? '' : 'opacity-50'}`}>
+          <input
+            type="checkbox"
+            checked={useRelayer}
+            onChange={() => setUseRelayer(!useRelayer)}
+            disabled={!relayerAvailable || busy !== null}
+          />
+          Relay USDC from addresses without ETH
+        </label>
+      </div>
+
+      {estimates && (
+        <div className="bg-gray-800/50 rounded-lg p-3 text-sm space-y-1">
+          {estimates.map((estimate) => (
+            <div key={estimate.payment.stealthAddress} className="text-gray-300">
+              <span className="font-mono">{short(estimate.payment.stealthAddress)}</span>
+              {': '}
+              {estimate.usdcMode !== 'skip' && `${formatUnits(estimate.usdcAmount, 6)} USDC${estimate.usdcMode === 'relayer' ? ' (relayed)' : ''} `}
+              {estimate.ethAmount > BigInt(0) && `${formatEther(estimate.ethAmount)} ETH`}
+              {estimate.note && <span className="block text-xs text-yellow-400">{estimate.note}</span>}
+            </div>
+          ))}
+          <div className="text-gray-400 pt-1 border-t border-gray-700/50">
+            Total: {formatUnits(totals.usdc, 6)} USDC • {formatEther(totals.eth)} ETH • up to {formatEther(totals.gas)} ETH gas
+          </div>
+        </div>
+      )}
+
+      {error && <div className="text-sm text-red-400">❌ {error}</div>}
+
+      <div className="flex gap-2">
+        <Button
+          onClick={handleEstimate}
+          size="sm"
+          variant="outline"
+          disabled={busy !== null || selected.size === 0 || tokens.length === 0}
+        >
+          {busy === 'estimating' ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Estimate'}
+        </Button>
+        <Button onClick={handleSweep} size="sm" disabled={busy !== null || !estimates || !connectedAddress}>
+          {busy === 'sweeping' ? <Loader2 className="h-4 w-4 animate-spin" /> : `Sweep ${selected.size} address${selected.size === 1 ? '' : 'es'}`}
+        </Button>
+      </div>
+
+      {results.length > 0 && (
+        <div className="space-y-1 text-sm">
+          {results.map((result) => {
+            const explorer = STEALTH_CHAINS[result.network].chain.blockExplorers.default.url;
+            const txHash = result.usdcTxHash ?? result.ethTxHash;
+            return (
+              <div key={result.stealthAddress} className="flex items-center gap-2 text-gray-300">
+                <span>
+                  {result.status === 'swept' ? '✅' : result.status === 'partial' ? '⚠️' : result.status === 'skipped' ? '⏭️' : '❌'}
+                </span>
+                <span className="font-mono">{short(result.stealthAddress)}</span>
+                {result.error && <span className="text-xs text-red-400 truncate">{result.error}</span>}
+                {txHash && (
+                  <a
+                    href={`${explorer}/tx/${txHash}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-gray-400 hover:text-white"
+                  >
+                    <ExternalLink className="h-3 w-3" />
+                  </a>
+                )}
+              </div>
+            );
+          })}
+          <p className="text-xs text-gray-500">Each sweep is saved as a receipt in your ZK receipts.</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -351,6 +351,23 @@ export default function UserProfile({ address: propAddress, viewOnly = false }:
           }
         }
 
+        // Prefer the indexer's onchain PrivacyProfile over locally tracked stats
+        try {
+          const profileResponse = await fetch(`/api/ponder/profiles/${targetAddress}`);
+          if (profileResponse.ok && userData.stats) {
+            const profile = await profileResponse.json();
+            userData.stats.privacyScore = profile.privacyScore;
+            userData.stats.stealthActions =
+              profile.announcementCount +
+              profile.registrationCount +
+              profile.umbraSendCount +
+              profile.umbraWithdrawCount +
+              profile.umbraKeyRegistrations;
+          }
+        } catch (error) {
+          console.warn('Failed to load indexed privacy profile:', error);
+        }
+
         // Recalculate stats based on final data
         if (userData.stats) {
           userData.stats.totalLinks = userData.x402Links?.length || 0;
@@ -368,8 +385,8 @@ export default function UserProfile({ address: propAddress, viewOnly = false }:
           stats: {
             totalEarnings: 0,
             totalLinks: 0,
-            privacyScore: 85,
-            stealthActions: 12
+            privacyScore: 0,
+            stealthActions: 0
           },
           x402Links: generateUserLinks(targetAddress, {}),
           zkReceipts: [],
@@ -9,27 +9,36 @@
  */
 
 import React, { useState, useEffect, useRef } from 'react';
-import { useAccount } from 'wagmi';
+import { useAccount, useSignMessage, useSignTypedData } from 'wagmi';
+import { signInWithEthereum } from '../lib/auth-client';
+import { ZKReceiptBundleError } from '../lib/zk-receipt-bundle';
 import { 
   exportZKReceipts, 
   importZKReceipts, 
   getAllZKReceipts, 
+  getReceivedZKReceipts,
   getZKReceiptStats,
+  isZKReceiptSignInRequired,
   type ZKReceipt,
   type ZKReceiptSyncStats
 } from '../lib/zk-receipt-storage';
-import { Download, Upload, Database, CheckCircle, AlertCircle, RefreshCw } from 'lucide-react';
+import { Download, Upload, Database, CheckCircle, AlertCircle, RefreshCw, LogIn } from 'lucide-react';
 
 interface ZKReceiptManagerProps {
   className?: string;
 }
 
 export default function ZKReceiptManager({ className = '' }: ZKReceiptManagerProps) {
-  const { address } = useAccount();
+  const { address, chainId } = useAccount();
+  const { signMessageAsync } = useSignMessage();
+  const { signTypedDataAsync } = useSignTypedData();
   const fileInputRef = useRef<HTMLInputElement>(null);
   
   // State management
   const [receipts, setReceipts] = useState<ZKReceipt[]>([]);
+  const [receivedReceipts, setReceivedReceipts] = useState<ZKReceipt[]>([]);
+  const [signInRequired, setSignInRequired] = useState(false);
+  const [signingIn, setSigningIn] = useState(false);
   const [syncStats, setSyncStats] = useState<ZKReceiptSyncStats | null>(null);
   const [loading, setLoading] = useState(false);
   const [exporting, setExporting] = useState(false);
@@ -52,13 +61,16 @@ export default function ZKReceiptManager({ className = '' }: ZKReceiptManagerPro
     
     setLoading(true);
     try {
-      const [receiptsData, statsData] = await Promise.all([
+      const [receiptsData, receivedData, statsData] = await Promise.all([
         getAllZKReceipts(address),
+        getReceivedZKReceipts(address),
         getZKReceiptStats(address)
       ]);
       
       setReceipts(receiptsData);
+      setReceivedReceipts(receivedData);
       setSyncStats(statsData);
+      setSignInRequired(isZKReceiptSignInRequired());
       
     } catch (error) {
       console.error('Error loading ZK receipts:', error);
@@ -68,6 +80,29 @@ export default function ZKReceiptManager({ className = '' }: ZKReceiptManagerPro
     }
   };
 
+  /**
+   * Sign in with Ethereum so Redis sync can read and write this wallet's receipts
+   */
+  const handleSignIn = async () => {
+    if (!address) return;
+    
+    setSigningIn(true);
+    try {
+      await signInWithEthereum({
+        address,
+        chainId: chainId || 8453,
+        signMessage: ({ message }) => signMessageAsync({ message, account: address }),
+      });
+      setMessage({ type: 'success', text: 'Signed in, syncing ZK receipts' });
+      await loadReceiptsAndStats();
+    } catch (error) {
+      console.error('Error signing in:', error);
+      setMessage({ type: 'error', text: 'Sign-in failed, receipts stay local only' });
+    } finally {
+      setSigningIn(false);
+    }
+  };
+
   /**
    * Export ZK receipts to file
    */
@@ -76,7 +111,12 @@ export default function ZKReceiptManager({ className = '' }: ZKReceiptManagerPro
     
     setExporting(true);
     try {
-      const exportData = await exportZKReceipts(address);
+      // The wallet signs the bundle so imports and third parties can verify it
+      const exportData = await exportZKReceipts(
+        address,
+        (td) => signTypedDataAsync({ ...td, account: address }),
+        chainId,
+      );
       
       // Create and download file
       const blob = new Blob([exportData], { type: 'application/json' });
@@ -111,10 +151,10 @@ export default function ZKReceiptManager({ className = '' }: ZKReceiptManagerPro
       const fileContent = await file.text();
       const result = await importZKReceipts(fileContent);
       
-      if (result.errors > 0) {
+      if (result.rejected > 0 || result.errors > 0) {
         setMessage({ 
           type: 'info', 
-          text: `Imported ${result.imported} receipts with ${result.errors} errors` 
+          text: `Imported ${result.imported} receipts, rejected ${result.rejected} that failed verification, ${result.errors} errors` 
         });
       } else {
         setMessage({ 
@@ -128,7 +168,10 @@ export default function ZKReceiptManager({ className = '' }: ZKReceiptManagerPro
       
     } catch (error) {
       console.error('Error importing ZK receipts:', error);
-      setMessage({ type: 'error', text: 'Failed to import ZK receipts' });
+      setMessage({
+        type: 'error',
+        text: error instanceof ZKReceiptBundleError ? error.message : 'Failed to import ZK receipts'
+      });
     } finally {
       setImporting(false);
       // Clear file input
@@ -214,12 +257,28 @@ export default function ZKReceiptManager({ className = '' }: ZKReceiptManagerPro
         </div>
       )}
 
+      {/* Redis sync needs a signed-in session */}
+      {signInRequired && (
+        <button
+          onClick={handleSignIn}
+          disabled={signingIn}
+          className="w-full mb-4 flex items-center justify-center gap-2 bg-purple-600 text-white px-4 py-2 rounded-lg hover:bg-purple-700 disabled:opacity-50"
+        >
+          <LogIn className="h-4 w-4" />
+          {signingIn ? 'Waiting for signature...' : 'Sign in to sync receipts across devices'}
+        </button>
+      )}
+
       {/* Quick Stats */}
-      <div className="grid grid-cols-2 gap-4 mb-6">
+      <div className="grid grid-cols-3 gap-4 mb-6">
         <div className="bg-gray-700 rounded-lg p-4">
-          <h3 className="text-sm font-medium text-gray-400 mb-1">Total Receipts</h3>
+          <h3 className="text-sm font-medium text-gray-400 mb-1">Sent Receipts</h3>
           <p className="text-2xl font-bold text-white">{receipts.length}</p>
         </div>
+        <div className="bg-gray-700 rounded-lg p-4">
+          <h3 className="text-sm font-medium text-gray-400 mb-1">Received</h3>
+          <p className="text-2xl font-bold text-white">{receivedReceipts.length}</p>
+        </div>
         <div className="bg-gray-700 rounded-lg p-4">
           <h3 className="text-sm font-medium text-gray-400 mb-1">Sync Status</h3>
           <p className={`text-sm font-medium ${getSyncStatusColor()}`}>
@@ -326,9 +385,9 @@ export default function ZKReceiptManager({ className = '' }: ZKReceiptManagerPro
         <h3 className="text-sm font-medium text-gray-400 mb-2">Storage Information</h3>
         <div className="text-xs text-gray-400 space-y-1">
           <p>• ZK receipts are stored locally in your browser (permanent)</p>
-          <p>• Redis sync provides 7-day backup and cross-device access</p>
-          <p>• Export regularly to create external backups</p>
-          <p>• Import to restore receipts from other devices</p>
+          <p>• Redis sync provides 7-day backup and cross-device access once you sign in</p>
+          <p>• Export regularly to create external backups, signed by your wallet</p>
+          <p>• Import to restore receipts from other devices; tampered entries are rejected</p>
         </div>
       </div>
     </div>
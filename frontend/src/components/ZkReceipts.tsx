@@ -108,7 +108,10 @@ export default function ZkReceipts() {
       }
 
       setLoadingAgentReceipts(true);
-      const response = await fetch(`/api/zkreceipts?userAddress=${walletAddress}`);
+      // Owner-scoped: needs a signed-in session for this wallet
+      const response = await fetch(`/api/zkreceipts?view=sender&userAddress=${walletAddress}`, {
+        credentials: 'include',
+      });
       
       if (response.ok) {
         const data = await response.json();
@@ -0,0 +1,49 @@
+import { createSiweMessage } from 'viem/siwe';
+
+// Matches how long the server keeps the nonce
+const MESSAGE_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * Browser side of Sign-In with Ethereum: fetch a nonce, have the wallet sign
+ * an EIP-4361 message and exchange it for the `auth_token` session cookie
+ * the owner-scoped APIs (e.g. /api/zkreceipts) read.
+ */
+export async function signInWithEthereum(params: {
+  address: `0x${string}`;
+  chainId: number;
+  signMessage: (args: { message: string }) => Promise<`0x${string}`>;
+}): Promise<{ address: string }> {
+  const nonceResponse = await fetch('/api/auth/siwe', {
+    credentials: 'include',
+  });
+  if (!nonceResponse.ok) {
+    throw new Error(`Could not start sign-in: ${nonceResponse.status}`);
+  }
+  const { nonce } = await nonceResponse.json();
+
+  const issuedAt = new Date();
+  const message = createSiweMessage({
+    address: params.address,
+    chainId: params.chainId,
+    domain: window.location.host,
+    uri: window.location.origin,
+    nonce,
+    issuedAt,
+    expirationTime: new Date(issuedAt.getTime() + MESSAGE_TTL_MS),
+    version: '1',
+    statement: 'Sign in to dstealth to sync your ZK receipts.',
+  });
+  const signature = await params.signMessage({ message });
+
+  const response = await fetch('/api/auth/siwe', {
+    method: 'POST',
+    credentials: 'include',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ message, signature }),
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || `Sign-in failed: ${response.status}`);
+  }
+  return { address: data.address };
+}
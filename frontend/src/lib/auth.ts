@@ -0,0 +1,151 @@
+import * as jose from 'jose';
+import type { NextRequest, NextResponse } from 'next/server';
+import { getAddress, isAddress } from 'viem';
+import { env } from '@/lib/env';
+
+/**
+ * Session tokens for API routes that act on a user's own data. Both sign-in
+ * flows (Farcaster in /api/auth/sign-in, SIWE in /api/auth/siwe) issue the
+ * same HS256 JWT, sent back as the `auth_token` cookie or a Bearer header.
+ */
+
+export const AUTH_COOKIE = 'auth_token';
+
+const AUTH_TOKEN_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+export interface AuthenticatedUser {
+  address: string; // wallet that signed in (checksummed)
+  addresses: string[]; // every address the session may act for, incl. address
+  userFid?: number;
+  method: 'farcaster' | 'siwe';
+}
+
+function getSecret(): Uint8Array | null {
+  return env.JWT_SECRET ? new TextEncoder().encode(env.JWT_SECRET) : null;
+}
+
+export function isAuthConfigured(): boolean {
+  return !!env.JWT_SECRET;
+}
+
+export async function signAuthToken(user: {
+  walletAddress: string;
+  addresses?: string[];
+  userFid?: number;
+  method: AuthenticatedUser['method'];
+}): Promise<string> {
+  const secret = getSecret();
+  if (!secret) throw new Error('JWT_SECRET is not configured');
+
+  return new jose.SignJWT({
+    userFid: user.userFid,
+    walletAddress: user.walletAddress,
+    addresses: user.addresses,
+    method: user.method,
+  })
+    .setProtectedHeader({ alg: 'HS256' })
+    .setIssuedAt()
+    .setExpirationTime(`${AUTH_TOKEN_TTL_SECONDS}s`)
+    .sign(secret);
+}
+
+/**
+ * Nonces for sign-in messages travel in a cookie as a short-lived token
+ * signed with the session secret, so a client can't pick its own.
+ */
+export async function signNonceToken(
+  nonce: string,
+  ttlSeconds: number,
+): Promise<string> {
+  const secret = getSecret();
+  if (!secret) throw new Error('JWT_SECRET is not configured');
+
+  return new jose.SignJWT({ nonce, purpose: 'siwe_nonce' })
+    .setProtectedHeader({ alg: 'HS256' })
+    .setIssuedAt()
+    .setExpirationTime(`${ttlSeconds}s`)
+    .sign(secret);
+}
+
+// The nonce a token from signNonceToken was issued for, or null
+export async function verifyNonceToken(token: string): Promise<string | null> {
+  const secret = getSecret();
+  if (!secret) return null;
+
+  try {
+    const { payload } = await jose.jwtVerify(token, secret, {
+      algorithms: ['HS256'],
+    });
+    return payload.purpose === 'siwe_nonce' && typeof payload.nonce === 'string'
+      ? payload.nonce
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+export function setAuthCookie(response: NextResponse, token: string): void {
+  response.cookies.set({
+    name: AUTH_COOKIE,
+    value: token,
+    httpOnly: true,
+    secure: true,
+    sameSite: 'none',
+    maxAge: AUTH_TOKEN_TTL_SECONDS,
+    path: '/',
+  });
+}
+
+/**
+ * The signed-in user of a request, or null without a valid token. Tokens
+ * issued before `addresses` existed only vouch for `walletAddress`.
+ */
+export async function getAuthenticatedUser(
+  request: NextRequest,
+): Promise<AuthenticatedUser | null> {
+  const secret = getSecret();
+  const token =
+    request.headers.get('authorization')?.replace(/^Bearer\s+/i, '') ||
+    request.cookies.get(AUTH_COOKIE)?.value;
+  if (!secret || !token) return null;
+
+  try {
+    const { payload } = await jose.jwtVerify(token, secret, {
+      algorithms: ['HS256'],
+    });
+    const walletAddress = payload.walletAddress;
+    if (
+      typeof walletAddress !== 'string' ||
+      !isAddress(walletAddress, { strict: false })
+    ) {
+      return null;
+    }
+
+    const address = getAddress(walletAddress);
+    const extra = Array.isArray(payload.addresses) ? payload.addresses : [];
+    const addresses = [
+      address,
+      ...extra
+        .filter(
+          (a): a is string =>
+            typeof a === 'string' && isAddress(a, { strict: false }),
+        )
+        .map((a) => getAddress(a)),
+    ];
+
+    return {
+      address,
+      addresses: Array.from(new Set(addresses)),
+      userFid:
+        typeof payload.userFid === 'number' ? payload.userFid : undefined,
+      method: payload.method === 'siwe' ? 'siwe' : 'farcaster',
+    };
+  } catch {
+    return null;
+  }
+}
+
+// Whether `user` may act for `address`
+export function canActFor(user: AuthenticatedUser, address: string): boolean {
+  return user.addresses.some((a) => a.toLowerCase() === address.toLowerCase());
+}
@@ -0,0 +1,444 @@
+import { Redis } from '@upstash/redis';
+import {
+  createPublicClient,
+  encodeFunctionData,
+  erc20Abi,
+  getAddress,
+  http,
+  isAddress,
+  parseUnits,
+  TransactionReceiptNotFoundError,
+  type Address,
+  type Hash,
+  type Hex,
+} from 'viem';
+import { privateKeyToAccount, type PrivateKeyAccount } from 'viem/accounts';
+import { env } from './env';
+import { checkMilestones, MILESTONES, type Milestone } from './farcaster-miniapp';
+import { getStealthChainClient, STEALTH_CHAINS } from './stealth-chains';
+import { getSendStatus, sendFromWallet } from './wallet-sender';
+
+/**
+ * 🥷 milestone claims: re-check eligibility from persisted x402 sales, record
+ * each (user, milestone) claim once, and send the tokens from the
+ * distribution wallet. Server-only: it holds the distribution key.
+ *
+ * CLAIMS_RPC_URL and CLAIMS_TOKEN_ADDRESS point the service at another
+ * chain (e.g. an Anvil node with a test token) and CLAIMS_DRY_RUN=true
+ * simulates transfers without sending them.
+ */
+
+export const STEVEN_TOKEN_CONTRACT =
+  '0x2a810158dD24DC62477540c81194B4F817EB3944' as const;
+const FKS_TOKEN_CONTRACT = '0x894c663757f6953544548EFA1aebc0846AC08bEa' as const;
+
+// Bonus for FluidKey Score holders, checked against their FKS balance
+export const FKS_HOLDER_MILESTONE_ID = 'fks_holder';
+const FKS_HOLDER_BONUS = 42000;
+
+// Milestones whose conditions we can't check server-side: shares aren't
+// persisted, "midnight" depends on the creator's local time, and links are
+// indexed under whatever creator address /api/x402/generate is sent, so
+// link counts and prices prove nothing about who made them
+const UNVERIFIABLE_MILESTONES = [
+  'first_frame_share',
+  'midnight_creator',
+  'first_link',
+  'ten_links',
+  'palindrome_price',
+];
+
+const CLAIM_TTL = 86400 * 365 * 2; // 2 years
+const RECEIPT_TIMEOUT_MS = 30_000;
+
+export type ClaimFailureReason =
+  | 'invalid_address'
+  | 'unknown_milestone'
+  | 'not_verifiable'
+  | 'not_eligible'
+  | 'already_processing'
+  | 'distributor_unavailable'
+  | 'registry_unavailable'
+  | 'transfer_failed';
+
+export type ClaimStatus = 'pending' | 'sent' | 'confirmed' | 'failed';
+
+export interface ClaimRecord {
+  userAddress: Address;
+  milestoneId: string;
+  reason: string;
+  amount: number; // whole 🥷 tokens
+  status: ClaimStatus;
+  chainId?: number;
+  transactionHash?: Hash;
+  from?: Address; // distribution wallet that signed the transfer
+  nonce?: number;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ClaimResult {
+  success: boolean;
+  claim?: ClaimRecord;
+  alreadyClaimed?: boolean;
+  dryRun?: boolean;
+  reason?: ClaimFailureReason;
+  error?: string;
+}
+
+export interface PersistedActivityStats {
+  totalPurchases: number;
+  totalRevenue: number;
+}
+
+const redis =
+  process.env.UPSTASH_REDIS_REST_URL && process.env.UPSTASH_REDIS_REST_TOKEN
+    ? new Redis({
+        url: process.env.UPSTASH_REDIS_REST_URL,
+        token: process.env.UPSTASH_REDIS_REST_TOKEN,
+      })
+    : null;
+
+// Local development (e.g. against Anvil) can run without Redis; claims
+// then only stay idempotent for the life of the server process
+const localClaims = new Map<string, ClaimRecord>();
+const useLocalRegistry = !redis && process.env.NODE_ENV !== 'production';
+
+function fail(reason: ClaimFailureReason, message: string): ClaimResult {
+  return { success: false, reason, error: message };
+}
+
+function claimKey(userAddress: string, milestoneId: string): string {
+  return `claims:${userAddress.toLowerCase()}:${milestoneId}`;
+}
+
+function parseStored<T>(value: unknown): T | null {
+  if (!value) return null;
+  return (typeof value === 'string' ? JSON.parse(value) : value) as T;
+}
+
+async function getClaimRecord(key: string): Promise<ClaimRecord | null> {
+  if (redis) return parseStored<ClaimRecord>(await redis.get(key));
+  return localClaims.get(key) ?? null;
+}
+
+async function saveClaimRecord(key: string, record: ClaimRecord): Promise<void> {
+  if (redis) {
+    await redis.set(key, JSON.stringify(record), { ex: CLAIM_TTL });
+  } else {
+    localClaims.set(key, record);
+  }
+}
+
+// Take the claim when there's no record yet or the last attempt failed, in
+// one step so two retries of a failed claim can't both win
+const LOCK_CLAIM_SCRIPT = `
+local current = redis.call('GET', KEYS[1])
+if current and cjson.decode(current).status ~= 'failed' then
+  return 0
+end
+redis.call('SET', KEYS[1], ARGV[1], 'EX', ARGV[2])
+return 1
+`;
+
+// Atomically take the claim; false when another request already holds it
+async function lockClaimRecord(key: string, record: ClaimRecord): Promise<boolean> {
+  if (redis) {
+    const locked = await redis.eval(LOCK_CLAIM_SCRIPT, [key], [JSON.stringify(record), String(CLAIM_TTL)]);
+    return locked === 1;
+  }
+  const current = localClaims.get(key);
+  if (current && current.status !== 'failed') return false;
+  localClaims.set(key, record);
+  return true;
+}
+
+function getClaimsClient() {
+  return createPublicClient({
+    transport: http(process.env.CLAIMS_RPC_URL || STEALTH_CHAINS.base.rpcUrl),
+  });
+}
+
+function getClaimsToken(): Address {
+  const configured = process.env.CLAIMS_TOKEN_ADDRESS;
+  return configured && isAddress(configured) ? configured : STEVEN_TOKEN_CONTRACT;
+}
+
+function getDistributor(): PrivateKeyAccount | null {
+  return env.DISTRIBUTION_WALLET_PRIVATE_KEY
+    ? privateKeyToAccount(env.DISTRIBUTION_WALLET_PRIVATE_KEY as Hex)
+    : null;
+}
+
+export function isClaimsDryRun(): boolean {
+  return process.env.CLAIMS_DRY_RUN === 'true';
+}
+
+/**
+ * A creator's sales as recorded by /api/content/pay once each payment settled
+ * on-chain, rather than the copy the browser keeps in localStorage.
+ */
+export async function getPersistedActivityStats(
+  userAddress: string,
+): Promise<PersistedActivityStats> {
+  const stats: PersistedActivityStats = { totalPurchases: 0, totalRevenue: 0 };
+  if (!redis) return stats;
+
+  const contentIds =
+    parseStored<string[]>(
+      await redis.get(`x402:creator:${userAddress.toLowerCase()}`),
+    ) ?? [];
+
+  for (const contentId of contentIds) {
+    const contentStats = parseStored<any>(await redis.get(`content:stats:${contentId}`));
+    stats.totalPurchases += contentStats?.totalPurchases || 0;
+    stats.totalRevenue += contentStats?.totalRevenue || 0;
+  }
+  return stats;
+}
+
+// FKS only exists on Base, whatever chain claims are paid on
+async function holdsFluidKeyScore(userAddress: Address): Promise<boolean> {
+  const { data } = await getStealthChainClient('base').call({
+    to: FKS_TOKEN_CONTRACT,
+    data: encodeFunctionData({ abi: erc20Abi, functionName: 'balanceOf', args: [userAddress] }),
+  });
+  return !!data && BigInt(data) > BigInt(0);
+}
+
+async function checkEligibility(
+  userAddress: Address,
+  milestoneId: string,
+): Promise<{ reward: { reason: string; amount: number } } | ClaimResult> {
+  if (milestoneId === FKS_HOLDER_MILESTONE_ID) {
+    if (!(await holdsFluidKeyScore(userAddress))) {
+      return fail('not_eligible', 'No FluidKey Score tokens found for this wallet');
+    }
+    return { reward: { reason: 'FluidKey Score Elite Holder Bonus', amount: FKS_HOLDER_BONUS } };
+  }
+
+  const milestone: Milestone | undefined = MILESTONES.find((m) => m.id === milestoneId);
+  if (!milestone || !milestone.reward.amount) {
+    return fail('unknown_milestone', `Unknown milestone ${milestoneId}`);
+  }
+  if (UNVERIFIABLE_MILESTONES.includes(milestone.id)) {
+    return fail('not_verifiable', `"${milestone.name}" can't be verified server-side yet`);
+  }
+
+  const stats = await getPersistedActivityStats(userAddress);
+  const reached = checkMilestones(stats, []).some((m) => m.id === milestone.id);
+  if (!reached) {
+    return fail(
+      'not_eligible',
+      `"${milestone.name}" not reached yet (${stats.totalPurchases} purchases, $${stats.totalRevenue.toFixed(2)} revenue)`,
+    );
+  }
+  return { reward: { reason: milestone.name, amount: milestone.reward.amount } };
+}
+
+// The token transfer paying a claim
+async function buildTransfer(to: Address, amount: number): Promise<{ to: Address; data: Hex }> {
+  const token = getClaimsToken();
+  const { data: decimalsData } = await getClaimsClient().call({
+    to: token,
+    data: encodeFunctionData({ abi: erc20Abi, functionName: 'decimals' }),
+  });
+  const decimals = decimalsData ? Number(BigInt(decimalsData)) : 18;
+
+  return {
+    to: token,
+    data: encodeFunctionData({
+      abi: erc20Abi,
+      functionName: 'transfer',
+      args: [to, parseUnits(String(amount), decimals)],
+    }),
+  };
+}
+
+async function settleClaim(key: string, claim: ClaimRecord): Promise<ClaimRecord> {
+  const receipt = await getClaimsClient().waitForTransactionReceipt({
+    hash: claim.transactionHash!,
+    timeout: RECEIPT_TIMEOUT_MS,
+  });
+  const settled: ClaimRecord = {
+    ...claim,
+    status: receipt.status === 'success' ? 'confirmed' : 'failed',
+    error: receipt.status === 'success' ? undefined : 'Transfer reverted',
+    updatedAt: new Date().toISOString(),
+  };
+  await saveClaimRecord(key, settled);
+  return settled;
+}
+
+/**
+ * Claim `milestoneId` for `userAddress`. The reward amount comes from the
+ * milestone, never the request, and a claim that was sent or confirmed is
+ * returned as-is instead of paying twice. Failed claims can be retried.
+ */
+export async function processClaim(params: {
+  userAddress: string;
+  milestoneId: string;
+}): Promise<ClaimResult> {
+  if (!isAddress(params.userAddress)) {
+    return fail('invalid_address', 'userAddress is not a valid address');
+  }
+  const userAddress = getAddress(params.userAddress);
+  const { milestoneId } = params;
+
+  if (!redis && !useLocalRegistry) {
+    // Without the claim registry we can't stop double claims, so fail closed
+    return fail('registry_unavailable', 'Claims registry unavailable, please try again later');
+  }
+
+  const key = claimKey(userAddress, milestoneId);
+  const existing = await getClaimRecord(key);
+  if (existing && existing.status !== 'failed') {
+    return { success: true, alreadyClaimed: true, claim: existing };
+  }
+
+  const eligibility = await checkEligibility(userAddress, milestoneId);
+  if (!('reward' in eligibility)) return eligibility;
+
+  const distributor = getDistributor();
+  if (!distributor) {
+    return fail('distributor_unavailable', 'Token distribution is not configured');
+  }
+
+  const now = new Date().toISOString();
+  const claim: ClaimRecord = {
+    userAddress,
+    milestoneId,
+    reason: eligibility.reward.reason,
+    amount: eligibility.reward.amount,
+    status: 'pending',
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  };
+
+  if (isClaimsDryRun()) {
+    // Gas estimation runs the transfer, so an empty distribution wallet
+    // fails here without sending anything
+    try {
+      const client = getClaimsClient();
+      const tx = await buildTransfer(userAddress, claim.amount);
+      const [chainId] = await Promise.all([
+        client.getChainId(),
+        client.estimateGas({ account: distributor.address, ...tx }),
+      ]);
+      return { success: true, dryRun: true, claim: { ...claim, chainId } };
+    } catch (error) {
+      return fail('transfer_failed', error instanceof Error ? error.message.split('\n')[0] : String(error));
+    }
+  }
+
+  // A failed claim is retried by replacing its record
+  if (!(await lockClaimRecord(key, claim))) {
+    return fail('already_processing', 'This claim is already being processed');
+  }
+
+  // Sign, record and broadcast under the distributor's send lock (shared
+  // with every other send from that wallet) so each claim gets its own nonce
+  let sentClaim: ClaimRecord | undefined;
+  try {
+    const tx = await buildTransfer(userAddress, claim.amount);
+    const result = await sendFromWallet({
+      client: getClaimsClient(),
+      account: distributor,
+      tx,
+      // Record the hash before broadcasting: once the transaction may have
+      // left, the claim is only marked failed if its nonce goes to another
+      // transaction, so it can't be paid twice
+      onSigned: async (signed) => {
+        const sent: ClaimRecord = {
+          ...claim,
+          chainId: signed.chainId,
+          transactionHash: signed.transactionHash,
+          from: signed.from,
+          nonce: signed.nonce,
+          status: 'sent',
+          updatedAt: new Date().toISOString(),
+        };
+        await saveClaimRecord(key, sent);
+        sentClaim = sent;
+      },
+    });
+    if (result.broadcastError) {
+      // The node may have taken it anyway; GET /api/claims/process settles
+      // it if it lands, or frees the claim if its nonce is used elsewhere
+      console.error(`Broadcast failed for claim ${key}:`, result.broadcastError);
+    }
+  } catch (error) {
+    // Once recorded as sent, only the nonce check may free the claim
+    if (sentClaim) return { success: true, claim: sentClaim };
+    // Nothing was recorded as sent, so the claim can be retried
+    const message = error instanceof Error ? error.message.split('\n')[0] : String(error);
+    await saveClaimRecord(key, { ...claim, status: 'failed', error: message, updatedAt: new Date().toISOString() });
+    return fail('transfer_failed', message);
+  }
+
+  try {
+    const settled = await settleClaim(key, sentClaim);
+    return settled.status === 'confirmed'
+      ? { success: true, claim: settled }
+      : fail('transfer_failed', 'Transfer reverted');
+  } catch {
+    // Still pending; GET /api/claims/process picks up the receipt later
+    return { success: true, claim: sentClaim };
+  }
+}
+
+/**
+ * Settle a `sent` claim if its receipt has landed. If it hasn't but the
+ * distributor's nonce has moved past the claim's, another transaction took
+ * that nonce (the wallet sender replaces ones that got stuck or dropped) and
+ * this one can never land, so the claim is marked failed and can be retried.
+ */
+async function refreshSentClaim(key: string, claim: ClaimRecord): Promise<ClaimRecord> {
+  if (claim.nonce === undefined || !claim.from) {
+    const landed = await getClaimsClient()
+      .getTransactionReceipt({ hash: claim.transactionHash! })
+      .then(() => true)
+      .catch((error) => {
+        if (error instanceof TransactionReceiptNotFoundError) return false;
+        throw error;
+      });
+    return landed ? settleClaim(key, claim) : claim;
+  }
+
+  const status = await getSendStatus(getClaimsClient(), {
+    transactionHash: claim.transactionHash!,
+    from: claim.from,
+    nonce: claim.nonce,
+  });
+  if (status === 'pending') return claim;
+  if (status !== 'replaced') return settleClaim(key, claim);
+
+  const failed: ClaimRecord = {
+    ...claim,
+    status: 'failed',
+    error: `Nonce ${claim.nonce} was used by another transaction`,
+    updatedAt: new Date().toISOString(),
+  };
+  await saveClaimRecord(key, failed);
+  return failed;
+}
+
+/**
+ * Every claim recorded for `userAddress`, for showing claim status. Claims
+ * still waiting on a receipt are settled if it has landed since.
+ */
+export async function getClaimsForUser(userAddress: string): Promise<ClaimRecord[]> {
+  if (!isAddress(userAddress)) return [];
+  const ids = [...MILESTONES.map((m) => m.id), FKS_HOLDER_MILESTONE_ID];
+
+  const records = await Promise.all(
+    ids.map(async (id) => {
+      const key = claimKey(userAddress, id);
+      const record = await getClaimRecord(key);
+      if (record?.status !== 'sent') return record;
+      return refreshSentClaim(key, record).catch(() => record);
+    }),
+  );
+  return records.filter((record): record is ClaimRecord => record !== null);
+}
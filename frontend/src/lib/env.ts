@@ -11,6 +11,16 @@ export const env = createEnv({
     // Daimo Pay API Configuration (server-side)
     NEXT_DAIMO_API_KEY: z.string().min(1).optional(),
     DAIMO_API_URL: z.string().url().default("https://pay.daimo.com"),
+    // Ponder indexer GraphQL endpoint (stealth activity, privacy profiles)
+    PONDER_GRAPHQL_URL: z.string().url().optional(),
+    PONDER_API_URL: z.string().url().optional(), // defaults to PONDER_GRAPHQL_URL without /graphql
+    // Pays gas for USDC sweeps from ETH-less stealth addresses and gasless ERC-6538 registrations
+    STEALTH_RELAYER_PRIVATE_KEY: z.string().regex(/^0x[0-9a-fA-F]{64}$/).optional(),
+    // Sends 🥷 milestone rewards from /api/claims/process
+    DISTRIBUTION_WALLET_PRIVATE_KEY: z.string().regex(/^0x[0-9a-fA-F]{64}$/).optional(),
+    // x402 payments: hosted facilitator, or the key the local facilitator settles with
+    X402_FACILITATOR_URL: z.string().url().optional(),
+    X402_FACILITATOR_PRIVATE_KEY: z.string().regex(/^0x[0-9a-fA-F]{64}$/).optional(),
   },
   client: {
     NEXT_PUBLIC_URL: z.string().url().min(1).optional(),
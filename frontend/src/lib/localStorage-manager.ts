@@ -1,3 +1,6 @@
+import type { StealthScanKey } from './stealth-crypto';
+import type { StealthScanState } from './stealth-discovery';
+
 /**
  * Centralized localStorage management service
  * Prevents conflicts and provides consistent key management
@@ -42,6 +45,8 @@ export class LocalStorageManager {
     AVATAR_PREFIX: `${this.keyPrefix}avatar_`,
     BIO_PREFIX: `${this.keyPrefix}bio_`,
     STEALTH_ADDRESS_PREFIX: `${this.keyPrefix}stealth_`,
+    STEALTH_SCAN_KEY_PREFIX: `${this.keyPrefix}stealth_scan_key_`,
+    STEALTH_SCAN_STATE_PREFIX: `${this.keyPrefix}stealth_scan_state_`,
     
     // Settings & Preferences
     PROXY402_API_KEY: `${this.keyPrefix}proxy402_api_key`,
@@ -374,6 +379,38 @@ export class LocalStorageManager {
     return this.getItem<any[]>(this.KEYS.USER_CACHE, []);
   }
 
+  // Stealth payment discovery: the viewing key never leaves this device
+  setStealthScanKey(address: string, scanKey: StealthScanKey): boolean {
+    return this.setItem(
+      `${this.KEYS.STEALTH_SCAN_KEY_PREFIX}${address.toLowerCase()}`,
+      scanKey,
+      { encrypt: true, version: '1.0.0' }
+    );
+  }
+
+  getStealthScanKey(address: string): StealthScanKey | null {
+    return this.getItem<StealthScanKey>(`${this.KEYS.STEALTH_SCAN_KEY_PREFIX}${address.toLowerCase()}`);
+  }
+
+  removeStealthScanKey(address: string): boolean {
+    return this.removeItem(`${this.KEYS.STEALTH_SCAN_KEY_PREFIX}${address.toLowerCase()}`);
+  }
+
+  // Resume point and discovered addresses, per owner and network
+  setStealthScanState(address: string, network: string, state: StealthScanState): boolean {
+    return this.setItem(
+      `${this.KEYS.STEALTH_SCAN_STATE_PREFIX}${network}_${address.toLowerCase()}`,
+      state,
+      { version: '1.0.0' }
+    );
+  }
+
+  getStealthScanState(address: string, network: string): StealthScanState | null {
+    return this.getItem<StealthScanState>(
+      `${this.KEYS.STEALTH_SCAN_STATE_PREFIX}${network}_${address.toLowerCase()}`
+    );
+  }
+
   /**
    * Cleanup and maintenance operations
    */
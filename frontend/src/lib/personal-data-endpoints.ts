@@ -0,0 +1,22 @@
+import { getAddress } from 'viem';
+
+/**
+ * The message an owner signs to register a personal-data endpoint with the
+ * backend, over the resource URL exactly as sent. Must match
+ * endpointRegistrationMessage in the backend's lib/personal-data-endpoints.ts.
+ */
+export function endpointRegistrationMessage(params: {
+  owner: string;
+  resourceUrl: string;
+  price: number;
+  issuedAt: string;
+}): string {
+  return [
+    'Register a paid x402 endpoint on dStealth',
+    '',
+    `Owner: ${getAddress(params.owner)}`,
+    `Resource: ${params.resourceUrl}`,
+    `Price: ${params.price} USD`,
+    `Issued At: ${params.issuedAt}`,
+  ].join('\n');
+}
@@ -0,0 +1,388 @@
+import { formatEther } from "viem";
+import { env } from "./env";
+
+/**
+ * Read-only client for the Ponder indexer's GraphQL API (`ponder serve`) and
+ * its custom REST routes (root `src/api`).
+ *
+ * Queries mirror the tables in the root `ponder.schema.ts`; Ponder exposes
+ * each table as a plural field (`StealthAnnouncement` → `stealthAnnouncements`)
+ * taking `where`, `orderBy`, `orderDirection` and `limit`. BigInt columns come
+ * back as decimal strings.
+ */
+
+export type StealthActivityType =
+  | "announcement"
+  | "registration"
+  | "veil_deposit"
+  | "veil_withdrawal"
+  | "umbra_send"
+  | "umbra_withdraw"
+  | "umbra_key_registration";
+
+export interface StealthActivity {
+  type: StealthActivityType;
+  txHash: string;
+  blockNumber: number;
+  timestamp: number;
+  amount?: string;
+  stealthAddress?: string;
+  metadata?: string;
+  ephemeralPubKey?: string;
+  token?: string;
+  protocol?: "ERC5564" | "Umbra" | "Veil";
+  network?: string;
+}
+
+interface PrivacyProfileRow {
+  address: string;
+  announcementCount: number;
+  registrationCount: number;
+  umbraSendCount: number;
+  umbraWithdrawCount: number;
+  umbraKeyRegistrations: number;
+  fluidKeyBalance: string;
+  fluidKeyScore: string;
+  privacyScore: number;
+  lastActivity: string;
+  networks: string;
+}
+
+export interface PrivacyProfile
+  extends Omit<PrivacyProfileRow, "fluidKeyBalance" | "fluidKeyScore" | "lastActivity" | "networks"> {
+  fluidKeyBalance: string; // whole tokens
+  fluidKeyScore: number;
+  lastActivity: number; // unix seconds
+  networks: string[];
+}
+
+export class PonderNotConfiguredError extends Error {
+  constructor() {
+    super("PONDER_GRAPHQL_URL is not configured");
+    this.name = "PonderNotConfiguredError";
+  }
+}
+
+export class PonderQueryError extends Error {
+  constructor(message: string, public status?: number) {
+    super(message);
+    this.name = "PonderQueryError";
+  }
+}
+
+// Network names the indexer writes into each row's `network` column
+// (mirrors src/lib/stealth-networks.ts; the frontend deploys on its own, and
+// `yarn test:stealth-networks` in backend/ fails when the copies differ)
+export const PONDER_NETWORKS: Record<number, string> = {
+  1: "mainnet",
+  8453: "base",
+  10: "optimism",
+  42161: "arbitrum",
+  11155111: "sepolia",
+  84532: "baseSepolia",
+};
+
+// Ponder's GraphQL `limit` is capped at 1000 rows per query
+export const PONDER_MAX_PAGE_SIZE = 1000;
+
+// Umbra records native ETH with this sentinel token address
+const UMBRA_ETH_TOKEN = "0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee";
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+export function resolvePonderNetwork(chain: string): string | undefined {
+  const trimmed = chain.trim();
+  if (/^\d+$/.test(trimmed)) return PONDER_NETWORKS[Number(trimmed)];
+  return Object.values(PONDER_NETWORKS).find(
+    (network) => network.toLowerCase() === trimmed.toLowerCase(),
+  );
+}
+
+export async function queryPonder<T>(
+  query: string,
+  variables: Record<string, unknown> = {},
+): Promise<T> {
+  if (!env.PONDER_GRAPHQL_URL) throw new PonderNotConfiguredError();
+
+  const response = await fetch(env.PONDER_GRAPHQL_URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ query, variables }),
+    cache: "no-store",
+  });
+
+  if (!response.ok) {
+    throw new PonderQueryError(
+      `Ponder responded with ${response.status} ${response.statusText}`,
+      response.status,
+    );
+  }
+
+  const body = (await response.json()) as { data?: T; errors?: { message: string }[] };
+  if (body.errors?.length) {
+    throw new PonderQueryError(body.errors.map((error) => error.message).join("; "));
+  }
+  if (!body.data) throw new PonderQueryError("Ponder returned no data");
+  return body.data;
+}
+
+// Custom routes live beside the GraphQL endpoint unless PONDER_API_URL says otherwise
+function ponderApiBaseUrl(): string {
+  if (env.PONDER_API_URL) return env.PONDER_API_URL.replace(/\/$/, "");
+  if (!env.PONDER_GRAPHQL_URL) throw new PonderNotConfiguredError();
+  return env.PONDER_GRAPHQL_URL.replace(/\/graphql\/?$/, "").replace(/\/$/, "");
+}
+
+/**
+ * GET one of the indexer's REST routes (`/profiles/:address`, `/leaderboard`,
+ * `/stats/daily`, ...). Returns the response as-is so callers can pass the
+ * indexer's status codes through.
+ */
+export async function fetchPonderApi(path: string, search = ""): Promise<Response> {
+  const query = search && !search.startsWith("?") ? `?${search}` : search;
+  return fetch(`${ponderApiBaseUrl()}${path}${query}`, {
+    headers: { Accept: "application/json" },
+    cache: "no-store",
+  });
+}
+
+interface IndexedRow {
+  blockNumber: string;
+  timestamp: string;
+  transactionHash: string;
+  network: string;
+}
+
+interface AnnouncementRow extends IndexedRow {
+  stealthAddress: string;
+  ephemeralPubKey: string;
+  metadata: string;
+}
+
+interface UmbraRow extends IndexedRow {
+  type: "send" | "withdrawal";
+  receiver: string;
+  token: string;
+  amount: string;
+  ephemeralPubKey: string | null;
+  metadata: string | null;
+}
+
+type Page<T> = { items: T[] };
+
+const ROW_FIELDS = "blockNumber timestamp transactionHash network";
+
+// One query per source; each fetches the newest `limit` rows that match
+const SOURCES: {
+  types: StealthActivityType[]; // activity types the source can produce
+  field: string;
+  filterType: string;
+  fields: string;
+  where: (address: string) => Record<string, unknown>;
+  toActivity: (row: any) => StealthActivity;
+}[] = [
+  {
+    types: ["registration"],
+    field: "stealthRegistrations",
+    filterType: "StealthRegistrationFilter",
+    fields: `${ROW_FIELDS} stealthMetaAddress`,
+    where: (address) => ({ registrant: address }),
+    toActivity: (row: IndexedRow & { stealthMetaAddress: string }) => ({
+      ...baseActivity("registration", row),
+      metadata: row.stealthMetaAddress,
+      protocol: "ERC5564",
+    }),
+  },
+  {
+    types: ["announcement"],
+    field: "stealthAnnouncements",
+    filterType: "StealthAnnouncementFilter",
+    fields: `${ROW_FIELDS} stealthAddress ephemeralPubKey metadata`,
+    where: (address) => ({ caller: address }),
+    toActivity: (row: AnnouncementRow) => ({
+      ...baseActivity("announcement", row),
+      stealthAddress: row.stealthAddress,
+      ephemeralPubKey: row.ephemeralPubKey,
+      metadata: row.metadata,
+      protocol: "ERC5564",
+    }),
+  },
+  {
+    // Sends to, and withdrawals from, a stealth address the caller controls
+    types: ["umbra_send", "umbra_withdraw"],
+    field: "umbraTransactions",
+    filterType: "UmbraTransactionFilter",
+    fields: `${ROW_FIELDS} type receiver token amount ephemeralPubKey metadata`,
+    where: (address) => ({ receiver: address }),
+    toActivity: umbraActivity,
+  },
+  {
+    // Withdrawals paid out to the caller
+    types: ["umbra_withdraw"],
+    field: "umbraTransactions",
+    filterType: "UmbraTransactionFilter",
+    fields: `${ROW_FIELDS} type receiver token amount ephemeralPubKey metadata`,
+    where: (address) => ({ acceptor: address, type: "withdrawal" }),
+    toActivity: umbraActivity,
+  },
+  {
+    types: ["umbra_key_registration"],
+    field: "umbraKeyRegistrations",
+    filterType: "UmbraKeyRegistrationFilter",
+    fields: ROW_FIELDS,
+    where: (address) => ({ registrant: address }),
+    toActivity: (row: IndexedRow) => ({
+      ...baseActivity("umbra_key_registration", row),
+      protocol: "Umbra",
+    }),
+  },
+];
+
+function baseActivity(type: StealthActivityType, row: IndexedRow) {
+  return {
+    type,
+    txHash: row.transactionHash,
+    blockNumber: Number(row.blockNumber),
+    timestamp: Number(row.timestamp),
+    network: row.network,
+  };
+}
+
+function umbraActivity(row: UmbraRow): StealthActivity {
+  const isEth = [UMBRA_ETH_TOKEN, ZERO_ADDRESS].includes(row.token.toLowerCase());
+  return {
+    ...baseActivity(row.type === "send" ? "umbra_send" : "umbra_withdraw", row),
+    stealthAddress: row.receiver,
+    // The UI labels amounts as ETH, so only native transfers are converted
+    amount: isEth ? formatEther(BigInt(row.amount)) : row.amount,
+    token: isEth ? ZERO_ADDRESS : row.token,
+    ephemeralPubKey: row.ephemeralPubKey ?? undefined,
+    metadata: row.metadata ?? undefined,
+    protocol: "Umbra",
+  };
+}
+
+export interface StealthActivityQuery {
+  address: string;
+  limit: number;
+  offset?: number;
+  networks?: string[];
+  types?: StealthActivityType[];
+}
+
+export interface StealthActivityPage {
+  activities: StealthActivity[];
+  hasMore: boolean;
+}
+
+/**
+ * Newest-first stealth activity involving `address` across every indexed
+ * source. Sources are merged by block, so each is asked for `offset + limit`
+ * rows and the window is sliced after merging; offset + limit therefore
+ * has to stay below PONDER_MAX_PAGE_SIZE.
+ */
+export async function fetchStealthActivities({
+  address,
+  limit,
+  offset = 0,
+  networks,
+  types,
+}: StealthActivityQuery): Promise<StealthActivityPage> {
+  const window = offset + limit;
+  if (window >= PONDER_MAX_PAGE_SIZE) {
+    throw new RangeError(`offset + limit must be below ${PONDER_MAX_PAGE_SIZE}`);
+  }
+
+  const owner = address.toLowerCase();
+  const wanted = (type: StealthActivityType) => !types || types.includes(type);
+  const sources = SOURCES.filter((source) => source.types.some(wanted));
+  if (sources.length === 0) return { activities: [], hasMore: false };
+
+  // Ask for one extra row per source so we know whether another page exists
+  const selections = sources.map(
+    (source, index) => `s${index}: ${source.field}(
+      where: $w${index}
+      orderBy: "blockNumber"
+      orderDirection: "desc"
+      limit: ${window + 1}
+    ) { items { ${source.fields} } }`,
+  );
+  const query = `query StealthActivity(${sources
+    .map((source, index) => `$w${index}: ${source.filterType}`)
+    .join(", ")}) {\n${selections.join("\n")}\n}`;
+
+  const variables: Record<string, unknown> = {};
+  sources.forEach((source, index) => {
+    variables[`w${index}`] = {
+      ...source.where(owner),
+      ...(networks?.length ? { network_in: networks } : {}),
+    };
+  });
+
+  const data = await queryPonder<Record<string, Page<any>>>(query, variables);
+
+  // A withdrawal from an address paid out to itself matches both Umbra sources
+  const seen = new Set<string>();
+  const merged: StealthActivity[] = [];
+  let truncated = false;
+  sources.forEach((source, index) => {
+    const items = data[`s${index}`]?.items ?? [];
+    if (items.length > window) truncated = true;
+    for (const row of items.slice(0, window)) {
+      const activity = source.toActivity(row);
+      const key = `${activity.txHash}:${activity.type}:${activity.network}`;
+      if (!wanted(activity.type) || seen.has(key)) continue;
+      seen.add(key);
+      merged.push(activity);
+    }
+  });
+
+  merged.sort((a, b) => b.blockNumber - a.blockNumber || b.timestamp - a.timestamp);
+
+  return {
+    activities: merged.slice(offset, window),
+    hasMore: truncated || merged.length > window,
+  };
+}
+
+/**
+ * Whether `stealthAddress` has been the subject of an ERC-5564 announcement
+ * on `network` (one of PONDER_NETWORKS' names).
+ */
+export async function isAnnouncedStealthAddress(
+  stealthAddress: string,
+  network: string,
+): Promise<boolean> {
+  const data = await queryPonder<{ stealthAnnouncements: Page<{ id: string }> }>(
+    `query StealthAddressAnnounced($where: StealthAnnouncementFilter) {
+      stealthAnnouncements(where: $where, limit: 1) { items { id } }
+    }`,
+    { where: { stealthAddress: stealthAddress.toLowerCase(), network } },
+  );
+  return data.stealthAnnouncements.items.length > 0;
+}
+
+/**
+ * The indexer's precomputed PrivacyProfile row for `address` (counters and
+ * the 0-100 privacyScore), or null if it has no indexed activity.
+ */
+export async function fetchPrivacyProfile(address: string): Promise<PrivacyProfile | null> {
+  const data = await queryPonder<{ privacyProfile: PrivacyProfileRow | null }>(
+    `query PrivacyProfile($id: String!) {
+      privacyProfile(id: $id) {
+        address announcementCount registrationCount umbraSendCount umbraWithdrawCount
+        umbraKeyRegistrations fluidKeyBalance fluidKeyScore privacyScore lastActivity networks
+      }
+    }`,
+    { id: address.toLowerCase() },
+  );
+
+  const row = data.privacyProfile;
+  if (!row) return null;
+  return {
+    ...row,
+    fluidKeyBalance: formatEther(BigInt(row.fluidKeyBalance)),
+    fluidKeyScore: Number(row.fluidKeyScore),
+    lastActivity: Number(row.lastActivity),
+    networks: JSON.parse(row.networks) as string[],
+  };
+}
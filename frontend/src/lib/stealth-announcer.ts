@@ -0,0 +1,71 @@
+import { concat, encodeFunctionData, numberToHex, parseAbi, type Address, type Hex } from 'viem';
+import { generateStealthAddress, parseStealthMetaAddress, SCHEME_ID_SECP256K1 } from './stealth-crypto';
+
+/**
+ * Sender side of ERC-5564: a one-time stealth address for a meta-address and
+ * the `announce` call that lets the recipient find it. Mirrors
+ * backend/src/lib/stealth-announcer.ts.
+ * https://eips.ethereum.org/EIPS/eip-5564
+ */
+
+// Same address on every chain in STEALTH_CHAINS
+export const ERC5564_ANNOUNCER = '0x55649E01B5Df198D18D95b5cc5051630cfD45564' as const;
+
+export const ERC5564_ANNOUNCER_ABI = parseAbi([
+  'function announce(uint256 schemeId, address stealthAddress, bytes ephemeralPubKey, bytes metadata)',
+]);
+
+// ERC-5564 metadata markers for native-token transfers
+const NATIVE_TRANSFER_SELECTOR = '0xeeeeeeee' as const;
+const NATIVE_TOKEN_ADDRESS = '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE' as const;
+const ERC20_TRANSFER_SELECTOR = '0xa9059cbb' as const;
+
+export interface StealthPaymentTarget {
+  stealthAddress: Address;
+  ephemeralPublicKey: Hex;
+  viewTag: Hex;
+  announceCall: { to: Address; data: Hex };
+}
+
+// View tag, then the transfer's selector, token and amount
+export function buildAnnouncementMetadata(viewTag: Hex, token: Address | null, amount: bigint): Hex {
+  return concat([
+    viewTag,
+    token ? ERC20_TRANSFER_SELECTOR : NATIVE_TRANSFER_SELECTOR,
+    token ?? NATIVE_TOKEN_ADDRESS,
+    numberToHex(amount, { size: 32 }),
+  ]);
+}
+
+/**
+ * Derive a one-time stealth address for `stealthMetaAddress` and its
+ * announcement. `token` is null for native transfers.
+ */
+export function createStealthPaymentTarget(
+  stealthMetaAddress: string,
+  token: Address | null,
+  amount: bigint
+): StealthPaymentTarget {
+  const keys = parseStealthMetaAddress(stealthMetaAddress);
+  if (!keys) throw new Error('Invalid stealth meta-address');
+
+  const { stealthAddress, ephemeralPublicKey, viewTag } = generateStealthAddress(
+    keys.spendingPublicKey,
+    keys.viewingPublicKey
+  );
+  const metadata = buildAnnouncementMetadata(viewTag, token, amount);
+
+  return {
+    stealthAddress,
+    ephemeralPublicKey,
+    viewTag,
+    announceCall: {
+      to: ERC5564_ANNOUNCER,
+      data: encodeFunctionData({
+        abi: ERC5564_ANNOUNCER_ABI,
+        functionName: 'announce',
+        args: [SCHEME_ID_SECP256K1, stealthAddress, ephemeralPublicKey, metadata],
+      }),
+    },
+  };
+}
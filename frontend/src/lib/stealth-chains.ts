@@ -0,0 +1,71 @@
+import { createPublicClient, http, type Chain } from 'viem';
+import { arbitrum, base, baseSepolia, mainnet, optimism, sepolia } from 'viem/chains';
+
+/**
+ * Chains where users can receive ERC-5564 stealth payments, with the RPC and
+ * USDC contract the discovery and sweep flows use. Safe to import from API
+ * routes as well as the browser.
+ */
+
+// Start blocks match STEALTH_START_BLOCKS in ponder.config.ts
+export const STEALTH_CHAINS = {
+  mainnet: {
+    chain: mainnet,
+    rpcUrl: 'https://ethereum-rpc.publicnode.com',
+    usdc: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+    startBlock: 18884340,
+  },
+  base: {
+    chain: base,
+    rpcUrl: 'https://base-rpc.publicnode.com',
+    usdc: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+    startBlock: 8400000,
+  },
+  optimism: {
+    chain: optimism,
+    rpcUrl: 'https://optimism-rpc.publicnode.com',
+    usdc: '0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85',
+    startBlock: 113800000,
+  },
+  arbitrum: {
+    chain: arbitrum,
+    rpcUrl: 'https://arbitrum-one-rpc.publicnode.com',
+    usdc: '0xaf88d065e77c8cC2239327C5EDb3A432268e5831',
+    startBlock: 163000000,
+  },
+  sepolia: {
+    chain: sepolia,
+    rpcUrl: 'https://ethereum-sepolia-rpc.publicnode.com',
+    usdc: '0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238',
+    startBlock: 4916000,
+  },
+  baseSepolia: {
+    chain: baseSepolia,
+    rpcUrl: 'https://sepolia.base.org',
+    usdc: '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
+    startBlock: 3500000,
+  },
+} as const;
+
+export type StealthChainName = keyof typeof STEALTH_CHAINS;
+
+// Smallest USDC sweep (6 decimals) the relayer will pay gas for
+export const RELAY_MIN_USDC = BigInt(1_000_000);
+
+function createStealthChainClient(network: StealthChainName) {
+  const { chain, rpcUrl } = STEALTH_CHAINS[network];
+  return createPublicClient({ chain: chain as Chain, transport: http(rpcUrl) });
+}
+
+export type StealthChainClient = ReturnType<typeof createStealthChainClient>;
+
+const clients = new Map<StealthChainName, StealthChainClient>();
+
+export function getStealthChainClient(network: StealthChainName): StealthChainClient {
+  let client = clients.get(network);
+  if (!client) {
+    client = createStealthChainClient(network);
+    clients.set(network, client);
+  }
+  return client;
+}
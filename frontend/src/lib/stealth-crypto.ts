@@ -0,0 +1,187 @@
+import { secp256k1 } from '@noble/curves/secp256k1';
+import { bytesToHex, hexToBytes, isHex, keccak256, type Address, type Hex } from 'viem';
+import { publicKeyToAddress } from 'viem/accounts';
+
+/**
+ * ERC-5564 scheme 1 (secp256k1 with view tags), mostly recipient side.
+ * Mirrors backend/src/lib/stealth-address.ts so the browser can match
+ * announcements without sending the viewing key anywhere.
+ * https://eips.ethereum.org/EIPS/eip-5564
+ */
+export const SCHEME_ID_SECP256K1 = BigInt(1);
+
+// Signed once per wallet; the signature deterministically seeds the stealth keys
+export const STEALTH_KEYS_MESSAGE =
+  'Sign this message to generate your dStealth stealth address keys.\n\n' +
+  'Only sign this on a site you trust: anyone with this signature can find and spend your stealth payments.';
+
+// Enough to recognise payments, not to spend them
+export interface StealthScanKey {
+  viewingPrivateKey: Hex;
+  spendingPublicKey: Hex;
+}
+
+export interface StealthKeys extends StealthScanKey {
+  spendingPrivateKey: Hex;
+  viewingPublicKey: Hex;
+  stealthMetaAddress: string; // st:eth:0x<spendingPub><viewingPub>
+}
+
+export interface StealthAnnouncementData {
+  schemeId: bigint;
+  stealthAddress: string;
+  ephemeralPubKey: Hex;
+  metadata: Hex;
+}
+
+/**
+ * Derive spending and viewing keys from a wallet signature over
+ * STEALTH_KEYS_MESSAGE: keccak256 of r and s respectively, the same
+ * construction as the stealth-address SDK, so keys can be re-derived any
+ * time by signing again.
+ */
+export function deriveStealthKeys(signature: Hex): StealthKeys {
+  if (!isHex(signature) || signature.length !== 132) {
+    throw new Error('Expected a 65-byte signature');
+  }
+
+  const spendingPrivateKey = keccak256(`0x${signature.slice(2, 66)}`);
+  const viewingPrivateKey = keccak256(`0x${signature.slice(66, 130)}`);
+  const spendingPublicKey = bytesToHex(secp256k1.getPublicKey(hexToBytes(spendingPrivateKey), true));
+  const viewingPublicKey = bytesToHex(secp256k1.getPublicKey(hexToBytes(viewingPrivateKey), true));
+
+  return {
+    spendingPrivateKey,
+    spendingPublicKey,
+    viewingPrivateKey,
+    viewingPublicKey,
+    stealthMetaAddress: `st:eth:0x${spendingPublicKey.slice(2)}${viewingPublicKey.slice(2)}`,
+  };
+}
+
+// st:eth: meta-address for a stored scan key (viewing public key from its private key)
+export function getStealthMetaAddress(scanKey: StealthScanKey): string {
+  const viewingPublicKey = bytesToHex(secp256k1.getPublicKey(hexToBytes(scanKey.viewingPrivateKey), true));
+  return `st:eth:0x${scanKey.spendingPublicKey.slice(2)}${viewingPublicKey.slice(2)}`;
+}
+
+/**
+ * Split a meta-address (`st:eth:0x...` or the raw registry bytes) into its
+ * spending and viewing public keys; null unless both are valid points.
+ */
+export function parseStealthMetaAddress(
+  metaAddress: string
+): { spendingPublicKey: Hex; viewingPublicKey: Hex } | null {
+  const hex = metaAddress.trim().replace(/^st:[a-z]+:/i, '');
+  if (!isHex(hex, { strict: true })) return null;
+
+  // Two compressed (33-byte) or two uncompressed (65-byte) keys, in hex chars
+  const keyLength = (hex.length - 2) / 2;
+  if (keyLength !== 66 && keyLength !== 130) return null;
+
+  const spendingPublicKey: Hex = `0x${hex.slice(2, 2 + keyLength)}`;
+  const viewingPublicKey: Hex = `0x${hex.slice(2 + keyLength)}`;
+  try {
+    secp256k1.ProjectivePoint.fromHex(hexToBytes(spendingPublicKey));
+    secp256k1.ProjectivePoint.fromHex(hexToBytes(viewingPublicKey));
+  } catch {
+    return null;
+  }
+  return { spendingPublicKey, viewingPublicKey };
+}
+
+// The bytes stored in the ERC-6538 registry: the meta-address without its st:eth: prefix
+export function stealthMetaAddressToBytes(metaAddress: string): Hex {
+  const keys = parseStealthMetaAddress(metaAddress);
+  if (!keys) throw new Error('Invalid stealth meta-address');
+  return `0x${keys.spendingPublicKey.slice(2)}${keys.viewingPublicKey.slice(2)}`;
+}
+
+export function computeHashedSharedSecret(privateKey: Hex, publicKey: Hex): Hex {
+  const sharedSecret = secp256k1.getSharedSecret(hexToBytes(privateKey), hexToBytes(publicKey));
+  return keccak256(sharedSecret);
+}
+
+// The view tag is the most significant byte of the hashed shared secret
+export function getViewTag(hashedSharedSecret: Hex): Hex {
+  return `0x${hashedSharedSecret.slice(2, 4)}`;
+}
+
+// Announcements carry the view tag as the first byte of `metadata`
+export function extractViewTag(metadata: Hex): Hex | null {
+  if (!isHex(metadata) || metadata.length < 4) return null;
+  return `0x${metadata.slice(2, 4).toLowerCase()}`;
+}
+
+// Stealth public key = spendingPub + G * hashedSharedSecret
+export function computeStealthAddress(spendingPublicKey: Hex, hashedSharedSecret: Hex): Address {
+  const sharedPoint = secp256k1.ProjectivePoint.fromPrivateKey(hexToBytes(hashedSharedSecret));
+  const stealthPoint = secp256k1.ProjectivePoint.fromHex(hexToBytes(spendingPublicKey)).add(sharedPoint);
+  return publicKeyToAddress(bytesToHex(stealthPoint.toRawBytes(false)));
+}
+
+// Stealth private key = spendingPriv + hashedSharedSecret (mod n)
+export function computeStealthPrivateKey(spendingPrivateKey: Hex, hashedSharedSecret: Hex): Hex {
+  const key = (BigInt(spendingPrivateKey) + BigInt(hashedSharedSecret)) % secp256k1.CURVE.n;
+  return `0x${key.toString(16).padStart(64, '0')}`;
+}
+
+/**
+ * Private key controlling the stealth address announced with
+ * `ephemeralPubKey`. Needs the spending private key, so only call this with
+ * keys freshly derived from a signature, and don't keep the result around.
+ */
+export function deriveStealthPrivateKey(
+  keys: Pick<StealthKeys, 'spendingPrivateKey' | 'viewingPrivateKey'>,
+  ephemeralPubKey: Hex
+): Hex {
+  const hashedSharedSecret = computeHashedSharedSecret(keys.viewingPrivateKey, ephemeralPubKey);
+  return computeStealthPrivateKey(keys.spendingPrivateKey, hashedSharedSecret);
+}
+
+/**
+ * Sender side: a one-time stealth address for a recipient's meta-address
+ * keys, from a fresh ephemeral key.
+ */
+export function generateStealthAddress(
+  spendingPublicKey: Hex,
+  viewingPublicKey: Hex
+): { stealthAddress: Address; ephemeralPublicKey: Hex; viewTag: Hex } {
+  const ephemeralPrivateKey = bytesToHex(secp256k1.utils.randomPrivateKey());
+  const hashedSharedSecret = computeHashedSharedSecret(ephemeralPrivateKey, viewingPublicKey);
+  return {
+    stealthAddress: computeStealthAddress(spendingPublicKey, hashedSharedSecret),
+    ephemeralPublicKey: bytesToHex(secp256k1.getPublicKey(hexToBytes(ephemeralPrivateKey), true)),
+    viewTag: getViewTag(hashedSharedSecret),
+  };
+}
+
+/**
+ * Does this announcement pay to one of our stealth addresses? The view tag
+ * rejects ~255/256 of foreign announcements after a single ECDH, before the
+ * more expensive point addition.
+ */
+export function checkStealthAddress(
+  announcement: StealthAnnouncementData,
+  scanKey: StealthScanKey
+): boolean {
+  if (announcement.schemeId !== SCHEME_ID_SECP256K1) return false;
+
+  try {
+    const hashedSharedSecret = computeHashedSharedSecret(
+      scanKey.viewingPrivateKey,
+      announcement.ephemeralPubKey
+    );
+
+    const viewTag = extractViewTag(announcement.metadata);
+    if (viewTag !== null && viewTag !== getViewTag(hashedSharedSecret)) {
+      return false;
+    }
+
+    const derived = computeStealthAddress(scanKey.spendingPublicKey, hashedSharedSecret);
+    return derived.toLowerCase() === announcement.stealthAddress.toLowerCase();
+  } catch {
+    // Malformed ephemeral key - cannot be ours
+    return false;
+  }
+}
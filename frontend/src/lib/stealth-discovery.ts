@@ -0,0 +1,314 @@
+import {
+  decodeFunctionResult,
+  encodeFunctionData,
+  erc20Abi,
+  formatEther,
+  formatUnits,
+  parseAbiItem,
+  type Address,
+  type Hex,
+} from 'viem';
+import { storageManager } from './localStorage-manager';
+import { checkStealthAddress, SCHEME_ID_SECP256K1, type StealthScanKey } from './stealth-crypto';
+import {
+  getStealthChainClient,
+  STEALTH_CHAINS,
+  type StealthChainClient,
+  type StealthChainName,
+} from './stealth-chains';
+
+/**
+ * Browser-side stealth payment discovery.
+ *
+ * Announcements are public, so they are fetched in batches from the Ponder
+ * indexer (via /api/ponder/announcements) or, when it's unavailable, straight
+ * from the ERC-5564 announcer over RPC. Each one is matched locally against
+ * the user's viewing key; only the resume point and the matched addresses
+ * are persisted, through LocalStorageManager.
+ */
+
+const ERC5564_ANNOUNCER = '0x55649E01B5Df198D18D95b5cc5051630cfD45564' as const;
+
+const ANNOUNCEMENT_EVENT = parseAbiItem(
+  'event Announcement(uint256 indexed schemeId, address indexed stealthAddress, address indexed caller, bytes ephemeralPubKey, bytes metadata)'
+);
+
+
+const INDEXER_PAGE_SIZE = 1000;
+const RPC_BATCH_BLOCKS = 5000;
+
+export interface DiscoveredStealthPayment {
+  stealthAddress: Address;
+  network: StealthChainName;
+  txHash: Hex;
+  blockNumber: number;
+  ephemeralPubKey: Hex;
+  ethBalance: string; // wei
+  usdcBalance: string; // USDC base units (6 decimals)
+  discoveredAt: number;
+}
+
+export interface StealthScanState {
+  nextBlock: number; // first block not yet scanned
+  headBlock: number; // chain head when the last scan started
+  scannedAnnouncements: number;
+  payments: DiscoveredStealthPayment[];
+  source: 'indexer' | 'rpc';
+  updatedAt: number;
+}
+
+export interface StealthScanProgress {
+  network: StealthChainName;
+  source: 'indexer' | 'rpc';
+  fromBlock: number;
+  nextBlock: number;
+  headBlock: number;
+  scannedAnnouncements: number;
+  matches: number;
+}
+
+export interface DiscoveryOptions {
+  owner: string;
+  network: StealthChainName;
+  scanKey: StealthScanKey;
+  onProgress?: (progress: StealthScanProgress) => void;
+  signal?: AbortSignal;
+}
+
+export interface DiscoveryResult {
+  payments: DiscoveredStealthPayment[];
+  newPayments: DiscoveredStealthPayment[];
+  state: StealthScanState;
+}
+
+interface AnnouncementRow {
+  schemeId: bigint;
+  stealthAddress: Address;
+  ephemeralPubKey: Hex;
+  metadata: Hex;
+  blockNumber: number;
+  transactionHash: Hex;
+}
+
+type BatchHandler = (announcements: AnnouncementRow[], nextBlock: number, source: StealthScanState['source']) => void;
+
+export function getStealthScanState(owner: string, network: StealthChainName): StealthScanState | null {
+  return storageManager.getStealthScanState(owner, network);
+}
+
+/**
+ * Scan announcements from the saved resume point up to the chain head,
+ * record any that pay to the scan key's stealth addresses, then refresh
+ * ETH/USDC balances for everything discovered so far. Progress is saved
+ * after every batch, so an interrupted scan picks up where it stopped.
+ */
+export async function discoverStealthPayments({
+  owner,
+  network,
+  scanKey,
+  onProgress,
+  signal,
+}: DiscoveryOptions): Promise<DiscoveryResult> {
+  const config = STEALTH_CHAINS[network];
+  const client = getStealthChainClient(network);
+  const state: StealthScanState = getStealthScanState(owner, network) ?? {
+    nextBlock: config.startBlock,
+    headBlock: 0,
+    scannedAnnouncements: 0,
+    payments: [],
+    source: 'indexer',
+    updatedAt: 0,
+  };
+  const fromBlock = state.nextBlock;
+  state.headBlock = Number(await client.getBlockNumber());
+
+  const known = new Set(state.payments.map((payment) => payment.stealthAddress.toLowerCase()));
+  const newPayments: DiscoveredStealthPayment[] = [];
+
+  const onBatch: BatchHandler = (announcements, nextBlock, source) => {
+    for (const announcement of announcements) {
+      const address = announcement.stealthAddress.toLowerCase();
+      if (known.has(address) || !checkStealthAddress(announcement, scanKey)) continue;
+
+      known.add(address);
+      const payment: DiscoveredStealthPayment = {
+        stealthAddress: announcement.stealthAddress,
+        network,
+        txHash: announcement.transactionHash,
+        blockNumber: announcement.blockNumber,
+        ephemeralPubKey: announcement.ephemeralPubKey,
+        ethBalance: '0',
+        usdcBalance: '0',
+        discoveredAt: Date.now(),
+      };
+      state.payments.push(payment);
+      newPayments.push(payment);
+    }
+
+    state.scannedAnnouncements += announcements.length;
+    state.nextBlock = Math.max(state.nextBlock, nextBlock);
+    state.source = source;
+    state.updatedAt = Date.now();
+    storageManager.setStealthScanState(owner, network, state);
+
+    onProgress?.({
+      network,
+      source,
+      fromBlock,
+      nextBlock: state.nextBlock,
+      headBlock: state.headBlock,
+      scannedAnnouncements: state.scannedAnnouncements,
+      matches: state.payments.length,
+    });
+  };
+
+  try {
+    await scanFromIndexer(network, state.nextBlock, onBatch, signal);
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.warn(`⚠️ Indexer unavailable for ${network}, scanning announcements over RPC:`, error);
+    await scanFromRpc(client, state.nextBlock, state.headBlock, onBatch, signal);
+  }
+
+  await refreshBalances(client, config.usdc, state.payments);
+  state.updatedAt = Date.now();
+  storageManager.setStealthScanState(owner, network, state);
+
+  return { payments: state.payments, newPayments, state };
+}
+
+async function scanFromIndexer(
+  network: StealthChainName,
+  fromBlock: number,
+  onBatch: BatchHandler,
+  signal?: AbortSignal
+): Promise<void> {
+  let from = fromBlock;
+
+  for (;;) {
+    const params = new URLSearchParams({
+      network,
+      fromBlock: String(from),
+      limit: String(INDEXER_PAGE_SIZE),
+    });
+    const response = await fetch(`/api/ponder/announcements?${params}`, { signal });
+    if (!response.ok) {
+      throw new Error(`Indexer returned ${response.status}`);
+    }
+
+    const data: {
+      announcements: Array<Omit<AnnouncementRow, 'schemeId' | 'blockNumber'> & { schemeId: string; blockNumber: string }>;
+      hasMore: boolean;
+      nextFromBlock: string | null;
+    } = await response.json();
+
+    const next = data.nextFromBlock === null ? from : Number(data.nextFromBlock);
+    onBatch(
+      data.announcements.map((row) => ({
+        ...row,
+        schemeId: BigInt(row.schemeId),
+        blockNumber: Number(row.blockNumber),
+      })),
+      next,
+      'indexer'
+    );
+
+    if (!data.hasMore) return;
+    from = next;
+  }
+}
+
+async function scanFromRpc(
+  client: StealthChainClient,
+  fromBlock: number,
+  headBlock: number,
+  onBatch: BatchHandler,
+  signal?: AbortSignal
+): Promise<void> {
+  for (let from = fromBlock; from <= headBlock; from += RPC_BATCH_BLOCKS) {
+    signal?.throwIfAborted();
+    const to = Math.min(from + RPC_BATCH_BLOCKS - 1, headBlock);
+
+    const logs = await client.getLogs({
+      address: ERC5564_ANNOUNCER,
+      event: ANNOUNCEMENT_EVENT,
+      args: { schemeId: SCHEME_ID_SECP256K1 },
+      fromBlock: BigInt(from),
+      toBlock: BigInt(to),
+    });
+
+    onBatch(
+      logs.map((log) => ({
+        schemeId: log.args.schemeId!,
+        stealthAddress: log.args.stealthAddress!,
+        ephemeralPubKey: log.args.ephemeralPubKey!,
+        metadata: log.args.metadata!,
+        blockNumber: Number(log.blockNumber),
+        transactionHash: log.transactionHash!,
+      })),
+      to + 1,
+      'rpc'
+    );
+  }
+}
+
+async function refreshBalances(
+  client: StealthChainClient,
+  usdc: Address,
+  payments: DiscoveredStealthPayment[]
+): Promise<void> {
+  for (const payment of payments) {
+    try {
+      const [ethBalance, usdcCall] = await Promise.all([
+        client.getBalance({ address: payment.stealthAddress }),
+        client.call({
+          to: usdc,
+          data: encodeFunctionData({
+            abi: erc20Abi,
+            functionName: 'balanceOf',
+            args: [payment.stealthAddress],
+          }),
+        }),
+      ]);
+      payment.ethBalance = ethBalance.toString();
+      payment.usdcBalance = usdcCall.data
+        ? decodeFunctionResult({ abi: erc20Abi, functionName: 'balanceOf', data: usdcCall.data }).toString()
+        : '0';
+    } catch (error) {
+      // Keep the last known balances; the next scan retries
+      console.warn(`Failed to refresh balances for ${payment.stealthAddress}:`, error);
+    }
+  }
+}
+
+/**
+ * Re-read balances for everything already discovered on a network, e.g.
+ * after a sweep, without scanning for new announcements.
+ */
+export async function refreshDiscoveredBalances(
+  owner: string,
+  network: StealthChainName
+): Promise<DiscoveredStealthPayment[]> {
+  const state = getStealthScanState(owner, network);
+  if (!state) return [];
+
+  await refreshBalances(getStealthChainClient(network), STEALTH_CHAINS[network].usdc, state.payments);
+  state.updatedAt = Date.now();
+  storageManager.setStealthScanState(owner, network, state);
+  return state.payments;
+}
+
+export function formatDiscoveredBalances(payment: DiscoveredStealthPayment): { eth: string; usdc: string } {
+  return {
+    eth: formatEther(BigInt(payment.ethBalance)),
+    usdc: formatUnits(BigInt(payment.usdcBalance), 6),
+  };
+}
+
+export function hasDiscoveredBalance(payment: DiscoveredStealthPayment): boolean {
+  return BigInt(payment.ethBalance) > BigInt(0) || BigInt(payment.usdcBalance) > BigInt(0);
+}
+
+export function getDiscoveryTxUrl(payment: DiscoveredStealthPayment): string {
+  return `${STEALTH_CHAINS[payment.network].chain.blockExplorers.default.url}/tx/${payment.txHash}`;
+}
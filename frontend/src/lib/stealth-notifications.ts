@@ -1,5 +1,14 @@
 import { NotificationClient } from './notification-client';
 import { database } from './database';
+import { storageManager } from './localStorage-manager';
+import type { StealthScanKey } from './stealth-crypto';
+import {
+  discoverStealthPayments,
+  formatDiscoveredBalances,
+  hasDiscoveredBalance,
+  type DiscoveredStealthPayment,
+} from './stealth-discovery';
+import type { StealthChainName } from './stealth-chains';
 
 // Stealth Address Notification Types
 export interface StealthNotification {
@@ -27,6 +36,7 @@ export class StealthNotificationManager {
   private notificationClient: NotificationClient;
   private scanInterval: NodeJS.Timeout | null = null;
   private isScanning = false;
+  private network: StealthChainName = 'base';
 
   constructor() {
     this.notificationClient = NotificationClient.getInstance();
@@ -35,20 +45,22 @@ export class StealthNotificationManager {
   /**
    * Start monitoring stealth addresses for a user
    */
-  async startStealthMonitoring(userId: string, stealthMetaAddress: {
-    scanKey: string;
-    spendKey: string;
-  }): Promise<void> {
+  async startStealthMonitoring(
+    userId: string,
+    scanKey: StealthScanKey,
+    network: StealthChainName = 'base'
+  ): Promise<void> {
     console.log('🥷 Starting stealth monitoring for user:', userId);
 
-    // Store user's stealth keys (encrypted in production)
-    await this.storeUserStealthKeys(userId, stealthMetaAddress);
+    // Viewing key stays in this browser's storage
+    await this.storeUserStealthKeys(userId, scanKey);
+    this.network = network;
 
     // Start periodic scanning
     this.startPeriodicScanning(userId);
 
     // Watch for new announcements in real-time
-    this.watchAnnouncementsForUser(userId, stealthMetaAddress.scanKey);
+    this.watchAnnouncementsForUser(userId);
   }
 
   /**
@@ -68,35 +80,37 @@ export class StealthNotificationManager {
   /**
    * Scan stealth registry for new registrations and payments
    */
-  async performStealthScan(userId: string): Promise<void> {
-    if (this.isScanning) return;
+  async performStealthScan(
+    userId: string,
+    network: StealthChainName = this.network
+  ): Promise<DiscoveredStealthPayment[]> {
+    if (this.isScanning) return [];
     
     this.isScanning = true;
     
     try {
       console.log('🔍 Scanning stealth registries and announcements...');
       
-      const userKeys = await this.getUserStealthKeys(userId);
-      if (!userKeys) {
+      const scanKey = await this.getUserStealthKeys(userId);
+      if (!scanKey) {
         console.warn('No stealth keys found for user:', userId);
-        return;
+        return [];
       }
 
       // 1. Scan ERC6538Registry for new stealth address registrations
       await this.scanStealthRegistrations(userId);
 
-      // 2. Scan ERC5564Announcer for payment announcements
-      await this.scanPaymentAnnouncements(userId, userKeys.scanKey);
-
-      // 3. Check for payments to user's stealth addresses
-      await this.scanStealthPayments(userId, userKeys);
+      // 2. Match ERC5564Announcer announcements against the viewing key
+      const payments = await this.scanStealthPayments(userId, scanKey, network);
 
       // Send scan completion notification
       await this.sendScanCompleteNotification(userId);
+      return payments;
 
     } catch (error) {
       console.error('❌ Stealth scan error:', error);
       await this.sendScanErrorNotification(userId, error);
+      return [];
     } finally {
       this.isScanning = false;
     }
@@ -176,38 +190,25 @@ export class StealthNotificationManager {
     }
   }
 
-  private async scanPaymentAnnouncements(userId: string, scanKey: string): Promise<void> {
+  private async scanStealthPayments(
+    userId: string,
+    scanKey: StealthScanKey,
+    network: StealthChainName
+  ): Promise<DiscoveredStealthPayment[]> {
     try {
-      // Query ERC5564Announcer contract for announcements
-      const announcements = await this.queryAnnouncementContract(scanKey);
-      
-      for (const announcement of announcements) {
-        if (await this.isNewAnnouncement(announcement.txHash)) {
-          await this.sendPaymentAnnouncementNotification(userId, announcement);
-          await this.storePaymentAnnouncement(announcement);
-        }
-      }
-    } catch (error) {
-      console.error('Announcement scan error:', error);
-    }
-  }
+      const stealthPayments = await this.detectStealthPayments(userId, scanKey, network);
 
-  private async scanStealthPayments(userId: string, userKeys: { scanKey: string; spendKey: string }): Promise<void> {
-    try {
-      // Check for payments to user's stealth addresses
-      const stealthPayments = await this.detectStealthPayments(userKeys.scanKey);
-      
       for (const payment of stealthPayments) {
-        if (await this.isNewPayment(payment.txHash)) {
-          await this.sendStealthPaymentReceivedNotification(userId, payment);
-          await this.storeReceivedPayment(payment);
-          
-          // Update user's earnings stats
-          await this.updateEarningsFromStealthPayment(userId, payment);
-        }
+        await this.sendStealthPaymentReceivedNotification(userId, payment);
+        await this.updatePrivacyStats(userId, 'stealth_payment_received');
+
+        // Update user's earnings stats
+        await this.updateEarningsFromStealthPayment(userId, payment);
       }
+      return stealthPayments;
     } catch (error) {
       console.error('Payment scan error:', error);
+      return [];
     }
   }
 
@@ -228,35 +229,26 @@ export class StealthNotificationManager {
     });
   }
 
-  private async sendPaymentAnnouncementNotification(userId: string, announcement: any): Promise<void> {
-    await this.notificationClient.sendNotification({
-      type: 'stealth',
-      title: '📢 Stealth Payment Announced',
-      body: `New stealth payment detected: ${announcement.amount} ${announcement.currency}`,
-      targetUrl: `${process.env.NEXT_PUBLIC_URL}/stealth/announcements`,
-      userId,
-      data: {
-        stealthAddress: announcement.stealthAddress,
-        amount: announcement.amount,
-        currency: announcement.currency,
-        txHash: announcement.txHash,
-        ephemeralPublicKey: announcement.ephemeralPublicKey
-      }
-    });
-  }
-
-  private async sendStealthPaymentReceivedNotification(userId: string, payment: any): Promise<void> {
+  private async sendStealthPaymentReceivedNotification(
+    userId: string,
+    payment: DiscoveredStealthPayment
+  ): Promise<void> {
+    const { amount, currency } = this.describePayment(payment);
     await this.notificationClient.sendNotification({
       type: 'stealth',
       title: '💰 Stealth Payment Received!',
-      body: `You received ${payment.amount} ${payment.currency} via stealth address`,
+      body: hasDiscoveredBalance(payment)
+        ? `You received ${amount} ${currency} via stealth address`
+        : `A stealth payment to ${payment.stealthAddress.slice(0, 10)}... was announced for you`,
       targetUrl: `${process.env.NEXT_PUBLIC_URL}/stealth/payments`,
       userId,
       data: {
         stealthAddress: payment.stealthAddress,
-        amount: payment.amount,
-        currency: payment.currency,
+        amount,
+        currency,
         txHash: payment.txHash,
+        blockNumber: payment.blockNumber,
+        network: payment.network,
         isStealthPayment: true
       }
     });
@@ -308,53 +300,33 @@ export class StealthNotificationManager {
     ];
   }
 
-  private async queryAnnouncementContract(scanKey: string): Promise<any[]> {
-    // In production:
-    // return await getAnnouncementsForUser({ scanKey, announcerAddress: ERC5564_ANNOUNCER_ADDRESS })
-    
-    // Mock data
-    return [
-      {
-        stealthAddress: '0xstealth...',
-        amount: '25.00',
-        currency: 'USDC',
-        txHash: '0xtxhash...',
-        ephemeralPublicKey: '0xephemeral...',
-        metadata: '0xmetadata...'
-      }
-    ];
+  // New announcements since the last scan that pay to this user's stealth addresses
+  private async detectStealthPayments(
+    userId: string,
+    scanKey: StealthScanKey,
+    network: StealthChainName
+  ): Promise<DiscoveredStealthPayment[]> {
+    const { newPayments } = await discoverStealthPayments({ owner: userId, network, scanKey });
+    return newPayments;
   }
 
-  private async detectStealthPayments(scanKey: string): Promise<any[]> {
-    // In production:
-    // return await watchAnnouncementsForUser({ scanKey, callback: this.handleNewPayment })
-    
-    // Mock data
-    return [
-      {
-        stealthAddress: '0xstealth...',
-        amount: '50.00',
-        currency: 'USDC',
-        txHash: '0xpayment...',
-        blockNumber: 12345679
-      }
-    ];
+  // Headline amount for a notification: USDC if the address holds any, else ETH
+  private describePayment(payment: DiscoveredStealthPayment): { amount: string; currency: string } {
+    const balances = formatDiscoveredBalances(payment);
+    return BigInt(payment.usdcBalance) > BigInt(0)
+      ? { amount: balances.usdc, currency: 'USDC' }
+      : { amount: balances.eth, currency: 'ETH' };
   }
 
   // Data persistence methods
 
-  private async storeUserStealthKeys(userId: string, keys: { scanKey: string; spendKey: string }): Promise<void> {
-    // In production, encrypt these keys before storing
-    console.log('📝 Storing stealth keys for user:', userId);
-    // TODO: Implement secure storage of stealth keys
+  private async storeUserStealthKeys(userId: string, scanKey: StealthScanKey): Promise<void> {
+    console.log('📝 Storing stealth scan key for user:', userId);
+    storageManager.setStealthScanKey(userId, scanKey);
   }
 
-  private async getUserStealthKeys(userId: string): Promise<{ scanKey: string; spendKey: string } | null> {
-    // In production, decrypt keys from secure storage
-    return {
-      scanKey: 'mock_scan_key',
-      spendKey: 'mock_spend_key'
-    };
+  private async getUserStealthKeys(userId: string): Promise<StealthScanKey | null> {
+    return storageManager.getStealthScanKey(userId);
   }
 
   private async storeStealthAnnouncement(announcement: any): Promise<string> {
@@ -380,9 +352,9 @@ export class StealthNotificationManager {
     }
   }
 
-  private async updateEarningsFromStealthPayment(userId: string, payment: any): Promise<void> {
+  private async updateEarningsFromStealthPayment(userId: string, payment: DiscoveredStealthPayment): Promise<void> {
     // Update user's earnings stats with stealth payment
-    console.log('💰 Recording stealth payment earnings:', payment.amount);
+    console.log('💰 Recording stealth payment earnings:', this.describePayment(payment));
     // TODO: Implement earnings tracking for stealth payments
   }
 
@@ -394,16 +366,6 @@ export class StealthNotificationManager {
     return true; // For now, treat all as new
   }
 
-  private async isNewAnnouncement(txHash: string): Promise<boolean> {
-    // TODO: Implement announcement tracking  
-    return true; // For now, treat all as new
-  }
-
-  private async isNewPayment(txHash: string): Promise<boolean> {
-    // TODO: Implement payment tracking
-    return true; // For now, treat all as new
-  }
-
   private startPeriodicScanning(userId: string): void {
     // Scan every 5 minutes
     this.scanInterval = setInterval(() => {
@@ -411,7 +373,7 @@ export class StealthNotificationManager {
     }, 5 * 60 * 1000);
   }
 
-  private watchAnnouncementsForUser(userId: string, scanKey: string): void {
+  private watchAnnouncementsForUser(userId: string): void {
     // In production, this would set up real-time event listeners
     // For now, we'll just log that monitoring is active
     console.log('👁️ Watching stealth announcements for user:', userId);
@@ -422,16 +384,6 @@ export class StealthNotificationManager {
     // In production, store registration in database
     console.log('📝 Stored stealth registration:', registration.stealthMetaAddress);
   }
-
-  private async storePaymentAnnouncement(announcement: any): Promise<void> {
-    // In production, store announcement in database
-    console.log('📝 Stored payment announcement:', announcement.txHash);
-  }
-
-  private async storeReceivedPayment(payment: any): Promise<void> {
-    // In production, store received payment in database
-    console.log('📝 Stored received payment:', payment.txHash);
-  }
 }
 
 // Singleton instance
@@ -0,0 +1,125 @@
+import {
+  decodeFunctionResult,
+  encodeFunctionData,
+  parseAbi,
+  type Address,
+  type Hex,
+} from 'viem';
+import { parseStealthMetaAddress, SCHEME_ID_SECP256K1, stealthMetaAddressToBytes } from './stealth-crypto';
+import { getStealthChainClient, STEALTH_CHAINS, type StealthChainName } from './stealth-chains';
+
+/**
+ * ERC-6538 stealth meta-address registry: look up what an address has
+ * registered and build registrations, either sent by the registrant or
+ * signed as EIP-712 and submitted by the relayer (registerKeysOnBehalf).
+ * https://eips.ethereum.org/EIPS/eip-6538
+ */
+
+// Same address on every chain in STEALTH_CHAINS
+export const ERC6538_REGISTRY = '0x6538E6bf4B0eBd30A8Ea093027Ac2422ce5d6538' as const;
+
+export const ERC6538_REGISTRY_ABI = parseAbi([
+  'function stealthMetaAddressOf(address registrant, uint256 schemeId) view returns (bytes)',
+  'function nonceOf(address registrant) view returns (uint256)',
+  'function registerKeys(uint256 schemeId, bytes stealthMetaAddress)',
+  'function registerKeysOnBehalf(address registrant, uint256 schemeId, bytes signature, bytes stealthMetaAddress)',
+]);
+
+export const ERC6538_ENTRY_TYPES = {
+  Erc6538RegistryEntry: [
+    { name: 'schemeId', type: 'uint256' },
+    { name: 'stealthMetaAddress', type: 'bytes' },
+    { name: 'nonce', type: 'uint256' },
+  ],
+} as const;
+
+/**
+ * The `st:eth:` meta-address `registrant` has registered on `network`, or
+ * null when there's none.
+ */
+export async function getRegisteredMetaAddress(
+  network: StealthChainName,
+  registrant: Address
+): Promise<string | null> {
+  const { data } = await getStealthChainClient(network).call({
+    to: ERC6538_REGISTRY,
+    data: encodeFunctionData({
+      abi: ERC6538_REGISTRY_ABI,
+      functionName: 'stealthMetaAddressOf',
+      args: [registrant, SCHEME_ID_SECP256K1],
+    }),
+  });
+  const raw = data
+    ? decodeFunctionResult({ abi: ERC6538_REGISTRY_ABI, functionName: 'stealthMetaAddressOf', data })
+    : '0x';
+  const keys = raw !== '0x' ? parseStealthMetaAddress(raw) : null;
+  return keys ? `st:eth:0x${keys.spendingPublicKey.slice(2)}${keys.viewingPublicKey.slice(2)}` : null;
+}
+
+// Calldata for the registrant registering directly (they pay gas)
+export function encodeRegisterKeys(stealthMetaAddress: string): { to: Address; data: Hex } {
+  return {
+    to: ERC6538_REGISTRY,
+    data: encodeFunctionData({
+      abi: ERC6538_REGISTRY_ABI,
+      functionName: 'registerKeys',
+      args: [SCHEME_ID_SECP256K1, stealthMetaAddressToBytes(stealthMetaAddress)],
+    }),
+  };
+}
+
+/**
+ * EIP-712 payload the registrant signs to let anyone submit their
+ * registration. Reads the registrant's current registry nonce, so each
+ * signature can only be used once.
+ */
+export async function getRegisterOnBehalfTypedData(
+  network: StealthChainName,
+  registrant: Address,
+  stealthMetaAddress: string
+) {
+  const { data } = await getStealthChainClient(network).call({
+    to: ERC6538_REGISTRY,
+    data: encodeFunctionData({ abi: ERC6538_REGISTRY_ABI, functionName: 'nonceOf', args: [registrant] }),
+  });
+  const nonce = data
+    ? decodeFunctionResult({ abi: ERC6538_REGISTRY_ABI, functionName: 'nonceOf', data })
+    : BigInt(0);
+  return {
+    domain: {
+      name: 'ERC6538Registry',
+      version: '1.0',
+      chainId: STEALTH_CHAINS[network].chain.id,
+      verifyingContract: ERC6538_REGISTRY,
+    },
+    types: ERC6538_ENTRY_TYPES,
+    primaryType: 'Erc6538RegistryEntry' as const,
+    message: {
+      schemeId: SCHEME_ID_SECP256K1,
+      stealthMetaAddress: stealthMetaAddressToBytes(stealthMetaAddress),
+      nonce,
+    },
+  };
+}
+
+// Hand a signed registration to /api/stealth/register; returns the relayer's tx hash
+export async function submitRegistrationOnBehalf(params: {
+  network: StealthChainName;
+  registrant: Address;
+  stealthMetaAddress: string;
+  signature: Hex;
+}): Promise<Hex> {
+  // Sponsoring requires a SIWE / Farcaster session for the registrant
+  const response = await fetch('/api/stealth/register', {
+    method: 'POST',
+    credentials: 'include',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(params),
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || `Registration relay returned ${response.status}`);
+  }
+  return data.txHash as Hex;
+}
@@ -0,0 +1,87 @@
+import { Redis } from '@upstash/redis';
+import type { NextRequest } from 'next/server';
+import type { Address, Hex } from 'viem';
+import { privateKeyToAccount, type PrivateKeyAccount } from 'viem/accounts';
+import { env } from './env';
+import { getStealthChainClient, type StealthChainName } from './stealth-chains';
+import { sendFromWallet } from './wallet-sender';
+
+/**
+ * Server-side sponsor for stealth flows that users can't pay gas for
+ * themselves (USDC sweeps from ETH-less stealth addresses, gasless ERC-6538
+ * registration). Only import from API routes: it holds a private key.
+ */
+
+const redis =
+  process.env.UPSTASH_REDIS_REST_URL && process.env.UPSTASH_REDIS_REST_TOKEN
+    ? new Redis({
+        url: process.env.UPSTASH_REDIS_REST_URL,
+        token: process.env.UPSTASH_REDIS_REST_TOKEN,
+      })
+    : null;
+
+// Per-instance counters when Redis isn't configured
+const localQuota = new Map<string, { count: number; resetAt: number }>();
+
+export function getStealthRelayer(): PrivateKeyAccount | null {
+  return env.STEALTH_RELAYER_PRIVATE_KEY
+    ? privateKeyToAccount(env.STEALTH_RELAYER_PRIVATE_KEY as Hex)
+    : null;
+}
+
+/**
+ * Simulate, sign and broadcast a call from the relayer. Gas estimation runs
+ * the call first, so a bad signature or spent nonce fails here without
+ * costing anything. Sends go through the relayer's send lock, so concurrent
+ * sweeps and registrations each get their own nonce.
+ */
+export async function sendRelayerTransaction(
+  relayer: PrivateKeyAccount,
+  network: StealthChainName,
+  tx: { to: Address; data: Hex }
+): Promise<Hex> {
+  const sent = await sendFromWallet({
+    client: getStealthChainClient(network),
+    account: relayer,
+    tx,
+  });
+  if (sent.broadcastError) throw sent.broadcastError;
+  return sent.transactionHash;
+}
+
+/**
+ * Fixed-window limit on sponsored calls for `key` (a client IP, a sender
+ * address). Every call counts, so false means the caller is over `limit`
+ * for the rest of the window.
+ */
+export async function takeRelayQuota(
+  key: string,
+  limit: number,
+  windowSeconds: number
+): Promise<boolean> {
+  const quotaKey = `stealth-relay:quota:${key.toLowerCase()}`;
+
+  if (redis) {
+    const count = await redis.incr(quotaKey);
+    if (count === 1) await redis.expire(quotaKey, windowSeconds);
+    return count <= limit;
+  }
+
+  const now = Date.now();
+  const entry = localQuota.get(quotaKey);
+  if (!entry || entry.resetAt <= now) {
+    localQuota.set(quotaKey, { count: 1, resetAt: now + windowSeconds * 1000 });
+    return limit >= 1;
+  }
+  entry.count++;
+  return entry.count <= limit;
+}
+
+// Best-effort client IP behind Vercel / a reverse proxy
+export function getClientIp(request: NextRequest): string {
+  return (
+    request.headers.get('x-forwarded-for')?.split(',')[0]?.trim() ||
+    request.headers.get('x-real-ip') ||
+    'unknown'
+  );
+}
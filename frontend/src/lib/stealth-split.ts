@@ -0,0 +1,175 @@
+import { encodeFunctionData, erc20Abi, getAddress, isAddress, parseUnits, type Address, type Hex } from 'viem';
+import { createStealthPaymentTarget, type StealthPaymentTarget } from './stealth-announcer';
+import { STEALTH_CHAINS, type StealthChainName } from './stealth-chains';
+import { getRegisteredMetaAddress } from './stealth-registry';
+import { saveZKReceipt, type ZKReceipt } from './zk-receipt-storage';
+
+/**
+ * Split payments: pay several recipients USDC in one EIP-5792 wallet_sendCalls
+ * batch. Each recipient can be an fkey.id, a `st:eth:` meta-address or a
+ * wallet address; meta-addresses (given directly or found in the ERC-6538
+ * registry) get a one-time stealth address and an announcement in the batch.
+ */
+
+export const MAX_SPLIT_RECIPIENTS = 10;
+
+export interface SplitRecipientInput {
+  recipient: string;
+  amount: string;
+}
+
+export interface ResolvedSplitRecipient {
+  label: string; // what the user typed, e.g. alice.fkey.id
+  address: Address; // where the USDC goes
+  fkeyAddress: Address | null; // what the fkey.id resolved to, for fkey.id recipients
+  amount: string;
+  amountUnits: bigint;
+  target: StealthPaymentTarget | null; // set when paying a one-time stealth address
+}
+
+// One call in the wallet_sendCalls batch, as wagmi's sendCalls takes it
+export interface SplitCall {
+  to: Address;
+  data: Hex;
+  value?: bigint;
+}
+
+async function lookupFkeyAddress(username: string): Promise<Address> {
+  const response = await fetch(`/api/fkey/lookup/${encodeURIComponent(username)}`);
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok || !data.address || !isAddress(data.address)) {
+    throw new Error(`Could not resolve ${username}.fkey.id${data.error ? `: ${data.error}` : ''}`);
+  }
+  return getAddress(data.address);
+}
+
+async function resolveRecipient(
+  network: StealthChainName,
+  { recipient, amount }: SplitRecipientInput
+): Promise<ResolvedSplitRecipient> {
+  const input = recipient.trim();
+  const usdc = STEALTH_CHAINS[network].usdc;
+
+  const amountUnits = parseUnits(amount.trim(), 6);
+  if (amountUnits <= BigInt(0)) {
+    throw new Error(`Amount for ${input} must be greater than 0`);
+  }
+
+  const toTarget = (label: string, metaAddress: string): ResolvedSplitRecipient => {
+    const target = createStealthPaymentTarget(metaAddress, usdc, amountUnits);
+    return { label, address: target.stealthAddress, fkeyAddress: null, amount, amountUnits, target };
+  };
+
+  if (input.toLowerCase().startsWith('st:')) {
+    return toTarget(`${input.slice(0, 14)}...${input.slice(-6)}`, input);
+  }
+
+  if (isAddress(input)) {
+    // Wallets with registered keys are paid at a one-time address instead
+    const registered = await getRegisteredMetaAddress(network, input).catch(() => null);
+    const label = `${input.slice(0, 6)}...${input.slice(-4)}`;
+    return registered
+      ? toTarget(label, registered)
+      : { label, address: getAddress(input), fkeyAddress: null, amount, amountUnits, target: null };
+  }
+
+  const username = input.replace(/^@/, '').replace(/\.fkey\.id$/i, '').toLowerCase();
+  if (!/^[a-z0-9_-]+$/.test(username)) {
+    throw new Error(`"${input}" is not an fkey.id, meta-address or wallet address`);
+  }
+  const fkeyAddress = await lookupFkeyAddress(username);
+  return {
+    label: `${username}.fkey.id`,
+    address: fkeyAddress,
+    fkeyAddress,
+    amount,
+    amountUnits,
+    target: null,
+  };
+}
+
+/**
+ * Resolve every recipient before anything is sent, so one bad entry fails
+ * the whole split rather than part of it.
+ */
+export async function resolveSplitRecipients(
+  network: StealthChainName,
+  inputs: SplitRecipientInput[]
+): Promise<ResolvedSplitRecipient[]> {
+  if (inputs.length === 0) throw new Error('Add at least one recipient');
+  if (inputs.length > MAX_SPLIT_RECIPIENTS) {
+    throw new Error(`Split payments are limited to ${MAX_SPLIT_RECIPIENTS} recipients`);
+  }
+  const labels = inputs.map(({ recipient }) => recipient.trim().toLowerCase());
+  if (new Set(labels).size !== labels.length) {
+    throw new Error('Each recipient can only be listed once');
+  }
+
+  return Promise.all(inputs.map((input) => resolveRecipient(network, input)));
+}
+
+// USDC transfer per recipient, each followed by its announcement when it has one
+export function buildSplitCalls(network: StealthChainName, recipients: ResolvedSplitRecipient[]): SplitCall[] {
+  const usdc = STEALTH_CHAINS[network].usdc;
+  return recipients.flatMap(({ address, amountUnits, target }) => [
+    {
+      to: usdc,
+      data: encodeFunctionData({ abi: erc20Abi, functionName: 'transfer', args: [address, amountUnits] }),
+    },
+    ...(target ? [target.announceCall] : []),
+  ]);
+}
+
+/**
+ * Store one receipt per recipient, each listing the whole split so they can
+ * be shown together. Returns the receipt ids.
+ */
+export async function saveSplitReceipts(
+  network: StealthChainName,
+  recipients: ResolvedSplitRecipient[],
+  { owner, transactionHash }: { owner: string; transactionHash?: string }
+): Promise<string[]> {
+  const timestamp = Date.now();
+  const splitPaymentId = `split_${timestamp}_${Math.random().toString(36).substring(2, 8)}`;
+  const split = {
+    id: splitPaymentId,
+    recipientCount: recipients.length,
+    recipients: recipients.map(({ label, address, amount }) => ({ recipient: label, recipientAddress: address, amount })),
+  };
+
+  const ids: string[] = [];
+  for (const [index, recipient] of recipients.entries()) {
+    const id = `zk_receipt:split_payment_${splitPaymentId}_${index}:${owner.toLowerCase()}:${timestamp}`;
+    const receipt: ZKReceipt = {
+      id,
+      fkeyId: recipient.label,
+      stealthAddress: recipient.fkeyAddress ?? '',
+      paidAddress: recipient.address,
+      userAddress: owner,
+      zkProof: null,
+      timestamp,
+      status: transactionHash ? 'completed' : 'pending_payment',
+      source: 'split-payment',
+      transactionHash,
+      networkId: network,
+      amount: recipient.amount,
+      currency: 'USDC',
+      metadata: {
+        transactionType: 'Split Payment',
+        privacyFeature: recipient.target ? 'one-time-stealth-address' : 'stealth-address',
+        zkProofAvailable: false,
+        ephemeralPublicKey: recipient.target?.ephemeralPublicKey,
+        viewTag: recipient.target?.viewTag,
+        splitPayment: split,
+      },
+    };
+
+    try {
+      await saveZKReceipt(receipt);
+      ids.push(id);
+    } catch (error) {
+      console.warn('⚠️ Failed to save split payment receipt:', error);
+    }
+  }
+  return ids;
+}
@@ -0,0 +1,462 @@
+import {
+  decodeFunctionResult,
+  encodeFunctionData,
+  erc20Abi,
+  formatEther,
+  formatUnits,
+  parseAbi,
+  serializeTransaction,
+  toHex,
+  type Address,
+  type Hex,
+} from 'viem';
+import { privateKeyToAccount, type PrivateKeyAccount } from 'viem/accounts';
+import { deriveStealthPrivateKey, type StealthKeys } from './stealth-crypto';
+import {
+  getStealthChainClient,
+  RELAY_MIN_USDC,
+  STEALTH_CHAINS,
+  type StealthChainClient,
+  type StealthChainName,
+} from './stealth-chains';
+import type { DiscoveredStealthPayment } from './stealth-discovery';
+import { saveZKReceipt, type ZKReceipt } from './zk-receipt-storage';
+
+/**
+ * Sweep ETH and USDC out of discovered stealth addresses.
+ *
+ * Each address is signed for with its own stealth private key, derived on
+ * the spot from keys the user re-derives by signing STEALTH_KEYS_MESSAGE.
+ * USDC goes first so the address's ETH can pay for it; any ETH left after
+ * gas goes last. Addresses holding USDC but no ETH can hand an EIP-3009
+ * transferWithAuthorization to the /api/stealth/relay sponsor instead.
+ */
+
+export type SweepKeys = Pick<StealthKeys, 'spendingPrivateKey' | 'viewingPrivateKey'>;
+export type SweepToken = 'ETH' | 'USDC';
+export type UsdcSweepMode = 'direct' | 'relayer' | 'skip';
+
+// Chains that charge an L1 data fee on top of execution gas
+const OP_STACK_CHAINS: StealthChainName[] = ['base', 'optimism', 'baseSepolia'];
+
+// Fee estimates move between estimate and send; pad them by 20%
+const FEE_BUFFER_PERCENT = BigInt(120);
+
+export const TRANSFER_WITH_AUTHORIZATION_TYPES = {
+  TransferWithAuthorization: [
+    { name: 'from', type: 'address' },
+    { name: 'to', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'validAfter', type: 'uint256' },
+    { name: 'validBefore', type: 'uint256' },
+    { name: 'nonce', type: 'bytes32' },
+  ],
+} as const;
+
+// OP-stack predeploy that prices the L1 data fee for a serialized transaction
+const GAS_PRICE_ORACLE = '0x420000000000000000000000000000000000000F' as const;
+const GAS_PRICE_ORACLE_ABI = parseAbi(['function getL1Fee(bytes _data) view returns (uint256)']);
+
+const EIP712_DOMAIN_ABI = parseAbi([
+  'function name() view returns (string)',
+  'function version() view returns (string)',
+]);
+
+export interface SweepEstimate {
+  payment: DiscoveredStealthPayment;
+  usdcAmount: bigint;
+  usdcMode: UsdcSweepMode;
+  usdcGasCost: bigint; // wei, paid by the stealth address when direct
+  ethAmount: bigint; // wei reaching the destination after gas
+  ethGasCost: bigint;
+  note?: string;
+}
+
+export interface SweepResult {
+  stealthAddress: Address;
+  network: StealthChainName;
+  status: 'swept' | 'partial' | 'failed' | 'skipped';
+  usdcAmount: bigint;
+  ethAmount: bigint;
+  usdcTxHash?: Hex;
+  ethTxHash?: Hex;
+  relayed: boolean;
+  error?: string;
+  receiptId?: string;
+}
+
+export interface SweepOptions {
+  destination: Address;
+  tokens: SweepToken[];
+  useRelayer: boolean;
+}
+
+// Whether the server has a relayer key configured
+export async function isRelayerAvailable(): Promise<boolean> {
+  try {
+    const response = await fetch('/api/stealth/relay');
+    if (!response.ok) return false;
+    const data = await response.json();
+    return Boolean(data.enabled);
+  } catch {
+    return false;
+  }
+}
+
+async function bufferedFees(
+  client: StealthChainClient
+): Promise<{ maxFeePerGas: bigint; maxPriorityFeePerGas: bigint }> {
+  const { maxFeePerGas, maxPriorityFeePerGas } = await client.estimateFeesPerGas();
+  return { maxFeePerGas: (maxFeePerGas * FEE_BUFFER_PERCENT) / BigInt(100), maxPriorityFeePerGas };
+}
+
+// Worst-case cost of a transaction: gas * maxFeePerGas, plus the L1 data fee on OP-stack chains
+async function transactionCost(
+  network: StealthChainName,
+  client: StealthChainClient,
+  tx: { to: Address; data?: Hex; value?: bigint },
+  gas: bigint,
+  maxFeePerGas: bigint
+): Promise<bigint> {
+  let cost = gas * maxFeePerGas;
+  if (OP_STACK_CHAINS.includes(network)) {
+    const serialized = serializeTransaction({
+      chainId: STEALTH_CHAINS[network].chain.id,
+      type: 'eip1559',
+      gas,
+      maxFeePerGas,
+      ...tx,
+    });
+    const { data } = await client.call({
+      to: GAS_PRICE_ORACLE,
+      data: encodeFunctionData({ abi: GAS_PRICE_ORACLE_ABI, functionName: 'getL1Fee', args: [serialized] }),
+    });
+    const l1Fee = data
+      ? decodeFunctionResult({ abi: GAS_PRICE_ORACLE_ABI, functionName: 'getL1Fee', data })
+      : BigInt(0);
+    cost += (l1Fee * FEE_BUFFER_PERCENT) / BigInt(100);
+  }
+  return cost;
+}
+
+// Sign locally with the stealth key and broadcast; every fee field is explicit
+async function sendStealthTransaction(
+  network: StealthChainName,
+  account: PrivateKeyAccount,
+  tx: { to: Address; data?: Hex; value?: bigint; gas: bigint; maxFeePerGas: bigint; maxPriorityFeePerGas: bigint }
+): Promise<Hex> {
+  const client = getStealthChainClient(network);
+  const nonce = await client.getTransactionCount({ address: account.address, blockTag: 'pending' });
+  const serializedTransaction = await account.signTransaction({
+    chainId: STEALTH_CHAINS[network].chain.id,
+    type: 'eip1559',
+    nonce,
+    ...tx,
+  });
+  const hash = await client.sendRawTransaction({ serializedTransaction });
+  await waitForSuccess(client, hash);
+  return hash;
+}
+
+async function readUsdcBalance(client: StealthChainClient, usdc: Address, owner: Address): Promise<bigint> {
+  const { data } = await client.call({
+    to: usdc,
+    data: encodeFunctionData({ abi: erc20Abi, functionName: 'balanceOf', args: [owner] }),
+  });
+  return data ? decodeFunctionResult({ abi: erc20Abi, functionName: 'balanceOf', data }) : BigInt(0);
+}
+
+function usdcTransferData(destination: Address, amount: bigint): Hex {
+  return encodeFunctionData({ abi: erc20Abi, functionName: 'transfer', args: [destination, amount] });
+}
+
+/**
+ * Work out what sweeping each address would move and cost, from live
+ * balances and fee estimates. Nothing is signed.
+ */
+export async function estimateSweep(
+  payments: DiscoveredStealthPayment[],
+  { destination, tokens, useRelayer }: SweepOptions
+): Promise<SweepEstimate[]> {
+  const estimates: SweepEstimate[] = [];
+
+  for (const payment of payments) {
+    const client = getStealthChainClient(payment.network);
+    const usdc = STEALTH_CHAINS[payment.network].usdc;
+    const account = payment.stealthAddress;
+    const estimate: SweepEstimate = {
+      payment,
+      usdcAmount: BigInt(0),
+      usdcMode: 'skip',
+      usdcGasCost: BigInt(0),
+      ethAmount: BigInt(0),
+      ethGasCost: BigInt(0),
+    };
+
+    try {
+      const [ethBalance, usdcBalance, { maxFeePerGas }] = await Promise.all([
+        client.getBalance({ address: account }),
+        readUsdcBalance(client, usdc, account),
+        bufferedFees(client),
+      ]);
+      let ethAvailable = ethBalance;
+
+      if (tokens.includes('USDC') && usdcBalance > BigInt(0)) {
+        const data = usdcTransferData(destination, usdcBalance);
+        const gas = await client.estimateGas({ account, to: usdc, data });
+        const cost = await transactionCost(payment.network, client, { to: usdc, data }, gas, maxFeePerGas);
+
+        estimate.usdcAmount = usdcBalance;
+        if (ethBalance >= cost) {
+          estimate.usdcMode = 'direct';
+          estimate.usdcGasCost = cost;
+          ethAvailable -= cost;
+        } else if (useRelayer && usdcBalance >= RELAY_MIN_USDC) {
+          estimate.usdcMode = 'relayer';
+          estimate.note = 'No ETH for gas: USDC will be sent through the relayer';
+        } else if (useRelayer) {
+          estimate.note = `Needs ${formatEther(cost)} ETH for gas; the relayer only sponsors ${formatUnits(RELAY_MIN_USDC, 6)} USDC or more`;
+        } else {
+          estimate.note = `Needs ${formatEther(cost)} ETH for gas, or the relayer`;
+        }
+      }
+
+      if (tokens.includes('ETH') && ethAvailable > BigInt(0)) {
+        const gas = await client.estimateGas({ account, to: destination, value: BigInt(1) });
+        const cost = await transactionCost(
+          payment.network,
+          client,
+          { to: destination, value: ethAvailable },
+          gas,
+          maxFeePerGas
+        );
+        estimate.ethGasCost = cost;
+        if (ethAvailable > cost) {
+          estimate.ethAmount = ethAvailable - cost;
+        } else if (!estimate.note) {
+          estimate.note = 'ETH balance is below the cost of moving it';
+        }
+      }
+    } catch (error) {
+      estimate.note = error instanceof Error ? error.message : 'Estimation failed';
+    }
+
+    estimates.push(estimate);
+  }
+
+  return estimates;
+}
+
+/**
+ * Sweep every estimated address in turn, recording a ZK receipt for each one
+ * that moved funds. A failure on one address doesn't stop the others.
+ */
+export async function executeSweep(
+  estimates: SweepEstimate[],
+  keys: SweepKeys,
+  { destination, owner, onResult }: {
+    destination: Address;
+    owner: string;
+    onResult?: (result: SweepResult) => void;
+  }
+): Promise<SweepResult[]> {
+  const results: SweepResult[] = [];
+
+  for (const estimate of estimates) {
+    const result = await sweepAddress(estimate, keys, destination);
+    if (result.usdcAmount > BigInt(0) || result.ethAmount > BigInt(0)) {
+      result.receiptId = await saveSweepReceipt(result, destination, owner);
+    }
+    results.push(result);
+    onResult?.(result);
+  }
+
+  return results;
+}
+
+async function sweepAddress(estimate: SweepEstimate, keys: SweepKeys, destination: Address): Promise<SweepResult> {
+  const { payment } = estimate;
+  const result: SweepResult = {
+    stealthAddress: payment.stealthAddress,
+    network: payment.network,
+    status: 'skipped',
+    usdcAmount: BigInt(0),
+    ethAmount: BigInt(0),
+    relayed: false,
+  };
+
+  if (estimate.usdcMode === 'skip' && estimate.ethAmount === BigInt(0)) {
+    result.error = estimate.note;
+    return result;
+  }
+
+  const account = privateKeyToAccount(deriveStealthPrivateKey(keys, payment.ephemeralPubKey));
+  if (account.address.toLowerCase() !== payment.stealthAddress.toLowerCase()) {
+    return { ...result, status: 'failed', error: 'Keys do not control this address. Sign with the wallet that discovered it.' };
+  }
+
+  const { usdc } = STEALTH_CHAINS[payment.network];
+  const client = getStealthChainClient(payment.network);
+
+  try {
+    if (estimate.usdcMode === 'direct') {
+      const data = usdcTransferData(destination, estimate.usdcAmount);
+      const [gas, fees] = await Promise.all([
+        client.estimateGas({ account: account.address, to: usdc, data }),
+        bufferedFees(client),
+      ]);
+      result.usdcTxHash = await sendStealthTransaction(payment.network, account, { to: usdc, data, gas, ...fees });
+      result.usdcAmount = estimate.usdcAmount;
+    } else if (estimate.usdcMode === 'relayer') {
+      result.usdcTxHash = await relayUsdcTransfer(payment.network, account, destination, estimate.usdcAmount);
+      await waitForSuccess(client, result.usdcTxHash);
+      result.usdcAmount = estimate.usdcAmount;
+      result.relayed = true;
+    }
+
+    if (estimate.ethAmount > BigInt(0)) {
+      // Re-price against the live balance: the USDC transfer has just spent some of it
+      const [balance, { maxFeePerGas, maxPriorityFeePerGas }, gas] = await Promise.all([
+        client.getBalance({ address: account.address }),
+        bufferedFees(client),
+        client.estimateGas({ account: account.address, to: destination, value: BigInt(1) }),
+      ]);
+      const cost = await transactionCost(
+        payment.network,
+        client,
+        { to: destination, value: balance },
+        gas,
+        maxFeePerGas
+      );
+
+      if (balance > cost) {
+        result.ethTxHash = await sendStealthTransaction(payment.network, account, {
+          to: destination,
+          value: balance - cost,
+          gas,
+          maxFeePerGas,
+          maxPriorityFeePerGas,
+        });
+        result.ethAmount = balance - cost;
+      }
+    }
+
+    result.status = 'swept';
+  } catch (error) {
+    const moved = result.usdcAmount > BigInt(0) || result.ethAmount > BigInt(0);
+    result.status = moved ? 'partial' : 'failed';
+    result.error = error instanceof Error ? error.message : String(error);
+    console.error(`❌ Sweep failed for ${payment.stealthAddress}:`, error);
+  }
+
+  return result;
+}
+
+async function waitForSuccess(client: StealthChainClient, hash: Hex): Promise<void> {
+  const receipt = await client.waitForTransactionReceipt({ hash });
+  if (receipt.status !== 'success') {
+    throw new Error(`Transaction ${hash} reverted`);
+  }
+}
+
+/**
+ * Sign an EIP-3009 transferWithAuthorization for the whole USDC balance and
+ * hand it to the relayer, which pays the gas. Returns the relayer's tx hash.
+ */
+async function relayUsdcTransfer(
+  network: StealthChainName,
+  account: PrivateKeyAccount,
+  destination: Address,
+  value: bigint
+): Promise<Hex> {
+  const { chain, usdc } = STEALTH_CHAINS[network];
+  const client = getStealthChainClient(network);
+
+  const [name, version] = await Promise.all(
+    (['name', 'version'] as const).map(async (functionName) => {
+      const { data } = await client.call({
+        to: usdc,
+        data: encodeFunctionData({ abi: EIP712_DOMAIN_ABI, functionName }),
+      });
+      return decodeFunctionResult({ abi: EIP712_DOMAIN_ABI, functionName, data: data! });
+    })
+  );
+
+  const authorization = {
+    from: account.address,
+    to: destination,
+    value,
+    validAfter: BigInt(0),
+    validBefore: BigInt(Math.floor(Date.now() / 1000) + 60 * 60),
+    nonce: toHex(crypto.getRandomValues(new Uint8Array(32))),
+  };
+
+  const signature = await account.signTypedData({
+    domain: { name, version, chainId: chain.id, verifyingContract: usdc },
+    types: TRANSFER_WITH_AUTHORIZATION_TYPES,
+    primaryType: 'TransferWithAuthorization',
+    message: authorization,
+  });
+
+  const response = await fetch('/api/stealth/relay', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      network,
+      authorization: {
+        ...authorization,
+        value: authorization.value.toString(),
+        validAfter: authorization.validAfter.toString(),
+        validBefore: authorization.validBefore.toString(),
+      },
+      signature,
+    }),
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || `Relayer returned ${response.status}`);
+  }
+  return data.txHash as Hex;
+}
+
+async function saveSweepReceipt(result: SweepResult, destination: Address, owner: string): Promise<string> {
+  const timestamp = Date.now();
+  const id = `zk_receipt:stealth_sweep_${result.stealthAddress.toLowerCase()}:${owner.toLowerCase()}:${timestamp}`;
+  const movedUsdc = result.usdcAmount > BigInt(0);
+
+  const receipt: ZKReceipt = {
+    id,
+    fkeyId: `${result.stealthAddress.slice(0, 6)}...${result.stealthAddress.slice(-4)}`,
+    stealthAddress: result.stealthAddress,
+    paidAddress: destination,
+    userAddress: owner,
+    zkProof: null,
+    timestamp,
+    status: 'completed',
+    source: 'stealth-sweep',
+    transactionHash: result.usdcTxHash ?? result.ethTxHash,
+    networkId: result.network,
+    amount: movedUsdc ? formatUnits(result.usdcAmount, 6) : formatEther(result.ethAmount),
+    currency: movedUsdc ? 'USDC' : 'ETH',
+    metadata: {
+      transactionType: 'Stealth Address Sweep',
+      privacyFeature: 'stealth-address',
+      zkProofAvailable: false,
+      destination,
+      sweepStatus: result.status,
+      usdcAmount: formatUnits(result.usdcAmount, 6),
+      usdcTxHash: result.usdcTxHash,
+      ethAmount: formatEther(result.ethAmount),
+      ethTxHash: result.ethTxHash,
+      relayed: result.relayed,
+    },
+  };
+
+  try {
+    await saveZKReceipt(receipt);
+  } catch (error) {
+    console.warn('⚠️ Failed to save sweep receipt:', error);
+  }
+  return id;
+}
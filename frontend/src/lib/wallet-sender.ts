@@ -0,0 +1,374 @@
+import { Redis } from '@upstash/redis';
+import {
+  keccak256,
+  TransactionReceiptNotFoundError,
+  type Address,
+  type Hash,
+  type Hex,
+  type PublicClient,
+} from 'viem';
+import type { PrivateKeyAccount } from 'viem/accounts';
+
+/**
+ * Serialized sends from the server's hot wallets (claims distributor, x402
+ * settler, stealth relayer). Each wallet signs under a lock, taking nonces
+ * from a counter, so concurrent requests never sign with the same nonce.
+ *
+ * Every signed transaction is kept until its nonce is mined. Before handing
+ * out the next nonce, one the node has dropped is rebroadcast as signed (so
+ * callers' tx hashes stay valid) and one that can't be, or has sat in the
+ * mempool too long, is replaced by a no-op, so a lost transaction never
+ * leaves a gap that blocks every later one.
+ *
+ * Without Redis (local development) a per-process queue and maps stand in.
+ */
+
+const LOCK_TTL_MS = 30_000;
+const LOCK_WAIT_MS = 20_000;
+const SENT_TX_TTL = 86400; // 1 day
+const STUCK_AFTER_MS = 3 * 60_000;
+const MAX_REPAIRS_PER_SEND = 16; // outstanding nonces checked per send
+
+// What callers record before the transaction is broadcast
+export interface SignedSend {
+  chainId: number;
+  from: Address;
+  nonce: number;
+  transactionHash: Hash;
+}
+
+export interface SendResult extends SignedSend {
+  // Set when the broadcast errored; the node may still have taken it
+  broadcastError?: unknown;
+}
+
+// 'replaced': the nonce was mined by another transaction, so this one never
+// will be
+export type SendStatus = 'confirmed' | 'reverted' | 'pending' | 'replaced';
+
+interface SentTransaction {
+  hash: Hash;
+  serializedTransaction: Hex;
+  maxFeePerGas: string;
+  maxPriorityFeePerGas: string;
+  sentAt: number;
+}
+
+// The public client calls a send needs
+type SenderClient = Pick<
+  PublicClient,
+  | 'chain'
+  | 'getChainId'
+  | 'estimateGas'
+  | 'estimateFeesPerGas'
+  | 'getTransactionCount'
+  | 'getTransactionReceipt'
+  | 'sendRawTransaction'
+>;
+
+const redis =
+  process.env.UPSTASH_REDIS_REST_URL && process.env.UPSTASH_REDIS_REST_TOKEN
+    ? new Redis({
+        url: process.env.UPSTASH_REDIS_REST_URL,
+        token: process.env.UPSTASH_REDIS_REST_TOKEN,
+      })
+    : null;
+
+const localQueues = new Map<string, Promise<unknown>>();
+const localNonces = new Map<string, number>();
+const localSent = new Map<string, SentTransaction>();
+
+function walletKey(chainId: number, address: Address): string {
+  return `wallet-sender:${chainId}:${address.toLowerCase()}`;
+}
+
+const RELEASE_LOCK_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+
+async function withSendLock<T>(
+  wallet: string,
+  send: () => Promise<T>,
+): Promise<T> {
+  if (!redis) {
+    const run = (localQueues.get(wallet) ?? Promise.resolve()).then(
+      send,
+      send,
+    );
+    localQueues.set(
+      wallet,
+      run.catch(() => undefined),
+    );
+    return run;
+  }
+
+  const lockKey = `${wallet}:send-lock`;
+  const token = crypto.randomUUID();
+  const deadline = Date.now() + LOCK_WAIT_MS;
+  while (
+    !(await redis.set(lockKey, token, { nx: true, px: LOCK_TTL_MS }))
+  ) {
+    if (Date.now() > deadline) {
+      throw new Error('Wallet is busy sending, please try again');
+    }
+    await new Promise((resolve) => setTimeout(resolve, 250));
+  }
+  try {
+    return await send();
+  } finally {
+    // Never let a release error look like a failed send; the lock expires
+    // anyway
+    await redis
+      .eval(RELEASE_LOCK_SCRIPT, [lockKey], [token])
+      .catch((error) => {
+        console.error('Failed to release wallet send lock:', error);
+      });
+  }
+}
+
+// Next nonce we hand out, so a lagging RPC's pending count can't reuse one
+async function getNextNonce(wallet: string): Promise<number> {
+  if (redis) return Number((await redis.get(`${wallet}:nonce`)) ?? 0);
+  return localNonces.get(wallet) ?? 0;
+}
+
+async function setNextNonce(wallet: string, nonce: number): Promise<void> {
+  if (redis) {
+    await redis.set(`${wallet}:nonce`, String(nonce));
+  } else {
+    localNonces.set(wallet, nonce);
+  }
+}
+
+async function getSent(
+  wallet: string,
+  nonce: number,
+): Promise<SentTransaction | null> {
+  const key = `${wallet}:sent:${nonce}`;
+  if (!redis) return localSent.get(key) ?? null;
+  const data = await redis.get(key);
+  if (!data) return null;
+  return (typeof data === 'string' ? JSON.parse(data) : data) as SentTransaction;
+}
+
+async function saveSent(
+  wallet: string,
+  nonce: number,
+  sent: SentTransaction,
+): Promise<void> {
+  const key = `${wallet}:sent:${nonce}`;
+  if (redis) {
+    await redis.set(key, JSON.stringify(sent), { ex: SENT_TX_TTL });
+  } else {
+    localSent.set(key, sent);
+  }
+}
+
+// Errors a rebroadcast gets when the node already has (or mined) the tx
+function isAlreadyKnown(error: unknown): boolean {
+  const message = error instanceof Error ? error.message.toLowerCase() : '';
+  return (
+    message.includes('already known') ||
+    message.includes('known transaction') ||
+    message.includes('nonce too low')
+  );
+}
+
+/**
+ * Fill `nonce` with a zero-value self-transfer, priced over `previous` so
+ * the node accepts it as a replacement
+ */
+async function cancelNonce(
+  client: SenderClient,
+  account: PrivateKeyAccount,
+  wallet: string,
+  chainId: number,
+  nonce: number,
+  previous: SentTransaction | null,
+): Promise<void> {
+  const fees = await client.estimateFeesPerGas();
+  // Nodes require at least a 10% bump to replace a pending transaction
+  const bump = (value: string | undefined, current: bigint) => {
+    const bumped = value
+      ? (BigInt(value) * BigInt(1125)) / BigInt(1000) + BigInt(1)
+      : BigInt(0);
+    return bumped > current ? bumped : current;
+  };
+  const maxFeePerGas = bump(previous?.maxFeePerGas, fees.maxFeePerGas);
+  const maxPriorityFeePerGas = bump(
+    previous?.maxPriorityFeePerGas,
+    fees.maxPriorityFeePerGas,
+  );
+
+  const serializedTransaction = await account.signTransaction({
+    chainId,
+    type: 'eip1559',
+    nonce,
+    gas: BigInt(21000),
+    maxFeePerGas,
+    maxPriorityFeePerGas,
+    to: account.address,
+    value: BigInt(0),
+  });
+  await saveSent(wallet, nonce, {
+    hash: keccak256(serializedTransaction),
+    serializedTransaction,
+    maxFeePerGas: maxFeePerGas.toString(),
+    maxPriorityFeePerGas: maxPriorityFeePerGas.toString(),
+    sentAt: Date.now(),
+  });
+
+  try {
+    await client.sendRawTransaction({ serializedTransaction });
+    console.warn(`Replaced nonce ${nonce} of ${account.address} with a no-op`);
+  } catch (error) {
+    if (!isAlreadyKnown(error)) throw error;
+  }
+}
+
+/**
+ * Catch the counter up with the chain and repair the nonces we handed out
+ * that aren't mined yet, oldest first. Returns the nonce to sign with.
+ */
+async function reconcileNonces(
+  client: SenderClient,
+  account: PrivateKeyAccount,
+  wallet: string,
+  chainId: number,
+): Promise<number> {
+  const [mined, pending, stored] = await Promise.all([
+    client.getTransactionCount({ address: account.address, blockTag: 'latest' }),
+    client.getTransactionCount({
+      address: account.address,
+      blockTag: 'pending',
+    }),
+    getNextNonce(wallet),
+  ]);
+  const next = Math.max(mined, pending, stored);
+
+  const end = Math.min(next, mined + MAX_REPAIRS_PER_SEND);
+  for (let nonce = mined; nonce < end; nonce++) {
+    const sent = await getSent(wallet, nonce);
+    try {
+      if (nonce >= pending) {
+        // The node doesn't know this nonce: resend what we signed, or fill
+        // it if that's gone or no longer valid
+        if (sent) {
+          try {
+            await client.sendRawTransaction({
+              serializedTransaction: sent.serializedTransaction,
+            });
+            continue;
+          } catch (error) {
+            if (isAlreadyKnown(error)) continue;
+            console.warn(`Rebroadcast of nonce ${nonce} failed:`, error);
+          }
+        }
+        await cancelNonce(client, account, wallet, chainId, nonce, sent);
+      } else if (
+        nonce === mined &&
+        sent &&
+        Date.now() - sent.sentAt > STUCK_AFTER_MS
+      ) {
+        // The oldest pending one holds up the rest; it's likely underpriced
+        await cancelNonce(client, account, wallet, chainId, nonce, sent);
+      }
+    } catch (error) {
+      console.error(`Failed to repair nonce ${nonce} of ${account.address}:`, error);
+    }
+  }
+
+  return next;
+}
+
+/**
+ * Estimate, sign and broadcast `tx` from `account` under its send lock.
+ * `onSigned` runs before the broadcast, so callers can record the hash of a
+ * transaction that may land; if it throws nothing is sent. A broadcast error
+ * comes back as `broadcastError` rather than a throw, since the node may
+ * have taken the transaction anyway.
+ */
+export async function sendFromWallet(params: {
+  client: SenderClient;
+  account: PrivateKeyAccount;
+  tx: { to: Address; data?: Hex; value?: bigint };
+  onSigned?: (signed: SignedSend) => Promise<void>;
+}): Promise<SendResult> {
+  const { client, account, tx } = params;
+  const chainId = client.chain?.id ?? (await client.getChainId());
+  const wallet = walletKey(chainId, account.address);
+
+  return withSendLock(wallet, async () => {
+    const [gas, fees] = await Promise.all([
+      client.estimateGas({ account: account.address, ...tx }),
+      client.estimateFeesPerGas(),
+    ]);
+    const nonce = await reconcileNonces(client, account, wallet, chainId);
+
+    const serializedTransaction = await account.signTransaction({
+      chainId,
+      type: 'eip1559',
+      nonce,
+      gas,
+      maxFeePerGas: fees.maxFeePerGas,
+      maxPriorityFeePerGas: fees.maxPriorityFeePerGas,
+      ...tx,
+    });
+    const signed: SignedSend = {
+      chainId,
+      from: account.address,
+      nonce,
+      transactionHash: keccak256(serializedTransaction),
+    };
+    await saveSent(wallet, nonce, {
+      hash: signed.transactionHash,
+      serializedTransaction,
+      maxFeePerGas: fees.maxFeePerGas.toString(),
+      maxPriorityFeePerGas: fees.maxPriorityFeePerGas.toString(),
+      sentAt: Date.now(),
+    });
+    await params.onSigned?.(signed);
+
+    try {
+      await client.sendRawTransaction({ serializedTransaction });
+    } catch (error) {
+      return { ...signed, broadcastError: error };
+    }
+    await setNextNonce(wallet, nonce + 1);
+    return signed;
+  });
+}
+
+/**
+ * Where a transaction from sendFromWallet stands. One without a receipt whose
+ * nonce has been mined was replaced (or cancelled) and can never land.
+ */
+export async function getSendStatus(
+  client: SenderClient,
+  sent: { transactionHash: Hash; from: Address; nonce: number },
+): Promise<SendStatus> {
+  const receiptStatus = () =>
+    client
+      .getTransactionReceipt({ hash: sent.transactionHash })
+      .then((receipt) =>
+        receipt.status === 'success' ? 'confirmed' : 'reverted',
+      )
+      .catch((error) => {
+        if (error instanceof TransactionReceiptNotFoundError) return null;
+        throw error;
+      });
+
+  const landed = await receiptStatus();
+  if (landed) return landed;
+
+  const mined = await client.getTransactionCount({
+    address: sent.from,
+    blockTag: 'latest',
+  });
+  if (mined <= sent.nonce) return 'pending';
+  // Re-check in case ours was mined between the two reads
+  return (await receiptStatus()) ?? 'replaced';
+}
@@ -0,0 +1,218 @@
+import { Redis } from '@upstash/redis';
+import { randomBytes } from 'crypto';
+import jwt from 'jsonwebtoken';
+
+// Signed, expiring access tokens for paid x402 content.
+//
+// Tokens are HS256 JWTs with the contentId as audience and the payer as
+// subject. The payment id is the token id, so revoking a payment revokes every
+// token issued for it. Keys are configured as `X402_JWT_KEYS="kid:secret,..."`;
+// the first key signs, all listed keys verify, which allows rotation without
+// invalidating tokens signed by the previous key.
+
+const ISSUER = 'dstealth-x402';
+const TOKEN_TTL_SECONDS = 24 * 60 * 60; // 24 hours
+
+export type AccessTokenFailureReason =
+  | 'missing'
+  | 'invalid'
+  | 'expired'
+  | 'wrong_content'
+  | 'payer_mismatch'
+  | 'revoked';
+
+// Distinct status per failure so clients can tell "pay again" from "forged"
+const FAILURES: Record<
+  AccessTokenFailureReason,
+  { status: number; error: string }
+> = {
+  missing: { status: 401, error: 'Access token required' },
+  invalid: { status: 401, error: 'Invalid access token' },
+  wrong_content: {
+    status: 403,
+    error: 'Access token is not valid for this content',
+  },
+  payer_mismatch: {
+    status: 403,
+    error: 'Access token was issued to a different payer',
+  },
+  expired: { status: 402, error: 'Access token expired, payment required' },
+  revoked: { status: 410, error: 'Access token has been revoked' },
+};
+
+export interface AccessTokenClaims {
+  contentId: string;
+  payerAddress: string;
+  paymentId: string;
+  amount?: string;
+  issuedAt: number;
+  expiresAt: number;
+}
+
+export interface AccessTokenVerification {
+  valid: boolean;
+  claims?: AccessTokenClaims;
+  reason?: AccessTokenFailureReason;
+  status?: number;
+  error?: string;
+}
+
+interface SigningKey {
+  kid: string;
+  secret: string;
+}
+
+const redis =
+  process.env.UPSTASH_REDIS_REST_URL && process.env.UPSTASH_REDIS_REST_TOKEN
+    ? new Redis({
+        url: process.env.UPSTASH_REDIS_REST_URL,
+        token: process.env.UPSTASH_REDIS_REST_TOKEN,
+      })
+    : null;
+
+// Process-local fallback so tokens still verify within one instance when no
+// secret is configured (development only)
+const ephemeralSecret = randomBytes(32).toString('hex');
+
+function loadSigningKeys(): SigningKey[] {
+  const keys = (process.env.X402_JWT_KEYS || '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const separator = entry.indexOf(':');
+      return {
+        kid: entry.slice(0, separator),
+        secret: entry.slice(separator + 1),
+      };
+    })
+    .filter((key) => key.kid && key.secret);
+
+  if (keys.length > 0) return keys;
+
+  if (process.env.X402_JWT_SECRET) {
+    return [{ kid: 'default', secret: process.env.X402_JWT_SECRET }];
+  }
+
+  // Tokens signed with a per-process key fail on every other instance and
+  // after a restart, so production must configure one
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error(
+      'X402_JWT_KEYS or X402_JWT_SECRET must be set in production',
+    );
+  }
+
+  console.warn(
+    '⚠️ No X402_JWT_KEYS or X402_JWT_SECRET set, using ephemeral key',
+  );
+  return [{ kid: 'ephemeral', secret: ephemeralSecret }];
+}
+
+function revokedKey(paymentId: string): string {
+  return `x402:revoked-payment:${paymentId.toLowerCase()}`;
+}
+
+function failure(reason: AccessTokenFailureReason): AccessTokenVerification {
+  return { valid: false, reason, ...FAILURES[reason] };
+}
+
+export function issueAccessToken(params: {
+  contentId: string;
+  payerAddress: string;
+  paymentId: string;
+  amount?: string;
+}): { token: string; expiresAt: string } {
+  const [signingKey] = loadSigningKeys();
+
+  const token = jwt.sign(
+    { amount: params.amount },
+    signingKey.secret,
+    {
+      algorithm: 'HS256',
+      keyid: signingKey.kid,
+      issuer: ISSUER,
+      audience: params.contentId,
+      subject: params.payerAddress.toLowerCase(),
+      jwtid: params.paymentId,
+      expiresIn: TOKEN_TTL_SECONDS,
+    },
+  );
+
+  return {
+    token,
+    expiresAt: new Date(Date.now() + TOKEN_TTL_SECONDS * 1000).toISOString(),
+  };
+}
+
+/**
+ * Verify an access token for `contentId`. Pass `payerAddress` to also require
+ * the token to have been issued to that payer.
+ */
+export async function verifyAccessToken(
+  token: string | null | undefined,
+  contentId: string,
+  payerAddress?: string | null,
+): Promise<AccessTokenVerification> {
+  if (!token) return failure('missing');
+
+  const decoded = jwt.decode(token, { complete: true });
+  if (!decoded || typeof decoded.payload === 'string') {
+    return failure('invalid');
+  }
+
+  const signingKey = loadSigningKeys().find(
+    (key) => key.kid === decoded.header.kid,
+  );
+  if (!signingKey) return failure('invalid');
+
+  let payload: jwt.JwtPayload;
+  try {
+    payload = jwt.verify(token, signingKey.secret, {
+      algorithms: ['HS256'],
+      issuer: ISSUER,
+    }) as jwt.JwtPayload;
+  } catch (error) {
+    return failure(
+      error instanceof jwt.TokenExpiredError ? 'expired' : 'invalid',
+    );
+  }
+
+  if (payload.aud !== contentId) return failure('wrong_content');
+
+  if (
+    payerAddress &&
+    payload.sub?.toLowerCase() !== payerAddress.toLowerCase()
+  ) {
+    return failure('payer_mismatch');
+  }
+
+  if (payload.jti && redis && (await redis.get(revokedKey(payload.jti)))) {
+    return failure('revoked');
+  }
+
+  return {
+    valid: true,
+    claims: {
+      contentId,
+      payerAddress: payload.sub,
+      paymentId: payload.jti,
+      amount: payload.amount,
+      issuedAt: payload.iat,
+      expiresAt: payload.exp,
+    },
+  };
+}
+
+/**
+ * Revoke every token issued for a payment (e.g. refunded or disputed)
+ */
+export async function revokePaymentAccess(paymentId: string): Promise<void> {
+  if (!redis) {
+    throw new Error('Redis unavailable - cannot revoke access tokens');
+  }
+
+  // No token for this payment can outlive the revocation entry
+  await redis.set(revokedKey(paymentId), Date.now().toString(), {
+    ex: TOKEN_TTL_SECONDS,
+  });
+}
@@ -0,0 +1,820 @@
+import { Redis } from '@upstash/redis';
+import {
+  createPublicClient,
+  encodeFunctionData,
+  getAddress,
+  http,
+  isAddress,
+  isAddressEqual,
+  isHex,
+  parseAbi,
+  parseSignature,
+  size,
+  toHex,
+  type Address,
+  type Hash,
+  type Hex,
+  type LocalAccount,
+} from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { env } from './env';
+import { getSendStatus, sendFromWallet } from './wallet-sender';
+import { X402_NETWORKS } from './x402-payment-verification';
+
+// x402 "exact" payments, following the Coinbase x402 spec
+// (https://github.com/coinbase/x402):
+//
+// 1. A 402 response carries `{ x402Version, error, accepts }`, one payment
+//    requirement per network/asset the resource can be paid with.
+// 2. The client retries with an `X-PAYMENT` header: a base64 JSON payload
+//    with a signed EIP-3009 `transferWithAuthorization` for the asset.
+// 3. The server verifies and settles the authorization through a
+//    facilitator and answers with a base64 JSON `X-PAYMENT-RESPONSE`.
+//
+// X402_FACILITATOR_URL selects a hosted facilitator. Otherwise the local one
+// submits the authorization itself from X402_FACILITATOR_PRIVATE_KEY (which
+// pays the gas); X402_RPC_URL points it at another node, e.g. an Anvil fork
+// of Base.
+//
+// The local facilitator sends through the shared wallet sender, so
+// settlements never race each other (or other sends) for a nonce. A
+// settlement still unmined after RECEIPT_TIMEOUT_MS comes back pending with
+// its tx hash (202) instead of failing; retrying the same X-PAYMENT picks
+// it up again and grants access once it confirms.
+
+export const X402_VERSION = 1;
+
+const DEFAULT_MAX_TIMEOUT_SECONDS = 300;
+const RECEIPT_TIMEOUT_MS = 60_000;
+const PENDING_SETTLEMENT_TTL = 86400; // 1 day
+// Authorizations must stay valid long enough to land on-chain
+const VALID_BEFORE_BUFFER_SECONDS = 6;
+
+// EIP-3009 tokens we accept, with the EIP-712 domain they sign under
+export const X402_ASSETS: Record<
+  string,
+  { address: Address; name: string; version: string; decimals: number }
+> = {
+  base: {
+    address: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+    name: 'USD Coin',
+    version: '2',
+    decimals: 6,
+  },
+  'base-sepolia': {
+    address: '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
+    name: 'USDC',
+    version: '2',
+    decimals: 6,
+  },
+};
+
+const EIP3009_ABI = parseAbi([
+  'function transferWithAuthorization(address from, address to, uint256 value, uint256 validAfter, uint256 validBefore, bytes32 nonce, uint8 v, bytes32 r, bytes32 s)',
+  'function transferWithAuthorization(address from, address to, uint256 value, uint256 validAfter, uint256 validBefore, bytes32 nonce, bytes signature)',
+  'function authorizationState(address authorizer, bytes32 nonce) view returns (bool)',
+  'function balanceOf(address account) view returns (uint256)',
+]);
+
+const TRANSFER_WITH_AUTHORIZATION_TYPES = {
+  TransferWithAuthorization: [
+    { name: 'from', type: 'address' },
+    { name: 'to', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'validAfter', type: 'uint256' },
+    { name: 'validBefore', type: 'uint256' },
+    { name: 'nonce', type: 'bytes32' },
+  ],
+} as const;
+
+export interface PaymentRequirements {
+  scheme: 'exact';
+  network: string;
+  maxAmountRequired: string; // smallest units
+  resource: string;
+  description: string;
+  mimeType: string;
+  payTo: Address;
+  maxTimeoutSeconds: number;
+  asset: Address;
+  extra: { name: string; version: string };
+}
+
+export interface ExactEvmAuthorization {
+  from: Address;
+  to: Address;
+  value: string;
+  validAfter: string;
+  validBefore: string;
+  nonce: Hex;
+}
+
+export interface PaymentPayload {
+  x402Version: number;
+  scheme: 'exact';
+  network: string;
+  payload: {
+    signature: Hex;
+    authorization: ExactEvmAuthorization;
+  };
+}
+
+export type PaymentInvalidReason =
+  | 'invalid_payload'
+  | 'unsupported_scheme'
+  | 'invalid_network'
+  | 'invalid_signature'
+  | 'wrong_recipient'
+  | 'insufficient_value'
+  | 'not_yet_valid'
+  | 'expired'
+  | 'nonce_used'
+  | 'insufficient_funds'
+  | 'facilitator_unavailable'
+  | 'settlement_failed'
+  | 'settlement_pending'; // sent but not mined yet; `transaction` is set
+
+export interface VerifyResponse {
+  isValid: boolean;
+  invalidReason?: PaymentInvalidReason;
+  payer?: Address;
+}
+
+// Also the X-PAYMENT-RESPONSE body
+export interface SettleResponse {
+  success: boolean;
+  errorReason?: PaymentInvalidReason;
+  transaction?: Hash;
+  network: string;
+  payer?: Address;
+}
+
+export interface Facilitator {
+  verify(
+    payment: PaymentPayload,
+    requirements: PaymentRequirements,
+  ): Promise<VerifyResponse>;
+  settle(
+    payment: PaymentPayload,
+    requirements: PaymentRequirements,
+  ): Promise<SettleResponse>;
+}
+
+export interface PaymentRequiredBody {
+  x402Version: number;
+  error: string;
+  accepts: PaymentRequirements[];
+  transaction?: Hash; // the pending settlement, with a 202
+}
+
+// Paid results carry the settlement, unpaid ones the 402 (or, while the
+// settlement is pending, 202) status and body
+export interface X402PaymentResult {
+  paid: boolean;
+  payer?: Address;
+  requirements?: PaymentRequirements;
+  settlement?: SettleResponse;
+  paymentResponse?: string; // X-PAYMENT-RESPONSE header value
+  status?: 402 | 202;
+  body?: PaymentRequiredBody;
+}
+
+// A settlement sent by the local facilitator whose outcome isn't known yet
+interface PendingSettlement {
+  transaction: Hash;
+  network: string;
+  payer: Address;
+  settler: Address;
+  settlerNonce: number;
+}
+
+interface ContentPricing {
+  amount: number | string;
+  network?: string;
+  asset?: string;
+  payTo?: string;
+  maxAmountRequired?: string;
+}
+
+const redis =
+  process.env.UPSTASH_REDIS_REST_URL && process.env.UPSTASH_REDIS_REST_TOKEN
+    ? new Redis({
+        url: process.env.UPSTASH_REDIS_REST_URL,
+        token: process.env.UPSTASH_REDIS_REST_TOKEN,
+      })
+    : null;
+
+const localPendingSettlements = new Map<string, PendingSettlement>();
+
+// One per authorization: EIP-3009 nonces are unique per token and payer
+function pendingSettlementKey(payment: PaymentPayload): string {
+  const { from, nonce } = payment.payload.authorization;
+  return `x402:pending-settlement:${payment.network}:${from.toLowerCase()}:${nonce.toLowerCase()}`;
+}
+
+async function getPendingSettlement(
+  payment: PaymentPayload,
+): Promise<PendingSettlement | null> {
+  const key = pendingSettlementKey(payment);
+  if (!redis) return localPendingSettlements.get(key) ?? null;
+  const data = await redis.get(key);
+  if (!data) return null;
+  return (
+    typeof data === 'string' ? JSON.parse(data) : data
+  ) as PendingSettlement;
+}
+
+async function savePendingSettlement(
+  payment: PaymentPayload,
+  pending: PendingSettlement,
+): Promise<void> {
+  const key = pendingSettlementKey(payment);
+  if (redis) {
+    await redis.set(key, JSON.stringify(pending), {
+      ex: PENDING_SETTLEMENT_TTL,
+    });
+  } else {
+    localPendingSettlements.set(key, pending);
+  }
+}
+
+// True for the one caller that removes it, so a settlement is only
+// redeemed once
+async function clearPendingSettlement(
+  payment: PaymentPayload,
+): Promise<boolean> {
+  const key = pendingSettlementKey(payment);
+  if (redis) return (await redis.del(key)) === 1;
+  return localPendingSettlements.delete(key);
+}
+
+function encodeBase64Json(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64');
+}
+
+export function encodePaymentHeader(payment: PaymentPayload): string {
+  return encodeBase64Json(payment);
+}
+
+export function encodePaymentResponseHeader(
+  settlement: SettleResponse,
+): string {
+  return encodeBase64Json(settlement);
+}
+
+// Decode and shape-check an X-PAYMENT header; null when it isn't one
+export function decodePaymentHeader(header: string): PaymentPayload | null {
+  let payment: any;
+  try {
+    payment = JSON.parse(Buffer.from(header, 'base64').toString('utf-8'));
+  } catch {
+    return null;
+  }
+
+  const authorization = payment?.payload?.authorization;
+  const isUint = (value: unknown) =>
+    typeof value === 'string' && /^\d+$/.test(value);
+  if (
+    typeof payment?.network !== 'string' ||
+    typeof payment?.scheme !== 'string' ||
+    !authorization ||
+    !isHex(payment.payload.signature) ||
+    !isAddress(authorization.from) ||
+    !isAddress(authorization.to) ||
+    !isUint(authorization.value) ||
+    !isUint(authorization.validAfter) ||
+    !isUint(authorization.validBefore) ||
+    !isHex(authorization.nonce) ||
+    size(authorization.nonce) !== 32
+  ) {
+    return null;
+  }
+  return payment as PaymentPayload;
+}
+
+/**
+ * Requirement for one stored pricing option, or null when its network or
+ * asset can't be paid with an EIP-3009 authorization.
+ */
+export function buildPaymentRequirements(
+  pricing: ContentPricing,
+  options: {
+    resource: string;
+    description: string;
+    payTo?: string;
+    mimeType?: string;
+  },
+): PaymentRequirements | null {
+  const network = pricing.network || 'base';
+  const asset = X402_ASSETS[network];
+  const payTo = pricing.payTo || options.payTo;
+  if (!asset || !payTo || !isAddress(payTo)) return null;
+  if (
+    pricing.asset &&
+    !isAddressEqual(pricing.asset as Address, asset.address)
+  ) {
+    return null;
+  }
+
+  const maxAmountRequired =
+    pricing.maxAmountRequired ||
+    Math.round(Number(pricing.amount) * 10 ** asset.decimals).toString();
+
+  return {
+    scheme: 'exact',
+    network,
+    maxAmountRequired,
+    resource: options.resource,
+    description: options.description,
+    mimeType: options.mimeType || 'application/json',
+    payTo: getAddress(payTo),
+    maxTimeoutSeconds: DEFAULT_MAX_TIMEOUT_SECONDS,
+    asset: asset.address,
+    extra: { name: asset.name, version: asset.version },
+  };
+}
+
+// Payment requirements for stored x402 content (empty when it has none)
+export async function getContentPaymentRequirements(
+  contentId: string,
+  resource: string,
+): Promise<PaymentRequirements[]> {
+  if (!redis) return [];
+  const contentData = await redis.get(`x402:content:${contentId}`);
+  if (!contentData) return [];
+
+  const content =
+    typeof contentData === 'string' ? JSON.parse(contentData) : contentData;
+  const pricing: ContentPricing[] = content.pricing || [];
+  return pricing
+    .map((option) =>
+      buildPaymentRequirements(option, {
+        resource,
+        description:
+          content.description || content.name || `x402 content ${contentId}`,
+        payTo: content.paymentRecipient || content.creator,
+      }),
+    )
+    .filter(
+      (requirements): requirements is PaymentRequirements => !!requirements,
+    );
+}
+
+function getChainClient(network: string, rpcUrl?: string) {
+  const chain = X402_NETWORKS[network];
+  if (!chain) return null;
+  return createPublicClient({
+    chain,
+    transport: http(rpcUrl || process.env.X402_RPC_URL || undefined),
+  });
+}
+
+/**
+ * Facilitator that checks authorizations against the token contract and
+ * submits them itself. `settlerPrivateKey` pays the gas; without it the
+ * facilitator can verify but not settle.
+ */
+export function createLocalFacilitator(
+  options: { rpcUrl?: string; settlerPrivateKey?: Hex } = {},
+): Facilitator {
+  const settler = options.settlerPrivateKey
+    ? privateKeyToAccount(options.settlerPrivateKey)
+    : null;
+
+  async function verify(
+    payment: PaymentPayload,
+    requirements: PaymentRequirements,
+  ): Promise<VerifyResponse> {
+    const { authorization, signature } = payment.payload;
+    const payer = authorization.from;
+    const invalid = (invalidReason: PaymentInvalidReason): VerifyResponse => ({
+      isValid: false,
+      invalidReason,
+      payer,
+    });
+
+    if (payment.x402Version !== X402_VERSION || payment.scheme !== 'exact') {
+      return invalid('unsupported_scheme');
+    }
+    if (payment.network !== requirements.network) {
+      return invalid('invalid_network');
+    }
+    const client = getChainClient(payment.network, options.rpcUrl);
+    if (!client) return invalid('invalid_network');
+
+    if (!isAddressEqual(authorization.to, requirements.payTo)) {
+      return invalid('wrong_recipient');
+    }
+    if (BigInt(authorization.value) < BigInt(requirements.maxAmountRequired)) {
+      return invalid('insufficient_value');
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    if (BigInt(authorization.validAfter) > BigInt(now)) {
+      return invalid('not_yet_valid');
+    }
+    if (
+      BigInt(authorization.validBefore) <
+      BigInt(now + VALID_BEFORE_BUFFER_SECONDS)
+    ) {
+      return invalid('expired');
+    }
+
+    // Public client verification also accepts ERC-1271/6492 smart wallets
+    const signatureValid = await client
+      .verifyTypedData({
+        address: payer,
+        domain: {
+          name: requirements.extra.name,
+          version: requirements.extra.version,
+          chainId: client.chain.id,
+          verifyingContract: requirements.asset,
+        },
+        types: TRANSFER_WITH_AUTHORIZATION_TYPES,
+        primaryType: 'TransferWithAuthorization',
+        message: {
+          from: authorization.from,
+          to: authorization.to,
+          value: BigInt(authorization.value),
+          validAfter: BigInt(authorization.validAfter),
+          validBefore: BigInt(authorization.validBefore),
+          nonce: authorization.nonce,
+        },
+        signature,
+      })
+      .catch(() => false);
+    if (!signatureValid) return invalid('invalid_signature');
+
+    const [nonceUsed, balance] = await Promise.all([
+      client.call({
+        to: requirements.asset,
+        data: encodeFunctionData({
+          abi: EIP3009_ABI,
+          functionName: 'authorizationState',
+          args: [payer, authorization.nonce],
+        }),
+      }),
+      client.call({
+        to: requirements.asset,
+        data: encodeFunctionData({
+          abi: EIP3009_ABI,
+          functionName: 'balanceOf',
+          args: [payer],
+        }),
+      }),
+    ]);
+    if (nonceUsed.data && BigInt(nonceUsed.data) !== BigInt(0)) {
+      return invalid('nonce_used');
+    }
+    if (!balance.data || BigInt(balance.data) < BigInt(authorization.value)) {
+      return invalid('insufficient_funds');
+    }
+
+    return { isValid: true, payer };
+  }
+
+  async function settle(
+    payment: PaymentPayload,
+    requirements: PaymentRequirements,
+  ): Promise<SettleResponse> {
+    const { network } = payment;
+    const client = getChainClient(network, options.rpcUrl);
+
+    // A retry of a payment we already sent: report where that send stands
+    // rather than verifying (its nonce may be used by our own transaction)
+    const pending = client ? await getPendingSettlement(payment) : null;
+    if (client && pending) {
+      const { transaction, payer } = pending;
+      const status = await getSendStatus(client, {
+        transactionHash: transaction,
+        from: pending.settler,
+        nonce: pending.settlerNonce,
+      });
+      if (status === 'pending') {
+        return {
+          success: false,
+          errorReason: 'settlement_pending',
+          transaction,
+          network,
+          payer,
+        };
+      }
+      if (status === 'confirmed' || status === 'reverted') {
+        const redeemed = await clearPendingSettlement(payment);
+        if (status === 'confirmed' && redeemed) {
+          return { success: true, transaction, network, payer };
+        }
+        if (status === 'reverted') {
+          return {
+            success: false,
+            errorReason: 'settlement_failed',
+            transaction,
+            network,
+            payer,
+          };
+        }
+        // Another request redeemed it; verify() reports the used nonce
+      } else {
+        // Replaced: the authorization never landed, so settle it again
+        await clearPendingSettlement(payment);
+      }
+    }
+
+    const verification = await verify(payment, requirements);
+    if (!verification.isValid) {
+      return {
+        success: false,
+        errorReason: verification.invalidReason,
+        network,
+        payer: verification.payer,
+      };
+    }
+
+    const payer = verification.payer;
+    if (!settler || !client) {
+      return {
+        success: false,
+        errorReason: 'facilitator_unavailable',
+        network,
+        payer,
+      };
+    }
+
+    const { authorization, signature } = payment.payload;
+    const transferArgs = [
+      authorization.from,
+      authorization.to,
+      BigInt(authorization.value),
+      BigInt(authorization.validAfter),
+      BigInt(authorization.validBefore),
+      authorization.nonce,
+    ] as const;
+    // EOA signatures use the v/r/s overload every EIP-3009 token has; the
+    // bytes overload (USDC v2.2+) also takes smart wallet signatures
+    const data =
+      size(signature) === 65
+        ? (() => {
+            const { v, r, s, yParity } = parseSignature(signature);
+            return encodeFunctionData({
+              abi: EIP3009_ABI,
+              functionName: 'transferWithAuthorization',
+              args: [...transferArgs, Number(v ?? BigInt(yParity + 27)), r, s],
+            });
+          })()
+        : encodeFunctionData({
+            abi: EIP3009_ABI,
+            functionName: 'transferWithAuthorization',
+            args: [...transferArgs, signature],
+          });
+
+    let transaction: Hash | undefined;
+    try {
+      // Recorded before the broadcast, so a retry finds a send that lands
+      // after this request gave up on it
+      const sent = await sendFromWallet({
+        client,
+        account: settler,
+        tx: { to: requirements.asset, data },
+        onSigned: (signed) =>
+          savePendingSettlement(payment, {
+            transaction: signed.transactionHash,
+            network,
+            payer,
+            settler: signed.from,
+            settlerNonce: signed.nonce,
+          }),
+      });
+      transaction = sent.transactionHash;
+      if (sent.broadcastError) throw sent.broadcastError;
+
+      const receipt = await client.waitForTransactionReceipt({
+        hash: transaction,
+        timeout: RECEIPT_TIMEOUT_MS,
+      });
+      // A retry that saw the receipt first already granted this payment
+      const redeemed = await clearPendingSettlement(payment);
+
+      if (receipt.status === 'success') {
+        return redeemed
+          ? { success: true, transaction, network, payer }
+          : { success: false, errorReason: 'nonce_used', network, payer };
+      }
+      return {
+        success: false,
+        errorReason: 'settlement_failed',
+        transaction,
+        network,
+        payer,
+      };
+    } catch (error) {
+      if (transaction) {
+        // It may still land (or already be in the mempool); the pending
+        // record settles it on retry
+        console.warn(`x402 settlement ${transaction} still pending:`, error);
+        return {
+          success: false,
+          errorReason: 'settlement_pending',
+          transaction,
+          network,
+          payer,
+        };
+      }
+      console.error('x402 settlement failed:', error);
+      return {
+        success: false,
+        errorReason: 'settlement_failed',
+        network,
+        payer,
+      };
+    }
+  }
+
+  return { verify, settle };
+}
+
+// Facilitator reached over HTTP (POST /verify and /settle)
+export function createRemoteFacilitator(url: string): Facilitator {
+  const post = async <T>(
+    path: 'verify' | 'settle',
+    payment: PaymentPayload,
+    requirements: PaymentRequirements,
+  ): Promise<T> => {
+    const response = await fetch(`${url.replace(/\/$/, '')}/${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        x402Version: payment.x402Version,
+        paymentPayload: payment,
+        paymentRequirements: requirements,
+      }),
+    });
+    if (!response.ok) {
+      throw new Error(`Facilitator ${path} failed: HTTP ${response.status}`);
+    }
+    return response.json();
+  };
+
+  return {
+    async verify(payment, requirements) {
+      try {
+        return await post<VerifyResponse>('verify', payment, requirements);
+      } catch (error) {
+        console.error('x402 facilitator verify failed:', error);
+        return { isValid: false, invalidReason: 'facilitator_unavailable' };
+      }
+    },
+    async settle(payment, requirements) {
+      try {
+        return await post<SettleResponse>('settle', payment, requirements);
+      } catch (error) {
+        console.error('x402 facilitator settle failed:', error);
+        return {
+          success: false,
+          errorReason: 'facilitator_unavailable',
+          network: payment.network,
+        };
+      }
+    },
+  };
+}
+
+let facilitator: Facilitator | null = null;
+
+export function getFacilitator(): Facilitator {
+  if (!facilitator) {
+    facilitator = env.X402_FACILITATOR_URL
+      ? createRemoteFacilitator(env.X402_FACILITATOR_URL)
+      : createLocalFacilitator({
+          settlerPrivateKey: env.X402_FACILITATOR_PRIVATE_KEY as
+            Hex | undefined,
+        });
+  }
+  return facilitator;
+}
+
+export function paymentRequired(
+  accepts: PaymentRequirements[],
+  error: string,
+): X402PaymentResult {
+  return {
+    paid: false,
+    status: 402,
+    body: { x402Version: X402_VERSION, error, accepts },
+  };
+}
+
+/**
+ * Settle the X-PAYMENT header against `accepts`. Unpaid, malformed and
+ * rejected payments all come back as a 402 body listing the requirements
+ * again, with the reason in `error`. A settlement that hasn't been mined yet
+ * comes back as a 202 with its `transaction`; the client retries the same
+ * X-PAYMENT to collect it.
+ */
+export async function processX402Payment(
+  paymentHeader: string | null,
+  accepts: PaymentRequirements[],
+  paymentFacilitator: Facilitator = getFacilitator(),
+): Promise<X402PaymentResult> {
+  if (accepts.length === 0) {
+    return paymentRequired(
+      accepts,
+      'No x402 payment options for this resource',
+    );
+  }
+  if (!paymentHeader) {
+    return paymentRequired(accepts, 'X-PAYMENT header is required');
+  }
+
+  const payment = decodePaymentHeader(paymentHeader);
+  if (!payment) return paymentRequired(accepts, 'invalid_payload');
+
+  const requirements = accepts.find(
+    (option) =>
+      option.scheme === payment.scheme && option.network === payment.network,
+  );
+  if (!requirements) return paymentRequired(accepts, 'invalid_network');
+
+  // Settling verifies the authorization first, so there's no separate
+  // verify round trip
+  const settlement = await paymentFacilitator.settle(payment, requirements);
+  if (settlement.errorReason === 'settlement_pending') {
+    return {
+      paid: false,
+      payer: settlement.payer,
+      requirements,
+      settlement,
+      paymentResponse: encodePaymentResponseHeader(settlement),
+      status: 202,
+      body: {
+        x402Version: X402_VERSION,
+        error: 'settlement_pending',
+        accepts,
+        transaction: settlement.transaction,
+      },
+    };
+  }
+  if (!settlement.success || !settlement.transaction) {
+    return paymentRequired(
+      accepts,
+      settlement.errorReason || 'settlement_failed',
+    );
+  }
+
+  return {
+    paid: true,
+    payer: settlement.payer || payment.payload.authorization.from,
+    requirements,
+    settlement,
+    paymentResponse: encodePaymentResponseHeader(settlement),
+  };
+}
+
+/**
+ * Client side: sign an EIP-3009 authorization paying `requirements` and
+ * return the X-PAYMENT header value.
+ */
+export async function createPaymentHeader(
+  account: LocalAccount,
+  requirements: PaymentRequirements,
+): Promise<string> {
+  const chain = X402_NETWORKS[requirements.network];
+  if (!chain)
+    throw new Error(`Unsupported x402 network: ${requirements.network}`);
+
+  const now = Math.floor(Date.now() / 1000);
+  const authorization: ExactEvmAuthorization = {
+    from: account.address,
+    to: requirements.payTo,
+    value: requirements.maxAmountRequired,
+    // Allow for clock skew between client and chain
+    validAfter: (now - 600).toString(),
+    validBefore: (now + requirements.maxTimeoutSeconds).toString(),
+    nonce: toHex(crypto.getRandomValues(new Uint8Array(32))),
+  };
+
+  const signature = await account.signTypedData({
+    domain: {
+      name: requirements.extra.name,
+      version: requirements.extra.version,
+      chainId: chain.id,
+      verifyingContract: requirements.asset,
+    },
+    types: TRANSFER_WITH_AUTHORIZATION_TYPES,
+    primaryType: 'TransferWithAuthorization',
+    message: {
+      from: authorization.from,
+      to: authorization.to,
+      value: BigInt(authorization.value),
+      validAfter: BigInt(authorization.validAfter),
+      validBefore: BigInt(authorization.validBefore),
+      nonce: authorization.nonce,
+    },
+  });
+
+  return encodePaymentHeader({
+    x402Version: X402_VERSION,
+    scheme: 'exact',
+    network: requirements.network,
+    payload: { signature, authorization },
+  });
+}
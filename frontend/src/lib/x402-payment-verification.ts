@@ -0,0 +1,356 @@
+import { Redis } from '@upstash/redis';
+import {
+  createPublicClient,
+  http,
+  isAddress,
+  isAddressEqual,
+  isHash,
+  isHex,
+  parseAbi,
+  parseEventLogs,
+  parseUnits,
+  TransactionReceiptNotFoundError,
+  type Address,
+  type Chain,
+  type Hash,
+} from 'viem';
+import { base, baseSepolia, mainnet, polygon } from 'viem/chains';
+
+// On-chain verification of x402 content payments (USDC transfers)
+
+export type PaymentFailureReason =
+  | 'invalid_tx_hash'
+  | 'content_not_found'
+  | 'unsupported_network'
+  | 'wrong_chain'
+  | 'tx_not_found'
+  | 'tx_reverted'
+  | 'no_transfer'
+  | 'wrong_recipient'
+  | 'payer_unverified'
+  | 'underpaid'
+  | 'not_confirmed'
+  | 'replayed'
+  | 'registry_unavailable'
+  | 'rpc_unavailable';
+
+// HTTP status per failure: payment problems answer 402, an unproven payer
+// 403 and our own outages 503 so clients retry
+export const PAYMENT_FAILURE_STATUS: Record<PaymentFailureReason, number> = {
+  invalid_tx_hash: 402,
+  content_not_found: 402,
+  unsupported_network: 402,
+  wrong_chain: 402,
+  tx_not_found: 402,
+  tx_reverted: 402,
+  no_transfer: 402,
+  wrong_recipient: 402,
+  payer_unverified: 403,
+  underpaid: 402,
+  not_confirmed: 402,
+  replayed: 402,
+  registry_unavailable: 503,
+  rpc_unavailable: 503,
+};
+
+export interface VerifiedTransfer {
+  transactionHash: Hash;
+  chainId: number;
+  network: string;
+  token: Address;
+  from: Address;
+  to: Address;
+  amount: string; // smallest units
+  requiredAmount: string; // smallest units
+  decimals: number;
+  blockNumber: string;
+  confirmations: number;
+}
+
+export interface PaymentVerificationResult {
+  success: boolean;
+  transfer?: VerifiedTransfer;
+  reason?: PaymentFailureReason;
+  error?: string;
+}
+
+// How the caller shows it controls the wallet that paid: a signed-in session
+// (SIWE / Farcaster) for that address, or a signature by it over
+// payerProofMessage()
+export interface PayerProof {
+  sessionAddresses?: string[];
+  signature?: string;
+}
+
+interface ContentPricing {
+  amount: number | string;
+  currency?: string;
+  network?: string;
+  asset?: string;
+  payTo?: string;
+  maxAmountRequired?: string;
+  extra?: { name?: string; decimals?: number };
+}
+
+// x402 network names (as stored in content pricing) -> chains
+export const X402_NETWORKS: Record<string, Chain> = {
+  base: base,
+  'base-sepolia': baseSepolia,
+  ethereum: mainnet,
+  polygon: polygon,
+};
+
+const ERC20_TRANSFER_ABI = parseAbi([
+  'event Transfer(address indexed from, address indexed to, uint256 value)',
+]);
+
+const DEFAULT_MIN_CONFIRMATIONS = 3;
+const SPENT_TX_TTL = 86400 * 365; // 1 year
+
+const redis =
+  process.env.UPSTASH_REDIS_REST_URL && process.env.UPSTASH_REDIS_REST_TOKEN
+    ? new Redis({
+        url: process.env.UPSTASH_REDIS_REST_URL,
+        token: process.env.UPSTASH_REDIS_REST_TOKEN,
+      })
+    : null;
+
+function fail(
+  reason: PaymentFailureReason,
+  message: string,
+): PaymentVerificationResult {
+  return { success: false, reason, error: message };
+}
+
+function getMinConfirmations(): number {
+  const configured = parseInt(process.env.X402_MIN_CONFIRMATIONS || '', 10);
+  return Number.isFinite(configured) && configured > 0
+    ? configured
+    : DEFAULT_MIN_CONFIRMATIONS;
+}
+
+function spentTxKey(chainId: number, transactionHash: string): string {
+  return `x402:spent-tx:${chainId}:${transactionHash.toLowerCase()}`;
+}
+
+async function getContent(contentId: string): Promise<any | null> {
+  const contentData = await redis.get(`x402:content:${contentId}`);
+  if (!contentData) return null;
+
+  return typeof contentData === 'string'
+    ? JSON.parse(contentData)
+    : contentData;
+}
+
+// What the paying wallet signs to redeem a tx hash for content access
+export function payerProofMessage(
+  contentId: string,
+  transactionHash: string,
+): string {
+  return `Unlock content ${contentId} with payment ${transactionHash.toLowerCase()}`;
+}
+
+function getRequiredAmount(pricing: ContentPricing, decimals: number): bigint {
+  if (pricing.maxAmountRequired) {
+    return BigInt(pricing.maxAmountRequired);
+  }
+  return parseUnits(pricing.amount.toString(), decimals);
+}
+
+/**
+ * Verify that `transactionHash` is a confirmed USDC transfer paying for
+ * `contentId`, then claim the hash so it can never unlock content again.
+ * A tx hash is public once broadcast, so the caller must also prove it
+ * controls the paying wallet; this is checked before the claim so someone
+ * who merely saw the hash can neither redeem nor burn the payment.
+ */
+export async function verifyContentPayment(params: {
+  contentId: string;
+  transactionHash: string;
+  network?: string;
+  payerProof: PayerProof;
+}): Promise<PaymentVerificationResult> {
+  const { contentId, transactionHash } = params;
+
+  if (!isHash(transactionHash)) {
+    return fail(
+      'invalid_tx_hash',
+      'Transaction hash is not a 32-byte hex hash',
+    );
+  }
+
+  if (!redis) {
+    // Without the spent-tx registry we can't prevent replays, so fail closed
+    return fail(
+      'registry_unavailable',
+      'Payment registry unavailable, please try again later',
+    );
+  }
+
+  const content = await getContent(contentId);
+  if (!content) {
+    return fail('content_not_found', `Content ${contentId} not found`);
+  }
+
+  const options: ContentPricing[] = content.pricing || [];
+  const pricing = params.network
+    ? options.find((p) => (p.network || 'base') === params.network)
+    : options[0];
+  if (!pricing) {
+    return fail(
+      'wrong_chain',
+      `Content ${contentId} does not accept payment on ${params.network}`,
+    );
+  }
+
+  const network = pricing.network || 'base';
+  const chain = X402_NETWORKS[network];
+  const recipient = (pricing.payTo ||
+    content.paymentRecipient ||
+    content.creator) as Address | undefined;
+  if (!chain || !pricing.asset || !recipient) {
+    return fail(
+      'unsupported_network',
+      `Cannot verify payments on ${network} for content ${contentId}`,
+    );
+  }
+
+  const key = spentTxKey(chain.id, transactionHash);
+  if (await redis.get(key)) {
+    return fail('replayed', 'This transaction has already been used');
+  }
+
+  const client = createPublicClient({ chain, transport: http() });
+
+  let receipt;
+  try {
+    receipt = await client.getTransactionReceipt({ hash: transactionHash });
+  } catch (error) {
+    if (error instanceof TransactionReceiptNotFoundError) {
+      return fail(
+        'tx_not_found',
+        `Transaction ${transactionHash} not found on ${network}`,
+      );
+    }
+    console.error(`RPC error fetching receipt on ${network}:`, error);
+    return fail(
+      'rpc_unavailable',
+      `Could not reach ${network} RPC, please try again later`,
+    );
+  }
+
+  if (receipt.status !== 'success') {
+    return fail('tx_reverted', 'Transaction reverted');
+  }
+
+  const token = pricing.asset as Address;
+  const transfers = parseEventLogs({
+    abi: ERC20_TRANSFER_ABI,
+    eventName: 'Transfer',
+    logs: receipt.logs,
+  }).filter((log) => isAddressEqual(log.address, token));
+
+  if (transfers.length === 0) {
+    return fail(
+      'no_transfer',
+      `No ${pricing.currency || 'USDC'} transfer in transaction`,
+    );
+  }
+
+  const toRecipient = transfers.filter((log) =>
+    isAddressEqual(log.args.to, recipient),
+  );
+  if (toRecipient.length === 0) {
+    return fail('wrong_recipient', `Transfer was not sent to ${recipient}`);
+  }
+
+  const payer = toRecipient[0].args.from;
+  const { sessionAddresses = [], signature } = params.payerProof;
+  let payerProven = sessionAddresses.some(
+    (address) => isAddress(address) && isAddressEqual(address, payer),
+  );
+  if (!payerProven && signature && isHex(signature)) {
+    try {
+      // Handles smart-wallet (ERC-1271 / ERC-6492) signatures too
+      payerProven = await client.verifyMessage({
+        address: payer,
+        message: payerProofMessage(contentId, transactionHash),
+        signature,
+      });
+    } catch (error) {
+      console.error(
+        `RPC error verifying payer signature on ${network}:`,
+        error,
+      );
+      return fail(
+        'rpc_unavailable',
+        `Could not reach ${network} RPC, please try again later`,
+      );
+    }
+  }
+  if (!payerProven) {
+    return fail(
+      'payer_unverified',
+      `Sign in as ${payer} or sign the payment message with it to redeem this transaction`,
+    );
+  }
+
+  const decimals = pricing.extra?.decimals ?? 6;
+  const required = getRequiredAmount(pricing, decimals);
+  const paid = toRecipient.reduce(
+    (sum, log) => sum + log.args.value,
+    BigInt(0),
+  );
+  if (paid < required) {
+    return fail(
+      'underpaid',
+      `Paid ${paid.toString()} but content requires ${required.toString()}`,
+    );
+  }
+
+  let currentBlock: bigint;
+  try {
+    currentBlock = await client.getBlockNumber();
+  } catch (error) {
+    console.error(`RPC error fetching block number on ${network}:`, error);
+    return fail(
+      'rpc_unavailable',
+      `Could not reach ${network} RPC, please try again later`,
+    );
+  }
+  const confirmations = Number(currentBlock - receipt.blockNumber) + 1;
+  const minConfirmations = getMinConfirmations();
+  if (confirmations < minConfirmations) {
+    return fail(
+      'not_confirmed',
+      `Transaction has ${confirmations}/${minConfirmations} confirmations`,
+    );
+  }
+
+  // Claim the hash atomically - a concurrent request with the same tx loses
+  const claimed = await redis.set(
+    key,
+    JSON.stringify({ contentId, claimedAt: new Date().toISOString() }),
+    { nx: true, ex: SPENT_TX_TTL },
+  );
+  if (claimed === null) {
+    return fail('replayed', 'This transaction has already been used');
+  }
+
+  return {
+    success: true,
+    transfer: {
+      transactionHash,
+      chainId: chain.id,
+      network,
+      token,
+      from: payer,
+      to: recipient,
+      amount: paid.toString(),
+      requiredAmount: required.toString(),
+      decimals,
+      blockNumber: receipt.blockNumber.toString(),
+      confirmations,
+    },
+  };
+}
@@ -1,5 +1,9 @@
 import { createHash, randomBytes } from 'crypto';
-import jwt from 'jsonwebtoken';
+import {
+  issueAccessToken,
+  verifyAccessToken,
+  type AccessTokenVerification,
+} from './x402-access-token';
 
 // X402 Protocol Implementation
 export interface X402Content {
@@ -70,30 +74,19 @@ export class X402Server {
 
   // Process payment and generate access token
   async processPayment(payment: X402Payment): Promise<string> {
-    // Create JWT access token
-    const accessToken = jwt.sign(
-      {
-        contentId: payment.contentId,
-        payerAddress: payment.payerAddress,
-        amount: payment.amount,
-        paymentId: payment.id,
-        iat: Math.floor(Date.now() / 1000),
-        exp: Math.floor(Date.now() / 1000) + (24 * 60 * 60) // 24 hours
-      },
-      this.secret
-    );
-
-    return accessToken;
+    const { token } = issueAccessToken({
+      contentId: payment.contentId,
+      payerAddress: payment.payerAddress,
+      paymentId: payment.id,
+      amount: payment.amount,
+    });
+
+    return token;
   }
 
   // Verify access token
-  verifyAccess(token: string, contentId: string): boolean {
-    try {
-      const decoded = jwt.verify(token, this.secret) as any;
-      return decoded.contentId === contentId && decoded.exp > Math.floor(Date.now() / 1000);
-    } catch {
-      return false;
-    }
+  async verifyAccess(token: string, contentId: string): Promise<AccessTokenVerification> {
+    return verifyAccessToken(token, contentId);
   }
 
   // Store content securely
@@ -108,7 +101,7 @@ export class X402Server {
 
   // Retrieve content with access verification
   async getContent(contentId: string, accessToken?: string): Promise<X402Content | null> {
-    if (!accessToken || !this.verifyAccess(accessToken, contentId)) {
+    if (!accessToken || !(await this.verifyAccess(accessToken, contentId)).valid) {
       // Return preview/metadata only
       const storageKey = `x402:content:${contentId}`;
       if (typeof window !== 'undefined') {
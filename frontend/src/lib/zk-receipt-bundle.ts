@@ -0,0 +1,570 @@
+import { verifyProof as verifyReclaimProof } from '@reclaimprotocol/js-sdk';
+import {
+  concat,
+  isAddress,
+  isAddressEqual,
+  isHash,
+  keccak256,
+  parseEventLogs,
+  parseAbi,
+  parseEther,
+  parseUnits,
+  toBytes,
+  verifyTypedData,
+  zeroHash,
+  type Address,
+  type Hex,
+} from 'viem';
+import { z } from 'zod';
+import {
+  STEALTH_CHAINS,
+  getStealthChainClient,
+  type StealthChainClient,
+  type StealthChainName,
+} from './stealth-chains';
+import type { ZKReceipt } from './zk-receipt-storage';
+
+/**
+ * Portable ZK receipt bundles. Each entry carries the receipt, the Reclaim
+ * proof behind it and the settlement transaction. The entries are hashed
+ * into a Merkle root that the exporting wallet signs (EIP-712), and every
+ * entry keeps its inclusion path, so a single entry cut out of a bundle still
+ * verifies.
+ *
+ * `verifyReceiptBundle` only needs viem, the Reclaim SDK and public RPCs, so
+ * an accountant or counterparty can check a bundle without the app:
+ *
+ *   const result = await verifyReceiptBundle(readFileSync('bundle.json', 'utf8'));
+ */
+
+export const ZK_RECEIPT_BUNDLE_FORMAT = 'dstealth-zk-receipt-bundle';
+export const ZK_RECEIPT_BUNDLE_VERSION = 2; // 1.0 was the unsigned raw export
+
+export const ZK_RECEIPT_BUNDLE_DOMAIN = {
+  name: 'dstealth ZK receipts',
+  version: String(ZK_RECEIPT_BUNDLE_VERSION),
+} as const;
+
+export const ZK_RECEIPT_BUNDLE_TYPES = {
+  ZKReceiptBundle: [
+    { name: 'exporter', type: 'address' },
+    { name: 'exportedAt', type: 'uint256' },
+    { name: 'receiptCount', type: 'uint256' },
+    { name: 'receiptsRoot', type: 'bytes32' },
+  ],
+} as const;
+
+export interface ZKReceiptSettlement {
+  network: string; // receipt networkId
+  chainId?: number; // unset when the network isn't one we can check
+  transactionHash: string;
+}
+
+export interface ZKReceiptBundleEntry {
+  receipt: Omit<ZKReceipt, 'zkProof' | 'syncedAt' | 'localOnly' | 'exported'>;
+  proof: any; // Reclaim proof (or proofs) behind the receipt, null if none
+  settlement: ZKReceiptSettlement | null;
+  merkleProof: string[]; // sibling hashes up to receiptsRoot
+}
+
+export interface ZKReceiptBundle {
+  format: typeof ZK_RECEIPT_BUNDLE_FORMAT;
+  version: typeof ZK_RECEIPT_BUNDLE_VERSION;
+  exporter: string;
+  exportedAt: number;
+  chainId?: number; // where smart-wallet signatures are checked
+  receiptCount: number;
+  receiptsRoot: string;
+  signature: string;
+  entries: ZKReceiptBundleEntry[];
+}
+
+// What the exporting wallet signs; pass to wagmi's signTypedDataAsync
+export interface ZKReceiptBundleTypedData {
+  domain: typeof ZK_RECEIPT_BUNDLE_DOMAIN;
+  types: typeof ZK_RECEIPT_BUNDLE_TYPES;
+  primaryType: 'ZKReceiptBundle';
+  message: {
+    exporter: Address;
+    exportedAt: bigint;
+    receiptCount: bigint;
+    receiptsRoot: Hex;
+  };
+}
+
+export type ZKReceiptCheck = 'verified' | 'missing' | 'skipped' | 'failed';
+
+export type ZKReceiptRejectReason =
+  | 'not_in_bundle' // entry was changed after signing
+  | 'wrong_owner'
+  | 'settlement_mismatch'
+  | 'invalid_proof'
+  | 'proof_mismatch'
+  | 'unsupported_network'
+  | 'tx_not_found'
+  | 'tx_reverted'
+  | 'wrong_recipient'
+  | 'wrong_amount'
+  | 'unsupported_currency';
+
+export interface ZKReceiptEntryVerification {
+  id: string;
+  valid: boolean;
+  proof: ZKReceiptCheck;
+  settlement: ZKReceiptCheck;
+  reasons: ZKReceiptRejectReason[];
+}
+
+export interface ZKReceiptBundleVerification {
+  valid: boolean; // signature holds and every entry verified
+  signatureValid: boolean;
+  exporter: string;
+  exportedAt: number;
+  complete: boolean; // receiptCount distinct signed receipts are present
+  entries: ZKReceiptEntryVerification[];
+}
+
+export interface ZKReceiptBundleVerifyOptions {
+  verifyProof?: (proof: any) => Promise<boolean>;
+  getClient?: (chainId: number) => StealthChainClient | undefined;
+  checkSettlements?: boolean; // default true; false skips the RPC calls
+}
+
+export class ZKReceiptBundleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ZKReceiptBundleError';
+  }
+}
+
+const ERC20_TRANSFER_ABI = parseAbi([
+  'event Transfer(address indexed from, address indexed to, uint256 value)',
+]);
+
+// Receipt networkIds that aren't STEALTH_CHAINS keys
+const NETWORK_ALIASES: Record<string, StealthChainName> = {
+  ethereum: 'mainnet',
+  'base-sepolia': 'baseSepolia',
+};
+
+const bundleSchema = z.object({
+  format: z.literal(ZK_RECEIPT_BUNDLE_FORMAT),
+  version: z.literal(ZK_RECEIPT_BUNDLE_VERSION),
+  exporter: z.string().regex(/^0x[0-9a-fA-F]{40}$/),
+  exportedAt: z.number().int().nonnegative(),
+  chainId: z.number().int().positive().optional(),
+  receiptCount: z.number().int().nonnegative(),
+  receiptsRoot: z.string().regex(/^0x[0-9a-fA-F]{64}$/),
+  signature: z.string().regex(/^0x[0-9a-fA-F]+$/),
+  entries: z.array(
+    z.object({
+      receipt: z
+        .object({ id: z.string(), userAddress: z.string() })
+        .passthrough(),
+      proof: z.any(),
+      settlement: z
+        .object({
+          network: z.string(),
+          chainId: z.number().int().positive().optional(),
+          transactionHash: z.string(),
+        })
+        .nullable(),
+      merkleProof: z.array(z.string().regex(/^0x[0-9a-fA-F]{64}$/)),
+    }),
+  ),
+});
+
+// Sorted keys, undefined dropped: the hash survives a JSON round trip
+function canonicalize(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((v) => canonicalize(v ?? null)).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries
+      .map(([k, v]) => `${JSON.stringify(k)}:${canonicalize(v)}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function entryLeaf(entry: Omit<ZKReceiptBundleEntry, 'merkleProof'>): Hex {
+  const { receipt, proof, settlement } = entry;
+  return keccak256(toBytes(canonicalize({ receipt, proof, settlement })));
+}
+
+function hashPair(a: Hex, b: Hex): Hex {
+  return a.toLowerCase() < b.toLowerCase()
+    ? keccak256(concat([a, b]))
+    : keccak256(concat([b, a]));
+}
+
+// Layers from the leaves up; an odd node is carried to the next layer
+function buildLayers(leaves: Hex[]): Hex[][] {
+  const layers = [leaves];
+  while (layers[layers.length - 1].length > 1) {
+    const layer = layers[layers.length - 1];
+    const next: Hex[] = [];
+    for (let i = 0; i < layer.length; i += 2) {
+      next.push(
+        i + 1 < layer.length ? hashPair(layer[i], layer[i + 1]) : layer[i],
+      );
+    }
+    layers.push(next);
+  }
+  return layers;
+}
+
+function merkleProofFor(layers: Hex[][], index: number): Hex[] {
+  const proof: Hex[] = [];
+  for (const layer of layers.slice(0, -1)) {
+    const sibling = index ^ 1;
+    if (sibling < layer.length) proof.push(layer[sibling]);
+    index = Math.floor(index / 2);
+  }
+  return proof;
+}
+
+export function resolveReceiptNetwork(
+  networkId: string | undefined,
+): StealthChainName | undefined {
+  if (!networkId) return undefined;
+  const chainId = Number(networkId);
+  const names = Object.keys(STEALTH_CHAINS) as StealthChainName[];
+  if (Number.isInteger(chainId)) {
+    return names.find((name) => STEALTH_CHAINS[name].chain.id === chainId);
+  }
+  return names.includes(networkId as StealthChainName)
+    ? (networkId as StealthChainName)
+    : NETWORK_ALIASES[networkId];
+}
+
+function defaultClient(chainId: number): StealthChainClient | undefined {
+  const network = (Object.keys(STEALTH_CHAINS) as StealthChainName[]).find(
+    (name) => STEALTH_CHAINS[name].chain.id === chainId,
+  );
+  return network ? getStealthChainClient(network) : undefined;
+}
+
+export function getBundleTypedData(
+  bundle: Pick<
+    ZKReceiptBundle,
+    'exporter' | 'exportedAt' | 'receiptCount' | 'receiptsRoot'
+  >,
+): ZKReceiptBundleTypedData {
+  return {
+    domain: ZK_RECEIPT_BUNDLE_DOMAIN,
+    types: ZK_RECEIPT_BUNDLE_TYPES,
+    primaryType: 'ZKReceiptBundle',
+    message: {
+      exporter: bundle.exporter as Address,
+      exportedAt: BigInt(bundle.exportedAt),
+      receiptCount: BigInt(bundle.receiptCount),
+      receiptsRoot: bundle.receiptsRoot as Hex,
+    },
+  };
+}
+
+/**
+ * Build and sign a bundle of `exporter`'s receipts. Receipts without an
+ * owner are claimed for the exporter; client-side sync fields are dropped,
+ * and so are exact duplicates, which would only count once when verified.
+ */
+export async function createReceiptBundle(params: {
+  exporter: string;
+  receipts: ZKReceipt[];
+  chainId?: number;
+  signTypedData: (typedData: ZKReceiptBundleTypedData) => Promise<Hex>;
+}): Promise<ZKReceiptBundle> {
+  const built = params.receipts.map((full) => {
+    const { zkProof, syncedAt, localOnly, exported, ...receipt } = full;
+    const network = resolveReceiptNetwork(receipt.networkId);
+    return {
+      receipt: {
+        ...receipt,
+        userAddress: receipt.userAddress || params.exporter,
+      },
+      proof: zkProof ?? null,
+      settlement: receipt.transactionHash
+        ? {
+            network: receipt.networkId || 'base',
+            chainId: network ? STEALTH_CHAINS[network].chain.id : undefined,
+            transactionHash: receipt.transactionHash,
+          }
+        : null,
+    };
+  });
+  const leaves = built.map(entryLeaf);
+  const entries = built.filter((_, i) => leaves.indexOf(leaves[i]) === i);
+
+  const layers = buildLayers(entries.map(entryLeaf));
+  const unsigned: Omit<ZKReceiptBundle, 'signature'> = {
+    format: ZK_RECEIPT_BUNDLE_FORMAT,
+    version: ZK_RECEIPT_BUNDLE_VERSION,
+    exporter: params.exporter,
+    exportedAt: Date.now(),
+    chainId: params.chainId,
+    receiptCount: entries.length,
+    receiptsRoot: entries.length ? layers[layers.length - 1][0] : zeroHash,
+    entries: entries.map((entry, i) => ({
+      ...entry,
+      merkleProof: merkleProofFor(layers, i),
+    })),
+  };
+  const signature = await params.signTypedData(getBundleTypedData(unsigned));
+  return { ...unsigned, signature };
+}
+
+// Parse a bundle from JSON, rejecting anything that isn't the signed format
+export function parseReceiptBundle(input: string | unknown): ZKReceiptBundle {
+  let data = input;
+  if (typeof input === 'string') {
+    try {
+      data = JSON.parse(input);
+    } catch {
+      throw new ZKReceiptBundleError('Bundle is not valid JSON');
+    }
+  }
+  if ((data as { version?: unknown })?.version === '1.0') {
+    throw new ZKReceiptBundleError(
+      'Unsigned 1.0 exports are not accepted; export again to get a signed bundle',
+    );
+  }
+  const parsed = bundleSchema.safeParse(data);
+  if (!parsed.success) {
+    throw new ZKReceiptBundleError('Not a dstealth ZK receipt bundle');
+  }
+  // zod infers every field as optional without strictNullChecks
+  return parsed.data as ZKReceiptBundle;
+}
+
+// The ZKReceipt an entry describes, as stored locally after import
+export function bundleEntryToReceipt(entry: ZKReceiptBundleEntry): ZKReceipt {
+  return { ...entry.receipt, zkProof: entry.proof } as ZKReceipt;
+}
+
+// Proofs must attest the receipt's fkey.id page showing its stealthAddress;
+// where the payment went is the settlement's business
+function proofMatchesReceipt(
+  proof: any,
+  receipt: ZKReceiptBundleEntry['receipt'],
+): boolean {
+  try {
+    const { url } = JSON.parse(proof.claimData.parameters);
+    const host = new URL(url).hostname.toLowerCase();
+    const name = (receipt.fkeyId || '')
+      .toLowerCase()
+      .replace(/\.fkey\.id$/, '');
+    if (!name || host !== `${name}.fkey.id`) return false;
+
+    const { extractedParameters } = JSON.parse(proof.claimData.context);
+    const extracted = extractedParameters?.address;
+    return (
+      typeof extracted === 'string' &&
+      isAddress(extracted, { strict: false }) &&
+      extracted.toLowerCase() === (receipt.stealthAddress || '').toLowerCase()
+    );
+  } catch {
+    return false;
+  }
+}
+
+// The token a receipt was paid in: the chain's USDC, or null for ETH
+function receiptToken(
+  currency: string | undefined,
+  chainId: number,
+): { token: Address | null; decimals: number } | undefined {
+  const network = resolveReceiptNetwork(String(chainId));
+  const symbol = (currency || '').toUpperCase();
+  if (symbol === 'USDC' && network) {
+    return { token: STEALTH_CHAINS[network].usdc as Address, decimals: 6 };
+  }
+  if (symbol === 'ETH') return { token: null, decimals: 18 };
+  return undefined;
+}
+
+async function checkProof(
+  entry: ZKReceiptBundleEntry,
+  verify: (proof: any) => Promise<boolean>,
+  reasons: ZKReceiptRejectReason[],
+): Promise<ZKReceiptCheck> {
+  if (!entry.proof) return 'missing';
+  const proofs = Array.isArray(entry.proof) ? entry.proof : [entry.proof];
+
+  for (const proof of proofs) {
+    const valid = await verify(proof).catch(() => false);
+    if (!valid) {
+      reasons.push('invalid_proof');
+      return 'failed';
+    }
+    if (!proofMatchesReceipt(proof, entry.receipt)) {
+      reasons.push('proof_mismatch');
+      return 'failed';
+    }
+  }
+  return 'verified';
+}
+
+async function checkSettlement(
+  entry: ZKReceiptBundleEntry,
+  getClient: (chainId: number) => StealthChainClient | undefined,
+  reasons: ZKReceiptRejectReason[],
+): Promise<ZKReceiptCheck> {
+  const { receipt, settlement } = entry;
+  if (!settlement) return 'missing';
+
+  const client = settlement.chainId ? getClient(settlement.chainId) : undefined;
+  if (!client || !isHash(settlement.transactionHash)) {
+    reasons.push('unsupported_network');
+    return 'failed';
+  }
+
+  let txReceipt;
+  try {
+    txReceipt = await client.getTransactionReceipt({
+      hash: settlement.transactionHash,
+    });
+  } catch {
+    reasons.push('tx_not_found');
+    return 'failed';
+  }
+  if (txReceipt.status !== 'success') {
+    reasons.push('tx_reverted');
+    return 'failed';
+  }
+
+  // One-time and swept payments go somewhere other than the proven address
+  const paidTo = receipt.paidAddress || receipt.stealthAddress;
+  if (!paidTo || !isAddress(paidTo)) {
+    reasons.push('wrong_recipient');
+    return 'failed';
+  }
+
+  const paymentToken = receiptToken(receipt.currency, settlement.chainId);
+  if (!paymentToken) {
+    reasons.push('unsupported_currency');
+    return 'failed';
+  }
+  let expected: bigint;
+  try {
+    expected = paymentToken.token
+      ? parseUnits(receipt.amount || '', paymentToken.decimals)
+      : parseEther(receipt.amount || '');
+  } catch {
+    reasons.push('wrong_amount');
+    return 'failed';
+  }
+
+  // The receipt's amount of its token must reach the paid address
+  let transfers: { to: Address; value: bigint }[];
+  if (paymentToken.token) {
+    const token = paymentToken.token;
+    transfers = parseEventLogs({
+      abi: ERC20_TRANSFER_ABI,
+      eventName: 'Transfer',
+      logs: txReceipt.logs,
+    })
+      .filter((log) => isAddressEqual(log.address, token))
+      .map((log) => log.args);
+  } else {
+    const tx = await client
+      .getTransaction({ hash: settlement.transactionHash })
+      .catch(() => null);
+    transfers = tx?.to ? [{ to: tx.to, value: tx.value }] : [];
+  }
+
+  const toPaid = transfers.filter((t) => isAddressEqual(t.to, paidTo));
+  if (!toPaid.length) {
+    reasons.push('wrong_recipient');
+    return 'failed';
+  }
+  if (!toPaid.some((t) => t.value === expected)) {
+    reasons.push('wrong_amount');
+    return 'failed';
+  }
+  return 'verified';
+}
+
+/**
+ * Check a bundle: the exporter's signature over the root, each entry's
+ * inclusion and owner, its Reclaim proof and its settlement on-chain.
+ * Receipts without a proof or transaction (e.g. still pending) report the
+ * check as `missing` rather than failing. The bundle is complete when
+ * receiptCount distinct entries prove inclusion; a repeated entry can't
+ * stand in for one that was cut.
+ */
+export async function verifyReceiptBundle(
+  input: string | ZKReceiptBundle,
+  options: ZKReceiptBundleVerifyOptions = {},
+): Promise<ZKReceiptBundleVerification> {
+  const bundle = parseReceiptBundle(input);
+  const verify =
+    options.verifyProof ?? ((proof: any) => verifyReclaimProof(proof));
+  const getClient = options.getClient ?? defaultClient;
+
+  // Through a client, smart-wallet (ERC-1271/6492) exporters verify too
+  const typedData = {
+    ...getBundleTypedData(bundle),
+    address: bundle.exporter as Address,
+    signature: bundle.signature as Hex,
+  };
+  const client = bundle.chainId ? getClient(bundle.chainId) : undefined;
+  const signatureValid = await (
+    client ? client.verifyTypedData(typedData) : verifyTypedData(typedData)
+  ).catch(() => false);
+
+  const entries: ZKReceiptEntryVerification[] = [];
+  const included = new Set<Hex>();
+  for (const entry of bundle.entries) {
+    const reasons: ZKReceiptRejectReason[] = [];
+
+    const leaf = entryLeaf(entry);
+    const root = (entry.merkleProof as Hex[]).reduce(hashPair, leaf);
+    if (root.toLowerCase() !== bundle.receiptsRoot.toLowerCase()) {
+      reasons.push('not_in_bundle');
+    } else {
+      included.add(leaf);
+    }
+    if (
+      !isAddress(entry.receipt.userAddress) ||
+      !isAddressEqual(entry.receipt.userAddress, bundle.exporter as Address)
+    ) {
+      reasons.push('wrong_owner');
+    }
+    if (
+      (entry.settlement?.transactionHash || undefined) !==
+      (entry.receipt.transactionHash || undefined)
+    ) {
+      reasons.push('settlement_mismatch');
+    }
+
+    const proof = await checkProof(entry, verify, reasons);
+    const settlement =
+      options.checkSettlements === false
+        ? entry.settlement
+          ? 'skipped'
+          : 'missing'
+        : await checkSettlement(entry, getClient, reasons);
+
+    entries.push({
+      id: entry.receipt.id,
+      valid: signatureValid && reasons.length === 0,
+      proof,
+      settlement,
+      reasons,
+    });
+  }
+
+  return {
+    valid: signatureValid && entries.every((e) => e.valid),
+    signatureValid,
+    exporter: bundle.exporter,
+    exportedAt: bundle.exportedAt,
+    complete:
+      included.size === bundle.receiptCount &&
+      bundle.entries.length === bundle.receiptCount,
+    entries,
+  };
+}
@@ -0,0 +1,231 @@
+import type { Redis } from '@upstash/redis';
+import { getAddress } from 'viem';
+import { z } from 'zod';
+import { canActFor, type AuthenticatedUser } from './auth';
+import type { ZKReceipt } from './zk-receipt-storage';
+
+/**
+ * Server side of /api/zkreceipts. Receipts are stored under keys built from
+ * the authenticated address, never from anything the client sends:
+ *
+ *   zk_receipts:sender:<owner>:<id>                the submitter's own receipt
+ *   zk_receipts:recipient:<owner>:<sender>:<id>   a copy for the named recipient
+ *
+ * Both are written NX, and a recipient copy lives under its sender, so a
+ * caller can neither overwrite a stored receipt nor pass one off as sent by
+ * someone else.
+ *
+ * Receipts the backend and API routes write directly (`zk_receipt:<kind>:
+ * <address>:<ts>`) are trusted server writes and show up in the sender view.
+ */
+
+export type ZKReceiptView = 'sender' | 'recipient';
+
+const RECEIPT_TTL_SECONDS = 86400 * 7; // local-first: Redis only syncs recent receipts
+export const MAX_RECEIPT_BYTES = 64 * 1024;
+
+const address = z.string().regex(/^0x[0-9a-fA-F]{40}$/);
+
+// Mirrors ZKReceipt; client-only fields (syncedAt, localOnly, exported) and
+// unknown top-level fields are stripped
+export const zkReceiptSchema = z.object({
+  id: z.string().regex(/^[A-Za-z0-9_:.-]{1,256}$/),
+  fkeyId: z.string().max(256),
+  stealthAddress: address.or(z.literal('')),
+  paidAddress: address.optional(),
+  userAddress: address.optional(), // defaults to the signed-in address
+  recipientAddress: address.optional(),
+  zkProof: z.any(),
+  timestamp: z.number().int().positive(),
+  status: z.enum(['pending_payment', 'completed', 'proof_generated']),
+  source: z.string().max(128),
+  transactionHash: z
+    .string()
+    .regex(/^0x[0-9a-fA-F]{64}$/)
+    .optional(),
+  networkId: z.string().max(64).optional(),
+  amount: z.string().max(78).optional(),
+  currency: z.string().max(16).optional(),
+  paymentUrl: z.string().max(2048).optional(),
+  metadata: z
+    .object({
+      transactionType: z.string().max(128),
+      privacyFeature: z.string().max(128),
+      zkProofAvailable: z.boolean(),
+    })
+    .passthrough(),
+});
+
+export type ZKReceiptInput = z.infer<typeof zkReceiptSchema>;
+
+export interface StoredZKReceipt extends ZKReceipt {
+  view: ZKReceiptView;
+  submittedBy: string; // authenticated address that stored it
+  storedAt: number;
+}
+
+// Fields a payment-link receipt may change once the link is paid
+export const zkReceiptUpdateSchema = z.object({
+  paymentLinkId: z.string().regex(/^[A-Za-z0-9_:.-]{1,256}$/),
+  updates: z
+    .object({
+      transactionHash: z
+        .string()
+        .regex(/^0x[0-9a-fA-F]{64}$/)
+        .optional(),
+      status: z
+        .enum(['pending_payment', 'completed', 'proof_generated'])
+        .optional(),
+      completedAt: z.number().int().positive().optional(),
+      txUrl: z.string().url().max(2048).optional(),
+    })
+    .strict(),
+});
+
+export class ZKReceiptAccessError extends Error {
+  constructor(
+    message: string,
+    readonly status = 403,
+  ) {
+    super(message);
+    this.name = 'ZKReceiptAccessError';
+  }
+}
+
+type ReceiptRedis = Pick<Redis, 'get' | 'set' | 'keys'>;
+
+export function senderReceiptKey(owner: string, id: string): string {
+  return `zk_receipts:sender:${owner.toLowerCase()}:${id}`;
+}
+
+export function recipientReceiptKey(
+  recipient: string,
+  sender: string,
+  id: string,
+): string {
+  return `zk_receipts:recipient:${recipient.toLowerCase()}:${sender.toLowerCase()}:${id}`;
+}
+
+function parseRecord<T>(data: unknown): T | null {
+  if (!data) return null;
+  try {
+    return (typeof data === 'string' ? JSON.parse(data) : data) as T;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Store a receipt for `user`. The sender copy is always the caller's; a
+ * `recipientAddress` also gets a read-only copy tagged with who sent it.
+ */
+export async function storeReceipt(
+  redis: ReceiptRedis,
+  user: AuthenticatedUser,
+  input: ZKReceiptInput,
+): Promise<StoredZKReceipt> {
+  const owner = input.userAddress
+    ? getAddress(input.userAddress)
+    : user.address;
+  if (!canActFor(user, owner)) {
+    throw new ZKReceiptAccessError(
+      'userAddress must be an address you are signed in with',
+    );
+  }
+
+  // zod infers every field as optional without strictNullChecks; parsing
+  // guaranteed the required ones
+  const receipt = {
+    ...input,
+    userAddress: owner,
+    recipientAddress: input.recipientAddress
+      ? getAddress(input.recipientAddress)
+      : undefined,
+    view: 'sender',
+    submittedBy: user.address,
+    storedAt: Date.now(),
+  } as StoredZKReceipt;
+
+  const stored = await redis.set(
+    senderReceiptKey(owner, receipt.id),
+    JSON.stringify(receipt),
+    { ex: RECEIPT_TTL_SECONDS, nx: true },
+  );
+  if (stored === null) {
+    throw new ZKReceiptAccessError(
+      `Receipt ${receipt.id} is already stored`,
+      409,
+    );
+  }
+  if (receipt.recipientAddress && receipt.recipientAddress !== owner) {
+    await redis.set(
+      recipientReceiptKey(receipt.recipientAddress, owner, receipt.id),
+      JSON.stringify({ ...receipt, view: 'recipient' }),
+      { ex: RECEIPT_TTL_SECONDS, nx: true },
+    );
+  }
+  return receipt;
+}
+
+export async function listReceipts(
+  redis: ReceiptRedis,
+  owner: string,
+  view: ZKReceiptView,
+): Promise<(StoredZKReceipt | (ZKReceipt & { view: ZKReceiptView }))[]> {
+  const lower = owner.toLowerCase();
+  const keys = await redis.keys(`zk_receipts:${view}:${lower}:*`);
+  const serverKeys =
+    view === 'sender' ? await redis.keys(`zk_receipt:*:${lower}:*`) : [];
+
+  const receipts = [];
+  for (const key of [...keys, ...serverKeys]) {
+    const record = parseRecord<ZKReceipt>(await redis.get(key));
+    if (!record) continue;
+    receipts.push(
+      key.startsWith('zk_receipts:')
+        ? (record as StoredZKReceipt)
+        : { ...record, id: key, view },
+    );
+  }
+  return receipts.sort((a, b) => (b.timestamp || 0) - (a.timestamp || 0));
+}
+
+/**
+ * Apply `updates` to the caller's receipts for a payment link, and to the
+ * recipient copies they sent.
+ */
+export async function updatePaymentLinkReceipts(
+  redis: ReceiptRedis,
+  owner: string,
+  paymentLinkId: string,
+  updates: z.infer<typeof zkReceiptUpdateSchema>['updates'],
+): Promise<number> {
+  const keys = await redis.keys(senderReceiptKey(owner, '*'));
+  let updated = 0;
+
+  for (const key of keys) {
+    const receipt = parseRecord<StoredZKReceipt>(await redis.get(key));
+    if (receipt?.metadata?.paymentLinkId !== paymentLinkId) continue;
+
+    const next: StoredZKReceipt = {
+      ...receipt,
+      transactionHash: updates.transactionHash ?? receipt.transactionHash,
+      status: updates.status ?? receipt.status,
+      metadata: {
+        ...receipt.metadata,
+        ...(updates.completedAt && { completedAt: updates.completedAt }),
+        ...(updates.txUrl && { txUrl: updates.txUrl }),
+      },
+    };
+    await redis.set(key, JSON.stringify(next), { ex: RECEIPT_TTL_SECONDS });
+    if (next.recipientAddress && next.recipientAddress !== next.userAddress) {
+      await redis.set(
+        recipientReceiptKey(next.recipientAddress, owner, next.id),
+        JSON.stringify({ ...next, view: 'recipient' }),
+        { ex: RECEIPT_TTL_SECONDS },
+      );
+    }
+    updated++;
+  }
+  return updated;
+}
@@ -5,14 +5,26 @@
  * 1. Storing receipts in localStorage for permanent local access
  * 2. Using Redis for recent receipts (7 days) and cross-device sync
  * 3. Periodic sync from Redis to localStorage
- * 4. Export/import functionality for user control
+ * 4. Export/import functionality for user control (signed bundles, see
+ *    zk-receipt-bundle.ts)
  */
 
+import {
+  ZKReceiptBundleError,
+  bundleEntryToReceipt,
+  createReceiptBundle,
+  parseReceiptBundle,
+  verifyReceiptBundle,
+  type ZKReceiptBundleTypedData,
+} from './zk-receipt-bundle';
+
 export interface ZKReceipt {
   id: string;
   fkeyId: string;
-  stealthAddress: string;
+  stealthAddress: string; // what the fkey.id proof attests, '' when there's none
+  paidAddress?: string; // where the payment went, when not stealthAddress (e.g. a one-time address)
   userAddress: string;
+  recipientAddress?: string; // also listed in this address's recipient view
   zkProof: any;
   timestamp: number;
   status: 'pending_payment' | 'completed' | 'proof_generated';
@@ -53,6 +65,7 @@ class ZKReceiptStorage {
   
   private syncTimer: NodeJS.Timeout | null = null;
   private syncInProgress = false;
+  private signInRequired = false;
 
   constructor() {
     this.startPeriodicSync();
@@ -162,13 +175,19 @@ class ZKReceiptStorage {
   }
 
   /**
-   * 🔧 REDIS: Get receipts from Redis
+   * 🔧 REDIS: Get receipts from Redis (owner-scoped API; needs a signed-in session)
    */
-  private async getRedisReceipts(userAddress: string): Promise<ZKReceipt[]> {
+  private async getRedisReceipts(userAddress: string, view: 'sender' | 'recipient' = 'sender'): Promise<ZKReceipt[]> {
     try {
-      const response = await fetch(`/api/zkreceipts?userAddress=${userAddress}`);
+      const params = new URLSearchParams({ view, userAddress });
+      const response = await fetch(`/api/zkreceipts?${params}`, { credentials: 'include' });
+      if (response.status === 401) {
+        this.signInRequired = true;
+        return [];
+      }
       if (!response.ok) throw new Error(`Redis fetch failed: ${response.status}`);
       
+      this.signInRequired = false;
       const data = await response.json();
       return data.zkReceipts || [];
       
@@ -179,20 +198,24 @@ class ZKReceiptStorage {
   }
 
   /**
-   * 🔧 REDIS: Save receipt to Redis
+   * 🔧 REDIS: Save receipt to Redis; the server keys it by the signed-in address
    */
   private async saveToRedis(receipt: ZKReceipt): Promise<void> {
     try {
+      // Client-side sync fields aren't part of the stored receipt
+      const { syncedAt, localOnly, exported, ...stored } = receipt;
       const response = await fetch('/api/zkreceipts', {
         method: 'POST',
+        credentials: 'include',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          key: receipt.id,
-          data: receipt
-        })
+        body: JSON.stringify({ receipt: stored })
       });
       
-      if (!response.ok) {
+      if (response.status === 401) {
+        this.signInRequired = true;
+      }
+      // 409: this receipt id was already synced
+      if (!response.ok && response.status !== 409) {
         throw new Error(`Redis save failed: ${response.status}`);
       }
       
@@ -202,6 +225,20 @@ class ZKReceiptStorage {
     }
   }
 
+  /**
+   * 🔧 RECIPIENT VIEW: Receipts other users sent to this address (Redis only)
+   */
+  async getReceivedReceipts(userAddress: string): Promise<ZKReceipt[]> {
+    return this.getRedisReceipts(userAddress, 'recipient');
+  }
+
+  /**
+   * 🔧 AUTH: Whether the last Redis call was rejected for lack of a session
+   */
+  isSignInRequired(): boolean {
+    return this.signInRequired;
+  }
+
   /**
    * 🔧 MERGE: Combine local and Redis receipts
    */
@@ -299,37 +336,34 @@ class ZKReceiptStorage {
   }
 
   /**
-   * 🔧 EXPORT: Export ZK receipts for backup
+   * 🔧 EXPORT: Export ZK receipts as a bundle signed by the user's wallet
    */
-  async exportReceipts(userAddress: string): Promise<string> {
+  async exportReceipts(
+    userAddress: string,
+    signTypedData: (typedData: ZKReceiptBundleTypedData) => Promise<`0x${string}`>,
+    chainId?: number
+  ): Promise<string> {
     try {
       const receipts = await this.getAllReceipts(userAddress);
-      
-      const exportData = {
-        version: '1.0',
-        exportedAt: Date.now(),
-        userAddress,
+      const bundle = await createReceiptBundle({
+        exporter: userAddress,
         receipts,
-        metadata: {
-          totalReceipts: receipts.length,
-          dateRange: {
-            oldest: Math.min(...receipts.map(r => r.timestamp)),
-            newest: Math.max(...receipts.map(r => r.timestamp))
-          }
-        }
-      };
+        chainId,
+        signTypedData
+      });
       
       // Save export record
       const exportRecord = {
-        id: `export_${Date.now()}`,
+        id: `export_${bundle.exportedAt}`,
         userAddress,
-        exportedAt: Date.now(),
-        receiptCount: receipts.length
+        exportedAt: bundle.exportedAt,
+        receiptCount: receipts.length,
+        receiptsRoot: bundle.receiptsRoot
       };
       
       this.saveExportRecord(exportRecord);
       
-      return JSON.stringify(exportData, null, 2);
+      return JSON.stringify(bundle, null, 2);
       
     } catch (error) {
       console.error('❌ Error exporting ZK receipts:', error);
@@ -338,24 +372,33 @@ class ZKReceiptStorage {
   }
 
   /**
-   * 🔧 IMPORT: Import ZK receipts from backup
+   * 🔧 IMPORT: Import a signed bundle; entries that fail verification are rejected
    */
-  async importReceipts(importData: string): Promise<{ imported: number; errors: number }> {
+  async importReceipts(importData: string): Promise<{ imported: number; rejected: number; errors: number }> {
     try {
-      const data = JSON.parse(importData);
+      const bundle = parseReceiptBundle(importData);
+      const verification = await verifyReceiptBundle(bundle);
       
-      if (!data.version || !data.receipts || !data.userAddress) {
-        throw new Error('Invalid import data format');
+      if (!verification.signatureValid) {
+        throw new ZKReceiptBundleError('Bundle signature does not match its exporter');
       }
       
       let imported = 0;
+      let rejected = 0;
       let errors = 0;
       
-      for (const receipt of data.receipts) {
+      bundle.entries.forEach((entry, i) => {
+        const result = verification.entries[i];
+        if (!result.valid) {
+          console.warn(`⚠️ Rejected ZK receipt ${result.id}: ${result.reasons.join(', ')}`);
+          rejected++;
+          return;
+        }
+        
         try {
           // Mark as imported
           const importedReceipt: ZKReceipt = {
-            ...receipt,
+            ...bundleEntryToReceipt(entry),
             syncedAt: Date.now(),
             localOnly: true // Mark as local-only since it's imported
           };
@@ -367,10 +410,10 @@ class ZKReceiptStorage {
           console.error('❌ Error importing receipt:', error);
           errors++;
         }
-      }
+      });
       
-      console.log(`✅ Import complete: ${imported} receipts imported, ${errors} errors`);
-      return { imported, errors };
+      console.log(`✅ Import complete: ${imported} receipts imported, ${rejected} rejected, ${errors} errors`);
+      return { imported, rejected, errors };
       
     } catch (error) {
       console.error('❌ Error importing ZK receipts:', error);
@@ -493,6 +536,12 @@ export const zkReceiptStorage = new ZKReceiptStorage();
 // Helper functions for easy access
 export const saveZKReceipt = (receipt: ZKReceipt) => zkReceiptStorage.saveReceipt(receipt);
 export const getAllZKReceipts = (userAddress: string) => zkReceiptStorage.getAllReceipts(userAddress);
-export const exportZKReceipts = (userAddress: string) => zkReceiptStorage.exportReceipts(userAddress);
+export const exportZKReceipts = (
+  userAddress: string,
+  signTypedData: (typedData: ZKReceiptBundleTypedData) => Promise<`0x${string}`>,
+  chainId?: number
+) => zkReceiptStorage.exportReceipts(userAddress, signTypedData, chainId);
 export const importZKReceipts = (importData: string) => zkReceiptStorage.importReceipts(importData);
-export const getZKReceiptStats = (userAddress: string) => zkReceiptStorage.getSyncStats(userAddress); 
\ No newline at end of file
+export const getZKReceiptStats = (userAddress: string) => zkReceiptStorage.getSyncStats(userAddress);
+export const getReceivedZKReceipts = (userAddress: string) => zkReceiptStorage.getReceivedReceipts(userAddress);
+export const isZKReceiptSignInRequired = () => zkReceiptStorage.isSignInRequired(); 
\ No newline at end of file
@@ -1,38 +1,60 @@
 import { createConfig } from "@ponder/core";
 import { http } from "viem";
+import { STEALTH_NETWORKS } from "./src/lib/stealth-networks";
+
+// ERC-5564 / ERC-6538 singletons share one CREATE2 address on every chain
+const ERC5564_ANNOUNCER = "0x55649E01B5Df198D18D95b5cc5051630cfD45564";
+const ERC6538_REGISTRY = "0x6538E6bf4B0eBd30A8Ea093027Ac2422ce5d6538";
+
+// First block to scan per network, at or before the singletons' deployment
+const STEALTH_START_BLOCKS = {
+  mainnet: 18884340,
+  sepolia: 4916000,
+  base: 8400000,
+  baseSepolia: 3500000,
+  optimism: 113800000,
+  arbitrum: 163000000,
+};
+
+const stealthSingleton = (address: `0x${string}`) =>
+  Object.fromEntries(
+    Object.entries(STEALTH_START_BLOCKS).map(([network, startBlock]) => [
+      network,
+      { address, startBlock },
+    ]),
+  ) as Record<keyof typeof STEALTH_START_BLOCKS, { address: `0x${string}`; startBlock: number }>;
 
 export default createConfig({
   networks: {
     mainnet: {
-      chainId: 1,
+      chainId: STEALTH_NETWORKS.mainnet,
       transport: http("https://mainnet.llamarpc.com"),
     },
     base: {
-      chainId: 8453,
+      chainId: STEALTH_NETWORKS.base,
       transport: http("https://base.llamarpc.com"),
     },
+    optimism: {
+      chainId: STEALTH_NETWORKS.optimism,
+      transport: http("https://optimism-rpc.publicnode.com"),
+    },
+    arbitrum: {
+      chainId: STEALTH_NETWORKS.arbitrum,
+      transport: http("https://arbitrum-one-rpc.publicnode.com"),
+    },
     sepolia: {
-      chainId: 11155111, 
+      chainId: STEALTH_NETWORKS.sepolia,
       transport: http("https://ethereum-sepolia-rpc.publicnode.com"),
     },
     baseSepolia: {
-      chainId: 84532,
+      chainId: STEALTH_NETWORKS.baseSepolia,
       transport: http("https://sepolia.base.org"),
     },
   },
   contracts: {
     // ERC-5564 Stealth Address Announcer
     StealthAnnouncer: {
-      network: {
-        mainnet: {
-          address: "0x55649E01B5Df198D18D95b5cc5051630cfD45564",
-          startBlock: 18884340, // Block when contract was deployed
-        },
-        sepolia: {
-          address: "0x55649E01B5Df198D18D95b5cc5051630cfD45564", 
-          startBlock: 4916000,
-        },
-      },
+      network: stealthSingleton(ERC5564_ANNOUNCER),
       abi: [
         {
           type: "event",
@@ -50,16 +72,7 @@ export default createConfig({
     
     // ERC-6538 Stealth Key Registry
     StealthRegistry: {
-      network: {
-        mainnet: {
-          address: "0x6538E6bf4B0eBd30A8Ea093027Ac2422ce5d6538",
-          startBlock: 18884340,
-        },
-        sepolia: {
-          address: "0x6538E6bf4B0eBd30A8Ea093027Ac2422ce5d6538",
-          startBlock: 4916000,
-        },
-      },
+      network: stealthSingleton(ERC6538_REGISTRY),
       abi: [
         {
           type: "event", 
@@ -0,0 +1,267 @@
+import { ponder, type ApiContext } from "@/generated";
+import { and, asc, desc, eq, gte, graphql, inArray, like } from "@ponder/core";
+import type { Column } from "drizzle-orm";
+import {
+  ApiParamError,
+  buildDailyStats,
+  mergeTimeline,
+  pageByBlock,
+  parseAddress,
+  parseIntParam,
+  parseNetworks,
+  SECONDS_PER_DAY,
+  toJson,
+  type TimelineItem,
+} from "../lib/privacy-api";
+
+// Defining custom routes replaces the default GraphQL mount, so serve it on
+// both paths deployments already point at
+ponder.use("/", graphql());
+ponder.use("/graphql", graphql());
+
+const MAX_TIMELINE_WINDOW = 1000;
+
+// Bad query params become 400s instead of 500s
+function withParams<
+  C extends ApiContext & { json: (body: { error: string }, status: 400) => Response },
+  R,
+>(handler: (c: C) => Promise<R>) {
+  return async (c: C) => {
+    try {
+      return await handler(c);
+    } catch (error) {
+      if (error instanceof ApiParamError) return c.json({ error: error.message }, 400);
+      throw error;
+    }
+  };
+}
+
+// Precomputed PrivacyProfile for an address (404 when it has no activity)
+ponder.get("/profiles/:address", withParams(async (c) => {
+  const address = parseAddress(c.req.param("address"));
+  const { PrivacyProfile } = c.tables;
+
+  const [profile] = await c.db
+    .select()
+    .from(PrivacyProfile)
+    .where(eq(PrivacyProfile.id, address))
+    .limit(1);
+
+  if (!profile) return c.json({ error: "No indexed activity for this address" }, 404);
+  return c.json(toJson({ ...profile, networks: JSON.parse(profile.networks) }));
+}));
+
+/**
+ * Newest-first activity for an address across ERC-5564/6538 and Umbra.
+ * ?limit=1-100 (default 25) &offset=0 &networks=mainnet,base
+ */
+ponder.get("/profiles/:address/timeline", withParams(async (c) => {
+  const address = parseAddress(c.req.param("address"));
+  const limit = parseIntParam(c.req.query("limit"), "limit", { min: 1, max: 100, fallback: 25 });
+  const offset = parseIntParam(c.req.query("offset"), "offset", {
+    min: 0,
+    max: MAX_TIMELINE_WINDOW - limit - 1,
+    fallback: 0,
+  });
+  const networks = parseNetworks(c.req.query("networks"));
+
+  const { StealthAnnouncement, StealthRegistration, UmbraTransaction, UmbraKeyRegistration } = c.tables;
+  const window = offset + limit + 1;
+  const inNetworks = (column: Column) => (networks ? inArray(column, networks) : undefined);
+
+  const [announcements, registrations, umbraReceived, umbraWithdrawn, umbraKeys] = await Promise.all([
+    c.db
+      .select()
+      .from(StealthAnnouncement)
+      .where(and(eq(StealthAnnouncement.caller, address), inNetworks(StealthAnnouncement.network)))
+      .orderBy(desc(StealthAnnouncement.blockNumber))
+      .limit(window),
+    c.db
+      .select()
+      .from(StealthRegistration)
+      .where(and(eq(StealthRegistration.registrant, address), inNetworks(StealthRegistration.network)))
+      .orderBy(desc(StealthRegistration.blockNumber))
+      .limit(window),
+    c.db
+      .select()
+      .from(UmbraTransaction)
+      .where(and(eq(UmbraTransaction.receiver, address), inNetworks(UmbraTransaction.network)))
+      .orderBy(desc(UmbraTransaction.blockNumber))
+      .limit(window),
+    c.db
+      .select()
+      .from(UmbraTransaction)
+      .where(and(eq(UmbraTransaction.acceptor, address), inNetworks(UmbraTransaction.network)))
+      .orderBy(desc(UmbraTransaction.blockNumber))
+      .limit(window),
+    c.db
+      .select()
+      .from(UmbraKeyRegistration)
+      .where(and(eq(UmbraKeyRegistration.registrant, address), inNetworks(UmbraKeyRegistration.network)))
+      .orderBy(desc(UmbraKeyRegistration.blockNumber))
+      .limit(window),
+  ]);
+
+  const umbra = (row: (typeof umbraReceived)[number]) => ({
+    ...row,
+    type: row.type === "send" ? "umbra_send" : "umbra_withdraw",
+  });
+
+  const { items, hasMore } = mergeTimeline<TimelineItem>(
+    [
+      announcements.map((row) => ({ ...row, type: "announcement" })),
+      registrations.map((row) => ({ ...row, type: "registration" })),
+      umbraReceived.map(umbra),
+      umbraWithdrawn.map(umbra),
+      umbraKeys.map((row) => ({ ...row, type: "umbra_key_registration" })),
+    ],
+    offset,
+    limit,
+  );
+
+  return c.json(
+    toJson({
+      address,
+      items,
+      pagination: { limit, offset, hasMore, nextOffset: hasMore ? offset + limit : null },
+    }),
+  );
+}));
+
+/**
+ * Top-N addresses by privacyScore, optionally only those active on a network.
+ * ?network=base &limit=1-100 (default 10)
+ */
+ponder.get("/leaderboard", withParams(async (c) => {
+  const limit = parseIntParam(c.req.query("limit"), "limit", { min: 1, max: 100, fallback: 10 });
+  const [network] = parseNetworks(c.req.query("network")) ?? [];
+  const { PrivacyProfile } = c.tables;
+
+  const profiles = await c.db
+    .select()
+    .from(PrivacyProfile)
+    // networks is a JSON array of names, e.g. ["base","mainnet"]
+    .where(network ? like(PrivacyProfile.networks, `%"${network}"%`) : undefined)
+    .orderBy(desc(PrivacyProfile.privacyScore), desc(PrivacyProfile.lastActivity))
+    .limit(limit);
+
+  return c.json(
+    toJson({
+      network: network ?? null,
+      entries: profiles.map((profile, index) => ({
+        rank: index + 1,
+        address: profile.address,
+        privacyScore: profile.privacyScore,
+        lastActivity: profile.lastActivity,
+        networks: JSON.parse(profile.networks),
+      })),
+    }),
+  );
+}));
+
+/**
+ * Protocol activity per UTC day: announcements, registrations and Umbra
+ * volume per token. Rows are bucketed in JS so the same query works on the
+ * SQLite and Postgres backends.
+ * ?days=1-90 (default 30) &networks=mainnet
+ */
+ponder.get("/stats/daily", withParams(async (c) => {
+  const days = parseIntParam(c.req.query("days"), "days", { min: 1, max: 90, fallback: 30 });
+  const networks = parseNetworks(c.req.query("networks"));
+  const today = BigInt(Math.floor(Date.now() / 1000 / SECONDS_PER_DAY));
+  const since = (today - BigInt(days - 1)) * BigInt(SECONDS_PER_DAY);
+
+  const { StealthAnnouncement, StealthRegistration, UmbraTransaction, UmbraKeyRegistration } = c.tables;
+  const inNetworks = (column: Column) => (networks ? inArray(column, networks) : undefined);
+
+  const [announcements, registrations, umbraKeyRegistrations, umbraTransactions] = await Promise.all([
+    c.db
+      .select({ timestamp: StealthAnnouncement.timestamp })
+      .from(StealthAnnouncement)
+      .where(and(gte(StealthAnnouncement.timestamp, since), inNetworks(StealthAnnouncement.network))),
+    c.db
+      .select({ timestamp: StealthRegistration.timestamp })
+      .from(StealthRegistration)
+      .where(and(gte(StealthRegistration.timestamp, since), inNetworks(StealthRegistration.network))),
+    c.db
+      .select({ timestamp: UmbraKeyRegistration.timestamp })
+      .from(UmbraKeyRegistration)
+      .where(and(gte(UmbraKeyRegistration.timestamp, since), inNetworks(UmbraKeyRegistration.network))),
+    c.db
+      .select({
+        timestamp: UmbraTransaction.timestamp,
+        type: UmbraTransaction.type,
+        token: UmbraTransaction.token,
+        amount: UmbraTransaction.amount,
+      })
+      .from(UmbraTransaction)
+      .where(and(gte(UmbraTransaction.timestamp, since), inNetworks(UmbraTransaction.network))),
+  ]);
+
+  return c.json(
+    toJson({
+      days,
+      networks: networks ?? null,
+      stats: buildDailyStats(since, days, {
+        announcements,
+        registrations,
+        umbraKeyRegistrations,
+        umbraTransactions,
+      }),
+    }),
+  );
+}));
+
+/**
+ * Raw ERC-5564 announcements on one network, oldest first, for wallets that
+ * match them against their viewing key locally. Pages end on a block
+ * boundary; pass `nextFromBlock` back as `fromBlock` to continue.
+ * ?network=base (required) &fromBlock=0 &limit=1-1000 (default 500)
+ */
+ponder.get("/announcements", withParams(async (c) => {
+  const [network] = parseNetworks(c.req.query("network")) ?? [];
+  if (!network) throw new ApiParamError("network is required");
+  const limit = parseIntParam(c.req.query("limit"), "limit", { min: 1, max: 1000, fallback: 500 });
+  const fromBlock = BigInt(
+    parseIntParam(c.req.query("fromBlock"), "fromBlock", { min: 0, max: Number.MAX_SAFE_INTEGER, fallback: 0 }),
+  );
+
+  const { StealthAnnouncement } = c.tables;
+  const columns = {
+    schemeId: StealthAnnouncement.schemeId,
+    stealthAddress: StealthAnnouncement.stealthAddress,
+    caller: StealthAnnouncement.caller,
+    ephemeralPubKey: StealthAnnouncement.ephemeralPubKey,
+    metadata: StealthAnnouncement.metadata,
+    blockNumber: StealthAnnouncement.blockNumber,
+    transactionHash: StealthAnnouncement.transactionHash,
+  };
+
+  const rows = await c.db
+    .select(columns)
+    .from(StealthAnnouncement)
+    .where(and(eq(StealthAnnouncement.network, network), gte(StealthAnnouncement.blockNumber, fromBlock)))
+    .orderBy(asc(StealthAnnouncement.blockNumber), asc(StealthAnnouncement.id))
+    .limit(limit + 1);
+
+  let { items, nextFromBlock } = pageByBlock(rows, limit);
+  if (items.length === 0 && rows.length > 0) {
+    // One block with more announcements than fit in a page: send it whole
+    const block = rows[0]!.blockNumber;
+    items = await c.db
+      .select(columns)
+      .from(StealthAnnouncement)
+      .where(and(eq(StealthAnnouncement.network, network), eq(StealthAnnouncement.blockNumber, block)))
+      .orderBy(asc(StealthAnnouncement.id));
+    nextFromBlock = block + 1n;
+  }
+
+  return c.json(
+    toJson({
+      network,
+      announcements: items,
+      hasMore: rows.length > limit,
+      nextFromBlock,
+    }),
+  );
+}));
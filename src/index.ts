@@ -1,8 +1,41 @@
-import { ponder } from "@/generated";
+import { ponder, type Context } from "@/generated";
+import {
+  applyPrivacyActivity,
+  emptyPrivacyProfile,
+  type PrivacyProfileFields,
+} from "./lib/privacy-score";
+import { getStealthNetworkName } from "./lib/stealth-networks";
+
+// Name stored in every row's `network` column, shared with the backend monitor
+function networkOf(context: Context): string {
+  return getStealthNetworkName(context.network.chainId) ?? context.network.name;
+}
+
+// Upsert `address`'s PrivacyProfile with one event's counter changes
+async function updatePrivacyProfile(
+  context: Context,
+  address: `0x${string}`,
+  activity: { network: string; timestamp: bigint },
+  changes: (current: PrivacyProfileFields) => Partial<PrivacyProfileFields>,
+) {
+  const { PrivacyProfile } = context.db;
+  const id = address.toLowerCase() as `0x${string}`;
+  const initial = emptyPrivacyProfile(id);
+
+  await PrivacyProfile.upsert({
+    id,
+    create: applyPrivacyActivity(initial, activity, changes(initial)),
+    update: ({ current }) => {
+      const { id: _id, ...profile } = current;
+      return applyPrivacyActivity(profile, activity, changes(profile));
+    },
+  });
+}
 
 // Index ERC-5564 Stealth Address Announcements
 ponder.on("StealthAnnouncer:Announcement", async ({ event, context }) => {
   const { StealthAnnouncement } = context.db;
+  const network = networkOf(context);
 
   await StealthAnnouncement.create({
     id: event.log.id,
@@ -15,14 +48,22 @@ ponder.on("StealthAnnouncer:Announcement", async ({ event, context }) => {
       blockNumber: event.block.number,
       timestamp: event.block.timestamp,
       transactionHash: event.transaction.hash,
-      network: event.log.chainId === 1 ? "mainnet" : "sepolia",
+      network,
     },
   });
+
+  await updatePrivacyProfile(
+    context,
+    event.args.caller,
+    { network, timestamp: event.block.timestamp },
+    (profile) => ({ announcementCount: profile.announcementCount + 1 }),
+  );
 });
 
 // Index ERC-6538 Stealth Key Registry
 ponder.on("StealthRegistry:StealthMetaAddressSet", async ({ event, context }) => {
   const { StealthRegistration } = context.db;
+  const network = networkOf(context);
 
   await StealthRegistration.create({
     id: event.log.id,
@@ -33,9 +74,16 @@ ponder.on("StealthRegistry:StealthMetaAddressSet", async ({ event, context }) =>
       blockNumber: event.block.number,
       timestamp: event.block.timestamp,
       transactionHash: event.transaction.hash,
-      network: event.log.chainId === 1 ? "mainnet" : "sepolia",
+      network,
     },
   });
+
+  await updatePrivacyProfile(
+    context,
+    event.args.registrant,
+    { network, timestamp: event.block.timestamp },
+    (profile) => ({ registrationCount: profile.registrationCount + 1 }),
+  );
 });
 
 // Index Umbra Protocol Announcements
@@ -54,9 +102,17 @@ ponder.on("UmbraProtocol:Announcement", async ({ event, context }) => {
       blockNumber: event.block.number,
       timestamp: event.block.timestamp,
       transactionHash: event.transaction.hash,
-      network: "mainnet",
+      network: networkOf(context),
     },
   });
+
+  // The sender isn't in the event, so the send counts for the stealth receiver
+  await updatePrivacyProfile(
+    context,
+    event.args.receiver,
+    { network: networkOf(context), timestamp: event.block.timestamp },
+    (profile) => ({ umbraSendCount: profile.umbraSendCount + 1 }),
+  );
 });
 
 // Index Umbra Protocol Withdrawals
@@ -75,9 +131,17 @@ ponder.on("UmbraProtocol:TokenWithdrawal", async ({ event, context }) => {
       blockNumber: event.block.number,
       timestamp: event.block.timestamp,
       transactionHash: event.transaction.hash,
-      network: "mainnet",
+      network: networkOf(context),
     },
   });
+
+  // Credit the withdrawal to the address that received the funds
+  await updatePrivacyProfile(
+    context,
+    event.args.acceptor,
+    { network: networkOf(context), timestamp: event.block.timestamp },
+    (profile) => ({ umbraWithdrawCount: profile.umbraWithdrawCount + 1 }),
+  );
 });
 
 // Index Umbra Stealth Key Changes
@@ -93,9 +157,16 @@ ponder.on("UmbraKeyRegistry:StealthKeyChanged", async ({ event, context }) => {
       blockNumber: event.block.number,
       timestamp: event.block.timestamp,
       transactionHash: event.transaction.hash,
-      network: "mainnet",
+      network: networkOf(context),
     },
   });
+
+  await updatePrivacyProfile(
+    context,
+    event.args.registrant,
+    { network: networkOf(context), timestamp: event.block.timestamp },
+    (profile) => ({ umbraKeyRegistrations: profile.umbraKeyRegistrations + 1 }),
+  );
 });
 
 // Index FluidKey Score Updates (Base)
@@ -105,34 +176,52 @@ ponder.on("FluidKeyScore:Transfer", async ({ event, context }) => {
   // Update both sender and receiver balances
   if (event.args.from !== "0x0000000000000000000000000000000000000000") {
     await FluidKeyBalance.upsert({
-      id: `${event.args.from}-${event.log.chainId}`,
+      id: `${event.args.from}-${context.network.chainId}`,
       create: {
         address: event.args.from,
         balance: (-Number(event.args.value)).toString(),
         lastUpdated: event.block.timestamp,
-        network: "base",
+        network: networkOf(context),
       },
       update: ({ current }) => ({
         balance: (BigInt(current.balance) - event.args.value).toString(),
         lastUpdated: event.block.timestamp,
       }),
     });
+
+    await updatePrivacyProfile(
+      context,
+      event.args.from,
+      { network: networkOf(context), timestamp: event.block.timestamp },
+      (profile) => ({
+        fluidKeyBalance: (BigInt(profile.fluidKeyBalance) - event.args.value).toString(),
+      }),
+    );
   }
 
   if (event.args.to !== "0x0000000000000000000000000000000000000000") {
     await FluidKeyBalance.upsert({
-      id: `${event.args.to}-${event.log.chainId}`,
+      id: `${event.args.to}-${context.network.chainId}`,
       create: {
         address: event.args.to,
         balance: event.args.value.toString(),
         lastUpdated: event.block.timestamp,
-        network: "base",
+        network: networkOf(context),
       },
       update: ({ current }) => ({
         balance: (BigInt(current.balance) + event.args.value).toString(),
         lastUpdated: event.block.timestamp,
       }),
     });
+
+    await updatePrivacyProfile(
+      context,
+      event.args.to,
+      { network: networkOf(context), timestamp: event.block.timestamp },
+      (profile) => ({
+        fluidKeyBalance: (BigInt(profile.fluidKeyBalance) + event.args.value).toString(),
+      }),
+    );
   }
 });
 
@@ -141,16 +230,23 @@ ponder.on("FluidKeyScore:ScoreUpdated", async ({ event, context }) => {
   const { FluidKeyScore } = context.db;
 
   await FluidKeyScore.upsert({
-    id: `${event.args.user}-${event.log.chainId}`,
+    id: `${event.args.user}-${context.network.chainId}`,
     create: {
       address: event.args.user,
       score: event.args.newScore.toString(),
       lastUpdated: event.args.timestamp,
-      network: "base",
+      network: networkOf(context),
     },
     update: {
       score: event.args.newScore.toString(),
       lastUpdated: event.args.timestamp,
     },
   });
+
+  await updatePrivacyProfile(
+    context,
+    event.args.user,
+    { network: networkOf(context), timestamp: event.block.timestamp },
+    () => ({ fluidKeyScore: event.args.newScore.toString() }),
+  );
 }); 
\ No newline at end of file
@@ -0,0 +1,190 @@
+/**
+ * Parameter parsing, timeline merging and daily bucketing for the privacy
+ * routes in `src/api`. Kept free of Ponder imports so it's plain functions.
+ */
+
+import { STEALTH_NETWORK_NAMES } from "./stealth-networks";
+
+export const NETWORKS = STEALTH_NETWORK_NAMES;
+
+export const SECONDS_PER_DAY = 86_400;
+
+export class ApiParamError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ApiParamError";
+  }
+}
+
+export function parseIntParam(
+  value: string | undefined,
+  name: string,
+  { min, max, fallback }: { min: number; max: number; fallback: number },
+): number {
+  if (value === undefined || value === "") return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min || parsed > max) {
+    throw new ApiParamError(`${name} must be an integer between ${min} and ${max}`);
+  }
+  return parsed;
+}
+
+// "mainnet,base" -> ["mainnet", "base"]; undefined when not given
+export function parseNetworks(value: string | undefined): string[] | undefined {
+  if (!value) return undefined;
+  const networks = value.split(",").map((network) => network.trim()).filter(Boolean);
+  for (const network of networks) {
+    if (!(NETWORKS as string[]).includes(network)) {
+      throw new ApiParamError(`Unknown network "${network}". Expected one of: ${NETWORKS.join(", ")}`);
+    }
+  }
+  return networks.length ? networks : undefined;
+}
+
+export function parseAddress(value: string): `0x${string}` {
+  if (!/^0x[0-9a-fA-F]{40}$/.test(value)) {
+    throw new ApiParamError(`Invalid address "${value}"`);
+  }
+  return value.toLowerCase() as `0x${string}`;
+}
+
+export interface TimelineItem {
+  type: string;
+  blockNumber: bigint;
+  timestamp: bigint;
+  transactionHash: string;
+  network: string;
+}
+
+/**
+ * Merge per-table results (each newest first, each fetched with at least
+ * offset + limit + 1 rows) into one newest-first page.
+ */
+export function mergeTimeline<T extends TimelineItem>(
+  sources: T[][],
+  offset: number,
+  limit: number,
+): { items: T[]; hasMore: boolean } {
+  const seen = new Set<string>();
+  const merged: T[] = [];
+  for (const item of sources.flat()) {
+    const key = `${item.network}:${item.transactionHash}:${item.type}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    merged.push(item);
+  }
+
+  merged.sort((a, b) =>
+    a.blockNumber === b.blockNumber
+      ? Number(b.timestamp - a.timestamp)
+      : b.blockNumber > a.blockNumber ? 1 : -1,
+  );
+
+  return {
+    items: merged.slice(offset, offset + limit),
+    hasMore: merged.length > offset + limit,
+  };
+}
+
+/**
+ * Cut a page of rows fetched oldest first (limit + 1 of them) on a block
+ * boundary, so a client resuming from `nextFromBlock` never skips or repeats
+ * events. `items` comes back empty when the first block alone holds more than
+ * `limit` rows; the caller then fetches that block whole. `nextFromBlock` is
+ * null once there is nothing left to page through.
+ */
+export function pageByBlock<T extends { blockNumber: bigint }>(
+  rows: T[],
+  limit: number,
+): { items: T[]; nextFromBlock: bigint | null } {
+  if (rows.length <= limit) {
+    const last = rows[rows.length - 1];
+    return { items: rows, nextFromBlock: last ? last.blockNumber + 1n : null };
+  }
+
+  const boundary = rows[limit].blockNumber;
+  return { items: rows.filter((row) => row.blockNumber < boundary), nextFromBlock: boundary };
+}
+
+// UTC calendar day for a unix timestamp in seconds
+export function dayOf(timestamp: bigint): string {
+  const day = Number(timestamp / BigInt(SECONDS_PER_DAY));
+  return new Date(day * SECONDS_PER_DAY * 1000).toISOString().slice(0, 10);
+}
+
+export interface DailyStats {
+  date: string;
+  announcements: number;
+  registrations: number;
+  umbraKeyRegistrations: number;
+  umbraSends: number;
+  umbraWithdrawals: number;
+  umbraVolume: Record<string, string>; // token -> summed send amount (base units)
+}
+
+/**
+ * Bucket event rows into one DailyStats per day, oldest first, with a row for
+ * every day in the window even when nothing happened.
+ */
+export function buildDailyStats(
+  since: bigint,
+  days: number,
+  rows: {
+    announcements: { timestamp: bigint }[];
+    registrations: { timestamp: bigint }[];
+    umbraKeyRegistrations: { timestamp: bigint }[];
+    umbraTransactions: { timestamp: bigint; type: string; token: string; amount: string }[];
+  },
+): DailyStats[] {
+  const byDay = new Map<string, DailyStats & { volume: Map<string, bigint> }>();
+  for (let i = 0; i < days; i++) {
+    const date = dayOf(since + BigInt(i * SECONDS_PER_DAY));
+    byDay.set(date, {
+      date,
+      announcements: 0,
+      registrations: 0,
+      umbraKeyRegistrations: 0,
+      umbraSends: 0,
+      umbraWithdrawals: 0,
+      umbraVolume: {},
+      volume: new Map(),
+    });
+  }
+  const bucket = (timestamp: bigint) => byDay.get(dayOf(timestamp));
+
+  for (const row of rows.announcements) {
+    const day = bucket(row.timestamp);
+    if (day) day.announcements++;
+  }
+  for (const row of rows.registrations) {
+    const day = bucket(row.timestamp);
+    if (day) day.registrations++;
+  }
+  for (const row of rows.umbraKeyRegistrations) {
+    const day = bucket(row.timestamp);
+    if (day) day.umbraKeyRegistrations++;
+  }
+  for (const row of rows.umbraTransactions) {
+    const day = bucket(row.timestamp);
+    if (!day) continue;
+    if (row.type === "withdrawal") {
+      day.umbraWithdrawals++;
+      continue;
+    }
+    day.umbraSends++;
+    const token = row.token.toLowerCase();
+    day.volume.set(token, (day.volume.get(token) ?? 0n) + BigInt(row.amount));
+  }
+
+  return [...byDay.values()].map(({ volume, ...day }) => ({
+    ...day,
+    umbraVolume: Object.fromEntries([...volume].map(([token, amount]) => [token, amount.toString()])),
+  }));
+}
+
+// JSON.stringify can't handle bigint; send them as decimal strings
+export function toJson<T>(value: T): unknown {
+  return JSON.parse(
+    JSON.stringify(value, (_key, item) => (typeof item === "bigint" ? item.toString() : item)),
+  );
+}
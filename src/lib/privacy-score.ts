@@ -0,0 +1,84 @@
+/**
+ * PrivacyProfile aggregation.
+ *
+ * Every indexed event bumps one counter on the profile of the address it
+ * concerns, then the score is recomputed from the counters alone, so
+ * replaying the same events always yields the same row.
+ *
+ * Score (0-100), sum of capped components:
+ *
+ *   Stealth keys       20  15 for an ERC-6538 registration, 5 for an Umbra key
+ *   ERC-5564 sends     30  6 per announcement, capped at 5
+ *   Umbra usage        20  4 per send/withdrawal, capped at 5
+ *   FluidKey           20  10 for holding the score token, + score / 10 (max 10)
+ *   Multi-network      10  5 per network beyond the first, capped at 2
+ */
+
+export interface PrivacyProfileFields {
+  address: `0x${string}`;
+  announcementCount: number;
+  registrationCount: number;
+  umbraSendCount: number;
+  umbraWithdrawCount: number;
+  umbraKeyRegistrations: number;
+  fluidKeyBalance: string;
+  fluidKeyScore: string;
+  privacyScore: number;
+  lastActivity: bigint;
+  networks: string; // JSON array of network names
+}
+
+export function emptyPrivacyProfile(address: `0x${string}`): PrivacyProfileFields {
+  return {
+    address,
+    announcementCount: 0,
+    registrationCount: 0,
+    umbraSendCount: 0,
+    umbraWithdrawCount: 0,
+    umbraKeyRegistrations: 0,
+    fluidKeyBalance: "0",
+    fluidKeyScore: "0",
+    privacyScore: 0,
+    lastActivity: 0n,
+    networks: "[]",
+  };
+}
+
+export function computePrivacyScore(
+  profile: Omit<PrivacyProfileFields, "privacyScore" | "address" | "lastActivity">,
+): number {
+  const keys =
+    (profile.registrationCount > 0 ? 15 : 0) + (profile.umbraKeyRegistrations > 0 ? 5 : 0);
+  const announcements = Math.min(profile.announcementCount, 5) * 6;
+  const umbra = Math.min(profile.umbraSendCount + profile.umbraWithdrawCount, 5) * 4;
+
+  const fluidKeyScore = Math.max(Number(profile.fluidKeyScore) || 0, 0);
+  const fluidKey =
+    (BigInt(profile.fluidKeyBalance) > 0n ? 10 : 0) + Math.min(Math.floor(fluidKeyScore / 10), 10);
+
+  const networkCount = (JSON.parse(profile.networks) as string[]).length;
+  const multiNetwork = Math.min(Math.max(networkCount - 1, 0), 2) * 5;
+
+  return keys + announcements + umbra + fluidKey + multiNetwork;
+}
+
+/**
+ * Apply one event's changes to a profile: merge `changes`, record the network
+ * and timestamp, and recompute the score.
+ */
+export function applyPrivacyActivity(
+  current: PrivacyProfileFields,
+  activity: { network: string; timestamp: bigint },
+  changes: Partial<PrivacyProfileFields>,
+): PrivacyProfileFields {
+  const networks = new Set(JSON.parse(current.networks) as string[]);
+  networks.add(activity.network);
+
+  const next = {
+    ...current,
+    ...changes,
+    networks: JSON.stringify([...networks].sort()),
+    lastActivity: activity.timestamp > current.lastActivity ? activity.timestamp : current.lastActivity,
+  };
+  return { ...next, privacyScore: computePrivacyScore(next) };
+}